@@ -168,19 +168,76 @@ self.addEventListener("push", (event) => {
   event.waitUntil(self.registration.showNotification("Clowd DAV", options));
 });
 
+// Minutes a reminder is snoozed for when no page is open to reschedule it
+const REMINDER_SNOOZE_MINUTES = 5;
+
+// Focus an open window or open a new one
+function focusClient(clients) {
+  if (clients.length > 0) {
+    return clients[0].focus();
+  }
+  return self.clients.openWindow("/");
+}
+
+// Handle event reminder notifications: forward snooze/dismiss to the pages,
+// which keep the reminder state
+function handleReminderClick(event) {
+  const notification = event.notification;
+  const action = event.action === "snooze" ? "snooze" : "dismiss";
+
+  return self.clients
+    .matchAll({ type: "window", includeUncontrolled: true })
+    .then((clients) => {
+      clients.forEach((client) => {
+        client.postMessage({
+          type: "REMINDER_ACTION",
+          action,
+          key: notification.data.key,
+          minutes: REMINDER_SNOOZE_MINUTES,
+        });
+      });
+
+      if (action === "snooze") {
+        if (clients.length > 0) {
+          return undefined;
+        }
+        // No page to reschedule it, so show it again from here (best effort,
+        // the browser may stop the worker before the snooze ends)
+        return new Promise((resolve) =>
+          setTimeout(resolve, REMINDER_SNOOZE_MINUTES * 60 * 1000)
+        ).then(() =>
+          self.registration.showNotification(notification.title, {
+            body: notification.body,
+            tag: notification.tag,
+            icon: notification.icon,
+            data: notification.data,
+            requireInteraction: true,
+            actions: [
+              { action: "snooze", title: `Snooze ${REMINDER_SNOOZE_MINUTES} min` },
+              { action: "dismiss", title: "Dismiss" },
+            ],
+          })
+        );
+      }
+
+      // Clicking the reminder itself opens the app
+      return event.action ? undefined : focusClient(clients);
+    });
+}
+
 // Handle notification clicks
 self.addEventListener("notificationclick", (event) => {
-  console.log("Service Worker: Notification clicked");
   event.notification.close();
 
+  if (event.notification.data && event.notification.data.type === "event-reminder") {
+    event.waitUntil(handleReminderClick(event));
+    return;
+  }
+
   event.waitUntil(
     self.clients.matchAll().then((clients) => {
       // Focus existing window or open new one
-      if (clients.length > 0) {
-        return clients[0].focus();
-      } else {
-        return self.clients.openWindow("/");
-      }
+      return focusClient(clients);
     })
   );
 });
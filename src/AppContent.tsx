@@ -1,18 +1,23 @@
 import React, { useState, useEffect, useCallback } from "react";
-import { useLocation } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { LoadingOverlay, OfflineIndicator } from "./components/common";
 import { useLoading } from "./contexts/LoadingContext";
-import { AuthConfig } from "./types/auth";
+import { Account, AuthConfig } from "./types/auth";
 import { AuthManager } from "./services/AuthManager";
 import { DAVClient } from "./services/DAVClient";
-import { SyncService } from "./services/SyncService";
-import { CacheService } from "./services/CacheService";
+import { SyncConflict } from "./services/SyncService";
+import { AccountSyncService } from "./services/AccountSyncService";
 import { NetworkService } from "./services/NetworkService";
+import { ReminderService } from "./services/ReminderService";
+import { SchedulingService } from "./services/SchedulingService";
+import { ImportService } from "./services/ImportService";
+import { ExportService } from "./services/ExportService";
 import { ProviderFactory } from "./providers/ProviderFactory";
-import { DateRange } from "./types/dav";
+import { Calendar, CalendarEvent, Contact, DateRange, SchedulingInfo } from "./types/dav";
 import { ErrorHandlingService } from "./services/ErrorHandlingService";
 import { AddressBookColorService } from "./services/AddressBookColorService";
 import { syncUtils } from "./utils/syncUtils";
+import { DraggedEvent } from "./utils/eventDrag";
 
 // Components
 import { AppRoutes } from "./components/AppRoutes";
@@ -21,17 +26,23 @@ import { GlobalModals } from "./components/GlobalModals";
 import { ErrorContainer } from "./components/ErrorContainer";
 import { SetupComponent } from "./components/SetupComponent";
 import { CalendarComponent } from "./components/CalendarComponent";
+import { AgendaComponent } from "./components/AgendaComponent";
 import { ContactsComponent } from "./components/ContactsComponent";
+import { InboxComponent } from "./components/InboxComponent";
+import { TasksComponent } from "./components/TasksComponent";
 
 // Hooks
 import { useAppState } from "./hooks/useAppState";
 import { useCalendarHandlers } from "./hooks/useCalendarHandlers";
 import { useAddressBookHandlers } from "./hooks/useAddressBookHandlers";
 import { useDataLoader } from "./hooks/useDataLoader";
+import { useExportHandlers } from "./hooks/useExportHandlers";
+import { useTasks } from "./hooks/useTasks";
 
 export const AppContent: React.FC = () => {
   const { showLoading, hideLoading, loadingState } = useLoading();
   const location = useLocation();
+  const navigate = useNavigate();
   
   // App state
   const {
@@ -48,11 +59,14 @@ export const AppContent: React.FC = () => {
     editingEvent,
     selectedCalendar,
     initialDate,
+    eventDraft,
     showNewCalendarForm,
+    showImportCalendar,
     editingCalendar,
     addressBooks,
     visibleAddressBooks,
     showNewAddressBookForm,
+    showImportContacts,
     editingAddressBook,
     currentView,
     errors,
@@ -73,14 +87,18 @@ export const AppContent: React.FC = () => {
     setEditingEvent,
     setSelectedCalendar,
     setInitialDate,
+    setEventDraft,
     setShowNewCalendarForm,
+    setShowImportCalendar,
     setEditingCalendar,
     setAddressBooks,
     setVisibleAddressBooks,
     setShowNewAddressBookForm,
+    setShowImportContacts,
     setEditingAddressBook,
     setCurrentView,
     setErrors,
+    setContactRefreshTrigger,
     resetState,
   } = useAppState();
 
@@ -88,10 +106,27 @@ export const AppContent: React.FC = () => {
   const [authManager] = useState(() => AuthManager.getInstance());
   const [errorService] = useState(() => ErrorHandlingService.getInstance());
   const [davClient] = useState(() => new DAVClient());
-  const [syncService] = useState(() => new SyncService(davClient));
+  const [syncService] = useState(() => new AccountSyncService(davClient));
+  const [schedulingService] = useState(
+    () => new SchedulingService(davClient, syncService)
+  );
+  const [importService] = useState(
+    () => new ImportService((collection) => syncService.getDavClient(collection))
+  );
+  const [exportService] = useState(
+    () => new ExportService((collection) => syncService.getDavClient(collection))
+  );
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [showAddAccount, setShowAddAccount] = useState(false);
+  const [schedulingInfo, setSchedulingInfo] = useState<SchedulingInfo | null>(
+    () => schedulingService.getSchedulingInfo()
+  );
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>(
+    () => syncService.getSyncStatus().conflicts
+  );
 
   // Data loader
-  const { loadCalendarsAndAddressBooks, loadEvents } = useDataLoader({
+  const { loadCalendarsAndAddressBooks, loadEvents, loadEventDensity, loadEventsInRange } = useDataLoader({
     setCalendars,
     setVisibleCalendars,
     setAddressBooks,
@@ -109,13 +144,16 @@ export const AppContent: React.FC = () => {
     setVisibleCalendars,
     setEvents,
     setShowNewCalendarForm,
+    setShowImportCalendar,
     setEditingCalendar,
     setShowEventForm,
     setEditingEvent,
     setSelectedCalendar,
     setInitialDate,
+    setEventDraft,
     currentDateRange,
     sync: syncService,
+    scheduling: schedulingService,
     loadEvents,
   });
 
@@ -125,10 +163,21 @@ export const AppContent: React.FC = () => {
     setAddressBooks,
     setVisibleAddressBooks,
     setShowNewAddressBookForm,
+    setShowImportContacts,
+    setContactRefreshTrigger,
     setEditingAddressBook,
     sync: syncService,
   });
 
+  const exportHandlers = useExportHandlers({
+    exporter: exportService,
+    calendars,
+    addressBooks,
+  });
+
+  const taskHandlers = useTasks({ calendars, sync: syncService });
+  const { loadTasks } = taskHandlers;
+
   // Initialize error handling service
   useEffect(() => {
     const unsubscribe = errorService.subscribe((updatedErrors) => {
@@ -140,6 +189,32 @@ export const AppContent: React.FC = () => {
     };
   }, [errorService, setErrors]);
 
+  // Surface write conflicts recorded by the sync service
+  useEffect(() => {
+    const handleSyncStatus = (status: { conflicts: SyncConflict[] }) => {
+      setSyncConflicts(status.conflicts);
+    };
+
+    syncService.addSyncListener(handleSyncStatus);
+    return () => {
+      syncService.removeSyncListener(handleSyncStatus);
+    };
+  }, [syncService]);
+
+  // Show event reminders while signed in
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    const reminderService = ReminderService.getInstance();
+    reminderService.start();
+
+    return () => {
+      reminderService.stop();
+    };
+  }, [isAuthenticated]);
+
   const handleSetupComplete = useCallback(
     async (config: AuthConfig, masterPassword?: string) => {
       showLoading("Setting up connection...", "large");
@@ -154,11 +229,13 @@ export const AppContent: React.FC = () => {
         const isOnline = networkService.isOnline();
 
         if (isOnline) {
-          const provider = await ProviderFactory.createProviderForServer(
-            config.caldavUrl
+          const provider = await ProviderFactory.createProviderForConfig(
+            config
           );
           if (provider) {
             davClient.setProvider(provider);
+            // Not awaited: only needed for invitations
+            schedulingService.loadSchedulingInfo().then(setSchedulingInfo);
           } else {
             console.error("No compatible provider found for the server");
             errorService.reportError(
@@ -169,6 +246,11 @@ export const AppContent: React.FC = () => {
           console.log("Offline: skipping provider setup, will use cached data");
         }
 
+        // Connect the accounts added next to the one signed in with
+        const loadedAccounts = await authManager.loadAccounts();
+        setAccounts(loadedAccounts);
+        await syncService.setAccounts(loadedAccounts);
+
         await loadCalendarsAndAddressBooks();
       } catch (error) {
         console.error("Error setting up DAV client:", error);
@@ -182,11 +264,14 @@ export const AppContent: React.FC = () => {
       }
     },
     [
+      authManager,
       davClient,
       errorService,
       hideLoading,
       showLoading,
       loadCalendarsAndAddressBooks,
+      schedulingService,
+      syncService,
       setCurrentConfig,
       setIsAuthenticated,
     ]
@@ -279,6 +364,42 @@ export const AppContent: React.FC = () => {
     }
   }, [calendars.length, loadEvents]);
 
+  // Load tasks for the Tasks view and the calendar grid once calendars are known
+  useEffect(() => {
+    if (isAuthenticated && calendars.length > 0) {
+      loadTasks();
+    }
+  }, [isAuthenticated, calendars, loadTasks]);
+
+  // Busy times of the user and the attendees for the scheduling assistant
+  const handleLookupFreeBusy = useCallback(
+    (attendees: string[], range: DateRange) =>
+      schedulingService.getFreeBusy(attendees, range, calendars),
+    [schedulingService, calendars]
+  );
+
+  // An event dragged from the calendar onto a calendar in the sidebar
+  const handleEventDrop = (dragged: DraggedEvent, calendar: Calendar, copy: boolean) => {
+    const event = events.find(
+      (e) => e.uid === dragged.uid && e.calendarUrl === dragged.calendarUrl
+    );
+    if (event) {
+      calendarHandlers.handleEventTransfer(
+        event.master || event,
+        calendar,
+        copy ? "copy" : "move"
+      );
+    }
+  };
+
+  // Events picked in the agenda open in the day view of the calendar
+  const handleAgendaEventClick = (event: CalendarEvent) => {
+    setCalendarCurrentDate(new Date(event.dtstart));
+    setCalendarViewType("day");
+    calendarHandlers.handleEventClick(event);
+    navigate("/calendar");
+  };
+
   const handleDateRangeChange = useCallback(
     (dateRange: DateRange) => {
       const lastDateRange = lastDateRangeRef.current;
@@ -304,15 +425,63 @@ export const AppContent: React.FC = () => {
   );
 
   const handleLogout = () => {
+    syncService.setAccounts([]);
+    setAccounts([]);
     resetState();
   };
 
+  const handleAddAccount = async (config: AuthConfig, name: string) => {
+    const account = await authManager.addAccount(config, name || undefined);
+
+    showLoading("Adding account...");
+    try {
+      await syncService.addAccount(account);
+      setAccounts(authManager.getAccounts());
+      setShowAddAccount(false);
+      await loadCalendarsAndAddressBooks();
+    } catch (error) {
+      // Keep the dialog open so the connection details can be corrected
+      await authManager.removeAccount(account.id);
+      throw error;
+    } finally {
+      hideLoading();
+    }
+  };
+
+  const handleRemoveAccount = async (account: Account) => {
+    if (
+      !window.confirm(
+        `Remove the account "${account.name}"? Its calendars and contacts stay on the server.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await authManager.removeAccount(account.id);
+      await syncService.removeAccount(account.id);
+      setAccounts(authManager.getAccounts());
+      await loadCalendarsAndAddressBooks();
+    } catch (error) {
+      console.error("Failed to remove account:", error);
+      errorService.reportError(
+        `Failed to remove account: ${errorService.formatErrorMessage(error)}`
+      );
+    }
+  };
+
   // Update current view based on location
   useEffect(() => {
     if (location.pathname.includes("/calendar")) {
       setCurrentView("calendar");
+    } else if (location.pathname.includes("/agenda")) {
+      setCurrentView("agenda");
     } else if (location.pathname.includes("/contacts")) {
       setCurrentView("contacts");
+    } else if (location.pathname.includes("/tasks")) {
+      setCurrentView("tasks");
+    } else if (location.pathname.includes("/inbox")) {
+      setCurrentView("inbox");
     }
   }, [location.pathname, setCurrentView]);
 
@@ -353,13 +522,30 @@ export const AppContent: React.FC = () => {
     await errorService.retryOperation(id);
   };
 
+  // Apply the user's choice for a write conflict and refresh the affected view
+  const handleResolveConflict = async (
+    conflict: SyncConflict,
+    choice: "local" | "server" | "merged",
+    merged?: CalendarEvent | Contact
+  ) => {
+    await syncService.resolveConflict(conflict.id, choice, merged);
+
+    if (conflict.resourceType === "event") {
+      if (currentDateRange) {
+        await loadEvents(currentDateRange);
+      }
+    } else {
+      setContactRefreshTrigger((prev) => prev + 1);
+    }
+  };
+
   // Load address books function for contacts component
   const loadAddressBooks = async () => {
     try {
       showLoading("Loading address books...");
       await syncService.syncAddressBooks();
 
-      const cachedAddressBooks = CacheService.getCachedAddressBooks();
+      const cachedAddressBooks = await syncService.getCachedAddressBooks();
       const addressBooksWithColors = AddressBookColorService.applyColorsToAddressBooks(cachedAddressBooks);
       setAddressBooks(addressBooksWithColors);
       setVisibleAddressBooks(new Set(addressBooksWithColors.map((ab) => ab.url)));
@@ -407,13 +593,22 @@ export const AppContent: React.FC = () => {
           onCalendarToggle={calendarHandlers.handleCalendarToggle}
           onCalendarColorChange={calendarHandlers.handleCalendarColorChange}
           onCreateCalendar={calendarHandlers.handleCreateCalendar}
+          onImportCalendar={calendarHandlers.handleImportCalendar}
           onEditCalendar={calendarHandlers.handleEditCalendar}
+          onExportCalendar={exportHandlers.handleExportCalendar}
           addressBooks={addressBooks}
           visibleAddressBooks={visibleAddressBooks}
           onCreateAddressBook={addressBookHandlers.handleCreateAddressBook}
+          onImportContacts={addressBookHandlers.handleImportContacts}
           onEditAddressBook={addressBookHandlers.handleEditAddressBook}
           onAddressBookToggle={addressBookHandlers.handleAddressBookToggle}
           onAddressBookColorChange={addressBookHandlers.handleAddressBookColorChange}
+          onExportAddressBook={exportHandlers.handleExportAddressBook}
+          onExportAccount={exportHandlers.handleExportAccount}
+          accounts={accounts}
+          onAddAccount={() => setShowAddAccount(true)}
+          onRemoveAccount={handleRemoveAccount}
+          onEventDrop={handleEventDrop}
         />
       )}
 
@@ -425,6 +620,7 @@ export const AppContent: React.FC = () => {
             <CalendarComponent
               calendars={calendars}
               events={events}
+              tasks={taskHandlers.tasks}
               visibleCalendars={visibleCalendars}
               calendarCurrentDate={calendarCurrentDate}
               calendarViewType={calendarViewType}
@@ -432,21 +628,44 @@ export const AppContent: React.FC = () => {
               editingEvent={editingEvent}
               selectedCalendar={selectedCalendar}
               initialDate={initialDate}
+              eventDraft={eventDraft}
               showNewCalendarForm={showNewCalendarForm}
+              showImportCalendar={showImportCalendar}
+              importService={importService}
               editingCalendar={editingCalendar}
+              accounts={accounts}
               onDateRangeChange={handleDateRangeChange}
               onEventClick={calendarHandlers.handleEventClick}
               onCreateEvent={calendarHandlers.handleCreateEvent}
               onDateChange={setCalendarCurrentDate}
               onViewTypeChange={setCalendarViewType}
               onEventSave={calendarHandlers.handleEventSave}
+              onEventCopy={calendarHandlers.handleEventCopy}
+              onEventRespond={calendarHandlers.handleEventRespond}
+              userAddresses={schedulingInfo?.addresses}
+              onLookupFreeBusy={handleLookupFreeBusy}
               onEventFormCancel={calendarHandlers.handleEventFormCancel}
               onEventDelete={calendarHandlers.handleEventDelete}
               onNewCalendarSave={calendarHandlers.handleNewCalendarSave}
               onNewCalendarCancel={calendarHandlers.handleNewCalendarCancel}
+              onImportComplete={calendarHandlers.handleImportComplete}
+              onImportCalendarClose={calendarHandlers.handleImportCalendarClose}
               onEditCalendarSave={calendarHandlers.handleEditCalendarSave}
               onEditCalendarDelete={calendarHandlers.handleEditCalendarDelete}
               onEditCalendarCancel={calendarHandlers.handleEditCalendarCancel}
+              onTaskToggle={taskHandlers.toggleTaskCompleted}
+              onEventReschedule={calendarHandlers.handleEventReschedule}
+              onQuickCreateEvent={calendarHandlers.handleQuickCreateEvent}
+              onCreateEventFromDraft={calendarHandlers.handleCreateEventFromDraft}
+              onLoadEventDensity={loadEventDensity}
+            />
+          }
+          agendaComponent={
+            <AgendaComponent
+              calendars={calendars}
+              visibleCalendars={visibleCalendars}
+              onLoadEvents={loadEventsInRange}
+              onEventClick={handleAgendaEventClick}
             />
           }
           contactsComponent={
@@ -454,11 +673,35 @@ export const AppContent: React.FC = () => {
               addressBooks={addressBooks}
               visibleAddressBooks={visibleAddressBooks}
               syncService={syncService}
-              davClient={davClient}
+              getDavClient={(addressBook) => syncService.getDavClient(addressBook)}
+              accounts={accounts}
               contactRefreshTrigger={contactRefreshTrigger}
               onLoadAddressBooks={loadAddressBooks}
             />
           }
+          tasksComponent={
+            <TasksComponent
+              taskLists={taskHandlers.taskLists}
+              tasks={taskHandlers.tasks}
+              onRefresh={loadTasks}
+              onCreateTask={taskHandlers.createTask}
+              onUpdateTask={taskHandlers.updateTask}
+              onToggleTask={taskHandlers.toggleTaskCompleted}
+              onMoveTask={taskHandlers.reorderTask}
+              onDeleteTask={taskHandlers.deleteTask}
+            />
+          }
+          inboxComponent={
+            <InboxComponent
+              calendars={calendars}
+              schedulingService={schedulingService}
+              onMessageProcessed={() => {
+                if (currentDateRange) {
+                  loadEvents(currentDateRange);
+                }
+              }}
+            />
+          }
         />
       </main>
 
@@ -476,6 +719,17 @@ export const AppContent: React.FC = () => {
         onEditAddressBookSave={addressBookHandlers.handleEditAddressBookSave}
         onEditAddressBookDelete={addressBookHandlers.handleEditAddressBookDelete}
         onEditAddressBookCancel={addressBookHandlers.handleEditAddressBookCancel}
+        showImportContacts={showImportContacts}
+        addressBooks={addressBooks}
+        importService={importService}
+        accounts={accounts}
+        onImportContactsComplete={addressBookHandlers.handleImportContactsComplete}
+        onImportContactsClose={addressBookHandlers.handleImportContactsClose}
+        showAddAccount={showAddAccount}
+        onAddAccount={handleAddAccount}
+        onAddAccountCancel={() => setShowAddAccount(false)}
+        conflicts={syncConflicts}
+        onResolveConflict={handleResolveConflict}
       />
 
       <ErrorContainer
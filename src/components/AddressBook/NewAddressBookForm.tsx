@@ -1,16 +1,20 @@
 import React, { useState } from 'react';
 import { Modal } from '../common';
+import { Account } from '../../types/auth';
 import './NewAddressBookForm.css';
 
 interface NewAddressBookFormProps {
-  onSave: (displayName: string, description?: string) => Promise<void>;
+  accounts?: Account[];
+  onSave: (displayName: string, description?: string, accountId?: string) => Promise<void>;
   onCancel: () => void;
 }
 
 export const NewAddressBookForm: React.FC<NewAddressBookFormProps> = ({
+  accounts = [],
   onSave,
   onCancel,
 }) => {
+  const [accountId, setAccountId] = useState(accounts[0]?.id);
   const [displayName, setDisplayName] = useState('');
   const [description, setDescription] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -28,7 +32,7 @@ export const NewAddressBookForm: React.FC<NewAddressBookFormProps> = ({
     setError(null);
 
     try {
-      await onSave(displayName.trim(), description.trim() || undefined);
+      await onSave(displayName.trim(), description.trim() || undefined, accountId);
     } catch (error) {
       console.error('Error creating address book:', error);
       setError(error instanceof Error ? error.message : 'Failed to create address book');
@@ -52,6 +56,27 @@ export const NewAddressBookForm: React.FC<NewAddressBookFormProps> = ({
             </div>
           )}
 
+          {accounts.length > 1 && (
+            <div className="form-group">
+              <label htmlFor="address-book-account" className="form-label">
+                Account
+              </label>
+              <select
+                id="address-book-account"
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className="form-input"
+                disabled={isSubmitting}
+              >
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="form-group">
             <label htmlFor="address-book-name" className="form-label">
               Address Book Name *
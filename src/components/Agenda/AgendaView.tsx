@@ -0,0 +1,386 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Calendar, CalendarEvent, DateRange } from '../../types/dav';
+import { getEventCalendarColor } from '../../utils/calendarColors';
+import { addDays, eventOccursOnDate, isAllDayBandEvent, startOfDay } from '../../utils/eventDates';
+import { getDayKey } from '../../utils/eventDensity';
+import './AgendaView.css';
+
+// Days fetched by each scroll step
+const WINDOW_DAYS = 14;
+
+// Distance in pixels from either end of the list that loads the next window
+const SCROLL_THRESHOLD = 300;
+
+type LoadDirection = 'earlier' | 'later';
+
+interface AgendaDay {
+  date: Date;
+  events: CalendarEvent[];
+}
+
+interface AgendaViewProps {
+  calendars: Calendar[];
+  visibleCalendars?: Set<string>; // Events of other calendars are left out
+  onLoadEvents: (dateRange: DateRange) => Promise<CalendarEvent[]>;
+  onEventClick?: (event: CalendarEvent) => void;
+}
+
+// Same event or occurrence, e.g. a multi-day event fetched with both windows it spans
+const getEventKey = (event: CalendarEvent): string => {
+  return `${event.calendarUrl || ''}|${event.uid}|${new Date(event.dtstart).getTime()}`;
+};
+
+const mergeEvents = (events: CalendarEvent[], added: CalendarEvent[]): CalendarEvent[] => {
+  const merged = new Map(events.map(event => [getEventKey(event), event]));
+  added.forEach(event => merged.set(getEventKey(event), event));
+  return Array.from(merged.values());
+};
+
+const matchesQuery = (event: CalendarEvent, query: string): boolean => {
+  return [event.summary, event.location, event.description].some(
+    text => !!text && text.toLowerCase().includes(query)
+  );
+};
+
+const formatTime = (date: Date): string => {
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+};
+
+// Time of an event on one of the days it covers
+const formatEventTime = (event: CalendarEvent, day: Date): string => {
+  if (event.allDay) {
+    return 'All day';
+  }
+
+  const start = new Date(event.dtstart);
+  const end = new Date(event.dtend);
+  const startsToday = start >= day;
+  const endsToday = end <= addDays(day, 1);
+
+  if (startsToday && endsToday) {
+    return `${formatTime(start)} - ${formatTime(end)}`;
+  }
+  if (startsToday) {
+    return `From ${formatTime(start)}`;
+  }
+  if (endsToday) {
+    return `Until ${formatTime(end)}`;
+  }
+  return 'All day';
+};
+
+const formatDayHeading = (date: Date): string => {
+  const today = startOfDay(new Date());
+  const relative: Record<number, string> = {
+    [addDays(today, -1).getTime()]: 'Yesterday',
+    [today.getTime()]: 'Today',
+    [addDays(today, 1).getTime()]: 'Tomorrow'
+  };
+  const label = date.toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: date.getFullYear() === today.getFullYear() ? undefined : 'numeric'
+  });
+  const prefix = relative[date.getTime()];
+  return prefix ? `${prefix} · ${label}` : label;
+};
+
+/**
+ * Events grouped by day in one continuous list, fetching further windows of
+ * days as it is scrolled towards either end
+ */
+export const AgendaView: React.FC<AgendaViewProps> = ({
+  calendars,
+  visibleCalendars,
+  onLoadEvents,
+  onEventClick
+}) => {
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [loadedRange, setLoadedRange] = useState<DateRange | null>(null); // End is exclusive
+  const [loading, setLoading] = useState<LoadDirection | 'initial' | null>(null);
+  const [calendarFilter, setCalendarFilter] = useState('');
+  const [query, setQuery] = useState('');
+
+  const listRef = useRef<HTMLDivElement>(null);
+  const loadingRef = useRef(false);
+  const generationRef = useRef(0); // Results of loads started before a reset are dropped
+  const lastScrollTopRef = useRef(0);
+  const scrollToTodayRef = useRef(false);
+  const prependAnchorRef = useRef<{ scrollTop: number; scrollHeight: number } | null>(null);
+
+  // Start over around today whenever the loader changes, e.g. once calendars are known
+  useEffect(() => {
+    const generation = ++generationRef.current;
+    const today = startOfDay(new Date());
+    const range = { start: addDays(today, -WINDOW_DAYS), end: addDays(today, WINDOW_DAYS) };
+
+    loadingRef.current = true;
+    setLoading('initial');
+    onLoadEvents({ start: range.start, end: new Date(range.end.getTime() - 1) })
+      .then(result => {
+        if (generation === generationRef.current) {
+          scrollToTodayRef.current = true;
+          setEvents(result);
+          setLoadedRange(range);
+        }
+      })
+      .catch(error => console.error('Error loading agenda events:', error))
+      .finally(() => {
+        if (generation === generationRef.current) {
+          loadingRef.current = false;
+          setLoading(null);
+        }
+      });
+  }, [onLoadEvents]);
+
+  const loadWindow = useCallback(
+    async (direction: LoadDirection) => {
+      if (loadingRef.current || !loadedRange) {
+        return;
+      }
+
+      const generation = generationRef.current;
+      const nextRange = direction === 'later'
+        ? { start: loadedRange.end, end: addDays(loadedRange.end, WINDOW_DAYS) }
+        : { start: addDays(loadedRange.start, -WINDOW_DAYS), end: loadedRange.start };
+
+      loadingRef.current = true;
+      setLoading(direction);
+      try {
+        const result = await onLoadEvents({ start: nextRange.start, end: new Date(nextRange.end.getTime() - 1) });
+        if (generation !== generationRef.current) {
+          return;
+        }
+
+        // Keep the days in view in place while earlier days are added above them
+        const list = listRef.current;
+        if (direction === 'earlier' && list) {
+          prependAnchorRef.current = { scrollTop: list.scrollTop, scrollHeight: list.scrollHeight };
+        }
+        setEvents(prev => mergeEvents(prev, result));
+        setLoadedRange(prev => prev && (direction === 'later'
+          ? { start: prev.start, end: nextRange.end }
+          : { start: nextRange.start, end: prev.end }));
+      } catch (error) {
+        console.error('Error loading agenda events:', error);
+      } finally {
+        if (generation === generationRef.current) {
+          loadingRef.current = false;
+          setLoading(null);
+        }
+      }
+    },
+    [loadedRange, onLoadEvents]
+  );
+
+  const scrollToToday = useCallback(() => {
+    const list = listRef.current;
+    const today = list?.querySelector<HTMLElement>(`[data-day="${getDayKey(new Date())}"]`);
+    if (list && today) {
+      list.scrollTop = today.offsetTop;
+      lastScrollTopRef.current = list.scrollTop;
+    }
+  }, []);
+
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    const anchor = prependAnchorRef.current;
+    if (list && anchor) {
+      list.scrollTop = anchor.scrollTop + list.scrollHeight - anchor.scrollHeight;
+      lastScrollTopRef.current = list.scrollTop;
+      prependAnchorRef.current = null;
+    }
+    if (scrollToTodayRef.current) {
+      scrollToTodayRef.current = false;
+      scrollToToday();
+    }
+  }, [loadedRange, scrollToToday]);
+
+  // Only the end being scrolled towards loads, so landing near the top does not pull in the past
+  const handleScroll = () => {
+    const list = listRef.current;
+    if (!list) {
+      return;
+    }
+
+    const scrollingUp = list.scrollTop < lastScrollTopRef.current;
+    lastScrollTopRef.current = list.scrollTop;
+    if (scrollingUp && list.scrollTop < SCROLL_THRESHOLD) {
+      loadWindow('earlier');
+    } else if (!scrollingUp && list.scrollHeight - list.scrollTop - list.clientHeight < SCROLL_THRESHOLD) {
+      loadWindow('later');
+    }
+  };
+
+  const filterCalendars = useMemo(
+    () => calendars.filter(calendar => !visibleCalendars || visibleCalendars.has(calendar.url)),
+    [calendars, visibleCalendars]
+  );
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const isFiltered = calendarFilter !== '' || normalizedQuery !== '';
+
+  const days = useMemo((): AgendaDay[] => {
+    if (!loadedRange) {
+      return [];
+    }
+
+    const filtered = events
+      .filter(event => !event.calendarUrl || !visibleCalendars || visibleCalendars.has(event.calendarUrl))
+      .filter(event => !calendarFilter || event.calendarUrl === calendarFilter)
+      .filter(event => !normalizedQuery || matchesQuery(event, normalizedQuery));
+
+    const groups = new Map<string, AgendaDay>();
+    const addToDay = (date: Date, event?: CalendarEvent) => {
+      const key = getDayKey(date);
+      const group = groups.get(key) || { date, events: [] };
+      if (event) {
+        group.events.push(event);
+      }
+      groups.set(key, group);
+    };
+
+    // Every day an event covers within the loaded range lists it
+    filtered.forEach(event => {
+      const first = new Date(
+        Math.max(startOfDay(new Date(event.dtstart)).getTime(), loadedRange.start.getTime())
+      );
+      for (let day = first; day < loadedRange.end && eventOccursOnDate(event, day); day = addDays(day, 1)) {
+        addToDay(day, event);
+      }
+    });
+
+    // Today stays in the list as the point to return to
+    const today = startOfDay(new Date());
+    if (!isFiltered && today >= loadedRange.start && today < loadedRange.end) {
+      addToDay(today);
+    }
+
+    return Array.from(groups.values())
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .map(group => ({
+        ...group,
+        events: group.events.sort((a, b) => {
+          const bandOrder = Number(isAllDayBandEvent(b)) - Number(isAllDayBandEvent(a));
+          return bandOrder || new Date(a.dtstart).getTime() - new Date(b.dtstart).getTime();
+        })
+      }));
+  }, [events, loadedRange, visibleCalendars, calendarFilter, normalizedQuery, isFiltered]);
+
+  const getCalendarName = (calendarUrl?: string): string | undefined => {
+    return calendars.find(calendar => calendar.url === calendarUrl)?.displayName;
+  };
+
+  const renderEvent = (event: CalendarEvent, day: Date) => {
+    const calendarName = getCalendarName(event.calendarUrl);
+    return (
+      <li key={getEventKey(event)}>
+        <button
+          type="button"
+          className="agenda-event"
+          onClick={() => onEventClick?.(event)}
+        >
+          <span
+            className="agenda-event-color"
+            style={{ backgroundColor: getEventCalendarColor(event.calendarUrl, calendars) }}
+            aria-hidden="true"
+          />
+          <span className="agenda-event-time">{formatEventTime(event, day)}</span>
+          <span className="agenda-event-details">
+            <span className="agenda-event-title">{event.summary || '(No title)'}</span>
+            {(event.location || calendarName) && (
+              <span className="agenda-event-meta">
+                {[event.location, calendarName].filter(Boolean).join(' · ')}
+              </span>
+            )}
+          </span>
+        </button>
+      </li>
+    );
+  };
+
+  const renderLoadButton = (direction: LoadDirection) => (
+    <button
+      type="button"
+      className="agenda-load-more"
+      onClick={() => loadWindow(direction)}
+      disabled={loading !== null}
+    >
+      {loading === direction
+        ? 'Loading...'
+        : direction === 'earlier' ? 'Show earlier' : 'Show later'}
+    </button>
+  );
+
+  return (
+    <div className="agenda-view">
+      <div className="agenda-toolbar">
+        <input
+          type="search"
+          className="agenda-search"
+          placeholder="Search events"
+          aria-label="Search events"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+        />
+        <select
+          className="agenda-calendar-filter"
+          aria-label="Calendar"
+          value={calendarFilter}
+          onChange={e => setCalendarFilter(e.target.value)}
+        >
+          <option value="">All calendars</option>
+          {filterCalendars.map(calendar => (
+            <option key={calendar.url} value={calendar.url}>{calendar.displayName}</option>
+          ))}
+        </select>
+        <button type="button" className="agenda-today-button" onClick={scrollToToday}>
+          Today
+        </button>
+      </div>
+
+      <div
+        ref={listRef}
+        className={`agenda-list${loading === 'initial' ? ' loading' : ''}`}
+        onScroll={handleScroll}
+        aria-busy={loading !== null}
+      >
+        {loadedRange && renderLoadButton('earlier')}
+
+        {days.map(day => (
+          <section
+            key={getDayKey(day.date)}
+            className="agenda-day"
+            data-day={getDayKey(day.date)}
+            aria-labelledby={`agenda-day-${getDayKey(day.date)}`}
+          >
+            <h3
+              id={`agenda-day-${getDayKey(day.date)}`}
+              className={`agenda-day-heading${day.date.getTime() === startOfDay(new Date()).getTime() ? ' today' : ''}`}
+            >
+              {formatDayHeading(day.date)}
+            </h3>
+            {day.events.length > 0 ? (
+              <ul className="agenda-events">
+                {day.events.map(event => renderEvent(event, day.date))}
+              </ul>
+            ) : (
+              <p className="agenda-day-empty">Nothing scheduled</p>
+            )}
+          </section>
+        ))}
+
+        {loadedRange && isFiltered && days.length === 0 && (
+          <p className="agenda-empty">
+            No matching events between{' '}
+            {loadedRange.start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} and{' '}
+            {addDays(loadedRange.end, -1).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+          </p>
+        )}
+
+        {loadedRange && renderLoadButton('later')}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { AgendaView } from '../AgendaView';
+import { Calendar, CalendarEvent } from '../../../types/dav';
+import { addDays, startOfDay } from '../../../utils/eventDates';
+
+const calendars: Calendar[] = [
+  { url: '/cal/work/', displayName: 'Work', color: '#3b82f6' },
+  { url: '/cal/home/', displayName: 'Home', color: '#10b981' }
+];
+
+const today = startOfDay(new Date());
+
+const at = (days: number, hours: number): Date => {
+  const date = addDays(today, days);
+  date.setHours(hours);
+  return date;
+};
+
+const makeEvent = (uid: string, calendarUrl: string, dtstart: Date, dtend: Date, extra?: Partial<CalendarEvent>): CalendarEvent => ({
+  uid,
+  summary: uid,
+  dtstart,
+  dtend,
+  calendarUrl,
+  ...extra
+});
+
+// Each day is a region named by its heading
+const getDay = (date: Date) =>
+  screen.getByRole('region', {
+    name: new RegExp(date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' }))
+  });
+
+describe('AgendaView', () => {
+  it('should list events under each day they cover', async () => {
+    const onLoadEvents = jest.fn().mockResolvedValue([
+      makeEvent('Standup', '/cal/work/', at(1, 9), at(1, 10)),
+      makeEvent('Conference', '/cal/work/', addDays(today, 1), addDays(today, 3), { allDay: true })
+    ]);
+
+    render(<AgendaView calendars={calendars} onLoadEvents={onLoadEvents} />);
+
+    await screen.findAllByText('Conference');
+    const tomorrow = within(getDay(addDays(today, 1)));
+    expect(tomorrow.getByText(/^Tomorrow/)).toBeInTheDocument();
+    expect(tomorrow.getAllByRole('button').map(button => button.textContent)).toEqual([
+      expect.stringContaining('Conference'),
+      expect.stringContaining('Standup')
+    ]);
+    expect(within(getDay(addDays(today, 2))).getByText('Conference')).toBeInTheDocument();
+    expect(within(getDay(today)).getByText('Nothing scheduled')).toBeInTheDocument();
+  });
+
+  it('should filter events by calendar and text', async () => {
+    const onLoadEvents = jest.fn().mockResolvedValue([
+      makeEvent('Standup', '/cal/work/', at(0, 9), at(0, 10)),
+      makeEvent('Dentist', '/cal/home/', at(1, 9), at(1, 10), { location: 'Main Street' }),
+      makeEvent('Groceries', '/cal/home/', at(2, 9), at(2, 10))
+    ]);
+
+    render(<AgendaView calendars={calendars} onLoadEvents={onLoadEvents} />);
+    await screen.findByText('Standup');
+
+    fireEvent.change(screen.getByLabelText('Calendar'), { target: { value: '/cal/home/' } });
+    expect(screen.queryByText('Standup')).not.toBeInTheDocument();
+    expect(screen.getByText('Groceries')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Search events'), { target: { value: 'main st' } });
+    expect(screen.getByText('Dentist')).toBeInTheDocument();
+    expect(screen.queryByText('Groceries')).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Search events'), { target: { value: 'dinner' } });
+    expect(screen.getByText(/No matching events/)).toBeInTheDocument();
+  });
+
+  it('should fetch the next window of days after the loaded range', async () => {
+    const onLoadEvents = jest.fn()
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([makeEvent('Retro', '/cal/work/', at(20, 15), at(20, 16))]);
+
+    render(<AgendaView calendars={calendars} onLoadEvents={onLoadEvents} />);
+
+    expect(onLoadEvents).toHaveBeenCalledWith({
+      start: addDays(today, -14),
+      end: new Date(addDays(today, 14).getTime() - 1)
+    });
+
+    fireEvent.click(await screen.findByText('Show later'));
+
+    expect(await screen.findByText('Retro')).toBeInTheDocument();
+    expect(onLoadEvents).toHaveBeenLastCalledWith({
+      start: addDays(today, 14),
+      end: new Date(addDays(today, 28).getTime() - 1)
+    });
+  });
+
+  it('should open an event when it is clicked', async () => {
+    const standup = makeEvent('Standup', '/cal/work/', at(0, 9), at(0, 10));
+    const onEventClick = jest.fn();
+
+    render(
+      <AgendaView
+        calendars={calendars}
+        onLoadEvents={jest.fn().mockResolvedValue([standup])}
+        onEventClick={onEventClick}
+      />
+    );
+
+    fireEvent.click(await screen.findByText('Standup'));
+    expect(onEventClick).toHaveBeenCalledWith(standup);
+  });
+});
@@ -0,0 +1 @@
+export { AgendaView } from './AgendaView';
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Calendar, CalendarEvent, DateRange } from '../types/dav';
+import { AgendaView } from './Agenda';
+
+interface AgendaComponentProps {
+  calendars: Calendar[];
+  visibleCalendars: Set<string>;
+  onLoadEvents: (dateRange: DateRange) => Promise<CalendarEvent[]>;
+  onEventClick: (event: CalendarEvent) => void;
+}
+
+export const AgendaComponent: React.FC<AgendaComponentProps> = ({
+  calendars,
+  visibleCalendars,
+  onLoadEvents,
+  onEventClick,
+}) => {
+  return (
+    <div className="view-container">
+      <AgendaView
+        calendars={calendars}
+        visibleCalendars={visibleCalendars}
+        onLoadEvents={onLoadEvents}
+        onEventClick={onEventClick}
+      />
+    </div>
+  );
+};
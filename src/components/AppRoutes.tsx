@@ -6,14 +6,20 @@ interface AppRoutesProps {
   isAuthenticated: boolean;
   setupComponent: React.ReactNode;
   calendarComponent: React.ReactNode;
+  agendaComponent: React.ReactNode;
   contactsComponent: React.ReactNode;
+  inboxComponent: React.ReactNode;
+  tasksComponent: React.ReactNode;
 }
 
 export const AppRoutes: React.FC<AppRoutesProps> = ({ 
   isAuthenticated,
   setupComponent,
   calendarComponent,
+  agendaComponent,
   contactsComponent,
+  inboxComponent,
+  tasksComponent,
 }) => {
   return (
     <Routes>
@@ -37,6 +43,15 @@ export const AppRoutes: React.FC<AppRoutesProps> = ({
         }
       />
 
+      <Route
+        path="/agenda"
+        element={
+          <ProtectedRoute isAuthenticated={isAuthenticated}>
+            {agendaComponent}
+          </ProtectedRoute>
+        }
+      />
+
       <Route
         path="/contacts"
         element={
@@ -46,6 +61,24 @@ export const AppRoutes: React.FC<AppRoutesProps> = ({
         }
       />
 
+      <Route
+        path="/tasks"
+        element={
+          <ProtectedRoute isAuthenticated={isAuthenticated}>
+            {tasksComponent}
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/inbox"
+        element={
+          <ProtectedRoute isAuthenticated={isAuthenticated}>
+            {inboxComponent}
+          </ProtectedRoute>
+        }
+      />
+
       <Route
         path="/"
         element={
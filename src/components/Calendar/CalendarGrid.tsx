@@ -1,16 +1,38 @@
-import React from 'react';
-import { CalendarEvent, Calendar } from '../../types/dav';
+import React, { useState } from 'react';
+import { CalendarEvent, Calendar, EventDraft, Task } from '../../types/dav';
 import { ViewType } from './CalendarView';
 import { getEventCalendarColor } from '../../utils/calendarColors';
+import {
+  AllDaySegment,
+  addDays,
+  countAllDayLanes,
+  eventOccursOnDate,
+  isAllDayBandEvent,
+  layoutAllDaySegments
+} from '../../utils/eventDates';
+import { EventTimes, moveEventToDay, setDraggedEvent } from '../../utils/eventDrag';
+import { getDayKey } from '../../utils/eventDensity';
+import { DueTaskList } from './DueTaskList';
+import { TimeGrid } from './TimeGrid';
+import { SecondaryTimezoneSelect } from './SecondaryTimezoneSelect';
+import { useSecondaryTimezone } from '../../hooks/useSecondaryTimezone';
 import './CalendarGrid.css';
 
+// Vertical offset of the first band lane (below the day number) and lane height, in px
+const MONTH_BAND_OFFSET = 30;
+const MONTH_BAND_LANE_HEIGHT = 20;
+
 interface CalendarGridProps {
   currentDate: Date;
   viewType: ViewType;
   events: CalendarEvent[];
   calendars: Calendar[];
+  tasks?: Task[]; // Shown on the day they are due
   onEventClick?: (event: CalendarEvent) => void;
   onDateClick?: (date: Date) => void;
+  onTaskToggle?: (task: Task) => void;
+  onEventReschedule?: (event: CalendarEvent, times: EventTimes) => void; // Events dropped on another day or time
+  onRangeSelect?: (draft: EventDraft, position: { x: number; y: number }) => void; // Times or days selected by dragging in the time grid views
 }
 
 export const CalendarGrid: React.FC<CalendarGridProps> = ({
@@ -18,9 +40,18 @@ export const CalendarGrid: React.FC<CalendarGridProps> = ({
   viewType,
   events,
   calendars,
+  tasks = [],
   onEventClick,
-  onDateClick
+  onDateClick,
+  onTaskToggle,
+  onEventReschedule,
+  onRangeSelect
 }) => {
+  // Event being dragged within the grid and the day it would be dropped on
+  const [dragging, setDragging] = useState<CalendarEvent | null>(null);
+  const [dropDate, setDropDate] = useState<Date | null>(null);
+  const { secondaryTimezone, setSecondaryTimezone } = useSecondaryTimezone();
+
   const getDaysInView = (): Date[] => {
     const days: Date[] = [];
     
@@ -48,24 +79,114 @@ export const CalendarGrid: React.FC<CalendarGridProps> = ({
         day.setDate(startDate.getDate() + i);
         days.push(day);
       }
+    } else if (viewType === 'workweek') {
+      // Monday to Friday of the current week
+      const startDate = new Date(currentDate);
+      startDate.setDate(currentDate.getDate() - currentDate.getDay() + 1);
+
+      for (let i = 0; i < 5; i++) {
+        days.push(addDays(startDate, i));
+      }
+    } else if (viewType === '3day') {
+      // The current day and the two after it
+      for (let i = 0; i < 3; i++) {
+        days.push(addDays(currentDate, i));
+      }
     }
     
     return days;
   };
 
+  // Timed single-day events; all-day and multi-day events go in the all-day band
   const getEventsForDate = (date: Date): CalendarEvent[] => {
-    return events.filter(event => {
-      const eventStart = new Date(event.dtstart);
-      const eventEnd = new Date(event.dtend);
-      
-      // Check if event occurs on this date
-      const dateStart = new Date(date);
-      dateStart.setHours(0, 0, 0, 0);
-      const dateEnd = new Date(date);
-      dateEnd.setHours(23, 59, 59, 999);
-      
-      return (eventStart <= dateEnd && eventEnd >= dateStart);
-    });
+    return events.filter(event =>
+      !isAllDayBandEvent(event) && eventOccursOnDate(event, date)
+    );
+  };
+
+  const getBandTitle = (segment: AllDaySegment): string => {
+    const { event } = segment;
+    if (event.allDay) {
+      return event.summary;
+    }
+    return `${event.summary}\n${formatTime(new Date(event.dtstart))} - ${formatTime(new Date(event.dtend))}`;
+  };
+
+  const renderBandSegment = (
+    segment: AllDaySegment,
+    style: React.CSSProperties,
+    key: string
+  ) => {
+    const eventColor = getEventCalendarColor(segment.event.calendarUrl, calendars);
+    return (
+      <div
+        key={key}
+        className={`event-item all-day-bar${segment.continuesBefore ? ' continues-before' : ''}${segment.continuesAfter ? ' continues-after' : ''}`}
+        style={{
+          ...style,
+          backgroundColor: eventColor,
+          color: '#ffffff'
+        }}
+        onClick={(e) => handleEventClick(segment.event, e)}
+        draggable
+        onDragStart={(e) => handleEventDragStart(segment.event, e)}
+        onDragEnd={handleEventDragEnd}
+        title={getBandTitle(segment)}
+      >
+        <span className="event-title">{segment.event.summary}</span>
+      </div>
+    );
+  };
+
+  const handleEventDragStart = (event: CalendarEvent, e: React.DragEvent) => {
+    setDraggedEvent(e.dataTransfer, event);
+    setDragging(event);
+  };
+
+  const handleEventDragEnd = () => {
+    setDragging(null);
+    setDropDate(null);
+  };
+
+  const handleDayDragOver = (date: Date, e: React.DragEvent) => {
+    if (!dragging || !onEventReschedule) {
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dropDate?.getTime() !== date.getTime()) {
+      setDropDate(date);
+    }
+  };
+
+  const handleDayDrop = (date: Date, e: React.DragEvent) => {
+    if (!dragging || !onEventReschedule) {
+      return;
+    }
+    e.preventDefault();
+    onEventReschedule(dragging, moveEventToDay(dragging, date));
+    handleEventDragEnd();
+  };
+
+  const isDropTarget = (date: Date): boolean => {
+    return !!dragging && dropDate?.getTime() === date.getTime();
+  };
+
+  // Preview of the dragged event on the day it would be dropped on
+  const renderGhost = (date: Date, className: string) => {
+    if (!dragging || !isDropTarget(date)) {
+      return null;
+    }
+    const eventColor = getEventCalendarColor(dragging.calendarUrl, calendars);
+    return (
+      <div
+        className={`event-item event-ghost ${className}`}
+        style={{ borderColor: eventColor, color: eventColor }}
+        aria-hidden="true"
+      >
+        <span className="event-title">{dragging.summary}</span>
+      </div>
+    );
   };
 
   const isToday = (date: Date): boolean => {
@@ -101,64 +222,34 @@ export const CalendarGrid: React.FC<CalendarGridProps> = ({
   const days = getDaysInView();
   const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
-  if (viewType === 'week') {
+  if (viewType !== 'month') {
     return (
-      <div className="calendar-grid week-view">
-        <div className="week-header">
-          {weekDays.map((day, index) => {
-            const date = days[index];
-            return (
-              <div key={day} className="week-day-header">
-                <div className="day-name">{day}</div>
-                <div className={`day-number ${isToday(date) ? 'today' : ''}`}>
-                  {date.getDate()}
-                </div>
-              </div>
-            );
-          })}
-        </div>
-        
-        <div className="week-content">
-          {days.map((date, index) => {
-            const dayEvents = getEventsForDate(date);
-            return (
-              <div 
-                key={index} 
-                className={`week-day ${isToday(date) ? 'today' : ''}`}
-                onClick={() => handleDateClick(date)}
-              >
-                <div className="day-events">
-                  {dayEvents.map((event, eventIndex) => {
-                    const eventColor = getEventCalendarColor(event.calendarUrl, calendars);
-                    return (
-                      <div
-                        key={`${event.uid}-${eventIndex}`}
-                        className="event-item week-event"
-                        style={{ 
-                          backgroundColor: eventColor,
-                          borderLeft: `4px solid ${eventColor}`,
-                          color: '#ffffff'
-                        }}
-                        onClick={(e) => handleEventClick(event, e)}
-                        title={`${event.summary}\n${formatTime(new Date(event.dtstart))} - ${formatTime(new Date(event.dtend))}`}
-                      >
-                        <div className="event-time">
-                          {formatTime(new Date(event.dtstart))}
-                        </div>
-                        <div className="event-title">{event.summary}</div>
-                      </div>
-                    );
-                  })}
-                </div>
-              </div>
-            );
-          })}
+      <div className="calendar-grid">
+        <div className="time-grid-toolbar">
+          <SecondaryTimezoneSelect value={secondaryTimezone} onChange={setSecondaryTimezone} />
         </div>
+        <TimeGrid
+          days={days}
+          events={events}
+          calendars={calendars}
+          tasks={tasks}
+          secondaryTimezone={secondaryTimezone}
+          onEventClick={onEventClick}
+          onSlotClick={handleDateClick}
+          onTaskToggle={onTaskToggle}
+          onEventReschedule={onEventReschedule}
+          onRangeSelect={onRangeSelect}
+        />
       </div>
     );
   }
 
-  // Month view
+  // Month view: lay out the all-day band separately for each week row
+  const monthWeeks = Array.from({ length: days.length / 7 }, (_, week) => {
+    const segments = layoutAllDaySegments(events, days.slice(week * 7, week * 7 + 7));
+    return { segments, lanes: countAllDayLanes(segments) };
+  });
+
   return (
     <div className="calendar-grid month-view">
       <div className="month-header">
@@ -172,16 +263,24 @@ export const CalendarGrid: React.FC<CalendarGridProps> = ({
       <div className="month-content">
         {days.map((date, index) => {
           const dayEvents = getEventsForDate(date);
+          const weekIndex = Math.floor(index / 7);
           return (
             <div 
               key={index} 
-              className={`month-day ${isToday(date) ? 'today' : ''} ${!isCurrentMonth(date) ? 'other-month' : ''}`}
+              className={`month-day ${isToday(date) ? 'today' : ''} ${!isCurrentMonth(date) ? 'other-month' : ''}${isDropTarget(date) ? ' drop-target' : ''}`}
+              style={{ gridRow: weekIndex + 1, gridColumn: (index % 7) + 1 }}
+              data-testid={`month-day-${getDayKey(date)}`}
               onClick={() => handleDateClick(date)}
+              onDragOver={(e) => handleDayDragOver(date, e)}
+              onDrop={(e) => handleDayDrop(date, e)}
             >
               <div className="day-number">
                 {date.getDate()}
               </div>
-              <div className="day-events">
+              <div
+                className="day-events"
+                style={{ marginTop: monthWeeks[weekIndex].lanes * MONTH_BAND_LANE_HEIGHT }}
+              >
                 {dayEvents.slice(0, 3).map((event, eventIndex) => {
                   const eventColor = getEventCalendarColor(event.calendarUrl, calendars);
                   return (
@@ -194,6 +293,9 @@ export const CalendarGrid: React.FC<CalendarGridProps> = ({
                         color: '#ffffff'
                       }}
                       onClick={(e) => handleEventClick(event, e)}
+                      draggable
+                      onDragStart={(e) => handleEventDragStart(event, e)}
+                      onDragEnd={handleEventDragEnd}
                       title={`${event.summary}\n${formatTime(new Date(event.dtstart))} - ${formatTime(new Date(event.dtend))}`}
                     >
                       <span className="event-title">{event.summary}</span>
@@ -205,10 +307,32 @@ export const CalendarGrid: React.FC<CalendarGridProps> = ({
                     +{dayEvents.length - 3} more
                   </div>
                 )}
+                {renderGhost(date, 'month-event')}
               </div>
+              <DueTaskList
+                date={date}
+                tasks={tasks}
+                calendars={calendars}
+                onTaskToggle={onTaskToggle}
+              />
             </div>
           );
         })}
+
+        {/* All-day and multi-day bars span the cells of each week row */}
+        {monthWeeks.map(({ segments }, weekIndex) =>
+          segments.map((segment, index) =>
+            renderBandSegment(
+              segment,
+              {
+                gridRow: weekIndex + 1,
+                gridColumn: `${segment.startIndex + 1} / span ${segment.span}`,
+                marginTop: MONTH_BAND_OFFSET + segment.lane * MONTH_BAND_LANE_HEIGHT
+              },
+              `${segment.event.uid}-band-${weekIndex}-${index}`
+            )
+          )
+        )}
       </div>
     </div>
   );
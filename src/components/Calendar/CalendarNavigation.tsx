@@ -1,5 +1,6 @@
 import React from 'react';
 import { ViewType } from './CalendarView';
+import { OVERVIEW_MONTH_OPTIONS } from '../../hooks/useOverviewMonths';
 import './CalendarNavigation.css';
 
 interface CalendarNavigationProps {
@@ -7,14 +8,26 @@ interface CalendarNavigationProps {
   viewType: ViewType;
   onNavigate: (direction: 'prev' | 'next' | 'today') => void;
   onViewChange: (view: ViewType) => void;
+  overviewMonths?: number; // Months shown by the months overview
+  onOverviewMonthsChange?: (months: number) => void;
 }
 
 export const CalendarNavigation: React.FC<CalendarNavigationProps> = ({
   currentDate,
   viewType,
   onNavigate,
-  onViewChange
+  onViewChange,
+  overviewMonths = OVERVIEW_MONTH_OPTIONS[0],
+  onOverviewMonthsChange
 }) => {
+  // e.g. "January 15 - 19, 2024" or "Jan 29 - Feb 2, 2024"
+  const formatRange = (start: Date, end: Date): string => {
+    if (start.getMonth() === end.getMonth()) {
+      return `${start.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })} - ${end.toLocaleDateString('en-US', { day: 'numeric', year: 'numeric' })}`;
+    }
+    return `${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  };
+
   const formatTitle = (date: Date, view: ViewType): string => {
     const options: Intl.DateTimeFormatOptions = {};
     
@@ -33,15 +46,32 @@ export const CalendarNavigation: React.FC<CalendarNavigationProps> = ({
         const weekEnd = new Date(weekStart);
         weekEnd.setDate(weekEnd.getDate() + 6);
         
-        if (weekStart.getMonth() === weekEnd.getMonth()) {
-          return `${weekStart.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })} - ${weekEnd.toLocaleDateString('en-US', { day: 'numeric', year: 'numeric' })}`;
-        } else {
-          return `${weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${weekEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
-        }
+        return formatRange(weekStart, weekEnd);
+      case 'workweek':
+        const monday = new Date(date);
+        monday.setDate(monday.getDate() - monday.getDay() + 1);
+        const friday = new Date(monday);
+        friday.setDate(friday.getDate() + 4);
+        return formatRange(monday, friday);
+      case '3day':
+        const lastDay = new Date(date);
+        lastDay.setDate(lastDay.getDate() + 2);
+        return formatRange(date, lastDay);
       case 'month':
         options.year = 'numeric';
         options.month = 'long';
         break;
+      case 'months':
+        // e.g. "January - March 2024" or "Nov 2023 - Jan 2024"
+        const firstMonth = new Date(date.getFullYear(), date.getMonth(), 1);
+        const lastMonth = new Date(date.getFullYear(), date.getMonth() + overviewMonths - 1, 1);
+        if (firstMonth.getFullYear() === lastMonth.getFullYear()) {
+          return `${firstMonth.toLocaleDateString('en-US', { month: 'long' })} - ${lastMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}`;
+        }
+        return `${firstMonth.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })} - ${lastMonth.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}`;
+      case 'year':
+        options.year = 'numeric';
+        break;
     }
     
     return date.toLocaleDateString('en-US', options);
@@ -91,13 +121,52 @@ export const CalendarNavigation: React.FC<CalendarNavigationProps> = ({
         >
           Week
         </button>
+        <button
+          className={`view-button ${viewType === 'workweek' ? 'active' : ''}`}
+          onClick={() => onViewChange('workweek')}
+        >
+          Work Week
+        </button>
+        <button
+          className={`view-button ${viewType === '3day' ? 'active' : ''}`}
+          onClick={() => onViewChange('3day')}
+        >
+          3 Days
+        </button>
         <button
           className={`view-button ${viewType === 'day' ? 'active' : ''}`}
           onClick={() => onViewChange('day')}
         >
           Day
         </button>
+        <button
+          className={`view-button ${viewType === 'months' ? 'active' : ''}`}
+          onClick={() => onViewChange('months')}
+        >
+          Months
+        </button>
+        <button
+          className={`view-button ${viewType === 'year' ? 'active' : ''}`}
+          onClick={() => onViewChange('year')}
+        >
+          Year
+        </button>
       </div>
+
+      {viewType === 'months' && onOverviewMonthsChange && (
+        <select
+          className="overview-months-select"
+          value={overviewMonths}
+          onChange={(e) => onOverviewMonthsChange(Number(e.target.value))}
+          aria-label="Months shown"
+        >
+          {OVERVIEW_MONTH_OPTIONS.map(months => (
+            <option key={months} value={months}>
+              {months} months
+            </option>
+          ))}
+        </select>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,15 +1,27 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { CalendarEvent, Calendar, DateRange } from '../../types/dav';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { CalendarEvent, Calendar, DateRange, EventDraft, Task } from '../../types/dav';
 import { CalendarGrid } from './CalendarGrid';
 import { CalendarNavigation } from './CalendarNavigation';
 import { DayView } from './DayView';
+import { RecurrenceScopeDialog } from './RecurrenceScopeDialog';
+import { QuickCreatePopover } from './QuickCreatePopover';
+import { YearView } from './YearView';
+import { RecurrenceScope } from '../../utils/recurrence';
+import { EventTimes } from '../../utils/eventDrag';
+import { EventDensity } from '../../utils/eventDensity';
+import { useOverviewMonths } from '../../hooks/useOverviewMonths';
 import './CalendarView.css';
 
-export type ViewType = 'month' | 'week' | 'day';
+// Week, work week and 3 day views are hourly time grids like the day view;
+// months and year are overviews of how busy each day is
+export type ViewType = 'month' | 'week' | 'workweek' | '3day' | 'day' | 'months' | 'year';
+
+const isOverview = (view: ViewType): boolean => view === 'months' || view === 'year';
 
 interface CalendarViewProps {
   calendars: Calendar[];
   events: CalendarEvent[];
+  tasks?: Task[];
   onDateRangeChange: (dateRange: DateRange) => void;
   onEventClick?: (event: CalendarEvent) => void;
   onCreateEvent?: (date: Date) => void;
@@ -18,11 +30,19 @@ interface CalendarViewProps {
   onDateChange?: (date: Date) => void;
   viewType?: ViewType;
   onViewTypeChange?: (viewType: ViewType) => void;
+  onTaskToggle?: (task: Task) => void;
+  onEventReschedule?: (event: CalendarEvent, dtstart: Date, dtend: Date, scope?: RecurrenceScope) => void;
+  defaultCalendar?: Calendar; // Calendar new events are put in unless another is picked
+  onQuickCreateEvent?: (draft: EventDraft, calendar: Calendar) => Promise<void>;
+  onCreateEventFromDraft?: (draft: EventDraft, calendar: Calendar) => void;
+  visibleCalendars?: Set<string>; // Calendars counted in the overviews
+  onLoadEventDensity?: (dateRange: DateRange) => Promise<EventDensity>;
 }
 
 export const CalendarView: React.FC<CalendarViewProps> = ({
   calendars,
   events,
+  tasks,
   onDateRangeChange,
   onEventClick,
   onCreateEvent,
@@ -30,14 +50,30 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
   currentDate: propCurrentDate,
   onDateChange,
   viewType: propViewType = 'month',
-  onViewTypeChange
+  onViewTypeChange,
+  onTaskToggle,
+  onEventReschedule,
+  defaultCalendar,
+  onQuickCreateEvent,
+  onCreateEventFromDraft,
+  visibleCalendars,
+  onLoadEventDensity
 }) => {
   const [currentDate, setCurrentDate] = useState(() => {
     console.log('CalendarView: useState initializer called, propCurrentDate:', propCurrentDate);
     return propCurrentDate || new Date();
   });
   const viewType = propViewType;
+  const { overviewMonths, setOverviewMonths } = useOverviewMonths();
   const previousDateRangeRef = useRef<DateRange | null>(null);
+  // A dragged or resized occurrence waiting for the user to pick which events change
+  const [pendingReschedule, setPendingReschedule] = useState<
+    { event: CalendarEvent; times: EventTimes } | null
+  >(null);
+  // Range selected by dragging across a time grid, waiting for a title
+  const [quickCreate, setQuickCreate] = useState<
+    { draft: EventDraft; position: { x: number; y: number } } | null
+  >(null);
   
   console.log('CalendarView render - currentDate:', currentDate, 'viewType:', viewType);
   console.log('CalendarView props - propViewType:', propViewType, 'onViewTypeChange:', !!onViewTypeChange);
@@ -73,6 +109,19 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
         end.setDate(start.getDate() + 6);
         end.setHours(23, 59, 59, 999);
         break;
+      case 'workweek':
+        // Monday to Friday
+        start.setDate(start.getDate() - start.getDay() + 1);
+        start.setHours(0, 0, 0, 0);
+        end.setTime(start.getTime());
+        end.setDate(start.getDate() + 4);
+        end.setHours(23, 59, 59, 999);
+        break;
+      case '3day':
+        start.setHours(0, 0, 0, 0);
+        end.setDate(end.getDate() + 2);
+        end.setHours(23, 59, 59, 999);
+        break;
       case 'month':
         // Start of month
         start.setDate(1);
@@ -89,6 +138,10 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
   // Update date range when current date or view type changes
   useEffect(() => {
     console.log('CalendarView: useEffect triggered - currentDate:', currentDate, 'viewType:', viewType);
+    // Overviews load counts of events a month at a time instead of the events
+    if (isOverview(viewType)) {
+      return;
+    }
     const dateRange = getDateRange(currentDate, viewType);
     console.log('CalendarView: Calculated date range:', dateRange);
     
@@ -135,11 +188,21 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
         newDate.setDate(newDate.getDate() + increment);
         break;
       case 'week':
+      case 'workweek':
         newDate.setDate(newDate.getDate() + (increment * 7));
         break;
+      case '3day':
+        newDate.setDate(newDate.getDate() + (increment * 3));
+        break;
       case 'month':
         newDate.setMonth(newDate.getMonth() + increment);
         break;
+      case 'months':
+        newDate.setMonth(newDate.getMonth() + (increment * overviewMonths));
+        break;
+      case 'year':
+        newDate.setFullYear(newDate.getFullYear() + increment);
+        break;
     }
 
     console.log('CalendarView: Setting new date:', newDate);
@@ -164,6 +227,57 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
     }
   };
 
+  // Days and months picked in an overview open in the day and month views
+  const handleOverviewSelect = (date: Date, view: ViewType) => {
+    setCurrentDate(date);
+    if (onDateChange) {
+      onDateChange(date);
+    }
+    handleViewChange(view);
+  };
+
+  const handleEventReschedule = (event: CalendarEvent, times: EventTimes) => {
+    if (
+      !onEventReschedule ||
+      (times.dtstart.getTime() === new Date(event.dtstart).getTime() &&
+        times.dtend.getTime() === new Date(event.dtend).getTime())
+    ) {
+      return;
+    }
+
+    if (event.master) {
+      setPendingReschedule({ event, times });
+    } else {
+      onEventReschedule(event, times.dtstart, times.dtend);
+    }
+  };
+
+  const handleRescheduleScope = (scope: RecurrenceScope) => {
+    if (pendingReschedule && onEventReschedule) {
+      const { event, times } = pendingReschedule;
+      onEventReschedule(event, times.dtstart, times.dtend, scope);
+    }
+    setPendingReschedule(null);
+  };
+
+  const handleRangeSelect = (draft: EventDraft, position: { x: number; y: number }) => {
+    setQuickCreate({ draft, position });
+  };
+
+  const handleQuickCreateSave = async (draft: EventDraft, calendar: Calendar) => {
+    if (onQuickCreateEvent) {
+      await onQuickCreateEvent(draft, calendar);
+    }
+    setQuickCreate(null);
+  };
+
+  const handleQuickCreateCancel = useCallback(() => setQuickCreate(null), []);
+
+  const handleQuickCreateMoreOptions = (draft: EventDraft, calendar: Calendar) => {
+    setQuickCreate(null);
+    onCreateEventFromDraft?.(draft, calendar);
+  };
+
   if (loading) {
     return (
       <div className="calendar-view">
@@ -182,17 +296,34 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
         viewType={viewType}
         onNavigate={handleNavigate}
         onViewChange={handleViewChange}
+        overviewMonths={overviewMonths}
+        onOverviewMonthsChange={setOverviewMonths}
       />
       
       <div className="calendar-content">
-        {viewType === 'month' || viewType === 'week' ? (
+        {isOverview(viewType) ? (
+          <YearView
+            startDate={viewType === 'year' ? new Date(currentDate.getFullYear(), 0, 1) : currentDate}
+            months={viewType === 'year' ? 12 : overviewMonths}
+            calendars={calendars}
+            events={events}
+            visibleCalendars={visibleCalendars}
+            onLoadDensity={onLoadEventDensity}
+            onDayClick={(date) => handleOverviewSelect(date, 'day')}
+            onMonthClick={(date) => handleOverviewSelect(date, 'month')}
+          />
+        ) : viewType !== 'day' ? (
           <CalendarGrid
             currentDate={currentDate}
             viewType={viewType}
             events={events}
             calendars={calendars}
+            tasks={tasks}
             onEventClick={onEventClick}
             onDateClick={handleDateClick}
+            onTaskToggle={onTaskToggle}
+            onEventReschedule={onEventReschedule ? handleEventReschedule : undefined}
+            onRangeSelect={onQuickCreateEvent ? handleRangeSelect : undefined}
           />
         ) : (
           <DayView
@@ -202,9 +333,31 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
             onEventClick={onEventClick}
             onCreateEvent={onCreateEvent}
             onDateChange={onDateChange}
+            onEventReschedule={onEventReschedule ? handleEventReschedule : undefined}
+            onRangeSelect={onQuickCreateEvent ? handleRangeSelect : undefined}
           />
         )}
       </div>
+
+      {pendingReschedule && (
+        <RecurrenceScopeDialog
+          action="save"
+          onSelect={handleRescheduleScope}
+          onCancel={() => setPendingReschedule(null)}
+        />
+      )}
+
+      {quickCreate && (
+        <QuickCreatePopover
+          draft={quickCreate.draft}
+          calendars={calendars}
+          defaultCalendar={defaultCalendar}
+          position={quickCreate.position}
+          onSave={handleQuickCreateSave}
+          onMoreOptions={handleQuickCreateMoreOptions}
+          onCancel={handleQuickCreateCancel}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
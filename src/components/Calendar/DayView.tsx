@@ -1,7 +1,12 @@
 import React, { useMemo } from 'react';
-import { CalendarEvent, Calendar } from '../../types/dav';
+import { CalendarEvent, Calendar, EventDraft } from '../../types/dav';
 import { getEventCalendarColor } from '../../utils/calendarColors';
+import { eventOccursOnDate, isAllDayBandEvent, startOfDay } from '../../utils/eventDates';
+import { useSecondaryTimezone } from '../../hooks/useSecondaryTimezone';
+import { EventTimes, setDraggedEvent } from '../../utils/eventDrag';
 import { MiniCalendar } from './MiniCalendar';
+import { SecondaryTimezoneSelect } from './SecondaryTimezoneSelect';
+import { TimeGrid } from './TimeGrid';
 import { WeeklyAgenda } from './WeeklyAgenda';
 import './DayView.css';
 
@@ -12,6 +17,8 @@ interface DayViewProps {
   onEventClick?: (event: CalendarEvent) => void;
   onCreateEvent?: (date: Date) => void;
   onDateChange?: (date: Date) => void;
+  onEventReschedule?: (event: CalendarEvent, times: EventTimes) => void; // Events dragged or resized in the time grid
+  onRangeSelect?: (draft: EventDraft, position: { x: number; y: number }) => void; // Times selected by dragging in the time grid
 }
 
 export const DayView: React.FC<DayViewProps> = ({
@@ -20,55 +27,19 @@ export const DayView: React.FC<DayViewProps> = ({
   calendars,
   onEventClick,
   onCreateEvent,
-  onDateChange
+  onDateChange,
+  onEventReschedule,
+  onRangeSelect
 }) => {
-  // Generate time slots for the day (24 hours)
-  const timeSlots = useMemo(() => {
-    const slots = [];
-    for (let hour = 0; hour < 24; hour++) {
-      slots.push({
-        hour,
-        time: new Date(2000, 0, 1, hour, 0).toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          hour12: true
-        })
-      });
-    }
-    return slots;
-  }, []);
+  const { secondaryTimezone, setSecondaryTimezone } = useSecondaryTimezone();
 
-  // Filter events for the current day
+  // Filter events for the current day, including multi-day events started earlier
   const dayEvents = useMemo(() => {
-    return events.filter(event => {
-      const eventDate = new Date(event.dtstart);
-      return eventDate.toDateString() === date.toDateString();
-    }).sort((a, b) => {
+    return events.filter(event => eventOccursOnDate(event, date)).sort((a, b) => {
       return new Date(a.dtstart).getTime() - new Date(b.dtstart).getTime();
     });
   }, [events, date]);
 
-  // Get events for a specific hour
-  const getEventsForHour = (hour: number) => {
-    return dayEvents.filter(event => {
-      const eventStart = new Date(event.dtstart);
-      const eventEnd = new Date(event.dtend);
-      const slotStart = new Date(date);
-      slotStart.setHours(hour, 0, 0, 0);
-      const slotEnd = new Date(date);
-      slotEnd.setHours(hour + 1, 0, 0, 0);
-      
-      return eventStart < slotEnd && eventEnd > slotStart;
-    });
-  };
-
-  const handleTimeSlotClick = (hour: number) => {
-    if (onCreateEvent) {
-      const clickDate = new Date(date);
-      clickDate.setHours(hour, 0, 0, 0);
-      onCreateEvent(clickDate);
-    }
-  };
-
   const handleEventClick = (event: CalendarEvent) => {
     if (onEventClick) {
       onEventClick(event);
@@ -83,20 +54,26 @@ export const DayView: React.FC<DayViewProps> = ({
     });
   };
 
-  const formatDuration = (start: Date, end: Date): string => {
-    const startTime = formatTime(start);
-    const endTime = formatTime(end);
-    return `${startTime} - ${endTime}`;
+  const formatDay = (day: Date): string => {
+    return day.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   };
 
-  const isAllDay = (event: CalendarEvent): boolean => {
+  // Describes the span of a multi-day event, e.g. "Mar 3 – Mar 5" or "until 2:00 PM"
+  const formatBandSpan = (event: CalendarEvent): string | null => {
     const start = new Date(event.dtstart);
     const end = new Date(event.dtend);
-    
-    return start.getHours() === 0 && 
-           start.getMinutes() === 0 && 
-           start.getSeconds() === 0 &&
-           (end.getTime() - start.getTime()) % (24 * 60 * 60 * 1000) === 0;
+    if (event.allDay) {
+      const lastDay = new Date(end);
+      lastDay.setDate(lastDay.getDate() - 1);
+      return lastDay > start ? `${formatDay(start)} – ${formatDay(lastDay)}` : null;
+    }
+    if (startOfDay(start).getTime() === startOfDay(date).getTime()) {
+      return `from ${formatTime(start)}`;
+    }
+    if (startOfDay(end).getTime() === startOfDay(date).getTime()) {
+      return `until ${formatTime(end)}`;
+    }
+    return `${formatDay(start)} – ${formatDay(end)}`;
   };
 
   return (
@@ -110,28 +87,35 @@ export const DayView: React.FC<DayViewProps> = ({
             day: 'numeric' 
           })}
         </h2>
+        <SecondaryTimezoneSelect value={secondaryTimezone} onChange={setSecondaryTimezone} />
       </div>
 
       <div className="day-view-content">
         <div className="day-schedule">
           {/* All-day events section */}
-          {dayEvents.some(isAllDay) && (
+          {dayEvents.some(isAllDayBandEvent) && (
             <div className="all-day-section">
+              {secondaryTimezone && <div className="all-day-label" aria-hidden="true" />}
               <div className="all-day-label">All Day</div>
               <div className="all-day-events">
-                {dayEvents.filter(isAllDay).map((event, index) => {
+                {dayEvents.filter(isAllDayBandEvent).map((event, index) => {
                   const eventColor = getEventCalendarColor(event.calendarUrl, calendars);
+                  const span = formatBandSpan(event);
+                  const continuesBefore = new Date(event.dtstart) < startOfDay(date);
                   return (
                     <div
                       key={`${event.uid}-${index}`}
-                      className="all-day-event"
+                      className={`all-day-event${continuesBefore ? ' continues-before' : ''}`}
                       style={{ 
                         backgroundColor: eventColor,
                         borderLeft: `4px solid ${eventColor}`
                       }}
                       onClick={() => handleEventClick(event)}
+                      draggable
+                      onDragStart={(e) => setDraggedEvent(e.dataTransfer, event)}
                     >
                       <span className="event-title">{event.summary}</span>
+                      {span && <span className="event-span">{span}</span>}
                       {event.location && (
                         <span className="event-location">📍 {event.location}</span>
                       )}
@@ -142,47 +126,17 @@ export const DayView: React.FC<DayViewProps> = ({
             </div>
           )}
 
-          {/* Time slots */}
-          <div className="time-slots">
-            {timeSlots.map(({ hour, time }) => {
-              const hourEvents = getEventsForHour(hour).filter(event => !isAllDay(event));
-              return (
-                <div key={hour} className="time-slot">
-                  <div className="time-label">{time}</div>
-                  <div 
-                    className="time-content"
-                    onClick={() => handleTimeSlotClick(hour)}
-                  >
-                    {hourEvents.map((event, index) => {
-                      const eventColor = getEventCalendarColor(event.calendarUrl, calendars);
-                      return (
-                        <div
-                          key={`${event.uid}-${index}`}
-                          className="time-event"
-                          style={{ 
-                            backgroundColor: eventColor,
-                            borderLeft: `4px solid ${eventColor}`
-                          }}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleEventClick(event);
-                          }}
-                        >
-                          <div className="event-time">
-                            {formatDuration(new Date(event.dtstart), new Date(event.dtend))}
-                          </div>
-                          <div className="event-title">{event.summary}</div>
-                          {event.location && (
-                            <div className="event-location">📍 {event.location}</div>
-                          )}
-                        </div>
-                      );
-                    })}
-                  </div>
-                </div>
-              );
-            })}
-          </div>
+          <TimeGrid
+            days={[date]}
+            events={dayEvents.filter(event => !isAllDayBandEvent(event))}
+            calendars={calendars}
+            showDayHeaders={false}
+            secondaryTimezone={secondaryTimezone}
+            onEventClick={onEventClick}
+            onSlotClick={onCreateEvent}
+            onEventReschedule={onEventReschedule}
+            onRangeSelect={onRangeSelect}
+          />
         </div>
 
         <div className="day-sidebar">
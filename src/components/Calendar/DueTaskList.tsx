@@ -0,0 +1,57 @@
+import React from 'react';
+import { Calendar, Task } from '../../types/dav';
+import { getEventCalendarColor } from '../../utils/calendarColors';
+import { getTasksDueOn, isTaskCompleted } from '../../utils/tasks';
+import './DueTaskList.css';
+
+interface DueTaskListProps {
+  date: Date;
+  tasks: Task[];
+  calendars: Calendar[];
+  onTaskToggle?: (task: Task) => void;
+}
+
+// Tasks due on a day of a calendar grid, which can be checked off in place
+export const DueTaskList: React.FC<DueTaskListProps> = ({
+  date,
+  tasks,
+  calendars,
+  onTaskToggle
+}) => {
+  const dueTasks = getTasksDueOn(tasks, date);
+  if (dueTasks.length === 0) {
+    return null;
+  }
+
+  const formatTime = (time: Date): string => {
+    return time.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true
+    });
+  };
+
+  return (
+    <ul className="day-tasks">
+      {dueTasks.map(task => (
+        <li
+          key={task.uid}
+          className={`task-item${isTaskCompleted(task) ? ' completed' : ''}`}
+          style={{ borderLeftColor: getEventCalendarColor(task.calendarUrl, calendars) }}
+          onClick={(e) => e.stopPropagation()}
+          onPointerDown={(e) => e.stopPropagation()}
+          title={task.dueAllDay || !task.due ? task.summary : `${task.summary}\nDue ${formatTime(task.due)}`}
+        >
+          <input
+            type="checkbox"
+            checked={task.status === 'COMPLETED'}
+            onChange={() => onTaskToggle?.(task)}
+            disabled={!onTaskToggle}
+            aria-label={`Complete ${task.summary}`}
+          />
+          <span className="task-title">{task.summary}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -1,27 +1,165 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { CalendarEvent, Calendar } from '../../types/dav';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  CalendarEvent,
+  Calendar,
+  DateRange,
+  EventAlarm,
+  EventAttendee,
+  EventDraft,
+  FreeBusyResult,
+  ParticipationStatus,
+  RecurrenceFrequency,
+  RecurrenceRule
+} from '../../types/dav';
+import { Account } from '../../types/auth';
+import { RecurrenceScope } from '../../utils/recurrence';
+import { groupByAccount } from '../../utils/accounts';
+import {
+  getBrowserTimeZone,
+  getSupportedTimeZones,
+  getZonedDateTime,
+  isValidTimeZone,
+  zonedDateTimeToDate
+} from '../../utils/timezones';
+import { ReminderService } from '../../services/ReminderService';
+import { CacheService } from '../../services/CacheService';
+import { RecurrenceScopeDialog } from './RecurrenceScopeDialog';
+import { FreeBusyGrid } from './FreeBusyGrid';
 import './EventForm.css';
 
+const REPEAT_UNITS: Record<string, string> = {
+  SECONDLY: 'seconds',
+  MINUTELY: 'minutes',
+  HOURLY: 'hours',
+  DAILY: 'days',
+  WEEKLY: 'weeks',
+  MONTHLY: 'months',
+  YEARLY: 'years'
+};
+
+const REMINDER_UNITS = {
+  minutes: 1,
+  hours: 60,
+  days: 24 * 60
+};
+
+type ReminderUnit = keyof typeof REMINDER_UNITS;
+
+// Quick-add reminder offsets, in minutes before the start
+const REMINDER_PRESETS = [5, 15, 60];
+
+// Longest reminder offset accepted by the form (4 weeks)
+const MAX_REMINDER_MINUTES = 4 * 7 * 24 * 60;
+
+interface ReminderInput {
+  amount: string;
+  unit: ReminderUnit;
+  alarm?: EventAlarm; // Alarm being edited, to keep its action and description
+}
+
+const toReminderInput = (alarm: EventAlarm): ReminderInput => {
+  const minutes = alarm.minutesBefore;
+  const unit: ReminderUnit =
+    minutes !== 0 && minutes % REMINDER_UNITS.days === 0 ? 'days'
+      : minutes !== 0 && minutes % REMINDER_UNITS.hours === 0 ? 'hours'
+      : 'minutes';
+  return { amount: String(minutes / REMINDER_UNITS[unit]), unit, alarm };
+};
+
+const formatReminderPreset = (minutes: number): string =>
+  minutes % 60 === 0 ? `${minutes / 60} hour${minutes === 60 ? '' : 's'}` : `${minutes} min`;
+
+const PARTSTAT_LABELS: Record<ParticipationStatus, string> = {
+  'NEEDS-ACTION': 'Awaiting reply',
+  ACCEPTED: 'Accepted',
+  DECLINED: 'Declined',
+  TENTATIVE: 'Maybe',
+  DELEGATED: 'Delegated'
+};
+
+// Replies offered to invited users
+const RSVP_OPTIONS: { partstat: ParticipationStatus; label: string }[] = [
+  { partstat: 'ACCEPTED', label: 'Accept' },
+  { partstat: 'TENTATIVE', label: 'Maybe' },
+  { partstat: 'DECLINED', label: 'Decline' }
+];
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+interface ContactSuggestion {
+  name: string;
+  email: string;
+}
+
+// Name and email of every cached contact, for attendee autocomplete
+const getContactSuggestions = async (): Promise<ContactSuggestion[]> => {
+  const suggestions: ContactSuggestion[] = [];
+  for (const addressBook of await CacheService.getCachedAddressBooks()) {
+    const cached = await CacheService.getCachedContacts(addressBook.url);
+    for (const contact of cached?.contacts || []) {
+      for (const email of contact.email || []) {
+        if (!suggestions.some(suggestion => suggestion.email.toLowerCase() === email.toLowerCase())) {
+          suggestions.push({ name: contact.fn, email });
+        }
+      }
+    }
+  }
+  return suggestions;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Date and time input values showing an instant in the given time zone
+const toInputValues = (date: Date, timeZone: string) => {
+  const zoned = getZonedDateTime(date, timeZone);
+  return {
+    date: `${zoned.year}-${pad(zoned.month)}-${pad(zoned.day)}`,
+    time: `${pad(zoned.hour)}:${pad(zoned.minute)}`
+  };
+};
+
+// Instant described by date and time input values in the given time zone
+const fromInputValues = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  if ([year, month, day, hour, minute].some(part => isNaN(part))) {
+    return new Date(NaN);
+  }
+  return zonedDateTimeToDate({ year, month, day, hour, minute, second: 0 }, timeZone);
+};
+
 interface EventFormProps {
   event?: CalendarEvent;
   calendars: Calendar[];
   selectedCalendar?: Calendar;
-  onSave: (event: CalendarEvent, calendar: Calendar) => Promise<void>;
+  accounts?: Account[]; // Calendars are grouped by account when there are several
+  onSave: (event: CalendarEvent, calendar: Calendar, scope?: RecurrenceScope) => Promise<void>;
+  onCopy?: (event: CalendarEvent, calendar: Calendar) => Promise<void>;
   onCancel: () => void;
-  onDelete?: (event: CalendarEvent, calendar: Calendar) => Promise<void>;
+  onDelete?: (event: CalendarEvent, calendar: Calendar, scope?: RecurrenceScope) => Promise<void>;
   isEditing?: boolean;
   initialDate?: Date;
+  draft?: EventDraft; // Prefilled times (and title) of a new event
+  userAddresses?: string[]; // Email addresses of the signed-in user
+  onRespond?: (event: CalendarEvent, partstat: ParticipationStatus) => Promise<void>;
+  onLookupFreeBusy?: (attendees: string[], range: DateRange) => Promise<FreeBusyResult[]>;
 }
 
 export const EventForm: React.FC<EventFormProps> = ({
   event,
   calendars,
   selectedCalendar,
+  accounts = [],
   onSave,
+  onCopy,
   onCancel,
   onDelete,
   isEditing = false,
-  initialDate
+  initialDate,
+  draft,
+  userAddresses = [],
+  onRespond,
+  onLookupFreeBusy
 }) => {
   const [formData, setFormData] = useState({
     summary: '',
@@ -30,12 +168,26 @@ export const EventForm: React.FC<EventFormProps> = ({
     startDate: '',
     startTime: '',
     endDate: '',
-    endTime: ''
+    endTime: '',
+    repeat: '',
+    repeatInterval: '1',
+    repeatEnd: 'never',
+    repeatCount: '10',
+    repeatUntil: ''
   });
   const [selectedCalendarUrl, setSelectedCalendarUrl] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [allDay, setAllDay] = useState(false);
+  const [reminders, setReminders] = useState<ReminderInput[]>([]);
+  const [attendees, setAttendees] = useState<EventAttendee[]>([]);
+  const [attendeeInput, setAttendeeInput] = useState('');
+  const [isResponding, setIsResponding] = useState(false);
+  // Zone the date and time inputs are read in
+  const [timezone, setTimezone] = useState(getBrowserTimeZone);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Pending action waiting for the user to pick which occurrences it applies to
+  const [scopePrompt, setScopePrompt] = useState<'save' | 'delete' | null>(null);
 
   // Initialize form data when event, selectedCalendar, or initialDate changes
   useEffect(() => {
@@ -43,52 +195,89 @@ export const EventForm: React.FC<EventFormProps> = ({
       // Editing existing event
       const startDate = new Date(event.dtstart);
       const endDate = new Date(event.dtend);
+      const rule = event.rrule;
+      // All-day events end at the midnight after their last day
+      const lastDay = new Date(endDate);
+      lastDay.setDate(lastDay.getDate() - 1);
+      const eventTimezone = event.timezone && isValidTimeZone(event.timezone)
+        ? event.timezone
+        : getBrowserTimeZone();
+      const start = toInputValues(startDate, eventTimezone);
+      const end = toInputValues(endDate, eventTimezone);
       
       setFormData({
         summary: event.summary || '',
         description: event.description || '',
         location: event.location || '',
-        startDate: startDate.toISOString().split('T')[0],
-        startTime: startDate.toTimeString().slice(0, 5),
-        endDate: endDate.toISOString().split('T')[0],
-        endTime: endDate.toTimeString().slice(0, 5)
+        startDate: event.allDay ? startDate.toLocaleDateString('en-CA') : start.date,
+        startTime: event.allDay ? '09:00' : start.time,
+        endDate: event.allDay
+          ? (lastDay < startDate ? startDate : lastDay).toLocaleDateString('en-CA')
+          : end.date,
+        endTime: event.allDay ? '10:00' : end.time,
+        repeat: rule?.freq || '',
+        repeatInterval: String(rule?.interval || 1),
+        repeatEnd: rule?.count ? 'count' : rule?.until ? 'until' : 'never',
+        repeatCount: String(rule?.count || 10),
+        repeatUntil: rule?.until ? new Date(rule.until).toLocaleDateString('en-CA') : ''
       });
+      setAllDay(!!event.allDay);
+      setTimezone(eventTimezone);
+      setReminders((event.alarms || []).map(toReminderInput));
+      setAttendees(event.attendees || []);
 
       // Set the selected calendar URL for editing
       if (event.calendarUrl) {
         setSelectedCalendarUrl(event.calendarUrl);
       }
     } else {
-      // Creating new event with default times
+      // Creating new event with the drafted or default times
       const baseDate = initialDate || new Date();
-      const startTime = new Date(baseDate);
+      const startTime = draft ? new Date(draft.dtstart) : new Date(baseDate);
       
       // Round to next hour if creating from current time
-      if (!initialDate) {
+      if (!draft && !initialDate) {
         startTime.setMinutes(0, 0, 0);
         startTime.setHours(startTime.getHours() + 1);
-      } else {
+      } else if (!draft) {
         // If specific date provided, start at 9 AM
         startTime.setHours(9, 0, 0, 0);
       }
       
-      const endTime = new Date(startTime.getTime() + 60 * 60 * 1000); // 1 hour later
+      const endTime = draft
+        ? new Date(draft.dtend)
+        : new Date(startTime.getTime() + 60 * 60 * 1000); // 1 hour later
+      const browserTimezone = getBrowserTimeZone();
+      const start = toInputValues(startTime, browserTimezone);
+      const end = toInputValues(endTime, browserTimezone);
+      // All-day drafts end at the midnight after their last day
+      const lastDay = new Date(endTime);
+      lastDay.setDate(lastDay.getDate() - 1);
       
       setFormData({
-        summary: '',
+        summary: draft?.summary || '',
         description: '',
         location: '',
-        startDate: startTime.toISOString().split('T')[0],
-        startTime: startTime.toTimeString().slice(0, 5),
-        endDate: endTime.toISOString().split('T')[0],
-        endTime: endTime.toTimeString().slice(0, 5)
+        startDate: start.date,
+        startTime: draft?.allDay ? '09:00' : start.time,
+        endDate: draft?.allDay ? toInputValues(lastDay, browserTimezone).date : end.date,
+        endTime: draft?.allDay ? '10:00' : end.time,
+        repeat: '',
+        repeatInterval: '1',
+        repeatEnd: 'never',
+        repeatCount: '10',
+        repeatUntil: ''
       });
+      setAllDay(!!draft?.allDay);
+      setTimezone(browserTimezone);
+      setReminders([]);
+      setAttendees([]);
       
       if (selectedCalendar) {
         setSelectedCalendarUrl(selectedCalendar.url);
       }
     }
-  }, [event, selectedCalendar, initialDate]);
+  }, [event, selectedCalendar, initialDate, draft]);
 
   // Set default calendar if not editing and no calendar selected
   useEffect(() => {
@@ -129,6 +318,143 @@ export const EventForm: React.FC<EventFormProps> = ({
     }
   }, [errors]);
 
+  // All-day events span whole days, ending at midnight after the end date
+  const getEventDateTimes = useCallback((): { start: Date; end: Date } => {
+    if (allDay) {
+      const end = new Date(`${formData.endDate}T00:00`);
+      end.setDate(end.getDate() + 1);
+      return { start: new Date(`${formData.startDate}T00:00`), end };
+    }
+    return {
+      start: fromInputValues(formData.startDate, formData.startTime, timezone),
+      end: fromInputValues(formData.endDate, formData.endTime, timezone)
+    };
+  }, [allDay, formData, timezone]);
+
+  // Move the event to a slot picked by the scheduling assistant
+  const handleSelectSlot = useCallback((start: Date, end: Date) => {
+    const startValues = toInputValues(start, timezone);
+    const endValues = toInputValues(end, timezone);
+    setFormData(prev => ({
+      ...prev,
+      startDate: startValues.date,
+      startTime: startValues.time,
+      endDate: endValues.date,
+      endTime: endValues.time
+    }));
+  }, [timezone]);
+
+  const addReminder = useCallback((minutes?: number) => {
+    // Adding a reminder is a user gesture, so ask for notification permission here
+    ReminderService.getInstance().requestPermission();
+    setReminders(prev => [
+      ...prev,
+      minutes === undefined
+        ? { amount: '30', unit: 'minutes' }
+        : toReminderInput({ minutesBefore: minutes })
+    ]);
+  }, []);
+
+  const updateReminder = useCallback((index: number, changes: Partial<ReminderInput>) => {
+    setReminders(prev => prev.map((reminder, i) => (i === index ? { ...reminder, ...changes } : reminder)));
+    setErrors(prev => (prev.reminders ? { ...prev, reminders: '' } : prev));
+  }, []);
+
+  const removeReminder = useCallback((index: number) => {
+    setReminders(prev => prev.filter((_, i) => i !== index));
+    setErrors(prev => (prev.reminders ? { ...prev, reminders: '' } : prev));
+  }, []);
+
+  const buildAlarms = useCallback((): EventAlarm[] | undefined => {
+    const alarms: EventAlarm[] = [];
+    for (const reminder of reminders) {
+      const minutesBefore = Number(reminder.amount) * REMINDER_UNITS[reminder.unit];
+      if (!alarms.some(alarm => alarm.minutesBefore === minutesBefore)) {
+        alarms.push({ ...reminder.alarm, minutesBefore });
+      }
+    }
+    return alarms.length > 0 ? alarms : undefined;
+  }, [reminders]);
+
+  const [contactSuggestions, setContactSuggestions] = useState<ContactSuggestion[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getContactSuggestions().then(suggestions => {
+      if (!cancelled) {
+        setContactSuggestions(suggestions);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const isUserAddress = useCallback((email: string) =>
+    userAddresses.some(address => address.toLowerCase() === email.toLowerCase()),
+  [userAddresses]);
+
+  // Only the organizer may change the guest list of an invitation
+  const canEditAttendees = !event?.organizer || isUserAddress(event.organizer.email);
+  const userAttendee = !canEditAttendees
+    ? attendees.find(attendee => isUserAddress(attendee.email))
+    : undefined;
+
+  const addAttendee = useCallback(() => {
+    const value = attendeeInput.trim();
+    if (!value) {
+      return;
+    }
+
+    // Accept "Name <email>" as well as a bare address
+    const match = value.match(/^(.*)<([^>]+)>$/);
+    const email = (match ? match[2] : value).trim();
+    if (!EMAIL_PATTERN.test(email)) {
+      setErrors(prev => ({ ...prev, attendees: 'Please enter a valid email address' }));
+      return;
+    }
+
+    if (!attendees.some(attendee => attendee.email.toLowerCase() === email.toLowerCase())) {
+      const contact = contactSuggestions.find(suggestion => suggestion.email.toLowerCase() === email.toLowerCase());
+      const name = (match ? match[1].trim().replace(/^"|"$/g, '') : '') || contact?.name;
+      setAttendees(prev => [
+        ...prev,
+        { email, name: name || undefined, partstat: 'NEEDS-ACTION', role: 'REQ-PARTICIPANT', rsvp: true }
+      ]);
+    }
+    setAttendeeInput('');
+    setErrors(prev => (prev.attendees ? { ...prev, attendees: '' } : prev));
+  }, [attendeeInput, attendees, contactSuggestions]);
+
+  const removeAttendee = useCallback((email: string) => {
+    setAttendees(prev => prev.filter(attendee => attendee.email !== email));
+  }, []);
+
+  const handleRespond = useCallback(async (partstat: ParticipationStatus) => {
+    if (!event || !onRespond) {
+      return;
+    }
+
+    setIsResponding(true);
+    setErrors(prev => ({ ...prev, submit: '' }));
+    try {
+      await onRespond(event, partstat);
+    } catch (error) {
+      console.error('Error responding to invitation:', error);
+      setErrors({
+        submit: error instanceof Error ? error.message : 'Failed to send your response'
+      });
+    } finally {
+      setIsResponding(false);
+    }
+  }, [event, onRespond]);
+
+  // Keep zones the runtime does not list (e.g. from another client) selectable
+  const timezoneOptions = useMemo(() => {
+    const zones = getSupportedTimeZones();
+    return zones.includes(timezone) ? zones : [timezone, ...zones];
+  }, [timezone]);
+
   const validateForm = useCallback((): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -143,7 +469,7 @@ export const EventForm: React.FC<EventFormProps> = ({
       newErrors.startDate = 'Start date is required';
     }
 
-    if (!formData.startTime) {
+    if (!allDay && !formData.startTime) {
       newErrors.startTime = 'Start time is required';
     }
 
@@ -151,7 +477,7 @@ export const EventForm: React.FC<EventFormProps> = ({
       newErrors.endDate = 'End date is required';
     }
 
-    if (!formData.endTime) {
+    if (!allDay && !formData.endTime) {
       newErrors.endTime = 'End time is required';
     }
 
@@ -169,9 +495,8 @@ export const EventForm: React.FC<EventFormProps> = ({
     }
 
     // Date/time validation
-    if (formData.startDate && formData.startTime && formData.endDate && formData.endTime) {
-      const startDateTime = new Date(`${formData.startDate}T${formData.startTime}`);
-      const endDateTime = new Date(`${formData.endDate}T${formData.endTime}`);
+    if (formData.startDate && formData.endDate && (allDay || (formData.startTime && formData.endTime))) {
+      const { start: startDateTime, end: endDateTime } = getEventDateTimes();
 
       // Check if dates are valid
       if (isNaN(startDateTime.getTime())) {
@@ -187,14 +512,18 @@ export const EventForm: React.FC<EventFormProps> = ({
       // Check if end is after start
       if (!isNaN(startDateTime.getTime()) && !isNaN(endDateTime.getTime())) {
         if (endDateTime <= startDateTime) {
-          newErrors.endTime = 'End time must be after start time';
+          if (allDay) {
+            newErrors.endDate = 'End date must be on or after start date';
+          } else {
+            newErrors.endTime = 'End time must be after start time';
+          }
         }
 
-        // Check if event is too long (more than 24 hours)
+        // Check if event is too long (multi-day events may last up to a year)
         const duration = endDateTime.getTime() - startDateTime.getTime();
-        const maxDuration = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+        const maxDuration = 366 * 24 * 60 * 60 * 1000;
         if (duration > maxDuration) {
-          newErrors.endTime = 'Event duration cannot exceed 24 hours';
+          newErrors[allDay ? 'endDate' : 'endTime'] = 'Event duration cannot exceed one year';
         }
       }
 
@@ -212,24 +541,71 @@ export const EventForm: React.FC<EventFormProps> = ({
       }
     }
 
+    // Recurrence validation
+    if (formData.repeat) {
+      const interval = Number(formData.repeatInterval);
+      if (!Number.isInteger(interval) || interval < 1 || interval > 99) {
+        newErrors.repeatInterval = 'Repeat interval must be between 1 and 99';
+      }
+
+      if (formData.repeatEnd === 'count') {
+        const count = Number(formData.repeatCount);
+        if (!Number.isInteger(count) || count < 1 || count > 999) {
+          newErrors.repeatCount = 'Number of occurrences must be between 1 and 999';
+        }
+      }
+
+      if (formData.repeatEnd === 'until') {
+        if (!formData.repeatUntil) {
+          newErrors.repeatUntil = 'End date is required';
+        } else if (formData.startDate && formData.repeatUntil < formData.startDate) {
+          newErrors.repeatUntil = 'Repeat end date must be on or after the start date';
+        }
+      }
+    }
+
+    // Reminder validation
+    for (const reminder of reminders) {
+      const amount = Number(reminder.amount);
+      const minutes = amount * REMINDER_UNITS[reminder.unit];
+      if (reminder.amount === '' || !Number.isInteger(amount) || amount < 0 || minutes > MAX_REMINDER_MINUTES) {
+        newErrors.reminders = 'Reminders must be a whole number of minutes, hours or days up to 4 weeks before';
+        break;
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
-  }, [formData, selectedCalendarUrl]);
+  }, [formData, selectedCalendarUrl, allDay, getEventDateTimes, reminders]);
 
-  const handleSubmit = useCallback(async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validateForm()) {
-      return;
+  const buildRecurrenceRule = useCallback((): RecurrenceRule | undefined => {
+    if (!formData.repeat) {
+      return undefined;
     }
 
+    const freq = formData.repeat as RecurrenceFrequency;
+    // Keep the BY* and WKST parts the form cannot edit when the frequency is unchanged
+    const previousRule = event?.rrule?.freq === freq ? event.rrule : undefined;
+    const interval = Number(formData.repeatInterval);
+
+    return {
+      ...previousRule,
+      freq,
+      interval: interval > 1 ? interval : undefined,
+      count: formData.repeatEnd === 'count' ? Number(formData.repeatCount) : undefined,
+      until: formData.repeatEnd === 'until'
+        ? new Date(`${formData.repeatUntil}T23:59:59`)
+        : undefined
+    };
+  }, [formData, event]);
+
+  const performSave = useCallback(async (scope?: RecurrenceScope, asCopy = false) => {
     setIsSubmitting(true);
     setErrors(prev => ({ ...prev, submit: '' })); // Clear previous submit errors
 
     try {
       // Create Date objects from form data
-      const startDateTime = new Date(`${formData.startDate}T${formData.startTime}`);
-      const endDateTime = new Date(`${formData.endDate}T${formData.endTime}`);
+      const { start: startDateTime, end: endDateTime } = getEventDateTimes();
 
       // Create event object
       const eventData: CalendarEvent = {
@@ -239,7 +615,19 @@ export const EventForm: React.FC<EventFormProps> = ({
         location: formData.location.trim() || undefined,
         dtstart: startDateTime,
         dtend: endDateTime,
-        etag: event?.etag
+        allDay: allDay || undefined,
+        timezone: allDay ? undefined : timezone,
+        etag: event?.etag,
+        href: event?.href,
+        raw: event?.raw,
+        rrule: buildRecurrenceRule(),
+        exdates: event?.exdates,
+        overrides: event?.overrides,
+        recurrenceId: event?.recurrenceId,
+        master: event?.master,
+        alarms: buildAlarms(),
+        organizer: event?.organizer,
+        attendees: attendees.length > 0 ? attendees : undefined
       };
 
       // Find selected calendar
@@ -248,7 +636,13 @@ export const EventForm: React.FC<EventFormProps> = ({
         throw new Error('Selected calendar not found');
       }
 
-      await onSave(eventData, calendar);
+      if (asCopy && onCopy) {
+        await onCopy(eventData, calendar);
+      } else if (scope) {
+        await onSave(eventData, calendar, scope);
+      } else {
+        await onSave(eventData, calendar);
+      }
       
       // If we get here, the save was successful and the parent component
       // should handle closing the form and refreshing the calendar
@@ -275,19 +669,36 @@ export const EventForm: React.FC<EventFormProps> = ({
     } finally {
       setIsSubmitting(false);
     }
-  }, [validateForm, formData, event, calendars, selectedCalendarUrl, onSave]);
+  }, [formData, event, calendars, selectedCalendarUrl, onSave, onCopy, buildRecurrenceRule, getEventDateTimes, allDay, timezone, buildAlarms, attendees]);
 
-  const handleDelete = useCallback(async () => {
-    if (!event || !onDelete || !isEditing) {
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!validateForm()) {
       return;
     }
 
-    // Show confirmation dialog
-    const confirmed = window.confirm(
-      `Are you sure you want to delete "${event.summary}"? This action cannot be undone.`
-    );
+    // Occurrences of a series need to know which events the change applies to
+    if (event?.master) {
+      setScopePrompt('save');
+      return;
+    }
 
-    if (!confirmed) {
+    await performSave();
+  }, [validateForm, event, performSave]);
+
+  // Saves the edited event as a new event in the selected calendar, which
+  // may belong to another account; the original stays as it was
+  const handleSaveAsCopy = useCallback(async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    await performSave(undefined, true);
+  }, [validateForm, performSave]);
+
+  const performDelete = useCallback(async (scope?: RecurrenceScope) => {
+    if (!event || !onDelete) {
       return;
     }
 
@@ -303,7 +714,11 @@ export const EventForm: React.FC<EventFormProps> = ({
         throw new Error('Calendar not found for this event');
       }
 
-      await onDelete(event, calendar);
+      if (scope) {
+        await onDelete(event, calendar, scope);
+      } else {
+        await onDelete(event, calendar);
+      }
       
       // If we get here, the delete was successful and the parent component
       // should handle closing the form and refreshing the calendar
@@ -328,11 +743,52 @@ export const EventForm: React.FC<EventFormProps> = ({
     } finally {
       setIsDeleting(false);
     }
-  }, [event, onDelete, isEditing, calendars, selectedCalendarUrl]);
+  }, [event, onDelete, calendars, selectedCalendarUrl]);
+
+  const handleDelete = useCallback(async () => {
+    if (!event || !onDelete || !isEditing) {
+      return;
+    }
+
+    // The scope dialog doubles as the confirmation for recurring events
+    if (event.master) {
+      setScopePrompt('delete');
+      return;
+    }
+
+    // Show confirmation dialog
+    const confirmed = window.confirm(
+      `Are you sure you want to delete "${event.summary}"? This action cannot be undone.`
+    );
+
+    if (!confirmed) {
+      return;
+    }
+
+    await performDelete();
+  }, [event, onDelete, isEditing, performDelete]);
+
+  const handleScopeSelect = useCallback((scope: RecurrenceScope) => {
+    const action = scopePrompt;
+    setScopePrompt(null);
+
+    if (action === 'save') {
+      performSave(scope);
+    } else if (action === 'delete') {
+      performDelete(scope);
+    }
+  }, [scopePrompt, performSave, performDelete]);
 
   // Handle keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Let the recurrence scope dialog handle its own dismissal
+      if (scopePrompt) {
+        if (e.key === 'Escape') {
+          setScopePrompt(null);
+        }
+        return;
+      }
       // Escape key to cancel
       if (e.key === 'Escape' && !isSubmitting && !isDeleting) {
         onCancel();
@@ -351,7 +807,7 @@ export const EventForm: React.FC<EventFormProps> = ({
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isSubmitting, isDeleting, onCancel, handleSubmit, handleDelete, isEditing, onDelete]);
+  }, [isSubmitting, isDeleting, onCancel, handleSubmit, handleDelete, isEditing, onDelete, scopePrompt]);
 
   // Focus management
   useEffect(() => {
@@ -414,11 +870,21 @@ export const EventForm: React.FC<EventFormProps> = ({
               aria-invalid={!!errors.calendar}
             >
               <option value="">Select a calendar</option>
-              {calendars.map(calendar => (
-                <option key={calendar.url} value={calendar.url}>
-                  {calendar.displayName}
-                </option>
-              ))}
+              {accounts.length > 1
+                ? groupByAccount(calendars, accounts).map(group => (
+                    <optgroup key={group.account.id} label={group.account.name}>
+                      {group.items.map(calendar => (
+                        <option key={calendar.url} value={calendar.url}>
+                          {calendar.displayName}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))
+                : calendars.map(calendar => (
+                    <option key={calendar.url} value={calendar.url}>
+                      {calendar.displayName}
+                    </option>
+                  ))}
             </select>
             {errors.calendar && (
               <span id="calendar-error" className="error-message" role="alert">
@@ -428,6 +894,19 @@ export const EventForm: React.FC<EventFormProps> = ({
           </div>
 
           {/* Date and Time */}
+          <div className="form-group checkbox-group">
+            <label htmlFor="allDay">
+              <input
+                id="allDay"
+                type="checkbox"
+                checked={allDay}
+                onChange={(e) => setAllDay(e.target.checked)}
+                disabled={isSubmitting}
+              />
+              All day
+            </label>
+          </div>
+
           <div className="form-row">
             <div className="form-group">
               <label htmlFor="startDate">Start Date *</label>
@@ -448,24 +927,26 @@ export const EventForm: React.FC<EventFormProps> = ({
               )}
             </div>
 
-            <div className="form-group">
-              <label htmlFor="startTime">Start Time *</label>
-              <input
-                id="startTime"
-                type="time"
-                value={formData.startTime}
-                onChange={(e) => handleInputChange('startTime', e.target.value)}
-                className={errors.startTime ? 'error' : ''}
-                disabled={isSubmitting}
-                aria-describedby={errors.startTime ? 'startTime-error' : undefined}
-                aria-invalid={!!errors.startTime}
-              />
-              {errors.startTime && (
-                <span id="startTime-error" className="error-message" role="alert">
-                  {errors.startTime}
-                </span>
-              )}
-            </div>
+            {!allDay && (
+              <div className="form-group">
+                <label htmlFor="startTime">Start Time *</label>
+                <input
+                  id="startTime"
+                  type="time"
+                  value={formData.startTime}
+                  onChange={(e) => handleInputChange('startTime', e.target.value)}
+                  className={errors.startTime ? 'error' : ''}
+                  disabled={isSubmitting}
+                  aria-describedby={errors.startTime ? 'startTime-error' : undefined}
+                  aria-invalid={!!errors.startTime}
+                />
+                {errors.startTime && (
+                  <span id="startTime-error" className="error-message" role="alert">
+                    {errors.startTime}
+                  </span>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="form-row">
@@ -488,24 +969,224 @@ export const EventForm: React.FC<EventFormProps> = ({
               )}
             </div>
 
+            {!allDay && (
+              <div className="form-group">
+                <label htmlFor="endTime">End Time *</label>
+                <input
+                  id="endTime"
+                  type="time"
+                  value={formData.endTime}
+                  onChange={(e) => handleInputChange('endTime', e.target.value)}
+                  className={errors.endTime ? 'error' : ''}
+                  disabled={isSubmitting}
+                  aria-describedby={errors.endTime ? 'endTime-error' : undefined}
+                  aria-invalid={!!errors.endTime}
+                />
+                {errors.endTime && (
+                  <span id="endTime-error" className="error-message" role="alert">
+                    {errors.endTime}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+
+          {!allDay && (
             <div className="form-group">
-              <label htmlFor="endTime">End Time *</label>
-              <input
-                id="endTime"
-                type="time"
-                value={formData.endTime}
-                onChange={(e) => handleInputChange('endTime', e.target.value)}
-                className={errors.endTime ? 'error' : ''}
+              <label htmlFor="timezone">Time Zone</label>
+              <select
+                id="timezone"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
                 disabled={isSubmitting}
-                aria-describedby={errors.endTime ? 'endTime-error' : undefined}
-                aria-invalid={!!errors.endTime}
-              />
-              {errors.endTime && (
-                <span id="endTime-error" className="error-message" role="alert">
-                  {errors.endTime}
-                </span>
+              >
+                {timezoneOptions.map(zone => (
+                  <option key={zone} value={zone}>
+                    {zone.replace(/_/g, ' ')}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {onLookupFreeBusy && !allDay && attendees.length > 0 && (
+            <FreeBusyGrid
+              attendees={attendees.map(attendee => attendee.email)}
+              start={getEventDateTimes().start}
+              end={getEventDateTimes().end}
+              onLookup={onLookupFreeBusy}
+              onSelectSlot={handleSelectSlot}
+              disabled={isSubmitting}
+            />
+          )}
+
+          {/* Recurrence */}
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="repeat">Repeat</label>
+              <select
+                id="repeat"
+                value={formData.repeat}
+                onChange={(e) => handleInputChange('repeat', e.target.value)}
+                disabled={isSubmitting}
+              >
+                <option value="">Does not repeat</option>
+                {event?.rrule?.freq === 'SECONDLY' && (
+                  <option value="SECONDLY">Every second</option>
+                )}
+                <option value="MINUTELY">Every minute</option>
+                <option value="HOURLY">Hourly</option>
+                <option value="DAILY">Daily</option>
+                <option value="WEEKLY">Weekly</option>
+                <option value="MONTHLY">Monthly</option>
+                <option value="YEARLY">Yearly</option>
+              </select>
+            </div>
+
+            {formData.repeat && (
+              <div className="form-group">
+                <label htmlFor="repeatInterval">
+                  Every ({REPEAT_UNITS[formData.repeat]})
+                </label>
+                <input
+                  id="repeatInterval"
+                  type="number"
+                  min={1}
+                  max={99}
+                  value={formData.repeatInterval}
+                  onChange={(e) => handleInputChange('repeatInterval', e.target.value)}
+                  className={errors.repeatInterval ? 'error' : ''}
+                  disabled={isSubmitting}
+                  aria-describedby={errors.repeatInterval ? 'repeatInterval-error' : undefined}
+                  aria-invalid={!!errors.repeatInterval}
+                />
+                {errors.repeatInterval && (
+                  <span id="repeatInterval-error" className="error-message" role="alert">
+                    {errors.repeatInterval}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+
+          {formData.repeat && (
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="repeatEnd">Ends</label>
+                <select
+                  id="repeatEnd"
+                  value={formData.repeatEnd}
+                  onChange={(e) => handleInputChange('repeatEnd', e.target.value)}
+                  disabled={isSubmitting}
+                >
+                  <option value="never">Never</option>
+                  <option value="count">After a number of times</option>
+                  <option value="until">On a date</option>
+                </select>
+              </div>
+
+              {formData.repeatEnd === 'count' && (
+                <div className="form-group">
+                  <label htmlFor="repeatCount">Occurrences</label>
+                  <input
+                    id="repeatCount"
+                    type="number"
+                    min={1}
+                    max={999}
+                    value={formData.repeatCount}
+                    onChange={(e) => handleInputChange('repeatCount', e.target.value)}
+                    className={errors.repeatCount ? 'error' : ''}
+                    disabled={isSubmitting}
+                    aria-describedby={errors.repeatCount ? 'repeatCount-error' : undefined}
+                    aria-invalid={!!errors.repeatCount}
+                  />
+                  {errors.repeatCount && (
+                    <span id="repeatCount-error" className="error-message" role="alert">
+                      {errors.repeatCount}
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {formData.repeatEnd === 'until' && (
+                <div className="form-group">
+                  <label htmlFor="repeatUntil">Until</label>
+                  <input
+                    id="repeatUntil"
+                    type="date"
+                    value={formData.repeatUntil}
+                    onChange={(e) => handleInputChange('repeatUntil', e.target.value)}
+                    className={errors.repeatUntil ? 'error' : ''}
+                    disabled={isSubmitting}
+                    aria-describedby={errors.repeatUntil ? 'repeatUntil-error' : undefined}
+                    aria-invalid={!!errors.repeatUntil}
+                  />
+                  {errors.repeatUntil && (
+                    <span id="repeatUntil-error" className="error-message" role="alert">
+                      {errors.repeatUntil}
+                    </span>
+                  )}
+                </div>
               )}
             </div>
+          )}
+
+          {/* Reminders */}
+          <div className="form-group">
+            <label id="reminders-label">Reminders</label>
+            {reminders.map((reminder, index) => (
+              <div key={index} className="reminder-row">
+                <input
+                  type="number"
+                  min={0}
+                  value={reminder.amount}
+                  onChange={(e) => updateReminder(index, { amount: e.target.value })}
+                  className={errors.reminders ? 'error' : ''}
+                  disabled={isSubmitting}
+                  aria-label={`Reminder ${index + 1} amount`}
+                />
+                <select
+                  value={reminder.unit}
+                  onChange={(e) => updateReminder(index, { unit: e.target.value as ReminderUnit })}
+                  disabled={isSubmitting}
+                  aria-label={`Reminder ${index + 1} unit`}
+                >
+                  <option value="minutes">minutes</option>
+                  <option value="hours">hours</option>
+                  <option value="days">days</option>
+                </select>
+                <span className="reminder-suffix">before</span>
+                <button
+                  type="button"
+                  className="reminder-remove"
+                  onClick={() => removeReminder(index)}
+                  disabled={isSubmitting}
+                  aria-label={`Remove reminder ${index + 1}`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <div className="reminder-presets" role="group" aria-labelledby="reminders-label">
+              {REMINDER_PRESETS.map(minutes => (
+                <button
+                  key={minutes}
+                  type="button"
+                  onClick={() => addReminder(minutes)}
+                  disabled={isSubmitting}
+                >
+                  + {formatReminderPreset(minutes)}
+                </button>
+              ))}
+              <button type="button" onClick={() => addReminder()} disabled={isSubmitting}>
+                + Custom
+              </button>
+            </div>
+            {errors.reminders && (
+              <span className="error-message" role="alert">
+                {errors.reminders}
+              </span>
+            )}
           </div>
 
           {/* Location */}
@@ -531,6 +1212,105 @@ export const EventForm: React.FC<EventFormProps> = ({
             )}
           </div>
 
+          {/* Reply to an invitation */}
+          {userAttendee && onRespond && (
+            <div className="form-group">
+              <label id="rsvp-label">Your response</label>
+              <div className="rsvp-buttons" role="group" aria-labelledby="rsvp-label">
+                {RSVP_OPTIONS.map(option => (
+                  <button
+                    key={option.partstat}
+                    type="button"
+                    className={`rsvp-button rsvp-${option.partstat.toLowerCase()}`}
+                    aria-pressed={userAttendee.partstat === option.partstat}
+                    onClick={() => handleRespond(option.partstat)}
+                    disabled={isSubmitting || isResponding}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Attendees */}
+          <div className="form-group">
+            <label htmlFor="attendee-input">Attendees</label>
+            {event?.organizer && (
+              <div className="attendee-organizer">
+                Organizer: {event.organizer.name || event.organizer.email}
+              </div>
+            )}
+            {attendees.length > 0 && (
+              <ul className="attendee-list">
+                {attendees.map(attendee => {
+                  const partstat = attendee.partstat || 'NEEDS-ACTION';
+                  return (
+                    <li key={attendee.email} className="attendee-row">
+                      <span className="attendee-name" title={attendee.email}>
+                        {attendee.name || attendee.email}
+                        {attendee.role === 'OPT-PARTICIPANT' && (
+                          <span className="attendee-optional"> (optional)</span>
+                        )}
+                      </span>
+                      <span className={`partstat-badge partstat-${partstat.toLowerCase()}`}>
+                        {PARTSTAT_LABELS[partstat]}
+                      </span>
+                      {canEditAttendees && (
+                        <button
+                          type="button"
+                          className="attendee-remove"
+                          onClick={() => removeAttendee(attendee.email)}
+                          disabled={isSubmitting}
+                          aria-label={`Remove ${attendee.name || attendee.email}`}
+                        >
+                          ×
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            {canEditAttendees && (
+              <div className="attendee-add">
+                <input
+                  id="attendee-input"
+                  type="text"
+                  list="attendee-suggestions"
+                  value={attendeeInput}
+                  onChange={(e) => setAttendeeInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      addAttendee();
+                    }
+                  }}
+                  disabled={isSubmitting}
+                  placeholder="Add people by name or email"
+                  className={errors.attendees ? 'error' : ''}
+                  aria-invalid={!!errors.attendees}
+                  autoComplete="off"
+                />
+                <datalist id="attendee-suggestions">
+                  {contactSuggestions.map(suggestion => (
+                    <option key={suggestion.email} value={suggestion.email}>
+                      {suggestion.name}
+                    </option>
+                  ))}
+                </datalist>
+                <button type="button" onClick={addAttendee} disabled={isSubmitting || !attendeeInput.trim()}>
+                  Add
+                </button>
+              </div>
+            )}
+            {errors.attendees && (
+              <span className="error-message" role="alert">
+                {errors.attendees}
+              </span>
+            )}
+          </div>
+
           {/* Description */}
           <div className="form-group">
             <label htmlFor="description">Description</label>
@@ -597,6 +1377,17 @@ export const EventForm: React.FC<EventFormProps> = ({
               >
                 Cancel
               </button>
+              {isEditing && onCopy && !event?.master && (
+                <button
+                  type="button"
+                  onClick={handleSaveAsCopy}
+                  disabled={isSubmitting || isDeleting || Object.keys(errors).some(key => key !== 'submit' && errors[key])}
+                  className="cancel-button"
+                  aria-label="Save as a new event"
+                >
+                  Save as Copy
+                </button>
+              )}
               <button
                 type="submit"
                 disabled={isSubmitting || isDeleting || Object.keys(errors).some(key => key !== 'submit' && errors[key])}
@@ -626,6 +1417,14 @@ export const EventForm: React.FC<EventFormProps> = ({
           </div>
         </form>
       </div>
+
+      {scopePrompt && (
+        <RecurrenceScopeDialog
+          action={scopePrompt}
+          onSelect={handleScopeSelect}
+          onCancel={() => setScopePrompt(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DateRange, FreeBusyResult } from '../../types/dav';
+import { findNextFreeSlot, mergeBusyPeriods, WorkingHours } from '../../utils/freeBusy';
+import { useWorkingHours } from '../../hooks/useWorkingHours';
+import './FreeBusyGrid.css';
+
+interface FreeBusyGridProps {
+  attendees: string[];
+  start: Date;
+  end: Date;
+  onLookup: (attendees: string[], range: DateRange) => Promise<FreeBusyResult[]>;
+  onSelectSlot: (start: Date, end: Date) => void;
+  disabled?: boolean;
+}
+
+// Days of free/busy information fetched from the start day on
+const LOOKUP_DAYS = 14;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toTimeValue = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+const fromTimeValue = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatSlot = (start: Date, end: Date): string => {
+  const day = start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = (date: Date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  return `${day}, ${time(start)} – ${time(end)}`;
+};
+
+// Hours shown in the grid: the working hours, or the whole day when they are empty
+const getVisibleWindow = (day: Date, workingHours: WorkingHours) => {
+  const startMinutes = workingHours.end > workingHours.start ? workingHours.start : 0;
+  const endMinutes = workingHours.end > workingHours.start ? workingHours.end : 24 * 60;
+  const windowStart = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, startMinutes);
+  const windowEnd = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, endMinutes);
+  return { windowStart, windowEnd, startMinutes, endMinutes };
+};
+
+/**
+ * Scheduling assistant: busy blocks of the user and each attendee on the day
+ * of the event, with an action that moves the event to the next slot in
+ * which everyone is free within working hours
+ */
+export const FreeBusyGrid: React.FC<FreeBusyGridProps> = ({
+  attendees,
+  start,
+  end,
+  onLookup,
+  onSelectSlot,
+  disabled = false,
+}) => {
+  const { workingHours, setWorkingHours } = useWorkingHours();
+  const [results, setResults] = useState<FreeBusyResult[]>([]);
+  const [range, setRange] = useState<DateRange | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const hasValidTimes = !isNaN(start.getTime()) && !isNaN(end.getTime()) && end > start;
+  const dayKey = hasValidTimes ? `${start.getFullYear()}-${start.getMonth() + 1}-${start.getDate()}` : '';
+  const attendeeKey = attendees.join(',');
+
+  // Look up the start day and the following days whenever either changes
+  useEffect(() => {
+    if (!dayKey) return;
+
+    let cancelled = false;
+    const [year, month, day] = dayKey.split('-').map(Number);
+    const lookupRange = {
+      start: new Date(year, month - 1, day),
+      end: new Date(year, month - 1, day + LOOKUP_DAYS),
+    };
+
+    setIsLoading(true);
+    setMessage(null);
+    onLookup(attendeeKey ? attendeeKey.split(',') : [], lookupRange)
+      .then(lookedUp => {
+        if (cancelled) return;
+        setResults(lookedUp);
+        setRange(lookupRange);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to look up free/busy information:', error);
+        setResults([]);
+        setRange(null);
+        setMessage('Availability could not be loaded.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dayKey, attendeeKey, onLookup]);
+
+  const allBusy = useMemo(() => mergeBusyPeriods(results.flatMap(result => result.busy)), [results]);
+
+  const handleSuggest = () => {
+    if (!range || !hasValidTimes) return;
+
+    const duration = end.getTime() - start.getTime();
+    const after = new Date(Math.max(start.getTime(), Date.now()));
+    let slot = findNextFreeSlot(allBusy, duration, after, workingHours, range.end);
+    // The current time is already free: offer the one after it
+    if (slot && slot.start.getTime() === start.getTime()) {
+      slot = findNextFreeSlot(allBusy, duration, new Date(start.getTime() + 1), workingHours, range.end);
+    }
+
+    if (slot) {
+      setMessage(null);
+      onSelectSlot(slot.start, slot.end);
+    } else {
+      setMessage(`No free slot within working hours in the next ${LOOKUP_DAYS} days.`);
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    const days = workingHours.days.indexOf(day) >= 0
+      ? workingHours.days.filter(value => value !== day)
+      : [...workingHours.days, day].sort((a, b) => a - b);
+    setWorkingHours({ ...workingHours, days });
+  };
+
+  if (!hasValidTimes) {
+    return null;
+  }
+
+  const { windowStart, windowEnd, startMinutes, endMinutes } = getVisibleWindow(start, workingHours);
+  const windowLength = windowEnd.getTime() - windowStart.getTime();
+
+  // Position of a period in the visible hours, or null when it lies outside them
+  const getBlockStyle = (periodStart: Date, periodEnd: Date): React.CSSProperties | null => {
+    const from = Math.max(periodStart.getTime(), windowStart.getTime());
+    const to = Math.min(periodEnd.getTime(), windowEnd.getTime());
+    if (to <= from) return null;
+    return {
+      left: `${((from - windowStart.getTime()) / windowLength) * 100}%`,
+      width: `${((to - from) / windowLength) * 100}%`,
+    };
+  };
+
+  const hourLabels: number[] = [];
+  for (let minutes = Math.ceil(startMinutes / 60) * 60; minutes < endMinutes; minutes += 60) {
+    hourLabels.push(minutes);
+  }
+
+  const slotStyle = getBlockStyle(start, end);
+
+  return (
+    <div className="free-busy">
+      <div className="free-busy-header">
+        <span className="free-busy-title">
+          Availability on {start.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+        </span>
+        {isLoading && <span className="free-busy-status">Loading…</span>}
+      </div>
+
+      <div className="free-busy-grid">
+        <div className="free-busy-row free-busy-hours">
+          <span className="free-busy-name" />
+          <div className="free-busy-track">
+            {hourLabels.map(minutes => (
+              <span
+                key={minutes}
+                className="free-busy-hour"
+                style={{ left: `${((minutes - startMinutes) / (endMinutes - startMinutes)) * 100}%` }}
+              >
+                {minutes / 60}
+              </span>
+            ))}
+          </div>
+        </div>
+        {results.map((result, index) => (
+          <div key={`${result.email}-${index}`} className="free-busy-row">
+            <span className="free-busy-name" title={result.email}>
+              {index === 0 ? 'You' : result.email}
+            </span>
+            <div className={`free-busy-track${result.error ? ' unknown' : ''}`} title={result.error}>
+              {result.busy.map((period, periodIndex) => {
+                const style = getBlockStyle(period.start, period.end);
+                return style ? (
+                  <span
+                    key={periodIndex}
+                    className={`free-busy-block ${period.type.toLowerCase()}`}
+                    style={style}
+                    title={`${period.type === 'BUSY-TENTATIVE' ? 'Tentative' : 'Busy'}: ${formatSlot(period.start, period.end)}`}
+                  />
+                ) : null;
+              })}
+              {slotStyle && <span className="free-busy-slot" style={slotStyle} />}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="free-busy-actions">
+        <button
+          type="button"
+          className="free-busy-suggest"
+          onClick={handleSuggest}
+          disabled={disabled || isLoading || !range}
+        >
+          Suggest next free slot
+        </button>
+        <div className="free-busy-working-hours">
+          <span>Working hours</span>
+          <input
+            type="time"
+            value={toTimeValue(workingHours.start)}
+            onChange={(e) => e.target.value && setWorkingHours({ ...workingHours, start: fromTimeValue(e.target.value) })}
+            aria-label="Working hours start"
+          />
+          <span>–</span>
+          <input
+            type="time"
+            value={toTimeValue(workingHours.end)}
+            onChange={(e) => e.target.value && setWorkingHours({ ...workingHours, end: fromTimeValue(e.target.value) })}
+            aria-label="Working hours end"
+          />
+        </div>
+        <div className="free-busy-days">
+          {WEEKDAYS.map((label, day) => (
+            <label key={label} className="free-busy-day">
+              <input
+                type="checkbox"
+                checked={workingHours.days.indexOf(day) >= 0}
+                onChange={() => toggleDay(day)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {message && (
+        <p className="free-busy-message" role="status">
+          {message}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,280 @@
+import React, { useState, useEffect } from 'react';
+import { Modal } from '../common';
+import { Calendar, CalendarEvent } from '../../types/dav';
+import {
+  ImportService,
+  ImportPreviewItem,
+  ImportProgress,
+  ImportResult
+} from '../../services/ImportService';
+import { describeRecurrenceRule } from '../../utils/recurrence';
+import './NewCalendarForm.css';
+import './ImportCalendarDialog.css';
+
+interface ImportCalendarDialogProps {
+  calendars: Calendar[];
+  importService: ImportService;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+const formatEventStart = (event: CalendarEvent): string => {
+  const start = new Date(event.dtstart);
+  return event.allDay ? start.toLocaleDateString() : start.toLocaleString();
+};
+
+/**
+ * Imports the events of an .ics file into a calendar, after a preview that
+ * flags events already on the server
+ */
+export const ImportCalendarDialog: React.FC<ImportCalendarDialogProps> = ({
+  calendars,
+  importService,
+  onImported,
+  onClose,
+}) => {
+  const [calendarUrl, setCalendarUrl] = useState(calendars[0]?.url || '');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreviewItem<CalendarEvent>[]>([]);
+  const [selectedUids, setSelectedUids] = useState<Set<string>>(new Set());
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [result, setResult] = useState<ImportResult<CalendarEvent> | null>(null);
+
+  const isImporting = !!progress && !result;
+  const calendarName = (url: string) =>
+    calendars.find(calendar => calendar.url === url)?.displayName || url;
+
+  // Events already in the target calendar cannot be created there again
+  useEffect(() => {
+    setSelectedUids(prev => {
+      const next = new Set(prev);
+      preview
+        .filter(item => item.existingIn.includes(calendarUrl))
+        .forEach(item => next.delete(item.resource.uid));
+      return next;
+    });
+  }, [calendarUrl, preview]);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setFileName(file.name);
+    setPreview([]);
+
+    try {
+      const events = importService.parseCalendarFile(await file.text());
+      const items = await importService.previewEvents(events);
+      setPreview(items);
+      setSelectedUids(new Set(
+        items.filter(item => item.existingIn.length === 0).map(item => item.resource.uid)
+      ));
+    } catch (parseError) {
+      console.error('Failed to read calendar file:', parseError);
+      setError(parseError instanceof Error ? parseError.message : 'Failed to read the file');
+    }
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      handleFile(file);
+    }
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) {
+      handleFile(file);
+    }
+  };
+
+  const toggleEvent = (uid: string) => {
+    setSelectedUids(prev => {
+      const next = new Set(prev);
+      if (next.has(uid)) {
+        next.delete(uid);
+      } else {
+        next.add(uid);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const calendar = calendars.find(c => c.url === calendarUrl);
+    if (!calendar) return;
+
+    const events = preview
+      .filter(item => selectedUids.has(item.resource.uid))
+      .map(item => item.resource);
+
+    setError(null);
+    setProgress({ done: 0, total: events.length });
+    try {
+      const importResult = await importService.importEvents(calendar, events, setProgress);
+      setResult(importResult);
+      if (importResult.imported.length > 0) {
+        onImported();
+      }
+    } catch (importError) {
+      console.error('Failed to import events:', importError);
+      setError(importError instanceof Error ? importError.message : 'Failed to import events');
+      setProgress(null);
+    }
+  };
+
+  const describeItem = (item: ImportPreviewItem<CalendarEvent>): string | null => {
+    if (item.existingIn.includes(calendarUrl)) {
+      return 'Already in this calendar';
+    }
+    if (item.existingIn.length > 0) {
+      return `Also in ${item.existingIn.map(calendarName).join(', ')}`;
+    }
+    return null;
+  };
+
+  return (
+    <Modal
+      isOpen={true}
+      title="Import Events"
+      onClose={isImporting ? () => {} : onClose}
+      size="large"
+    >
+      <div className="import-dialog">
+        {error && <div className="form-error">{error}</div>}
+
+        {result ? (
+          <div className="import-report">
+            <p>
+              Imported {result.imported.length} of {result.imported.length + result.failed.length} events
+              into {calendarName(calendarUrl)}.
+            </p>
+            {result.failed.length > 0 && (
+              <ul className="import-failures">
+                {result.failed.map(({ resource, error: itemError }) => (
+                  <li key={resource.uid}>
+                    <strong>{resource.summary || 'Untitled event'}</strong>
+                    <span className="import-failure-reason">{itemError}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="form-group">
+              <label htmlFor="import-calendar" className="form-label">
+                Import into
+              </label>
+              <select
+                id="import-calendar"
+                className="form-input"
+                value={calendarUrl}
+                onChange={(e) => setCalendarUrl(e.target.value)}
+                disabled={isImporting}
+              >
+                {calendars.map(calendar => (
+                  <option key={calendar.url} value={calendar.url}>
+                    {calendar.displayName}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div
+              className={`import-drop-zone ${isDragging ? 'dragging' : ''}`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+            >
+              <p>{fileName ? `Selected: ${fileName}` : 'Drop an .ics file here or'}</p>
+              <label className="form-button form-button-secondary import-file-button">
+                Choose file
+                <input
+                  type="file"
+                  accept=".ics,text/calendar"
+                  onChange={handleFileInput}
+                  disabled={isImporting}
+                  hidden
+                />
+              </label>
+            </div>
+
+            {preview.length > 0 && (
+              <div className="import-preview">
+                <p className="import-summary">
+                  {preview.length} events found, {selectedUids.size} selected
+                </p>
+                <ul className="import-preview-list">
+                  {preview.map(item => {
+                    const note = describeItem(item);
+                    const event = item.resource;
+                    return (
+                      <li key={event.uid} className={note ? 'import-preview-item duplicate' : 'import-preview-item'}>
+                        <label>
+                          <input
+                            type="checkbox"
+                            checked={selectedUids.has(event.uid)}
+                            onChange={() => toggleEvent(event.uid)}
+                            disabled={isImporting || item.existingIn.includes(calendarUrl)}
+                          />
+                          <span className="import-event-title">{event.summary || 'Untitled event'}</span>
+                          <span className="import-event-time">
+                            {formatEventStart(event)}
+                            {event.rrule && ` · ${describeRecurrenceRule(event.rrule)}`}
+                          </span>
+                          {note && <span className="import-event-note">{note}</span>}
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            {progress && (
+              <div className="import-progress">
+                <progress value={progress.done} max={progress.total} />
+                <span>Imported {progress.done} of {progress.total}</span>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="form-actions">
+          {result ? (
+            <button type="button" onClick={onClose} className="form-button form-button-primary">
+              Done
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={onClose}
+                className="form-button form-button-secondary"
+                disabled={isImporting}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                className="form-button form-button-primary"
+                disabled={isImporting || selectedUids.size === 0 || !calendarUrl}
+              >
+                {isImporting ? 'Importing...' : `Import ${selectedUids.size} events`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
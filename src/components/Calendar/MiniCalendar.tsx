@@ -1,6 +1,7 @@
 import React, { useMemo } from 'react';
 import { CalendarEvent, Calendar } from '../../types/dav';
 import { getEventCalendarColor } from '../../utils/calendarColors';
+import { eventOccursOnDate } from '../../utils/eventDates';
 import './MiniCalendar.css';
 
 interface MiniCalendarProps {
@@ -39,17 +40,7 @@ export const MiniCalendar: React.FC<MiniCalendarProps> = ({
   }, [currentDate]);
 
   const getEventsForDate = (date: Date): CalendarEvent[] => {
-    return events.filter(event => {
-      const eventStart = new Date(event.dtstart);
-      const eventEnd = new Date(event.dtend);
-      
-      const dateStart = new Date(date);
-      dateStart.setHours(0, 0, 0, 0);
-      const dateEnd = new Date(date);
-      dateEnd.setHours(23, 59, 59, 999);
-      
-      return (eventStart <= dateEnd && eventEnd >= dateStart);
-    });
+    return events.filter(event => eventOccursOnDate(event, date));
   };
 
   const isToday = (date: Date): boolean => {
@@ -1,16 +1,20 @@
 import React, { useState } from 'react';
 import { Modal, ColorPicker } from '../common';
+import { Account } from '../../types/auth';
 import './NewCalendarForm.css';
 
 interface NewCalendarFormProps {
-  onSave: (displayName: string, color: string, description?: string) => Promise<void>;
+  accounts?: Account[];
+  onSave: (displayName: string, color: string, description?: string, accountId?: string) => Promise<void>;
   onCancel: () => void;
 }
 
 export const NewCalendarForm: React.FC<NewCalendarFormProps> = ({
+  accounts = [],
   onSave,
   onCancel,
 }) => {
+  const [accountId, setAccountId] = useState(accounts[0]?.id);
   const [displayName, setDisplayName] = useState('');
   const [description, setDescription] = useState('');
   const [color, setColor] = useState('#3b82f6');
@@ -29,7 +33,7 @@ export const NewCalendarForm: React.FC<NewCalendarFormProps> = ({
     setError(null);
 
     try {
-      await onSave(displayName.trim(), color, description.trim() || undefined);
+      await onSave(displayName.trim(), color, description.trim() || undefined, accountId);
     } catch (error) {
       console.error('Error creating calendar:', error);
       setError(error instanceof Error ? error.message : 'Failed to create calendar');
@@ -57,6 +61,27 @@ export const NewCalendarForm: React.FC<NewCalendarFormProps> = ({
             </div>
           )}
 
+          {accounts.length > 1 && (
+            <div className="form-group">
+              <label htmlFor="calendar-account" className="form-label">
+                Account
+              </label>
+              <select
+                id="calendar-account"
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className="form-input"
+                disabled={isSubmitting}
+              >
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="form-group">
             <label htmlFor="calendar-name" className="form-label">
               Calendar Name *
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { Calendar, EventDraft } from '../../types/dav';
+import './QuickCreatePopover.css';
+
+// Size used to keep the popover inside the window, in px
+const POPOVER_WIDTH = 300;
+const POPOVER_HEIGHT = 230;
+const POPOVER_MARGIN = 8;
+
+interface QuickCreatePopoverProps {
+  draft: EventDraft;
+  calendars: Calendar[];
+  defaultCalendar?: Calendar;
+  position: { x: number; y: number }; // Where the selection ended, in viewport coordinates
+  onSave: (draft: EventDraft, calendar: Calendar) => Promise<void>;
+  onMoreOptions: (draft: EventDraft, calendar: Calendar) => void;
+  onCancel: () => void;
+}
+
+export const QuickCreatePopover: React.FC<QuickCreatePopoverProps> = ({
+  draft,
+  calendars,
+  defaultCalendar,
+  position,
+  onSave,
+  onMoreOptions,
+  onCancel
+}) => {
+  const [summary, setSummary] = useState(draft.summary);
+  const [calendarUrl, setCalendarUrl] = useState(defaultCalendar?.url || calendars[0]?.url || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const calendar = calendars.find(cal => cal.url === calendarUrl);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!calendar || !summary.trim()) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({ ...draft, summary: summary.trim() }, calendar);
+    } catch (error) {
+      console.error('Error creating event:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create event');
+      setIsSaving(false);
+    }
+  };
+
+  const handleMoreOptions = () => {
+    if (calendar) {
+      onMoreOptions({ ...draft, summary: summary.trim() }, calendar);
+    }
+  };
+
+  const formatDay = (date: Date): string => {
+    return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  };
+
+  const formatTime = (date: Date): string => {
+    return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+  };
+
+  // e.g. "Mon, Mar 3, 9:00 AM – 10:30 AM" or "Mon, Mar 3 – Wed, Mar 5"
+  const formatRange = (): string => {
+    const start = new Date(draft.dtstart);
+    const end = new Date(draft.dtend);
+    if (draft.allDay) {
+      const lastDay = new Date(end);
+      lastDay.setDate(lastDay.getDate() - 1);
+      return lastDay > start ? `${formatDay(start)} – ${formatDay(lastDay)}` : formatDay(start);
+    }
+    return `${formatDay(start)}, ${formatTime(start)} – ${formatTime(end)}`;
+  };
+
+  const left = Math.max(
+    POPOVER_MARGIN,
+    Math.min(position.x, window.innerWidth - POPOVER_WIDTH - POPOVER_MARGIN)
+  );
+  const top = Math.max(
+    POPOVER_MARGIN,
+    Math.min(position.y, window.innerHeight - POPOVER_HEIGHT - POPOVER_MARGIN)
+  );
+
+  return (
+    <>
+      <div className="quick-create-backdrop" onClick={onCancel} />
+      <form
+        className="quick-create-popover"
+        style={{ left, top, width: POPOVER_WIDTH }}
+        onSubmit={handleSubmit}
+        role="dialog"
+        aria-label="New event"
+      >
+        <input
+          type="text"
+          className="quick-create-title"
+          value={summary}
+          onChange={(e) => setSummary(e.target.value)}
+          placeholder="Add title"
+          aria-label="Title"
+          autoFocus
+          disabled={isSaving}
+        />
+        <div className="quick-create-when">{formatRange()}</div>
+        <select
+          className="quick-create-calendar"
+          value={calendarUrl}
+          onChange={(e) => setCalendarUrl(e.target.value)}
+          aria-label="Calendar"
+          disabled={isSaving}
+        >
+          {calendars.map(cal => (
+            <option key={cal.url} value={cal.url}>
+              {cal.displayName}
+            </option>
+          ))}
+        </select>
+
+        {error && <div className="quick-create-error">{error}</div>}
+
+        <div className="quick-create-actions">
+          <button
+            type="button"
+            className="quick-create-more"
+            onClick={handleMoreOptions}
+            disabled={isSaving || !calendar}
+          >
+            More options
+          </button>
+          <button type="button" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="quick-create-save"
+            disabled={isSaving || !calendar || !summary.trim()}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </>
+  );
+};
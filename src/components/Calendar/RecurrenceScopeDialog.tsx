@@ -0,0 +1,51 @@
+import React from 'react';
+import { RecurrenceScope } from '../../utils/recurrence';
+import './RecurrenceScopeDialog.css';
+
+interface RecurrenceScopeDialogProps {
+  action: 'save' | 'delete';
+  onSelect: (scope: RecurrenceScope) => void;
+  onCancel: () => void;
+}
+
+export const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({
+  action,
+  onSelect,
+  onCancel
+}) => {
+  const verb = action === 'save' ? 'Update' : 'Delete';
+
+  return (
+    <div className="recurrence-scope-overlay">
+      <div
+        className="recurrence-scope-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="recurrence-scope-title"
+      >
+        <h3 id="recurrence-scope-title">
+          {action === 'save' ? 'Edit recurring event' : 'Delete recurring event'}
+        </h3>
+        <p>This event is part of a series. Which events should change?</p>
+
+        <div className="recurrence-scope-options">
+          <button type="button" onClick={() => onSelect('this')}>
+            {verb} this event
+          </button>
+          <button type="button" onClick={() => onSelect('following')}>
+            {verb} this and following events
+          </button>
+          <button type="button" onClick={() => onSelect('all')}>
+            {verb} all events
+          </button>
+        </div>
+
+        <div className="recurrence-scope-actions">
+          <button type="button" className="cancel-button" onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
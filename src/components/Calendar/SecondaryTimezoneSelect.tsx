@@ -0,0 +1,32 @@
+import React, { useMemo } from 'react';
+import { getSupportedTimeZones } from '../../utils/timezones';
+import './SecondaryTimezoneSelect.css';
+
+interface SecondaryTimezoneSelectProps {
+  value: string | null;
+  onChange: (timezone: string | null) => void;
+}
+
+// Picks the zone of the second column of hour labels in the time grid views
+export const SecondaryTimezoneSelect: React.FC<SecondaryTimezoneSelectProps> = ({
+  value,
+  onChange
+}) => {
+  const timezoneOptions = useMemo(() => getSupportedTimeZones(), []);
+
+  return (
+    <select
+      className="secondary-timezone-select"
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      aria-label="Secondary time zone"
+    >
+      <option value="">No second time zone</option>
+      {timezoneOptions.map(zone => (
+        <option key={zone} value={zone}>
+          {zone.replace(/_/g, ' ')}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,596 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CalendarEvent, Calendar, EventDraft, Task } from '../../types/dav';
+import { getEventCalendarColor } from '../../utils/calendarColors';
+import {
+  AllDaySegment,
+  TimedEventLayout,
+  addDays,
+  countAllDayLanes,
+  eventOccursOnDate,
+  isAllDayBandEvent,
+  layoutAllDaySegments,
+  layoutTimedEvents,
+  startOfDay
+} from '../../utils/eventDates';
+import {
+  getBrowserTimeZone,
+  getTimeZoneAbbreviation,
+  getZonedDateTime
+} from '../../utils/timezones';
+import {
+  EventTimes,
+  getDayTime,
+  getSelectedRange,
+  moveEventTo,
+  moveEventToDay,
+  resizeEventTo,
+  setDraggedEvent,
+  suppressNextClick
+} from '../../utils/eventDrag';
+import { DueTaskList } from './DueTaskList';
+import './TimeGrid.css';
+
+const MINUTES_PER_DAY = 24 * 60;
+// Hour the day columns are scrolled to when the grid is shown
+const SCROLL_TO_HOUR = 7;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+interface TimeGridProps {
+  days: Date[];
+  events: CalendarEvent[];
+  calendars: Calendar[];
+  tasks?: Task[]; // Shown in the all-day band on the day they are due
+  showDayHeaders?: boolean; // Off when the view already names its single day
+  secondaryTimezone?: string | null; // Adds a column of hour labels in this zone
+  onEventClick?: (event: CalendarEvent) => void;
+  onSlotClick?: (date: Date) => void; // Empty space clicked, at the hour clicked in a day column
+  onTaskToggle?: (task: Task) => void;
+  onEventReschedule?: (event: CalendarEvent, times: EventTimes) => void; // Events dragged or resized
+  onRangeSelect?: (draft: EventDraft, position: { x: number; y: number }) => void; // Times or days selected by dragging
+}
+
+/**
+ * Hourly grid of one or more day columns, with events positioned by their
+ * start and end times and all-day events in a band above
+ */
+export const TimeGrid: React.FC<TimeGridProps> = ({
+  days,
+  events,
+  calendars,
+  tasks = [],
+  showDayHeaders = true,
+  secondaryTimezone,
+  onEventClick,
+  onSlotClick,
+  onTaskToggle,
+  onEventReschedule,
+  onRangeSelect
+}) => {
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const bandRef = useRef<HTMLDivElement>(null);
+  const resizingRef = useRef(false);
+  // Where the dragged event was grabbed, as a fraction of the day below its start
+  const grabOffsetRef = useRef(0);
+  const [now, setNow] = useState(() => new Date());
+  // Event being dragged, and where a dragged or resized event would end up
+  const [dragging, setDragging] = useState<CalendarEvent | null>(null);
+  const [preview, setPreview] = useState<(EventTimes & { event: CalendarEvent }) | null>(null);
+  const [selection, setSelection] = useState<EventTimes | null>(null);
+  // Days selected by dragging across the all-day band, by index
+  const [selectedDays, setSelectedDays] = useState<{ first: number; last: number } | null>(null);
+
+  // Move the current time indicator along every minute
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Start scrolled to the working day rather than midnight
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (body) {
+      body.scrollTop = (body.scrollHeight * SCROLL_TO_HOUR) / 24;
+    }
+  }, []);
+
+  const segments = layoutAllDaySegments(events, days);
+  const lanes = countAllDayLanes(segments);
+
+  const isToday = (date: Date): boolean => {
+    return date.toDateString() === now.toDateString();
+  };
+
+  const formatTime = (date: Date): string => {
+    return date.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true
+    });
+  };
+
+  const formatRange = (start: Date, end: Date): string => {
+    return `${formatTime(start)} - ${formatTime(end)}`;
+  };
+
+  const formatHour = (hour: number): string => {
+    return new Date(2000, 0, 1, hour).toLocaleTimeString('en-US', { hour: 'numeric', hour12: true });
+  };
+
+  // Label of an hour in the secondary time zone, with minutes for half-hour offsets
+  const formatSecondaryTime = (hour: number, timeZone: string): string => {
+    const time = new Date(days[0]);
+    time.setHours(hour, 0, 0, 0);
+    const zoned = getZonedDateTime(time, timeZone);
+    return time.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: zoned.minute === 0 ? undefined : '2-digit',
+      hour12: true,
+      timeZone
+    });
+  };
+
+  // Vertical position of a span of minutes within a day column
+  const getBlockStyle = (startMinutes: number, endMinutes: number): React.CSSProperties => ({
+    top: `${(startMinutes / MINUTES_PER_DAY) * 100}%`,
+    height: `${((endMinutes - startMinutes) / MINUTES_PER_DAY) * 100}%`
+  });
+
+  // Minutes of a time range that fall on the given day, or null if it misses the day
+  const getMinutesOnDay = (range: EventTimes, day: Date): [number, number] | null => {
+    const dayStart = startOfDay(day).getTime();
+    const start = (range.dtstart.getTime() - dayStart) / 60000;
+    const end = (range.dtend.getTime() - dayStart) / 60000;
+    if (start >= MINUTES_PER_DAY || end <= 0) {
+      return null;
+    }
+    return [Math.max(start, 0), Math.min(end, MINUTES_PER_DAY)];
+  };
+
+  // Fraction of the way down a day column the pointer is at
+  const getPointerFraction = (column: Element, clientY: number): number => {
+    const rect = column.getBoundingClientRect();
+    return rect.height > 0 ? (clientY - rect.top) / rect.height : 0;
+  };
+
+  const handleEventClick = (event: CalendarEvent, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onEventClick) {
+      onEventClick(event);
+    }
+  };
+
+  const handleColumnClick = (day: Date, e: React.MouseEvent) => {
+    if (onSlotClick) {
+      const time = startOfDay(day);
+      time.setHours(Math.min(Math.floor(getPointerFraction(e.currentTarget, e.clientY) * 24), 23));
+      onSlotClick(time);
+    }
+  };
+
+  const handleEventDragStart = (event: CalendarEvent, e: React.DragEvent, layout?: TimedEventLayout) => {
+    // Pulling the resize handle must not drag the whole event
+    if (resizingRef.current) {
+      e.preventDefault();
+      return;
+    }
+    const column = e.currentTarget.closest('.time-grid-column');
+    grabOffsetRef.current = layout && column
+      ? getPointerFraction(column, e.clientY) - layout.startMinutes / MINUTES_PER_DAY
+      : 0;
+    setDraggedEvent(e.dataTransfer, event);
+    setDragging(event);
+  };
+
+  const handleEventDragEnd = () => {
+    setDragging(null);
+    setPreview(null);
+  };
+
+  const updatePreview = (event: CalendarEvent, times: EventTimes) => {
+    if (
+      preview?.event !== event ||
+      preview.dtstart.getTime() !== times.dtstart.getTime() ||
+      preview.dtend.getTime() !== times.dtend.getTime()
+    ) {
+      setPreview({ event, ...times });
+    }
+  };
+
+  // Timed events dropped on a day column start where the pointer is, in 15 minute steps
+  const getColumnDropTimes = (event: CalendarEvent, day: Date, e: React.DragEvent): EventTimes => {
+    const fraction = getPointerFraction(e.currentTarget, e.clientY) - grabOffsetRef.current;
+    return moveEventTo(event, getDayTime(day, fraction));
+  };
+
+  const handleColumnDragOver = (day: Date, e: React.DragEvent) => {
+    if (!dragging || !onEventReschedule || isAllDayBandEvent(dragging)) {
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    updatePreview(dragging, getColumnDropTimes(dragging, day, e));
+  };
+
+  const handleColumnDrop = (day: Date, e: React.DragEvent) => {
+    if (!dragging || !onEventReschedule || isAllDayBandEvent(dragging)) {
+      return;
+    }
+    e.preventDefault();
+    onEventReschedule(dragging, getColumnDropTimes(dragging, day, e));
+    handleEventDragEnd();
+  };
+
+  // All-day and multi-day events dropped on the band move to that day, keeping their times
+  const handleBandDragOver = (day: Date, e: React.DragEvent) => {
+    if (!dragging || !onEventReschedule || !isAllDayBandEvent(dragging)) {
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    updatePreview(dragging, moveEventToDay(dragging, day));
+  };
+
+  const handleBandDrop = (day: Date, e: React.DragEvent) => {
+    if (!dragging || !onEventReschedule || !isAllDayBandEvent(dragging)) {
+      return;
+    }
+    e.preventDefault();
+    onEventReschedule(dragging, moveEventToDay(dragging, day));
+    handleEventDragEnd();
+  };
+
+  const isBandDropTarget = (day: Date): boolean => {
+    return (
+      !!preview &&
+      isAllDayBandEvent(preview.event) &&
+      eventOccursOnDate({ ...preview.event, dtstart: preview.dtstart, dtend: preview.dtend }, day)
+    );
+  };
+
+  // Resizing by the bottom edge follows the pointer until it is released
+  const handleResizeStart = (event: CalendarEvent, day: Date, e: React.PointerEvent) => {
+    const reschedule = onEventReschedule;
+    const column = e.currentTarget.closest('.time-grid-column');
+    if (!reschedule || !column) {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    resizingRef.current = true;
+
+    let times: EventTimes = { dtstart: new Date(event.dtstart), dtend: new Date(event.dtend) };
+    setPreview({ event, ...times });
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      times = resizeEventTo(event, getDayTime(day, getPointerFraction(column, moveEvent.clientY)));
+      setPreview({ event, ...times });
+    };
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      resizingRef.current = false;
+      suppressNextClick();
+
+      setPreview(null);
+      reschedule(event, times);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  // Dragging down empty space in a day column selects a time range for a new event;
+  // a plain click still goes to onSlotClick
+  const handleSelectionStart = (day: Date, e: React.PointerEvent) => {
+    const selectRange = onRangeSelect;
+    if (!selectRange || e.button !== 0 || e.target !== e.currentTarget) {
+      return;
+    }
+
+    const column = e.currentTarget;
+    const getTimeAtPointer = (clientY: number) => getDayTime(day, getPointerFraction(column, clientY));
+    const anchor = getTimeAtPointer(e.clientY);
+    let range: EventTimes | null = null;
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      const pointer = getTimeAtPointer(moveEvent.clientY);
+      if (!range && pointer.getTime() === anchor.getTime()) {
+        return;
+      }
+      range = getSelectedRange(anchor, pointer);
+      setSelection(range);
+    };
+    const handleUp = (upEvent: PointerEvent) => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      setSelection(null);
+      if (range) {
+        suppressNextClick();
+        selectRange({ summary: '', ...range }, { x: upEvent.clientX, y: upEvent.clientY });
+      }
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  // Index of the all-day band day under the pointer
+  const getDayIndexAtPointer = (clientX: number): number => {
+    const cells = Array.from(
+      bandRef.current?.querySelectorAll<HTMLElement>('.time-grid-band-day') || []
+    );
+    const index = cells.findIndex(cell => clientX < cell.getBoundingClientRect().right);
+    return index === -1 ? cells.length - 1 : index;
+  };
+
+  // Dragging across days of the all-day band selects them for a new all-day event
+  const handleDaySelectionStart = (e: React.PointerEvent) => {
+    const selectRange = onRangeSelect;
+    if (!selectRange || e.button !== 0 || e.target !== e.currentTarget) {
+      return;
+    }
+
+    const anchor = getDayIndexAtPointer(e.clientX);
+    let range: { first: number; last: number } | null = null;
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      const index = getDayIndexAtPointer(moveEvent.clientX);
+      if (!range && index === anchor) {
+        return;
+      }
+      range = { first: Math.min(anchor, index), last: Math.max(anchor, index) };
+      setSelectedDays(range);
+    };
+    const handleUp = (upEvent: PointerEvent) => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      setSelectedDays(null);
+      if (range) {
+        suppressNextClick();
+        selectRange(
+          {
+            summary: '',
+            dtstart: new Date(days[range.first]),
+            dtend: addDays(days[range.last], 1),
+            allDay: true
+          },
+          { x: upEvent.clientX, y: upEvent.clientY }
+        );
+      }
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  const getBandTitle = (segment: AllDaySegment): string => {
+    const { event } = segment;
+    if (event.allDay) {
+      return event.summary;
+    }
+    return `${event.summary}\n${formatRange(new Date(event.dtstart), new Date(event.dtend))}`;
+  };
+
+  const renderBandSegment = (segment: AllDaySegment, index: number) => {
+    const eventColor = getEventCalendarColor(segment.event.calendarUrl, calendars);
+    return (
+      <div
+        key={`${segment.event.uid}-band-${index}`}
+        className={`event-item all-day-bar${segment.continuesBefore ? ' continues-before' : ''}${segment.continuesAfter ? ' continues-after' : ''}${preview?.event === segment.event ? ' rescheduling' : ''}`}
+        style={{
+          gridColumn: `${segment.startIndex + 1} / span ${segment.span}`,
+          gridRow: segment.lane + 1,
+          backgroundColor: eventColor,
+          color: '#ffffff'
+        }}
+        onClick={(e) => handleEventClick(segment.event, e)}
+        draggable
+        onDragStart={(e) => handleEventDragStart(segment.event, e)}
+        onDragEnd={handleEventDragEnd}
+        title={getBandTitle(segment)}
+      >
+        <span className="event-title">{segment.event.summary}</span>
+      </div>
+    );
+  };
+
+  const renderTimedEvent = (layout: TimedEventLayout, day: Date, index: number) => {
+    const { event, startMinutes, endMinutes, column, columns } = layout;
+    const eventColor = getEventCalendarColor(event.calendarUrl, calendars);
+    const start = new Date(event.dtstart);
+    const end = new Date(event.dtend);
+    return (
+      <div
+        key={`${event.uid}-${index}`}
+        className={`event-item time-grid-event${preview?.event === event ? ' rescheduling' : ''}`}
+        style={{
+          ...getBlockStyle(startMinutes, endMinutes),
+          left: `${(column / columns) * 100}%`,
+          width: `${100 / columns}%`,
+          backgroundColor: eventColor,
+          borderLeftColor: eventColor
+        }}
+        onClick={(e) => handleEventClick(event, e)}
+        draggable
+        onDragStart={(e) => handleEventDragStart(event, e, layout)}
+        onDragEnd={handleEventDragEnd}
+        title={`${event.summary}\n${formatRange(start, end)}${event.location ? `\n${event.location}` : ''}`}
+      >
+        <div className="event-title">{event.summary}</div>
+        <div className="event-time">{formatRange(start, end)}</div>
+        {event.location && <div className="event-location">{event.location}</div>}
+        {onEventReschedule && (
+          <div
+            className="resize-handle"
+            onPointerDown={(e) => handleResizeStart(event, day, e)}
+            onClick={(e) => e.stopPropagation()}
+            aria-hidden="true"
+          />
+        )}
+      </div>
+    );
+  };
+
+  // Dashed preview of a dragged or resized event where it would end up
+  const renderGhost = (day: Date) => {
+    if (!preview || isAllDayBandEvent(preview.event)) {
+      return null;
+    }
+    const minutes = getMinutesOnDay(preview, day);
+    if (!minutes) {
+      return null;
+    }
+    const eventColor = getEventCalendarColor(preview.event.calendarUrl, calendars);
+    return (
+      <div
+        className="event-item time-grid-event event-ghost"
+        style={{ ...getBlockStyle(minutes[0], minutes[1]), borderColor: eventColor, color: eventColor }}
+        aria-hidden="true"
+      >
+        <div className="event-title">{preview.event.summary}</div>
+        <div className="event-time">{formatRange(preview.dtstart, preview.dtend)}</div>
+      </div>
+    );
+  };
+
+  const renderSelection = (day: Date) => {
+    const minutes = selection && getMinutesOnDay(selection, day);
+    if (!selection || !minutes) {
+      return null;
+    }
+    return (
+      <div
+        className="time-grid-selection"
+        style={getBlockStyle(minutes[0], minutes[1])}
+        aria-hidden="true"
+      >
+        {formatRange(selection.dtstart, selection.dtend)}
+      </div>
+    );
+  };
+
+  const renderNowIndicator = (day: Date) => {
+    if (!isToday(day)) {
+      return null;
+    }
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    return (
+      <div
+        className="time-grid-now"
+        data-testid="time-grid-now"
+        style={{ top: `${(minutes / MINUTES_PER_DAY) * 100}%` }}
+        title={formatTime(now)}
+        aria-hidden="true"
+      />
+    );
+  };
+
+  const columnsStyle = { gridTemplateColumns: `repeat(${days.length}, minmax(0, 1fr))` };
+
+  return (
+    <div className={`time-grid${dragging ? ' dragging' : ''}`}>
+      {(showDayHeaders || secondaryTimezone) && (
+        <div className="time-grid-header">
+          {secondaryTimezone ? (
+            <>
+              <div className="time-grid-gutter secondary time-zone-label">
+                {getTimeZoneAbbreviation(days[0], secondaryTimezone)}
+              </div>
+              <div className="time-grid-gutter time-zone-label">
+                {getTimeZoneAbbreviation(days[0], getBrowserTimeZone())}
+              </div>
+            </>
+          ) : (
+            <div className="time-grid-gutter" aria-hidden="true" />
+          )}
+          <div className="time-grid-days" style={columnsStyle}>
+            {showDayHeaders && days.map(day => (
+              <div key={day.getTime()} className="time-grid-day-header">
+                <div className="day-name">
+                  {day.toLocaleDateString('en-US', { weekday: 'short' })}
+                </div>
+                <div className={`day-number ${isToday(day) ? 'today' : ''}`}>
+                  {day.getDate()}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(showDayHeaders || segments.length > 0) && (
+        <div className="time-grid-all-day">
+          {secondaryTimezone && <div className="time-grid-gutter secondary" aria-hidden="true" />}
+          <div className="time-grid-gutter all-day-label">All day</div>
+          <div className="time-grid-band" style={columnsStyle} ref={bandRef}>
+            {days.map((day, index) => {
+              const isSelected = !!selectedDays && index >= selectedDays.first && index <= selectedDays.last;
+              return (
+                <div
+                  key={day.getTime()}
+                  className={`time-grid-band-day${isBandDropTarget(day) ? ' drop-target' : ''}${isSelected ? ' selected' : ''}`}
+                  style={{ gridColumn: index + 1, gridRow: `1 / span ${lanes + 1}` }}
+                  onClick={() => onSlotClick?.(startOfDay(day))}
+                  onPointerDown={handleDaySelectionStart}
+                  onDragOver={(e) => handleBandDragOver(day, e)}
+                  onDrop={(e) => handleBandDrop(day, e)}
+                />
+              );
+            })}
+            {segments.map(renderBandSegment)}
+            {days.map((day, index) => (
+              <div
+                key={`tasks-${day.getTime()}`}
+                className="time-grid-band-tasks"
+                style={{ gridColumn: index + 1, gridRow: lanes + 1 }}
+              >
+                <DueTaskList
+                  date={day}
+                  tasks={tasks}
+                  calendars={calendars}
+                  onTaskToggle={onTaskToggle}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="time-grid-body" ref={bodyRef}>
+        {secondaryTimezone && (
+          <div className="time-grid-gutter secondary">
+            {HOURS.map(hour => (
+              <div key={hour} className="time-grid-hour-label">
+                {formatSecondaryTime(hour, secondaryTimezone)}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="time-grid-gutter">
+          {HOURS.map(hour => (
+            <div key={hour} className="time-grid-hour-label">
+              {formatHour(hour)}
+            </div>
+          ))}
+        </div>
+        <div className="time-grid-columns" style={columnsStyle}>
+          {days.map(day => (
+            <div
+              key={day.getTime()}
+              className={`time-grid-column${isToday(day) ? ' today' : ''}`}
+              data-testid="time-grid-column"
+              onClick={(e) => handleColumnClick(day, e)}
+              onPointerDown={(e) => handleSelectionStart(day, e)}
+              onDragOver={(e) => handleColumnDragOver(day, e)}
+              onDrop={(e) => handleColumnDrop(day, e)}
+            >
+              {layoutTimedEvents(events, day).map((layout, index) =>
+                renderTimedEvent(layout, day, index)
+              )}
+              {renderSelection(day)}
+              {renderGhost(day)}
+              {renderNowIndicator(day)}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
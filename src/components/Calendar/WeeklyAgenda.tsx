@@ -1,6 +1,11 @@
 import React, { useMemo } from 'react';
 import { CalendarEvent, Calendar } from '../../types/dav';
 import { getEventCalendarColor } from '../../utils/calendarColors';
+import {
+  eventOccursOnDate,
+  isAllDayBandEvent,
+  layoutAllDaySegments
+} from '../../utils/eventDates';
 import './WeeklyAgenda.css';
 
 interface WeeklyAgendaProps {
@@ -32,18 +37,16 @@ export const WeeklyAgenda: React.FC<WeeklyAgendaProps> = ({
     return days;
   }, [currentDate]);
 
+  const allDaySegments = useMemo(
+    () => layoutAllDaySegments(events, weekDays),
+    [events, weekDays]
+  );
+
+  // Timed single-day events; all-day and multi-day events are shown in the band
   const getEventsForDate = (date: Date): CalendarEvent[] => {
-    return events.filter(event => {
-      const eventStart = new Date(event.dtstart);
-      const eventEnd = new Date(event.dtend);
-      
-      const dateStart = new Date(date);
-      dateStart.setHours(0, 0, 0, 0);
-      const dateEnd = new Date(date);
-      dateEnd.setHours(23, 59, 59, 999);
-      
-      return (eventStart <= dateEnd && eventEnd >= dateStart);
-    }).sort((a, b) => {
+    return events.filter(event =>
+      !isAllDayBandEvent(event) && eventOccursOnDate(event, date)
+    ).sort((a, b) => {
       return new Date(a.dtstart).getTime() - new Date(b.dtstart).getTime();
     });
   };
@@ -71,16 +74,6 @@ export const WeeklyAgenda: React.FC<WeeklyAgendaProps> = ({
     return `${startTime} - ${endTime}`;
   };
 
-  const isAllDay = (event: CalendarEvent): boolean => {
-    const start = new Date(event.dtstart);
-    const end = new Date(event.dtend);
-    
-    return start.getHours() === 0 && 
-           start.getMinutes() === 0 && 
-           start.getSeconds() === 0 &&
-           (end.getTime() - start.getTime()) % (24 * 60 * 60 * 1000) === 0;
-  };
-
   const handleDateClick = (date: Date) => {
     if (onDateChange) {
       onDateChange(date);
@@ -99,6 +92,40 @@ export const WeeklyAgenda: React.FC<WeeklyAgendaProps> = ({
         <h3 className="weekly-agenda-title">This Week</h3>
       </div>
       
+      {allDaySegments.length > 0 && (
+        <div className="agenda-all-day-band">
+          <div className="agenda-all-day-label">
+            <span className="all-day-badge">All Day</span>
+          </div>
+          <div className="agenda-all-day-grid">
+            {weekDays.map((date, index) => (
+              <div
+                key={`day-${index}`}
+                className={`agenda-all-day-weekday ${isSelectedDate(date) ? 'selected' : ''}`}
+                style={{ gridColumn: index + 1, gridRow: 1 }}
+              >
+                {date.toLocaleDateString('en-US', { weekday: 'narrow' })}
+              </div>
+            ))}
+            {allDaySegments.map((segment, index) => (
+              <div
+                key={`${segment.event.uid}-band-${index}`}
+                className="agenda-all-day-bar"
+                style={{
+                  gridColumn: `${segment.startIndex + 1} / span ${segment.span}`,
+                  gridRow: segment.lane + 2,
+                  backgroundColor: getEventCalendarColor(segment.event.calendarUrl, calendars)
+                }}
+                onClick={() => handleEventClick(segment.event)}
+                title={segment.event.summary}
+              >
+                {segment.event.summary}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      
       <div className="weekly-agenda-content">
         {weekDays.map((date, index) => {
           const dayEvents = getEventsForDate(date);
@@ -134,11 +161,7 @@ export const WeeklyAgenda: React.FC<WeeklyAgendaProps> = ({
                         <div className="agenda-event-details">
                           <div className="agenda-event-title">{event.summary}</div>
                           <div className="agenda-event-time">
-                            {isAllDay(event) ? (
-                              <span className="all-day-badge">All Day</span>
-                            ) : (
-                              formatDuration(new Date(event.dtstart), new Date(event.dtend))
-                            )}
+                            {formatDuration(new Date(event.dtstart), new Date(event.dtend))}
                           </div>
                           {event.location && (
                             <div className="agenda-event-location">
@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Calendar, CalendarEvent, DateRange } from '../../types/dav';
+import { getEventCalendarColor } from '../../utils/calendarColors';
+import { EventDensity, getDayKey, getDensityLevel } from '../../utils/eventDensity';
+import './YearView.css';
+
+// Calendars marked on a day by a coloured dot, at most
+const MAX_DOTS = 4;
+
+interface YearViewProps {
+  startDate: Date; // Any day of the first month shown
+  months: number;
+  calendars: Calendar[];
+  events?: CalendarEvent[]; // Loaded events; counts are reloaded when they change, e.g. after an edit
+  visibleCalendars?: Set<string>; // Counts of other calendars are left out
+  onLoadDensity?: (dateRange: DateRange) => Promise<EventDensity>;
+  onDayClick?: (date: Date) => void;
+  onMonthClick?: (date: Date) => void;
+}
+
+/**
+ * Overview of several months, e.g. a whole year, shading each day by how many
+ * events it has and marking the calendars they are in
+ */
+export const YearView: React.FC<YearViewProps> = ({
+  startDate,
+  months,
+  calendars,
+  events,
+  visibleCalendars,
+  onLoadDensity,
+  onDayClick,
+  onMonthClick
+}) => {
+  const [density, setDensity] = useState<EventDensity>({});
+  const [loading, setLoading] = useState(false);
+  const firstMonth = new Date(startDate.getFullYear(), startDate.getMonth(), 1).getTime();
+
+  useEffect(() => {
+    if (!onLoadDensity) {
+      return;
+    }
+
+    let cancelled = false;
+    const start = new Date(firstMonth);
+    const end = new Date(start.getFullYear(), start.getMonth() + months, 1);
+    end.setMilliseconds(-1);
+
+    setLoading(true);
+    onLoadDensity({ start, end })
+      .then(result => {
+        if (!cancelled) {
+          setDensity(result);
+        }
+      })
+      .catch(error => console.error('Error loading event counts:', error))
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [firstMonth, months, events, onLoadDensity]);
+
+  const monthStarts = useMemo(() => {
+    const start = new Date(firstMonth);
+    return Array.from(
+      { length: months },
+      (_, index) => new Date(start.getFullYear(), start.getMonth() + index, 1)
+    );
+  }, [firstMonth, months]);
+
+  // Events of a day per calendar, leaving out hidden calendars
+  const getDayCounts = (date: Date): [string, number][] => {
+    return Object.entries(density[getDayKey(date)] || {}).filter(
+      ([calendarUrl]) => !visibleCalendars || visibleCalendars.has(calendarUrl)
+    );
+  };
+
+  const isToday = (date: Date): boolean => {
+    return date.toDateString() === new Date().toDateString();
+  };
+
+  const renderDay = (date: Date) => {
+    const counts = getDayCounts(date);
+    const total = counts.reduce((sum, [, count]) => sum + count, 0);
+    const label = date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+    return (
+      <button
+        key={date.getDate()}
+        type="button"
+        className={`overview-day density-${getDensityLevel(total)}${isToday(date) ? ' today' : ''}`}
+        onClick={() => onDayClick?.(date)}
+        title={total > 0 ? `${total} event${total === 1 ? '' : 's'}` : undefined}
+        aria-label={total > 0 ? `${label}, ${total} event${total === 1 ? '' : 's'}` : label}
+      >
+        <span className="overview-day-number">{date.getDate()}</span>
+        <span className="overview-day-dots" aria-hidden="true">
+          {counts.slice(0, MAX_DOTS).map(([calendarUrl]) => (
+            <span
+              key={calendarUrl}
+              className="overview-dot"
+              data-testid="overview-dot"
+              style={{ backgroundColor: getEventCalendarColor(calendarUrl, calendars) }}
+            />
+          ))}
+        </span>
+      </button>
+    );
+  };
+
+  const renderMonth = (monthStart: Date) => {
+    const daysInMonth = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0).getDate();
+    const days = Array.from(
+      { length: daysInMonth },
+      (_, index) => new Date(monthStart.getFullYear(), monthStart.getMonth(), index + 1)
+    );
+
+    return (
+      <section key={monthStart.getTime()} className="overview-month">
+        <button
+          type="button"
+          className="overview-month-title"
+          onClick={() => onMonthClick?.(monthStart)}
+        >
+          {monthStart.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+        </button>
+        <div className="overview-weekdays" aria-hidden="true">
+          {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((day, index) => (
+            <div key={index} className="overview-weekday">{day}</div>
+          ))}
+        </div>
+        <div className="overview-days">
+          {/* Blank cells before the first, so days line up under their weekday */}
+          {Array.from({ length: monthStart.getDay() }, (_, index) => (
+            <div key={`blank-${index}`} className="overview-blank" />
+          ))}
+          {days.map(renderDay)}
+        </div>
+      </section>
+    );
+  };
+
+  return (
+    <div className={`year-view months-${months}${loading ? ' loading' : ''}`} aria-busy={loading}>
+      {monthStarts.map(renderMonth)}
+    </div>
+  );
+};
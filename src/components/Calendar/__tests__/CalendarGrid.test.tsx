@@ -1,7 +1,8 @@
 import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
 import { CalendarGrid } from '../CalendarGrid';
 import { CalendarEvent } from '../../../types/dav';
+import { getTimeZoneAbbreviation } from '../../../utils/timezones';
 
 const mockEvents: CalendarEvent[] = [
   {
@@ -59,6 +60,41 @@ describe('CalendarGrid', () => {
     expect(screen.getByText('15')).toBeInTheDocument(); // 15th is a Monday in 2024
   });
 
+  it('should render the work week from Monday to Friday', () => {
+    render(
+      <CalendarGrid
+        currentDate={new Date(2024, 0, 17)}
+        viewType="workweek"
+        events={[]}
+        calendars={[]}
+      />
+    );
+
+    const dayNames = screen.getAllByText(/^(Sun|Mon|Tue|Wed|Thu|Fri|Sat)$/);
+    expect(dayNames.map(name => name.textContent)).toEqual(['Mon', 'Tue', 'Wed', 'Thu', 'Fri']);
+    expect(screen.getByText('15')).toBeInTheDocument();
+    expect(screen.getByText('19')).toBeInTheDocument();
+  });
+
+  it('should add a column of hour labels in a second time zone', () => {
+    render(
+      <CalendarGrid
+        currentDate={new Date(2024, 0, 17)}
+        viewType="3day"
+        events={[]}
+        calendars={[]}
+      />
+    );
+
+    const tokyoLabel = getTimeZoneAbbreviation(new Date(2024, 0, 17), 'Asia/Tokyo');
+    expect(screen.queryByText(tokyoLabel)).toBeNull();
+
+    fireEvent.change(screen.getByLabelText('Secondary time zone'), { target: { value: 'Asia/Tokyo' } });
+
+    expect(screen.getByText(tokyoLabel)).toBeInTheDocument();
+    localStorage.removeItem('secondaryTimezone');
+  });
+
   it('should display events in month view', () => {
     render(
       <CalendarGrid
@@ -129,4 +165,40 @@ describe('CalendarGrid', () => {
 
     expect(screen.getByText('+2 more')).toBeInTheDocument();
   });
+
+  it('should reschedule an event dropped on another day, keeping its times', () => {
+    const standup: CalendarEvent = {
+      uid: 'standup',
+      summary: 'Standup',
+      dtstart: new Date(2024, 0, 15, 9, 30),
+      dtend: new Date(2024, 0, 15, 10, 0)
+    };
+    const onEventReschedule = jest.fn();
+    const dataTransfer = { setData: jest.fn(), types: [], effectAllowed: '', dropEffect: '' };
+
+    render(
+      <CalendarGrid
+        currentDate={new Date(2024, 0, 15)}
+        viewType="month"
+        events={[standup]}
+        calendars={[]}
+        onEventReschedule={onEventReschedule}
+      />
+    );
+
+    const targetDay = screen.getByTestId('month-day-2024-01-17');
+    fireEvent.dragStart(screen.getByText('Standup'), { dataTransfer });
+    fireEvent.dragOver(targetDay, { dataTransfer });
+
+    // The ghost previews the event on the day it would be dropped on
+    expect(within(targetDay).getByText('Standup')).toBeInTheDocument();
+
+    fireEvent.drop(targetDay, { dataTransfer });
+
+    expect(onEventReschedule).toHaveBeenCalledWith(standup, {
+      dtstart: new Date(2024, 0, 17, 9, 30),
+      dtend: new Date(2024, 0, 17, 10, 0)
+    });
+    expect(screen.getAllByText('Standup')).toHaveLength(1);
+  });
 });
\ No newline at end of file
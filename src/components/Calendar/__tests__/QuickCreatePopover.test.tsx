@@ -0,0 +1,87 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QuickCreatePopover } from '../QuickCreatePopover';
+import { Calendar, EventDraft } from '../../../types/dav';
+
+const calendars: Calendar[] = [
+  { url: 'https://example.com/calendars/jane/personal/', displayName: 'Personal' },
+  { url: 'https://example.com/calendars/jane/work/', displayName: 'Work' }
+];
+
+const draft: EventDraft = {
+  summary: '',
+  dtstart: new Date(2025, 2, 3, 9, 0),
+  dtend: new Date(2025, 2, 3, 10, 30)
+};
+
+describe('QuickCreatePopover', () => {
+  const onSave = jest.fn();
+  const onMoreOptions = jest.fn();
+  const onCancel = jest.fn();
+
+  const renderPopover = (props: Partial<React.ComponentProps<typeof QuickCreatePopover>> = {}) =>
+    render(
+      <QuickCreatePopover
+        draft={draft}
+        calendars={calendars}
+        defaultCalendar={calendars[1]}
+        position={{ x: 100, y: 100 }}
+        onSave={onSave}
+        onMoreOptions={onMoreOptions}
+        onCancel={onCancel}
+        {...props}
+      />
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should show the selected range and calendar', () => {
+    renderPopover();
+
+    expect(screen.getByText('Mon, Mar 3, 9:00 AM – 10:30 AM')).toBeInTheDocument();
+    expect(screen.getByLabelText('Calendar')).toHaveValue(calendars[1].url);
+    expect(screen.getByText('Save')).toBeDisabled();
+  });
+
+  it('should create the event with the title in the selected calendar', async () => {
+    onSave.mockResolvedValue(undefined);
+    renderPopover();
+
+    fireEvent.change(screen.getByLabelText('Title'), { target: { value: 'Design review' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() =>
+      expect(onSave).toHaveBeenCalledWith({ ...draft, summary: 'Design review' }, calendars[1])
+    );
+  });
+
+  it('should keep the popover open with the error when creating fails', async () => {
+    onSave.mockRejectedValue(new Error('Network error'));
+    renderPopover();
+
+    fireEvent.change(screen.getByLabelText('Title'), { target: { value: 'Design review' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(await screen.findByText('Network error')).toBeInTheDocument();
+    expect(screen.getByText('Save')).not.toBeDisabled();
+  });
+
+  it('should hand the draft to the full form for more options', () => {
+    renderPopover();
+
+    fireEvent.change(screen.getByLabelText('Calendar'), { target: { value: calendars[0].url } });
+    fireEvent.click(screen.getByText('More options'));
+
+    expect(onMoreOptions).toHaveBeenCalledWith(draft, calendars[0]);
+  });
+
+  it('should describe all-day ranges by their days', () => {
+    renderPopover({
+      draft: { summary: '', dtstart: new Date(2025, 2, 3), dtend: new Date(2025, 2, 6), allDay: true }
+    });
+
+    expect(screen.getByText('Mon, Mar 3 – Wed, Mar 5')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,115 @@
+import React from 'react';
+import { render, screen, fireEvent, createEvent, within } from '@testing-library/react';
+import { TimeGrid } from '../TimeGrid';
+import { CalendarEvent } from '../../../types/dav';
+
+// Monday 15 to Wednesday 17 January 2024
+const days = [new Date(2024, 0, 15), new Date(2024, 0, 16), new Date(2024, 0, 17)];
+
+const makeEvent = (uid: string, dtstart: Date, dtend: Date, allDay?: boolean): CalendarEvent => ({
+  uid,
+  summary: uid,
+  dtstart,
+  dtend,
+  allDay
+});
+
+// Timed events are titled with their summary followed by their time range
+const getBlock = (summary: string) => screen.getByTitle(new RegExp(`^${summary}\\s`));
+
+describe('TimeGrid', () => {
+  it('should position events by their start and end times', () => {
+    render(
+      <TimeGrid
+        days={days}
+        events={[makeEvent('Standup', new Date(2024, 0, 15, 9, 0), new Date(2024, 0, 15, 9, 30))]}
+        calendars={[]}
+      />
+    );
+
+    const block = getBlock('Standup');
+    expect(block.style.top).toBe(`${(540 / 1440) * 100}%`);
+    expect(block.style.height).toBe(`${(30 / 1440) * 100}%`);
+  });
+
+  it('should place overlapping events side by side', () => {
+    render(
+      <TimeGrid
+        days={days}
+        events={[
+          makeEvent('Planning', new Date(2024, 0, 16, 10, 0), new Date(2024, 0, 16, 12, 0)),
+          makeEvent('Interview', new Date(2024, 0, 16, 11, 0), new Date(2024, 0, 16, 11, 45))
+        ]}
+        calendars={[]}
+      />
+    );
+
+    expect(getBlock('Planning').style.left).toBe('0%');
+    expect(getBlock('Planning').style.width).toBe('50%');
+    expect(getBlock('Interview').style.left).toBe('50%');
+    expect(getBlock('Interview').style.width).toBe('50%');
+  });
+
+  it('should show all-day events in the band above the day columns', () => {
+    render(
+      <TimeGrid
+        days={days}
+        events={[makeEvent('Offsite', new Date(2024, 0, 15), new Date(2024, 0, 17), true)]}
+        calendars={[]}
+      />
+    );
+
+    const bar = screen.getByTitle('Offsite');
+    expect(bar.style.gridColumn).toBe('1 / span 2');
+    expect(screen.queryByTitle(/^Offsite\s/)).toBeNull();
+  });
+
+  it('should reschedule an event dropped on another day column at the pointer time', () => {
+    const review = makeEvent('Review', new Date(2024, 0, 15, 9, 0), new Date(2024, 0, 15, 10, 0));
+    const onEventReschedule = jest.fn();
+    const dataTransfer = { setData: jest.fn(), types: [], effectAllowed: '', dropEffect: '' };
+
+    render(
+      <TimeGrid
+        days={days}
+        events={[review]}
+        calendars={[]}
+        onEventReschedule={onEventReschedule}
+      />
+    );
+
+    // Each day column is 1440px tall, one pixel per minute
+    const columns = screen.getAllByTestId('time-grid-column');
+    columns.forEach(column => {
+      column.getBoundingClientRect = () => ({ top: 0, height: 1440, bottom: 1440 } as DOMRect);
+    });
+
+    const drag = (type: 'dragStart' | 'dragOver' | 'drop', element: HTMLElement, clientY: number) => {
+      const event = createEvent[type](element, { dataTransfer });
+      Object.defineProperty(event, 'clientY', { value: clientY });
+      fireEvent(element, event);
+    };
+
+    // Grabbed 20 minutes below its start and dropped at 14:20 on the Wednesday
+    drag('dragStart', getBlock('Review'), 560);
+    drag('dragOver', columns[2], 860);
+
+    expect(within(columns[2]).getByText('2:00 PM - 3:00 PM')).toBeInTheDocument();
+
+    drag('drop', columns[2], 860);
+
+    expect(onEventReschedule).toHaveBeenCalledWith(review, {
+      dtstart: new Date(2024, 0, 17, 14, 0),
+      dtend: new Date(2024, 0, 17, 15, 0)
+    });
+  });
+
+  it('should mark the current time in the column of today', () => {
+    const today = new Date();
+    render(<TimeGrid days={[today]} events={[]} calendars={[]} />);
+
+    const column = screen.getByTestId('time-grid-column');
+    expect(column).toHaveClass('today');
+    expect(within(column).getByTestId('time-grid-now')).toBeInTheDocument();
+  });
+});
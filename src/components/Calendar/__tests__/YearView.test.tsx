@@ -0,0 +1,84 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { YearView } from '../YearView';
+import { Calendar } from '../../../types/dav';
+
+const calendars: Calendar[] = [
+  { url: '/calendars/work/', displayName: 'Work', color: '#3174ad' },
+  { url: '/calendars/home/', displayName: 'Home', color: '#e67c73' }
+];
+
+const density = {
+  '2025-03-04': { '/calendars/work/': 3, '/calendars/home/': 1 },
+  '2025-03-05': { '/calendars/home/': 1 }
+};
+
+describe('YearView', () => {
+  it('should load the counts of the months shown in one range', async () => {
+    const onLoadDensity = jest.fn().mockResolvedValue(density);
+
+    render(
+      <YearView
+        startDate={new Date(2025, 0, 1)}
+        months={12}
+        calendars={calendars}
+        onLoadDensity={onLoadDensity}
+      />
+    );
+
+    expect(onLoadDensity).toHaveBeenCalledWith({
+      start: new Date(2025, 0, 1),
+      end: new Date(2025, 11, 31, 23, 59, 59, 999)
+    });
+    expect(screen.getByText('January 2025')).toBeInTheDocument();
+    expect(screen.getByText('December 2025')).toBeInTheDocument();
+
+    const busyDay = await screen.findByLabelText('March 4, 2025, 4 events');
+    expect(busyDay).toHaveClass('density-3');
+    expect(within(busyDay).getAllByTestId('overview-dot')).toHaveLength(2);
+  });
+
+  it('should leave hidden calendars out of the counts', async () => {
+    render(
+      <YearView
+        startDate={new Date(2025, 2, 1)}
+        months={3}
+        calendars={calendars}
+        visibleCalendars={new Set(['/calendars/work/'])}
+        onLoadDensity={jest.fn().mockResolvedValue(density)}
+      />
+    );
+
+    expect(await screen.findByLabelText('March 4, 2025, 3 events')).toBeInTheDocument();
+    expect(screen.getByLabelText('March 5, 2025')).toHaveClass('density-0');
+    expect(screen.queryByText('June 2025')).toBeNull();
+  });
+
+  it('should reload the counts when the loaded events change', async () => {
+    const onLoadDensity = jest.fn().mockResolvedValue({});
+    const props = { startDate: new Date(2025, 2, 1), months: 3, calendars, onLoadDensity };
+
+    const { rerender } = render(<YearView {...props} events={[]} />);
+    await screen.findByText('March 2025');
+    rerender(<YearView {...props} events={[]} />);
+
+    expect(onLoadDensity).toHaveBeenCalledTimes(2);
+  });
+
+  it('should open a clicked day', () => {
+    const onDayClick = jest.fn();
+
+    render(
+      <YearView
+        startDate={new Date(2025, 2, 1)}
+        months={3}
+        calendars={calendars}
+        onDayClick={onDayClick}
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText('April 10, 2025'));
+
+    expect(onDayClick).toHaveBeenCalledWith(new Date(2025, 3, 10));
+  });
+});
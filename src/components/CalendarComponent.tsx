@@ -1,5 +1,10 @@
 import React, { Suspense, lazy, useMemo } from 'react';
-import { Calendar, CalendarEvent, DateRange } from '../types/dav';
+import { Calendar, CalendarEvent, DateRange, EventDraft, FreeBusyResult, ParticipationStatus, Task } from '../types/dav';
+import { RecurrenceScope } from '../utils/recurrence';
+import { EventDensity } from '../utils/eventDensity';
+import type { ViewType } from './Calendar/CalendarView';
+import { ImportService } from '../services/ImportService';
+import { Account } from '../types/auth';
 
 const CalendarView = lazy(() =>
   import('./Calendar/CalendarView').then((module) => ({
@@ -16,6 +21,11 @@ const NewCalendarForm = lazy(() =>
     default: module.NewCalendarForm,
   }))
 );
+const ImportCalendarDialog = lazy(() =>
+  import('./Calendar/ImportCalendarDialog').then((module) => ({
+    default: module.ImportCalendarDialog,
+  }))
+);
 const EditCalendarForm = lazy(() =>
   import('./Calendar/EditCalendarForm').then((module) => ({
     default: module.EditCalendarForm,
@@ -25,33 +35,50 @@ const EditCalendarForm = lazy(() =>
 interface CalendarComponentProps {
   calendars: Calendar[];
   events: CalendarEvent[];
+  tasks: Task[];
   visibleCalendars: Set<string>;
   calendarCurrentDate: Date;
-  calendarViewType: 'month' | 'week' | 'day';
+  calendarViewType: ViewType;
   showEventForm: boolean;
   editingEvent: CalendarEvent | null;
   selectedCalendar: Calendar | null;
   initialDate?: Date;
+  eventDraft?: EventDraft;
   showNewCalendarForm: boolean;
+  showImportCalendar: boolean;
+  importService: ImportService;
+  accounts?: Account[];
   editingCalendar: Calendar | null;
   onDateRangeChange: (dateRange: DateRange) => void;
   onEventClick: (event: CalendarEvent) => void;
   onCreateEvent: (date: Date) => void;
   onDateChange: (date: Date) => void;
-  onViewTypeChange: (viewType: 'month' | 'week' | 'day') => void;
-  onEventSave: (eventData: CalendarEvent, calendar: Calendar) => Promise<void>;
+  onViewTypeChange: (viewType: ViewType) => void;
+  onEventSave: (eventData: CalendarEvent, calendar: Calendar, scope?: RecurrenceScope) => Promise<void>;
+  onEventCopy?: (eventData: CalendarEvent, calendar: Calendar) => Promise<void>;
+  onEventRespond: (event: CalendarEvent, partstat: ParticipationStatus) => Promise<void>;
+  userAddresses?: string[];
+  onLookupFreeBusy?: (attendees: string[], range: DateRange) => Promise<FreeBusyResult[]>;
   onEventFormCancel: () => void;
-  onEventDelete: (event: CalendarEvent, calendar: Calendar) => Promise<void>;
-  onNewCalendarSave: (displayName: string, color: string, description?: string) => Promise<void>;
+  onEventDelete: (event: CalendarEvent, calendar: Calendar, scope?: RecurrenceScope) => Promise<void>;
+  onNewCalendarSave: (displayName: string, color: string, description?: string, accountId?: string) => Promise<void>;
   onNewCalendarCancel: () => void;
+  onImportComplete: () => void;
+  onImportCalendarClose: () => void;
   onEditCalendarSave: (calendar: Calendar, displayName: string, color: string, description?: string) => Promise<void>;
   onEditCalendarDelete: (calendar: Calendar) => Promise<void>;
   onEditCalendarCancel: () => void;
+  onTaskToggle: (task: Task) => void;
+  onEventReschedule?: (event: CalendarEvent, dtstart: Date, dtend: Date, scope?: RecurrenceScope) => Promise<void>;
+  onQuickCreateEvent?: (draft: EventDraft, calendar: Calendar) => Promise<void>;
+  onCreateEventFromDraft?: (draft: EventDraft, calendar: Calendar) => void;
+  onLoadEventDensity?: (dateRange: DateRange) => Promise<EventDensity>;
 }
 
 export const CalendarComponent: React.FC<CalendarComponentProps> = ({
   calendars,
   events,
+  tasks,
   visibleCalendars,
   calendarCurrentDate,
   calendarViewType,
@@ -59,7 +86,11 @@ export const CalendarComponent: React.FC<CalendarComponentProps> = ({
   editingEvent,
   selectedCalendar,
   initialDate,
+  eventDraft,
   showNewCalendarForm,
+  showImportCalendar,
+  importService,
+  accounts,
   editingCalendar,
   onDateRangeChange,
   onEventClick,
@@ -67,13 +98,24 @@ export const CalendarComponent: React.FC<CalendarComponentProps> = ({
   onDateChange,
   onViewTypeChange,
   onEventSave,
+  onEventCopy,
+  onEventRespond,
+  userAddresses,
+  onLookupFreeBusy,
   onEventFormCancel,
   onEventDelete,
   onNewCalendarSave,
   onNewCalendarCancel,
+  onImportComplete,
+  onImportCalendarClose,
   onEditCalendarSave,
   onEditCalendarDelete,
   onEditCalendarCancel,
+  onTaskToggle,
+  onEventReschedule,
+  onQuickCreateEvent,
+  onCreateEventFromDraft,
+  onLoadEventDensity,
 }) => {
   const filteredEvents = useMemo(() => 
     events.filter((event) =>
@@ -83,12 +125,27 @@ export const CalendarComponent: React.FC<CalendarComponentProps> = ({
     ), [events, visibleCalendars]
   );
 
+  const filteredTasks = useMemo(() =>
+    tasks.filter((task) =>
+      task.calendarUrl
+        ? visibleCalendars.has(task.calendarUrl)
+        : true
+    ), [tasks, visibleCalendars]
+  );
+
+  // New events go to the first calendar shown unless another is picked
+  const defaultCalendar = useMemo(() =>
+    calendars.find((calendar) => visibleCalendars.has(calendar.url)) || calendars[0],
+    [calendars, visibleCalendars]
+  );
+
   return (
     <Suspense fallback={<div />}>
       <div className="view-container">
         <CalendarView
           calendars={calendars}
           events={filteredEvents}
+          tasks={filteredTasks}
           onDateRangeChange={onDateRangeChange}
           onEventClick={onEventClick}
           onCreateEvent={onCreateEvent}
@@ -97,6 +154,13 @@ export const CalendarComponent: React.FC<CalendarComponentProps> = ({
           onDateChange={onDateChange}
           viewType={calendarViewType}
           onViewTypeChange={onViewTypeChange}
+          onTaskToggle={onTaskToggle}
+          onEventReschedule={onEventReschedule}
+          defaultCalendar={defaultCalendar}
+          onQuickCreateEvent={onQuickCreateEvent}
+          onCreateEventFromDraft={onCreateEventFromDraft}
+          visibleCalendars={visibleCalendars}
+          onLoadEventDensity={onLoadEventDensity}
         />
 
         {/* Event Form Modal */}
@@ -106,11 +170,17 @@ export const CalendarComponent: React.FC<CalendarComponentProps> = ({
               event={editingEvent || undefined}
               calendars={calendars}
               selectedCalendar={selectedCalendar || undefined}
+              accounts={accounts}
               onSave={onEventSave}
+              onCopy={onEventCopy}
               onCancel={onEventFormCancel}
               onDelete={onEventDelete}
               isEditing={!!editingEvent}
               initialDate={initialDate}
+              draft={eventDraft}
+              userAddresses={userAddresses}
+              onRespond={onEventRespond}
+              onLookupFreeBusy={onLookupFreeBusy}
             />
           </Suspense>
         )}
@@ -119,12 +189,25 @@ export const CalendarComponent: React.FC<CalendarComponentProps> = ({
         {showNewCalendarForm && (
           <Suspense fallback={<div />}>
             <NewCalendarForm
+              accounts={accounts}
               onSave={onNewCalendarSave}
               onCancel={onNewCalendarCancel}
             />
           </Suspense>
         )}
 
+        {/* Import Calendar Modal */}
+        {showImportCalendar && (
+          <Suspense fallback={<div />}>
+            <ImportCalendarDialog
+              calendars={calendars}
+              importService={importService}
+              onImported={onImportComplete}
+              onClose={onImportCalendarClose}
+            />
+          </Suspense>
+        )}
+
         {/* Edit Calendar Form Modal */}
         {editingCalendar && (
           <Suspense fallback={<div />}>
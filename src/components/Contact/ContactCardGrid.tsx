@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { Contact, AddressBook } from "../../types/dav";
-import { SyncService } from "../../services/SyncService";
+import { Account } from "../../types/auth";
+import { SyncApi } from "../../services/SyncService";
 import { LoadingOverlay } from "../common/LoadingOverlay";
 import { ContactCard } from "./ContactCard";
 import { Modal } from "../common/Modal";
@@ -32,15 +33,19 @@ const contactCache = {
 
 interface ContactCardGridProps {
   addressBooks: AddressBook[];
-  syncService: SyncService;
-  davClient: DAVClient;
+  syncService: SyncApi;
+  getDavClient: (addressBook: AddressBook) => DAVClient;
+  allAddressBooks?: AddressBook[]; // Targets for moving and copying, hidden ones included
+  accounts?: Account[];
   refreshTrigger?: number;
 }
 
 export const ContactCardGrid: React.FC<ContactCardGridProps> = ({
   addressBooks,
   syncService,
-  davClient,
+  getDavClient,
+  allAddressBooks = addressBooks,
+  accounts,
   refreshTrigger,
 }) => {
   const [contacts, setContacts] = useState<Contact[]>(() => {
@@ -185,7 +190,7 @@ export const ContactCardGrid: React.FC<ContactCardGridProps> = ({
   // Helper function to get address book color for a contact
   const getAddressBookColor = (contact: Contact): string | undefined => {
     const addressBook = addressBooks.find(ab => 
-      (contact as any).addressBookUrl === ab.url
+      contact.addressBookUrl === ab.url
     );
     return addressBook?.color;
   };
@@ -227,7 +232,7 @@ export const ContactCardGrid: React.FC<ContactCardGridProps> = ({
   const handleContactDelete = async (contact: Contact) => {
     // Find the address book this contact belongs to
     const contactAddressBook = addressBooks.find(ab => 
-      (contact as any).addressBookUrl === ab.url
+      contact.addressBookUrl === ab.url
     );
     
     if (!contactAddressBook) {
@@ -236,7 +241,19 @@ export const ContactCardGrid: React.FC<ContactCardGridProps> = ({
     }
     
     try {
-      await davClient.deleteContact(contactAddressBook, contact);
+      try {
+        await getDavClient(contactAddressBook).deleteContact(contactAddressBook, contact);
+      } catch (deleteError) {
+        if (!(deleteError instanceof Error) || !deleteError.message.includes(" conflict:")) {
+          throw deleteError;
+        }
+        await syncService.recordConflict({
+          type: "delete",
+          resourceType: "contact",
+          resourceUrl: contactAddressBook.url,
+          local: contact,
+        });
+      }
       // Refresh contacts after delete
       await fetchContacts();
       
@@ -250,6 +267,47 @@ export const ContactCardGrid: React.FC<ContactCardGridProps> = ({
     }
   };
 
+  const handleContactTransfer = async (
+    contact: Contact,
+    target: AddressBook,
+    mode: "move" | "copy"
+  ) => {
+    const contactAddressBook = addressBooks.find(ab => 
+      contact.addressBookUrl === ab.url
+    );
+    if (!contactAddressBook) {
+      throw new Error("Could not find address book for contact");
+    }
+
+    if (mode === "move") {
+      await syncService.moveContact(contactAddressBook, target, contact);
+    } else {
+      await syncService.copyContact(contactAddressBook, target, contact);
+    }
+
+    await fetchContacts();
+    closeModals();
+  };
+
+  const handleContactConflict = async (
+    addressBook: AddressBook,
+    contact: Contact,
+    type: "create" | "update"
+  ) => {
+    closeModals();
+    try {
+      await syncService.recordConflict({
+        type,
+        resourceType: "contact",
+        resourceUrl: addressBook.url,
+        local: contact,
+      });
+    } catch (err) {
+      console.error("Error recording contact conflict:", err);
+    }
+    await fetchContacts();
+  };
+
   const closeModals = () => {
     setShowCreateForm(false);
     setShowEditForm(false);
@@ -373,9 +431,10 @@ export const ContactCardGrid: React.FC<ContactCardGridProps> = ({
         {addressBooks.length > 0 && (
           <ContactForm
             addressBook={addressBooks[0]} // Use first address book for new contacts
-            davClient={davClient}
+            davClient={getDavClient(addressBooks[0])}
             onSave={handleContactSave}
             onCancel={closeModals}
+            onConflict={(contact, type) => handleContactConflict(addressBooks[0], contact, type)}
           />
         )}
       </Modal>
@@ -389,16 +448,17 @@ export const ContactCardGrid: React.FC<ContactCardGridProps> = ({
       >
         {selectedContact && (() => {
           const contactAddressBook = addressBooks.find(ab => 
-            (selectedContact as any).addressBookUrl === ab.url
+            selectedContact.addressBookUrl === ab.url
           );
           return contactAddressBook && (
             <ContactForm
               contact={selectedContact}
               addressBook={contactAddressBook}
-              davClient={davClient}
+              davClient={getDavClient(contactAddressBook)}
               onSave={handleContactSave}
               onCancel={closeModals}
               onDelete={handleContactDelete}
+              onConflict={(contact, type) => handleContactConflict(contactAddressBook, contact, type)}
             />
           );
         })()}
@@ -416,6 +476,9 @@ export const ContactCardGrid: React.FC<ContactCardGridProps> = ({
             contact={selectedContact}
             onEdit={handleEditContact}
             onClose={closeModals}
+            addressBooks={allAddressBooks}
+            accounts={accounts}
+            onTransfer={handleContactTransfer}
           />
         )}
       </Modal>
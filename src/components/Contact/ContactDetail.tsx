@@ -1,15 +1,71 @@
-import React from 'react';
-import { Contact } from '../../types/dav';
+import React, { useState } from 'react';
+import { AddressBook, Contact, ContactAddress } from '../../types/dav';
+import { Account } from '../../types/auth';
+import { groupByAccount } from '../../utils/accounts';
 import { EditIcon } from './EditIcon';
+import {
+  ADDRESS_TYPE_OPTIONS,
+  EMAIL_TYPE_OPTIONS,
+  TEL_TYPE_OPTIONS,
+  getTypeLabel
+} from './ContactFieldEditors';
 import './ContactDetail.css';
 
 interface ContactDetailProps {
   contact: Contact;
   onEdit: (contact: Contact) => void;
   onClose: () => void;
+  addressBooks?: AddressBook[]; // Address books the contact can be moved or copied to
+  accounts?: Account[];
+  onTransfer?: (contact: Contact, target: AddressBook, mode: 'move' | 'copy') => Promise<void>;
 }
 
-export const ContactDetail: React.FC<ContactDetailProps> = ({ contact, onEdit, onClose }) => {
+// Formats YYYY-MM-DD, or --MM-DD for dates without a year
+const formatContactDate = (date: string): string => {
+  const full = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (full) {
+    return new Date(Number(full[1]), Number(full[2]) - 1, Number(full[3])).toLocaleDateString(undefined, {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  }
+  const partial = date.match(/^--(\d{2})-(\d{2})$/);
+  if (partial) {
+    return new Date(2000, Number(partial[1]) - 1, Number(partial[2])).toLocaleDateString(undefined, {
+      month: 'long',
+      day: 'numeric'
+    });
+  }
+  return date;
+};
+
+const formatAddressLines = (address: ContactAddress): string[] =>
+  [
+    address.poBox,
+    address.street,
+    address.extended,
+    [address.postalCode, address.locality].filter(Boolean).join(' '),
+    address.region,
+    address.country
+  ].filter((line): line is string => !!line);
+
+// Links only for schemes a browser can open
+const isLink = (uri: string): boolean => /^(https?|mailto|xmpp|sip|tel|skype):/i.test(uri);
+
+export const ContactDetail: React.FC<ContactDetailProps> = ({
+  contact,
+  onEdit,
+  onClose,
+  addressBooks = [],
+  accounts = [],
+  onTransfer
+}) => {
+  const targets = addressBooks.filter(ab => ab.url !== contact.addressBookUrl);
+  const [targetUrl, setTargetUrl] = useState('');
+  const [transferring, setTransferring] = useState(false);
+  const [transferError, setTransferError] = useState<string | null>(null);
+
   const getInitials = (name: string): string => {
     return name
       .split(' ')
@@ -24,6 +80,24 @@ export const ContactDetail: React.FC<ContactDetailProps> = ({ contact, onEdit, o
     onEdit(contact); // Then open the edit modal
   };
 
+  const handleTransfer = async (mode: 'move' | 'copy') => {
+    const target = targets.find(ab => ab.url === targetUrl);
+    if (!target || !onTransfer) return;
+
+    setTransferring(true);
+    setTransferError(null);
+    try {
+      await onTransfer(contact, target, mode);
+    } catch (error) {
+      setTransferError(error instanceof Error ? error.message : `Failed to ${mode} contact`);
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  // Address books grouped by account when contacts come from several accounts
+  const targetGroups = accounts.length > 1 ? groupByAccount(targets, accounts) : [];
+
   return (
     <div className="contact-detail-container">
       <div className="contact-detail-content">
@@ -52,6 +126,14 @@ export const ContactDetail: React.FC<ContactDetailProps> = ({ contact, onEdit, o
             </div>
             <div className="contact-detail-info">
               <h3 className="contact-detail-name">{contact.fn}</h3>
+              {contact.nickname && (
+                <div className="contact-detail-nickname">“{contact.nickname}”</div>
+              )}
+              {(contact.title || contact.role) && (
+                <div className="contact-detail-org">
+                  {[contact.title, contact.role].filter(Boolean).join(', ')}
+                </div>
+              )}
               {contact.org && (
                 <div className="contact-detail-org">{contact.org}</div>
               )}
@@ -74,6 +156,11 @@ export const ContactDetail: React.FC<ContactDetailProps> = ({ contact, onEdit, o
               {contact.email.map((email, index) => (
                 <li key={`email-${index}`}>
                   <a href={`mailto:${email}`}>{email}</a>
+                  {contact.emailTypes?.[index] && (
+                    <span className="contact-detail-type">
+                      {getTypeLabel(EMAIL_TYPE_OPTIONS, contact.emailTypes[index])}
+                    </span>
+                  )}
                 </li>
               ))}
             </ul>
@@ -87,12 +174,125 @@ export const ContactDetail: React.FC<ContactDetailProps> = ({ contact, onEdit, o
               {contact.tel.map((tel, index) => (
                 <li key={`tel-${index}`}>
                   <a href={`tel:${tel}`}>{tel}</a>
+                  {contact.telTypes?.[index] && (
+                    <span className="contact-detail-type">
+                      {getTypeLabel(TEL_TYPE_OPTIONS, contact.telTypes[index])}
+                    </span>
+                  )}
                 </li>
               ))}
             </ul>
           </div>
         )}
 
+        {contact.adr && contact.adr.length > 0 && (
+          <div className="contact-detail-section">
+            <h4>Address</h4>
+            <ul className="contact-detail-list">
+              {contact.adr.map((address, index) => (
+                <li key={`adr-${index}`} className="contact-detail-address">
+                  <address>
+                    {formatAddressLines(address).map((line, lineIndex) => (
+                      <div key={lineIndex}>{line}</div>
+                    ))}
+                  </address>
+                  {address.type && (
+                    <span className="contact-detail-type">
+                      {getTypeLabel(ADDRESS_TYPE_OPTIONS, address.type)}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {(contact.bday || contact.anniversary) && (
+          <div className="contact-detail-section">
+            <h4>Dates</h4>
+            <ul className="contact-detail-list">
+              {contact.bday && (
+                <li>
+                  {formatContactDate(contact.bday)}
+                  <span className="contact-detail-type">Birthday</span>
+                </li>
+              )}
+              {contact.anniversary && (
+                <li>
+                  {formatContactDate(contact.anniversary)}
+                  <span className="contact-detail-type">Anniversary</span>
+                </li>
+              )}
+            </ul>
+          </div>
+        )}
+
+        {((contact.url && contact.url.length > 0) || (contact.impp && contact.impp.length > 0)) && (
+          <div className="contact-detail-section">
+            <h4>Web & Messaging</h4>
+            <ul className="contact-detail-list">
+              {[...(contact.url || []), ...(contact.impp || [])].map((uri, index) => (
+                <li key={`link-${index}`}>
+                  {isLink(uri) ? (
+                    <a href={uri} target="_blank" rel="noopener noreferrer">{uri}</a>
+                  ) : (
+                    uri
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {contact.note && (
+          <div className="contact-detail-section">
+            <h4>Notes</h4>
+            <p className="contact-detail-note">{contact.note}</p>
+          </div>
+        )}
+
+        {onTransfer && targets.length > 0 && (
+          <div className="contact-detail-section">
+            <h4>Move to Address Book</h4>
+            <div className="contact-detail-transfer">
+              <select
+                value={targetUrl}
+                onChange={(e) => setTargetUrl(e.target.value)}
+                aria-label="Target address book"
+                disabled={transferring}
+              >
+                <option value="">Choose an address book...</option>
+                {targetGroups.length > 0
+                  ? targetGroups.map(group => (
+                      <optgroup key={group.account.id} label={group.account.name}>
+                        {group.items.map(ab => (
+                          <option key={ab.url} value={ab.url}>{ab.displayName}</option>
+                        ))}
+                      </optgroup>
+                    ))
+                  : targets.map(ab => (
+                      <option key={ab.url} value={ab.url}>{ab.displayName}</option>
+                    ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => handleTransfer('move')}
+                disabled={!targetUrl || transferring}
+              >
+                Move
+              </button>
+              <button
+                type="button"
+                onClick={() => handleTransfer('copy')}
+                disabled={!targetUrl || transferring}
+              >
+                Copy
+              </button>
+            </div>
+            {transferError && <p className="contact-detail-transfer-error">{transferError}</p>}
+          </div>
+        )}
+
         <div className="contact-detail-section contact-detail-meta">
           <div className="contact-detail-uid">
             <span>ID: </span>
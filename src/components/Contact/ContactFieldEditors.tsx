@@ -0,0 +1,217 @@
+import React from 'react';
+import { ContactAddress } from '../../types/dav';
+
+/**
+ * One row of a repeatable contact field, e.g. an email with its TYPE
+ */
+export interface TypedValue {
+  value: string;
+  type: string;
+}
+
+export interface TypeOption {
+  value: string;
+  label: string;
+}
+
+export const EMAIL_TYPE_OPTIONS: TypeOption[] = [
+  { value: '', label: 'Other' },
+  { value: 'home', label: 'Home' },
+  { value: 'work', label: 'Work' },
+];
+
+export const TEL_TYPE_OPTIONS: TypeOption[] = [
+  { value: '', label: 'Other' },
+  { value: 'cell', label: 'Mobile' },
+  { value: 'home', label: 'Home' },
+  { value: 'work', label: 'Work' },
+  { value: 'fax', label: 'Fax' },
+  { value: 'pager', label: 'Pager' },
+];
+
+export const ADDRESS_TYPE_OPTIONS: TypeOption[] = EMAIL_TYPE_OPTIONS;
+
+/**
+ * Returns the label for a TYPE value, falling back to the value itself for
+ * types set by other clients
+ */
+export const getTypeLabel = (options: TypeOption[], type?: string): string =>
+  options.find(option => option.value === (type || ''))?.label || type || '';
+
+interface TypeSelectProps {
+  options: TypeOption[];
+  value: string;
+  onChange: (type: string) => void;
+  ariaLabel: string;
+}
+
+const TypeSelect: React.FC<TypeSelectProps> = ({ options, value, onChange, ariaLabel }) => {
+  // Keep types from other clients selectable so saving does not drop them
+  const allOptions = options.some(option => option.value === value)
+    ? options
+    : [...options, { value, label: value }];
+
+  return (
+    <select
+      className="field-type-select"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={ariaLabel}
+    >
+      {allOptions.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+  );
+};
+
+interface TypedFieldListProps {
+  label: string;
+  name: string; // Used in button labels, e.g. "email"
+  addText: string;
+  values: TypedValue[];
+  onChange: (values: TypedValue[]) => void;
+  typeOptions?: TypeOption[]; // Rows have no type selector when omitted
+  inputType?: string;
+  placeholder: string;
+  errors?: string[];
+}
+
+/**
+ * Editor for a repeatable field such as emails or phone numbers, with a type
+ * for each value. Always shows at least one row.
+ */
+export const TypedFieldList: React.FC<TypedFieldListProps> = ({
+  label,
+  name,
+  addText,
+  values,
+  onChange,
+  typeOptions,
+  inputType = 'text',
+  placeholder,
+  errors,
+}) => {
+  const updateRow = (index: number, changes: Partial<TypedValue>) => {
+    onChange(values.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const removeRow = (index: number) => {
+    const remaining = values.filter((_row, i) => i !== index);
+    onChange(remaining.length > 0 ? remaining : [{ value: '', type: '' }]);
+  };
+
+  return (
+    <div className="form-group">
+      <label>{label}</label>
+      {values.map((row, index) => (
+        <div key={`${name}-${index}`} className="array-field-container">
+          {typeOptions && (
+            <TypeSelect
+              options={typeOptions}
+              value={row.type}
+              onChange={(type) => updateRow(index, { type })}
+              ariaLabel={`Type of ${name} ${index + 1}`}
+            />
+          )}
+          <input
+            type={inputType}
+            value={row.value}
+            onChange={(e) => updateRow(index, { value: e.target.value })}
+            className={errors && errors[index] ? 'error' : ''}
+            placeholder={placeholder}
+          />
+          <button
+            type="button"
+            onClick={() => removeRow(index)}
+            className="remove-field-button"
+            disabled={values.length === 1 && !row.value}
+            aria-label={`Remove ${name} field`}
+          >
+            -
+          </button>
+          {errors && errors[index] && (
+            <div className="error-message">{errors[index]}</div>
+          )}
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...values, { value: '', type: '' }])}
+        className="add-field-button"
+        aria-label={`Add ${name} field`}
+      >
+        {addText}
+      </button>
+    </div>
+  );
+};
+
+const ADDRESS_PARTS: { key: keyof ContactAddress; placeholder: string }[] = [
+  { key: 'street', placeholder: 'Street' },
+  { key: 'extended', placeholder: 'Apartment, suite' },
+  { key: 'postalCode', placeholder: 'Postal code' },
+  { key: 'locality', placeholder: 'City' },
+  { key: 'region', placeholder: 'State / region' },
+  { key: 'country', placeholder: 'Country' },
+];
+
+interface AddressFieldListProps {
+  addresses: ContactAddress[];
+  onChange: (addresses: ContactAddress[]) => void;
+}
+
+/**
+ * Editor for the postal addresses of a contact
+ */
+export const AddressFieldList: React.FC<AddressFieldListProps> = ({ addresses, onChange }) => {
+  const updateAddress = (index: number, changes: Partial<ContactAddress>) => {
+    onChange(addresses.map((address, i) => (i === index ? { ...address, ...changes } : address)));
+  };
+
+  return (
+    <div className="form-group">
+      <label>Addresses</label>
+      {addresses.map((address, index) => (
+        <div key={`adr-${index}`} className="address-field-container">
+          <div className="address-field-header">
+            <TypeSelect
+              options={ADDRESS_TYPE_OPTIONS}
+              value={address.type || ''}
+              onChange={(type) => updateAddress(index, { type: type || undefined })}
+              ariaLabel={`Type of address ${index + 1}`}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(addresses.filter((_address, i) => i !== index))}
+              className="remove-field-button"
+              aria-label="Remove address"
+            >
+              -
+            </button>
+          </div>
+          <div className="address-field-grid">
+            {ADDRESS_PARTS.map(({ key, placeholder }) => (
+              <input
+                key={key}
+                type="text"
+                value={address[key] || ''}
+                onChange={(e) => updateAddress(index, { [key]: e.target.value })}
+                placeholder={placeholder}
+                aria-label={placeholder}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...addresses, {}])}
+        className="add-field-button"
+        aria-label="Add address"
+      >
+        + Add Address
+      </button>
+    </div>
+  );
+};
@@ -1,8 +1,15 @@
 import React, { useState, useRef, useCallback } from 'react';
 import ReactCrop, { Crop, PixelCrop, centerCrop, makeAspectCrop } from 'react-image-crop';
-import { Contact, AddressBook } from '../../types/dav';
+import { Contact, AddressBook, ContactAddress } from '../../types/dav';
 import { DAVClient } from '../../services/DAVClient';
 import { useLoading } from '../../contexts/LoadingContext';
+import {
+  AddressFieldList,
+  EMAIL_TYPE_OPTIONS,
+  TEL_TYPE_OPTIONS,
+  TypedFieldList,
+  TypedValue
+} from './ContactFieldEditors';
 import 'react-image-crop/dist/ReactCrop.css';
 import './ContactForm.css';
 
@@ -13,15 +20,25 @@ interface ContactFormProps {
   onSave: (savedContact: Contact) => void;
   onCancel: () => void;
   onDelete?: (contact: Contact) => void;
+  onConflict?: (contact: Contact, type: 'create' | 'update') => void; // Called instead of showing an error when the server copy changed
 }
 
+// Pairs the values of a contact list field with their types, with one empty row to type into
+const toTypedValues = (values?: string[], types?: string[]): TypedValue[] =>
+  values && values.length > 0
+    ? values.map((value, index) => ({ value, type: types?.[index] || '' }))
+    : [{ value: '', type: '' }];
+
+const isFullDate = (value: string): boolean => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
 export const ContactForm: React.FC<ContactFormProps> = ({
   contact,
   addressBook,
   davClient,
   onSave,
   onCancel,
-  onDelete
+  onDelete,
+  onConflict
 }) => {
   const { showLoading, hideLoading } = useLoading();
   const isEditing = !!contact;
@@ -30,16 +47,34 @@ export const ContactForm: React.FC<ContactFormProps> = ({
   const [formData, setFormData] = useState<{
     firstName: string;
     lastName: string;
+    nickname: string;
     org: string;
-    email: string[];
-    tel: string[];
+    title: string;
+    role: string;
+    bday: string;
+    anniversary: string;
+    note: string;
+    email: TypedValue[];
+    tel: TypedValue[];
+    adr: ContactAddress[];
+    url: TypedValue[];
+    impp: TypedValue[];
     photo?: string;
   }>({
     firstName: contact?.firstName || '',
     lastName: contact?.lastName || '',
+    nickname: contact?.nickname || '',
     org: contact?.org || '',
-    email: contact?.email || [''],
-    tel: contact?.tel || [''],
+    title: contact?.title || '',
+    role: contact?.role || '',
+    bday: contact?.bday || '',
+    anniversary: contact?.anniversary || '',
+    note: contact?.note || '',
+    email: toTypedValues(contact?.email, contact?.emailTypes),
+    tel: toTypedValues(contact?.tel, contact?.telTypes),
+    adr: contact?.adr || [],
+    url: toTypedValues(contact?.url),
+    impp: toTypedValues(contact?.impp),
     photo: contact?.photo || undefined
   });
   
@@ -75,7 +110,7 @@ export const ContactForm: React.FC<ContactFormProps> = ({
     
     // Validate email format
     const emailErrors: string[] = [];
-    formData.email.forEach((email, index) => {
+    formData.email.forEach(({ value: email }, index) => {
       if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
         emailErrors[index] = 'Invalid email format';
       }
@@ -123,32 +158,59 @@ export const ContactForm: React.FC<ContactFormProps> = ({
     setSubmitError(null);
     
     try {
-      // Filter out empty email and phone fields
-      const filteredData = {
-        ...formData,
-        email: formData.email.filter(email => email.trim() !== ''),
-        tel: formData.tel.filter(tel => tel.trim() !== '')
-      };
+      // Filter out empty list fields
+      const email = formData.email.filter(row => row.value.trim() !== '');
+      const tel = formData.tel.filter(row => row.value.trim() !== '');
+      const adr = formData.adr.filter(address =>
+        Object.keys(address).some(key => key !== 'type' && address[key as keyof ContactAddress]?.trim())
+      );
+      const url = formData.url.map(row => row.value.trim()).filter(Boolean);
+      const impp = formData.impp.map(row => row.value.trim()).filter(Boolean);
       
-      // Create new contact object
+      // Create new contact object, keeping what the form does not edit
       const fullName = `${formData.firstName} ${formData.lastName}`.trim();
+      // Keep a full name set elsewhere (e.g. "Dr. Jane Doe") unless the name was edited
+      const nameUnchanged =
+        formData.firstName === (contact?.firstName || '') && formData.lastName === (contact?.lastName || '');
       const contactData: Contact = {
+        ...contact,
         uid: contact?.uid || `contact-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
-        fn: fullName || 'Unnamed Contact',
+        fn: nameUnchanged && contact?.fn ? contact.fn : fullName || 'Unnamed Contact',
         firstName: formData.firstName || undefined,
         lastName: formData.lastName || undefined,
-        org: filteredData.org || undefined,
-        email: filteredData.email.length > 0 ? filteredData.email : undefined,
-        tel: filteredData.tel.length > 0 ? filteredData.tel : undefined,
+        nickname: formData.nickname.trim() || undefined,
+        org: formData.org || undefined,
+        title: formData.title.trim() || undefined,
+        role: formData.role.trim() || undefined,
+        bday: formData.bday || undefined,
+        anniversary: formData.anniversary || undefined,
+        note: formData.note.trim() || undefined,
+        email: email.length > 0 ? email.map(row => row.value) : undefined,
+        emailTypes: email.some(row => row.type) ? email.map(row => row.type) : undefined,
+        tel: tel.length > 0 ? tel.map(row => row.value) : undefined,
+        telTypes: tel.some(row => row.type) ? tel.map(row => row.type) : undefined,
+        adr: adr.length > 0 ? adr : undefined,
+        url: url.length > 0 ? url : undefined,
+        impp: impp.length > 0 ? impp : undefined,
         photo: formData.photo || undefined,
-        etag: contact?.etag
+        etag: contact?.etag,
+        href: contact?.href
       };
       
       // Save to server
-      if (isEditing) {
-        await davClient.updateContact(addressBook, contactData);
-      } else {
-        await davClient.createContact(addressBook, contactData);
+      try {
+        if (isEditing) {
+          await davClient.updateContact(addressBook, contactData);
+        } else {
+          await davClient.createContact(addressBook, contactData);
+        }
+      } catch (saveError) {
+        // Let the conflict dialog take over when the server copy changed
+        if (onConflict && saveError instanceof Error && saveError.message.includes(' conflict:')) {
+          onConflict(contactData, isEditing ? 'update' : 'create');
+          return;
+        }
+        throw saveError;
       }
       
       onSave(contactData);
@@ -161,7 +223,7 @@ export const ContactForm: React.FC<ContactFormProps> = ({
   };
 
   // Handle input changes
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
@@ -169,42 +231,17 @@ export const ContactForm: React.FC<ContactFormProps> = ({
     }));
   };
 
-  // Handle array field changes (email, tel)
-  const handleArrayFieldChange = (
-    field: 'email' | 'tel',
-    index: number,
-    value: string
+  // Replace a repeatable field (emails, phones, addresses, links)
+  const handleListChange = <K extends 'email' | 'tel' | 'adr' | 'url' | 'impp'>(
+    field: K,
+    value: typeof formData[K]
   ) => {
-    setFormData(prev => {
-      const newArray = [...prev[field]];
-      newArray[index] = value;
-      return {
-        ...prev,
-        [field]: newArray
-      };
-    });
-  };
-
-  // Add new field to an array (email, tel)
-  const addArrayField = (field: 'email' | 'tel') => {
     setFormData(prev => ({
       ...prev,
-      [field]: [...prev[field], '']
+      [field]: value
     }));
   };
 
-  // Remove field from an array (email, tel)
-  const removeArrayField = (field: 'email' | 'tel', index: number) => {
-    setFormData(prev => {
-      const newArray = [...prev[field]];
-      newArray.splice(index, 1);
-      return {
-        ...prev,
-        [field]: newArray.length > 0 ? newArray : [''] // Always keep at least one field
-      };
-    });
-  };
-
   // Handle file selection for cropping
   const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -356,6 +393,17 @@ export const ContactForm: React.FC<ContactFormProps> = ({
           />
           {errors.lastName && <div className="error-message">{errors.lastName}</div>}
         </div>
+
+        <div className="form-group">
+          <label htmlFor="nickname">Nickname</label>
+          <input
+            type="text"
+            id="nickname"
+            name="nickname"
+            value={formData.nickname}
+            onChange={handleInputChange}
+          />
+        </div>
         
         <div className="form-group">
           <label htmlFor="org">Organization</label>
@@ -368,6 +416,29 @@ export const ContactForm: React.FC<ContactFormProps> = ({
           />
         </div>
 
+        <div className="form-row">
+          <div className="form-group">
+            <label htmlFor="title">Job Title</label>
+            <input
+              type="text"
+              id="title"
+              name="title"
+              value={formData.title}
+              onChange={handleInputChange}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="role">Role</label>
+            <input
+              type="text"
+              id="role"
+              name="role"
+              value={formData.role}
+              onChange={handleInputChange}
+            />
+          </div>
+        </div>
+
         <div className="form-group">
           <label>Photo</label>
           <div className="photo-upload-container">
@@ -456,70 +527,85 @@ export const ContactForm: React.FC<ContactFormProps> = ({
           </div>
         )}
         
-        <div className="form-group">
-          <label>Email Addresses</label>
-          {formData.email.map((email, index) => (
-            <div key={`email-${index}`} className="array-field-container">
-              <input
-                type="email"
-                value={email}
-                onChange={(e) => handleArrayFieldChange('email', index, e.target.value)}
-                className={errors.email && errors.email[index] ? 'error' : ''}
-                placeholder="Email address"
-              />
-              <button
-                type="button"
-                onClick={() => removeArrayField('email', index)}
-                className="remove-field-button"
-                disabled={formData.email.length === 1 && !email}
-                aria-label="Remove email field"
-              >
-                -
-              </button>
-              {errors.email && errors.email[index] && (
-                <div className="error-message">{errors.email[index]}</div>
-              )}
-            </div>
-          ))}
-          <button
-            type="button"
-            onClick={() => addArrayField('email')}
-            className="add-field-button"
-            aria-label="Add email field"
-          >
-            + Add Email
-          </button>
-        </div>
+        <TypedFieldList
+          label="Email Addresses"
+          name="email"
+          addText="+ Add Email"
+          values={formData.email}
+          onChange={(values) => handleListChange('email', values)}
+          typeOptions={EMAIL_TYPE_OPTIONS}
+          inputType="email"
+          placeholder="Email address"
+          errors={errors.email}
+        />
         
+        <TypedFieldList
+          label="Phone Numbers"
+          name="phone"
+          addText="+ Add Phone"
+          values={formData.tel}
+          onChange={(values) => handleListChange('tel', values)}
+          typeOptions={TEL_TYPE_OPTIONS}
+          inputType="tel"
+          placeholder="Phone number"
+        />
+
+        <AddressFieldList
+          addresses={formData.adr}
+          onChange={(addresses) => handleListChange('adr', addresses)}
+        />
+
+        <div className="form-row">
+          <div className="form-group">
+            <label htmlFor="bday">Birthday</label>
+            <input
+              type={!formData.bday || isFullDate(formData.bday) ? 'date' : 'text'}
+              id="bday"
+              name="bday"
+              value={formData.bday}
+              onChange={handleInputChange}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="anniversary">Anniversary</label>
+            <input
+              type={!formData.anniversary || isFullDate(formData.anniversary) ? 'date' : 'text'}
+              id="anniversary"
+              name="anniversary"
+              value={formData.anniversary}
+              onChange={handleInputChange}
+            />
+          </div>
+        </div>
+
+        <TypedFieldList
+          label="Websites"
+          name="website"
+          addText="+ Add Website"
+          values={formData.url}
+          onChange={(values) => handleListChange('url', values)}
+          inputType="url"
+          placeholder="https://example.com"
+        />
+
+        <TypedFieldList
+          label="Instant Messaging"
+          name="messaging"
+          addText="+ Add Messaging Address"
+          values={formData.impp}
+          onChange={(values) => handleListChange('impp', values)}
+          placeholder="xmpp:name@example.com"
+        />
+
         <div className="form-group">
-          <label>Phone Numbers</label>
-          {formData.tel.map((tel, index) => (
-            <div key={`tel-${index}`} className="array-field-container">
-              <input
-                type="tel"
-                value={tel}
-                onChange={(e) => handleArrayFieldChange('tel', index, e.target.value)}
-                placeholder="Phone number"
-              />
-              <button
-                type="button"
-                onClick={() => removeArrayField('tel', index)}
-                className="remove-field-button"
-                disabled={formData.tel.length === 1 && !tel}
-                aria-label="Remove phone field"
-              >
-                -
-              </button>
-            </div>
-          ))}
-          <button
-            type="button"
-            onClick={() => addArrayField('tel')}
-            className="add-field-button"
-            aria-label="Add phone field"
-          >
-            + Add Phone
-          </button>
+          <label htmlFor="note">Notes</label>
+          <textarea
+            id="note"
+            name="note"
+            value={formData.note}
+            onChange={handleInputChange}
+            rows={3}
+          />
         </div>
         
         {submitError && (
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { Contact, AddressBook } from "../../types/dav";
-import { SyncService } from "../../services/SyncService";
+import { SyncApi } from "../../services/SyncService";
 import { LoadingOverlay } from "../common/LoadingOverlay";
 import "./ContactList.css";
 
@@ -27,7 +27,7 @@ const contactCache = {
 
 interface ContactListProps {
   addressBook: AddressBook | null;
-  syncService: SyncService;
+  syncService: SyncApi;
   onContactSelect: (contact: Contact) => void;
   onAddContact: () => void;
   refreshTrigger?: number; // Only increments when refresh is actually needed
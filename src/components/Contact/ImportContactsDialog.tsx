@@ -0,0 +1,401 @@
+import React, { useState, useEffect } from 'react';
+import { Modal } from '../common';
+import { AddressBook, Contact } from '../../types/dav';
+import {
+  ImportService,
+  ImportPreviewItem,
+  ImportProgress,
+  ImportResult,
+  ContactImportAction,
+  CsvTable
+} from '../../services/ImportService';
+import {
+  CONTACT_IMPORT_FIELDS,
+  ContactImportField,
+  CsvColumnMapping,
+  guessCsvMapping
+} from '../../utils/contactImport';
+import '../Calendar/NewCalendarForm.css';
+import '../Calendar/ImportCalendarDialog.css';
+import './ImportContactsDialog.css';
+
+interface ImportContactsDialogProps {
+  addressBooks: AddressBook[];
+  importService: ImportService;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+type DuplicateAction = Exclude<ContactImportAction, 'create'>;
+
+const DUPLICATE_ACTIONS: { action: DuplicateAction; label: string }[] = [
+  { action: 'skip', label: 'Skip' },
+  { action: 'overwrite', label: 'Overwrite' },
+  { action: 'merge', label: 'Merge' },
+];
+
+const describeContact = (contact: Contact): string =>
+  [contact.email?.[0], contact.tel?.[0], contact.org].filter(Boolean).join(' · ');
+
+/**
+ * Imports contacts from a vCard or CSV file into an address book. CSV columns
+ * are mapped to contact fields first, and likely duplicates of existing
+ * contacts can be skipped, overwritten or merged one by one.
+ */
+export const ImportContactsDialog: React.FC<ImportContactsDialogProps> = ({
+  addressBooks,
+  importService,
+  onImported,
+  onClose,
+}) => {
+  const [addressBookUrl, setAddressBookUrl] = useState(addressBooks[0]?.url || '');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>([]);
+  const [contacts, setContacts] = useState<Contact[] | null>(null);
+  const [preview, setPreview] = useState<ImportPreviewItem<Contact>[]>([]);
+  const [actions, setActions] = useState<Record<string, ContactImportAction>>({});
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [result, setResult] = useState<ImportResult<Contact> | null>(null);
+
+  const isImporting = !!progress && !result;
+  const addressBook = addressBooks.find(ab => ab.url === addressBookUrl);
+  const selectedCount = preview.filter(item => actions[item.resource.uid] !== 'skip').length;
+  const duplicateCount = preview.filter(item => item.duplicateOf).length;
+
+  // Duplicates depend on the target address book, so look them up again when it changes
+  useEffect(() => {
+    if (!contacts || !addressBook) return;
+
+    let cancelled = false;
+    importService
+      .previewContacts(addressBook, contacts)
+      .then(items => {
+        if (cancelled) return;
+        setPreview(items);
+        setActions(Object.fromEntries(
+          items.map(item => [item.resource.uid, item.duplicateOf ? 'skip' : 'create'])
+        ));
+      })
+      .catch(previewError => {
+        console.error('Failed to look up duplicate contacts:', previewError);
+        if (!cancelled) {
+          setError(previewError instanceof Error ? previewError.message : 'Failed to look up existing contacts');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contacts, addressBook, importService]);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setFileName(file.name);
+    setCsvTable(null);
+    setContacts(null);
+    setPreview([]);
+
+    try {
+      const text = await file.text();
+      if (/\.csv$/i.test(file.name) || file.type === 'text/csv') {
+        const table = importService.parseCsvFile(text);
+        setCsvTable(table);
+        setMapping(guessCsvMapping(table.headers));
+      } else {
+        setContacts(importService.parseContactFile(text));
+      }
+    } catch (parseError) {
+      console.error('Failed to read contacts file:', parseError);
+      setError(parseError instanceof Error ? parseError.message : 'Failed to read the file');
+    }
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      handleFile(file);
+    }
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) {
+      handleFile(file);
+    }
+  };
+
+  const handleMappingChange = (column: number, field: string) => {
+    setMapping(prev => prev.map((current, index) =>
+      index === column ? (field ? field as ContactImportField : null) : current
+    ));
+  };
+
+  const handleApplyMapping = () => {
+    if (!csvTable) return;
+
+    const mapped = importService.contactsFromCsv(csvTable, mapping);
+    if (mapped.length === 0) {
+      setError('None of the rows has a name, organization or email in the mapped columns');
+      return;
+    }
+    setError(null);
+    setContacts(mapped);
+  };
+
+  const setAction = (uid: string, action: ContactImportAction) => {
+    setActions(prev => ({ ...prev, [uid]: action }));
+  };
+
+  const setDuplicateActions = (action: DuplicateAction) => {
+    setActions(prev => {
+      const next = { ...prev };
+      preview.filter(item => item.duplicateOf).forEach(item => {
+        next[item.resource.uid] = action;
+      });
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!addressBook) return;
+
+    const entries = preview.map(item => ({
+      contact: item.resource,
+      duplicateOf: item.duplicateOf,
+      action: actions[item.resource.uid] || 'skip'
+    }));
+
+    setError(null);
+    setProgress({ done: 0, total: selectedCount });
+    try {
+      const importResult = await importService.importContacts(addressBook, entries, setProgress);
+      setResult(importResult);
+      if (importResult.imported.length > 0) {
+        onImported();
+      }
+    } catch (importError) {
+      console.error('Failed to import contacts:', importError);
+      setError(importError instanceof Error ? importError.message : 'Failed to import contacts');
+      setProgress(null);
+    }
+  };
+
+  const renderMapping = (table: CsvTable) => (
+    <div className="import-mapping">
+      <p className="import-summary">
+        {table.rows.length} rows found. Choose the contact field for each column.
+      </p>
+      <ul className="import-preview-list">
+        {table.headers.map((header, column) => (
+          <li key={column} className="import-mapping-row">
+            <span className="import-event-title">{header || `Column ${column + 1}`}</span>
+            <span className="import-event-time">{table.rows[0]?.[column]}</span>
+            <select
+              className="form-input"
+              value={mapping[column] || ''}
+              onChange={(e) => handleMappingChange(column, e.target.value)}
+              aria-label={`Field for ${header || `column ${column + 1}`}`}
+            >
+              <option value="">Ignore</option>
+              {CONTACT_IMPORT_FIELDS.map(({ field, label }) => (
+                <option key={field} value={field}>{label}</option>
+              ))}
+            </select>
+          </li>
+        ))}
+      </ul>
+      <div className="form-actions">
+        <button
+          type="button"
+          onClick={handleApplyMapping}
+          className="form-button form-button-secondary"
+          disabled={!mapping.some(Boolean)}
+        >
+          {contacts ? 'Apply mapping again' : 'Continue'}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderPreview = () => (
+    <div className="import-preview">
+      <p className="import-summary">
+        {preview.length} contacts found, {duplicateCount} likely duplicates, {selectedCount} to import
+      </p>
+      {duplicateCount > 0 && (
+        <div className="import-duplicate-actions">
+          <span>All duplicates:</span>
+          {DUPLICATE_ACTIONS.map(({ action, label }) => (
+            <button
+              key={action}
+              type="button"
+              className="form-button form-button-secondary"
+              onClick={() => setDuplicateActions(action)}
+              disabled={isImporting}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      <ul className="import-preview-list">
+        {preview.map(item => {
+          const contact = item.resource;
+          const action = actions[contact.uid] || 'skip';
+          return (
+            <li
+              key={contact.uid}
+              className={item.duplicateOf ? 'import-preview-item import-contact-item duplicate' : 'import-preview-item import-contact-item'}
+            >
+              <span className="import-event-title">{contact.fn}</span>
+              <span className="import-event-time">{describeContact(contact)}</span>
+              <select
+                className="form-input"
+                value={action}
+                onChange={(e) => setAction(contact.uid, e.target.value as ContactImportAction)}
+                disabled={isImporting}
+                aria-label={`Action for ${contact.fn}`}
+              >
+                {item.duplicateOf ? (
+                  DUPLICATE_ACTIONS.map(({ action: option, label }) => (
+                    <option key={option} value={option}>{label}</option>
+                  ))
+                ) : (
+                  <>
+                    <option value="create">Import</option>
+                    <option value="skip">Skip</option>
+                  </>
+                )}
+              </select>
+              {item.duplicateOf && (
+                <span className="import-event-note">
+                  Matches {item.duplicateOf.fn}
+                  {describeContact(item.duplicateOf) && ` (${describeContact(item.duplicateOf)})`}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={true}
+      title="Import Contacts"
+      onClose={isImporting ? () => {} : onClose}
+      size="large"
+    >
+      <div className="import-dialog">
+        {error && <div className="form-error">{error}</div>}
+
+        {result ? (
+          <div className="import-report">
+            <p>
+              Imported {result.imported.length} of {result.imported.length + result.failed.length} contacts
+              into {addressBook?.displayName || addressBookUrl}.
+            </p>
+            {result.failed.length > 0 && (
+              <ul className="import-failures">
+                {result.failed.map(({ resource, error: itemError }) => (
+                  <li key={resource.uid}>
+                    <strong>{resource.fn}</strong>
+                    <span className="import-failure-reason">{itemError}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="form-group">
+              <label htmlFor="import-address-book" className="form-label">
+                Import into
+              </label>
+              <select
+                id="import-address-book"
+                className="form-input"
+                value={addressBookUrl}
+                onChange={(e) => setAddressBookUrl(e.target.value)}
+                disabled={isImporting}
+              >
+                {addressBooks.map(ab => (
+                  <option key={ab.url} value={ab.url}>
+                    {ab.displayName}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div
+              className={`import-drop-zone ${isDragging ? 'dragging' : ''}`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+            >
+              <p>{fileName ? `Selected: ${fileName}` : 'Drop a .vcf or .csv file here or'}</p>
+              <label className="form-button form-button-secondary import-file-button">
+                Choose file
+                <input
+                  type="file"
+                  accept=".vcf,.vcard,.csv,text/vcard,text/csv"
+                  onChange={handleFileInput}
+                  disabled={isImporting}
+                  hidden
+                />
+              </label>
+            </div>
+
+            {csvTable && !isImporting && renderMapping(csvTable)}
+
+            {preview.length > 0 && renderPreview()}
+
+            {progress && (
+              <div className="import-progress">
+                <progress value={progress.done} max={progress.total} />
+                <span>Imported {progress.done} of {progress.total}</span>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="form-actions">
+          {result ? (
+            <button type="button" onClick={onClose} className="form-button form-button-primary">
+              Done
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={onClose}
+                className="form-button form-button-secondary"
+                disabled={isImporting}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                className="form-button form-button-primary"
+                disabled={isImporting || selectedCount === 0 || !addressBook}
+              >
+                {isImporting ? 'Importing...' : `Import ${selectedCount} contacts`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -1,14 +1,16 @@
 import React from 'react';
 import { AddressBook } from '../types/dav';
-import { SyncService } from '../services/SyncService';
+import { Account } from '../types/auth';
+import { SyncApi } from '../services/SyncService';
 import { DAVClient } from '../services/DAVClient';
 import { ContactCardGrid } from './Contact';
 
 interface ContactsComponentProps {
   addressBooks: AddressBook[];
   visibleAddressBooks: Set<string>;
-  syncService: SyncService;
-  davClient: DAVClient;
+  syncService: SyncApi;
+  getDavClient: (addressBook: AddressBook) => DAVClient;
+  accounts?: Account[];
   contactRefreshTrigger: number;
   onLoadAddressBooks: () => Promise<void>;
 }
@@ -17,7 +19,8 @@ export const ContactsComponent: React.FC<ContactsComponentProps> = ({
   addressBooks,
   visibleAddressBooks,
   syncService,
-  davClient,
+  getDavClient,
+  accounts,
   contactRefreshTrigger,
   onLoadAddressBooks,
 }) => {
@@ -40,7 +43,9 @@ export const ContactsComponent: React.FC<ContactsComponentProps> = ({
               <ContactCardGrid
                 addressBooks={visibleAddressBooksArray}
                 syncService={syncService}
-                davClient={davClient}
+                getDavClient={getDavClient}
+                allAddressBooks={addressBooks}
+                accounts={accounts}
                 refreshTrigger={contactRefreshTrigger}
               />
             </div>
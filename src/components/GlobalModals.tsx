@@ -1,5 +1,9 @@
 import React, { Suspense, lazy } from 'react';
-import { AddressBook } from '../types/dav';
+import { AddressBook, CalendarEvent, Contact } from '../types/dav';
+import { Account, AuthConfig } from '../types/auth';
+import { SyncConflict } from '../services/CacheService';
+import { ImportService } from '../services/ImportService';
+import { ConflictDialog, Modal } from './common';
 
 const NewAddressBookForm = lazy(() =>
   import('./AddressBook/NewAddressBookForm').then((module) => ({
@@ -11,31 +15,68 @@ const EditAddressBookForm = lazy(() =>
     default: module.EditAddressBookForm,
   }))
 );
+const SetupForm = lazy(() =>
+  import('./SetupForm').then((module) => ({
+    default: module.SetupForm,
+  }))
+);
+const ImportContactsDialog = lazy(() =>
+  import('./Contact/ImportContactsDialog').then((module) => ({
+    default: module.ImportContactsDialog,
+  }))
+);
 
 interface GlobalModalsProps {
   showNewAddressBookForm: boolean;
   editingAddressBook: AddressBook | null;
-  onNewAddressBookSave: (displayName: string, description?: string) => Promise<void>;
+  showImportContacts: boolean;
+  addressBooks: AddressBook[];
+  importService: ImportService;
+  accounts?: Account[];
+  onNewAddressBookSave: (displayName: string, description?: string, accountId?: string) => Promise<void>;
   onNewAddressBookCancel: () => void;
   onEditAddressBookSave: (addressBook: AddressBook, displayName: string, color: string) => Promise<void>;
   onEditAddressBookDelete: (addressBook: AddressBook) => Promise<void>;
   onEditAddressBookCancel: () => void;
+  onImportContactsComplete: () => void;
+  onImportContactsClose: () => void;
+  showAddAccount?: boolean;
+  onAddAccount?: (config: AuthConfig, name: string) => Promise<void>;
+  onAddAccountCancel?: () => void;
+  conflicts: SyncConflict[];
+  onResolveConflict: (
+    conflict: SyncConflict,
+    choice: 'local' | 'server' | 'merged',
+    merged?: CalendarEvent | Contact
+  ) => Promise<void>;
 }
 
 export const GlobalModals: React.FC<GlobalModalsProps> = ({
   showNewAddressBookForm,
   editingAddressBook,
+  showImportContacts,
+  addressBooks,
+  importService,
+  accounts,
   onNewAddressBookSave,
   onNewAddressBookCancel,
   onEditAddressBookSave,
   onEditAddressBookDelete,
   onEditAddressBookCancel,
+  onImportContactsComplete,
+  onImportContactsClose,
+  showAddAccount,
+  onAddAccount,
+  onAddAccountCancel = () => {},
+  conflicts,
+  onResolveConflict,
 }) => {
   return (
     <>
       {showNewAddressBookForm && (
         <Suspense fallback={<div />}>
           <NewAddressBookForm
+            accounts={accounts}
             onSave={onNewAddressBookSave}
             onCancel={onNewAddressBookCancel}
           />
@@ -52,6 +93,27 @@ export const GlobalModals: React.FC<GlobalModalsProps> = ({
           />
         </Suspense>
       )}
+
+      {showImportContacts && (
+        <Suspense fallback={<div />}>
+          <ImportContactsDialog
+            addressBooks={addressBooks}
+            importService={importService}
+            onImported={onImportContactsComplete}
+            onClose={onImportContactsClose}
+          />
+        </Suspense>
+      )}
+
+      {showAddAccount && onAddAccount && (
+        <Modal isOpen={true} title="Add Account" onClose={onAddAccountCancel} size="large">
+          <Suspense fallback={<div />}>
+            <SetupForm onAddAccount={onAddAccount} onCancel={onAddAccountCancel} />
+          </Suspense>
+        </Modal>
+      )}
+
+      <ConflictDialog conflicts={conflicts} onResolve={onResolveConflict} />
     </>
   );
 };
\ No newline at end of file
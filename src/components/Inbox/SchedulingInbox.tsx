@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Calendar, CalendarEvent, SchedulingMessage } from '../../types/dav';
+import { SchedulingService } from '../../services/SchedulingService';
+import './SchedulingInbox.css';
+
+interface SchedulingInboxProps {
+  schedulingService: SchedulingService;
+  calendars: Calendar[];
+  onMessageProcessed?: () => void;
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  REQUEST: 'Invitation',
+  CANCEL: 'Cancelled',
+  REPLY: 'Reply'
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  REQUEST: 'Add to calendar',
+  CANCEL: 'Remove from calendar',
+  REPLY: 'Update guest list'
+};
+
+const PARTSTAT_VERBS: Record<string, string> = {
+  ACCEPTED: 'accepted',
+  DECLINED: 'declined',
+  TENTATIVE: 'tentatively accepted',
+  DELEGATED: 'delegated'
+};
+
+const formatEventTime = (event: CalendarEvent): string => {
+  const start = new Date(event.dtstart);
+  if (event.allDay) {
+    return start.toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  }
+  return start.toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+};
+
+// One line describing who sent the message
+const describeSender = (message: SchedulingMessage, event: CalendarEvent): string => {
+  if (message.method === 'REPLY') {
+    return (event.attendees || [])
+      .map(attendee => {
+        const verb = PARTSTAT_VERBS[attendee.partstat || ''] || 'replied to';
+        return `${attendee.name || attendee.email} ${verb}`;
+      })
+      .join(', ');
+  }
+  return event.organizer
+    ? `From ${event.organizer.name || event.organizer.email}`
+    : '';
+};
+
+export const SchedulingInbox: React.FC<SchedulingInboxProps> = ({
+  schedulingService,
+  calendars,
+  onMessageProcessed
+}) => {
+  const [messages, setMessages] = useState<SchedulingMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyUrl, setBusyUrl] = useState<string | null>(null);
+  const [targetCalendarUrl, setTargetCalendarUrl] = useState('');
+  const hasInbox = !!schedulingService.getSchedulingInfo()?.inboxUrl;
+
+  const loadMessages = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setMessages(await schedulingService.getInboxMessages());
+    } catch (loadError) {
+      console.error('Failed to load scheduling inbox:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load the inbox');
+    } finally {
+      setLoading(false);
+    }
+  }, [schedulingService]);
+
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages]);
+
+  useEffect(() => {
+    if (!targetCalendarUrl && calendars.length > 0) {
+      setTargetCalendarUrl(calendars[0].url);
+    }
+  }, [calendars, targetCalendarUrl]);
+
+  const handleMessage = useCallback(async (message: SchedulingMessage, apply: boolean) => {
+    const targetCalendar = calendars.find(cal => cal.url === targetCalendarUrl);
+    if (apply && !targetCalendar) {
+      setError('Please select a calendar for new invitations');
+      return;
+    }
+
+    setBusyUrl(message.url);
+    setError(null);
+    try {
+      if (apply && targetCalendar) {
+        await schedulingService.processInboxMessage(message, calendars, targetCalendar);
+        onMessageProcessed?.();
+      } else {
+        await schedulingService.dismissInboxMessage(message);
+      }
+      setMessages(prev => prev.filter(candidate => candidate.url !== message.url));
+    } catch (handleError) {
+      console.error('Failed to process scheduling message:', handleError);
+      setError(handleError instanceof Error ? handleError.message : 'Failed to process the message');
+    } finally {
+      setBusyUrl(null);
+    }
+  }, [calendars, targetCalendarUrl, schedulingService, onMessageProcessed]);
+
+  return (
+    <div className="scheduling-inbox">
+      <div className="scheduling-inbox-header">
+        <h2 className="scheduling-inbox-title">Inbox</h2>
+        {calendars.length > 1 && (
+          <label className="scheduling-inbox-target">
+            Add invitations to
+            <select
+              value={targetCalendarUrl}
+              onChange={(e) => setTargetCalendarUrl(e.target.value)}
+            >
+              {calendars.map(calendar => (
+                <option key={calendar.url} value={calendar.url}>
+                  {calendar.displayName}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <button className="scheduling-inbox-refresh" onClick={loadMessages} disabled={loading}>
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="scheduling-inbox-error" role="alert">
+          {error}
+        </div>
+      )}
+
+      {!hasInbox ? (
+        <div className="scheduling-inbox-empty">
+          <p>Your server does not provide a scheduling inbox.</p>
+        </div>
+      ) : loading ? (
+        <div className="scheduling-inbox-empty">
+          <p>Loading...</p>
+        </div>
+      ) : messages.length === 0 ? (
+        <div className="scheduling-inbox-empty">
+          <p>No new invitations or replies.</p>
+        </div>
+      ) : (
+        <ul className="scheduling-message-list">
+          {messages.map(message => {
+            const [event] = message.events;
+            if (!event) {
+              return null;
+            }
+            return (
+              <li key={message.url} className={`scheduling-message method-${message.method.toLowerCase()}`}>
+                <div className="scheduling-message-info">
+                  <span className="scheduling-message-method">
+                    {METHOD_LABELS[message.method] || message.method}
+                  </span>
+                  <span className="scheduling-message-summary">{event.summary || 'Untitled event'}</span>
+                  <span className="scheduling-message-detail">
+                    {formatEventTime(event)}
+                    {event.location ? ` · ${event.location}` : ''}
+                  </span>
+                  <span className="scheduling-message-detail">{describeSender(message, event)}</span>
+                </div>
+                <div className="scheduling-message-actions">
+                  {ACTION_LABELS[message.method] && (
+                    <button
+                      className="scheduling-message-apply"
+                      onClick={() => handleMessage(message, true)}
+                      disabled={busyUrl !== null}
+                    >
+                      {ACTION_LABELS[message.method]}
+                    </button>
+                  )}
+                  <button
+                    className="scheduling-message-dismiss"
+                    onClick={() => handleMessage(message, false)}
+                    disabled={busyUrl !== null}
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
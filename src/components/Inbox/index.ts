@@ -0,0 +1 @@
+export { SchedulingInbox } from './SchedulingInbox';
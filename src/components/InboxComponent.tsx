@@ -0,0 +1,26 @@
+import React from 'react';
+import { Calendar } from '../types/dav';
+import { SchedulingService } from '../services/SchedulingService';
+import { SchedulingInbox } from './Inbox';
+
+interface InboxComponentProps {
+  calendars: Calendar[];
+  schedulingService: SchedulingService;
+  onMessageProcessed: () => void;
+}
+
+export const InboxComponent: React.FC<InboxComponentProps> = ({
+  calendars,
+  schedulingService,
+  onMessageProcessed,
+}) => {
+  return (
+    <div className="view-container">
+      <SchedulingInbox
+        schedulingService={schedulingService}
+        calendars={calendars}
+        onMessageProcessed={onMessageProcessed}
+      />
+    </div>
+  );
+};
@@ -2,17 +2,21 @@ import React, { useState } from "react";
 import { ThemeToggle } from "../common/ThemeToggle";
 import { SyncStatusButton } from "../common/SyncStatusButton";
 import { ColorPicker } from "../common/ColorPicker";
-import { SyncService } from "../../services/SyncService";
+import { SyncApi } from "../../services/SyncService";
 import { useTheme } from "../../contexts/ThemeContext";
 import { Calendar, AddressBook } from "../../types/dav";
+import { Account } from "../../types/auth";
+import { AuthManager } from "../../services/AuthManager";
+import { groupByAccount } from "../../utils/accounts";
+import { DraggedEvent, getDraggedEvent, isCopyDrop, isEventDrag } from "../../utils/eventDrag";
 import "./Navigation.css";
 
 interface NavigationProps {
-  currentView: "calendar" | "contacts";
-  onViewChange: (view: "calendar" | "contacts") => void;
+  currentView: "calendar" | "agenda" | "contacts" | "tasks" | "inbox";
+  onViewChange: (view: "calendar" | "agenda" | "contacts" | "tasks" | "inbox") => void;
   username?: string;
   onLogout: () => void;
-  syncService?: SyncService;
+  syncService?: SyncApi;
   onManualSync?: () => void;
   // Calendar-specific props
   calendars?: Calendar[];
@@ -20,14 +24,26 @@ interface NavigationProps {
   onCalendarToggle?: (calendarUrl: string) => void;
   onCalendarColorChange?: (calendarUrl: string, color: string) => void;
   onCreateCalendar?: () => void;
+  onImportCalendar?: () => void;
   onEditCalendar?: (calendar: Calendar) => void;
+  onExportCalendar?: (calendar: Calendar) => void;
   // Address book-specific props
   addressBooks?: AddressBook[];
   visibleAddressBooks?: Set<string>;
   onAddressBookToggle?: (addressBookUrl: string) => void;
   onAddressBookColorChange?: (addressBookUrl: string, color: string) => void;
   onCreateAddressBook?: () => void;
+  onImportContacts?: () => void;
   onEditAddressBook?: (addressBook: AddressBook) => void;
+  onExportAddressBook?: (addressBook: AddressBook) => void;
+  // Backup of every collection
+  onExportAccount?: () => void;
+  // Accounts whose collections are shown, grouped once there are several
+  accounts?: Account[];
+  onAddAccount?: () => void;
+  onRemoveAccount?: (account: Account) => void;
+  // Event dropped on a calendar: moved, or copied with Ctrl/Option held
+  onEventDrop?: (dragged: DraggedEvent, calendar: Calendar, copy: boolean) => void;
 }
 
 export const Navigation: React.FC<NavigationProps> = ({
@@ -42,13 +58,22 @@ export const Navigation: React.FC<NavigationProps> = ({
   onCalendarToggle,
   onCalendarColorChange,
   onCreateCalendar,
+  onImportCalendar,
   onEditCalendar,
+  onExportCalendar,
   addressBooks = [],
   visibleAddressBooks = new Set(),
   onAddressBookToggle,
   onAddressBookColorChange,
   onCreateAddressBook,
+  onImportContacts,
   onEditAddressBook,
+  onExportAddressBook,
+  onExportAccount,
+  accounts = [],
+  onAddAccount,
+  onRemoveAccount,
+  onEventDrop,
 }) => {
   const { theme, toggleTheme } = useTheme();
   // Initialize sidebar state based on screen size
@@ -69,11 +94,35 @@ export const Navigation: React.FC<NavigationProps> = ({
   // Color selector state
   const [colorSelectorOpen, setColorSelectorOpen] = useState<string | null>(null);
 
+  // Calendar an event is dragged over
+  const [dropTargetUrl, setDropTargetUrl] = useState<string | null>(null);
+
+  const handleCalendarDragOver = (e: React.DragEvent, calendar: Calendar) => {
+    if (!onEventDrop || !isEventDrag(e.dataTransfer)) {
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = isCopyDrop(e) ? "copy" : "move";
+    setDropTargetUrl(calendar.url);
+  };
+
+  const handleCalendarDrop = (e: React.DragEvent, calendar: Calendar) => {
+    setDropTargetUrl(null);
+    const dragged = getDraggedEvent(e.dataTransfer);
+    if (!onEventDrop || !dragged) {
+      return;
+    }
+    e.preventDefault();
+    if (dragged.calendarUrl !== calendar.url) {
+      onEventDrop(dragged, calendar, isCopyDrop(e));
+    }
+  };
+
   const toggleSidebar = () => {
     setSidebarOpen(!sidebarOpen);
   };
 
-  const handleViewChange = (view: "calendar" | "contacts") => {
+  const handleViewChange = (view: "calendar" | "agenda" | "contacts" | "tasks" | "inbox") => {
     onViewChange(view);
     // Close sidebar on mobile after navigation
     if (window.innerWidth <= 768) {
@@ -132,6 +181,29 @@ export const Navigation: React.FC<NavigationProps> = ({
     });
   };
 
+  const groupCollections = <T extends { accountId?: string }>(
+    items: T[]
+  ): { account?: Account; items: T[] }[] =>
+    accounts.length > 1 ? groupByAccount(items, accounts) : [{ items }];
+
+  const renderAccountHeader = (account?: Account) =>
+    account && (
+      <div className="account-group-header">
+        <span className="account-group-name" title={account.name}>
+          {account.name}
+        </span>
+        {onRemoveAccount && account.id !== AuthManager.PRIMARY_ACCOUNT_ID && (
+          <button
+            className="sidebar-edit-button"
+            onClick={() => onRemoveAccount(account)}
+            title={`Remove account ${account.name}`}
+          >
+            ×
+          </button>
+        )}
+      </div>
+    );
+
   const handleColorSelectorOpen = (calendarUrl: string) => {
     setColorSelectorOpen(calendarUrl);
   };
@@ -283,52 +355,89 @@ export const Navigation: React.FC<NavigationProps> = ({
                         <span className="add-icon">+</span>
                         New Calendar
                       </button>
+                      {onImportCalendar && calendars.length > 0 && (
+                        <button
+                          className="calendar-toggle-all"
+                          onClick={onImportCalendar}
+                          title="Import events from an .ics file"
+                        >
+                          Import .ics
+                        </button>
+                      )}
                     </div>
 
                     <div className="calendar-list">
-                      {calendars.map(calendar => (
-                        <div key={calendar.url} className="calendar-item">
-                          <label className="calendar-toggle-label">
-                            <input
-                              type="checkbox"
-                              checked={visibleCalendars.has(calendar.url)}
-                              onChange={() => onCalendarToggle?.(calendar.url)}
-                              className="calendar-checkbox"
-                            />
-                            <span className="calendar-checkbox-custom">
-                              <span className="checkbox-checkmark"></span>
-                            </span>
-                            <button
-                              className="calendar-color-indicator"
-                              style={{ backgroundColor: calendar.color || '#3b82f6' }}
-                              onClick={(e) => {
-                                e.preventDefault();
-                                handleColorSelectorOpen(calendar.url);
+                      {groupCollections(calendars).map((group) => (
+                        <div key={group.account?.id || "all"} className="account-group">
+                          {renderAccountHeader(group.account)}
+                          {group.items.map(calendar => (
+                            <div
+                              key={calendar.url}
+                              className={`calendar-item${dropTargetUrl === calendar.url ? " drop-target" : ""}`}
+                              onDragOver={(e) => handleCalendarDragOver(e, calendar)}
+                              onDragLeave={(e) => {
+                                if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                                  setDropTargetUrl(null);
+                                }
                               }}
-                              title="Change calendar color"
-                            />
-                            <span className="calendar-name" title={calendar.displayName}>
-                              {calendar.displayName}
-                            </span>
-                          </label>
-                          <button
-                            className="sidebar-edit-button"
-                            onClick={(e) => {
-                              e.preventDefault();
-                              e.stopPropagation();
-                              console.log('Edit button clicked for:', calendar.displayName);
-                              console.log('onEditCalendar type:', typeof onEditCalendar);
-                              console.log('onEditCalendar value:', onEditCalendar);
-                              if (onEditCalendar) {
-                                onEditCalendar(calendar);
-                              } else {
-                                console.error('onEditCalendar is not defined!');
-                              }
-                            }}
-                            title="Edit calendar"
-                          >
-                            ✎
-                          </button>
+                              onDrop={(e) => handleCalendarDrop(e, calendar)}
+                            >
+                              <label className="calendar-toggle-label">
+                                <input
+                                  type="checkbox"
+                                  checked={visibleCalendars.has(calendar.url)}
+                                  onChange={() => onCalendarToggle?.(calendar.url)}
+                                  className="calendar-checkbox"
+                                />
+                                <span className="calendar-checkbox-custom">
+                                  <span className="checkbox-checkmark"></span>
+                                </span>
+                                <button
+                                  className="calendar-color-indicator"
+                                  style={{ backgroundColor: calendar.color || '#3b82f6' }}
+                                  onClick={(e) => {
+                                    e.preventDefault();
+                                    handleColorSelectorOpen(calendar.url);
+                                  }}
+                                  title="Change calendar color"
+                                />
+                                <span className="calendar-name" title={calendar.displayName}>
+                                  {calendar.displayName}
+                                </span>
+                              </label>
+                              {onExportCalendar && (
+                                <button
+                                  className="sidebar-edit-button"
+                                  onClick={(e) => {
+                                    e.preventDefault();
+                                    e.stopPropagation();
+                                    onExportCalendar(calendar);
+                                  }}
+                                  title="Export calendar (.ics)"
+                                >
+                                  ⤓
+                                </button>
+                              )}
+                              <button
+                                className="sidebar-edit-button"
+                                onClick={(e) => {
+                                  e.preventDefault();
+                                  e.stopPropagation();
+                                  console.log('Edit button clicked for:', calendar.displayName);
+                                  console.log('onEditCalendar type:', typeof onEditCalendar);
+                                  console.log('onEditCalendar value:', onEditCalendar);
+                                  if (onEditCalendar) {
+                                    onEditCalendar(calendar);
+                                  } else {
+                                    console.error('onEditCalendar is not defined!');
+                                  }
+                                }}
+                                title="Edit calendar"
+                              >
+                                ✎
+                              </button>
+                            </div>
+                          ))}
                         </div>
                       ))}
                     </div>
@@ -342,6 +451,22 @@ export const Navigation: React.FC<NavigationProps> = ({
                 )}
               </div>
             </li>
+            <li>
+              <div className="nav-section">
+                <div className="nav-section-header">
+                  <button
+                    className={`sidebar-nav-link ${
+                      currentView === "agenda" ? "active" : ""
+                    }`}
+                    onClick={() => handleViewChange("agenda")}
+                    title="Agenda"
+                  >
+                    <span className="nav-icon agenda-icon"></span>
+                    {sidebarOpen && <span className="nav-text">Agenda</span>}
+                  </button>
+                </div>
+              </div>
+            </li>
             <li>
               <div className="nav-section">
                 <div className="nav-section-header">
@@ -395,50 +520,77 @@ export const Navigation: React.FC<NavigationProps> = ({
                         <span className="add-icon">+</span>
                         New Address Book
                       </button>
+                      {onImportContacts && addressBooks.length > 0 && (
+                        <button
+                          className="address-book-toggle-all"
+                          onClick={onImportContacts}
+                          title="Import contacts from a .vcf or .csv file"
+                        >
+                          Import contacts
+                        </button>
+                      )}
                     </div>
 
                     <div className="address-book-list">
-                      {addressBooks.map(addressBook => (
-                        <div key={addressBook.url} className="address-book-item">
-                          <label className="address-book-toggle-label">
-                            <input
-                              type="checkbox"
-                              checked={visibleAddressBooks.has(addressBook.url)}
-                              onChange={() => onAddressBookToggle?.(addressBook.url)}
-                              className="address-book-checkbox"
-                            />
-                            <span className="address-book-checkbox-custom">
-                              <span className="checkbox-checkmark"></span>
-                            </span>
-                            <button
-                              className="address-book-color-indicator"
-                              style={{ 
-                                backgroundColor: addressBook.color || '#6b7280',
-                                '--address-book-color': addressBook.color || '#6b7280'
-                              } as React.CSSProperties}
-                              onClick={(e) => {
-                                e.preventDefault();
-                                handleAddressBookColorSelectorOpen(addressBook.url);
-                              }}
-                              title="Change address book color"
-                            />
-                            <span className="address-book-name" title={addressBook.displayName}>
-                              {addressBook.displayName}
-                            </span>
-                          </label>
-                          <button
-                            className="sidebar-edit-button"
-                            onClick={(e) => {
-                              e.preventDefault();
-                              e.stopPropagation();
-                              if (onEditAddressBook) {
-                                onEditAddressBook(addressBook);
-                              }
-                            }}
-                            title="Edit address book"
-                          >
-                            ✎
-                          </button>
+                      {groupCollections(addressBooks).map((group) => (
+                        <div key={group.account?.id || "all"} className="account-group">
+                          {renderAccountHeader(group.account)}
+                          {group.items.map(addressBook => (
+                            <div key={addressBook.url} className="address-book-item">
+                              <label className="address-book-toggle-label">
+                                <input
+                                  type="checkbox"
+                                  checked={visibleAddressBooks.has(addressBook.url)}
+                                  onChange={() => onAddressBookToggle?.(addressBook.url)}
+                                  className="address-book-checkbox"
+                                />
+                                <span className="address-book-checkbox-custom">
+                                  <span className="checkbox-checkmark"></span>
+                                </span>
+                                <button
+                                  className="address-book-color-indicator"
+                                  style={{ 
+                                    backgroundColor: addressBook.color || '#6b7280',
+                                    '--address-book-color': addressBook.color || '#6b7280'
+                                  } as React.CSSProperties}
+                                  onClick={(e) => {
+                                    e.preventDefault();
+                                    handleAddressBookColorSelectorOpen(addressBook.url);
+                                  }}
+                                  title="Change address book color"
+                                />
+                                <span className="address-book-name" title={addressBook.displayName}>
+                                  {addressBook.displayName}
+                                </span>
+                              </label>
+                              {onExportAddressBook && (
+                                <button
+                                  className="sidebar-edit-button"
+                                  onClick={(e) => {
+                                    e.preventDefault();
+                                    e.stopPropagation();
+                                    onExportAddressBook(addressBook);
+                                  }}
+                                  title="Export address book (.vcf)"
+                                >
+                                  ⤓
+                                </button>
+                              )}
+                              <button
+                                className="sidebar-edit-button"
+                                onClick={(e) => {
+                                  e.preventDefault();
+                                  e.stopPropagation();
+                                  if (onEditAddressBook) {
+                                    onEditAddressBook(addressBook);
+                                  }
+                                }}
+                                title="Edit address book"
+                              >
+                                ✎
+                              </button>
+                            </div>
+                          ))}
                         </div>
                       ))}
                     </div>
@@ -452,6 +604,38 @@ export const Navigation: React.FC<NavigationProps> = ({
                 )}
               </div>
             </li>
+            <li>
+              <div className="nav-section">
+                <div className="nav-section-header">
+                  <button
+                    className={`sidebar-nav-link ${
+                      currentView === "tasks" ? "active" : ""
+                    }`}
+                    onClick={() => handleViewChange("tasks")}
+                    title="Tasks"
+                  >
+                    <span className="nav-icon tasks-icon"></span>
+                    {sidebarOpen && <span className="nav-text">Tasks</span>}
+                  </button>
+                </div>
+              </div>
+            </li>
+            <li>
+              <div className="nav-section">
+                <div className="nav-section-header">
+                  <button
+                    className={`sidebar-nav-link ${
+                      currentView === "inbox" ? "active" : ""
+                    }`}
+                    onClick={() => handleViewChange("inbox")}
+                    title="Inbox"
+                  >
+                    <span className="nav-icon inbox-icon"></span>
+                    {sidebarOpen && <span className="nav-text">Inbox</span>}
+                  </button>
+                </div>
+              </div>
+            </li>
           </ul>
         </nav>
 
@@ -474,6 +658,26 @@ export const Navigation: React.FC<NavigationProps> = ({
               </button>
             )}
             
+            {onAddAccount && (
+              <button
+                className="sidebar-icon-button add-account-button"
+                onClick={onAddAccount}
+                title="Add account"
+              >
+                <span className="button-icon add-account-icon"></span>
+              </button>
+            )}
+
+            {onExportAccount && (
+              <button
+                className="sidebar-icon-button export-button"
+                onClick={onExportAccount}
+                title="Export all calendars and contacts (.zip)"
+              >
+                <span className="button-icon export-icon"></span>
+              </button>
+            )}
+
             {syncService && (
               <SyncStatusButton 
                 syncService={syncService}
@@ -2,26 +2,37 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Navigation } from './Navigation';
 import { Calendar, AddressBook } from '../types/dav';
-import { SyncService } from '../services/SyncService';
+import { DraggedEvent } from '../utils/eventDrag';
+import { Account } from '../types/auth';
+import { SyncApi } from '../services/SyncService';
 
 interface NavigationWrapperProps {
-  currentView: "calendar" | "contacts";
+  currentView: "calendar" | "agenda" | "contacts" | "tasks" | "inbox";
   username?: string;
   onLogout: () => void;
-  syncService?: SyncService;
+  syncService?: SyncApi;
   onManualSync?: () => void;
   calendars: Calendar[];
   visibleCalendars: Set<string>;
   onCalendarToggle: (calendarUrl: string) => void;
   onCalendarColorChange: (calendarUrl: string, color: string) => void;
   onCreateCalendar: () => void;
+  onImportCalendar: () => void;
   onEditCalendar: (calendar: Calendar) => void;
+  onExportCalendar: (calendar: Calendar) => void;
   addressBooks: AddressBook[];
   visibleAddressBooks: Set<string>;
   onAddressBookToggle: (addressBookUrl: string) => void;
   onAddressBookColorChange: (addressBookUrl: string, color: string) => void;
   onCreateAddressBook: () => void;
+  onImportContacts: () => void;
   onEditAddressBook: (addressBook: AddressBook) => void;
+  onExportAddressBook: (addressBook: AddressBook) => void;
+  onExportAccount: () => void;
+  accounts: Account[];
+  onAddAccount: () => void;
+  onRemoveAccount: (account: Account) => void;
+  onEventDrop: (dragged: DraggedEvent, calendar: Calendar, copy: boolean) => void;
 }
 
 export const NavigationWrapper: React.FC<NavigationWrapperProps> = ({
@@ -35,17 +46,26 @@ export const NavigationWrapper: React.FC<NavigationWrapperProps> = ({
   onCalendarToggle,
   onCalendarColorChange,
   onCreateCalendar,
+  onImportCalendar,
   onEditCalendar,
+  onExportCalendar,
   addressBooks,
   visibleAddressBooks,
   onAddressBookToggle,
   onAddressBookColorChange,
   onCreateAddressBook,
+  onImportContacts,
   onEditAddressBook,
+  onExportAddressBook,
+  onExportAccount,
+  accounts,
+  onAddAccount,
+  onRemoveAccount,
+  onEventDrop,
 }) => {
   const navigate = useNavigate();
 
-  const handleViewChange = (view: "calendar" | "contacts") => {
+  const handleViewChange = (view: "calendar" | "agenda" | "contacts" | "tasks" | "inbox") => {
     navigate(`/${view}`);
   };
 
@@ -62,13 +82,22 @@ export const NavigationWrapper: React.FC<NavigationWrapperProps> = ({
       onCalendarToggle={onCalendarToggle}
       onCalendarColorChange={onCalendarColorChange}
       onCreateCalendar={onCreateCalendar}
+      onImportCalendar={onImportCalendar}
       onEditCalendar={onEditCalendar}
+      onExportCalendar={onExportCalendar}
       addressBooks={addressBooks}
       visibleAddressBooks={visibleAddressBooks}
       onAddressBookToggle={onAddressBookToggle}
       onAddressBookColorChange={onAddressBookColorChange}
       onCreateAddressBook={onCreateAddressBook}
+      onImportContacts={onImportContacts}
       onEditAddressBook={onEditAddressBook}
+      onExportAddressBook={onExportAddressBook}
+      onExportAccount={onExportAccount}
+      accounts={accounts}
+      onAddAccount={onAddAccount}
+      onRemoveAccount={onRemoveAccount}
+      onEventDrop={onEventDrop}
     />
   );
 };
\ No newline at end of file
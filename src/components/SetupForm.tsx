@@ -4,11 +4,15 @@ import { AuthManager } from "../services/AuthManager";
 import "./SetupForm.css";
 
 interface SetupFormProps {
-  onSetupComplete: (config: AuthConfig, masterPassword?: string) => void;
+  onSetupComplete?: (config: AuthConfig, masterPassword?: string) => void;
+  // Adds the account to the signed-in session instead of signing in with it
+  onAddAccount?: (config: AuthConfig, name: string) => Promise<void>;
   onCancel?: () => void;
 }
 
 interface FormData {
+  server: string; // Host name or URL for service discovery
+  manualUrls: boolean; // Enter the CalDAV and CardDAV URLs instead
   caldavUrl: string;
   carddavUrl: string;
   username: string;
@@ -16,6 +20,7 @@ interface FormData {
   masterPassword: string;
   rememberCredentials: boolean;
   persistSession: boolean;
+  accountName: string;
 }
 
 interface ConnectionStatus {
@@ -29,10 +34,13 @@ type SetupStep = "login" | "server" | "credentials" | "options";
 
 export const SetupForm: React.FC<SetupFormProps> = ({
   onSetupComplete,
+  onAddAccount,
   onCancel,
 }) => {
   const [currentStep, setCurrentStep] = useState<SetupStep>("login");
   const [formData, setFormData] = useState<FormData>({
+    server: "",
+    manualUrls: false,
     caldavUrl: "",
     carddavUrl: "",
     username: "",
@@ -40,7 +48,9 @@ export const SetupForm: React.FC<SetupFormProps> = ({
     masterPassword: "",
     rememberCredentials: true,
     persistSession: false,
+    accountName: "",
   });
+  const [addingAccount, setAddingAccount] = useState(false);
 
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>({
     testing: false,
@@ -53,6 +63,12 @@ export const SetupForm: React.FC<SetupFormProps> = ({
   const authManager = AuthManager.getInstance();
 
   useEffect(() => {
+    // Added accounts are stored with the credentials already unlocked
+    if (onAddAccount) {
+      setCurrentStep("server");
+      return;
+    }
+
     // Check if there are stored credentials
     const hasStored = authManager.hasStoredCredentials();
     setHasStoredCredentials(hasStored);
@@ -60,7 +76,7 @@ export const SetupForm: React.FC<SetupFormProps> = ({
     if (!hasStored) {
       setCurrentStep("server");
     }
-  }, [authManager]);
+  }, [authManager, onAddAccount]);
 
   const handleInputChange = (
     field: keyof FormData,
@@ -94,16 +110,31 @@ export const SetupForm: React.FC<SetupFormProps> = ({
   };
 
   const validateForm = (): boolean => {
-    const config: Partial<AuthConfig> = {
-      caldavUrl: formData.caldavUrl,
-      carddavUrl: formData.carddavUrl,
-      username: formData.username,
-      password: formData.password,
-    };
-
-    const errors = authManager.validateCredentials(config);
+    let errors: string[];
+    if (formData.manualUrls) {
+      errors = authManager.validateCredentials({
+        caldavUrl: formData.caldavUrl,
+        carddavUrl: formData.carddavUrl,
+        username: formData.username,
+        password: formData.password,
+      });
+    } else {
+      // The URLs are discovered later; check the server and credentials only
+      const serverUrl = authManager.normalizeServerUrl(formData.server) || "";
+      errors = authManager
+        .validateCredentials({
+          caldavUrl: serverUrl,
+          carddavUrl: serverUrl,
+          username: formData.username,
+          password: formData.password,
+        })
+        .filter((error) => !error.includes("DAV URL"));
+      if (!serverUrl) {
+        errors.unshift("Server is not a valid host name or URL");
+      }
+    }
 
-    if (formData.rememberCredentials && !formData.masterPassword) {
+    if (!onAddAccount && formData.rememberCredentials && !formData.masterPassword) {
       errors.push("Master password is required to save credentials");
     }
 
@@ -111,6 +142,23 @@ export const SetupForm: React.FC<SetupFormProps> = ({
     return errors.length === 0;
   };
 
+  // Account config from the entered URLs, or from service discovery
+  const resolveConfig = async (): Promise<AuthConfig> => {
+    if (formData.manualUrls) {
+      return {
+        caldavUrl: formData.caldavUrl,
+        carddavUrl: formData.carddavUrl,
+        username: formData.username,
+        password: formData.password,
+      };
+    }
+    return authManager.discoverAccount(
+      formData.server,
+      formData.username,
+      formData.password
+    );
+  };
+
   const testConnection = async () => {
     if (!validateForm()) {
       return;
@@ -118,14 +166,8 @@ export const SetupForm: React.FC<SetupFormProps> = ({
 
     setConnectionStatus({ testing: true, success: null });
 
-    const config: AuthConfig = {
-      caldavUrl: formData.caldavUrl,
-      carddavUrl: formData.carddavUrl,
-      username: formData.username,
-      password: formData.password,
-    };
-
     try {
+      const config = await resolveConfig();
       const result = await authManager.testConnection(config);
 
       setConnectionStatus({
@@ -151,14 +193,23 @@ export const SetupForm: React.FC<SetupFormProps> = ({
       return;
     }
 
-    const config: AuthConfig = {
-      caldavUrl: formData.caldavUrl,
-      carddavUrl: formData.carddavUrl,
-      username: formData.username,
-      password: formData.password,
-    };
+    if (onAddAccount) {
+      setAddingAccount(true);
+      try {
+        await onAddAccount(await resolveConfig(), formData.accountName);
+      } catch (error) {
+        setValidationErrors([
+          error instanceof Error ? error.message : "Failed to add account",
+        ]);
+      } finally {
+        setAddingAccount(false);
+      }
+      return;
+    }
 
     try {
+      const config = await resolveConfig();
+
       console.log(
         "Form submission - rememberCredentials:",
         formData.rememberCredentials,
@@ -177,7 +228,7 @@ export const SetupForm: React.FC<SetupFormProps> = ({
           formData.masterPassword,
           formData.persistSession
         );
-        onSetupComplete(config, formData.masterPassword);
+        onSetupComplete?.(config, formData.masterPassword);
       } else {
         console.log(
           "Creating temporary session with persistence:",
@@ -186,7 +237,7 @@ export const SetupForm: React.FC<SetupFormProps> = ({
         // Create a session without storing credentials permanently
         authManager.createSession(config, formData.persistSession);
         const sessionToken = authManager.getStoredSessionToken();
-        onSetupComplete(config, sessionToken || undefined);
+        onSetupComplete?.(config, sessionToken || undefined);
       }
     } catch (error) {
       setValidationErrors([
@@ -211,6 +262,7 @@ export const SetupForm: React.FC<SetupFormProps> = ({
       if (credentials) {
         setFormData((prev) => ({
           ...prev,
+          manualUrls: true,
           caldavUrl: credentials.caldavUrl,
           carddavUrl: credentials.carddavUrl,
           username: credentials.username,
@@ -270,7 +322,7 @@ export const SetupForm: React.FC<SetupFormProps> = ({
           );
         }
 
-        onSetupComplete(credentials, formData.masterPassword);
+        onSetupComplete?.(credentials, formData.masterPassword);
       } else {
         setValidationErrors([
           "Invalid master password or no stored credentials found",
@@ -364,51 +416,84 @@ export const SetupForm: React.FC<SetupFormProps> = ({
       <h2>Server Configuration</h2>
       <p>Enter your CalDAV/CardDAV server details</p>
 
-      <div className="form-group">
-        <label>CalDAV Server URL</label>
-        <input
-          type="url"
-          value={formData.caldavUrl}
-          onChange={(e) => handleInputChange("caldavUrl", e.target.value)}
-          placeholder="https://your-server.com/caldav/"
-        />
-      </div>
+      {formData.manualUrls ? (
+        <>
+          <div className="form-group">
+            <label>CalDAV Server URL</label>
+            <input
+              type="url"
+              value={formData.caldavUrl}
+              onChange={(e) => handleInputChange("caldavUrl", e.target.value)}
+              placeholder="https://your-server.com/caldav/"
+            />
+          </div>
 
-      <div className="form-group">
-        <label>CardDAV Server URL</label>
-        <input
-          type="url"
-          value={formData.carddavUrl}
-          onChange={(e) => handleInputChange("carddavUrl", e.target.value)}
-          placeholder="https://your-server.com/carddav/"
-        />
+          <div className="form-group">
+            <label>CardDAV Server URL</label>
+            <input
+              type="url"
+              value={formData.carddavUrl}
+              onChange={(e) => handleInputChange("carddavUrl", e.target.value)}
+              placeholder="https://your-server.com/carddav/"
+            />
+          </div>
+        </>
+      ) : (
+        <div className="form-group">
+          <label>Server</label>
+          <input
+            type="text"
+            value={formData.server}
+            onChange={(e) => handleInputChange("server", e.target.value)}
+            placeholder="your-server.com"
+          />
+          <small>Calendars and address books are found automatically</small>
+        </div>
+      )}
+
+      <div className="form-group checkbox-group">
+        <label>
+          <input
+            type="checkbox"
+            checked={formData.manualUrls}
+            onChange={(e) => handleInputChange("manualUrls", e.target.checked)}
+          />
+          Enter CalDAV and CardDAV URLs manually
+        </label>
       </div>
 
-      <details className="server-examples">
-        <summary>Common server examples</summary>
-        <div className="examples-list">
-          <div>
-            <strong>Baikal:</strong> https://your-server.com/dav.php/calendars/username/
-          </div>
-          <div>
-            <strong>Radicale:</strong> https://your-server.com/radicale/
+      {formData.manualUrls && (
+        <details className="server-examples">
+          <summary>Common server examples</summary>
+          <div className="examples-list">
+            <div>
+              <strong>Baikal:</strong> https://your-server.com/dav.php/calendars/username/
+            </div>
+            <div>
+              <strong>Radicale:</strong> https://your-server.com/radicale/
+            </div>
+            <div>
+              <strong>Nextcloud:</strong> https://your-server.com/remote.php/dav/principals/users/username/
+              (with two-factor authentication, sign in with an app password)
+            </div>
           </div>
-          <div>
-            <strong>Nextcloud:</strong> https://your-server.com/remote.php/dav/principals/users/username/
-          </div>
-        </div>
-      </details>
+        </details>
+      )}
 
       <div className="form-actions">
         <button
           type="button"
           onClick={() => setCurrentStep("credentials")}
           className="btn-primary"
-          disabled={!formData.caldavUrl || !formData.carddavUrl}
+          disabled={
+            formData.manualUrls
+              ? !formData.caldavUrl || !formData.carddavUrl
+              : !formData.server.trim()
+          }
         >
           Next
         </button>
-        {hasStoredCredentials && (
+        {hasStoredCredentials && !onAddAccount && (
           <button
             type="button"
             onClick={() => setCurrentStep("login")}
@@ -446,6 +531,20 @@ export const SetupForm: React.FC<SetupFormProps> = ({
         />
       </div>
 
+      {onAddAccount && (
+        <div className="form-group">
+          <label>Account Name</label>
+          <input
+            type="text"
+            value={formData.accountName}
+            onChange={(e) => handleInputChange("accountName", e.target.value)}
+            placeholder="e.g. Work"
+            maxLength={100}
+          />
+          <small>Shown above the account's calendars and address books</small>
+        </div>
+      )}
+
       {connectionStatus.testing && (
         <div className="connection-status testing">Testing connection...</div>
       )}
@@ -476,14 +575,25 @@ export const SetupForm: React.FC<SetupFormProps> = ({
         >
           Test Connection
         </button>
-        <button
-          type="button"
-          onClick={() => setCurrentStep("options")}
-          className="btn-primary"
-          disabled={!formData.username || !formData.password}
-        >
-          Next
-        </button>
+        {onAddAccount ? (
+          <button
+            type="button"
+            onClick={handleSubmit}
+            className="btn-primary"
+            disabled={!formData.username || !formData.password || addingAccount}
+          >
+            {addingAccount ? "Adding..." : "Add Account"}
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setCurrentStep("options")}
+            className="btn-primary"
+            disabled={!formData.username || !formData.password}
+          >
+            Next
+          </button>
+        )}
         <button
           type="button"
           onClick={() => setCurrentStep("server")}
@@ -572,7 +682,7 @@ export const SetupForm: React.FC<SetupFormProps> = ({
   return (
     <div className="setup-form-container">
       <div className="setup-form">
-        {hasStoredCredentials && renderStepIndicator()}
+        {hasStoredCredentials && !onAddAccount && renderStepIndicator()}
 
         {validationErrors.length > 0 && (
           <div className="error-messages">
@@ -0,0 +1,330 @@
+import React, { useEffect, useState } from 'react';
+import { Calendar, Task } from '../../types/dav';
+import { getChildTasks, isTaskCompleted } from '../../utils/tasks';
+import './TaskList.css';
+
+interface TaskListProps {
+  taskLists: Calendar[];
+  tasks: Task[];
+  onRefresh: () => void;
+  onCreate: (calendar: Calendar, task: Task) => Promise<void>;
+  onUpdate: (task: Task) => Promise<void>;
+  onToggle: (task: Task) => Promise<void>;
+  onMove: (siblings: Task[], task: Task, direction: -1 | 1) => Promise<void>;
+  onDelete: (task: Task) => Promise<void>;
+}
+
+type TaskFields = Pick<Task, 'summary' | 'due' | 'dueAllDay' | 'priority' | 'percentComplete'>;
+
+const PRIORITY_OPTIONS: { value: string; label: string }[] = [
+  { value: '', label: 'No priority' },
+  { value: '1', label: 'High' },
+  { value: '5', label: 'Medium' },
+  { value: '9', label: 'Low' },
+];
+
+// RFC 5545 priorities: 1-4 high, 5 medium, 6-9 low
+const getPriorityLabel = (priority?: number): string | null => {
+  if (!priority) return null;
+  return priority < 5 ? 'High' : priority === 5 ? 'Medium' : 'Low';
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDateInputValue = (date?: Date): string =>
+  date ? `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` : '';
+
+const formatDue = (task: Task): string => {
+  if (!task.due) return '';
+  const options: Intl.DateTimeFormatOptions = task.dueAllDay
+    ? { weekday: 'short', month: 'short', day: 'numeric' }
+    : { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' };
+  return `Due ${task.due.toLocaleString('en-US', options)}`;
+};
+
+interface TaskEditorProps {
+  task?: Task;
+  submitLabel: string;
+  placeholder?: string;
+  onSave: (fields: TaskFields) => Promise<void>;
+  onCancel?: () => void;
+}
+
+/**
+ * Form for the summary, due date, priority and progress of a task. The due
+ * date is a whole day; a due time set by another client is kept while the
+ * day stays the same.
+ */
+const TaskEditor: React.FC<TaskEditorProps> = ({ task, submitLabel, placeholder, onSave, onCancel }) => {
+  const [summary, setSummary] = useState(task?.summary || '');
+  const [dueDate, setDueDate] = useState(toDateInputValue(task?.due));
+  const [priority, setPriority] = useState(task?.priority ? String(task.priority) : '');
+  const [percentComplete, setPercentComplete] = useState(String(task?.percentComplete ?? 0));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!summary.trim()) return;
+
+    let due = task?.due;
+    let dueAllDay = task?.dueAllDay;
+    if (dueDate !== toDateInputValue(task?.due)) {
+      const [year, month, day] = dueDate.split('-').map(Number);
+      due = dueDate ? new Date(year, month - 1, day) : undefined;
+      dueAllDay = dueDate ? true : undefined;
+    }
+
+    await onSave({
+      summary: summary.trim(),
+      due,
+      dueAllDay,
+      priority: priority ? Number(priority) : undefined,
+      percentComplete: task ? Math.min(Math.max(Number(percentComplete) || 0, 0), 100) : undefined,
+    });
+    if (!task) {
+      setSummary('');
+      setDueDate('');
+      setPriority('');
+    }
+  };
+
+  return (
+    <form className="task-editor" onSubmit={handleSubmit}>
+      <input
+        type="text"
+        className="task-editor-summary"
+        value={summary}
+        onChange={(e) => setSummary(e.target.value)}
+        placeholder={placeholder || 'Task'}
+        aria-label="Task summary"
+        autoFocus={!!task}
+      />
+      <input
+        type="date"
+        value={dueDate}
+        onChange={(e) => setDueDate(e.target.value)}
+        aria-label="Due date"
+      />
+      <select value={priority} onChange={(e) => setPriority(e.target.value)} aria-label="Priority">
+        {PRIORITY_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      {task && (
+        <input
+          type="number"
+          className="task-editor-percent"
+          min={0}
+          max={100}
+          step={10}
+          value={percentComplete}
+          onChange={(e) => setPercentComplete(e.target.value)}
+          aria-label="Percent complete"
+        />
+      )}
+      <button type="submit" className="task-button task-button-primary" disabled={!summary.trim()}>
+        {submitLabel}
+      </button>
+      {onCancel && (
+        <button type="button" className="task-button" onClick={onCancel}>
+          Cancel
+        </button>
+      )}
+    </form>
+  );
+};
+
+/**
+ * Tasks view: the tasks of one task list with their subtasks, to add,
+ * edit, complete, reorder and delete
+ */
+export const TaskList: React.FC<TaskListProps> = ({
+  taskLists,
+  tasks,
+  onRefresh,
+  onCreate,
+  onUpdate,
+  onToggle,
+  onMove,
+  onDelete,
+}) => {
+  const [listUrl, setListUrl] = useState(taskLists[0]?.url || '');
+  const [showCompleted, setShowCompleted] = useState(false);
+  const [editingUid, setEditingUid] = useState<string | null>(null);
+  const [addingSubtaskTo, setAddingSubtaskTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!taskLists.some(list => list.url === listUrl) && taskLists.length > 0) {
+      setListUrl(taskLists[0].url);
+    }
+  }, [taskLists, listUrl]);
+
+  const taskList = taskLists.find(list => list.url === listUrl);
+  const listTasks = tasks.filter(task => task.calendarUrl === listUrl);
+  const visibleTasks = showCompleted ? listTasks : listTasks.filter(task => !isTaskCompleted(task));
+  const completedCount = listTasks.length - listTasks.filter(task => !isTaskCompleted(task)).length;
+
+  const handleCreate = async (fields: TaskFields, relatedTo?: string) => {
+    if (!taskList) return;
+    await onCreate(taskList, { uid: '', ...fields, status: 'NEEDS-ACTION', relatedTo });
+    setAddingSubtaskTo(null);
+  };
+
+  const handleUpdate = async (task: Task, fields: TaskFields) => {
+    const percentComplete = fields.percentComplete ?? task.percentComplete;
+    // Progress below 100% reopens a completed task; 100% completes it
+    const status = percentComplete === 100
+      ? 'COMPLETED'
+      : task.status === 'COMPLETED' || percentComplete ? 'IN-PROCESS' : task.status;
+    await onUpdate({
+      ...task,
+      ...fields,
+      status,
+      completed: status === 'COMPLETED' ? task.completed || new Date() : undefined,
+    });
+    setEditingUid(null);
+  };
+
+  const renderTasks = (siblings: Task[]): React.ReactNode => (
+    <ul className="task-list-items">
+      {siblings.map((task, index) => {
+        const subtasks = getChildTasks(visibleTasks, task.uid);
+        const priorityLabel = getPriorityLabel(task.priority);
+        return (
+          <li key={task.uid} className={`task-list-item${isTaskCompleted(task) ? ' completed' : ''}`}>
+            {editingUid === task.uid ? (
+              <TaskEditor
+                task={task}
+                submitLabel="Save"
+                onSave={(fields) => handleUpdate(task, fields)}
+                onCancel={() => setEditingUid(null)}
+              />
+            ) : (
+              <div className="task-row">
+                <input
+                  type="checkbox"
+                  checked={task.status === 'COMPLETED'}
+                  onChange={() => onToggle(task)}
+                  aria-label={`Complete ${task.summary}`}
+                />
+                <button
+                  type="button"
+                  className="task-summary"
+                  onClick={() => setEditingUid(task.uid)}
+                  title="Edit task"
+                >
+                  {task.summary || 'Untitled task'}
+                </button>
+                <span className="task-details">
+                  {priorityLabel && (
+                    <span className={`task-priority priority-${priorityLabel.toLowerCase()}`}>
+                      {priorityLabel}
+                    </span>
+                  )}
+                  {task.due && <span className="task-due">{formatDue(task)}</span>}
+                  {!!task.percentComplete && task.percentComplete < 100 && (
+                    <span className="task-progress">{task.percentComplete}%</span>
+                  )}
+                </span>
+                <span className="task-actions">
+                  <button
+                    type="button"
+                    className="task-icon-button"
+                    onClick={() => onMove(siblings, task, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${task.summary} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    className="task-icon-button"
+                    onClick={() => onMove(siblings, task, 1)}
+                    disabled={index === siblings.length - 1}
+                    aria-label={`Move ${task.summary} down`}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    className="task-icon-button"
+                    onClick={() => setAddingSubtaskTo(task.uid)}
+                    aria-label={`Add subtask to ${task.summary}`}
+                  >
+                    +
+                  </button>
+                  <button
+                    type="button"
+                    className="task-icon-button task-delete"
+                    onClick={() => onDelete(task)}
+                    aria-label={`Delete ${task.summary}`}
+                  >
+                    ×
+                  </button>
+                </span>
+              </div>
+            )}
+            {addingSubtaskTo === task.uid && (
+              <TaskEditor
+                submitLabel="Add subtask"
+                placeholder="Subtask"
+                onSave={(fields) => handleCreate(fields, task.uid)}
+                onCancel={() => setAddingSubtaskTo(null)}
+              />
+            )}
+            {subtasks.length > 0 && renderTasks(subtasks)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  const topLevelTasks = getChildTasks(visibleTasks);
+
+  return (
+    <div className="task-list">
+      <div className="task-list-header">
+        <h2 className="task-list-title">Tasks</h2>
+        {taskLists.length > 1 && (
+          <select
+            className="task-list-select"
+            value={listUrl}
+            onChange={(e) => setListUrl(e.target.value)}
+            aria-label="Task list"
+          >
+            {taskLists.map(list => (
+              <option key={list.url} value={list.url}>{list.displayName}</option>
+            ))}
+          </select>
+        )}
+        <label className="task-list-show-completed">
+          <input
+            type="checkbox"
+            checked={showCompleted}
+            onChange={(e) => setShowCompleted(e.target.checked)}
+          />
+          Show completed ({completedCount})
+        </label>
+        <button type="button" className="task-button" onClick={onRefresh}>
+          Refresh
+        </button>
+      </div>
+
+      {!taskList ? (
+        <div className="task-list-empty">
+          <p>None of your calendars holds tasks.</p>
+        </div>
+      ) : (
+        <>
+          <TaskEditor submitLabel="Add" placeholder="Add a task" onSave={(fields) => handleCreate(fields)} />
+          {topLevelTasks.length === 0 ? (
+            <div className="task-list-empty">
+              <p>{listTasks.length === 0 ? 'No tasks yet.' : 'All tasks are completed.'}</p>
+            </div>
+          ) : (
+            renderTasks(topLevelTasks)
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { TaskList } from './TaskList';
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Calendar, Task } from '../types/dav';
+import { TaskList } from './Task';
+
+interface TasksComponentProps {
+  taskLists: Calendar[];
+  tasks: Task[];
+  onRefresh: () => void;
+  onCreateTask: (calendar: Calendar, task: Task) => Promise<void>;
+  onUpdateTask: (task: Task) => Promise<void>;
+  onToggleTask: (task: Task) => Promise<void>;
+  onMoveTask: (siblings: Task[], task: Task, direction: -1 | 1) => Promise<void>;
+  onDeleteTask: (task: Task) => Promise<void>;
+}
+
+export const TasksComponent: React.FC<TasksComponentProps> = ({
+  taskLists,
+  tasks,
+  onRefresh,
+  onCreateTask,
+  onUpdateTask,
+  onToggleTask,
+  onMoveTask,
+  onDeleteTask,
+}) => {
+  return (
+    <div className="view-container">
+      <TaskList
+        taskLists={taskLists}
+        tasks={tasks}
+        onRefresh={onRefresh}
+        onCreate={onCreateTask}
+        onUpdate={onUpdateTask}
+        onToggle={onToggleTask}
+        onMove={onMoveTask}
+        onDelete={onDeleteTask}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Modal } from './Modal';
+import { SyncConflict } from '../../services/CacheService';
+import { CalendarEvent, Contact } from '../../types/dav';
+import {
+  ConflictChoice,
+  getChangedFields,
+  mergeConflict
+} from '../../utils/conflicts';
+import './ConflictDialog.css';
+
+interface ConflictDialogProps {
+  conflicts: SyncConflict[];
+  onResolve: (
+    conflict: SyncConflict,
+    choice: 'local' | 'server' | 'merged',
+    merged?: CalendarEvent | Contact
+  ) => Promise<void>;
+}
+
+const getResourceName = (conflict: SyncConflict): string => {
+  const resource = conflict.server || conflict.local;
+  const name = conflict.resourceType === 'event'
+    ? (resource as CalendarEvent).summary
+    : (resource as Contact).fn;
+  return name || (conflict.resourceType === 'event' ? 'Untitled event' : 'Unnamed contact');
+};
+
+// One sentence explaining what the server rejected
+const describeConflict = (conflict: SyncConflict): string => {
+  const name = `"${getResourceName(conflict)}"`;
+  if (conflict.type === 'create') {
+    return `${name} already exists on the server.`;
+  }
+  if (!conflict.server) {
+    return `${name} was deleted on the server while you were editing it.`;
+  }
+  if (conflict.type === 'delete') {
+    return `${name} was changed on the server after you deleted it.`;
+  }
+  return `${name} was changed on the server while you were editing it.`;
+};
+
+/**
+ * Shows write conflicts one at a time and lets the user keep their version,
+ * the server version, or pick each field
+ */
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({ conflicts, onResolve }) => {
+  const [dismissedIds, setDismissedIds] = useState<Set<string>>(new Set());
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [isResolving, setIsResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pending = conflicts.filter(conflict => !dismissedIds.has(conflict.id));
+  const conflict = pending[0];
+  const changedFields = useMemo(
+    () => (conflict ? getChangedFields(conflict) : []),
+    [conflict]
+  );
+  const canMerge = !!conflict?.server && conflict.type !== 'delete' && changedFields.length > 1;
+
+  // Start each conflict from the user's own version
+  useEffect(() => {
+    setChoices({});
+    setError(null);
+  }, [conflict?.id]);
+
+  if (!conflict) {
+    return null;
+  }
+
+  const getChoice = (fieldId: string): ConflictChoice => choices[fieldId] || 'local';
+
+  const handleResolve = async (choice: 'local' | 'server' | 'merged') => {
+    setIsResolving(true);
+    setError(null);
+    try {
+      const merged = choice === 'merged'
+        ? mergeConflict(
+            conflict,
+            Object.fromEntries(changedFields.map(field => [field.id, getChoice(field.id)]))
+          )
+        : undefined;
+      await onResolve(conflict, choice, merged);
+    } catch (resolveError) {
+      console.error('Failed to resolve conflict:', resolveError);
+      setError(resolveError instanceof Error ? resolveError.message : 'Failed to resolve the conflict');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleClose = () => {
+    setDismissedIds(prev => new Set(prev).add(conflict.id));
+  };
+
+  return (
+    <Modal
+      isOpen={true}
+      onClose={handleClose}
+      title={pending.length > 1 ? `Sync conflict (1 of ${pending.length})` : 'Sync conflict'}
+      size="large"
+    >
+      <div className="conflict-dialog">
+        <p className="conflict-description">{describeConflict(conflict)}</p>
+
+        {changedFields.length > 0 && (
+          <table className="conflict-fields">
+            <thead>
+              <tr>
+                <th scope="col">Field</th>
+                <th scope="col">{conflict.type === 'delete' ? 'Deleted version' : 'Your version'}</th>
+                <th scope="col">Server version</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changedFields.map(field => (
+                <tr key={field.id}>
+                  <th scope="row">{field.label}</th>
+                  {(['local', 'server'] as ConflictChoice[]).map(side => {
+                    const resource = side === 'local' ? conflict.local : conflict.server;
+                    const value = field[side];
+                    return (
+                      <td
+                        key={side}
+                        className={canMerge && getChoice(field.id) === side ? 'conflict-value selected' : 'conflict-value'}
+                      >
+                        {canMerge ? (
+                          <label>
+                            <input
+                              type="radio"
+                              name={`conflict-${field.id}`}
+                              checked={getChoice(field.id) === side}
+                              onChange={() => setChoices(prev => ({ ...prev, [field.id]: side }))}
+                            />
+                            <span>{value || <em>(empty)</em>}</span>
+                          </label>
+                        ) : (
+                          <span>{value || <em>{resource ? '(empty)' : '(deleted)'}</em>}</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {error && (
+          <div className="conflict-error" role="alert">
+            {error}
+          </div>
+        )}
+
+        <div className="conflict-actions">
+          <button
+            type="button"
+            className="conflict-button"
+            onClick={() => handleResolve('server')}
+            disabled={isResolving}
+          >
+            Keep theirs
+          </button>
+          {canMerge && (
+            <button
+              type="button"
+              className="conflict-button"
+              onClick={() => handleResolve('merged')}
+              disabled={isResolving}
+            >
+              Merge selected
+            </button>
+          )}
+          <button
+            type="button"
+            className="conflict-button primary"
+            onClick={() => handleResolve('local')}
+            disabled={isResolving}
+          >
+            Keep mine
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -45,7 +45,7 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({
       <div className="error-actions">
         {error.retryAction && onRetry && (
           <button className="retry-button" onClick={handleRetry}>
-            Retry
+            {error.actionLabel || 'Retry'}
           </button>
         )}
         <button className="dismiss-button" onClick={handleDismiss}>
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { SyncApi } from '../../services/SyncService';
+import { PendingOperation } from '../../services/CacheService';
+import { AddressBook, Calendar, CalendarEvent, Contact, Task } from '../../types/dav';
+import './PendingChangesPanel.css';
+
+interface PendingChangesPanelProps {
+  syncService: SyncApi;
+  operations: PendingOperation[];
+  isOnline: boolean;
+}
+
+const ACTION_LABELS: Record<PendingOperation['type'], string> = {
+  create: 'Create',
+  update: 'Update',
+  delete: 'Delete',
+  move: 'Move',
+  copy: 'Copy'
+};
+
+const RESOURCE_LABELS: Record<PendingOperation['resourceType'], string> = {
+  event: 'event',
+  contact: 'contact',
+  task: 'task',
+  calendar: 'calendar',
+  addressbook: 'address book'
+};
+
+const getResourceName = (operation: PendingOperation): string => {
+  switch (operation.resourceType) {
+    case 'event':
+      return (operation.data as CalendarEvent).summary || 'Untitled event';
+    case 'contact':
+      return (operation.data as Contact).fn || 'Unnamed contact';
+    case 'task':
+      return (operation.data as Task).summary || 'Untitled task';
+    default:
+      return (operation.data as Calendar | AddressBook).displayName || operation.resourceUrl;
+  }
+};
+
+// What happens next with the change, or why it stopped
+const describeStatus = (operation: PendingOperation, isOnline: boolean): string => {
+  if (operation.status === 'failed') {
+    return `Failed after ${operation.attempts} ${operation.attempts === 1 ? 'attempt' : 'attempts'}`;
+  }
+  if (!isOnline) {
+    return 'Waiting for connection';
+  }
+  if (operation.nextAttemptAt && operation.nextAttemptAt.getTime() > Date.now()) {
+    return `Retrying at ${operation.nextAttemptAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  }
+  return 'Waiting to sync';
+};
+
+/**
+ * Lists the changes waiting to be written to the server and lets the user
+ * retry or discard each one
+ */
+export const PendingChangesPanel: React.FC<PendingChangesPanelProps> = ({
+  syncService,
+  operations,
+  isOnline
+}) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (operations.length === 0) {
+    return <p className="pending-changes-empty">All changes have been synced.</p>;
+  }
+
+  const handleRetry = async (operation: PendingOperation) => {
+    setBusyId(operation.id);
+    try {
+      await syncService.retryPendingOperation(operation.id);
+    } catch (error) {
+      console.error('Failed to retry pending change:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (operation: PendingOperation) => {
+    if (!window.confirm(`Discard this change to "${getResourceName(operation)}"? It will not be sent to the server.`)) {
+      return;
+    }
+
+    setBusyId(operation.id);
+    try {
+      await syncService.discardPendingOperation(operation.id);
+    } catch (error) {
+      console.error('Failed to discard pending change:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <ul className="pending-changes-list">
+      {operations.map(operation => (
+        <li
+          key={operation.id}
+          className={`pending-change ${operation.status === 'failed' ? 'failed' : ''}`}
+        >
+          <div className="pending-change-details">
+            <span className="pending-change-title">
+              {ACTION_LABELS[operation.type]} {RESOURCE_LABELS[operation.resourceType]}{' '}
+              <strong>{getResourceName(operation)}</strong>
+            </span>
+            <span className="pending-change-status">{describeStatus(operation, isOnline)}</span>
+            {operation.lastError && (
+              <span className="pending-change-error">{operation.lastError}</span>
+            )}
+          </div>
+          <div className="pending-change-actions">
+            <button
+              type="button"
+              className="pending-change-button"
+              onClick={() => handleRetry(operation)}
+              disabled={!isOnline || busyId !== null}
+            >
+              Retry
+            </button>
+            <button
+              type="button"
+              className="pending-change-button danger"
+              onClick={() => handleDiscard(operation)}
+              disabled={busyId !== null}
+            >
+              Discard
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
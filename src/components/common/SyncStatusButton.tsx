@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { SyncService, SyncStatus } from '../../services/SyncService';
+import { SyncApi, SyncStatus } from '../../services/SyncService';
 import { Modal } from './Modal';
+import { PendingChangesPanel } from './PendingChangesPanel';
 import './SyncStatusButton.css';
 
 interface SyncStatusButtonProps {
-  syncService: SyncService;
+  syncService: SyncApi;
   onManualSync?: () => void;
   iconOnly?: boolean;
 }
@@ -16,6 +17,7 @@ export const SyncStatusButton: React.FC<SyncStatusButtonProps> = ({
 }) => {
   const [syncStatus, setSyncStatus] = useState<SyncStatus>(syncService.getSyncStatus());
   const [showModal, setShowModal] = useState(false);
+  const [showPendingChanges, setShowPendingChanges] = useState(false);
 
   useEffect(() => {
     const handleSyncStatusChange = (status: SyncStatus) => {
@@ -51,8 +53,8 @@ export const SyncStatusButton: React.FC<SyncStatusButtonProps> = ({
   const handleClearCache = () => {
     if (window.confirm('Clear all cached data? This will remove pending operations and force a fresh sync.')) {
       // Import CacheService dynamically to clear cache
-      import('../../services/CacheService').then(({ CacheService }) => {
-        CacheService.clearCache();
+      import('../../services/CacheService').then(async ({ CacheService }) => {
+        await CacheService.clearCache();
         // Force a refresh of the sync status
         setSyncStatus(syncService.getSyncStatus());
       });
@@ -98,6 +100,32 @@ export const SyncStatusButton: React.FC<SyncStatusButtonProps> = ({
     return 'Synced';
   };
 
+  const handleReviewPendingChanges = () => {
+    setShowModal(false);
+    setShowPendingChanges(true);
+  };
+
+  const getPendingText = (): string => {
+    const failed = syncStatus.pendingOperations.filter(op => op.status === 'failed').length;
+    const text = `${syncStatus.pendingOperations.length} operations`;
+    return failed > 0 ? `${text} (${failed} failed)` : text;
+  };
+
+  const pendingChangesModal = (
+    <Modal
+      isOpen={showPendingChanges}
+      onClose={() => setShowPendingChanges(false)}
+      title="Pending changes"
+      size="medium"
+    >
+      <PendingChangesPanel
+        syncService={syncService}
+        operations={syncStatus.pendingOperations}
+        isOnline={syncStatus.isOnline}
+      />
+    </Modal>
+  );
+
   const getStatusClass = (): string => {
     if (syncStatus.syncInProgress) return 'sync-status-syncing';
     if (!syncStatus.isOnline) return 'sync-status-offline';
@@ -142,7 +170,7 @@ export const SyncStatusButton: React.FC<SyncStatusButtonProps> = ({
                 <div className="sync-info-row">
                   <span className="sync-info-label">Pending:</span>
                   <span className="sync-info-value sync-pending">
-                    {syncStatus.pendingOperations.length} operations
+                    {getPendingText()}
                   </span>
                 </div>
               )}
@@ -168,29 +196,18 @@ export const SyncStatusButton: React.FC<SyncStatusButtonProps> = ({
 
             {syncStatus.pendingOperations.length > 0 && (
               <div className="sync-pending-operations">
-                <h4>Pending Operations:</h4>
-                <ul className="pending-operations-list">
-                  {syncStatus.pendingOperations.slice(0, 5).map(operation => (
-                    <li key={operation.id} className="pending-operation-item">
-                      <span className="operation-type">{operation.type}</span>
-                      <span className="operation-resource">{operation.resourceType}</span>
-                      <span className="operation-time">
-                        {formatLastSync(operation.timestamp)}
-                      </span>
-                    </li>
-                  ))}
-                  {syncStatus.pendingOperations.length > 5 && (
-                    <li className="pending-operation-item">
-                      <span className="operation-more">
-                        +{syncStatus.pendingOperations.length - 5} more...
-                      </span>
-                    </li>
-                  )}
-                </ul>
+                <button
+                  className="sync-action-button sync-review-button"
+                  onClick={handleReviewPendingChanges}
+                >
+                  Review pending changes
+                </button>
               </div>
             )}
           </div>
         </Modal>
+
+        {pendingChangesModal}
       </>
     );
   }
@@ -232,7 +249,7 @@ export const SyncStatusButton: React.FC<SyncStatusButtonProps> = ({
               <div className="sync-info-row">
                 <span className="sync-info-label">Pending:</span>
                 <span className="sync-info-value sync-pending">
-                  {syncStatus.pendingOperations.length} operations
+                  {getPendingText()}
                 </span>
               </div>
             )}
@@ -258,29 +275,18 @@ export const SyncStatusButton: React.FC<SyncStatusButtonProps> = ({
 
           {syncStatus.pendingOperations.length > 0 && (
             <div className="sync-pending-operations">
-              <h4>Pending Operations:</h4>
-              <ul className="pending-operations-list">
-                {syncStatus.pendingOperations.slice(0, 5).map(operation => (
-                  <li key={operation.id} className="pending-operation-item">
-                    <span className="operation-type">{operation.type}</span>
-                    <span className="operation-resource">{operation.resourceType}</span>
-                    <span className="operation-time">
-                      {formatLastSync(operation.timestamp)}
-                    </span>
-                  </li>
-                ))}
-                {syncStatus.pendingOperations.length > 5 && (
-                  <li className="pending-operation-item">
-                    <span className="operation-more">
-                      +{syncStatus.pendingOperations.length - 5} more...
-                    </span>
-                  </li>
-                )}
-              </ul>
+              <button
+                className="sync-action-button sync-review-button"
+                onClick={handleReviewPendingChanges}
+              >
+                Review pending changes
+              </button>
             </div>
           )}
         </div>
       </Modal>
+
+      {pendingChangesModal}
     </>
   );
 };
\ No newline at end of file
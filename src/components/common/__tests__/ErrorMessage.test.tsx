@@ -70,6 +70,20 @@ describe('ErrorMessage Component', () => {
     expect(mockRetry).toHaveBeenCalledWith('test-error-2');
   });
 
+  test('labels the action button with the action label', () => {
+    render(
+      <ErrorMessage 
+        error={{ ...mockErrorWithRetry, actionLabel: 'Undo' }} 
+        onDismiss={mockDismiss} 
+        onRetry={mockRetry} 
+      />
+    );
+    
+    fireEvent.click(screen.getByText('Undo'));
+    expect(mockRetry).toHaveBeenCalledWith('test-error-2');
+    expect(screen.queryByText('Retry')).not.toBeInTheDocument();
+  });
+
   test('applies correct CSS class based on error type', () => {
     const { rerender } = render(<ErrorMessage error={mockError} onDismiss={mockDismiss} />);
     
@@ -4,4 +4,5 @@ export { OfflineIndicator } from './OfflineIndicator';
 export { SyncStatusButton } from './SyncStatusButton';
 export { ThemeToggle } from './ThemeToggle';
 export { Modal } from './Modal';
-export { ColorPicker } from './ColorPicker';
\ No newline at end of file
+export { ColorPicker } from './ColorPicker';
+export { ConflictDialog } from './ConflictDialog';export { PendingChangesPanel } from './PendingChangesPanel';
@@ -0,0 +1,95 @@
+import { renderHook, act } from '@testing-library/react';
+import { useCalendarHandlers } from '../useCalendarHandlers';
+import { LoadingProvider } from '../../contexts/LoadingContext';
+import { SyncApi } from '../../services/SyncService';
+import { SchedulingService } from '../../services/SchedulingService';
+import { Calendar, CalendarEvent } from '../../types/dav';
+
+const work: Calendar = { url: '/cal/work/', displayName: 'Work' };
+const home: Calendar = { url: '/cal/home/', displayName: 'Home' };
+
+// Weekly on Mondays from 6 January 2025
+const series: CalendarEvent = {
+  uid: 'weekly',
+  summary: 'Weekly',
+  dtstart: new Date(2025, 0, 6, 9, 0),
+  dtend: new Date(2025, 0, 6, 10, 0),
+  rrule: { freq: 'WEEKLY' },
+  calendarUrl: work.url
+};
+
+const occurrence = (dtstart: Date): CalendarEvent => ({
+  ...series,
+  dtstart,
+  dtend: new Date(dtstart.getTime() + 60 * 60 * 1000),
+  rrule: { freq: 'WEEKLY' },
+  recurrenceId: dtstart,
+  master: series
+});
+
+const renderHandlers = () => {
+  const sync = {
+    updateEvent: jest.fn().mockResolvedValue(undefined),
+    createEvent: jest.fn().mockResolvedValue(undefined),
+    moveEvent: jest.fn().mockResolvedValue(undefined)
+  };
+  const scheduling = { prepareOutgoingEvent: (event: CalendarEvent) => event };
+
+  const { result } = renderHook(
+    () =>
+      useCalendarHandlers({
+        calendars: [work, home],
+        setCalendars: jest.fn(),
+        setVisibleCalendars: jest.fn(),
+        setEvents: jest.fn(),
+        setShowNewCalendarForm: jest.fn(),
+        setShowImportCalendar: jest.fn(),
+        setEditingCalendar: jest.fn(),
+        setShowEventForm: jest.fn(),
+        setEditingEvent: jest.fn(),
+        setSelectedCalendar: jest.fn(),
+        setInitialDate: jest.fn(),
+        setEventDraft: jest.fn(),
+        currentDateRange: null,
+        sync: sync as unknown as SyncApi,
+        scheduling: scheduling as unknown as SchedulingService,
+        loadEvents: jest.fn()
+      }),
+    { wrapper: LoadingProvider }
+  );
+
+  return { handlers: result.current, sync };
+};
+
+describe('useCalendarHandlers', () => {
+  describe('handleEventSave', () => {
+    it('should move the whole series to another calendar', async () => {
+      const { handlers, sync } = renderHandlers();
+
+      await act(() => handlers.handleEventSave(occurrence(new Date(2025, 0, 13, 9, 0)), home, 'all'));
+
+      expect(sync.updateEvent).toHaveBeenCalledWith(work, expect.objectContaining({ uid: 'weekly' }));
+      expect(sync.moveEvent).toHaveBeenCalledWith(work, home, expect.objectContaining({ uid: 'weekly' }));
+    });
+
+    it('should create the following occurrences in the other calendar', async () => {
+      const { handlers, sync } = renderHandlers();
+
+      await act(() => handlers.handleEventSave(occurrence(new Date(2025, 0, 13, 9, 0)), home, 'following'));
+
+      expect(sync.updateEvent).toHaveBeenCalledWith(work, expect.objectContaining({ uid: 'weekly' }));
+      expect(sync.createEvent).toHaveBeenCalledWith(home, expect.objectContaining({ calendarUrl: home.url }));
+      expect(sync.moveEvent).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to move a single occurrence to another calendar', async () => {
+      const { handlers, sync } = renderHandlers();
+
+      await expect(
+        handlers.handleEventSave(occurrence(new Date(2025, 0, 13, 9, 0)), home, 'this')
+      ).rejects.toThrow('A single occurrence cannot be moved to another calendar');
+
+      expect(sync.updateEvent).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { renderHook, act } from '@testing-library/react';
+import { usePersistentSetting } from '../usePersistentSetting';
+
+const isSmallNumber = (value: unknown): value is number => typeof value === 'number' && value < 10;
+
+describe('usePersistentSetting', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should remember the value across sessions', () => {
+    const { result } = renderHook(() => usePersistentSetting('setting', 1, isSmallNumber));
+    act(() => result.current[1](5));
+    expect(result.current[0]).toBe(5);
+
+    const { result: nextSession } = renderHook(() => usePersistentSetting('setting', 1, isSmallNumber));
+    expect(nextSession.current[0]).toBe(5);
+  });
+
+  it('should fall back to the default for invalid stored values', () => {
+    localStorage.setItem('setting', '42');
+
+    const { result } = renderHook(() => usePersistentSetting('setting', 1, isSmallNumber));
+
+    expect(result.current[0]).toBe(1);
+  });
+});
@@ -1,6 +1,6 @@
 import { useCallback } from 'react';
 import { AddressBook } from '../types/dav';
-import { SyncService } from '../services/SyncService';
+import { SyncApi } from '../services/SyncService';
 import { ErrorHandlingService } from '../services/ErrorHandlingService';
 import { AddressBookColorService } from '../services/AddressBookColorService';
 import { useLoading } from '../contexts/LoadingContext';
@@ -10,8 +10,10 @@ interface UseAddressBookHandlersProps {
   setAddressBooks: (addressBooks: AddressBook[] | ((prev: AddressBook[]) => AddressBook[])) => void;
   setVisibleAddressBooks: (addressBooks: Set<string> | ((prev: Set<string>) => Set<string>)) => void;
   setShowNewAddressBookForm: (show: boolean) => void;
+  setShowImportContacts: (show: boolean) => void;
+  setContactRefreshTrigger: (trigger: number | ((prev: number) => number)) => void;
   setEditingAddressBook: (addressBook: AddressBook | null) => void;
-  sync: SyncService;
+  sync: SyncApi;
 }
 
 export const useAddressBookHandlers = ({
@@ -19,6 +21,8 @@ export const useAddressBookHandlers = ({
   setAddressBooks,
   setVisibleAddressBooks,
   setShowNewAddressBookForm,
+  setShowImportContacts,
+  setContactRefreshTrigger,
   setEditingAddressBook,
   sync,
 }: UseAddressBookHandlersProps) => {
@@ -29,18 +33,31 @@ export const useAddressBookHandlers = ({
     setShowNewAddressBookForm(true);
   }, [setShowNewAddressBookForm]);
 
+  const handleImportContacts = useCallback(() => {
+    setShowImportContacts(true);
+  }, [setShowImportContacts]);
+
+  const handleImportContactsClose = useCallback(() => {
+    setShowImportContacts(false);
+  }, [setShowImportContacts]);
+
+  // Reload the contact list so imported and merged contacts show up
+  const handleImportContactsComplete = useCallback(() => {
+    setContactRefreshTrigger((prev) => prev + 1);
+  }, [setContactRefreshTrigger]);
+
   const handleEditAddressBook = useCallback((addressBook: AddressBook) => {
     setEditingAddressBook(addressBook);
   }, [setEditingAddressBook]);
 
   const handleNewAddressBookSave = useCallback(
-    async (displayName: string, description?: string) => {
+    async (displayName: string, description?: string, accountId?: string) => {
       if (!sync) {
         throw new Error("Sync service not available");
       }
 
       try {
-        const newAddressBook = await sync.createAddressBook(displayName, description);
+        const newAddressBook = await sync.createAddressBook(displayName, description, accountId);
 
         setAddressBooks((prev) => {
           const updated = [...prev, newAddressBook];
@@ -177,6 +194,9 @@ export const useAddressBookHandlers = ({
 
   return {
     handleCreateAddressBook,
+    handleImportContacts,
+    handleImportContactsClose,
+    handleImportContactsComplete,
     handleEditAddressBook,
     handleNewAddressBookSave,
     handleNewAddressBookCancel,
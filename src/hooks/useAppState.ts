@@ -1,7 +1,8 @@
 import { useState, useCallback, useRef } from 'react';
-import { Calendar, CalendarEvent, DateRange, AddressBook } from '../types/dav';
+import { Calendar, CalendarEvent, DateRange, AddressBook, EventDraft } from '../types/dav';
 import { AuthConfig } from '../types/auth';
 import { ErrorMessage as ErrorMessageType } from '../services/ErrorHandlingService';
+import type { ViewType } from '../components/Calendar/CalendarView';
 
 export interface AppState {
   // Authentication
@@ -15,26 +16,29 @@ export interface AppState {
   visibleCalendars: Set<string>;
   currentDateRange: DateRange | null;
   calendarCurrentDate: Date;
-  calendarViewType: 'month' | 'week' | 'day';
+  calendarViewType: ViewType;
   
   // Event form state
   showEventForm: boolean;
   editingEvent: CalendarEvent | null;
   selectedCalendar: Calendar | null;
   initialDate?: Date;
+  eventDraft?: EventDraft;
   
   // Calendar management state
   showNewCalendarForm: boolean;
+  showImportCalendar: boolean;
   editingCalendar: Calendar | null;
   
   // Address book state
   addressBooks: AddressBook[];
   visibleAddressBooks: Set<string>;
   showNewAddressBookForm: boolean;
+  showImportContacts: boolean;
   editingAddressBook: AddressBook | null;
   
   // UI state
-  currentView: 'calendar' | 'contacts';
+  currentView: 'calendar' | 'agenda' | 'contacts' | 'tasks' | 'inbox';
   errors: ErrorMessageType[];
   contactRefreshTrigger: number;
 }
@@ -51,28 +55,31 @@ export const useAppState = () => {
   const [visibleCalendars, setVisibleCalendars] = useState<Set<string>>(new Set());
   const [currentDateRange, setCurrentDateRange] = useState<DateRange | null>(null);
   const [calendarCurrentDate, setCalendarCurrentDate] = useState<Date>(new Date());
-  const [calendarViewType, setCalendarViewType] = useState<'month' | 'week' | 'day'>('month');
+  const [calendarViewType, setCalendarViewType] = useState<ViewType>('month');
   
   // Event form state
   const [showEventForm, setShowEventForm] = useState(false);
   const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
   const [selectedCalendar, setSelectedCalendar] = useState<Calendar | null>(null);
   const [initialDate, setInitialDate] = useState<Date | undefined>(undefined);
+  const [eventDraft, setEventDraft] = useState<EventDraft | undefined>(undefined);
   
   // Calendar management state
   const [showNewCalendarForm, setShowNewCalendarForm] = useState(false);
+  const [showImportCalendar, setShowImportCalendar] = useState(false);
   const [editingCalendar, setEditingCalendar] = useState<Calendar | null>(null);
   
   // Address book state
   const [addressBooks, setAddressBooks] = useState<AddressBook[]>([]);
   const [visibleAddressBooks, setVisibleAddressBooks] = useState<Set<string>>(new Set());
   const [showNewAddressBookForm, setShowNewAddressBookForm] = useState(false);
+  const [showImportContacts, setShowImportContacts] = useState(false);
   const [editingAddressBook, setEditingAddressBook] = useState<AddressBook | null>(null);
   
   // UI state
-  const [currentView, setCurrentView] = useState<'calendar' | 'contacts'>('calendar');
+  const [currentView, setCurrentView] = useState<'calendar' | 'agenda' | 'contacts' | 'tasks' | 'inbox'>('calendar');
   const [errors, setErrors] = useState<ErrorMessageType[]>([]);
-  const [contactRefreshTrigger] = useState(0);
+  const [contactRefreshTrigger, setContactRefreshTrigger] = useState(0);
   
   // Refs for optimization
   const lastDateRangeRef = useRef<DateRange | null>(null);
@@ -91,9 +98,12 @@ export const useAppState = () => {
     setEditingEvent(null);
     setSelectedCalendar(null);
     setInitialDate(undefined);
+    setEventDraft(undefined);
     setShowNewCalendarForm(false);
+    setShowImportCalendar(false);
     setEditingCalendar(null);
     setShowNewAddressBookForm(false);
+    setShowImportContacts(false);
     setEditingAddressBook(null);
   }, []);
 
@@ -112,11 +122,14 @@ export const useAppState = () => {
     editingEvent,
     selectedCalendar,
     initialDate,
+    eventDraft,
     showNewCalendarForm,
+    showImportCalendar,
     editingCalendar,
     addressBooks,
     visibleAddressBooks,
     showNewAddressBookForm,
+    showImportContacts,
     editingAddressBook,
     currentView,
     errors,
@@ -141,14 +154,18 @@ export const useAppState = () => {
     setEditingEvent,
     setSelectedCalendar,
     setInitialDate,
+    setEventDraft,
     setShowNewCalendarForm,
+    setShowImportCalendar,
     setEditingCalendar,
     setAddressBooks,
     setVisibleAddressBooks,
     setShowNewAddressBookForm,
+    setShowImportContacts,
     setEditingAddressBook,
     setCurrentView,
     setErrors,
+    setContactRefreshTrigger,
     
     // Actions
     resetState,
@@ -1,24 +1,34 @@
 import { useCallback } from 'react';
-import { Calendar, CalendarEvent, DateRange } from '../types/dav';
-import { SyncService } from '../services/SyncService';
+import { Calendar, CalendarEvent, DateRange, EventDraft, ParticipationStatus } from '../types/dav';
+import { SyncApi } from '../services/SyncService';
+import { SchedulingService } from '../services/SchedulingService';
 import { ErrorHandlingService } from '../services/ErrorHandlingService';
 import { NetworkService } from '../services/NetworkService';
 import { assignDefaultColorsIfMissing } from '../utils/calendarColors';
+import { getBrowserTimeZone } from '../utils/timezones';
+import {
+  RecurrenceScope,
+  applyRecurringEventDelete,
+  applyRecurringEventUpdate,
+} from '../utils/recurrence';
 import { useLoading } from '../contexts/LoadingContext';
 
 interface UseCalendarHandlersProps {
   calendars: Calendar[];
   setCalendars: (calendars: Calendar[] | ((prev: Calendar[]) => Calendar[])) => void;
   setVisibleCalendars: (calendars: Set<string> | ((prev: Set<string>) => Set<string>)) => void;
-  setEvents: (events: CalendarEvent[]) => void;
+  setEvents: (events: CalendarEvent[] | ((prev: CalendarEvent[]) => CalendarEvent[])) => void;
   setShowNewCalendarForm: (show: boolean) => void;
+  setShowImportCalendar: (show: boolean) => void;
   setEditingCalendar: (calendar: Calendar | null) => void;
   setShowEventForm: (show: boolean) => void;
   setEditingEvent: (event: CalendarEvent | null) => void;
   setSelectedCalendar: (calendar: Calendar | null) => void;
   setInitialDate: (date: Date | undefined) => void;
+  setEventDraft: (draft: EventDraft | undefined) => void;
   currentDateRange: DateRange | null;
-  sync: SyncService;
+  sync: SyncApi;
+  scheduling: SchedulingService;
   loadEvents: (dateRange: DateRange) => Promise<void>;
 }
 
@@ -28,13 +38,16 @@ export const useCalendarHandlers = ({
   setVisibleCalendars,
   setEvents,
   setShowNewCalendarForm,
+  setShowImportCalendar,
   setEditingCalendar,
   setShowEventForm,
   setEditingEvent,
   setSelectedCalendar,
   setInitialDate,
+  setEventDraft,
   currentDateRange,
   sync,
+  scheduling,
   loadEvents,
 }: UseCalendarHandlersProps) => {
   const { showLoading, hideLoading } = useLoading();
@@ -44,17 +57,31 @@ export const useCalendarHandlers = ({
     setShowNewCalendarForm(true);
   }, [setShowNewCalendarForm]);
 
+  const handleImportCalendar = useCallback(() => {
+    setShowImportCalendar(true);
+  }, [setShowImportCalendar]);
+
+  const handleImportCalendarClose = useCallback(() => {
+    setShowImportCalendar(false);
+  }, [setShowImportCalendar]);
+
+  const handleImportComplete = useCallback(() => {
+    if (currentDateRange) {
+      loadEvents(currentDateRange);
+    }
+  }, [currentDateRange, loadEvents]);
+
   const handleEditCalendar = useCallback((calendar: Calendar) => {
     console.log('Edit calendar clicked:', calendar.displayName);
     setEditingCalendar(calendar);
   }, [setEditingCalendar]);
 
   const handleNewCalendarSave = useCallback(
-    async (displayName: string, color: string, description?: string) => {
+    async (displayName: string, color: string, description?: string, accountId?: string) => {
       try {
         showLoading("Creating calendar...");
 
-        const newCalendar = await sync.createCalendar(displayName, color, description);
+        const newCalendar = await sync.createCalendar(displayName, color, description, accountId);
 
         setCalendars((prevCalendars) => {
           const updatedCalendars = [...prevCalendars, newCalendar];
@@ -228,13 +255,77 @@ export const useCalendarHandlers = ({
         setEditingEvent(null);
         setShowEventForm(true);
         setInitialDate(date);
+        setEventDraft(undefined);
+      }
+    },
+    [calendars, setSelectedCalendar, setEditingEvent, setShowEventForm, setInitialDate, setEventDraft]
+  );
+
+  // Opens the full event form for a range selected in a calendar view
+  const handleCreateEventFromDraft = useCallback(
+    (draft: EventDraft, calendar: Calendar) => {
+      setSelectedCalendar(calendar);
+      setEditingEvent(null);
+      setShowEventForm(true);
+      setInitialDate(draft.dtstart);
+      setEventDraft(draft);
+    },
+    [setSelectedCalendar, setEditingEvent, setShowEventForm, setInitialDate, setEventDraft]
+  );
+
+  const handleQuickCreateEvent = useCallback(
+    async (draft: EventDraft, calendar: Calendar) => {
+      try {
+        const isOnline = NetworkService.getInstance().isOnline();
+        showLoading(isOnline ? "Creating event..." : "Creating event (offline)...");
+
+        await sync.createEvent(calendar, {
+          ...draft,
+          uid: `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          timezone: draft.allDay ? undefined : getBrowserTimeZone(),
+          calendarUrl: calendar.url,
+        });
+
+        if (currentDateRange) {
+          await loadEvents(currentDateRange);
+        }
+
+        if (!isOnline) {
+          errorService.reportError(
+            "Event created offline. Changes will sync when connection is restored.",
+            "info"
+          );
+        }
+      } catch (error) {
+        console.error("Error creating event:", error);
+        errorService.reportError(
+          `Failed to create event: ${errorService.formatErrorMessage(error)}`,
+          "error"
+        );
+        throw error;
+      } finally {
+        hideLoading();
       }
     },
-    [calendars, setSelectedCalendar, setEditingEvent, setShowEventForm, setInitialDate]
+    [sync, currentDateRange, loadEvents, errorService, showLoading, hideLoading]
   );
 
   const handleEventSave = useCallback(
-    async (eventData: CalendarEvent, calendar: Calendar) => {
+    async (formEventData: CalendarEvent, calendar: Calendar, scope?: RecurrenceScope) => {
+      // Events with attendees are organized by us, so the server sends the invitations
+      const eventData = scheduling.prepareOutgoingEvent(formEventData);
+      const seriesCalendar =
+        calendars.find((cal) => cal.url === eventData.master?.calendarUrl) ||
+        calendar;
+
+      // An exception is stored with its series, so a single occurrence
+      // cannot live in another calendar
+      if (eventData.master && scope === "this" && seriesCalendar.url !== calendar.url) {
+        throw new Error(
+          "A single occurrence cannot be moved to another calendar. Apply the change to all events to move the series."
+        );
+      }
+
       try {
         const networkService = NetworkService.getInstance();
         const isOnline = networkService.isOnline();
@@ -249,7 +340,22 @@ export const useCalendarHandlers = ({
             : "Creating event (offline)..."
         );
 
-        if (eventData.uid) {
+        if (eventData.master && scope) {
+          // Occurrences are written back through their series master. A new
+          // series split off for the following occurrences goes to the
+          // selected calendar; otherwise the whole series moves there.
+          const { update, create } = applyRecurringEventUpdate(eventData, scope);
+
+          await sync.updateEvent(seriesCalendar, update);
+          if (create) {
+            await sync.createEvent(calendar, {
+              ...create,
+              calendarUrl: calendar.url,
+            });
+          } else if (seriesCalendar.url !== calendar.url) {
+            await sync.moveEvent(seriesCalendar, calendar, update);
+          }
+        } else if (eventData.uid) {
           // Check if the calendar has changed
           const originalCalendarUrl = eventData.calendarUrl;
           const newCalendarUrl = calendar.url;
@@ -265,14 +371,12 @@ export const useCalendarHandlers = ({
               (cal) => cal.url === originalCalendarUrl
             );
             if (originalCalendar) {
-              await sync.deleteEvent(originalCalendar, eventData);
+              // MOVE transfers the stored event, so the edits are written first
+              await sync.updateEvent(originalCalendar, eventData);
+              await sync.moveEvent(originalCalendar, calendar, eventData);
+            } else {
+              await sync.createEvent(calendar, { ...eventData, calendarUrl: newCalendarUrl });
             }
-
-            const eventWithNewCalendar = {
-              ...eventData,
-              calendarUrl: newCalendarUrl,
-            };
-            await sync.createEvent(calendar, eventWithNewCalendar);
           } else {
             await sync.updateEvent(calendar, eventData);
           }
@@ -327,11 +431,175 @@ export const useCalendarHandlers = ({
         hideLoading();
       }
     },
-    [calendars, sync, currentDateRange, loadEvents, errorService, showLoading, hideLoading, setShowEventForm, setEditingEvent, setSelectedCalendar, setInitialDate]
+    [calendars, sync, scheduling, currentDateRange, loadEvents, errorService, showLoading, hideLoading, setShowEventForm, setEditingEvent, setSelectedCalendar, setInitialDate]
+  );
+
+  const handleEventCopy = useCallback(
+    async (eventData: CalendarEvent, calendar: Calendar) => {
+      try {
+        showLoading("Copying event...");
+
+        // A new event with the edits, not a COPY of the stored one
+        await sync.createEvent(calendar, {
+          ...eventData,
+          uid: `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          calendarUrl: calendar.url,
+          href: undefined,
+          etag: undefined,
+          raw: undefined,
+        });
+
+        if (currentDateRange) {
+          await loadEvents(currentDateRange);
+        }
+
+        setShowEventForm(false);
+        setEditingEvent(null);
+        setSelectedCalendar(null);
+        setInitialDate(undefined);
+      } catch (error) {
+        console.error("Error copying event:", error);
+        errorService.reportError(
+          `Failed to copy event: ${errorService.formatErrorMessage(error)}`,
+          "error"
+        );
+        throw error;
+      } finally {
+        hideLoading();
+      }
+    },
+    [sync, currentDateRange, loadEvents, errorService, showLoading, hideLoading, setShowEventForm, setEditingEvent, setSelectedCalendar, setInitialDate]
+  );
+
+  // Moves or copies an event dropped on another calendar, the whole series for an occurrence
+  const handleEventTransfer = useCallback(
+    async (event: CalendarEvent, calendar: Calendar, mode: "move" | "copy") => {
+      const originalCalendar = calendars.find((cal) => cal.url === event.calendarUrl);
+      if (!originalCalendar || originalCalendar.url === calendar.url) {
+        return;
+      }
+
+      try {
+        showLoading(mode === "move" ? "Moving event..." : "Copying event...");
+
+        if (mode === "move") {
+          await sync.moveEvent(originalCalendar, calendar, event);
+        } else {
+          await sync.copyEvent(originalCalendar, calendar, event);
+        }
+
+        if (currentDateRange) {
+          await loadEvents(currentDateRange);
+        }
+      } catch (error) {
+        console.error(`Error ${mode === "move" ? "moving" : "copying"} event:`, error);
+        errorService.reportError(
+          `Failed to ${mode} event: ${errorService.formatErrorMessage(error)}`,
+          "error"
+        );
+      } finally {
+        hideLoading();
+      }
+    },
+    [calendars, sync, currentDateRange, loadEvents, errorService, showLoading, hideLoading]
+  );
+
+  // Reschedules an event dragged or resized in a calendar view, offering to undo it
+  const handleEventReschedule = useCallback(
+    async (event: CalendarEvent, dtstart: Date, dtend: Date, scope?: RecurrenceScope) => {
+      // Occurrences are written back through their series master
+      const original = event.master || event;
+      const calendar = calendars.find((cal) => cal.url === original.calendarUrl);
+      if (!calendar) {
+        return;
+      }
+
+      const rescheduled = { ...event, dtstart, dtend };
+      const { update, create } =
+        event.master && scope
+          ? applyRecurringEventUpdate(rescheduled, scope)
+          : { update: rescheduled, create: undefined };
+
+      // Show the new times right away; the reload below brings in the rest of a series
+      setEvents((prev) => prev.map((e) => (e === event ? rescheduled : e)));
+
+      try {
+        const saved = await sync.updateEvent(calendar, update);
+        if (create) {
+          await sync.createEvent(calendar, { ...create, calendarUrl: calendar.url });
+        }
+
+        const undo = async () => {
+          if (create) {
+            await sync.deleteEvent(calendar, create);
+          }
+          await sync.updateEvent(calendar, { ...original, etag: saved.etag });
+          if (currentDateRange) {
+            await loadEvents(currentDateRange);
+          }
+        };
+
+        const day = dtstart.toLocaleDateString("en-US", {
+          weekday: "short",
+          month: "short",
+          day: "numeric",
+        });
+        const formatTime = (date: Date) =>
+          date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+        const when = event.allDay ? day : `${day}, ${formatTime(dtstart)} – ${formatTime(dtend)}`;
+        errorService.reportError(`"${event.summary}" moved to ${when}`, "info", undo, "Undo");
+      } catch (error) {
+        console.error("Error rescheduling event:", error);
+        errorService.reportError(
+          `Failed to reschedule event: ${errorService.formatErrorMessage(error)}`,
+          "error"
+        );
+      } finally {
+        if (currentDateRange) {
+          await loadEvents(currentDateRange);
+        }
+      }
+    },
+    [calendars, sync, currentDateRange, loadEvents, errorService, setEvents]
+  );
+
+  const handleEventRespond = useCallback(
+    async (event: CalendarEvent, partstat: ParticipationStatus) => {
+      // Replies apply to the whole series
+      const target = event.master || event;
+      const calendar = calendars.find((cal) => cal.url === target.calendarUrl);
+      if (!calendar) {
+        throw new Error("Calendar not found for this event");
+      }
+
+      try {
+        showLoading("Sending response...");
+
+        await sync.updateEvent(calendar, scheduling.respondToEvent(target, partstat));
+
+        if (currentDateRange) {
+          await loadEvents(currentDateRange);
+        }
+
+        setShowEventForm(false);
+        setEditingEvent(null);
+        setSelectedCalendar(null);
+      } catch (error) {
+        console.error("Error responding to invitation:", error);
+        errorService.reportError(
+          `Failed to send response: ${errorService.formatErrorMessage(error)}`,
+          "error"
+        );
+        throw error;
+      } finally {
+        hideLoading();
+      }
+    },
+    [calendars, sync, scheduling, currentDateRange, loadEvents, errorService, showLoading, hideLoading, setShowEventForm, setEditingEvent, setSelectedCalendar]
   );
 
   const handleEventDelete = useCallback(
-    async (event: CalendarEvent, calendar: Calendar) => {
+    async (event: CalendarEvent, calendar: Calendar, scope?: RecurrenceScope) => {
       try {
         const networkService = NetworkService.getInstance();
         const isOnline = networkService.isOnline();
@@ -340,7 +608,17 @@ export const useCalendarHandlers = ({
           isOnline ? "Deleting event..." : "Deleting event (offline)..."
         );
 
-        await sync.deleteEvent(calendar, event);
+        if (event.master && scope) {
+          const { update, remove } = applyRecurringEventDelete(event, scope);
+          if (update) {
+            await sync.updateEvent(calendar, update);
+          }
+          if (remove) {
+            await sync.deleteEvent(calendar, remove);
+          }
+        } else {
+          await sync.deleteEvent(calendar, event);
+        }
 
         if (currentDateRange) {
           await loadEvents(currentDateRange);
@@ -396,6 +674,9 @@ export const useCalendarHandlers = ({
 
   return {
     handleCreateCalendar,
+    handleImportCalendar,
+    handleImportCalendarClose,
+    handleImportComplete,
     handleEditCalendar,
     handleNewCalendarSave,
     handleNewCalendarCancel,
@@ -406,7 +687,13 @@ export const useCalendarHandlers = ({
     handleCalendarColorChange,
     handleEventClick,
     handleCreateEvent,
+    handleCreateEventFromDraft,
+    handleQuickCreateEvent,
     handleEventSave,
+    handleEventCopy,
+    handleEventTransfer,
+    handleEventReschedule,
+    handleEventRespond,
     handleEventDelete,
     handleEventFormCancel,
   };
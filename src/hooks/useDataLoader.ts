@@ -1,10 +1,11 @@
 import { useCallback } from 'react';
 import { Calendar, CalendarEvent, DateRange, AddressBook } from '../types/dav';
-import { SyncService } from '../services/SyncService';
-import { CacheService } from '../services/CacheService';
+import { SyncApi } from '../services/SyncService';
 import { NetworkService } from '../services/NetworkService';
 import { ErrorHandlingService } from '../services/ErrorHandlingService';
 import { syncUtils } from '../utils/syncUtils';
+import { expandRecurringEvents } from '../utils/recurrence';
+import { EventDensity, addEventsToDensity } from '../utils/eventDensity';
 import { useSync } from './useSync';
 
 interface UseDataLoaderProps {
@@ -15,7 +16,7 @@ interface UseDataLoaderProps {
   setEvents: (events: CalendarEvent[]) => void;
   calendars: Calendar[];
   pendingDateRangeRef: React.MutableRefObject<DateRange | null>;
-  syncService: SyncService;
+  syncService: SyncApi;
 }
 
 export const useDataLoader = ({
@@ -43,8 +44,8 @@ export const useDataLoader = ({
     } catch (error) {
       console.error("Error loading calendars and address books:", error);
       
-      const cachedCalendars = CacheService.getCachedCalendars();
-      const cachedAddressBooks = CacheService.getCachedAddressBooks();
+      const cachedCalendars = await syncService.getCachedCalendars();
+      const cachedAddressBooks = await syncService.getCachedAddressBooks();
 
       if (cachedCalendars.length === 0 && cachedAddressBooks.length === 0) {
         errorService.reportError(
@@ -73,7 +74,7 @@ export const useDataLoader = ({
         for (const calendar of calendars) {
           try {
             const calendarEvents = await sync.getEvents(calendar, dateRange);
-            allEvents.push(...calendarEvents);
+            allEvents.push(...expandRecurringEvents(calendarEvents, dateRange));
           } catch (error) {
             console.error(
               `Error loading events from calendar ${calendar.displayName}:`,
@@ -102,8 +103,79 @@ export const useDataLoader = ({
     [calendars, sync, errorService, setEvents, pendingDateRangeRef]
   );
 
+  // Counts the events of each day, for overviews spanning too many months to
+  // keep every event in memory. Each calendar is fetched once for the whole range.
+  const loadEventDensity = useCallback(
+    async (dateRange: DateRange): Promise<EventDensity> => {
+      const density: EventDensity = {};
+      const failedCalendars: string[] = [];
+
+      for (const calendar of calendars) {
+        try {
+          const calendarEvents = await syncService.getEvents(calendar, dateRange);
+          addEventsToDensity(
+            density,
+            expandRecurringEvents(calendarEvents, dateRange),
+            dateRange,
+            calendar.url
+          );
+        } catch (error) {
+          console.error(
+            `Error loading events from calendar ${calendar.displayName}:`,
+            error
+          );
+          failedCalendars.push(calendar.displayName);
+        }
+      }
+
+      if (failedCalendars.length > 0 && NetworkService.getInstance().isOnline()) {
+        errorService.reportError(
+          `Failed to load events from ${failedCalendars.join(", ")}.`,
+          "warning"
+        );
+      }
+
+      return density;
+    },
+    [calendars, syncService, errorService]
+  );
+
+  // Returns the events of a range instead of replacing the loaded events, so
+  // the agenda can add window after window as it scrolls
+  const loadEventsInRange = useCallback(
+    async (dateRange: DateRange): Promise<CalendarEvent[]> => {
+      const rangeEvents: CalendarEvent[] = [];
+      const failedCalendars: string[] = [];
+
+      for (const calendar of calendars) {
+        try {
+          const calendarEvents = await syncService.getEvents(calendar, dateRange);
+          rangeEvents.push(...expandRecurringEvents(calendarEvents, dateRange));
+        } catch (error) {
+          console.error(
+            `Error loading events from calendar ${calendar.displayName}:`,
+            error
+          );
+          failedCalendars.push(calendar.displayName);
+        }
+      }
+
+      if (failedCalendars.length > 0 && NetworkService.getInstance().isOnline()) {
+        errorService.reportError(
+          `Failed to load events from ${failedCalendars.join(", ")}.`,
+          "warning"
+        );
+      }
+
+      return rangeEvents;
+    },
+    [calendars, syncService, errorService]
+  );
+
   return {
     loadCalendarsAndAddressBooks,
     loadEvents,
+    loadEventDensity,
+    loadEventsInRange,
   };
 };
\ No newline at end of file
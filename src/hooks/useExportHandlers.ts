@@ -0,0 +1,62 @@
+import { useCallback } from 'react';
+import { AddressBook, Calendar } from '../types/dav';
+import { ExportFile, ExportService } from '../services/ExportService';
+import { ErrorHandlingService } from '../services/ErrorHandlingService';
+import { downloadFile } from '../utils/download';
+import { useLoading } from '../contexts/LoadingContext';
+
+interface UseExportHandlersProps {
+  exporter: ExportService;
+  // Collections of all accounts, exported together
+  calendars: Calendar[];
+  addressBooks: AddressBook[];
+}
+
+export const useExportHandlers = ({ exporter, calendars, addressBooks }: UseExportHandlersProps) => {
+  const { showLoading, hideLoading } = useLoading();
+  const errorService = ErrorHandlingService.getInstance();
+
+  const runExport = useCallback(
+    async (loadingText: string, createFile: () => Promise<ExportFile>) => {
+      try {
+        showLoading(loadingText);
+        downloadFile(await createFile());
+      } catch (error) {
+        console.error("Failed to export:", error);
+        errorService.reportError(
+          `Export failed: ${errorService.formatErrorMessage(error)}`,
+          "error"
+        );
+      } finally {
+        hideLoading();
+      }
+    },
+    [errorService, showLoading, hideLoading]
+  );
+
+  const handleExportCalendar = useCallback(
+    (calendar: Calendar) =>
+      runExport(`Exporting ${calendar.displayName}...`, () => exporter.exportCalendar(calendar)),
+    [exporter, runExport]
+  );
+
+  const handleExportAddressBook = useCallback(
+    (addressBook: AddressBook) =>
+      runExport(`Exporting ${addressBook.displayName}...`, () => exporter.exportAddressBook(addressBook)),
+    [exporter, runExport]
+  );
+
+  const handleExportAccount = useCallback(
+    () =>
+      runExport("Exporting all calendars and contacts...", () =>
+        exporter.exportAccount({ calendars, addressBooks })
+      ),
+    [exporter, runExport, calendars, addressBooks]
+  );
+
+  return {
+    handleExportCalendar,
+    handleExportAddressBook,
+    handleExportAccount,
+  };
+};
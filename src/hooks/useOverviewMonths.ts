@@ -0,0 +1,19 @@
+import { usePersistentSetting } from './usePersistentSetting';
+
+export const OVERVIEW_MONTH_OPTIONS = [3, 6];
+
+const isOverviewMonths = (value: unknown): value is number =>
+  typeof value === 'number' && OVERVIEW_MONTH_OPTIONS.includes(value);
+
+/**
+ * Number of months shown by the multi-month overview
+ */
+export const useOverviewMonths = () => {
+  const [overviewMonths, setOverviewMonths] = usePersistentSetting(
+    'overviewMonths',
+    OVERVIEW_MONTH_OPTIONS[0],
+    isOverviewMonths
+  );
+
+  return { overviewMonths, setOverviewMonths };
+};
@@ -0,0 +1,37 @@
+import { useState, useCallback } from 'react';
+
+/**
+ * Setting remembered across sessions, stored as JSON in localStorage.
+ * Stored values that fail `validate` (e.g. from an older version) give the default.
+ */
+export const usePersistentSetting = <T>(
+  key: string,
+  defaultValue: T,
+  validate: (value: unknown) => value is T
+): [T, (value: T) => void] => {
+  const [value, setValueState] = useState<T>(() => {
+    try {
+      const savedValue = localStorage.getItem(key);
+      if (savedValue !== null) {
+        const parsed: unknown = JSON.parse(savedValue);
+        if (validate(parsed)) {
+          return parsed;
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to load setting ${key}:`, error);
+    }
+    return defaultValue;
+  });
+
+  const setValue = useCallback((newValue: T) => {
+    setValueState(newValue);
+    try {
+      localStorage.setItem(key, JSON.stringify(newValue));
+    } catch (error) {
+      console.error(`Failed to store setting ${key}:`, error);
+    }
+  }, [key]);
+
+  return [value, setValue];
+};
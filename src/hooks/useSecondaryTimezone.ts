@@ -0,0 +1,18 @@
+import { isValidTimeZone } from '../utils/timezones';
+import { usePersistentSetting } from './usePersistentSetting';
+
+const isTimeZoneSetting = (value: unknown): value is string | null =>
+  value === null || (typeof value === 'string' && isValidTimeZone(value));
+
+/**
+ * Optional second time zone shown next to the time labels
+ */
+export const useSecondaryTimezone = () => {
+  const [secondaryTimezone, setSecondaryTimezone] = usePersistentSetting<string | null>(
+    'secondaryTimezone',
+    null,
+    isTimeZoneSetting
+  );
+
+  return { secondaryTimezone, setSecondaryTimezone };
+};
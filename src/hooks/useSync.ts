@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { SyncService, SyncStatus, SyncResult, SyncOptions } from '../services/SyncService';
+import { SyncApi, SyncStatus, SyncResult, SyncOptions } from '../services/SyncService';
 import { Calendar, AddressBook, CalendarEvent, Contact, DateRange } from '../types/dav';
 
 export interface UseSyncReturn {
@@ -32,7 +32,7 @@ export interface UseSyncReturn {
 /**
  * React hook for managing synchronization state and operations
  */
-export const useSync = (syncService: SyncService): UseSyncReturn => {
+export const useSync = (syncService: SyncApi): UseSyncReturn => {
   const [syncStatus, setSyncStatus] = useState<SyncStatus>(syncService.getSyncStatus());
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
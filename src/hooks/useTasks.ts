@@ -0,0 +1,124 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Calendar, Task } from '../types/dav';
+import { SyncApi } from '../services/SyncService';
+import { ErrorHandlingService } from '../services/ErrorHandlingService';
+import { isTaskList, moveTask, setTaskCompleted } from '../utils/tasks';
+
+interface UseTasksProps {
+  calendars: Calendar[];
+  sync: SyncApi;
+}
+
+/**
+ * Tasks of every task list, with the operations of the Tasks view. Changes
+ * show up right away and go to the server through the sync service.
+ */
+export const useTasks = ({ calendars, sync }: UseTasksProps) => {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const errorService = ErrorHandlingService.getInstance();
+
+  const taskLists = useMemo(() => calendars.filter(isTaskList), [calendars]);
+
+  const loadTasks = useCallback(async () => {
+    try {
+      const lists = await Promise.all(taskLists.map(calendar => sync.getTasks(calendar)));
+      setTasks(lists.flat());
+    } catch (error) {
+      console.error('Failed to load tasks:', error);
+      errorService.reportError(`Failed to load tasks: ${errorService.formatErrorMessage(error)}`);
+    }
+  }, [taskLists, sync, errorService]);
+
+  const getTaskList = useCallback(
+    (task: Task): Calendar =>
+      calendars.find(calendar => calendar.url === task.calendarUrl) || {
+        url: task.calendarUrl || '',
+        displayName: '',
+      },
+    [calendars]
+  );
+
+  const replaceTask = useCallback((saved: Task) => {
+    setTasks(prev => [...prev.filter(task => task.uid !== saved.uid), saved]);
+  }, []);
+
+  // Conflicts and other failures reload the lists so they match the server
+  const reportTaskError = useCallback(
+    async (action: string, error: unknown) => {
+      console.error(`Failed to ${action}:`, error);
+      errorService.reportError(`Failed to ${action}: ${errorService.formatErrorMessage(error)}`);
+      await loadTasks();
+    },
+    [errorService, loadTasks]
+  );
+
+  const createTask = useCallback(
+    async (calendar: Calendar, task: Task) => {
+      const newTask: Task = {
+        ...task,
+        uid: task.uid || `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        calendarUrl: calendar.url,
+      };
+      replaceTask(newTask);
+      try {
+        replaceTask(await sync.createTask(calendar, newTask));
+      } catch (error) {
+        await reportTaskError('create task', error);
+      }
+    },
+    [sync, replaceTask, reportTaskError]
+  );
+
+  const updateTask = useCallback(
+    async (task: Task) => {
+      replaceTask(task);
+      try {
+        replaceTask(await sync.updateTask(getTaskList(task), task));
+      } catch (error) {
+        await reportTaskError('update task', error);
+      }
+    },
+    [sync, getTaskList, replaceTask, reportTaskError]
+  );
+
+  const deleteTask = useCallback(
+    async (task: Task) => {
+      // Subtasks are deleted with their parent
+      const removed = tasks.filter(item => item.uid === task.uid || item.relatedTo === task.uid);
+      setTasks(prev => prev.filter(item => removed.indexOf(item) < 0));
+      try {
+        for (const item of removed) {
+          await sync.deleteTask(getTaskList(item), item);
+        }
+      } catch (error) {
+        await reportTaskError('delete task', error);
+      }
+    },
+    [tasks, sync, getTaskList, reportTaskError]
+  );
+
+  const toggleTaskCompleted = useCallback(
+    (task: Task) => updateTask(setTaskCompleted(task, task.status !== 'COMPLETED')),
+    [updateTask]
+  );
+
+  const reorderTask = useCallback(
+    async (siblings: Task[], task: Task, direction: -1 | 1) => {
+      for (const moved of moveTask(siblings, task.uid, direction)) {
+        await updateTask(moved);
+      }
+    },
+    [updateTask]
+  );
+
+  return {
+    tasks,
+    taskLists,
+    loadTasks,
+    createTask,
+    updateTask,
+    deleteTask,
+    toggleTaskCompleted,
+    reorderTask,
+  };
+};
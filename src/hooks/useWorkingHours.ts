@@ -0,0 +1,27 @@
+import { DEFAULT_WORKING_HOURS, WorkingHours } from '../utils/freeBusy';
+import { usePersistentSetting } from './usePersistentSetting';
+
+const isWorkingHours = (value: unknown): value is WorkingHours => {
+  const hours = value as WorkingHours | null;
+  return (
+    typeof hours === 'object' &&
+    hours !== null &&
+    Array.isArray(hours.days) &&
+    hours.days.every(day => Number.isInteger(day)) &&
+    typeof hours.start === 'number' &&
+    typeof hours.end === 'number'
+  );
+};
+
+/**
+ * Working hours the scheduling assistant suggests meeting times in
+ */
+export const useWorkingHours = () => {
+  const [workingHours, setWorkingHours] = usePersistentSetting(
+    'workingHours',
+    DEFAULT_WORKING_HOURS,
+    isWorkingHours
+  );
+
+  return { workingHours, setWorkingHours };
+};
@@ -0,0 +1,68 @@
+import { BaseProvider } from './BaseProvider';
+
+/**
+ * Provider for any standards-compliant CalDAV/CardDAV server
+ * Collections are found through RFC 6764 service discovery, so the account
+ * stores the calendar and address book home URLs and no path is appended.
+ * Compliant servers need no request customization.
+ */
+export class GenericProvider extends BaseProvider {
+  name = 'generic' as const;
+
+  /**
+   * Detect a server that answers on its /.well-known/caldav or carddav URI
+   */
+  async detectServer(baseUrl: string): Promise<boolean> {
+    try {
+      const origin = new URL(this.normalizeUrl(baseUrl)).origin;
+
+      for (const path of ['/.well-known/caldav', '/.well-known/carddav']) {
+        const testUrl = `${origin}${path}`;
+
+        // Convert to proxy URL in development
+        const requestUrl = process.env.NODE_ENV === 'development'
+          ? new URL(testUrl).pathname
+          : testUrl;
+
+        try {
+          const response = await fetch(requestUrl, {
+            method: 'OPTIONS',
+            headers: {
+              'Content-Type': 'application/xml',
+            },
+          });
+
+          const davHeader = response.headers.get('dav');
+          if (davHeader && (davHeader.includes('calendar-access') || davHeader.includes('addressbook'))) {
+            return true;
+          }
+
+          // The well-known URI redirected to the DAV context path
+          if (response.redirected && response.status < 400) {
+            return true;
+          }
+        } catch (pathError) {
+          continue;
+        }
+      }
+
+      return false;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * The configured CalDAV URL already is the calendar home
+   */
+  getCalendarDiscoveryPath(): string {
+    return '';
+  }
+
+  /**
+   * The configured CardDAV URL already is the address book home
+   */
+  getAddressBookDiscoveryPath(): string {
+    return '';
+  }
+}
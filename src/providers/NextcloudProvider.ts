@@ -0,0 +1,101 @@
+import { BaseProvider } from './BaseProvider';
+import { DAVRequest } from '../types/providers';
+
+/**
+ * Nextcloud DAV server provider implementation
+ * Serves CalDAV and CardDAV under /remote.php/dav, possibly below the
+ * subdirectory Nextcloud is installed in
+ */
+export class NextcloudProvider extends BaseProvider {
+  name = 'nextcloud' as const;
+
+  /**
+   * Detect if the server is a Nextcloud server
+   * Nextcloud reports its product name in /status.php and answers DAV
+   * requests on /remote.php/dav
+   */
+  async detectServer(baseUrl: string): Promise<boolean> {
+    try {
+      // The installation root is everything in front of remote.php
+      const installUrl = this.normalizeUrl(baseUrl).split('/remote.php')[0];
+
+      // Convert to proxy URL in development
+      const toRequestUrl = (url: string) => process.env.NODE_ENV === 'development'
+        ? new URL(url).pathname
+        : url;
+
+      try {
+        const response = await fetch(toRequestUrl(`${installUrl}/status.php`), {
+          method: 'GET',
+        });
+
+        if (response.status < 400) {
+          const status = await response.json();
+          if (typeof status?.productname === 'string' && status.productname.includes('Nextcloud')) {
+            return true;
+          }
+        }
+      } catch (statusError) {
+        // Not a Nextcloud status page, try the DAV endpoint
+      }
+
+      try {
+        const response = await fetch(toRequestUrl(`${installUrl}/remote.php/dav/`), {
+          method: 'OPTIONS',
+          headers: {
+            'Content-Type': 'application/xml',
+          },
+        });
+
+        const davHeader = response.headers.get('dav');
+        if (davHeader && (davHeader.includes('calendar-access') || davHeader.includes('addressbook'))) {
+          return true;
+        }
+      } catch (optionsError) {
+        return false;
+      }
+
+      return false;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Get calendar discovery path for Nextcloud
+   * Nextcloud uses /remote.php/dav/calendars/username/ pattern
+   */
+  getCalendarDiscoveryPath(): string {
+    return '/remote.php/dav/calendars/';
+  }
+
+  /**
+   * Get address book discovery path for Nextcloud
+   * Nextcloud uses /remote.php/dav/addressbooks/users/username/ pattern
+   */
+  getAddressBookDiscoveryPath(): string {
+    return '/remote.php/dav/addressbooks/users/';
+  }
+
+  /**
+   * Customize requests for Nextcloud-specific requirements
+   */
+  customizeRequest(request: DAVRequest): DAVRequest {
+    const customizedRequest = { ...request };
+    customizedRequest.headers = { ...request.headers };
+
+    // Answer wrong or revoked app passwords with a plain 401 instead of a
+    // Basic challenge, so the browser does not open its own login dialog
+    customizedRequest.headers['X-Requested-With'] = 'XMLHttpRequest';
+
+    // Skip the CSRF check Nextcloud applies when the browser also sends a
+    // session cookie of its web interface
+    customizedRequest.headers['OCS-APIRequest'] = 'true';
+
+    if (customizedRequest.method === 'PROPFIND' || customizedRequest.method === 'REPORT') {
+      customizedRequest.headers['Content-Type'] = 'application/xml; charset=utf-8';
+    }
+
+    return customizedRequest;
+  }
+}
@@ -1,4 +1,5 @@
 import { DAVProvider } from '../types/providers';
+import { AuthConfig } from '../types/auth';
 import { providerRegistry } from './ProviderRegistry';
 
 /**
@@ -20,6 +21,14 @@ export class ProviderFactory {
     return await providerRegistry.detectProvider(baseUrl);
   }
 
+  /**
+   * Get the provider an account was set up with, or detect one for its CalDAV URL
+   */
+  static async createProviderForConfig(config: AuthConfig): Promise<DAVProvider | null> {
+    const provider = config.provider ? providerRegistry.getProvider(config.provider) : null;
+    return provider || (await providerRegistry.detectProvider(config.caldavUrl));
+  }
+
   /**
    * Get all available provider names
    */
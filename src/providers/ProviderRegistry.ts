@@ -1,5 +1,8 @@
 import { DAVProvider } from '../types/providers';
 import { BaikalProvider } from './BaikalProvider';
+import { NextcloudProvider } from './NextcloudProvider';
+import { RadicaleProvider } from './RadicaleProvider';
+import { GenericProvider } from './GenericProvider';
 
 /**
  * Registry for managing DAV providers
@@ -10,8 +13,12 @@ export class ProviderRegistry {
   private instances: Map<string, DAVProvider> = new Map();
 
   constructor() {
-    // Register default providers
+    // Register default providers; Baikal accepts any responding server,
+    // so the more specific checks run first
+    this.registerProvider('nextcloud', NextcloudProvider);
+    this.registerProvider('radicale', RadicaleProvider);
     this.registerProvider('baikal', BaikalProvider);
+    this.registerProvider('generic', GenericProvider);
   }
 
   /**
@@ -0,0 +1,132 @@
+import { BaseProvider } from './BaseProvider';
+import { DAVRequest } from '../types/providers';
+
+/**
+ * Radicale DAV server provider implementation
+ * Radicale keeps every collection of a user under /username/ and creates
+ * calendars through extended MKCOL (RFC 5689)
+ */
+export class RadicaleProvider extends BaseProvider {
+  name = 'radicale' as const;
+
+  /**
+   * Detect if the server is a Radicale server
+   * Radicale serves its web interface under /.web/ and announces
+   * extended-mkcol without the access-control support of Sabre/DAV servers
+   */
+  async detectServer(baseUrl: string): Promise<boolean> {
+    try {
+      const normalizedUrl = this.normalizeUrl(baseUrl);
+
+      // Convert to proxy URL in development
+      const toRequestUrl = (url: string) => process.env.NODE_ENV === 'development'
+        ? new URL(url).pathname
+        : url;
+
+      try {
+        const response = await fetch(toRequestUrl(`${normalizedUrl}/.web/`), {
+          method: 'GET',
+        });
+
+        if (response.status < 400) {
+          const page = await response.text();
+          if (page.includes('Radicale')) {
+            return true;
+          }
+        }
+      } catch (webError) {
+        // Web interface disabled or not reachable, try the DAV header
+      }
+
+      try {
+        const response = await fetch(toRequestUrl(`${normalizedUrl}/`), {
+          method: 'OPTIONS',
+          headers: {
+            'Content-Type': 'application/xml',
+          },
+        });
+
+        const davHeader = response.headers.get('dav');
+        if (
+          davHeader &&
+          davHeader.includes('calendar-access') &&
+          davHeader.includes('extended-mkcol') &&
+          !davHeader.includes('access-control')
+        ) {
+          return true;
+        }
+      } catch (optionsError) {
+        return false;
+      }
+
+      return false;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Get calendar discovery path for Radicale
+   * Radicale uses /username/calendar-id/ below its root
+   */
+  getCalendarDiscoveryPath(): string {
+    return '/';
+  }
+
+  /**
+   * Get address book discovery path for Radicale
+   * Address books share the /username/ collection with calendars
+   */
+  getAddressBookDiscoveryPath(): string {
+    return '/';
+  }
+
+  /**
+   * Customize requests for Radicale-specific requirements
+   */
+  customizeRequest(request: DAVRequest): DAVRequest {
+    const customizedRequest = { ...request };
+    customizedRequest.headers = { ...request.headers };
+
+    // Calendars are created as extended MKCOL with a calendar resource type
+    if (customizedRequest.method === 'MKCALENDAR') {
+      customizedRequest.method = 'MKCOL';
+      customizedRequest.data = this.toExtendedMkcol(request.data);
+    }
+
+    if (
+      customizedRequest.method === 'PROPFIND' ||
+      customizedRequest.method === 'REPORT' ||
+      customizedRequest.method === 'MKCOL'
+    ) {
+      customizedRequest.headers['Content-Type'] = 'application/xml; charset=utf-8';
+    }
+
+    return customizedRequest;
+  }
+
+  /**
+   * Rewrite an MKCALENDAR body as an extended MKCOL body that keeps its properties
+   */
+  private toExtendedMkcol(body?: string): string {
+    const davPrefix = body?.match(/xmlns:(\w+)="DAV:"/)?.[1] || 'D';
+    const caldavPrefix = body?.match(/xmlns:(\w+)="urn:ietf:params:xml:ns:caldav"/)?.[1] || 'C';
+    const resourceType = `<${davPrefix}:resourcetype><${davPrefix}:collection/><${caldavPrefix}:calendar/></${davPrefix}:resourcetype>`;
+
+    if (!body || !body.includes('mkcalendar')) {
+      return `<?xml version="1.0" encoding="utf-8" ?>
+<D:mkcol xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:set>
+    <D:prop>
+      <D:resourcetype><D:collection/><C:calendar/></D:resourcetype>
+    </D:prop>
+  </D:set>
+</D:mkcol>`;
+    }
+
+    return body
+      .replace(/<(\w+:)?mkcalendar\b/, `<${davPrefix}:mkcol`)
+      .replace(/<\/(\w+:)?mkcalendar>/, `</${davPrefix}:mkcol>`)
+      .replace(`<${davPrefix}:prop>`, `<${davPrefix}:prop>\n      ${resourceType}`);
+  }
+}
@@ -0,0 +1,77 @@
+import { GenericProvider } from '../GenericProvider';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+describe('GenericProvider', () => {
+  let provider: GenericProvider;
+
+  beforeEach(() => {
+    provider = new GenericProvider();
+    jest.clearAllMocks();
+  });
+
+  describe('basic properties', () => {
+    it('should have correct name', () => {
+      expect(provider.name).toBe('generic');
+    });
+
+    it('should use the configured URLs as they are', () => {
+      expect(provider.getCalendarDiscoveryPath()).toBe('');
+      expect(provider.getAddressBookDiscoveryPath()).toBe('');
+    });
+  });
+
+  describe('detectServer', () => {
+    it('should detect server with DAV calendar-access header on the well-known URI', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        status: 200,
+        redirected: false,
+        headers: {
+          get: jest.fn((header: string) => (header === 'dav' ? '1, 2, calendar-access' : null)),
+        },
+      });
+
+      const result = await provider.detectServer('https://example.com/some/path/');
+      expect(result).toBe(true);
+      expect(fetch).toHaveBeenCalledWith('https://example.com/.well-known/caldav', expect.objectContaining({
+        method: 'OPTIONS',
+      }));
+    });
+
+    it('should detect server whose well-known URI redirects', async () => {
+      (fetch as jest.Mock)
+        .mockRejectedValueOnce(new Error('Not found')) // /.well-known/caldav
+        .mockResolvedValueOnce({
+          status: 200,
+          redirected: true,
+          headers: {
+            get: jest.fn(() => null),
+          },
+        }); // /.well-known/carddav
+
+      const result = await provider.detectServer('https://example.com');
+      expect(result).toBe(true);
+      expect(fetch).toHaveBeenLastCalledWith('https://example.com/.well-known/carddav', expect.anything());
+    });
+
+    it('should not detect server without well-known URIs', async () => {
+      (fetch as jest.Mock).mockResolvedValue({
+        status: 404,
+        redirected: false,
+        headers: {
+          get: jest.fn(() => null),
+        },
+      });
+
+      const result = await provider.detectServer('https://example.com');
+      expect(result).toBe(false);
+    });
+
+    it('should return false for invalid URLs', async () => {
+      const result = await provider.detectServer('not a url');
+      expect(result).toBe(false);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { NextcloudProvider } from '../NextcloudProvider';
+import { DAVRequest } from '../../types/providers';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+describe('NextcloudProvider', () => {
+  let provider: NextcloudProvider;
+
+  beforeEach(() => {
+    provider = new NextcloudProvider();
+    jest.clearAllMocks();
+  });
+
+  describe('basic properties', () => {
+    it('should have correct name', () => {
+      expect(provider.name).toBe('nextcloud');
+    });
+
+    it('should return correct discovery paths', () => {
+      expect(provider.getCalendarDiscoveryPath()).toBe('/remote.php/dav/calendars/');
+      expect(provider.getAddressBookDiscoveryPath()).toBe('/remote.php/dav/addressbooks/users/');
+    });
+  });
+
+  describe('detectServer', () => {
+    it('should detect server from status.php', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        status: 200,
+        json: jest.fn().mockResolvedValue({ installed: true, productname: 'Nextcloud', version: '29.0.0.19' }),
+      });
+
+      const result = await provider.detectServer('https://example.com');
+      expect(result).toBe(true);
+    });
+
+    it('should look for status.php in front of remote.php', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        status: 200,
+        json: jest.fn().mockResolvedValue({ productname: 'Nextcloud' }),
+      });
+
+      await provider.detectServer('https://example.com/nextcloud/remote.php/dav/principals/users/jane/');
+      expect(fetch).toHaveBeenCalledWith(
+        'https://example.com/nextcloud/status.php',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should detect server with DAV header on remote.php/dav', async () => {
+      (fetch as jest.Mock)
+        .mockRejectedValueOnce(new Error('Not found')) // /status.php
+        .mockResolvedValueOnce({
+          status: 200,
+          headers: {
+            get: jest.fn((header: string) => {
+              if (header === 'dav') return '1, 3, extended-mkcol, access-control, calendar-access';
+              return null;
+            }),
+          },
+        });
+
+      const result = await provider.detectServer('https://example.com');
+      expect(result).toBe(true);
+      expect(fetch).toHaveBeenLastCalledWith(
+        'https://example.com/remote.php/dav/',
+        expect.objectContaining({ method: 'OPTIONS' })
+      );
+    });
+
+    it('should not detect other products from status.php', async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          status: 200,
+          json: jest.fn().mockResolvedValue({ productname: 'ownCloud' }),
+        })
+        .mockResolvedValueOnce({
+          status: 404,
+          headers: {
+            get: jest.fn(() => null),
+          },
+        });
+
+      const result = await provider.detectServer('https://example.com');
+      expect(result).toBe(false);
+    });
+
+    it('should return false when all tests fail', async () => {
+      (fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
+
+      const result = await provider.detectServer('https://example.com');
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('customizeRequest', () => {
+    it('should suppress the browser login dialog for app passwords', () => {
+      const request = {
+        method: 'GET',
+        url: 'https://example.com',
+      };
+
+      const customized = provider.customizeRequest(request);
+      expect(customized.headers?.['X-Requested-With']).toBe('XMLHttpRequest');
+      expect(customized.headers?.['OCS-APIRequest']).toBe('true');
+    });
+
+    it('should set Content-Type for PROPFIND requests', () => {
+      const request = {
+        method: 'PROPFIND',
+        url: 'https://example.com',
+      };
+
+      const customized = provider.customizeRequest(request);
+      expect(customized.headers?.['Content-Type']).toBe('application/xml; charset=utf-8');
+    });
+
+    it('should preserve existing headers', () => {
+      const request = {
+        method: 'GET',
+        url: 'https://example.com',
+        headers: {
+          'Authorization': 'Basic dGVzdA==',
+        },
+      };
+
+      const customized = provider.customizeRequest(request);
+      expect(customized.headers?.['Authorization']).toBe('Basic dGVzdA==');
+    });
+
+    it('should not modify original request object', () => {
+      const request: DAVRequest = {
+        method: 'GET',
+        url: 'https://example.com',
+      };
+
+      const customized = provider.customizeRequest(request);
+      expect(customized).not.toBe(request);
+      expect(request.headers).toBeUndefined();
+    });
+  });
+});
@@ -2,6 +2,9 @@ import { ProviderRegistry } from '../ProviderRegistry';
 import { BaseProvider } from '../BaseProvider';
 import { DAVProvider } from '../../types/providers';
 
+// Built-in providers probe the server during detection; none is reachable
+global.fetch = jest.fn().mockRejectedValue(new Error('Network error'));
+
 // Mock provider for testing
 class MockProvider extends BaseProvider {
   name = 'mock';
@@ -0,0 +1,144 @@
+import { RadicaleProvider } from '../RadicaleProvider';
+import { DAVRequest } from '../../types/providers';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+describe('RadicaleProvider', () => {
+  let provider: RadicaleProvider;
+
+  beforeEach(() => {
+    provider = new RadicaleProvider();
+    jest.clearAllMocks();
+  });
+
+  describe('basic properties', () => {
+    it('should have correct name', () => {
+      expect(provider.name).toBe('radicale');
+    });
+
+    it('should return correct discovery paths', () => {
+      expect(provider.getCalendarDiscoveryPath()).toBe('/');
+      expect(provider.getAddressBookDiscoveryPath()).toBe('/');
+    });
+  });
+
+  describe('detectServer', () => {
+    it('should detect server with Radicale web interface', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        status: 200,
+        text: jest.fn().mockResolvedValue('<title>Radicale Web Interface</title>'),
+      });
+
+      const result = await provider.detectServer('https://example.com/radicale/');
+      expect(result).toBe(true);
+      expect(fetch).toHaveBeenCalledWith(
+        'https://example.com/radicale/.web/',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should detect server with extended-mkcol DAV header', async () => {
+      (fetch as jest.Mock)
+        .mockRejectedValueOnce(new Error('Not found')) // /.web/
+        .mockResolvedValueOnce({
+          status: 200,
+          headers: {
+            get: jest.fn((header: string) => {
+              if (header === 'dav') return '1, 2, 3, calendar-access, addressbook, extended-mkcol';
+              return null;
+            }),
+          },
+        });
+
+      const result = await provider.detectServer('https://example.com');
+      expect(result).toBe(true);
+    });
+
+    it('should not detect Sabre/DAV servers', async () => {
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          status: 404,
+          text: jest.fn().mockResolvedValue(''),
+        }) // /.web/
+        .mockResolvedValueOnce({
+          status: 200,
+          headers: {
+            get: jest.fn((header: string) => {
+              if (header === 'dav') return '1, 3, extended-mkcol, access-control, calendar-access';
+              return null;
+            }),
+          },
+        });
+
+      const result = await provider.detectServer('https://example.com');
+      expect(result).toBe(false);
+    });
+
+    it('should return false when all tests fail', async () => {
+      (fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
+
+      const result = await provider.detectServer('https://example.com');
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('customizeRequest', () => {
+    it('should create calendars with extended MKCOL', () => {
+      const request = {
+        method: 'MKCALENDAR',
+        url: 'https://example.com/user/work/',
+        data: `<C:mkcalendar xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:set>
+    <D:prop>
+      <D:displayname>Work</D:displayname>
+    </D:prop>
+  </D:set>
+</C:mkcalendar>`,
+      };
+
+      const customized = provider.customizeRequest(request);
+      expect(customized.method).toBe('MKCOL');
+      expect(customized.data).toContain('<D:mkcol xmlns:D="DAV:"');
+      expect(customized.data).toContain('</D:mkcol>');
+      expect(customized.data).toContain('<D:resourcetype><D:collection/><C:calendar/></D:resourcetype>');
+      expect(customized.data).toContain('<D:displayname>Work</D:displayname>');
+      expect(customized.data).not.toContain('mkcalendar');
+      expect(customized.headers?.['Content-Type']).toBe('application/xml; charset=utf-8');
+    });
+
+    it('should leave address book MKCOL bodies unchanged', () => {
+      const request = {
+        method: 'MKCOL',
+        url: 'https://example.com/user/contacts/',
+        data: '<D:mkcol xmlns:D="DAV:"/>',
+      };
+
+      const customized = provider.customizeRequest(request);
+      expect(customized.method).toBe('MKCOL');
+      expect(customized.data).toBe(request.data);
+    });
+
+    it('should set Content-Type for REPORT requests', () => {
+      const request = {
+        method: 'REPORT',
+        url: 'https://example.com',
+      };
+
+      const customized = provider.customizeRequest(request);
+      expect(customized.headers?.['Content-Type']).toBe('application/xml; charset=utf-8');
+    });
+
+    it('should not modify original request object', () => {
+      const request: DAVRequest = {
+        method: 'MKCALENDAR',
+        url: 'https://example.com',
+      };
+
+      const customized = provider.customizeRequest(request);
+      expect(customized).not.toBe(request);
+      expect(request.method).toBe('MKCALENDAR');
+      expect(request.headers).toBeUndefined();
+    });
+  });
+});
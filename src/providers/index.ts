@@ -1,6 +1,9 @@
 // Export all provider-related components
 export { BaseProvider } from './BaseProvider';
 export { BaikalProvider } from './BaikalProvider';
+export { NextcloudProvider } from './NextcloudProvider';
+export { RadicaleProvider } from './RadicaleProvider';
+export { GenericProvider } from './GenericProvider';
 export { ProviderRegistry, providerRegistry } from './ProviderRegistry';
 export { ProviderFactory, detectProviderForServer, createProvider } from './ProviderFactory';
 
@@ -28,5 +28,18 @@ export const swUpdateManager = {
           });
       });
     }
+  },
+
+  // Returns the service worker registration, if one is active (production builds only)
+  async getRegistration(): Promise<ServiceWorkerRegistration | undefined> {
+    if (!('serviceWorker' in navigator)) {
+      return undefined;
+    }
+    try {
+      return await navigator.serviceWorker.getRegistration();
+    } catch (error) {
+      console.log('Failed to get service worker registration:', error);
+      return undefined;
+    }
   }
 };
\ No newline at end of file
@@ -0,0 +1,503 @@
+import { DAVClient } from './DAVClient';
+import { AuthManager } from './AuthManager';
+import { CacheService, SyncConflict } from './CacheService';
+import { SyncApi, SyncOptions, SyncResult, SyncService, SyncStatus } from './SyncService';
+import { ProviderFactory } from '../providers/ProviderFactory';
+import { Account } from '../types/auth';
+import { AddressBook, Calendar, CalendarEvent, Contact, DateRange, Task } from '../types/dav';
+
+interface AccountConnection {
+  accountId: string;
+  davClient: DAVClient;
+  cache: typeof CacheService;
+  syncService: SyncService;
+}
+
+/**
+ * Syncs several accounts as one. Each account has its own DAVClient and
+ * SyncService with its own cache namespace; calendars and address books
+ * are tagged with the account they belong to, and every operation on a
+ * collection is routed to that account.
+ */
+export class AccountSyncService implements SyncApi {
+  private primary: AccountConnection;
+  private connections = new Map<string, AccountConnection>();
+  // Account of each known calendar or address book, for collections passed around untagged
+  private collectionAccounts = new Map<string, string>();
+  private syncListeners: ((status: SyncStatus) => void)[] = [];
+
+  constructor(davClient: DAVClient) {
+    this.primary = {
+      accountId: AuthManager.PRIMARY_ACCOUNT_ID,
+      davClient,
+      cache: CacheService,
+      syncService: new SyncService(davClient)
+    };
+    this.primary.syncService.addSyncListener(this.handleSyncStatusChange);
+  }
+
+  /**
+   * Connects the added accounts of the session and disconnects the ones
+   * no longer in the list. The primary account is always connected.
+   */
+  async setAccounts(accounts: Account[]): Promise<void> {
+    const added = accounts.filter(account => account.id !== AuthManager.PRIMARY_ACCOUNT_ID);
+
+    for (const accountId of Array.from(this.connections.keys())) {
+      if (!added.some(account => account.id === accountId)) {
+        this.disconnect(accountId);
+      }
+    }
+
+    for (const account of added) {
+      if (this.connections.has(account.id)) {
+        continue;
+      }
+      try {
+        await this.connect(account);
+      } catch (error) {
+        console.error(`Failed to connect account ${account.name}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Connects a newly added account and loads its calendars and address books
+   */
+  async addAccount(account: Account): Promise<void> {
+    const connection = await this.connect(account);
+    try {
+      await connection.syncService.syncCalendars();
+      await connection.syncService.syncAddressBooks();
+    } catch (error) {
+      this.disconnect(account.id);
+      throw error;
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Disconnects an added account and clears what it cached
+   */
+  async removeAccount(accountId: string): Promise<void> {
+    this.disconnect(accountId);
+    await CacheService.forAccount(accountId).clearCache();
+    this.notifyListeners();
+  }
+
+  /**
+   * Gets the DAV client of the account a collection belongs to, or of the
+   * primary account
+   */
+  getDavClient(collection?: Calendar | AddressBook): DAVClient {
+    return (collection ? this.getConnection(collection) : this.primary).davClient;
+  }
+
+  dispose(): void {
+    this.getConnections().forEach(connection => connection.syncService.dispose());
+    this.connections.clear();
+    this.syncListeners = [];
+  }
+
+  async fullSync(options: SyncOptions = {}): Promise<SyncResult> {
+    const result: SyncResult = {
+      success: true,
+      eventsUpdated: 0,
+      contactsUpdated: 0,
+      errors: []
+    };
+
+    for (const connection of this.getConnections()) {
+      const accountResult = await connection.syncService.fullSync(options);
+      result.success = result.success && accountResult.success;
+      result.eventsUpdated += accountResult.eventsUpdated;
+      result.contactsUpdated += accountResult.contactsUpdated;
+      result.errors.push(...accountResult.errors);
+    }
+
+    return result;
+  }
+
+  async syncCalendars(): Promise<void> {
+    await this.forEachAccount(connection => connection.syncService.syncCalendars());
+  }
+
+  async syncAddressBooks(): Promise<void> {
+    await this.forEachAccount(connection => connection.syncService.syncAddressBooks());
+  }
+
+  async syncEvents(dateRange?: DateRange, forceRefresh = false): Promise<{ updated: number; errors: string[] }> {
+    const result = { updated: 0, errors: [] as string[] };
+    for (const connection of this.getConnections()) {
+      const accountResult = await connection.syncService.syncEvents(dateRange, forceRefresh);
+      result.updated += accountResult.updated;
+      result.errors.push(...accountResult.errors);
+    }
+    return result;
+  }
+
+  async syncContacts(forceRefresh = false): Promise<{ updated: number; errors: string[] }> {
+    const result = { updated: 0, errors: [] as string[] };
+    for (const connection of this.getConnections()) {
+      const accountResult = await connection.syncService.syncContacts(forceRefresh);
+      result.updated += accountResult.updated;
+      result.errors.push(...accountResult.errors);
+    }
+    return result;
+  }
+
+  async processPendingOperations(): Promise<void> {
+    await this.forEachAccount(connection => connection.syncService.processPendingOperations());
+  }
+
+  async retryPendingOperation(operationId: string): Promise<void> {
+    await this.findConnection(status => status.pendingOperations.some(op => op.id === operationId))
+      .syncService.retryPendingOperation(operationId);
+  }
+
+  async discardPendingOperation(operationId: string): Promise<void> {
+    await this.findConnection(status => status.pendingOperations.some(op => op.id === operationId))
+      .syncService.discardPendingOperation(operationId);
+  }
+
+  async createEvent(calendar: Calendar, event: CalendarEvent): Promise<void> {
+    await this.getConnection(calendar).syncService.createEvent(calendar, event);
+  }
+
+  async updateEvent(calendar: Calendar, event: CalendarEvent): Promise<CalendarEvent> {
+    return this.getConnection(calendar).syncService.updateEvent(calendar, event);
+  }
+
+  async deleteEvent(calendar: Calendar, event: CalendarEvent): Promise<void> {
+    await this.getConnection(calendar).syncService.deleteEvent(calendar, event);
+  }
+
+  async createContact(addressBook: AddressBook, contact: Contact): Promise<void> {
+    await this.getConnection(addressBook).syncService.createContact(addressBook, contact);
+  }
+
+  async updateContact(addressBook: AddressBook, contact: Contact): Promise<void> {
+    await this.getConnection(addressBook).syncService.updateContact(addressBook, contact);
+  }
+
+  async deleteContact(addressBook: AddressBook, contact: Contact): Promise<void> {
+    await this.getConnection(addressBook).syncService.deleteContact(addressBook, contact);
+  }
+
+  /**
+   * Moves an event to another calendar. Between accounts it is written to
+   * the target server first, and the original is only deleted once that
+   * write succeeded: a failed write throws and leaves the original in place.
+   */
+  async moveEvent(from: Calendar, to: Calendar, event: CalendarEvent): Promise<CalendarEvent> {
+    const source = this.getConnection(from);
+    const target = this.getConnection(to);
+    if (source === target) {
+      return source.syncService.moveEvent(from, to, event);
+    }
+
+    // Not through the target's SyncService, which queues a failed write
+    // instead of throwing, so the original would be deleted regardless
+    const moved = this.toTargetEvent(to, event);
+    await target.davClient.createEvent(to, moved);
+    await target.cache.storeCachedEvent(to.url, moved);
+    await source.syncService.deleteEvent(from, event);
+    return moved;
+  }
+
+  /**
+   * Copies an event to another calendar. Another account's server does not
+   * know the UID, so the copy keeps it and all of its properties.
+   */
+  async copyEvent(from: Calendar, to: Calendar, event: CalendarEvent): Promise<CalendarEvent> {
+    const source = this.getConnection(from);
+    const target = this.getConnection(to);
+    if (source === target) {
+      return source.syncService.copyEvent(from, to, event);
+    }
+
+    const copy = this.toTargetEvent(to, event);
+    await target.syncService.createEvent(to, copy);
+    return copy;
+  }
+
+  /**
+   * Moves a contact to another address book, like moveEvent
+   */
+  async moveContact(from: AddressBook, to: AddressBook, contact: Contact): Promise<Contact> {
+    const source = this.getConnection(from);
+    const target = this.getConnection(to);
+    if (source === target) {
+      return source.syncService.moveContact(from, to, contact);
+    }
+
+    const moved = { ...contact, href: undefined, etag: undefined };
+    await target.davClient.createContact(to, moved);
+    await target.cache.storeCachedContact(to.url, moved);
+    await source.syncService.deleteContact(from, contact);
+    return moved;
+  }
+
+  async copyContact(from: AddressBook, to: AddressBook, contact: Contact): Promise<Contact> {
+    const source = this.getConnection(from);
+    const target = this.getConnection(to);
+    if (source === target) {
+      return source.syncService.copyContact(from, to, contact);
+    }
+
+    const copy = { ...contact, href: undefined, etag: undefined };
+    await target.syncService.createContact(to, copy);
+    return copy;
+  }
+
+  async createTask(calendar: Calendar, task: Task): Promise<Task> {
+    return this.getConnection(calendar).syncService.createTask(calendar, task);
+  }
+
+  async updateTask(calendar: Calendar, task: Task): Promise<Task> {
+    return this.getConnection(calendar).syncService.updateTask(calendar, task);
+  }
+
+  async deleteTask(calendar: Calendar, task: Task): Promise<void> {
+    await this.getConnection(calendar).syncService.deleteTask(calendar, task);
+  }
+
+  async getTasks(calendar: Calendar): Promise<Task[]> {
+    return this.getConnection(calendar).syncService.getTasks(calendar);
+  }
+
+  async getEvents(calendar: Calendar, dateRange: DateRange): Promise<CalendarEvent[]> {
+    return this.getConnection(calendar).syncService.getEvents(calendar, dateRange);
+  }
+
+  async getContacts(addressBook: AddressBook): Promise<Contact[]> {
+    return this.getConnection(addressBook).syncService.getContacts(addressBook);
+  }
+
+  /**
+   * Gets the calendars of all accounts, tagged with their account
+   */
+  async getCachedCalendars(): Promise<Calendar[]> {
+    const calendars: Calendar[] = [];
+    for (const connection of this.getConnections()) {
+      const accountCalendars = await connection.syncService.getCachedCalendars();
+      calendars.push(...accountCalendars.map(calendar => this.tag(connection, calendar)));
+    }
+    return calendars;
+  }
+
+  /**
+   * Gets the address books of all accounts, tagged with their account
+   */
+  async getCachedAddressBooks(): Promise<AddressBook[]> {
+    const addressBooks: AddressBook[] = [];
+    for (const connection of this.getConnections()) {
+      const accountAddressBooks = await connection.syncService.getCachedAddressBooks();
+      addressBooks.push(...accountAddressBooks.map(addressBook => this.tag(connection, addressBook)));
+    }
+    return addressBooks;
+  }
+
+  addSyncListener(listener: (status: SyncStatus) => void): void {
+    this.syncListeners.push(listener);
+  }
+
+  removeSyncListener(listener: (status: SyncStatus) => void): void {
+    const index = this.syncListeners.indexOf(listener);
+    if (index !== -1) {
+      this.syncListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Creates a calendar in the given account, the primary one by default
+   */
+  async createCalendar(
+    displayName: string,
+    color?: string,
+    description?: string,
+    accountId?: string
+  ): Promise<Calendar> {
+    const connection = this.getAccountConnection(accountId);
+    const calendar = await connection.syncService.createCalendar(displayName, color, description);
+    return this.tag(connection, calendar);
+  }
+
+  async deleteCalendar(calendar: Calendar): Promise<void> {
+    await this.getConnection(calendar).syncService.deleteCalendar(calendar);
+  }
+
+  /**
+   * Creates an address book in the given account, the primary one by default
+   */
+  async createAddressBook(
+    displayName: string,
+    description?: string,
+    accountId?: string
+  ): Promise<AddressBook> {
+    const connection = this.getAccountConnection(accountId);
+    const addressBook = await connection.syncService.createAddressBook(displayName, description);
+    return this.tag(connection, addressBook);
+  }
+
+  async updateAddressBook(addressBook: AddressBook, displayName: string): Promise<AddressBook> {
+    const connection = this.getConnection(addressBook);
+    return this.tag(connection, await connection.syncService.updateAddressBook(addressBook, displayName));
+  }
+
+  async deleteAddressBook(addressBook: AddressBook): Promise<void> {
+    await this.getConnection(addressBook).syncService.deleteAddressBook(addressBook);
+  }
+
+  async updateCalendarColor(calendar: Calendar, color: string): Promise<void> {
+    await this.getConnection(calendar).syncService.updateCalendarColor(calendar, color);
+  }
+
+  async updateCalendar(
+    calendar: Calendar,
+    displayName: string,
+    color: string,
+    description?: string
+  ): Promise<Calendar> {
+    const connection = this.getConnection(calendar);
+    return this.tag(connection, await connection.syncService.updateCalendar(calendar, displayName, color, description));
+  }
+
+  async recordConflict(conflict: Omit<SyncConflict, 'id' | 'timestamp' | 'server'>): Promise<SyncConflict | null> {
+    return this.getConnection({ url: conflict.resourceUrl }).syncService.recordConflict(conflict);
+  }
+
+  async resolveConflict(
+    conflictId: string,
+    choice: 'local' | 'server' | 'merged',
+    merged?: CalendarEvent | Contact
+  ): Promise<void> {
+    await this.findConnection(status => status.conflicts.some(conflict => conflict.id === conflictId))
+      .syncService.resolveConflict(conflictId, choice, merged);
+  }
+
+  /**
+   * Gets the sync status of all accounts combined; the last sync is the
+   * oldest one, so it shows when every account was last up to date
+   */
+  getSyncStatus(): SyncStatus {
+    const statuses = this.getConnections().map(connection => connection.syncService.getSyncStatus());
+    const lastSyncs = statuses.map(status => status.lastSync);
+
+    return {
+      isOnline: navigator.onLine,
+      lastSync: lastSyncs.some(lastSync => !lastSync)
+        ? null
+        : lastSyncs.reduce((oldest, lastSync) => (lastSync! < oldest! ? lastSync : oldest)),
+      pendingOperations: statuses.flatMap(status => status.pendingOperations),
+      conflicts: statuses.flatMap(status => status.conflicts),
+      syncInProgress: statuses.some(status => status.syncInProgress)
+    };
+  }
+
+  // Private methods
+
+  private async connect(account: Account): Promise<AccountConnection> {
+    const davClient = new DAVClient();
+    davClient.setAuthConfig(account.config);
+
+    if (navigator.onLine) {
+      const provider = await ProviderFactory.createProviderForConfig(account.config);
+      if (!provider) {
+        throw new Error('No compatible provider found for the server');
+      }
+      davClient.setProvider(provider);
+    }
+
+    const cache = CacheService.forAccount(account.id);
+    const connection: AccountConnection = {
+      accountId: account.id,
+      davClient,
+      cache,
+      syncService: new SyncService(davClient, cache)
+    };
+    connection.syncService.addSyncListener(this.handleSyncStatusChange);
+    this.connections.set(account.id, connection);
+    return connection;
+  }
+
+  private disconnect(accountId: string): void {
+    const connection = this.connections.get(accountId);
+    if (!connection) {
+      return;
+    }
+
+    connection.syncService.dispose();
+    this.connections.delete(accountId);
+    Array.from(this.collectionAccounts.entries())
+      .filter(([, collectionAccountId]) => collectionAccountId === accountId)
+      .forEach(([url]) => this.collectionAccounts.delete(url));
+  }
+
+  private getConnections(): AccountConnection[] {
+    return [this.primary, ...Array.from(this.connections.values())];
+  }
+
+  private getAccountConnection(accountId?: string): AccountConnection {
+    return (accountId && this.connections.get(accountId)) || this.primary;
+  }
+
+  /**
+   * Account a collection belongs to, by its tag or its URL
+   */
+  private getConnection(collection: { url: string; accountId?: string }): AccountConnection {
+    return this.getAccountConnection(collection.accountId || this.collectionAccounts.get(collection.url));
+  }
+
+  /**
+   * Account whose sync status matches, e.g. the one holding a pending operation
+   */
+  private findConnection(matches: (status: SyncStatus) => boolean): AccountConnection {
+    return this.getConnections().find(connection => matches(connection.syncService.getSyncStatus())) || this.primary;
+  }
+
+  /**
+   * Runs an operation for every account, reporting the first failure after
+   * the other accounts had their turn
+   */
+  private async forEachAccount(operation: (connection: AccountConnection) => Promise<void>): Promise<void> {
+    let firstError: unknown = null;
+    for (const connection of this.getConnections()) {
+      try {
+        await operation(connection);
+      } catch (error) {
+        firstError = firstError || error;
+      }
+    }
+    if (firstError) {
+      throw firstError;
+    }
+  }
+
+  private tag<T extends Calendar | AddressBook>(connection: AccountConnection, collection: T): T {
+    this.collectionAccounts.set(collection.url, connection.accountId);
+    return { ...collection, accountId: connection.accountId };
+  }
+
+  /**
+   * The event as written to a calendar of another account
+   */
+  private toTargetEvent(to: Calendar, event: CalendarEvent): CalendarEvent {
+    return { ...event, calendarUrl: to.url, href: undefined, etag: undefined };
+  }
+
+  private handleSyncStatusChange = (): void => {
+    this.notifyListeners();
+  };
+
+  private notifyListeners(): void {
+    const status = this.getSyncStatus();
+    this.syncListeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('Error in sync listener:', error);
+      }
+    });
+  }
+}
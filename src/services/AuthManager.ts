@@ -1,4 +1,4 @@
-import { AuthConfig, AuthManager as IAuthManager } from '../types/auth';
+import { Account, AuthConfig, AuthManager as IAuthManager } from '../types/auth';
 import { SecureStorage } from '../utils/secureStorage';
 import { DAVClient } from './DAVClient';
 import { ProviderFactory } from '../providers/ProviderFactory';
@@ -7,8 +7,12 @@ import { ProviderFactory } from '../providers/ProviderFactory';
  * Authentication manager for handling credential storage and server authentication
  */
 export class AuthManager implements IAuthManager {
+  // Id of the account set up first, whose credentials unlock the app
+  static readonly PRIMARY_ACCOUNT_ID = 'primary';
+
   private static instance: AuthManager;
   private currentCredentials: AuthConfig | null = null;
+  private additionalAccounts: Account[] = [];
   private masterPassword: string | null = null;
   private static readonly SESSION_TOKEN_KEY = 'caldav_session_token';
   private static readonly PERSISTENT_SESSION_KEY = 'caldav_persistent_session';
@@ -31,7 +35,7 @@ export class AuthManager implements IAuthManager {
       let detectedProvider = provider;
       if (!detectedProvider) {
         console.log('AuthManager: Detecting provider for:', config.caldavUrl);
-        detectedProvider = await ProviderFactory.createProviderForServer(config.caldavUrl);
+        detectedProvider = await ProviderFactory.createProviderForConfig(config);
         if (!detectedProvider) {
           console.error('AuthManager: No provider found');
           throw new Error('Unable to detect server type. Please check the server URL.');
@@ -68,6 +72,49 @@ export class AuthManager implements IAuthManager {
     }
   }
 
+  /**
+   * Find the CalDAV and CardDAV home collections of an account from just a
+   * host name or server URL, using RFC 6764 service discovery. The returned
+   * config uses the generic provider.
+   */
+  async discoverAccount(server: string, username: string, password: string): Promise<AuthConfig> {
+    const serverUrl = this.normalizeServerUrl(server);
+    if (!serverUrl) {
+      throw new Error('Server is not a valid host name or URL');
+    }
+
+    const provider = ProviderFactory.createProvider('generic');
+    if (!provider) {
+      throw new Error('Generic provider is not available');
+    }
+
+    const client = new DAVClient();
+    client.setAuthConfig({ caldavUrl: serverUrl, carddavUrl: serverUrl, username, password });
+    client.setProvider(provider);
+
+    const { calendarHomeUrl, addressBookHomeUrl } = await client.discoverServiceUrls(serverUrl);
+    return {
+      caldavUrl: calendarHomeUrl || addressBookHomeUrl!,
+      carddavUrl: addressBookHomeUrl || calendarHomeUrl!,
+      username,
+      password,
+      provider: provider.name,
+    };
+  }
+
+  /**
+   * Turn a host name such as "dav.example.com" into an https URL; full URLs
+   * are kept. Returns null for input that is neither.
+   */
+  normalizeServerUrl(server: string): string | null {
+    const trimmed = server.trim();
+    if (!trimmed) {
+      return null;
+    }
+    const url = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+    return this.isValidUrl(url) ? url : null;
+  }
+
   /**
    * Store credentials securely in local storage
    */
@@ -137,6 +184,86 @@ export class AuthManager implements IAuthManager {
     return this.currentCredentials;
   }
 
+  /**
+   * All accounts of the session: the one set up first, then the added ones
+   */
+  getAccounts(): Account[] {
+    if (!this.currentCredentials) {
+      return [];
+    }
+
+    return [
+      {
+        id: AuthManager.PRIMARY_ACCOUNT_ID,
+        name: this.getDefaultAccountName(this.currentCredentials),
+        config: this.currentCredentials,
+      },
+      ...this.additionalAccounts,
+    ];
+  }
+
+  /**
+   * Load the added accounts stored with the current master password.
+   * Temporary sessions keep added accounts in memory only.
+   */
+  async loadAccounts(): Promise<Account[]> {
+    if (this.masterPassword && !this.masterPassword.startsWith('session_') && this.hasStoredCredentials()) {
+      try {
+        this.additionalAccounts = await SecureStorage.retrieveAccounts(this.masterPassword);
+      } catch (error) {
+        console.error('Failed to load accounts:', error);
+        this.additionalAccounts = [];
+      }
+    }
+    return this.getAccounts();
+  }
+
+  /**
+   * Add another account to the session, storing it when credentials are stored
+   */
+  async addAccount(config: AuthConfig, name?: string): Promise<Account> {
+    const account: Account = {
+      id: `account-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: name?.trim() || this.getDefaultAccountName(config),
+      config,
+    };
+
+    const accounts = [...this.additionalAccounts, account];
+    await this.persistAccounts(accounts);
+    this.additionalAccounts = accounts;
+    return account;
+  }
+
+  /**
+   * Remove an added account; the account set up first can only be signed out
+   */
+  async removeAccount(accountId: string): Promise<void> {
+    if (accountId === AuthManager.PRIMARY_ACCOUNT_ID) {
+      throw new Error('The first account cannot be removed. Sign out instead.');
+    }
+
+    const accounts = this.additionalAccounts.filter(account => account.id !== accountId);
+    await this.persistAccounts(accounts);
+    this.additionalAccounts = accounts;
+  }
+
+  /**
+   * Name of an account until the user picks one, e.g. "jane@dav.example.com"
+   */
+  getDefaultAccountName(config: AuthConfig): string {
+    try {
+      return `${config.username}@${new URL(config.caldavUrl).hostname}`;
+    } catch {
+      return config.username;
+    }
+  }
+
+  private async persistAccounts(accounts: Account[]): Promise<void> {
+    if (this.masterPassword && !this.masterPassword.startsWith('session_') && this.hasStoredCredentials()) {
+      await SecureStorage.storeAccounts(accounts, this.masterPassword);
+    }
+  }
+
   /**
    * Check if credentials are stored
    */
@@ -150,6 +277,7 @@ export class AuthManager implements IAuthManager {
   clearCredentials(): void {
     SecureStorage.clearCredentials();
     this.currentCredentials = null;
+    this.additionalAccounts = [];
     this.masterPassword = null;
     sessionStorage.removeItem(AuthManager.SESSION_TOKEN_KEY);
     localStorage.removeItem(AuthManager.PERSISTENT_SESSION_KEY);
@@ -160,6 +288,7 @@ export class AuthManager implements IAuthManager {
    */
   clearSession(): void {
     this.currentCredentials = null;
+    this.additionalAccounts = [];
     this.masterPassword = null;
     sessionStorage.removeItem(AuthManager.SESSION_TOKEN_KEY);
     localStorage.removeItem(AuthManager.PERSISTENT_SESSION_KEY);
@@ -225,8 +354,8 @@ export class AuthManager implements IAuthManager {
     error?: string;
   }> {
     try {
-      // First try to detect provider for CalDAV URL
-      const provider = await ProviderFactory.createProviderForServer(config.caldavUrl);
+      // Use the provider chosen at setup, or detect one for the CalDAV URL
+      const provider = await ProviderFactory.createProviderForConfig(config);
       
       if (!provider) {
         return {
@@ -1,11 +1,22 @@
-import { Calendar, AddressBook, CalendarEvent, Contact } from '../types/dav';
+import { openDB, DBSchema, IDBPDatabase, IDBPObjectStore, IDBPTransaction } from 'idb';
+import { Calendar, AddressBook, CalendarEvent, Contact, DateRange, Task } from '../types/dav';
+import { coalesceOperations, getOperationKey } from '../utils/outbox';
 
+/**
+ * Single-object cache kept in local storage before the move to IndexedDB
+ */
 export interface CacheData {
   events: { [calendarUrl: string]: CachedEventData };
   contacts: { [addressBookUrl: string]: CachedContactData };
   calendars: Calendar[];
   addressBooks: AddressBook[];
   lastSync: { [resourceUrl: string]: Date };
+  syncState: { [collectionUrl: string]: CollectionSyncState };
+}
+
+export interface CollectionSyncState {
+  syncToken?: string; // Token of the last sync-collection REPORT
+  ctag?: string; // CS:getctag seen at that sync
 }
 
 export interface CachedEventData {
@@ -24,28 +35,114 @@ export interface SyncStatus {
   isOnline: boolean;
   lastSync: Date | null;
   pendingOperations: PendingOperation[];
+  conflicts: SyncConflict[];
   syncInProgress: boolean;
 }
 
 export interface PendingOperation {
   id: string;
-  type: 'create' | 'update' | 'delete';
-  resourceType: 'event' | 'contact' | 'calendar';
+  type: 'create' | 'update' | 'delete' | 'move' | 'copy';
+  resourceType: 'event' | 'contact' | 'task' | 'calendar' | 'addressbook';
   resourceUrl: string;
-  data: CalendarEvent | Contact | Calendar;
+  targetUrl?: string; // Collection an event or contact is moved or copied to
+  data: CalendarEvent | Contact | Task | Calendar | AddressBook;
   timestamp: Date;
+  status: 'pending' | 'failed'; // Failed operations are only replayed on request
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
 }
 
 /**
- * Service for managing local storage caching of DAV data
+ * A write the server rejected because the resource changed (412 Precondition
+ * Failed), waiting for the user to pick a version
+ */
+export interface SyncConflict {
+  id: string;
+  type: 'create' | 'update' | 'delete';
+  resourceType: 'event' | 'contact';
+  resourceUrl: string; // Calendar or address book URL
+  local: CalendarEvent | Contact; // The version we tried to write (or delete)
+  server: CalendarEvent | Contact | null; // Current server copy; null if it was deleted
+  timestamp: Date;
+}
+
+interface CacheSchema extends DBSchema {
+  events: {
+    key: [string, string];
+    value: { calendarUrl: string; uid: string; dtstart: Date; event: CalendarEvent };
+    indexes: { calendarUrl: string; uid: string; calendarUrl_dtstart: [string, Date] };
+  };
+  contacts: {
+    key: [string, string];
+    value: { addressBookUrl: string; uid: string; contact: Contact };
+    indexes: { addressBookUrl: string; uid: string };
+  };
+  tasks: {
+    key: [string, string];
+    value: { calendarUrl: string; uid: string; task: Task };
+    indexes: { calendarUrl: string };
+  };
+  // One record per calendar or address book whose items are cached
+  collections: {
+    key: string;
+    value: { url: string; lastUpdated: Date; etag?: string };
+  };
+  syncState: {
+    key: string;
+    value: CollectionSyncState;
+  };
+  lastSync: {
+    key: string;
+    value: Date;
+  };
+  // Calendar and address book lists
+  meta: {
+    key: string;
+    value: Calendar[] | AddressBook[];
+  };
+}
+
+type CacheStoreName = 'events' | 'contacts' | 'tasks' | 'collections' | 'syncState' | 'lastSync' | 'meta';
+
+/**
+ * Service for caching DAV data in IndexedDB. Small bookkeeping records
+ * (pending operations, conflicts, sync status) live in local storage.
+ * Accounts added after the first one use their own namespace, see forAccount.
  */
 export class CacheService {
-  private static readonly CACHE_KEY = 'caldav_cache_data';
+  private static readonly DB_NAME = 'clowd-dav-cache';
+  private static readonly DB_VERSION = 2;
+  private static readonly STORES: CacheStoreName[] = ['events', 'contacts', 'tasks', 'collections', 'syncState', 'lastSync', 'meta'];
+  private static readonly LEGACY_CACHE_KEY = 'caldav_cache_data';
+  private static readonly LEGACY_CACHE_VERSION_KEY = 'caldav_cache_version';
   private static readonly PENDING_OPERATIONS_KEY = 'caldav_pending_operations';
   private static readonly SYNC_STATUS_KEY = 'caldav_sync_status';
-  private static readonly CACHE_VERSION_KEY = 'caldav_cache_version';
-  private static readonly CURRENT_VERSION = '1.0';
+  private static readonly CONFLICTS_KEY = 'caldav_sync_conflicts';
   private static readonly MAX_CACHE_AGE = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+  private static readonly EARLIEST_DATE = new Date(-8.64e15); // Lower bound of date index ranges
+
+  private static dbPromise: Promise<IDBPDatabase<CacheSchema> | null> | null = null;
+  private static accountCaches = new Map<string, typeof CacheService>();
+
+  // Suffix of the collection lists and local storage keys; empty for the first account
+  protected static namespace = '';
+
+  /**
+   * Cache of an added account: the same API, with its own calendar and
+   * address book lists, pending operations, conflicts and sync status.
+   * Items stay in the shared database, keyed by their collection URL.
+   */
+  static forAccount(accountId: string): typeof CacheService {
+    let accountCache = CacheService.accountCaches.get(accountId);
+    if (!accountCache) {
+      accountCache = class extends CacheService {
+        protected static namespace = accountId;
+      };
+      CacheService.accountCaches.set(accountId, accountCache);
+    }
+    return accountCache;
+  }
 
   /**
    * Ensures that date properties in an event are proper Date objects
@@ -62,211 +159,509 @@ export class CacheService {
   }
 
   /**
-   * Stores cached data in local storage
+   * Stores cached events for a specific calendar, replacing the ones cached before
    */
-  static storeCacheData(data: CacheData): void {
-    if (!this.isLocalStorageAvailable()) {
-      console.warn('Local storage not available, caching disabled');
-      return;
+  static async storeCachedEvents(calendarUrl: string, events: CalendarEvent[], etag?: string): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction(['events', 'collections'], 'readwrite');
+      const store = tx.objectStore('events');
+      for (const key of await store.index('calendarUrl').getAllKeys(calendarUrl)) {
+        store.delete(key);
+      }
+      for (const event of events) {
+        store.put(this.toEventRecord(calendarUrl, event));
+      }
+      tx.objectStore('collections').put({ url: calendarUrl, lastUpdated: new Date(), etag });
+      await tx.done;
+    } catch (error) {
+      console.error('Failed to store cached events:', error);
     }
+  }
+
+  /**
+   * Stores the events fetched for a date range of a calendar, keeping the
+   * ones cached for other ranges. Cached events in the range that were not
+   * fetched are removed, as the server no longer has them there.
+   */
+  static async storeCachedEventsInRange(calendarUrl: string, dateRange: DateRange, events: CalendarEvent[]): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) return;
 
     try {
-      const serializedData = JSON.stringify(data, this.dateReplacer);
-      localStorage.setItem(this.CACHE_KEY, serializedData);
-      localStorage.setItem(this.CACHE_VERSION_KEY, this.CURRENT_VERSION);
+      const tx = db.transaction(['events', 'collections'], 'readwrite');
+      const store = tx.objectStore('events');
+      const fetched = new Set(events.map(event => event.uid));
+
+      // Same candidates as getCachedEventsInRange, except recurring series
+      // starting before the range, which may still occur outside it
+      let cursor = await store.index('calendarUrl_dtstart').openCursor(
+        IDBKeyRange.bound([calendarUrl, this.EARLIEST_DATE], [calendarUrl, dateRange.end])
+      );
+      while (cursor) {
+        const { uid, dtstart, event } = cursor.value;
+        const inRange = event.rrule ? dtstart >= dateRange.start : new Date(event.dtend) >= dateRange.start;
+        if (inRange && !fetched.has(uid)) {
+          cursor.delete();
+        }
+        cursor = await cursor.continue();
+      }
+
+      for (const event of events) {
+        store.put(this.toEventRecord(calendarUrl, event));
+      }
+      // A range says nothing about the rest of the calendar, so the etag of
+      // its last full fetch still holds
+      const collections = tx.objectStore('collections');
+      const collection = await collections.get(calendarUrl);
+      collections.put({ url: calendarUrl, lastUpdated: new Date(), etag: collection?.etag });
+      await tx.done;
     } catch (error) {
-      console.error('Failed to store cache data:', error);
+      console.error('Failed to store cached events:', error);
     }
   }
 
   /**
-   * Retrieves cached data from local storage
+   * Retrieves cached events for a specific calendar
    */
-  static getCacheData(): CacheData | null {
-    if (!this.isLocalStorageAvailable()) {
+  static async getCachedEvents(calendarUrl: string): Promise<CachedEventData | null> {
+    const db = await this.getDatabase();
+    if (!db) return null;
+
+    try {
+      const collection = await db.get('collections', calendarUrl);
+      // Check if cache is still valid
+      if (!collection || this.isCacheExpired(collection.lastUpdated)) {
+        return null;
+      }
+
+      const records = await db.getAllFromIndex('events', 'calendarUrl', calendarUrl);
+      return {
+        events: records.map(record => record.event),
+        lastUpdated: collection.lastUpdated,
+        etag: collection.etag
+      };
+    } catch (error) {
+      console.error('Failed to retrieve cached events:', error);
       return null;
     }
+  }
+
+  /**
+   * Retrieves the cached events of a calendar that may have occurrences in
+   * the date range, or null if the calendar is not cached
+   */
+  static async getCachedEventsInRange(calendarUrl: string, dateRange: DateRange): Promise<CalendarEvent[] | null> {
+    const db = await this.getDatabase();
+    if (!db) return null;
 
     try {
-      const storedData = localStorage.getItem(this.CACHE_KEY);
-      if (!storedData) {
-        return this.getEmptyCacheData();
+      const collection = await db.get('collections', calendarUrl);
+      if (!collection || this.isCacheExpired(collection.lastUpdated)) {
+        return null;
       }
 
-      const parsed = JSON.parse(storedData, this.dateReviver) as CacheData;
-      return this.validateAndMigrateCacheData(parsed);
+      return await this.getEventsInRange(db, calendarUrl, dateRange);
     } catch (error) {
-      console.error('Failed to retrieve cache data:', error);
-      return this.getEmptyCacheData();
+      console.error('Failed to retrieve cached events:', error);
+      return null;
     }
   }
 
   /**
-   * Stores cached events for a specific calendar
+   * Retrieves the cached events of every calendar that may have occurrences
+   * in the date range, however old the cache is
    */
-  static storeCachedEvents(calendarUrl: string, events: CalendarEvent[], etag?: string): void {
-    const cacheData = this.getCacheData() || this.getEmptyCacheData();
-    
-    cacheData.events[calendarUrl] = {
-      events,
-      lastUpdated: new Date(),
-      etag
-    };
+  static async getAllCachedEventsInRange(dateRange: DateRange): Promise<CalendarEvent[]> {
+    const db = await this.getDatabase();
+    if (!db) return [];
+
+    try {
+      const calendarUrls: string[] = [];
+      let cursor = await db.transaction('events').store.index('calendarUrl').openKeyCursor(null, 'nextunique');
+      while (cursor) {
+        calendarUrls.push(cursor.key);
+        cursor = await cursor.continue();
+      }
 
-    this.storeCacheData(cacheData);
+      const events: CalendarEvent[] = [];
+      for (const calendarUrl of calendarUrls) {
+        events.push(...await this.getEventsInRange(db, calendarUrl, dateRange));
+      }
+      return events;
+    } catch (error) {
+      console.error('Failed to retrieve cached events:', error);
+      return [];
+    }
+  }
+
+  private static async getEventsInRange(
+    db: IDBPDatabase<CacheSchema>,
+    calendarUrl: string,
+    dateRange: DateRange
+  ): Promise<CalendarEvent[]> {
+    // Everything starting before the range ends; recurring series and
+    // events ending before the range are filtered afterwards
+    const records = await db.getAllFromIndex(
+      'events',
+      'calendarUrl_dtstart',
+      IDBKeyRange.bound([calendarUrl, this.EARLIEST_DATE], [calendarUrl, dateRange.end])
+    );
+    return records
+      .map(record => record.event)
+      .filter(event => event.rrule || event.dtend >= dateRange.start);
   }
 
   /**
-   * Retrieves cached events for a specific calendar
+   * Retrieves the cached events with a UID from every calendar
    */
-  static getCachedEvents(calendarUrl: string): CachedEventData | null {
-    const cacheData = this.getCacheData();
-    if (!cacheData) return null;
+  static async getCachedEventsByUid(uid: string): Promise<CalendarEvent[]> {
+    const db = await this.getDatabase();
+    if (!db) return [];
 
-    const cachedEvents = cacheData.events[calendarUrl];
-    if (!cachedEvents) return null;
+    try {
+      const records = await db.getAllFromIndex('events', 'uid', uid);
+      return records.map(record => ({ ...record.event, calendarUrl: record.calendarUrl }));
+    } catch (error) {
+      console.error('Failed to retrieve cached events:', error);
+      return [];
+    }
+  }
 
-    // Check if cache is still valid
-    if (this.isCacheExpired(cachedEvents.lastUpdated)) {
-      return null;
+  /**
+   * Stores or replaces a single cached event
+   */
+  static async storeCachedEvent(calendarUrl: string, event: CalendarEvent): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) return;
+
+    try {
+      await db.put('events', this.toEventRecord(calendarUrl, event));
+    } catch (error) {
+      console.error('Failed to store cached event:', error);
     }
+  }
 
-    // Ensure date properties are properly converted back to Date objects
-    const eventsWithDates = cachedEvents.events.map(event => this.ensureEventDates(event));
+  /**
+   * Removes a single cached event
+   */
+  static async removeCachedEvent(calendarUrl: string, uid: string): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) return;
 
-    return {
-      ...cachedEvents,
-      events: eventsWithDates
-    };
+    try {
+      await db.delete('events', [calendarUrl, uid]);
+    } catch (error) {
+      console.error('Failed to remove cached event:', error);
+    }
   }
 
   /**
    * Clears cached events for a specific calendar
    */
-  static clearCachedEvents(calendarUrl: string): void {
-    const cacheData = this.getCacheData() || this.getEmptyCacheData();
-    
-    if (cacheData.events[calendarUrl]) {
-      delete cacheData.events[calendarUrl];
-      this.storeCacheData(cacheData);
-    }
+  static async clearCachedEvents(calendarUrl: string): Promise<void> {
+    await this.clearCollection('events', calendarUrl);
   }
 
   /**
    * Clears cached contacts for a specific address book
    */
-  static clearCachedContacts(addressBookUrl: string): void {
+  static async clearCachedContacts(addressBookUrl: string): Promise<void> {
     console.log('clearCachedContacts called for:', addressBookUrl);
-    const cacheData = this.getCacheData() || this.getEmptyCacheData();
-    
-    if (cacheData.contacts[addressBookUrl]) {
-      delete cacheData.contacts[addressBookUrl];
-      this.storeCacheData(cacheData);
-    }
+    await this.clearCollection('contacts', addressBookUrl);
   }
 
   /**
-   * Stores cached contacts for a specific address book
+   * Stores cached contacts for a specific address book, replacing the ones cached before
    */
-  static storeCachedContacts(addressBookUrl: string, contacts: Contact[], etag?: string): void {
-    const cacheData = this.getCacheData() || this.getEmptyCacheData();
-    
-    cacheData.contacts[addressBookUrl] = {
-      contacts,
-      lastUpdated: new Date(),
-      etag
-    };
+  static async storeCachedContacts(addressBookUrl: string, contacts: Contact[], etag?: string): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) return;
 
-    this.storeCacheData(cacheData);
+    try {
+      const tx = db.transaction(['contacts', 'collections'], 'readwrite');
+      const store = tx.objectStore('contacts');
+      for (const key of await store.index('addressBookUrl').getAllKeys(addressBookUrl)) {
+        store.delete(key);
+      }
+      for (const contact of contacts) {
+        store.put({ addressBookUrl, uid: contact.uid, contact });
+      }
+      tx.objectStore('collections').put({ url: addressBookUrl, lastUpdated: new Date(), etag });
+      await tx.done;
+    } catch (error) {
+      console.error('Failed to store cached contacts:', error);
+    }
   }
 
   /**
    * Retrieves cached contacts for a specific address book
    */
-  static getCachedContacts(addressBookUrl: string): CachedContactData | null {
-    const cacheData = this.getCacheData();
-    if (!cacheData) return null;
+  static async getCachedContacts(addressBookUrl: string): Promise<CachedContactData | null> {
+    const db = await this.getDatabase();
+    if (!db) return null;
 
-    const cachedContacts = cacheData.contacts[addressBookUrl];
-    if (!cachedContacts) return null;
+    try {
+      const collection = await db.get('collections', addressBookUrl);
+      // Check if cache is still valid
+      if (!collection || this.isCacheExpired(collection.lastUpdated)) {
+        return null;
+      }
 
-    // Check if cache is still valid
-    if (this.isCacheExpired(cachedContacts.lastUpdated)) {
+      const records = await db.getAllFromIndex('contacts', 'addressBookUrl', addressBookUrl);
+      return {
+        contacts: records.map(record => record.contact),
+        lastUpdated: collection.lastUpdated,
+        etag: collection.etag
+      };
+    } catch (error) {
+      console.error('Failed to retrieve cached contacts:', error);
       return null;
     }
+  }
+
+  /**
+   * Stores or replaces a single cached contact
+   */
+  static async storeCachedContact(addressBookUrl: string, contact: Contact): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) return;
+
+    try {
+      await db.put('contacts', { addressBookUrl, uid: contact.uid, contact });
+    } catch (error) {
+      console.error('Failed to store cached contact:', error);
+    }
+  }
 
-    return cachedContacts;
+  /**
+   * Removes a single cached contact
+   */
+  static async removeCachedContact(addressBookUrl: string, uid: string): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) return;
+
+    try {
+      await db.delete('contacts', [addressBookUrl, uid]);
+    } catch (error) {
+      console.error('Failed to remove cached contact:', error);
+    }
+  }
+
+  /**
+   * Stores cached tasks for a specific task list, replacing the ones cached before
+   */
+  static async storeCachedTasks(calendarUrl: string, tasks: Task[]): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction('tasks', 'readwrite');
+      for (const key of await tx.store.index('calendarUrl').getAllKeys(calendarUrl)) {
+        tx.store.delete(key);
+      }
+      for (const task of tasks) {
+        tx.store.put({ calendarUrl, uid: task.uid, task });
+      }
+      await tx.done;
+    } catch (error) {
+      console.error('Failed to store cached tasks:', error);
+    }
+  }
+
+  /**
+   * Retrieves cached tasks for a specific task list. Tasks are only read
+   * from the cache while offline, so they do not expire.
+   */
+  static async getCachedTasks(calendarUrl: string): Promise<Task[]> {
+    const db = await this.getDatabase();
+    if (!db) return [];
+
+    try {
+      const records = await db.getAllFromIndex('tasks', 'calendarUrl', calendarUrl);
+      return records.map(record => record.task);
+    } catch (error) {
+      console.error('Failed to retrieve cached tasks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Stores or replaces a single cached task
+   */
+  static async storeCachedTask(calendarUrl: string, task: Task): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) return;
+
+    try {
+      await db.put('tasks', { calendarUrl, uid: task.uid, task });
+    } catch (error) {
+      console.error('Failed to store cached task:', error);
+    }
+  }
+
+  /**
+   * Removes a single cached task
+   */
+  static async removeCachedTask(calendarUrl: string, uid: string): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) return;
+
+    try {
+      await db.delete('tasks', [calendarUrl, uid]);
+    } catch (error) {
+      console.error('Failed to remove cached task:', error);
+    }
+  }
+
+  /**
+   * Checks whether the items of a calendar or address book are cached and
+   * still valid, without loading them
+   */
+  static async isCollectionCached(collectionUrl: string): Promise<boolean> {
+    const db = await this.getDatabase();
+    if (!db) return false;
+
+    try {
+      const collection = await db.get('collections', collectionUrl);
+      return !!collection && !this.isCacheExpired(collection.lastUpdated);
+    } catch (error) {
+      console.error('Failed to retrieve cached collection:', error);
+      return false;
+    }
   }
 
   /**
    * Stores cached calendars
    */
-  static storeCachedCalendars(calendars: Calendar[]): void {
-    const cacheData = this.getCacheData() || this.getEmptyCacheData();
-    cacheData.calendars = calendars;
-    this.storeCacheData(cacheData);
+  static async storeCachedCalendars(calendars: Calendar[]): Promise<void> {
+    await this.putValue('meta', this.key('calendars'), calendars);
   }
 
   /**
    * Retrieves cached calendars
    */
-  static getCachedCalendars(): Calendar[] {
-    const cacheData = this.getCacheData();
-    return cacheData?.calendars || [];
+  static async getCachedCalendars(): Promise<Calendar[]> {
+    return ((await this.getValue('meta', this.key('calendars'))) as Calendar[] | undefined) || [];
   }
 
   /**
    * Stores cached address books
    */
-  static storeCachedAddressBooks(addressBooks: AddressBook[]): void {
-    const cacheData = this.getCacheData() || this.getEmptyCacheData();
-    cacheData.addressBooks = addressBooks;
-    this.storeCacheData(cacheData);
+  static async storeCachedAddressBooks(addressBooks: AddressBook[]): Promise<void> {
+    await this.putValue('meta', this.key('addressBooks'), addressBooks);
   }
 
   /**
    * Retrieves cached address books
    */
-  static getCachedAddressBooks(): AddressBook[] {
-    const cacheData = this.getCacheData();
-    return cacheData?.addressBooks || [];
+  static async getCachedAddressBooks(): Promise<AddressBook[]> {
+    return ((await this.getValue('meta', this.key('addressBooks'))) as AddressBook[] | undefined) || [];
   }
 
   /**
    * Updates last sync time for a resource
    */
-  static updateLastSync(resourceUrl: string): void {
-    const cacheData = this.getCacheData() || this.getEmptyCacheData();
-    cacheData.lastSync[resourceUrl] = new Date();
-    this.storeCacheData(cacheData);
+  static async updateLastSync(resourceUrl: string): Promise<void> {
+    await this.putValue('lastSync', resourceUrl, new Date());
   }
 
   /**
    * Gets last sync time for a resource
    */
-  static getLastSync(resourceUrl: string): Date | null {
-    const cacheData = this.getCacheData();
-    if (!cacheData) return null;
+  static async getLastSync(resourceUrl: string): Promise<Date | null> {
+    return (await this.getValue('lastSync', resourceUrl)) || null;
+  }
 
-    const lastSync = cacheData.lastSync[resourceUrl];
-    return lastSync ? new Date(lastSync) : null;
+  /**
+   * Stores the sync token and CTag a collection was last synced at
+   */
+  static async storeSyncState(collectionUrl: string, state: CollectionSyncState): Promise<void> {
+    await this.putValue('syncState', collectionUrl, state);
+  }
+
+  /**
+   * Gets the sync token and CTag a collection was last synced at
+   */
+  static async getSyncState(collectionUrl: string): Promise<CollectionSyncState | null> {
+    return (await this.getValue('syncState', collectionUrl)) || null;
   }
 
   /**
-   * Adds a pending operation to the queue
+   * Forgets the sync state of a collection, so the next sync fetches it in full
    */
-  static addPendingOperation(operation: Omit<PendingOperation, 'id' | 'timestamp'>): void {
+  static async clearSyncState(collectionUrl: string): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) return;
+
+    try {
+      await db.delete('syncState', collectionUrl);
+    } catch (error) {
+      console.error('Failed to clear sync state:', error);
+    }
+  }
+
+  /**
+   * Adds a pending operation to the queue, folding it into the operation
+   * already queued for the same resource
+   */
+  static addPendingOperation(
+    operation: Omit<PendingOperation, 'id' | 'timestamp' | 'status' | 'attempts'>
+  ): void {
     const operations = this.getPendingOperations();
-    const newOperation: PendingOperation = {
-      ...operation,
-      id: this.generateOperationId(),
-      timestamp: new Date()
-    };
+    const key = getOperationKey(operation);
+    const index = operations.findIndex(op => getOperationKey(op) === key);
+
+    if (index === -1) {
+      operations.push({
+        ...operation,
+        id: this.generateOperationId(),
+        timestamp: new Date(),
+        status: 'pending',
+        attempts: 0
+      });
+    } else {
+      const coalesced = coalesceOperations(operations[index], operation);
+      if (coalesced) {
+        // Keeps its place in the queue but starts over with a clean retry record
+        operations[index] = {
+          ...operations[index],
+          ...coalesced,
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: undefined,
+          lastError: undefined
+        };
+      } else {
+        operations.splice(index, 1);
+      }
+    }
 
-    operations.push(newOperation);
     this.storePendingOperations(operations);
   }
 
+  /**
+   * Retrieves a pending operation by ID
+   */
+  static getPendingOperation(operationId: string): PendingOperation | null {
+    return this.getPendingOperations().find(op => op.id === operationId) || null;
+  }
+
+  /**
+   * Updates the retry state or payload of a pending operation
+   */
+  static updatePendingOperation(
+    operationId: string,
+    updates: Partial<Omit<PendingOperation, 'id'>>
+  ): void {
+    const operations = this.getPendingOperations();
+    this.storePendingOperations(
+      operations.map(op => (op.id === operationId ? { ...op, ...updates } : op))
+    );
+  }
+
   /**
    * Retrieves all pending operations
    */
@@ -276,10 +671,18 @@ export class CacheService {
     }
 
     try {
-      const storedData = localStorage.getItem(this.PENDING_OPERATIONS_KEY);
+      const storedData = localStorage.getItem(this.key(this.PENDING_OPERATIONS_KEY));
       if (!storedData) return [];
 
-      return JSON.parse(storedData, this.dateReviver) as PendingOperation[];
+      const operations = JSON.parse(storedData, this.dateReviver) as PendingOperation[];
+      // Operations queued before retries were tracked have no retry state
+      return operations.map(op => ({
+        ...op,
+        timestamp: new Date(op.timestamp),
+        status: op.status || 'pending',
+        attempts: op.attempts || 0,
+        nextAttemptAt: op.nextAttemptAt ? new Date(op.nextAttemptAt) : undefined
+      }));
     } catch (error) {
       console.error('Failed to retrieve pending operations:', error);
       return [];
@@ -300,7 +703,60 @@ export class CacheService {
    */
   static clearPendingOperations(): void {
     if (!this.isLocalStorageAvailable()) return;
-    localStorage.removeItem(this.PENDING_OPERATIONS_KEY);
+    localStorage.removeItem(this.key(this.PENDING_OPERATIONS_KEY));
+  }
+
+  /**
+   * Adds a conflict, replacing an older one for the same resource
+   */
+  static addSyncConflict(conflict: Omit<SyncConflict, 'id' | 'timestamp'>): SyncConflict {
+    const conflicts = this.getSyncConflicts().filter(existing =>
+      existing.resourceUrl !== conflict.resourceUrl || existing.local.uid !== conflict.local.uid
+    );
+    const newConflict: SyncConflict = {
+      ...conflict,
+      id: `conflict_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date()
+    };
+
+    conflicts.push(newConflict);
+    this.storeSyncConflicts(conflicts);
+    return newConflict;
+  }
+
+  /**
+   * Retrieves all unresolved conflicts
+   */
+  static getSyncConflicts(): SyncConflict[] {
+    if (!this.isLocalStorageAvailable()) {
+      return [];
+    }
+
+    try {
+      const storedData = localStorage.getItem(this.key(this.CONFLICTS_KEY));
+      if (!storedData) return [];
+
+      const conflicts = JSON.parse(storedData, this.dateReviver) as SyncConflict[];
+      return conflicts.map(conflict => conflict.resourceType === 'event'
+        ? {
+            ...conflict,
+            local: this.ensureEventDates(conflict.local as CalendarEvent),
+            server: conflict.server && this.ensureEventDates(conflict.server as CalendarEvent),
+            timestamp: new Date(conflict.timestamp),
+          }
+        : { ...conflict, timestamp: new Date(conflict.timestamp) });
+    } catch (error) {
+      console.error('Failed to retrieve sync conflicts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Removes a resolved conflict by ID
+   */
+  static removeSyncConflict(conflictId: string): void {
+    const conflicts = this.getSyncConflicts();
+    this.storeSyncConflicts(conflicts.filter(conflict => conflict.id !== conflictId));
   }
 
   /**
@@ -311,7 +767,7 @@ export class CacheService {
 
     try {
       const serializedStatus = JSON.stringify(status, this.dateReplacer);
-      localStorage.setItem(this.SYNC_STATUS_KEY, serializedStatus);
+      localStorage.setItem(this.key(this.SYNC_STATUS_KEY), serializedStatus);
     } catch (error) {
       console.error('Failed to store sync status:', error);
     }
@@ -326,7 +782,7 @@ export class CacheService {
     }
 
     try {
-      const storedData = localStorage.getItem(this.SYNC_STATUS_KEY);
+      const storedData = localStorage.getItem(this.key(this.SYNC_STATUS_KEY));
       if (!storedData) return this.getDefaultSyncStatus();
 
       return JSON.parse(storedData, this.dateReviver) as SyncStatus;
@@ -337,78 +793,352 @@ export class CacheService {
   }
 
   /**
-   * Clears all cached data
+   * Clears all cached data of the account. Added accounts keep their
+   * calendars and address books, whose items share the stores.
    */
-  static clearCache(): void {
+  static async clearCache(): Promise<void> {
+    if (this.namespace) {
+      await this.clearAccountCache();
+      return;
+    }
+
+    const db = await this.getDatabase();
+    if (db) {
+      try {
+        const kept = await this.getAddedAccountKeys(db);
+        const tx = db.transaction(this.STORES, 'readwrite');
+        await Promise.all([
+          ...this.STORES.map(name => this.clearStoreExcept(tx.objectStore(name), kept)),
+          tx.done
+        ]);
+      } catch (error) {
+        console.error('Failed to clear cache:', error);
+      }
+    }
+
     if (!this.isLocalStorageAvailable()) return;
 
-    localStorage.removeItem(this.CACHE_KEY);
-    localStorage.removeItem(this.PENDING_OPERATIONS_KEY);
-    localStorage.removeItem(this.SYNC_STATUS_KEY);
-    localStorage.removeItem(this.CACHE_VERSION_KEY);
+    localStorage.removeItem(this.LEGACY_CACHE_KEY);
+    localStorage.removeItem(this.LEGACY_CACHE_VERSION_KEY);
+    localStorage.removeItem(this.key(this.PENDING_OPERATIONS_KEY));
+    localStorage.removeItem(this.key(this.SYNC_STATUS_KEY));
+    localStorage.removeItem(this.key(this.CONFLICTS_KEY));
   }
 
   /**
    * Gets cache statistics
    */
-  static getCacheStats(): { size: number; eventCount: number; contactCount: number; lastUpdated: Date | null } {
-    const cacheData = this.getCacheData();
-    if (!cacheData) {
+  static async getCacheStats(): Promise<{ size: number; eventCount: number; contactCount: number; lastUpdated: Date | null }> {
+    const db = await this.getDatabase();
+    if (!db) {
+      return { size: 0, eventCount: 0, contactCount: 0, lastUpdated: null };
+    }
+
+    try {
+      const [events, contacts, collections] = await Promise.all([
+        db.getAll('events'),
+        db.getAll('contacts'),
+        db.getAll('collections')
+      ]);
+
+      // Most recent update of any cached calendar or address book
+      let lastUpdated: Date | null = null;
+      for (const collection of collections) {
+        if (!lastUpdated || collection.lastUpdated > lastUpdated) {
+          lastUpdated = collection.lastUpdated;
+        }
+      }
+
+      // Calculate approximate size
+      const size = JSON.stringify(events).length + JSON.stringify(contacts).length;
+
+      return { size, eventCount: events.length, contactCount: contacts.length, lastUpdated };
+    } catch (error) {
+      console.error('Failed to compute cache statistics:', error);
       return { size: 0, eventCount: 0, contactCount: 0, lastUpdated: null };
     }
+  }
 
-    let eventCount = 0;
-    let contactCount = 0;
-    let lastUpdated: Date | null = null;
+  // Private helper methods
 
-    // Count events and find most recent update
-    Object.values(cacheData.events).forEach(eventData => {
-      eventCount += eventData.events.length;
-      const eventLastUpdated = typeof eventData.lastUpdated === 'string' 
-        ? new Date(eventData.lastUpdated) 
-        : eventData.lastUpdated;
-      if (!lastUpdated || eventLastUpdated > lastUpdated) {
-        lastUpdated = eventLastUpdated;
+  /**
+   * Removes only what an added account cached: its collections and their
+   * items, collection lists and bookkeeping records
+   */
+  private static async clearAccountCache(): Promise<void> {
+    const [calendars, addressBooks] = await Promise.all([
+      this.getCachedCalendars(),
+      this.getCachedAddressBooks()
+    ]);
+
+    for (const calendar of calendars) {
+      await this.clearCachedEvents(calendar.url);
+      await this.storeCachedTasks(calendar.url, []);
+    }
+    for (const addressBook of addressBooks) {
+      await this.clearCachedContacts(addressBook.url);
+    }
+
+    const db = await this.getDatabase();
+    if (db) {
+      try {
+        await Promise.all([
+          db.delete('meta', this.key('calendars')),
+          db.delete('meta', this.key('addressBooks'))
+        ]);
+      } catch (error) {
+        console.error('Failed to clear cache:', error);
       }
-    });
-
-    // Count contacts and find most recent update
-    Object.values(cacheData.contacts).forEach(contactData => {
-      contactCount += contactData.contacts.length;
-      const contactLastUpdated = typeof contactData.lastUpdated === 'string' 
-        ? new Date(contactData.lastUpdated) 
-        : contactData.lastUpdated;
-      if (!lastUpdated || contactLastUpdated > lastUpdated) {
-        lastUpdated = contactLastUpdated;
+    }
+
+    if (!this.isLocalStorageAvailable()) return;
+
+    localStorage.removeItem(this.key(this.PENDING_OPERATIONS_KEY));
+    localStorage.removeItem(this.key(this.SYNC_STATUS_KEY));
+    localStorage.removeItem(this.key(this.CONFLICTS_KEY));
+  }
+
+  /**
+   * Keys of the records owned by added accounts: their calendar and address
+   * book lists, and the URLs of the collections in them
+   */
+  private static async getAddedAccountKeys(db: IDBPDatabase<CacheSchema>): Promise<Set<string>> {
+    const kept = new Set<string>();
+    for (const key of await db.getAllKeys('meta')) {
+      if (key === 'calendars' || key === 'addressBooks') {
+        continue;
+      }
+      kept.add(key);
+      for (const collection of (await db.get('meta', key)) || []) {
+        kept.add(collection.url);
       }
-    });
+    }
+    return kept;
+  }
 
-    // Calculate approximate size
-    const size = JSON.stringify(cacheData).length;
+  /**
+   * Deletes the records of a store except the kept ones. Items are kept by
+   * their collection URL, the first part of their key.
+   */
+  private static async clearStoreExcept<Name extends CacheStoreName>(
+    store: IDBPObjectStore<CacheSchema, CacheStoreName[], Name, 'readwrite'>,
+    kept: Set<string>
+  ): Promise<void> {
+    if (kept.size === 0) {
+      await store.clear();
+      return;
+    }
 
-    return { size, eventCount, contactCount, lastUpdated };
+    for (const key of await store.getAllKeys()) {
+      if (!kept.has(Array.isArray(key) ? key[0] : key)) {
+        await store.delete(key);
+      }
+    }
   }
 
-  // Private helper methods
+  /**
+   * Key of a per-account record, suffixed with the account namespace
+   */
+  private static key(name: string): string {
+    return this.namespace ? `${name}:${this.namespace}` : name;
+  }
+
+  /**
+   * Opens the cache database once, creating the stores and moving over a
+   * cache left in local storage by earlier versions
+   */
+  private static getDatabase(): Promise<IDBPDatabase<CacheSchema> | null> {
+    if (!CacheService.dbPromise) {
+      if (typeof indexedDB === 'undefined') {
+        console.warn('IndexedDB not available, caching disabled');
+        return Promise.resolve(null);
+      }
+
+      let legacyData: CacheData | null = null;
+      CacheService.dbPromise = openDB<CacheSchema>(this.DB_NAME, this.DB_VERSION, {
+        upgrade: (db, oldVersion, newVersion, transaction) => {
+          if (oldVersion < 1) {
+            const events = db.createObjectStore('events', { keyPath: ['calendarUrl', 'uid'] });
+            events.createIndex('calendarUrl', 'calendarUrl');
+            events.createIndex('uid', 'uid');
+            events.createIndex('calendarUrl_dtstart', ['calendarUrl', 'dtstart']);
+            const contacts = db.createObjectStore('contacts', { keyPath: ['addressBookUrl', 'uid'] });
+            contacts.createIndex('addressBookUrl', 'addressBookUrl');
+            contacts.createIndex('uid', 'uid');
+            db.createObjectStore('collections', { keyPath: 'url' });
+            db.createObjectStore('syncState');
+            db.createObjectStore('lastSync');
+            db.createObjectStore('meta');
+
+            legacyData = this.readLegacyCacheData();
+            if (legacyData) {
+              this.writeLegacyCacheData(transaction, legacyData);
+            }
+          }
+          if (oldVersion < 2) {
+            const tasks = db.createObjectStore('tasks', { keyPath: ['calendarUrl', 'uid'] });
+            tasks.createIndex('calendarUrl', 'calendarUrl');
+          }
+        },
+        terminated: () => {
+          CacheService.dbPromise = null;
+        }
+      }).then(db => {
+        if (legacyData) {
+          localStorage.removeItem(this.LEGACY_CACHE_KEY);
+          localStorage.removeItem(this.LEGACY_CACHE_VERSION_KEY);
+        }
+        return db;
+      }).catch(error => {
+        console.error('Failed to open cache database:', error);
+        CacheService.dbPromise = null;
+        return null;
+      });
+    }
+    return CacheService.dbPromise;
+  }
+
+  /**
+   * Reads the single-key cache written by earlier versions, if any
+   */
+  private static readLegacyCacheData(): CacheData | null {
+    if (!this.isLocalStorageAvailable()) return null;
+
+    try {
+      const storedData = localStorage.getItem(this.LEGACY_CACHE_KEY);
+      if (!storedData) return null;
+
+      return this.validateAndMigrateCacheData(JSON.parse(storedData, this.dateReviver));
+    } catch (error) {
+      console.error('Failed to read legacy cache data:', error);
+      return null;
+    }
+  }
+
+  private static writeLegacyCacheData(
+    transaction: IDBPTransaction<CacheSchema, CacheStoreName[], 'versionchange'>,
+    data: CacheData
+  ): void {
+    for (const [calendarUrl, cached] of Object.entries(data.events)) {
+      for (const event of cached.events) {
+        transaction.objectStore('events').put(this.toEventRecord(calendarUrl, this.ensureEventDates(event)));
+      }
+      transaction.objectStore('collections').put({
+        url: calendarUrl,
+        lastUpdated: new Date(cached.lastUpdated),
+        etag: cached.etag
+      });
+    }
+    for (const [addressBookUrl, cached] of Object.entries(data.contacts)) {
+      for (const contact of cached.contacts) {
+        transaction.objectStore('contacts').put({ addressBookUrl, uid: contact.uid, contact });
+      }
+      transaction.objectStore('collections').put({
+        url: addressBookUrl,
+        lastUpdated: new Date(cached.lastUpdated),
+        etag: cached.etag
+      });
+    }
+    for (const [resourceUrl, lastSync] of Object.entries(data.lastSync)) {
+      transaction.objectStore('lastSync').put(new Date(lastSync), resourceUrl);
+    }
+    for (const [collectionUrl, state] of Object.entries(data.syncState)) {
+      transaction.objectStore('syncState').put(state, collectionUrl);
+    }
+    transaction.objectStore('meta').put(data.calendars, 'calendars');
+    transaction.objectStore('meta').put(data.addressBooks, 'addressBooks');
+  }
+
+  private static toEventRecord(calendarUrl: string, event: CalendarEvent): CacheSchema['events']['value'] {
+    // Invalid dates are not valid IndexedDB keys
+    const dtstart = new Date(event.dtstart);
+    return { calendarUrl, uid: event.uid, dtstart: isNaN(dtstart.getTime()) ? new Date(0) : dtstart, event };
+  }
+
+  /**
+   * Removes the cached items, collection record and sync state of a calendar
+   * or address book
+   */
+  private static async clearCollection(storeName: 'events' | 'contacts', collectionUrl: string): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction([storeName, 'collections', 'syncState'], 'readwrite');
+      const store = tx.objectStore(storeName);
+      const index = storeName === 'events'
+        ? tx.objectStore('events').index('calendarUrl')
+        : tx.objectStore('contacts').index('addressBookUrl');
+      for (const key of await index.getAllKeys(collectionUrl)) {
+        store.delete(key);
+      }
+      tx.objectStore('collections').delete(collectionUrl);
+      tx.objectStore('syncState').delete(collectionUrl);
+      await tx.done;
+    } catch (error) {
+      console.error(`Failed to clear cached ${storeName}:`, error);
+    }
+  }
+
+  private static async getValue<Name extends 'syncState' | 'lastSync' | 'meta'>(
+    storeName: Name,
+    key: string
+  ): Promise<CacheSchema[Name]['value'] | undefined> {
+    const db = await this.getDatabase();
+    if (!db) return undefined;
+
+    try {
+      return await db.get(storeName, key);
+    } catch (error) {
+      console.error(`Failed to retrieve cached ${storeName}:`, error);
+      return undefined;
+    }
+  }
+
+  private static async putValue<Name extends 'syncState' | 'lastSync' | 'meta'>(
+    storeName: Name,
+    key: string,
+    value: CacheSchema[Name]['value']
+  ): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) return;
+
+    try {
+      await db.put(storeName, value, key);
+    } catch (error) {
+      console.error(`Failed to store cached ${storeName}:`, error);
+    }
+  }
 
   private static storePendingOperations(operations: PendingOperation[]): void {
     if (!this.isLocalStorageAvailable()) return;
 
     try {
       const serializedOperations = JSON.stringify(operations, this.dateReplacer);
-      localStorage.setItem(this.PENDING_OPERATIONS_KEY, serializedOperations);
+      localStorage.setItem(this.key(this.PENDING_OPERATIONS_KEY), serializedOperations);
     } catch (error) {
       console.error('Failed to store pending operations:', error);
     }
   }
 
+  private static storeSyncConflicts(conflicts: SyncConflict[]): void {
+    if (!this.isLocalStorageAvailable()) return;
+
+    try {
+      localStorage.setItem(this.key(this.CONFLICTS_KEY), JSON.stringify(conflicts, this.dateReplacer));
+    } catch (error) {
+      console.error('Failed to store sync conflicts:', error);
+    }
+  }
+
   private static getEmptyCacheData(): CacheData {
     return {
       events: {},
       contacts: {},
       calendars: [],
       addressBooks: [],
-      lastSync: {}
+      lastSync: {},
+      syncState: {}
     };
   }
 
@@ -417,6 +1147,7 @@ export class CacheService {
       isOnline: navigator.onLine,
       lastSync: null,
       pendingOperations: [],
+      conflicts: [],
       syncInProgress: false
     };
   }
@@ -442,7 +1173,8 @@ export class CacheService {
       contacts: data.contacts || {},
       calendars: data.calendars || [],
       addressBooks: data.addressBooks || [],
-      lastSync: data.lastSync || {}
+      lastSync: data.lastSync || {},
+      syncState: data.syncState || {}
     };
   }
 
@@ -6,20 +6,30 @@ import {
   CalendarEvent,
   Contact,
   DateRange,
+  BusyPeriod,
+  FreeBusyResult,
+  SchedulingInfo,
+  SchedulingMessage,
+  ServiceDiscoveryResult,
+  SyncCollectionChanges,
+  Task,
 } from "../types/dav";
 import { HttpClient } from "./dav/HttpClient";
 import { CalendarService } from "./dav/CalendarService";
 import { ContactService } from "./dav/ContactService";
+import { DiscoveryService } from "./dav/DiscoveryService";
 
 export class DAVClient implements IDAVClient {
   private httpClient: HttpClient;
   private calendarService: CalendarService;
   private contactService: ContactService;
+  private discoveryService: DiscoveryService;
 
   constructor() {
     this.httpClient = new HttpClient();
     this.calendarService = new CalendarService(this.httpClient);
     this.contactService = new ContactService(this.httpClient);
+    this.discoveryService = new DiscoveryService(this.httpClient);
   }
 
   public setAuthConfig(authConfig: AuthConfig): void {
@@ -55,6 +65,14 @@ export class DAVClient implements IDAVClient {
     return this.httpClient.delete(url, headers);
   }
 
+  public async move(sourceUrl: string, destinationUrl: string, headers?: Record<string, string>) {
+    return this.httpClient.move(sourceUrl, destinationUrl, headers);
+  }
+
+  public async copy(sourceUrl: string, destinationUrl: string, headers?: Record<string, string>) {
+    return this.httpClient.copy(sourceUrl, destinationUrl, headers);
+  }
+
   public async propfind(url: string, data: string, depth?: string, headers?: Record<string, string>) {
     return this.httpClient.propfind(url, data, depth, headers);
   }
@@ -63,6 +81,11 @@ export class DAVClient implements IDAVClient {
     return this.httpClient.report(url, data, headers);
   }
 
+  // Service discovery - delegate to DiscoveryService
+  public async discoverServiceUrls(serverUrl: string): Promise<ServiceDiscoveryResult> {
+    return this.discoveryService.discoverServiceUrls(serverUrl);
+  }
+
   // Calendar operations - delegate to CalendarService
   public async discoverCalendars(): Promise<Calendar[]> {
     return this.calendarService.discoverCalendars();
@@ -72,6 +95,22 @@ export class DAVClient implements IDAVClient {
     return this.calendarService.getEvents(calendar, dateRange);
   }
 
+  public async getCalendarData(calendar: Calendar): Promise<string[]> {
+    return this.calendarService.getCalendarData(calendar);
+  }
+
+  public async getEvent(calendar: Calendar, event: CalendarEvent): Promise<CalendarEvent | null> {
+    return this.calendarService.getEvent(calendar, event);
+  }
+
+  public async syncCalendar(calendar: Calendar, syncToken?: string): Promise<SyncCollectionChanges> {
+    return this.calendarService.syncCalendar(calendar, syncToken);
+  }
+
+  public async getEventsByHref(calendar: Calendar, hrefs: string[]): Promise<CalendarEvent[]> {
+    return this.calendarService.getEventsByHref(calendar, hrefs);
+  }
+
   public async createEvent(calendar: Calendar, event: CalendarEvent): Promise<void> {
     return this.calendarService.createEvent(calendar, event);
   }
@@ -84,6 +123,14 @@ export class DAVClient implements IDAVClient {
     return this.calendarService.deleteEvent(calendar, event);
   }
 
+  public async moveEvent(from: Calendar, to: Calendar, event: CalendarEvent): Promise<CalendarEvent> {
+    return this.calendarService.moveEvent(from, to, event);
+  }
+
+  public async copyEvent(from: Calendar, to: Calendar, event: CalendarEvent): Promise<CalendarEvent> {
+    return this.calendarService.copyEvent(from, to, event);
+  }
+
   public async createCalendar(displayName: string, color?: string, description?: string): Promise<Calendar> {
     return this.calendarService.createCalendar(displayName, color, description);
   }
@@ -99,6 +146,49 @@ export class DAVClient implements IDAVClient {
     return this.calendarService.updateCalendarProperties(calendar, properties);
   }
 
+  // Task (VTODO) operations - delegate to CalendarService
+  public async getTasks(calendar: Calendar): Promise<Task[]> {
+    return this.calendarService.getTasks(calendar);
+  }
+
+  public async createTask(calendar: Calendar, task: Task): Promise<void> {
+    return this.calendarService.createTask(calendar, task);
+  }
+
+  public async updateTask(calendar: Calendar, task: Task): Promise<void> {
+    return this.calendarService.updateTask(calendar, task);
+  }
+
+  public async deleteTask(calendar: Calendar, task: Task): Promise<void> {
+    return this.calendarService.deleteTask(calendar, task);
+  }
+
+  // Scheduling operations (RFC 6638) - delegate to CalendarService
+  public async discoverScheduling(): Promise<SchedulingInfo> {
+    return this.calendarService.discoverScheduling();
+  }
+
+  public async getSchedulingMessages(inboxUrl: string): Promise<SchedulingMessage[]> {
+    return this.calendarService.getSchedulingMessages(inboxUrl);
+  }
+
+  public async deleteSchedulingMessage(message: SchedulingMessage): Promise<void> {
+    return this.calendarService.deleteSchedulingMessage(message);
+  }
+
+  public async getFreeBusy(calendar: Calendar, dateRange: DateRange): Promise<BusyPeriod[]> {
+    return this.calendarService.getFreeBusy(calendar, dateRange);
+  }
+
+  public async queryScheduleFreeBusy(
+    outboxUrl: string,
+    organizer: string,
+    attendees: string[],
+    dateRange: DateRange
+  ): Promise<FreeBusyResult[]> {
+    return this.calendarService.queryScheduleFreeBusy(outboxUrl, organizer, attendees, dateRange);
+  }
+
   // Contact operations - delegate to ContactService
   public async discoverAddressBooks(): Promise<AddressBook[]> {
     return this.contactService.discoverAddressBooks();
@@ -108,6 +198,22 @@ export class DAVClient implements IDAVClient {
     return this.contactService.getContacts(addressBook);
   }
 
+  public async getAddressBookData(addressBook: AddressBook): Promise<string[]> {
+    return this.contactService.getAddressBookData(addressBook);
+  }
+
+  public async getContact(addressBook: AddressBook, contact: Contact): Promise<Contact | null> {
+    return this.contactService.getContact(addressBook, contact);
+  }
+
+  public async syncAddressBook(addressBook: AddressBook, syncToken?: string): Promise<SyncCollectionChanges> {
+    return this.contactService.syncAddressBook(addressBook, syncToken);
+  }
+
+  public async getContactsByHref(addressBook: AddressBook, hrefs: string[]): Promise<Contact[]> {
+    return this.contactService.getContactsByHref(addressBook, hrefs);
+  }
+
   public async createContact(addressBook: AddressBook, contact: Contact): Promise<void> {
     return this.contactService.createContact(addressBook, contact);
   }
@@ -120,6 +226,14 @@ export class DAVClient implements IDAVClient {
     return this.contactService.deleteContact(addressBook, contact);
   }
 
+  public async moveContact(from: AddressBook, to: AddressBook, contact: Contact): Promise<Contact> {
+    return this.contactService.moveContact(from, to, contact);
+  }
+
+  public async copyContact(from: AddressBook, to: AddressBook, contact: Contact): Promise<Contact> {
+    return this.contactService.copyContact(from, to, contact);
+  }
+
   public async createAddressBook(displayName: string, description?: string): Promise<AddressBook> {
     return this.contactService.createAddressBook(displayName, description);
   }
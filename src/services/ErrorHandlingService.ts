@@ -6,6 +6,7 @@ export interface ErrorMessage {
   type: 'error' | 'warning' | 'info';
   timestamp: Date;
   retryAction?: () => Promise<void>;
+  actionLabel?: string; // Label of the retry action button, "Retry" if absent
   dismissed?: boolean;
 }
 
@@ -36,12 +37,14 @@ export class ErrorHandlingService {
    * @param message User-friendly error message
    * @param type Error type (error, warning, info)
    * @param retryAction Optional function to retry the failed operation
+   * @param actionLabel Optional label of the action, e.g. "Undo"
    * @returns The created error message object
    */
   public reportError(
     message: string, 
     type: 'error' | 'warning' | 'info' = 'error',
-    retryAction?: () => Promise<void>
+    retryAction?: () => Promise<void>,
+    actionLabel?: string
   ): ErrorMessage {
     const errorMessage: ErrorMessage = {
       id: this.generateId(),
@@ -49,6 +52,7 @@ export class ErrorHandlingService {
       type,
       timestamp: new Date(),
       retryAction,
+      actionLabel,
       dismissed: false
     };
 
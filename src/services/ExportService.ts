@@ -0,0 +1,95 @@
+import { DAVClient } from './DAVClient';
+import { DataFormatters } from './dav/DataFormatters';
+import { AddressBook, Calendar } from '../types/dav';
+import { ZipEntry, createZip } from '../utils/zip';
+
+/**
+ * A file ready to be saved by the browser
+ */
+export interface ExportFile {
+  name: string;
+  type: string;
+  data: string | Uint8Array;
+}
+
+// Keeps collection names usable as file names on every platform
+const toFileName = (name: string, fallback: string): string =>
+  name.replace(/[\\/:*?"<>|]+/g, '-').trim() || fallback;
+
+/**
+ * Service for backing up collections as .ics and .vcf files, built from the
+ * raw server data so nothing the app does not model is lost
+ */
+export class ExportService {
+  // Client of the account a collection belongs to
+  private getDavClient: (collection?: Calendar | AddressBook) => DAVClient;
+  private dataFormatters = new DataFormatters();
+
+  constructor(davClient: DAVClient | ((collection?: Calendar | AddressBook) => DAVClient)) {
+    this.getDavClient = typeof davClient === 'function' ? davClient : () => davClient;
+  }
+
+  /**
+   * Exports a calendar as a single VCALENDAR
+   */
+  async exportCalendar(calendar: Calendar): Promise<ExportFile> {
+    const resources = await this.getDavClient(calendar).getCalendarData(calendar);
+    return {
+      name: `${toFileName(calendar.displayName, 'calendar')}.ics`,
+      type: 'text/calendar',
+      data: this.dataFormatters.bundleICalendarData(resources, calendar.displayName)
+    };
+  }
+
+  /**
+   * Exports an address book as a concatenated vCard file
+   */
+  async exportAddressBook(addressBook: AddressBook): Promise<ExportFile> {
+    const resources = await this.getDavClient(addressBook).getAddressBookData(addressBook);
+    return {
+      name: `${toFileName(addressBook.displayName, 'contacts')}.vcf`,
+      type: 'text/vcard',
+      data: this.dataFormatters.bundleVCardData(resources)
+    };
+  }
+
+  /**
+   * Exports every calendar and address book into one ZIP archive, with
+   * calendars/ and contacts/ folders. Without collections given, those of
+   * the account are discovered.
+   */
+  async exportAccount(collections?: { calendars: Calendar[]; addressBooks: AddressBook[] }): Promise<ExportFile> {
+    const [calendars, addressBooks] = collections
+      ? [collections.calendars, collections.addressBooks]
+      : await Promise.all([
+          this.getDavClient().discoverCalendars(),
+          this.getDavClient().discoverAddressBooks()
+        ]);
+
+    const entries: ZipEntry[] = [];
+    const usedNames = new Set<string>();
+    const addEntry = (folder: string, file: ExportFile) => {
+      const dot = file.name.lastIndexOf('.');
+      let name = `${folder}/${file.name}`;
+      // Two collections may share a display name
+      for (let n = 2; usedNames.has(name); n++) {
+        name = `${folder}/${file.name.slice(0, dot)} (${n})${file.name.slice(dot)}`;
+      }
+      usedNames.add(name);
+      entries.push({ name, content: file.data as string });
+    };
+
+    for (const calendar of calendars) {
+      addEntry('calendars', await this.exportCalendar(calendar));
+    }
+    for (const addressBook of addressBooks) {
+      addEntry('contacts', await this.exportAddressBook(addressBook));
+    }
+
+    return {
+      name: `clowd-dav-export-${new Date().toISOString().slice(0, 10)}.zip`,
+      type: 'application/zip',
+      data: createZip(entries)
+    };
+  }
+}
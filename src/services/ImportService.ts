@@ -0,0 +1,285 @@
+import { DAVClient } from './DAVClient';
+import { CacheService } from './CacheService';
+import { DataFormatters } from './dav/DataFormatters';
+import { AddressBook, Calendar, CalendarEvent, Contact } from '../types/dav';
+import { parseCsv } from '../utils/csv';
+import {
+  CsvColumnMapping,
+  contactFromCsvRow,
+  createDuplicateFinder,
+  mergeContacts
+} from '../utils/contactImport';
+
+/**
+ * An item from an imported file, with the collections that already hold a
+ * resource with its UID
+ */
+export interface ImportPreviewItem<T> {
+  resource: T;
+  existingIn: string[];
+  // The cached resource it most likely duplicates, for contacts
+  duplicateOf?: T;
+}
+
+/**
+ * What to do with an imported contact. Duplicates can be skipped, written
+ * over the existing contact or merged into it.
+ */
+export type ContactImportAction = 'create' | 'skip' | 'overwrite' | 'merge';
+
+export interface ContactImportEntry {
+  contact: Contact;
+  duplicateOf?: Contact;
+  action: ContactImportAction;
+}
+
+/**
+ * The rows of a CSV file, split into its header and data rows
+ */
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+export interface ImportResult<T> {
+  imported: T[];
+  failed: { resource: T; error: string }[];
+}
+
+/**
+ * Service for bringing events and contacts from exported files into a
+ * collection on the server
+ */
+export class ImportService {
+  // Resources written to the server at the same time
+  private static readonly BATCH_SIZE = 5;
+
+  // Client of the account a collection belongs to
+  private getDavClient: (collection?: Calendar | AddressBook) => DAVClient;
+  private dataFormatters = new DataFormatters();
+
+  constructor(davClient: DAVClient | ((collection?: Calendar | AddressBook) => DAVClient)) {
+    this.getDavClient = typeof davClient === 'function' ? davClient : () => davClient;
+  }
+
+  /**
+   * Reads the events of an .ics file. Events without a UID get a new one.
+   */
+  parseCalendarFile(icalData: string): CalendarEvent[] {
+    const events = this.dataFormatters.parseICalendarFile(icalData);
+    if (events.length === 0) {
+      throw new Error('Calendar import failed: The file contains no events');
+    }
+
+    return events.map(event => ({
+      ...event,
+      uid: event.uid || `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      etag: undefined,
+      href: undefined,
+      calendarUrl: undefined
+    }));
+  }
+
+  /**
+   * Reads the contacts of a .vcf file. Contacts without a UID get a new one.
+   */
+  parseContactFile(vcardData: string): Contact[] {
+    const contacts = this.dataFormatters.parseVCardFile(vcardData);
+    if (contacts.length === 0) {
+      throw new Error('Contact import failed: The file contains no contacts');
+    }
+
+    return contacts.map(contact => this.prepareContact(contact));
+  }
+
+  /**
+   * Reads a CSV file whose first row names the columns
+   */
+  parseCsvFile(csvData: string): CsvTable {
+    const [headers, ...rows] = parseCsv(csvData);
+    if (!headers || rows.length === 0) {
+      throw new Error('Contact import failed: The file contains no contacts');
+    }
+
+    return { headers, rows };
+  }
+
+  /**
+   * Turns CSV rows into contacts using a column mapping, dropping rows that
+   * have no name, organization or email
+   */
+  contactsFromCsv(table: CsvTable, mapping: CsvColumnMapping): Contact[] {
+    return table.rows
+      .map(row => contactFromCsvRow(row, mapping))
+      .filter((contact): contact is Contact => contact !== null)
+      .map(contact => this.prepareContact(contact));
+  }
+
+  /**
+   * Finds the contacts of an address book that imported contacts likely
+   * duplicate, by email, phone or name
+   */
+  async previewContacts(
+    addressBook: AddressBook,
+    contacts: Contact[]
+  ): Promise<ImportPreviewItem<Contact>[]> {
+    const cached = await CacheService.getCachedContacts(addressBook.url);
+    const existing = cached ? cached.contacts : await this.getDavClient(addressBook).getContacts(addressBook);
+    const findDuplicate = createDuplicateFinder(existing);
+
+    return contacts.map(contact => {
+      const duplicateOf = findDuplicate(contact);
+      return {
+        resource: contact,
+        existingIn: duplicateOf ? [addressBook.url] : [],
+        duplicateOf
+      };
+    });
+  }
+
+  /**
+   * Looks up each event in the local cache by UID
+   */
+  async previewEvents(events: CalendarEvent[]): Promise<ImportPreviewItem<CalendarEvent>[]> {
+    return Promise.all(
+      events.map(async event => {
+        const cached = await CacheService.getCachedEventsByUid(event.uid);
+        return {
+          resource: event,
+          existingIn: Array.from(new Set(cached.map(cachedEvent => cachedEvent.calendarUrl as string)))
+        };
+      })
+    );
+  }
+
+  /**
+   * Creates the events in a calendar a few at a time, collecting the ones
+   * the server rejected instead of stopping at the first
+   */
+  async importEvents(
+    calendar: Calendar,
+    events: CalendarEvent[],
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<ImportResult<CalendarEvent>> {
+    const result: ImportResult<CalendarEvent> = { imported: [], failed: [] };
+
+    for (let i = 0; i < events.length; i += ImportService.BATCH_SIZE) {
+      const batch = events
+        .slice(i, i + ImportService.BATCH_SIZE)
+        .map(event => ({ ...event, calendarUrl: calendar.url }));
+      const outcomes = await Promise.allSettled(
+        batch.map(event => this.getDavClient(calendar).createEvent(calendar, event))
+      );
+
+      for (let j = 0; j < batch.length; j++) {
+        const outcome = outcomes[j];
+        if (outcome.status === 'fulfilled') {
+          await CacheService.storeCachedEvent(calendar.url, batch[j]);
+          result.imported.push(batch[j]);
+        } else {
+          console.error(`Failed to import event ${batch[j].uid}:`, outcome.reason);
+          result.failed.push({
+            resource: batch[j],
+            error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)
+          });
+        }
+      }
+
+      onProgress?.({ done: Math.min(i + batch.length, events.length), total: events.length });
+    }
+
+    return result;
+  }
+
+  /**
+   * Writes imported contacts to an address book a few at a time. New contacts
+   * are created; duplicates are written over or merged into the existing
+   * contact, and skipped entries are left out.
+   */
+  async importContacts(
+    addressBook: AddressBook,
+    entries: ContactImportEntry[],
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<ImportResult<Contact>> {
+    const result: ImportResult<Contact> = { imported: [], failed: [] };
+    const writes = entries.filter(entry => entry.action !== 'skip');
+
+    for (let i = 0; i < writes.length; i += ImportService.BATCH_SIZE) {
+      const batch = writes
+        .slice(i, i + ImportService.BATCH_SIZE)
+        .map(entry => this.resolveContactEntry(entry));
+      const outcomes = await Promise.allSettled(
+        batch.map(({ contact, isUpdate }) =>
+          isUpdate
+            ? this.getDavClient(addressBook).updateContact(addressBook, contact)
+            : this.getDavClient(addressBook).createContact(addressBook, contact)
+        )
+      );
+
+      for (let j = 0; j < batch.length; j++) {
+        const outcome = outcomes[j];
+        const { contact } = batch[j];
+        if (outcome.status === 'fulfilled') {
+          await CacheService.storeCachedContact(addressBook.url, contact);
+          result.imported.push(contact);
+        } else {
+          console.error(`Failed to import contact ${contact.uid}:`, outcome.reason);
+          result.failed.push({
+            resource: contact,
+            error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)
+          });
+        }
+      }
+
+      onProgress?.({ done: Math.min(i + batch.length, writes.length), total: writes.length });
+    }
+
+    return result;
+  }
+
+  /**
+   * Gives an imported contact a UID and drops server state from the file
+   */
+  private prepareContact(contact: Contact): Contact {
+    return {
+      ...contact,
+      uid: contact.uid || `contact-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      etag: undefined,
+      href: undefined,
+      addressBookUrl: undefined,
+      addressBookName: undefined
+    };
+  }
+
+  /**
+   * Builds the contact to write for an import entry and whether it replaces
+   * an existing one
+   */
+  private resolveContactEntry(entry: ContactImportEntry): { contact: Contact; isUpdate: boolean } {
+    const { contact, duplicateOf, action } = entry;
+    if (!duplicateOf || action === 'create') {
+      return { contact: { ...contact }, isUpdate: false };
+    }
+
+    if (action === 'merge') {
+      return { contact: mergeContacts(duplicateOf, contact), isUpdate: true };
+    }
+
+    return {
+      contact: {
+        ...contact,
+        uid: duplicateOf.uid,
+        etag: duplicateOf.etag,
+        href: duplicateOf.href,
+        raw: duplicateOf.raw,
+        photo: contact.photo || duplicateOf.photo
+      },
+      isUpdate: true
+    };
+  }
+}
@@ -0,0 +1,340 @@
+import { CalendarEvent, DateRange, EventAlarm } from "../types/dav";
+import { CacheService } from "./CacheService";
+import { expandRecurringEvents } from "../utils/recurrence";
+import { swUpdateManager } from "../serviceWorkerRegistration";
+
+export interface DueReminder {
+  key: string; // Identifies one alarm of one occurrence
+  event: CalendarEvent;
+  alarm: EventAlarm;
+  triggerAt: Date;
+}
+
+interface ReminderState {
+  fired: { [key: string]: number }; // Trigger times of reminders already shown
+  snoozed: { [key: string]: number }; // Times at which snoozed reminders show again
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Service that shows browser notifications for event reminders (VALARMs)
+ * of the events in the local cache, with snooze and dismiss support
+ */
+export class ReminderService {
+  private static instance: ReminderService;
+  private static readonly STATE_KEY = "event_reminder_state";
+  private static readonly CHECK_INTERVAL = 30 * 1000;
+  // Reminders missed by less than this (e.g. while the tab was asleep) are still shown
+  private static readonly MISSED_REMINDER_WINDOW = 15 * 60 * 1000;
+  private static readonly LOOKAHEAD = 8 * DAY_MS;
+  public static readonly SNOOZE_MINUTES = 5;
+
+  private checkInterval: number | null = null;
+
+  private constructor() {}
+
+  /**
+   * Get the singleton instance of ReminderService
+   */
+  public static getInstance(): ReminderService {
+    if (!ReminderService.instance) {
+      ReminderService.instance = new ReminderService();
+    }
+    return ReminderService.instance;
+  }
+
+  /**
+   * Check whether the browser can show notifications at all
+   */
+  public isSupported(): boolean {
+    return typeof window !== "undefined" && "Notification" in window;
+  }
+
+  /**
+   * Ask for notification permission if the user has not decided yet.
+   * Must be called from a user gesture in most browsers.
+   */
+  public async requestPermission(): Promise<NotificationPermission> {
+    if (!this.isSupported()) {
+      return "denied";
+    }
+    if (Notification.permission !== "default") {
+      return Notification.permission;
+    }
+    try {
+      return await Notification.requestPermission();
+    } catch (error) {
+      console.warn("Failed to request notification permission:", error);
+      return "denied";
+    }
+  }
+
+  /**
+   * Start checking the cached events for due reminders
+   */
+  public start(): void {
+    if (this.checkInterval) {
+      return;
+    }
+
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker.addEventListener(
+        "message",
+        this.handleServiceWorkerMessage
+      );
+    }
+
+    this.checkInterval = window.setInterval(() => {
+      this.checkReminders();
+    }, ReminderService.CHECK_INTERVAL);
+    this.checkReminders();
+  }
+
+  /**
+   * Stop checking for reminders
+   */
+  public stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker.removeEventListener(
+        "message",
+        this.handleServiceWorkerMessage
+      );
+    }
+  }
+
+  /**
+   * Show notifications for all reminders that are due
+   */
+  public async checkReminders(now: Date = new Date()): Promise<void> {
+    const events = await CacheService.getAllCachedEventsInRange(this.getHorizon(now));
+    const dueReminders = this.getDueReminders(events, now);
+    if (dueReminders.length === 0) {
+      return;
+    }
+
+    const state = this.loadState();
+    for (const reminder of dueReminders) {
+      state.fired[reminder.key] = reminder.triggerAt.getTime();
+      delete state.snoozed[reminder.key];
+    }
+    this.saveState(state, now);
+
+    for (const reminder of dueReminders) {
+      await this.showNotification(reminder, now);
+    }
+  }
+
+  /**
+   * Find the reminders that should be shown now and have not been shown yet,
+   * including snoozed reminders whose snooze has run out
+   */
+  public getDueReminders(events: CalendarEvent[], now: Date): DueReminder[] {
+    const state = this.loadState();
+    const due: DueReminder[] = [];
+    const occurrences = expandRecurringEvents(
+      events.filter((event) => event.alarms && event.alarms.length > 0),
+      this.getHorizon(now)
+    );
+
+    for (const event of occurrences) {
+      const start = new Date(event.dtstart).getTime();
+      for (const alarm of event.alarms || []) {
+        const key = `${event.uid}|${start}|${alarm.minutesBefore}`;
+        const triggerAt = new Date(start - alarm.minutesBefore * 60 * 1000);
+        const snoozedUntil = state.snoozed[key];
+
+        const late = now.getTime() - triggerAt.getTime();
+        const isDue = snoozedUntil
+          ? snoozedUntil <= now.getTime()
+          : !state.fired[key] &&
+            late >= 0 &&
+            late < ReminderService.MISSED_REMINDER_WINDOW;
+
+        if (isDue) {
+          due.push({ key, event, alarm, triggerAt });
+        }
+      }
+    }
+
+    return due;
+  }
+
+  /**
+   * Range of the occurrences whose reminders may be due now
+   */
+  private getHorizon(now: Date): DateRange {
+    return {
+      start: new Date(now.getTime() - DAY_MS),
+      end: new Date(now.getTime() + ReminderService.LOOKAHEAD),
+    };
+  }
+
+  /**
+   * Show a reminder again after the given number of minutes
+   */
+  public snooze(
+    key: string,
+    minutes: number = ReminderService.SNOOZE_MINUTES,
+    now: Date = new Date()
+  ): void {
+    const state = this.loadState();
+    state.snoozed[key] = now.getTime() + minutes * 60 * 1000;
+    this.saveState(state, now);
+  }
+
+  /**
+   * Stop a reminder from showing again
+   */
+  public dismiss(key: string, now: Date = new Date()): void {
+    const state = this.loadState();
+    if (state.snoozed[key]) {
+      delete state.snoozed[key];
+      this.saveState(state, now);
+    }
+  }
+
+  /**
+   * Describes when the event starts, e.g. "In 15 minutes (10:00 AM)"
+   */
+  public formatReminderBody(reminder: DueReminder, now: Date): string {
+    const start = new Date(reminder.event.dtstart);
+    const minutes = Math.round((start.getTime() - now.getTime()) / 60000);
+    const time = reminder.event.allDay
+      ? start.toLocaleDateString("en-US", {
+          weekday: "long",
+          month: "short",
+          day: "numeric",
+        })
+      : start.toLocaleTimeString("en-US", {
+          hour: "numeric",
+          minute: "2-digit",
+          hour12: true,
+        });
+
+    let when: string;
+    if (minutes >= 120) {
+      when = `In ${Math.round(minutes / 60)} hours`;
+    } else if (minutes > 1) {
+      when = `In ${minutes} minutes`;
+    } else if (minutes >= -1) {
+      when = "Starting now";
+    } else {
+      when = "Started";
+    }
+
+    const lines = [`${when} (${time})`];
+    if (reminder.alarm.description) {
+      lines.push(reminder.alarm.description);
+    }
+    if (reminder.event.location) {
+      lines.push(reminder.event.location);
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * Show a notification through the service worker (with snooze and dismiss
+   * actions) or, without one, through the page Notification API
+   */
+  private async showNotification(
+    reminder: DueReminder,
+    now: Date
+  ): Promise<void> {
+    if (!this.isSupported() || Notification.permission !== "granted") {
+      return;
+    }
+
+    const title = reminder.event.summary || "Event reminder";
+    const options: NotificationOptions = {
+      body: this.formatReminderBody(reminder, now),
+      tag: reminder.key,
+      icon: "/logo192.png",
+      requireInteraction: true,
+      data: { type: "event-reminder", key: reminder.key },
+    };
+
+    try {
+      const registration = await swUpdateManager.getRegistration();
+
+      if (registration) {
+        await registration.showNotification(title, {
+          ...options,
+          actions: [
+            {
+              action: "snooze",
+              title: `Snooze ${ReminderService.SNOOZE_MINUTES} min`,
+            },
+            { action: "dismiss", title: "Dismiss" },
+          ],
+        });
+        return;
+      }
+
+      const notification = new Notification(title, options);
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+        this.dismiss(reminder.key);
+      };
+    } catch (error) {
+      console.error("Failed to show reminder notification:", error);
+    }
+  }
+
+  /**
+   * Handle snooze and dismiss actions forwarded by the service worker
+   */
+  private handleServiceWorkerMessage = (event: MessageEvent) => {
+    const data = event.data;
+    if (!data || data.type !== "REMINDER_ACTION" || !data.key) {
+      return;
+    }
+
+    if (data.action === "snooze") {
+      this.snooze(data.key, data.minutes || ReminderService.SNOOZE_MINUTES);
+    } else {
+      this.dismiss(data.key);
+    }
+  };
+
+  private loadState(): ReminderState {
+    try {
+      const storedState = localStorage.getItem(ReminderService.STATE_KEY);
+      if (storedState) {
+        const parsed = JSON.parse(storedState);
+        return { fired: parsed.fired || {}, snoozed: parsed.snoozed || {} };
+      }
+    } catch (error) {
+      console.error("Failed to load reminder state:", error);
+    }
+    return { fired: {}, snoozed: {} };
+  }
+
+  private saveState(state: ReminderState, now: Date = new Date()): void {
+    // Forget reminders long past their trigger time, and snoozes of
+    // reminders that never showed again (e.g. their event was deleted)
+    const cutoff = now.getTime() - 2 * DAY_MS;
+    for (const key of Object.keys(state.fired)) {
+      if (state.fired[key] < cutoff) {
+        delete state.fired[key];
+      }
+    }
+    for (const key of Object.keys(state.snoozed)) {
+      if (state.snoozed[key] < cutoff) {
+        delete state.snoozed[key];
+      }
+    }
+
+    try {
+      localStorage.setItem(ReminderService.STATE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.error("Failed to store reminder state:", error);
+    }
+  }
+}
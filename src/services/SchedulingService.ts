@@ -0,0 +1,323 @@
+import { DAVClient } from './DAVClient';
+import { SyncApi } from './SyncService';
+import { CacheService } from './CacheService';
+import {
+  BusyPeriod,
+  Calendar,
+  CalendarEvent,
+  DateRange,
+  FreeBusyResult,
+  ParticipationStatus,
+  SchedulingInfo,
+  SchedulingMessage,
+} from '../types/dav';
+
+/**
+ * Service for inviting attendees and answering invitations through
+ * RFC 6638 implicit scheduling. Events that carry an ORGANIZER and ATTENDEEs
+ * are written to the calendar as usual; the server delivers the iTIP
+ * messages through the schedule outbox and drops incoming ones into the
+ * schedule inbox, which this service processes.
+ */
+export class SchedulingService {
+  private static readonly INFO_KEY = 'caldav_scheduling_info';
+
+  private davClient: DAVClient;
+  private syncService: SyncApi;
+  private info: SchedulingInfo | null = null;
+
+  constructor(davClient: DAVClient, syncService: SyncApi) {
+    this.davClient = davClient;
+    this.syncService = syncService;
+  }
+
+  /**
+   * Discovers the scheduling collections of the current user, falling back to
+   * the last known ones when the server cannot be reached
+   */
+  async loadSchedulingInfo(): Promise<SchedulingInfo> {
+    try {
+      this.info = await this.davClient.discoverScheduling();
+      localStorage.setItem(SchedulingService.INFO_KEY, JSON.stringify(this.info));
+    } catch (error) {
+      console.warn('Failed to discover scheduling support:', error);
+      this.info = this.getSchedulingInfo() || { addresses: [] };
+    }
+    return this.info;
+  }
+
+  /**
+   * Returns the scheduling collections found by the last discovery, if any
+   */
+  getSchedulingInfo(): SchedulingInfo | null {
+    if (this.info) {
+      return this.info;
+    }
+
+    try {
+      const storedInfo = localStorage.getItem(SchedulingService.INFO_KEY);
+      if (storedInfo) {
+        this.info = JSON.parse(storedInfo);
+      }
+    } catch (error) {
+      console.error('Failed to load scheduling info:', error);
+    }
+    return this.info;
+  }
+
+  /**
+   * Whether the server sends invitations for us (it has a schedule outbox)
+   */
+  supportsScheduling(): boolean {
+    return !!this.getSchedulingInfo()?.outboxUrl;
+  }
+
+  /**
+   * Email addresses that identify the current user as organizer or attendee
+   */
+  getUserAddresses(): string[] {
+    return this.getSchedulingInfo()?.addresses || [];
+  }
+
+  isCurrentUser(email: string): boolean {
+    const normalized = email.toLowerCase();
+    return this.getUserAddresses().some(
+      (address) => address.toLowerCase() === normalized
+    );
+  }
+
+  /**
+   * Makes the current user the organizer of an event with attendees, which is
+   * what tells the server to send the invitations when the event is saved
+   */
+  prepareOutgoingEvent(event: CalendarEvent): CalendarEvent {
+    const [address] = this.getUserAddresses();
+    if (!event.attendees || event.attendees.length === 0) {
+      return { ...event, organizer: undefined, attendees: undefined };
+    }
+    if (event.organizer || !address) {
+      return event;
+    }
+    return {
+      ...event,
+      organizer: { email: address },
+      attendees: event.attendees.filter(
+        (attendee) => attendee.email.toLowerCase() !== address.toLowerCase()
+      ),
+    };
+  }
+
+  /**
+   * Returns the event with the current user's participation status replaced.
+   * Saving it makes the server send the reply to the organizer.
+   */
+  respondToEvent(event: CalendarEvent, partstat: ParticipationStatus): CalendarEvent {
+    return {
+      ...event,
+      attendees: (event.attendees || []).map((attendee) =>
+        this.isCurrentUser(attendee.email)
+          ? { ...attendee, partstat, rsvp: false }
+          : attendee
+      ),
+    };
+  }
+
+  /**
+   * Lists the iTIP messages waiting in the schedule inbox
+   */
+  async getInboxMessages(): Promise<SchedulingMessage[]> {
+    const inboxUrl = this.getSchedulingInfo()?.inboxUrl;
+    if (!inboxUrl) {
+      return [];
+    }
+    return this.davClient.getSchedulingMessages(inboxUrl);
+  }
+
+  /**
+   * Looks up the busy periods of the current user and of the given attendees.
+   * The user's own calendars are queried directly; other users are asked
+   * through the schedule outbox. The user's result comes first.
+   */
+  async getFreeBusy(
+    attendees: string[],
+    range: DateRange,
+    calendars: Calendar[]
+  ): Promise<FreeBusyResult[]> {
+    const ownBusy: BusyPeriod[] = [];
+    const eventCalendars = calendars.filter(
+      (calendar) => !calendar.components || calendar.components.indexOf('VEVENT') >= 0
+    );
+    for (const calendar of eventCalendars) {
+      try {
+        ownBusy.push(...(await this.davClient.getFreeBusy(calendar, range)));
+      } catch (error) {
+        console.warn(`Failed to look up free/busy of ${calendar.displayName}:`, error);
+      }
+    }
+
+    const addresses = this.getUserAddresses();
+    const self: FreeBusyResult = {
+      email: addresses[0] || '',
+      busy: ownBusy.sort((a, b) => a.start.getTime() - b.start.getTime()),
+    };
+
+    const others = attendees.filter(
+      (email, index) => !this.isCurrentUser(email) && attendees.indexOf(email) === index
+    );
+    if (others.length === 0) {
+      return [self];
+    }
+
+    const outboxUrl = this.getSchedulingInfo()?.outboxUrl;
+    if (!outboxUrl || !self.email) {
+      return [
+        self,
+        ...others.map((email) => ({
+          email,
+          busy: [],
+          error: 'The server does not support free/busy lookups',
+        })),
+      ];
+    }
+
+    const results = await this.davClient.queryScheduleFreeBusy(outboxUrl, self.email, others, range);
+    return [
+      self,
+      ...others.map(
+        (email) =>
+          results.find((result) => result.email.toLowerCase() === email.toLowerCase()) || {
+            email,
+            busy: [],
+            error: 'No free/busy information',
+          }
+      ),
+    ];
+  }
+
+  /**
+   * Applies an iTIP message to the calendars and removes it from the inbox.
+   * New invitations (REQUEST) are added to the given calendar.
+   */
+  async processInboxMessage(
+    message: SchedulingMessage,
+    calendars: Calendar[],
+    targetCalendar: Calendar
+  ): Promise<void> {
+    for (const incoming of message.events) {
+      const existing = await this.findCachedEvent(incoming.uid);
+      const calendar = existing
+        ? calendars.find((cal) => cal.url === existing.calendarUrl)
+        : undefined;
+
+      if (message.method === 'REQUEST') {
+        if (existing && calendar) {
+          await this.syncService.updateEvent(
+            calendar,
+            this.applyRequest(existing, incoming)
+          );
+        } else if (!existing) {
+          await this.syncService.createEvent(targetCalendar, {
+            ...incoming,
+            etag: undefined,
+            calendarUrl: targetCalendar.url,
+          });
+        }
+      } else if (message.method === 'CANCEL') {
+        if (existing && calendar) {
+          const cancelled = this.applyCancel(existing, incoming);
+          if (cancelled) {
+            await this.syncService.updateEvent(calendar, cancelled);
+          } else {
+            await this.syncService.deleteEvent(calendar, existing);
+          }
+        }
+      } else if (message.method === 'REPLY') {
+        if (existing && calendar) {
+          await this.syncService.updateEvent(
+            calendar,
+            this.applyReply(existing, incoming)
+          );
+        }
+      }
+    }
+
+    await this.dismissInboxMessage(message);
+  }
+
+  /**
+   * Removes a message from the inbox without applying it
+   */
+  async dismissInboxMessage(message: SchedulingMessage): Promise<void> {
+    await this.davClient.deleteSchedulingMessage(message);
+  }
+
+  /**
+   * Merges an updated invitation into the local copy, keeping local reminders
+   */
+  applyRequest(existing: CalendarEvent, incoming: CalendarEvent): CalendarEvent {
+    // The server may store the invitation under a name other than <uid>.ics
+    const base = {
+      href: existing.href,
+      raw: existing.raw,
+      etag: existing.etag,
+      calendarUrl: existing.calendarUrl,
+      alarms: existing.alarms,
+    };
+
+    // An invitation to a single occurrence of a series we already have
+    if (incoming.recurrenceId && !incoming.rrule && existing.rrule) {
+      const recurrenceTime = new Date(incoming.recurrenceId).getTime();
+      const overrides = (existing.overrides || []).filter(
+        (override) =>
+          !override.recurrenceId ||
+          new Date(override.recurrenceId).getTime() !== recurrenceTime
+      );
+      return { ...existing, overrides: [...overrides, incoming] };
+    }
+
+    return { ...incoming, ...base };
+  }
+
+  /**
+   * Returns the series without a cancelled occurrence, or null when the whole
+   * event is cancelled
+   */
+  applyCancel(existing: CalendarEvent, incoming: CalendarEvent): CalendarEvent | null {
+    if (!incoming.recurrenceId || !existing.rrule) {
+      return null;
+    }
+
+    const recurrenceTime = new Date(incoming.recurrenceId).getTime();
+    return {
+      ...existing,
+      exdates: [...(existing.exdates || []), new Date(incoming.recurrenceId)],
+      overrides: (existing.overrides || []).filter(
+        (override) =>
+          !override.recurrenceId ||
+          new Date(override.recurrenceId).getTime() !== recurrenceTime
+      ),
+    };
+  }
+
+  /**
+   * Copies the participation status of the replying attendee into the organizer's copy
+   */
+  applyReply(existing: CalendarEvent, incoming: CalendarEvent): CalendarEvent {
+    const replies = incoming.attendees || [];
+    return {
+      ...existing,
+      attendees: (existing.attendees || []).map((attendee) => {
+        const reply = replies.find(
+          (candidate) =>
+            candidate.email.toLowerCase() === attendee.email.toLowerCase()
+        );
+        return reply ? { ...attendee, partstat: reply.partstat } : attendee;
+      }),
+    };
+  }
+
+  private async findCachedEvent(uid: string): Promise<CalendarEvent | undefined> {
+    const [event] = await CacheService.getCachedEventsByUid(uid);
+    return event;
+  }
+}
@@ -1,9 +1,26 @@
 import { DAVClient } from './DAVClient';
-import { CacheService, PendingOperation } from './CacheService';
+import { CacheService, PendingOperation, SyncConflict } from './CacheService';
 import type { SyncStatus } from './CacheService';
-import { Calendar, AddressBook, CalendarEvent, Contact, DateRange } from '../types/dav';
+import {
+  Calendar,
+  AddressBook,
+  CalendarEvent,
+  Contact,
+  DateRange,
+  SyncCollectionChanges,
+  Task
+} from '../types/dav';
+import { getChangedFields } from '../utils/conflicts';
+import {
+  MAX_OPERATION_ATTEMPTS,
+  getRetryDelay,
+  hasOfflineUid,
+  isNotFoundError,
+  isPermanentError,
+  orderOperations
+} from '../utils/outbox';
 
-export type { SyncStatus } from './CacheService';
+export type { SyncStatus, SyncConflict } from './CacheService';
 
 export interface SyncOptions {
   forceRefresh?: boolean;
@@ -19,19 +36,53 @@ export interface SyncResult {
   errors: string[];
 }
 
+/**
+ * A cached event or contact, identified on the server by its href
+ */
+interface SyncedResource {
+  uid: string;
+  href?: string;
+  etag?: string;
+}
+
 /**
  * Service for handling data synchronization between DAV servers and local cache
  */
 export class SyncService {
+  // Resources requested per calendar-multiget/addressbook-multiget REPORT
+  private static readonly MULTIGET_BATCH_SIZE = 100;
+
   private davClient: DAVClient;
+  private cache: typeof CacheService;
   private syncInProgress = false;
+  private pendingOperationsRun: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
   private syncListeners: ((status: SyncStatus) => void)[] = [];
+  private networkListeners: { online: () => void; offline: () => void } | null = null;
 
-  constructor(davClient: DAVClient) {
+  constructor(davClient: DAVClient, cache: typeof CacheService = CacheService) {
     this.davClient = davClient;
+    this.cache = cache;
     this.setupNetworkListeners();
   }
 
+  /**
+   * Stops listening for network changes and pending retries, e.g. when
+   * the account is removed
+   */
+  dispose(): void {
+    if (this.networkListeners) {
+      window.removeEventListener('online', this.networkListeners.online);
+      window.removeEventListener('offline', this.networkListeners.offline);
+      this.networkListeners = null;
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.syncListeners = [];
+  }
+
   /**
    * Ensures that date properties in an event are proper Date objects
    * This is needed because cached events may have dates serialized as strings
@@ -110,7 +161,7 @@ export class SyncService {
   async syncCalendars(): Promise<void> {
     try {
       const calendars = await this.davClient.discoverCalendars();
-      CacheService.storeCachedCalendars(calendars);
+      await this.cache.storeCachedCalendars(calendars);
     } catch (error) {
       console.error('Failed to sync calendars:', error);
       throw error;
@@ -123,7 +174,7 @@ export class SyncService {
   async syncAddressBooks(): Promise<void> {
     try {
       const addressBooks = await this.davClient.discoverAddressBooks();
-      CacheService.storeCachedAddressBooks(addressBooks);
+      await this.cache.storeCachedAddressBooks(addressBooks);
     } catch (error) {
       console.error('Failed to sync address books:', error);
       throw error;
@@ -134,7 +185,7 @@ export class SyncService {
    * Syncs events for all calendars
    */
   async syncEvents(dateRange?: DateRange, forceRefresh = false): Promise<{ updated: number; errors: string[] }> {
-    const calendars = CacheService.getCachedCalendars();
+    const calendars = await this.cache.getCachedCalendars();
     const errors: string[] = [];
     let updated = 0;
 
@@ -146,17 +197,25 @@ export class SyncService {
 
     for (const calendar of calendars) {
       try {
-        const shouldSync = forceRefresh || this.shouldSyncResource(calendar.url);
+        const shouldSync = forceRefresh || await this.shouldSyncResource(calendar);
         
         if (shouldSync) {
+          // Servers with RFC 6578 support only send what changed since the last sync
+          if (calendar.syncToken) {
+            const result = await this.syncCalendarEvents(calendar);
+            updated += result.updated;
+            continue;
+          }
+
           const events = await this.davClient.getEvents(calendar, defaultDateRange);
           // Add calendar URL to each event
           const eventsWithCalendar = events.map(event => ({
             ...event,
             calendarUrl: calendar.url
           }));
-          CacheService.storeCachedEvents(calendar.url, eventsWithCalendar);
-          CacheService.updateLastSync(calendar.url);
+          await this.cache.storeCachedEventsInRange(calendar.url, defaultDateRange, eventsWithCalendar);
+          await this.cache.clearSyncState(calendar.url);
+          await this.cache.updateLastSync(calendar.url);
           updated += events.length;
         }
       } catch (error) {
@@ -173,18 +232,25 @@ export class SyncService {
    * Syncs contacts for all address books
    */
   async syncContacts(forceRefresh = false): Promise<{ updated: number; errors: string[] }> {
-    const addressBooks = CacheService.getCachedAddressBooks();
+    const addressBooks = await this.cache.getCachedAddressBooks();
     const errors: string[] = [];
     let updated = 0;
 
     for (const addressBook of addressBooks) {
       try {
-        const shouldSync = forceRefresh || this.shouldSyncResource(addressBook.url);
+        const shouldSync = forceRefresh || await this.shouldSyncResource(addressBook);
         
         if (shouldSync) {
+          if (addressBook.syncToken) {
+            const result = await this.syncAddressBookContacts(addressBook);
+            updated += result.updated;
+            continue;
+          }
+
           const contacts = await this.davClient.getContacts(addressBook);
-          CacheService.storeCachedContacts(addressBook.url, contacts);
-          CacheService.updateLastSync(addressBook.url);
+          await this.cache.storeCachedContacts(addressBook.url, contacts);
+          await this.cache.storeSyncState(addressBook.url, { ctag: addressBook.ctag });
+          await this.cache.updateLastSync(addressBook.url);
           updated += contacts.length;
         }
       } catch (error) {
@@ -198,20 +264,99 @@ export class SyncService {
   }
 
   /**
-   * Processes pending operations when back online
+   * Replays the queued operations that are due, collection changes first.
+   * Failed operations back off and are parked after too many attempts.
    */
   async processPendingOperations(): Promise<void> {
-    const pendingOperations = CacheService.getPendingOperations();
-    
-    for (const operation of pendingOperations) {
-      try {
-        await this.executePendingOperation(operation);
-        CacheService.removePendingOperation(operation.id);
-      } catch (error) {
-        console.error(`Failed to execute pending operation ${operation.id}:`, error);
-        // Keep the operation in the queue for retry
+    if (!navigator.onLine) {
+      return;
+    }
+    if (this.pendingOperationsRun) {
+      return this.pendingOperationsRun;
+    }
+
+    this.pendingOperationsRun = (async () => {
+      const now = Date.now();
+      const dueOperations = orderOperations(this.cache.getPendingOperations()).filter(
+        op => op.status === 'pending' && (!op.nextAttemptAt || op.nextAttemptAt.getTime() <= now)
+      );
+
+      for (const { id } of dueOperations) {
+        // Re-read: an earlier replay may have changed or removed it
+        const operation = this.cache.getPendingOperation(id);
+        if (operation) {
+          await this.replayPendingOperation(operation);
+        }
       }
+    })();
+
+    try {
+      await this.pendingOperationsRun;
+    } finally {
+      this.pendingOperationsRun = null;
+      this.scheduleRetry();
+      this.updateSyncStatus({});
+    }
+  }
+
+  /**
+   * Replays a queued operation right away, including one that was parked
+   */
+  async retryPendingOperation(operationId: string): Promise<void> {
+    this.cache.updatePendingOperation(operationId, {
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: undefined
+    });
+
+    const operation = this.cache.getPendingOperation(operationId);
+    if (operation && navigator.onLine) {
+      await this.replayPendingOperation(operation);
+      this.scheduleRetry();
     }
+    this.updateSyncStatus({});
+  }
+
+  /**
+   * Drops a queued operation and puts back the cached copy the server has
+   */
+  async discardPendingOperation(operationId: string): Promise<void> {
+    const operation = this.cache.getPendingOperation(operationId);
+    if (!operation) {
+      return;
+    }
+
+    this.cache.removePendingOperation(operationId);
+    const { type, resourceType, resourceUrl, data } = operation;
+
+    if (resourceType === 'calendar' || resourceType === 'addressbook') {
+      if (navigator.onLine) {
+        try {
+          await (resourceType === 'calendar' ? this.syncCalendars() : this.syncAddressBooks());
+        } catch (error) {
+          console.error('Failed to refresh collections after discarding a change:', error);
+        }
+      }
+    } else if (resourceType === 'task') {
+      await this.discardTaskChange(type, resourceUrl, data as Task);
+    } else if (type === 'move' || type === 'copy') {
+      const resource = data as CalendarEvent | Contact;
+      if (operation.targetUrl) {
+        await this.removeCachedResource(resourceType, operation.targetUrl, resource.uid);
+      }
+      if (type === 'move') {
+        await this.storeCachedResource(resourceType, resourceUrl, resource);
+      }
+    } else if (type === 'create') {
+      await this.removeCachedResource(resourceType, resourceUrl, (data as CalendarEvent | Contact).uid);
+    } else if (type === 'delete') {
+      // The queued delete still holds the last server copy
+      await this.storeCachedResource(resourceType, resourceUrl, data as CalendarEvent | Contact);
+    } else {
+      await this.restoreServerCopy(resourceType, resourceUrl, data as CalendarEvent | Contact);
+    }
+
+    this.updateSyncStatus({});
   }
 
   /**
@@ -226,19 +371,25 @@ export class SyncService {
     };
     
     // Always update cache optimistically first (for immediate UI feedback)
-    const cachedEvents = CacheService.getCachedEvents(calendar.url);
-    const eventsArray = cachedEvents ? [...cachedEvents.events] : [];
-    eventsArray.push(eventWithCalendar);
-    CacheService.storeCachedEvents(calendar.url, eventsArray, cachedEvents?.etag);
+    await this.cache.storeCachedEvent(calendar.url, eventWithCalendar);
     
     if (navigator.onLine) {
       try {
         await this.davClient.createEvent(calendar, eventWithCalendar);
+        await this.storeCachedResource('event', calendar.url, eventWithCalendar);
         console.log('Event created successfully on server');
       } catch (error) {
+        if (await this.handleWriteConflict(error, {
+          type: 'create',
+          resourceType: 'event',
+          resourceUrl: calendar.url,
+          local: eventWithCalendar
+        })) {
+          return;
+        }
         console.warn('Failed to create event on server, adding to pending operations:', error);
         // If online but failed, add to pending operations
-        CacheService.addPendingOperation({
+        this.cache.addPendingOperation({
           type: 'create',
           resourceType: 'event',
           resourceUrl: calendar.url,
@@ -249,7 +400,7 @@ export class SyncService {
     } else {
       console.log('Offline: adding event to pending operations');
       // Offline: add to pending operations
-      CacheService.addPendingOperation({
+      this.cache.addPendingOperation({
         type: 'create',
         resourceType: 'event',
         resourceUrl: calendar.url,
@@ -259,31 +410,33 @@ export class SyncService {
   }
 
   /**
-   * Updates an event with offline support
+   * Updates an event with offline support, returning it as saved (with the
+   * server's new ETag once written)
    */
-  async updateEvent(calendar: Calendar, event: CalendarEvent): Promise<void> {
+  async updateEvent(calendar: Calendar, event: CalendarEvent): Promise<CalendarEvent> {
     // Ensure the event has the correct calendar URL
     const eventWithCalendar = { ...event, calendarUrl: calendar.url };
     
     // Always update cache optimistically first (for immediate UI feedback)
-    const cachedEvents = CacheService.getCachedEvents(calendar.url);
-    if (cachedEvents) {
-      const eventsArray = [...cachedEvents.events];
-      const index = eventsArray.findIndex(e => e.uid === event.uid);
-      if (index !== -1) {
-        eventsArray[index] = eventWithCalendar;
-        CacheService.storeCachedEvents(calendar.url, eventsArray, cachedEvents.etag);
-      }
-    }
+    await this.cache.storeCachedEvent(calendar.url, eventWithCalendar);
     
     if (navigator.onLine) {
       try {
         await this.davClient.updateEvent(calendar, eventWithCalendar);
+        await this.storeCachedResource('event', calendar.url, eventWithCalendar);
         console.log('Event updated successfully on server');
       } catch (error) {
+        if (await this.handleWriteConflict(error, {
+          type: 'update',
+          resourceType: 'event',
+          resourceUrl: calendar.url,
+          local: eventWithCalendar
+        })) {
+          return eventWithCalendar;
+        }
         console.warn('Failed to update event on server, adding to pending operations:', error);
         // If online but failed, add to pending operations
-        CacheService.addPendingOperation({
+        this.cache.addPendingOperation({
           type: 'update',
           resourceType: 'event',
           resourceUrl: calendar.url,
@@ -294,13 +447,15 @@ export class SyncService {
     } else {
       console.log('Offline: adding event update to pending operations');
       // Offline: add to pending operations
-      CacheService.addPendingOperation({
+      this.cache.addPendingOperation({
         type: 'update',
         resourceType: 'event',
         resourceUrl: calendar.url,
         data: eventWithCalendar
       });
     }
+
+    return eventWithCalendar;
   }
 
   /**
@@ -308,20 +463,24 @@ export class SyncService {
    */
   async deleteEvent(calendar: Calendar, event: CalendarEvent): Promise<void> {
     // Always remove from cache optimistically first (for immediate UI feedback)
-    const cachedEvents = CacheService.getCachedEvents(calendar.url);
-    if (cachedEvents) {
-      const filteredEvents = cachedEvents.events.filter(e => e.uid !== event.uid);
-      CacheService.storeCachedEvents(calendar.url, filteredEvents, cachedEvents.etag);
-    }
+    await this.cache.removeCachedEvent(calendar.url, event.uid);
     
     if (navigator.onLine) {
       try {
         await this.davClient.deleteEvent(calendar, event);
         console.log('Event deleted successfully on server');
       } catch (error) {
+        if (await this.handleWriteConflict(error, {
+          type: 'delete',
+          resourceType: 'event',
+          resourceUrl: calendar.url,
+          local: event
+        })) {
+          return;
+        }
         console.warn('Failed to delete event on server, adding to pending operations:', error);
         // If online but failed, add to pending operations
-        CacheService.addPendingOperation({
+        this.cache.addPendingOperation({
           type: 'delete',
           resourceType: 'event',
           resourceUrl: calendar.url,
@@ -332,7 +491,7 @@ export class SyncService {
     } else {
       console.log('Offline: adding event deletion to pending operations');
       // Offline: add to pending operations
-      CacheService.addPendingOperation({
+      this.cache.addPendingOperation({
         type: 'delete',
         resourceType: 'event',
         resourceUrl: calendar.url,
@@ -350,14 +509,18 @@ export class SyncService {
         await this.davClient.createContact(addressBook, contact);
         
         // Update cache immediately
-        const cachedContacts = CacheService.getCachedContacts(addressBook.url);
-        if (cachedContacts) {
-          cachedContacts.contacts.push(contact);
-          CacheService.storeCachedContacts(addressBook.url, cachedContacts.contacts, cachedContacts.etag);
-        }
+        await this.cache.storeCachedContact(addressBook.url, contact);
       } catch (error) {
+        if (await this.handleWriteConflict(error, {
+          type: 'create',
+          resourceType: 'contact',
+          resourceUrl: addressBook.url,
+          local: contact
+        })) {
+          return;
+        }
         // If online but failed, add to pending operations
-        CacheService.addPendingOperation({
+        this.cache.addPendingOperation({
           type: 'create',
           resourceType: 'contact',
           resourceUrl: addressBook.url,
@@ -367,18 +530,14 @@ export class SyncService {
       }
     } else {
       // Offline: add to pending operations and update cache optimistically
-      CacheService.addPendingOperation({
+      this.cache.addPendingOperation({
         type: 'create',
         resourceType: 'contact',
         resourceUrl: addressBook.url,
         data: contact
       });
 
-      const cachedContacts = CacheService.getCachedContacts(addressBook.url);
-      if (cachedContacts) {
-        cachedContacts.contacts.push(contact);
-        CacheService.storeCachedContacts(addressBook.url, cachedContacts.contacts, cachedContacts.etag);
-      }
+      await this.cache.storeCachedContact(addressBook.url, contact);
     }
   }
 
@@ -391,17 +550,18 @@ export class SyncService {
         await this.davClient.updateContact(addressBook, contact);
         
         // Update cache immediately
-        const cachedContacts = CacheService.getCachedContacts(addressBook.url);
-        if (cachedContacts) {
-          const index = cachedContacts.contacts.findIndex(c => c.uid === contact.uid);
-          if (index !== -1) {
-            cachedContacts.contacts[index] = contact;
-            CacheService.storeCachedContacts(addressBook.url, cachedContacts.contacts, cachedContacts.etag);
-          }
-        }
+        await this.cache.storeCachedContact(addressBook.url, contact);
       } catch (error) {
+        if (await this.handleWriteConflict(error, {
+          type: 'update',
+          resourceType: 'contact',
+          resourceUrl: addressBook.url,
+          local: contact
+        })) {
+          return;
+        }
         // If online but failed, add to pending operations
-        CacheService.addPendingOperation({
+        this.cache.addPendingOperation({
           type: 'update',
           resourceType: 'contact',
           resourceUrl: addressBook.url,
@@ -411,21 +571,14 @@ export class SyncService {
       }
     } else {
       // Offline: add to pending operations and update cache optimistically
-      CacheService.addPendingOperation({
+      this.cache.addPendingOperation({
         type: 'update',
         resourceType: 'contact',
         resourceUrl: addressBook.url,
         data: contact
       });
 
-      const cachedContacts = CacheService.getCachedContacts(addressBook.url);
-      if (cachedContacts) {
-        const index = cachedContacts.contacts.findIndex(c => c.uid === contact.uid);
-        if (index !== -1) {
-          cachedContacts.contacts[index] = contact;
-          CacheService.storeCachedContacts(addressBook.url, cachedContacts.contacts, cachedContacts.etag);
-        }
-      }
+      await this.cache.storeCachedContact(addressBook.url, contact);
     }
   }
 
@@ -438,14 +591,18 @@ export class SyncService {
         await this.davClient.deleteContact(addressBook, contact);
         
         // Remove from cache immediately
-        const cachedContacts = CacheService.getCachedContacts(addressBook.url);
-        if (cachedContacts) {
-          const filteredContacts = cachedContacts.contacts.filter(c => c.uid !== contact.uid);
-          CacheService.storeCachedContacts(addressBook.url, filteredContacts, cachedContacts.etag);
-        }
+        await this.cache.removeCachedContact(addressBook.url, contact.uid);
       } catch (error) {
+        if (await this.handleWriteConflict(error, {
+          type: 'delete',
+          resourceType: 'contact',
+          resourceUrl: addressBook.url,
+          local: contact
+        })) {
+          return;
+        }
         // If online but failed, add to pending operations
-        CacheService.addPendingOperation({
+        this.cache.addPendingOperation({
           type: 'delete',
           resourceType: 'contact',
           resourceUrl: addressBook.url,
@@ -455,19 +612,112 @@ export class SyncService {
       }
     } else {
       // Offline: add to pending operations and remove from cache optimistically
-      CacheService.addPendingOperation({
+      this.cache.addPendingOperation({
         type: 'delete',
         resourceType: 'contact',
         resourceUrl: addressBook.url,
         data: contact
       });
 
-      const cachedContacts = CacheService.getCachedContacts(addressBook.url);
-      if (cachedContacts) {
-        const filteredContacts = cachedContacts.contacts.filter(c => c.uid !== contact.uid);
-        CacheService.storeCachedContacts(addressBook.url, filteredContacts, cachedContacts.etag);
+      await this.cache.removeCachedContact(addressBook.url, contact.uid);
+    }
+  }
+
+  /**
+   * Moves an event to another calendar of this account with offline support.
+   * The server moves the stored resource, so edits are written before.
+   */
+  async moveEvent(from: Calendar, to: Calendar, event: CalendarEvent): Promise<CalendarEvent> {
+    return this.transferResource('move', 'event', from, to, event);
+  }
+
+  /**
+   * Copies an event to another calendar of this account with offline
+   * support. A copy into the same calendar is created under a new UID,
+   * since a calendar cannot hold a UID twice.
+   */
+  async copyEvent(from: Calendar, to: Calendar, event: CalendarEvent): Promise<CalendarEvent> {
+    if (from.url === to.url) {
+      const copy: CalendarEvent = {
+        ...event,
+        uid: `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        calendarUrl: to.url,
+        href: undefined,
+        etag: undefined,
+        raw: undefined
+      };
+      await this.createEvent(to, copy);
+      return copy;
+    }
+
+    return this.transferResource('copy', 'event', from, to, event);
+  }
+
+  /**
+   * Moves a contact to another address book of this account with offline support
+   */
+  async moveContact(from: AddressBook, to: AddressBook, contact: Contact): Promise<Contact> {
+    return this.transferResource('move', 'contact', from, to, contact);
+  }
+
+  /**
+   * Copies a contact to another address book of this account with offline
+   * support, under a new UID when it is the same address book
+   */
+  async copyContact(from: AddressBook, to: AddressBook, contact: Contact): Promise<Contact> {
+    if (from.url === to.url) {
+      const copy: Contact = {
+        ...contact,
+        uid: `contact-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        href: undefined,
+        etag: undefined,
+        raw: undefined
+      };
+      await this.createContact(to, copy);
+      return copy;
+    }
+
+    return this.transferResource('copy', 'contact', from, to, contact);
+  }
+
+  /**
+   * Creates a task with offline support and returns it with its new ETag.
+   * Conflicts are not queued; they are reported to the caller.
+   */
+  async createTask(calendar: Calendar, task: Task): Promise<Task> {
+    return this.writeTask('create', calendar, { ...task, calendarUrl: calendar.url });
+  }
+
+  /**
+   * Updates a task with offline support and returns it with its new ETag
+   */
+  async updateTask(calendar: Calendar, task: Task): Promise<Task> {
+    return this.writeTask('update', calendar, { ...task, calendarUrl: calendar.url });
+  }
+
+  /**
+   * Deletes a task with offline support
+   */
+  async deleteTask(calendar: Calendar, task: Task): Promise<void> {
+    await this.writeTask('delete', calendar, task);
+  }
+
+  /**
+   * Gets the tasks of a task list with cache fallback
+   */
+  async getTasks(calendar: Calendar): Promise<Task[]> {
+    if (navigator.onLine) {
+      try {
+        const tasks = await this.davClient.getTasks(calendar);
+        await this.cache.storeCachedTasks(calendar.url, tasks);
+        return tasks;
+      } catch (error) {
+        console.warn('Failed to fetch tasks from server, falling back to cache:', error);
       }
     }
+
+    const tasks = await this.cache.getCachedTasks(calendar.url);
+    return tasks.map(task => ({ ...task, calendarUrl: task.calendarUrl || calendar.url }));
   }
 
   /**
@@ -477,14 +727,20 @@ export class SyncService {
     // Try to get from server first if online
     if (navigator.onLine) {
       try {
+        if (calendar.syncToken) {
+          const { events } = await this.syncCalendarEvents(calendar);
+          return this.filterEventsInRange(events, dateRange);
+        }
+
         const events = await this.davClient.getEvents(calendar, dateRange);
         // Add calendar URL to each event
         const eventsWithCalendar = events.map(event => ({
           ...event,
           calendarUrl: calendar.url
         }));
-        CacheService.storeCachedEvents(calendar.url, eventsWithCalendar);
-        CacheService.updateLastSync(calendar.url);
+        await this.cache.storeCachedEventsInRange(calendar.url, dateRange, eventsWithCalendar);
+        await this.cache.clearSyncState(calendar.url);
+        await this.cache.updateLastSync(calendar.url);
         return eventsWithCalendar;
       } catch (error) {
         console.warn('Failed to fetch events from server, falling back to cache:', error);
@@ -492,8 +748,7 @@ export class SyncService {
     }
 
     // Fallback to cache
-    const cachedEvents = CacheService.getCachedEvents(calendar.url);
-    const events = cachedEvents?.events || [];
+    const events = await this.cache.getCachedEventsInRange(calendar.url, dateRange) || [];
     // Ensure calendar URL is set for cached events
     return events.map(event => ({
       ...event,
@@ -508,9 +763,15 @@ export class SyncService {
     // Try to get from server first if online
     if (navigator.onLine) {
       try {
+        if (addressBook.syncToken) {
+          const { contacts } = await this.syncAddressBookContacts(addressBook);
+          return contacts;
+        }
+
         const contacts = await this.davClient.getContacts(addressBook);
-        CacheService.storeCachedContacts(addressBook.url, contacts);
-        CacheService.updateLastSync(addressBook.url);
+        await this.cache.storeCachedContacts(addressBook.url, contacts);
+        await this.cache.storeSyncState(addressBook.url, { ctag: addressBook.ctag });
+        await this.cache.updateLastSync(addressBook.url);
         return contacts;
       } catch (error) {
         console.warn('Failed to fetch contacts from server, falling back to cache:', error);
@@ -518,10 +779,24 @@ export class SyncService {
     }
 
     // Fallback to cache
-    const cachedContacts = CacheService.getCachedContacts(addressBook.url);
+    const cachedContacts = await this.cache.getCachedContacts(addressBook.url);
     return cachedContacts?.contacts || [];
   }
 
+  /**
+   * Gets the calendars of this account as last synced
+   */
+  async getCachedCalendars(): Promise<Calendar[]> {
+    return this.cache.getCachedCalendars();
+  }
+
+  /**
+   * Gets the address books of this account as last synced
+   */
+  async getCachedAddressBooks(): Promise<AddressBook[]> {
+    return this.cache.getCachedAddressBooks();
+  }
+
   /**
    * Adds a sync status listener
    */
@@ -553,9 +828,9 @@ export class SyncService {
         const newCalendar = await this.davClient.createCalendar(displayName, color, description);
         
         // Update cache immediately
-        const cachedCalendars = CacheService.getCachedCalendars();
+        const cachedCalendars = await this.cache.getCachedCalendars();
         const updatedCalendars = [...cachedCalendars, newCalendar];
-        CacheService.storeCachedCalendars(updatedCalendars);
+        await this.cache.storeCachedCalendars(updatedCalendars);
         
         console.log('Calendar created successfully on server');
         return newCalendar;
@@ -578,12 +853,12 @@ export class SyncService {
         await this.davClient.deleteCalendar(calendar);
         
         // Remove from cache immediately
-        const cachedCalendars = CacheService.getCachedCalendars();
+        const cachedCalendars = await this.cache.getCachedCalendars();
         const updatedCalendars = cachedCalendars.filter(c => c.url !== calendar.url);
-        CacheService.storeCachedCalendars(updatedCalendars);
+        await this.cache.storeCachedCalendars(updatedCalendars);
         
         // Also remove all cached events for this calendar
-        CacheService.clearCachedEvents(calendar.url);
+        await this.cache.clearCachedEvents(calendar.url);
         
         console.log('Calendar deleted successfully from server');
       } catch (error) {
@@ -608,9 +883,9 @@ export class SyncService {
         const newAddressBook = await this.davClient.createAddressBook(displayName, description);
         
         // Update cache immediately
-        const cachedAddressBooks = CacheService.getCachedAddressBooks();
+        const cachedAddressBooks = await this.cache.getCachedAddressBooks();
         const updatedAddressBooks = [...cachedAddressBooks, newAddressBook];
-        CacheService.storeCachedAddressBooks(updatedAddressBooks);
+        await this.cache.storeCachedAddressBooks(updatedAddressBooks);
         
         console.log('Address book created successfully on server');
         return newAddressBook;
@@ -637,11 +912,11 @@ export class SyncService {
     };
     
     // Always update cache optimistically first (for immediate UI feedback)
-    const cachedAddressBooks = CacheService.getCachedAddressBooks();
+    const cachedAddressBooks = await this.cache.getCachedAddressBooks();
     const updatedAddressBooks = cachedAddressBooks.map(ab => 
       ab.url === addressBook.url ? updatedAddressBook : ab
     );
-    CacheService.storeCachedAddressBooks(updatedAddressBooks);
+    await this.cache.storeCachedAddressBooks(updatedAddressBooks);
     
     if (navigator.onLine) {
       try {
@@ -652,22 +927,22 @@ export class SyncService {
       } catch (error) {
         console.warn('Failed to update address book on server, will retry when online:', error);
         // If online but failed, add to pending operations
-        CacheService.addPendingOperation({
+        this.cache.addPendingOperation({
           type: 'update',
-          resourceType: 'addressbook' as any,
+          resourceType: 'addressbook',
           resourceUrl: addressBook.url,
-          data: updatedAddressBook as any
+          data: updatedAddressBook
         });
         // Don't throw error since we've cached it optimistically
       }
     } else {
       console.log('Offline: adding address book update to pending operations');
       // Offline: add to pending operations
-      CacheService.addPendingOperation({
+      this.cache.addPendingOperation({
         type: 'update',
-        resourceType: 'addressbook' as any,
+        resourceType: 'addressbook',
         resourceUrl: addressBook.url,
-        data: updatedAddressBook as any
+        data: updatedAddressBook
       });
     }
     
@@ -684,12 +959,12 @@ export class SyncService {
         await this.davClient.deleteAddressBook(addressBook);
         
         // Remove from cache immediately
-        const cachedAddressBooks = CacheService.getCachedAddressBooks();
+        const cachedAddressBooks = await this.cache.getCachedAddressBooks();
         const updatedAddressBooks = cachedAddressBooks.filter(ab => ab.url !== addressBook.url);
-        CacheService.storeCachedAddressBooks(updatedAddressBooks);
+        await this.cache.storeCachedAddressBooks(updatedAddressBooks);
         
         // Also remove all cached contacts for this address book
-        CacheService.clearCachedContacts(addressBook.url);
+        await this.cache.clearCachedContacts(addressBook.url);
         
         console.log('Address book deleted successfully from server');
       } catch (error) {
@@ -709,11 +984,11 @@ export class SyncService {
     const updatedCalendar = { ...calendar, color };
     
     // Always update cache optimistically first (for immediate UI feedback)
-    const cachedCalendars = CacheService.getCachedCalendars();
+    const cachedCalendars = await this.cache.getCachedCalendars();
     const updatedCalendars = cachedCalendars.map(cal => 
       cal.url === calendar.url ? updatedCalendar : cal
     );
-    CacheService.storeCachedCalendars(updatedCalendars);
+    await this.cache.storeCachedCalendars(updatedCalendars);
     
     if (navigator.onLine) {
       try {
@@ -722,22 +997,22 @@ export class SyncService {
       } catch (error) {
         console.warn('Failed to update calendar color on server, will retry when online:', error);
         // If online but failed, add to pending operations
-        CacheService.addPendingOperation({
+        this.cache.addPendingOperation({
           type: 'update',
-          resourceType: 'calendar' as any, // We'll need to extend the type
+          resourceType: 'calendar',
           resourceUrl: calendar.url,
-          data: { ...calendar, color } as any
+          data: { ...calendar, color }
         });
         // Don't throw error since we've cached it optimistically
       }
     } else {
       console.log('Offline: adding calendar color update to pending operations');
       // Offline: add to pending operations
-      CacheService.addPendingOperation({
+      this.cache.addPendingOperation({
         type: 'update',
-        resourceType: 'calendar' as any, // We'll need to extend the type
+        resourceType: 'calendar',
         resourceUrl: calendar.url,
-        data: { ...calendar, color } as any
+        data: { ...calendar, color }
       });
     }
   }
@@ -760,11 +1035,11 @@ export class SyncService {
     };
     
     // Always update cache optimistically first (for immediate UI feedback)
-    const cachedCalendars = CacheService.getCachedCalendars();
+    const cachedCalendars = await this.cache.getCachedCalendars();
     const updatedCalendars = cachedCalendars.map(cal => 
       cal.url === calendar.url ? updatedCalendar : cal
     );
-    CacheService.storeCachedCalendars(updatedCalendars);
+    await this.cache.storeCachedCalendars(updatedCalendars);
     
     if (navigator.onLine) {
       try {
@@ -777,43 +1052,503 @@ export class SyncService {
       } catch (error) {
         console.warn('Failed to update calendar on server, will retry when online:', error);
         // If online but failed, add to pending operations
-        CacheService.addPendingOperation({
+        this.cache.addPendingOperation({
           type: 'update',
-          resourceType: 'calendar' as any,
+          resourceType: 'calendar',
           resourceUrl: calendar.url,
-          data: updatedCalendar as any
+          data: updatedCalendar
         });
         // Don't throw error since we've cached it optimistically
       }
     } else {
       console.log('Offline: adding calendar update to pending operations');
       // Offline: add to pending operations
-      CacheService.addPendingOperation({
+      this.cache.addPendingOperation({
         type: 'update',
-        resourceType: 'calendar' as any,
+        resourceType: 'calendar',
         resourceUrl: calendar.url,
-        data: updatedCalendar as any
+        data: updatedCalendar
       });
     }
     
     return updatedCalendar;
   }
 
+  /**
+   * Fetches the server copy of a resource whose write failed with 412
+   * Precondition Failed and queues the conflict for the user to resolve.
+   * Returns null when both copies turn out to be the same.
+   */
+  async recordConflict(conflict: Omit<SyncConflict, 'id' | 'timestamp' | 'server'>): Promise<SyncConflict | null> {
+    const server = conflict.resourceType === 'event'
+      ? await this.davClient.getEvent(
+          { url: conflict.resourceUrl, displayName: '' },
+          conflict.local as CalendarEvent
+        )
+      : await this.davClient.getContact(
+          { url: conflict.resourceUrl, displayName: '' },
+          conflict.local as Contact
+        );
+
+    // E.g. a create that reached the server before we lost the connection
+    const candidate: SyncConflict = { ...conflict, server, id: '', timestamp: new Date() };
+    if (server && conflict.type !== 'delete' && getChangedFields(candidate).length === 0) {
+      await this.storeCachedResource(conflict.resourceType, conflict.resourceUrl, server);
+      return null;
+    }
+
+    const recorded = this.cache.addSyncConflict({ ...conflict, server });
+    this.updateSyncStatus({});
+    return recorded;
+  }
+
+  /**
+   * Resolves a conflict by keeping our version, the server version, or a
+   * merged version built from the server copy
+   */
+  async resolveConflict(
+    conflictId: string,
+    choice: 'local' | 'server' | 'merged',
+    merged?: CalendarEvent | Contact
+  ): Promise<void> {
+    const conflict = this.cache.getSyncConflicts().find(c => c.id === conflictId);
+    if (!conflict) {
+      return;
+    }
+
+    const { resourceType, resourceUrl, server } = conflict;
+    let resolved: CalendarEvent | Contact | null;
+    if (choice === 'server') {
+      resolved = server;
+    } else if (choice === 'merged' && merged) {
+      resolved = merged;
+    } else {
+      resolved = conflict.type === 'delete'
+        ? null
+        : {
+            ...conflict.local,
+            etag: server?.etag,
+            href: server?.href ?? conflict.local.href,
+            // Apply our fields to the server copy so its other properties survive
+            raw: server?.raw ?? conflict.local.raw
+          };
+    }
+
+    this.cache.removeSyncConflict(conflictId);
+
+    if (choice !== 'server') {
+      try {
+        await this.writeResolvedResource(conflict, resolved);
+      } catch (error) {
+        // The server copy changed again while the dialog was open
+        if (!resolved || !await this.handleWriteConflict(error, {
+          type: conflict.type,
+          resourceType,
+          resourceUrl,
+          local: resolved
+        })) {
+          this.cache.addSyncConflict(conflict);
+          this.updateSyncStatus({});
+          throw error;
+        }
+        return;
+      }
+    }
+
+    if (resolved) {
+      await this.storeCachedResource(resourceType, resourceUrl, resolved);
+    } else {
+      await this.removeCachedResource(resourceType, resourceUrl, conflict.local.uid);
+    }
+    this.updateSyncStatus({});
+  }
+
   /**
    * Gets current sync status
    */
   getSyncStatus(): SyncStatus {
-    const status = CacheService.getSyncStatus();
+    const status = this.cache.getSyncStatus();
     status.isOnline = navigator.onLine;
-    status.pendingOperations = CacheService.getPendingOperations();
+    status.pendingOperations = this.cache.getPendingOperations();
+    status.conflicts = this.cache.getSyncConflicts();
     status.syncInProgress = this.syncInProgress;
     return status;
   }
 
   // Private methods
 
-  private shouldSyncResource(resourceUrl: string): boolean {
-    const lastSync = CacheService.getLastSync(resourceUrl);
+  /**
+   * Records a conflict if the error is a 412 Precondition Failed from a
+   * conditional write. Returns whether it was one.
+   */
+  private async handleWriteConflict(
+    error: unknown,
+    conflict: Omit<SyncConflict, 'id' | 'timestamp' | 'server'>
+  ): Promise<boolean> {
+    if (!(error instanceof Error) || !error.message.includes(' conflict:')) {
+      return false;
+    }
+
+    try {
+      await this.recordConflict(conflict);
+      return true;
+    } catch (fetchError) {
+      console.error('Failed to fetch the server copy of a conflicting resource:', fetchError);
+      return false;
+    }
+  }
+
+  /**
+   * Writes the chosen version of a conflicting resource, conditional on the
+   * server copy it was compared with
+   */
+  private async writeResolvedResource(
+    conflict: SyncConflict,
+    resolved: CalendarEvent | Contact | null
+  ): Promise<void> {
+    const { resourceType, resourceUrl, server } = conflict;
+    const collection = { url: resourceUrl, displayName: '' };
+
+    if (resourceType === 'event') {
+      if (!resolved) {
+        if (server) await this.davClient.deleteEvent(collection, server as CalendarEvent);
+      } else if (server) {
+        await this.davClient.updateEvent(collection, { ...resolved as CalendarEvent, etag: server.etag });
+      } else {
+        await this.davClient.createEvent(collection, { ...resolved as CalendarEvent, etag: undefined, href: undefined });
+      }
+    } else if (!resolved) {
+      if (server) await this.davClient.deleteContact(collection, server as Contact);
+    } else if (server) {
+      await this.davClient.updateContact(collection, { ...resolved as Contact, etag: server.etag });
+    } else {
+      await this.davClient.createContact(collection, { ...resolved as Contact, etag: undefined, href: undefined });
+    }
+  }
+
+  /**
+   * Writes a task change to the cache first, then to the server, queueing it
+   * when offline or when the server cannot be reached
+   */
+  private async writeTask(type: PendingOperation['type'], calendar: Calendar, task: Task): Promise<Task> {
+    if (type === 'delete') {
+      await this.cache.removeCachedTask(calendar.url, task.uid);
+    } else {
+      await this.cache.storeCachedTask(calendar.url, task);
+    }
+
+    if (navigator.onLine) {
+      try {
+        switch (type) {
+          case 'create':
+            await this.davClient.createTask(calendar, task);
+            break;
+          case 'update':
+            await this.davClient.updateTask(calendar, task);
+            break;
+          case 'delete':
+            await this.davClient.deleteTask(calendar, task);
+            return task;
+        }
+        // Keep the new ETag for the next update
+        await this.cache.storeCachedTask(calendar.url, task);
+        return task;
+      } catch (error) {
+        if (error instanceof Error && error.message.includes(' conflict:')) {
+          throw error;
+        }
+        console.warn(`Failed to ${type} task on server, adding to pending operations:`, error);
+      }
+    }
+
+    this.cache.addPendingOperation({
+      type,
+      resourceType: 'task',
+      resourceUrl: calendar.url,
+      data: task
+    });
+    return task;
+  }
+
+  /**
+   * Puts back the cached copy of a task after its queued change is dropped
+   */
+  private async discardTaskChange(type: PendingOperation['type'], calendarUrl: string, task: Task): Promise<void> {
+    if (type === 'create') {
+      await this.cache.removeCachedTask(calendarUrl, task.uid);
+    } else if (type === 'delete') {
+      // The queued delete still holds the last server copy
+      await this.cache.storeCachedTask(calendarUrl, task);
+    } else if (navigator.onLine) {
+      await this.getTasks({ url: calendarUrl, displayName: '' });
+    }
+  }
+
+  /**
+   * Adds or replaces a resource in the cache of its collection
+   */
+  private async storeCachedResource(
+    resourceType: SyncConflict['resourceType'],
+    collectionUrl: string,
+    resource: CalendarEvent | Contact
+  ): Promise<void> {
+    if (resourceType === 'event') {
+      await this.cache.storeCachedEvent(collectionUrl, { ...resource as CalendarEvent, calendarUrl: collectionUrl });
+    } else {
+      await this.cache.storeCachedContact(collectionUrl, resource as Contact);
+    }
+  }
+
+  private async removeCachedResource(
+    resourceType: SyncConflict['resourceType'],
+    collectionUrl: string,
+    uid: string
+  ): Promise<void> {
+    if (resourceType === 'event') {
+      await this.cache.removeCachedEvent(collectionUrl, uid);
+    } else {
+      await this.cache.removeCachedContact(collectionUrl, uid);
+    }
+  }
+
+  /**
+   * Moves or copies an event or contact with MOVE/COPY, updating the cache
+   * optimistically. Transfers that fail for a reason retrying cannot fix
+   * are undone and reported; others are queued.
+   */
+  private async transferResource<T extends CalendarEvent | Contact>(
+    type: 'move' | 'copy',
+    resourceType: SyncConflict['resourceType'],
+    from: Calendar | AddressBook,
+    to: Calendar | AddressBook,
+    resource: T
+  ): Promise<T> {
+    const placeholder = { ...resource, href: undefined, etag: undefined };
+
+    // Never reached the server: create it in the target instead
+    const queuedCreate = this.cache.getPendingOperations().find(
+      op => op.type === 'create' &&
+        op.resourceType === resourceType &&
+        op.resourceUrl === from.url &&
+        (op.data as CalendarEvent | Contact).uid === resource.uid
+    );
+    if (queuedCreate) {
+      if (type === 'move') {
+        this.cache.removePendingOperation(queuedCreate.id);
+        await this.removeCachedResource(resourceType, from.url, resource.uid);
+      }
+      if (resourceType === 'event') {
+        await this.createEvent(to, placeholder as CalendarEvent);
+      } else {
+        await this.createContact(to, placeholder as Contact);
+      }
+      return placeholder;
+    }
+
+    if (type === 'move') {
+      await this.removeCachedResource(resourceType, from.url, resource.uid);
+    }
+    await this.storeCachedResource(resourceType, to.url, placeholder);
+
+    if (navigator.onLine) {
+      try {
+        const transferred = await this.transferOnServer(type, resourceType, from, to, resource);
+        await this.storeCachedResource(resourceType, to.url, transferred);
+        return transferred as T;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (isPermanentError(error) || message.includes(' conflict:')) {
+          await this.removeCachedResource(resourceType, to.url, resource.uid);
+          if (type === 'move') {
+            await this.storeCachedResource(resourceType, from.url, resource);
+          }
+          throw error;
+        }
+        console.warn(`Failed to ${type} ${resourceType} on server, adding to pending operations:`, error);
+      }
+    }
+
+    this.queueTransfer(type, resourceType, from, to, resource);
+    return placeholder;
+  }
+
+  /**
+   * Queues a move or copy. Moving an item whose move is still queued
+   * changes the target of the queued move, or drops it when the item is
+   * back where it was.
+   */
+  private queueTransfer(
+    type: 'move' | 'copy',
+    resourceType: SyncConflict['resourceType'],
+    from: Calendar | AddressBook,
+    to: Calendar | AddressBook,
+    resource: CalendarEvent | Contact
+  ): void {
+    const queuedMove = type === 'move' && this.cache.getPendingOperations().find(
+      op => op.type === 'move' &&
+        op.resourceType === resourceType &&
+        op.targetUrl === from.url &&
+        (op.data as CalendarEvent | Contact).uid === resource.uid
+    );
+
+    if (queuedMove) {
+      if (queuedMove.resourceUrl === to.url) {
+        this.cache.removePendingOperation(queuedMove.id);
+      } else {
+        this.cache.updatePendingOperation(queuedMove.id, { targetUrl: to.url });
+      }
+      return;
+    }
+
+    this.cache.addPendingOperation({
+      type,
+      resourceType,
+      resourceUrl: from.url,
+      targetUrl: to.url,
+      data: resource
+    });
+  }
+
+  private async transferOnServer(
+    type: 'move' | 'copy',
+    resourceType: SyncConflict['resourceType'],
+    from: Calendar | AddressBook,
+    to: Calendar | AddressBook,
+    resource: CalendarEvent | Contact
+  ): Promise<CalendarEvent | Contact> {
+    if (resourceType === 'event') {
+      return type === 'move'
+        ? this.davClient.moveEvent(from, to, resource as CalendarEvent)
+        : this.davClient.copyEvent(from, to, resource as CalendarEvent);
+    }
+    return type === 'move'
+      ? this.davClient.moveContact(from, to, resource as Contact)
+      : this.davClient.copyContact(from, to, resource as Contact);
+  }
+
+  /**
+   * Brings the cached copy of a calendar up to date, downloading only the
+   * events that changed since the last sync
+   */
+  private async syncCalendarEvents(calendar: Calendar): Promise<{ events: CalendarEvent[]; updated: number }> {
+    const cachedEvents = await this.cache.getCachedEvents(calendar.url);
+    const { resources, syncToken, updated } = await this.syncCollection(
+      calendar.url,
+      cachedEvents?.events || null,
+      token => this.davClient.syncCalendar(calendar, token),
+      hrefs => this.davClient.getEventsByHref(calendar, hrefs)
+    );
+
+    const events = resources.map(event => ({ ...event, calendarUrl: calendar.url }));
+    await this.cache.storeCachedEvents(calendar.url, events);
+    await this.cache.storeSyncState(calendar.url, { syncToken, ctag: calendar.ctag });
+    await this.cache.updateLastSync(calendar.url);
+    return { events, updated };
+  }
+
+  /**
+   * Brings the cached copy of an address book up to date, downloading only
+   * the contacts that changed since the last sync
+   */
+  private async syncAddressBookContacts(addressBook: AddressBook): Promise<{ contacts: Contact[]; updated: number }> {
+    const cachedContacts = await this.cache.getCachedContacts(addressBook.url);
+    const { resources, syncToken, updated } = await this.syncCollection(
+      addressBook.url,
+      cachedContacts?.contacts || null,
+      token => this.davClient.syncAddressBook(addressBook, token),
+      hrefs => this.davClient.getContactsByHref(addressBook, hrefs)
+    );
+
+    await this.cache.storeCachedContacts(addressBook.url, resources);
+    await this.cache.storeSyncState(addressBook.url, { syncToken, ctag: addressBook.ctag });
+    await this.cache.updateLastSync(addressBook.url);
+    return { contacts: resources, updated };
+  }
+
+  /**
+   * Applies the changes reported by a sync-collection REPORT (RFC 6578) to the
+   * cached resources of a collection, fetching changed ones with a multiget.
+   * Without a cached copy and sync token the whole collection is listed.
+   */
+  private async syncCollection<T extends SyncedResource>(
+    collectionUrl: string,
+    cachedResources: T[] | null,
+    listChanges: (syncToken?: string) => Promise<SyncCollectionChanges>,
+    fetchResources: (hrefs: string[]) => Promise<T[]>
+  ): Promise<{ resources: T[]; syncToken: string; updated: number }> {
+    const syncToken = cachedResources ? (await this.cache.getSyncState(collectionUrl))?.syncToken : undefined;
+
+    let changes: SyncCollectionChanges;
+    let incremental = !!syncToken;
+    try {
+      changes = await listChanges(syncToken);
+    } catch (error) {
+      if (!syncToken) {
+        throw error;
+      }
+      // The server forgets old tokens (DAV:valid-sync-token), list everything again
+      console.warn('Sync token rejected, resyncing the whole collection:', error);
+      changes = await listChanges();
+      incremental = false;
+    }
+
+    const cached = cachedResources || [];
+    const cachedEtags = new Map(
+      cached.filter(resource => resource.href).map(resource => [resource.href, resource.etag])
+    );
+
+    // Unchanged ETags need no download, e.g. when resyncing after a rejected token
+    const hrefsToFetch = changes.changed
+      .filter(change => !change.etag || cachedEtags.get(change.href) !== change.etag)
+      .map(change => change.href);
+
+    const fetched: T[] = [];
+    for (let i = 0; i < hrefsToFetch.length; i += SyncService.MULTIGET_BATCH_SIZE) {
+      fetched.push(...await fetchResources(hrefsToFetch.slice(i, i + SyncService.MULTIGET_BATCH_SIZE)));
+    }
+
+    const replacedHrefs = new Set([...changes.deleted, ...hrefsToFetch]);
+    const fetchedUids = new Set(fetched.map(resource => resource.uid));
+    const serverHrefs = new Set(changes.changed.map(change => change.href));
+
+    const kept = cached.filter(resource => {
+      if (fetchedUids.has(resource.uid)) {
+        return false;
+      }
+      if (!resource.href) {
+        // Created locally and not reported by the server yet
+        return incremental;
+      }
+      return incremental
+        ? !replacedHrefs.has(resource.href)
+        : serverHrefs.has(resource.href) && !replacedHrefs.has(resource.href);
+    });
+
+    return {
+      resources: [...kept, ...fetched],
+      syncToken: changes.syncToken,
+      updated: fetched.length + changes.deleted.length
+    };
+  }
+
+  /**
+   * Keeps the events that may have occurrences in the date range
+   */
+  private filterEventsInRange(events: CalendarEvent[], dateRange: DateRange): CalendarEvent[] {
+    return events.filter(event =>
+      event.rrule ||
+      (new Date(event.dtstart) <= dateRange.end && new Date(event.dtend) >= dateRange.start)
+    );
+  }
+
+  private async shouldSyncResource(collection: Calendar | AddressBook): Promise<boolean> {
+    // A CTag only changes when something in the collection does
+    const syncState = await this.cache.getSyncState(collection.url);
+    if (collection.ctag && syncState?.ctag) {
+      return collection.ctag !== syncState.ctag || !await this.cache.isCollectionCached(collection.url);
+    }
+
+    const lastSync = await this.cache.getLastSync(collection.url);
     if (!lastSync) return true;
 
     // Sync if last sync was more than 5 minutes ago
@@ -821,6 +1556,179 @@ export class SyncService {
     return lastSync < fiveMinutesAgo;
   }
 
+  /**
+   * Replays one queued operation. Conflicts go to the user, refusals that
+   * retrying cannot fix park the operation, anything else is retried later.
+   */
+  private async replayPendingOperation(operation: PendingOperation): Promise<void> {
+    try {
+      operation = await this.assignPermanentUid(operation);
+      await this.executePendingOperation(operation);
+      this.cache.removePendingOperation(operation.id);
+    } catch (error) {
+      // Deleted on the server already: the delete has nothing left to do
+      if (
+        operation.type === 'delete' &&
+        operation.resourceType !== 'calendar' &&
+        operation.resourceType !== 'addressbook' &&
+        isNotFoundError(error)
+      ) {
+        const { uid } = operation.data as CalendarEvent | Contact | Task;
+        if (operation.resourceType === 'task') {
+          await this.cache.removeCachedTask(operation.resourceUrl, uid);
+        } else {
+          await this.removeCachedResource(operation.resourceType, operation.resourceUrl, uid);
+        }
+        this.cache.removePendingOperation(operation.id);
+        return;
+      }
+
+      // Changed on the server while we were offline: let the user decide
+      if (
+        (operation.resourceType === 'event' || operation.resourceType === 'contact') &&
+        operation.type !== 'move' && operation.type !== 'copy' &&
+        await this.handleWriteConflict(error, {
+          type: operation.type,
+          resourceType: operation.resourceType,
+          resourceUrl: operation.resourceUrl,
+          local: operation.resourceType === 'event'
+            ? this.ensureEventDates(operation.data as CalendarEvent)
+            : operation.data as Contact
+        })
+      ) {
+        this.cache.removePendingOperation(operation.id);
+        return;
+      }
+
+      const attempts = operation.attempts + 1;
+      const lastError = error instanceof Error ? error.message : String(error);
+      // Task and transfer conflicts have no resolution dialog, so the user
+      // retries or discards them
+      const isUnresolvedConflict =
+        (operation.resourceType === 'task' || operation.type === 'move' || operation.type === 'copy') &&
+        lastError.includes(' conflict:');
+      if (isPermanentError(error) || isUnresolvedConflict || attempts >= MAX_OPERATION_ATTEMPTS) {
+        console.error(`Giving up on pending operation ${operation.id}:`, error);
+        this.cache.updatePendingOperation(operation.id, {
+          status: 'failed',
+          attempts,
+          lastError,
+          nextAttemptAt: undefined
+        });
+      } else {
+        console.error(`Failed to execute pending operation ${operation.id}:`, error);
+        this.cache.updatePendingOperation(operation.id, {
+          attempts,
+          lastError,
+          nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts))
+        });
+      }
+    }
+  }
+
+  /**
+   * Replaces the placeholder UID of a resource created offline before it is
+   * written to the server, in the queue and in the cache
+   */
+  private async assignPermanentUid(operation: PendingOperation): Promise<PendingOperation> {
+    const { type, resourceType, resourceUrl } = operation;
+    if (
+      type !== 'create' ||
+      (resourceType !== 'event' && resourceType !== 'contact') ||
+      !hasOfflineUid(operation.data)
+    ) {
+      return operation;
+    }
+
+    const resource = operation.data as CalendarEvent | Contact;
+    const data = {
+      ...resource,
+      uid: `${resourceType}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    };
+
+    // Stored first so a retry after a lost response reuses the same UID
+    this.cache.updatePendingOperation(operation.id, { data });
+    await this.removeCachedResource(resourceType, resourceUrl, resource.uid);
+    await this.storeCachedResource(
+      resourceType,
+      resourceUrl,
+      resourceType === 'event' ? this.ensureEventDates(data as CalendarEvent) : data
+    );
+    return { ...operation, data };
+  }
+
+  /**
+   * Replaces the cached copy of a resource with the one on the server. Offline,
+   * the next sync downloads the whole collection again instead.
+   */
+  private async restoreServerCopy(
+    resourceType: SyncConflict['resourceType'],
+    collectionUrl: string,
+    resource: CalendarEvent | Contact
+  ): Promise<void> {
+    if (navigator.onLine) {
+      try {
+        const collection = { url: collectionUrl, displayName: '' };
+        const server = resourceType === 'event'
+          ? await this.davClient.getEvent(collection, resource as CalendarEvent)
+          : await this.davClient.getContact(collection, resource as Contact);
+
+        if (server) {
+          await this.storeCachedResource(resourceType, collectionUrl, server);
+        } else {
+          await this.removeCachedResource(resourceType, collectionUrl, resource.uid);
+        }
+        return;
+      } catch (error) {
+        console.error('Failed to fetch the server copy of a discarded change:', error);
+      }
+    }
+    await this.cache.clearSyncState(collectionUrl);
+  }
+
+  /**
+   * Replays the queue again when the earliest backoff runs out
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const retryTimes = this.cache.getPendingOperations()
+      .filter(op => op.status === 'pending' && op.nextAttemptAt)
+      .map(op => op.nextAttemptAt!.getTime());
+    if (retryTimes.length === 0) {
+      return;
+    }
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.processPendingOperations().catch(error => {
+        console.error('Failed to retry pending operations:', error);
+      });
+    }, Math.max(Math.min(...retryTimes) - Date.now(), 0));
+  }
+
+  /**
+   * Replays a queued move or copy and caches the item at its new location
+   */
+  private async replayTransfer(operation: PendingOperation, resource: CalendarEvent | Contact): Promise<void> {
+    const { type, resourceType, resourceUrl, targetUrl } = operation;
+    if ((type !== 'move' && type !== 'copy') || (resourceType !== 'event' && resourceType !== 'contact') || !targetUrl) {
+      return;
+    }
+
+    const transferred = await this.transferOnServer(
+      type,
+      resourceType,
+      { url: resourceUrl, displayName: '' },
+      { url: targetUrl, displayName: '' },
+      resource
+    );
+    await this.storeCachedResource(resourceType, targetUrl, transferred);
+  }
+
   private async executePendingOperation(operation: PendingOperation): Promise<void> {
     const { type, resourceType, resourceUrl, data } = operation;
 
@@ -841,6 +1749,10 @@ export class SyncService {
         case 'delete':
           await this.davClient.deleteEvent(calendar, event);
           break;
+        case 'move':
+        case 'copy':
+          await this.replayTransfer(operation, event);
+          break;
       }
     } else if (resourceType === 'contact') {
       const contact = data as Contact;
@@ -856,6 +1768,25 @@ export class SyncService {
         case 'delete':
           await this.davClient.deleteContact(addressBook, contact);
           break;
+        case 'move':
+        case 'copy':
+          await this.replayTransfer(operation, contact);
+          break;
+      }
+    } else if (resourceType === 'task') {
+      const task = data as Task;
+      const calendar: Calendar = { url: resourceUrl, displayName: '' };
+
+      switch (type) {
+        case 'create':
+          await this.davClient.createTask(calendar, task);
+          break;
+        case 'update':
+          await this.davClient.updateTask(calendar, task);
+          break;
+        case 'delete':
+          await this.davClient.deleteTask(calendar, task);
+          break;
       }
     } else if (resourceType === 'calendar') {
       const calendar = data as Calendar;
@@ -893,7 +1824,7 @@ export class SyncService {
     const currentStatus = this.getSyncStatus();
     const newStatus = { ...currentStatus, ...updates };
     
-    CacheService.storeSyncStatus(newStatus);
+    this.cache.storeSyncStatus(newStatus);
     
     // Notify listeners
     this.syncListeners.forEach(listener => {
@@ -920,5 +1851,15 @@ export class SyncService {
 
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
+    this.networkListeners = { online: handleOnline, offline: handleOffline };
   }
-}
\ No newline at end of file
+}
+/**
+ * Public surface of SyncService, shared by the service that merges the
+ * accounts so components work with either. Collections can be created in
+ * a given account.
+ */
+export interface SyncApi extends Omit<Pick<SyncService, keyof SyncService>, 'createCalendar' | 'createAddressBook'> {
+  createCalendar(displayName: string, color?: string, description?: string, accountId?: string): Promise<Calendar>;
+  createAddressBook(displayName: string, description?: string, accountId?: string): Promise<AddressBook>;
+}
@@ -0,0 +1,150 @@
+import { AccountSyncService } from '../AccountSyncService';
+import { SyncService } from '../SyncService';
+import { DAVClient } from '../DAVClient';
+import { ProviderFactory } from '../../providers/ProviderFactory';
+import { Account } from '../../types/auth';
+import { Calendar, CalendarEvent } from '../../types/dav';
+
+jest.mock('../SyncService');
+jest.mock('../DAVClient');
+jest.mock('../../providers/ProviderFactory');
+
+const MockedSyncService = SyncService as jest.MockedClass<typeof SyncService>;
+const MockedDAVClient = DAVClient as jest.MockedClass<typeof DAVClient>;
+
+describe('AccountSyncService', () => {
+  const workAccount: Account = {
+    id: 'account-work',
+    name: 'Work',
+    config: {
+      caldavUrl: 'https://work.example.com/dav/',
+      carddavUrl: 'https://work.example.com/dav/',
+      username: 'jane',
+      password: 'secret',
+    },
+  };
+
+  const personalCalendar: Calendar = {
+    url: 'https://home.example.com/calendars/jane/personal/',
+    displayName: 'Personal',
+  };
+
+  const workCalendar: Calendar = {
+    url: 'https://work.example.com/calendars/jane/work/',
+    displayName: 'Work',
+  };
+
+  const event: CalendarEvent = {
+    uid: 'event-1',
+    summary: 'Standup',
+    dtstart: new Date('2024-03-04T09:00:00Z'),
+    dtend: new Date('2024-03-04T09:15:00Z'),
+    href: '/calendars/jane/personal/event-1.ics',
+    etag: '"1"',
+  };
+
+  let service: AccountSyncService;
+  let primarySync: jest.Mocked<SyncService>;
+  let workSync: jest.Mocked<SyncService>;
+  let workClient: jest.Mocked<DAVClient>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (ProviderFactory.createProviderForConfig as jest.Mock).mockResolvedValue({ name: 'generic' });
+
+    service = new AccountSyncService(new DAVClient());
+    await service.setAccounts([workAccount]);
+
+    primarySync = MockedSyncService.mock.instances[0] as jest.Mocked<SyncService>;
+    workSync = MockedSyncService.mock.instances[1] as jest.Mocked<SyncService>;
+    workClient = MockedDAVClient.mock.instances[1] as jest.Mocked<DAVClient>;
+    primarySync.getCachedCalendars.mockResolvedValue([personalCalendar]);
+    workSync.getCachedCalendars.mockResolvedValue([workCalendar]);
+  });
+
+  it('should connect every added account with its own provider', () => {
+    expect(MockedSyncService).toHaveBeenCalledTimes(2);
+    expect(ProviderFactory.createProviderForConfig).toHaveBeenCalledWith(workAccount.config);
+  });
+
+  it('should tag the calendars of each account', async () => {
+    const calendars = await service.getCachedCalendars();
+
+    expect(calendars).toEqual([
+      { ...personalCalendar, accountId: 'primary' },
+      { ...workCalendar, accountId: 'account-work' },
+    ]);
+  });
+
+  it('should route operations to the account of the calendar', async () => {
+    await service.getCachedCalendars();
+    const range = { start: new Date('2024-03-01'), end: new Date('2024-04-01') };
+
+    // Collections passed around untagged are known by their URL
+    await service.getEvents(workCalendar, range);
+
+    expect(workSync.getEvents).toHaveBeenCalledWith(workCalendar, range);
+    expect(primarySync.getEvents).not.toHaveBeenCalled();
+  });
+
+  it('should create calendars in the chosen account', async () => {
+    workSync.createCalendar.mockResolvedValue(workCalendar);
+
+    const calendar = await service.createCalendar('Work', '#3174ad', undefined, 'account-work');
+
+    expect(workSync.createCalendar).toHaveBeenCalledWith('Work', '#3174ad', undefined);
+    expect(calendar.accountId).toBe('account-work');
+  });
+
+  it('should move events to another account by creating them before deleting the original', async () => {
+    const calls: string[] = [];
+    workClient.createEvent.mockImplementation(async () => {
+      calls.push('create');
+    });
+    primarySync.deleteEvent.mockImplementation(async () => {
+      calls.push('delete');
+    });
+
+    await service.moveEvent(
+      { ...personalCalendar, accountId: 'primary' },
+      { ...workCalendar, accountId: 'account-work' },
+      event
+    );
+
+    expect(calls).toEqual(['create', 'delete']);
+    expect(workClient.createEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ url: workCalendar.url }),
+      expect.objectContaining({
+        uid: 'event-1',
+        calendarUrl: workCalendar.url,
+        href: undefined,
+        etag: undefined,
+      })
+    );
+    expect(primarySync.moveEvent).not.toHaveBeenCalled();
+  });
+
+  it('should keep the original when an event cannot be created in the other account', async () => {
+    workClient.createEvent.mockRejectedValue(new Error('Event creation failed: Forbidden'));
+
+    await expect(
+      service.moveEvent(
+        { ...personalCalendar, accountId: 'primary' },
+        { ...workCalendar, accountId: 'account-work' },
+        event
+      )
+    ).rejects.toThrow('Event creation failed: Forbidden');
+
+    expect(primarySync.deleteEvent).not.toHaveBeenCalled();
+    expect(workSync.createEvent).not.toHaveBeenCalled();
+  });
+
+  it('should disconnect accounts no longer in the list', async () => {
+    await service.setAccounts([]);
+
+    expect(workSync.dispose).toHaveBeenCalled();
+    expect(service.getDavClient({ ...workCalendar, accountId: 'account-work' })).toBe(
+      service.getDavClient()
+    );
+  });
+});
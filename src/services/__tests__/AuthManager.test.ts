@@ -141,7 +141,7 @@ describe('AuthManager', () => {
   describe('testConnection', () => {
     it('should return success when provider is detected and authentication succeeds', async () => {
       const mockProvider = { name: 'baikal' };
-      mockProviderFactory.createProviderForServer.mockResolvedValue(mockProvider as any);
+      mockProviderFactory.createProviderForConfig.mockResolvedValue(mockProvider as any);
       
       // Mock the authenticate method to return true
       jest.spyOn(authManager, 'authenticate').mockResolvedValue(true);
@@ -154,7 +154,7 @@ describe('AuthManager', () => {
     });
 
     it('should return error when provider cannot be detected', async () => {
-      mockProviderFactory.createProviderForServer.mockResolvedValue(null);
+      mockProviderFactory.createProviderForConfig.mockResolvedValue(null);
 
       const result = await authManager.testConnection(mockConfig);
 
@@ -164,7 +164,7 @@ describe('AuthManager', () => {
 
     it('should handle authentication errors', async () => {
       const mockProvider = { name: 'baikal' };
-      mockProviderFactory.createProviderForServer.mockResolvedValue(mockProvider as any);
+      mockProviderFactory.createProviderForConfig.mockResolvedValue(mockProvider as any);
       
       // Mock the authenticate method to return false
       jest.spyOn(authManager, 'authenticate').mockResolvedValue(false);
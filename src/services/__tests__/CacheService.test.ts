@@ -24,31 +24,32 @@ Object.defineProperty(window, 'localStorage', {
 });
 
 describe('CacheService', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     localStorage.clear();
+    await CacheService.clearCache();
   });
 
   describe('Calendar caching', () => {
-    it('should store and retrieve calendars', () => {
+    it('should store and retrieve calendars', async () => {
       const calendars: Calendar[] = [
         { url: 'http://example.com/cal1', displayName: 'Calendar 1' },
         { url: 'http://example.com/cal2', displayName: 'Calendar 2' }
       ];
 
-      CacheService.storeCachedCalendars(calendars);
-      const retrieved = CacheService.getCachedCalendars();
+      await CacheService.storeCachedCalendars(calendars);
+      const retrieved = await CacheService.getCachedCalendars();
 
       expect(retrieved).toEqual(calendars);
     });
 
-    it('should return empty array when no calendars cached', () => {
-      const retrieved = CacheService.getCachedCalendars();
+    it('should return empty array when no calendars cached', async () => {
+      const retrieved = await CacheService.getCachedCalendars();
       expect(retrieved).toEqual([]);
     });
   });
 
   describe('Event caching', () => {
-    it('should store and retrieve events for a calendar', () => {
+    it('should store and retrieve events for a calendar', async () => {
       const calendarUrl = 'http://example.com/cal1';
       const events: CalendarEvent[] = [
         {
@@ -60,8 +61,8 @@ describe('CacheService', () => {
         }
       ];
 
-      CacheService.storeCachedEvents(calendarUrl, events, 'collection-etag');
-      const retrieved = CacheService.getCachedEvents(calendarUrl);
+      await CacheService.storeCachedEvents(calendarUrl, events, 'collection-etag');
+      const retrieved = await CacheService.getCachedEvents(calendarUrl);
 
       expect(retrieved).toBeTruthy();
       expect(retrieved!.events).toHaveLength(1);
@@ -73,14 +74,110 @@ describe('CacheService', () => {
       expect(typeof retrieved!.lastUpdated === 'string' ? new Date(retrieved!.lastUpdated) : retrieved!.lastUpdated).toBeInstanceOf(Date);
     });
 
-    it('should return null when no events cached for calendar', () => {
-      const retrieved = CacheService.getCachedEvents('http://example.com/nonexistent');
+    it('should return null when no events cached for calendar', async () => {
+      const retrieved = await CacheService.getCachedEvents('http://example.com/nonexistent');
       expect(retrieved).toBeNull();
     });
+
+    it('should only return events that may occur in a date range', async () => {
+      const calendarUrl = 'http://example.com/cal1';
+      const event = (uid: string, start: string, end: string): CalendarEvent => ({
+        uid,
+        summary: uid,
+        dtstart: new Date(start),
+        dtend: new Date(end)
+      });
+
+      await CacheService.storeCachedEvents(calendarUrl, [
+        event('before', '2025-06-30T10:00:00Z', '2025-06-30T11:00:00Z'),
+        event('spanning', '2025-06-30T10:00:00Z', '2025-07-02T11:00:00Z'),
+        event('inside', '2025-07-10T10:00:00Z', '2025-07-10T11:00:00Z'),
+        event('after', '2025-08-01T10:00:00Z', '2025-08-01T11:00:00Z'),
+        { ...event('weekly', '2025-01-06T10:00:00Z', '2025-01-06T11:00:00Z'), rrule: { freq: 'WEEKLY' } }
+      ]);
+      await CacheService.storeCachedEvents('http://example.com/cal2', [
+        event('other', '2025-07-10T10:00:00Z', '2025-07-10T11:00:00Z')
+      ]);
+
+      const retrieved = await CacheService.getCachedEventsInRange(calendarUrl, {
+        start: new Date('2025-07-01T00:00:00Z'),
+        end: new Date('2025-07-31T23:59:59Z')
+      });
+
+      expect(retrieved!.map(e => e.uid).sort()).toEqual(['inside', 'spanning', 'weekly']);
+      expect(retrieved![0].dtstart).toBeInstanceOf(Date);
+    });
+
+    it('should retrieve the events of every calendar in a date range', async () => {
+      const event = (uid: string, start: string, end: string): CalendarEvent => ({
+        uid,
+        summary: uid,
+        dtstart: new Date(start),
+        dtend: new Date(end)
+      });
+      await CacheService.storeCachedEvents('http://example.com/cal1', [
+        event('work', '2025-07-10T10:00:00Z', '2025-07-10T11:00:00Z'),
+        event('before', '2025-06-10T10:00:00Z', '2025-06-10T11:00:00Z')
+      ]);
+      await CacheService.storeCachedEvents('http://example.com/cal2', [
+        event('home', '2025-07-12T10:00:00Z', '2025-07-12T11:00:00Z'),
+        event('after', '2025-08-10T10:00:00Z', '2025-08-10T11:00:00Z')
+      ]);
+
+      const retrieved = await CacheService.getAllCachedEventsInRange({
+        start: new Date('2025-07-01T00:00:00Z'),
+        end: new Date('2025-07-31T23:59:59Z')
+      });
+
+      expect(retrieved.map(e => e.uid).sort()).toEqual(['home', 'work']);
+    });
+
+    it('should keep events of other ranges when storing a fetched range', async () => {
+      const calendarUrl = 'http://example.com/cal1';
+      const event = (uid: string, start: string, end: string): CalendarEvent => ({
+        uid,
+        summary: uid,
+        dtstart: new Date(start),
+        dtend: new Date(end)
+      });
+      const july = { start: new Date('2025-07-01T00:00:00Z'), end: new Date('2025-07-31T23:59:59Z') };
+
+      await CacheService.storeCachedEvents(calendarUrl, [
+        event('june', '2025-06-10T10:00:00Z', '2025-06-10T11:00:00Z'),
+        event('deleted', '2025-07-10T10:00:00Z', '2025-07-10T11:00:00Z'),
+        event('august', '2025-08-10T10:00:00Z', '2025-08-10T11:00:00Z'),
+        { ...event('weekly', '2025-01-06T10:00:00Z', '2025-01-06T11:00:00Z'), rrule: { freq: 'WEEKLY' } }
+      ], 'collection-etag');
+
+      await CacheService.storeCachedEventsInRange(calendarUrl, july, [
+        event('added', '2025-07-20T10:00:00Z', '2025-07-20T11:00:00Z')
+      ]);
+
+      const retrieved = await CacheService.getCachedEvents(calendarUrl);
+      expect(retrieved!.events.map(e => e.uid).sort()).toEqual(['added', 'august', 'june', 'weekly']);
+      expect(retrieved!.etag).toBe('collection-etag');
+    });
+
+    it('should update and remove single events', async () => {
+      const calendarUrl = 'http://example.com/cal1';
+      const event: CalendarEvent = {
+        uid: 'event1',
+        summary: 'Test Event',
+        dtstart: new Date('2025-07-21T10:00:00Z'),
+        dtend: new Date('2025-07-21T11:00:00Z')
+      };
+      await CacheService.storeCachedEvents(calendarUrl, [event, { ...event, uid: 'event2' }]);
+
+      await CacheService.storeCachedEvent(calendarUrl, { ...event, summary: 'Renamed' });
+      await CacheService.removeCachedEvent(calendarUrl, 'event2');
+
+      const retrieved = await CacheService.getCachedEvents(calendarUrl);
+      expect(retrieved!.events).toEqual([{ ...event, summary: 'Renamed' }]);
+    });
   });
 
   describe('Contact caching', () => {
-    it('should store and retrieve contacts for an address book', () => {
+    it('should store and retrieve contacts for an address book', async () => {
       const addressBookUrl = 'http://example.com/ab1';
       const contacts: Contact[] = [
         {
@@ -92,8 +189,8 @@ describe('CacheService', () => {
         }
       ];
 
-      CacheService.storeCachedContacts(addressBookUrl, contacts, 'collection-etag');
-      const retrieved = CacheService.getCachedContacts(addressBookUrl);
+      await CacheService.storeCachedContacts(addressBookUrl, contacts, 'collection-etag');
+      const retrieved = await CacheService.getCachedContacts(addressBookUrl);
 
       expect(retrieved).toBeTruthy();
       expect(retrieved!.contacts).toEqual(contacts);
@@ -101,8 +198,8 @@ describe('CacheService', () => {
       expect(typeof retrieved!.lastUpdated === 'string' ? new Date(retrieved!.lastUpdated) : retrieved!.lastUpdated).toBeInstanceOf(Date);
     });
 
-    it('should return null when no contacts cached for address book', () => {
-      const retrieved = CacheService.getCachedContacts('http://example.com/nonexistent');
+    it('should return null when no contacts cached for address book', async () => {
+      const retrieved = await CacheService.getCachedContacts('http://example.com/nonexistent');
       expect(retrieved).toBeNull();
     });
   });
@@ -171,7 +268,7 @@ describe('CacheService', () => {
       };
 
       CacheService.addPendingOperation(operation);
-      CacheService.addPendingOperation(operation);
+      CacheService.addPendingOperation({ ...operation, data: { ...operation.data, uid: 'event2' } });
 
       expect(CacheService.getPendingOperations()).toHaveLength(2);
 
@@ -179,6 +276,32 @@ describe('CacheService', () => {
 
       expect(CacheService.getPendingOperations()).toHaveLength(0);
     });
+
+    it('should fold writes to the same resource into one operation', () => {
+      const event = {
+        uid: 'event1',
+        summary: 'Test Event',
+        dtstart: new Date(),
+        dtend: new Date()
+      } as CalendarEvent;
+      const operation = {
+        resourceType: 'event' as const,
+        resourceUrl: 'http://example.com/cal1',
+      };
+
+      CacheService.addPendingOperation({ ...operation, type: 'create', data: event });
+      CacheService.addPendingOperation({ ...operation, type: 'update', data: { ...event, summary: 'Renamed' } });
+
+      const operations = CacheService.getPendingOperations();
+      expect(operations).toHaveLength(1);
+      expect(operations[0].type).toBe('create');
+      expect((operations[0].data as CalendarEvent).uid).toBe('event1');
+      expect((operations[0].data as CalendarEvent).summary).toBe('Renamed');
+
+      CacheService.addPendingOperation({ ...operation, type: 'delete', data: event });
+
+      expect(CacheService.getPendingOperations()).toHaveLength(0);
+    });
   });
 
   describe('Sync status', () => {
@@ -187,6 +310,7 @@ describe('CacheService', () => {
         isOnline: true,
         lastSync: new Date(),
         pendingOperations: [],
+        conflicts: [],
         syncInProgress: false
       };
 
@@ -201,7 +325,7 @@ describe('CacheService', () => {
   });
 
   describe('Cache statistics', () => {
-    it('should return cache statistics', () => {
+    it('should return cache statistics', async () => {
       const calendars: Calendar[] = [
         { url: 'http://example.com/cal1', displayName: 'Calendar 1' }
       ];
@@ -226,11 +350,11 @@ describe('CacheService', () => {
         }
       ];
 
-      CacheService.storeCachedCalendars(calendars);
-      CacheService.storeCachedEvents('http://example.com/cal1', events);
-      CacheService.storeCachedContacts('http://example.com/ab1', contacts);
+      await CacheService.storeCachedCalendars(calendars);
+      await CacheService.storeCachedEvents('http://example.com/cal1', events);
+      await CacheService.storeCachedContacts('http://example.com/ab1', contacts);
 
-      const stats = CacheService.getCacheStats();
+      const stats = await CacheService.getCacheStats();
 
       expect(stats.eventCount).toBe(2);
       expect(stats.contactCount).toBe(1);
@@ -238,8 +362,8 @@ describe('CacheService', () => {
       expect(stats.lastUpdated).toBeInstanceOf(Date);
     });
 
-    it('should return zero stats when cache is empty', () => {
-      const stats = CacheService.getCacheStats();
+    it('should return zero stats when cache is empty', async () => {
+      const stats = await CacheService.getCacheStats();
 
       expect(stats.eventCount).toBe(0);
       expect(stats.contactCount).toBe(0);
@@ -248,8 +372,46 @@ describe('CacheService', () => {
     });
   });
 
+  describe('Migration', () => {
+    it('should move the local storage cache into IndexedDB', async () => {
+      localStorage.setItem('caldav_cache_data', JSON.stringify({
+        events: {
+          'http://example.com/cal1': {
+            events: [{
+              uid: 'event1',
+              summary: 'Test Event',
+              dtstart: '2025-07-21T10:00:00.000Z',
+              dtend: '2025-07-21T11:00:00.000Z'
+            }],
+            lastUpdated: new Date().toISOString(),
+            etag: 'collection-etag'
+          }
+        },
+        contacts: {},
+        calendars: [{ url: 'http://example.com/cal1', displayName: 'Calendar 1' }],
+        lastSync: {}
+      }));
+
+      // A fresh database and service, as on the first start after upgrading
+      const FDBFactory = require('fake-indexeddb/lib/FDBFactory');
+      Object.defineProperty(window, 'indexedDB', { value: new FDBFactory(), configurable: true });
+      let FreshCacheService: typeof CacheService;
+      jest.isolateModules(() => {
+        FreshCacheService = require('../CacheService').CacheService;
+      });
+
+      const retrieved = await FreshCacheService!.getCachedEvents('http://example.com/cal1');
+
+      expect(retrieved!.events[0].dtstart).toEqual(new Date('2025-07-21T10:00:00Z'));
+      expect(retrieved!.etag).toBe('collection-etag');
+      expect(await FreshCacheService!.getCachedCalendars()).toHaveLength(1);
+      expect(await FreshCacheService!.getSyncState('http://example.com/cal1')).toBeNull();
+      expect(localStorage.getItem('caldav_cache_data')).toBeNull();
+    });
+  });
+
   describe('Cache clearing', () => {
-    it('should clear all cached data', () => {
+    it('should clear all cached data', async () => {
       const calendars: Calendar[] = [
         { url: 'http://example.com/cal1', displayName: 'Calendar 1' }
       ];
@@ -262,16 +424,39 @@ describe('CacheService', () => {
         }
       ];
 
-      CacheService.storeCachedCalendars(calendars);
-      CacheService.storeCachedEvents('http://example.com/cal1', events);
+      await CacheService.storeCachedCalendars(calendars);
+      await CacheService.storeCachedEvents('http://example.com/cal1', events);
+
+      expect(await CacheService.getCachedCalendars()).toHaveLength(1);
+      expect(await CacheService.getCachedEvents('http://example.com/cal1')).toBeTruthy();
+
+      await CacheService.clearCache();
+
+      expect(await CacheService.getCachedCalendars()).toHaveLength(0);
+      expect(await CacheService.getCachedEvents('http://example.com/cal1')).toBeNull();
+    });
+
+    it('should keep the data of added accounts', async () => {
+      const accountCache = CacheService.forAccount('account-work');
+      const event: CalendarEvent = {
+        uid: 'event1',
+        summary: 'Test Event',
+        dtstart: new Date(),
+        dtend: new Date()
+      };
+
+      await CacheService.storeCachedCalendars([{ url: 'http://example.com/cal1', displayName: 'Calendar 1' }]);
+      await CacheService.storeCachedEvents('http://example.com/cal1', [event]);
+      await accountCache.storeCachedCalendars([{ url: 'http://work.example.com/cal1', displayName: 'Work' }]);
+      await accountCache.storeCachedEvents('http://work.example.com/cal1', [event]);
 
-      expect(CacheService.getCachedCalendars()).toHaveLength(1);
-      expect(CacheService.getCachedEvents('http://example.com/cal1')).toBeTruthy();
+      await CacheService.clearCache();
 
-      CacheService.clearCache();
+      expect(await CacheService.getCachedEvents('http://example.com/cal1')).toBeNull();
+      expect(await accountCache.getCachedCalendars()).toHaveLength(1);
+      expect((await accountCache.getCachedEvents('http://work.example.com/cal1'))!.events).toHaveLength(1);
 
-      expect(CacheService.getCachedCalendars()).toHaveLength(0);
-      expect(CacheService.getCachedEvents('http://example.com/cal1')).toBeNull();
+      await accountCache.clearCache();
     });
   });
 });
\ No newline at end of file
@@ -2,6 +2,9 @@ import { DAVClient } from '../DAVClient';
 import { DAVProvider } from '../../types/providers';
 import { AuthConfig } from '../../types/auth';
 import { Calendar, AddressBook, DateRange } from '../../types/dav';
+import { DataFormatters } from '../dav/DataFormatters';
+import { XmlParser } from '../dav/XmlParser';
+import { GenericProvider } from '../../providers/GenericProvider';
 
 // Mock fetch globally
 const mockFetch = jest.fn();
@@ -515,6 +518,100 @@ describe('DAVClient', () => {
     });
   });
 
+  describe('service discovery', () => {
+    const okResponse = (data = '') => ({
+      ok: true,
+      status: 207,
+      statusText: 'Multi-Status',
+      text: jest.fn().mockResolvedValue(data),
+      headers: new Map([['content-type', 'application/xml']])
+    });
+
+    beforeEach(() => {
+      davClient.setAuthConfig({
+        caldavUrl: 'https://dav.example.com',
+        carddavUrl: 'https://dav.example.com',
+        username: 'testuser',
+        password: 'testpass'
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    // The DOMParser of the test setup only understands multistatus responses,
+    // so the property parsing is stubbed
+    it('should follow the well-known URIs to the principal and its home sets', async () => {
+      mockFetch.mockResolvedValue(okResponse());
+      jest
+        .spyOn(XmlParser.prototype, 'parseCurrentUserPrincipalResponse')
+        .mockReturnValue('https://dav.example.com/principals/testuser/');
+      jest.spyOn(XmlParser.prototype, 'parseHomeSetResponse').mockReturnValue({
+        calendarHomeUrl: 'https://dav.example.com/calendars/testuser/',
+        addressBookHomeUrl: 'https://dav.example.com/addressbooks/testuser/'
+      });
+
+      const result = await davClient.discoverServiceUrls('https://dav.example.com');
+
+      expect(mockFetch.mock.calls.map(([url, request]) => [url, request.method, request.headers.Depth])).toEqual([
+        ['https://dav.example.com/.well-known/caldav', 'PROPFIND', '0'],
+        ['https://dav.example.com/.well-known/carddav', 'PROPFIND', '0'],
+        ['https://dav.example.com/principals/testuser/', 'PROPFIND', '0']
+      ]);
+      expect(mockFetch.mock.calls[2][1].body).toContain('<C:calendar-home-set />');
+      expect(mockFetch.mock.calls[2][1].body).toContain('<CR:addressbook-home-set />');
+      expect(result).toEqual({
+        principalUrl: 'https://dav.example.com/principals/testuser/',
+        calendarHomeUrl: 'https://dav.example.com/calendars/testuser/',
+        addressBookHomeUrl: 'https://dav.example.com/addressbooks/testuser/'
+      });
+    });
+
+    it('should fall back to the server root without well-known URIs', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found', headers: new Map() })
+        .mockResolvedValue(okResponse());
+      jest
+        .spyOn(XmlParser.prototype, 'parseCurrentUserPrincipalResponse')
+        .mockReturnValue('https://dav.example.com/principals/testuser/');
+      jest.spyOn(XmlParser.prototype, 'parseHomeSetResponse').mockReturnValue({
+        calendarHomeUrl: 'https://dav.example.com/calendars/testuser/'
+      });
+
+      const result = await davClient.discoverServiceUrls('https://dav.example.com');
+
+      expect(mockFetch.mock.calls[1][0]).toBe('https://dav.example.com');
+      expect(result.calendarHomeUrl).toBe('https://dav.example.com/calendars/testuser/');
+      expect(result.addressBookHomeUrl).toBeUndefined();
+    });
+
+    it('should stop at wrong credentials', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 401, statusText: 'Unauthorized', headers: new Map() });
+
+      await expect(davClient.discoverServiceUrls('https://dav.example.com')).rejects.toThrow(
+        'Service discovery failed: Authentication failed'
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should list calendars of the discovered home with the generic provider', async () => {
+      mockFetch.mockResolvedValue(okResponse('<d:multistatus xmlns:d="DAV:"></d:multistatus>'));
+      davClient.setProvider(new GenericProvider());
+      davClient.setAuthConfig({
+        caldavUrl: 'https://dav.example.com/calendars/testuser',
+        carddavUrl: 'https://dav.example.com/addressbooks/testuser/',
+        username: 'testuser',
+        password: 'testpass',
+        provider: 'generic'
+      });
+
+      await davClient.discoverCalendars();
+
+      expect(mockFetch.mock.calls[0][0]).toBe('https://dav.example.com/calendars/testuser/');
+    });
+  });
+
   describe('calendar events retrieval', () => {
     beforeEach(() => {
       const authConfig: AuthConfig = {
@@ -884,6 +981,76 @@ END:VCARD</card:address-data>
       );
     });
 
+    it('should read addresses, dates, notes, links and typed emails and phones', async () => {
+      const mockXmlResponse = `<?xml version="1.0" encoding="utf-8"?>
+<d:multistatus xmlns:d="DAV:" xmlns:card="urn:ietf:params:xml:ns:carddav">
+  <d:response>
+    <d:href>/dav.php/addressbooks/testuser/contacts/contact2.vcf</d:href>
+    <d:propstat>
+      <d:prop>
+        <d:getetag>"67890"</d:getetag>
+        <card:address-data>BEGIN:VCARD
+VERSION:3.0
+UID:contact2@example.com
+FN:Jane Roe
+N:Roe;Jane;;;
+NICKNAME:JR
+EMAIL;TYPE=INTERNET,WORK:jane@work.example
+EMAIL:jane@example.com
+TEL;TYPE=CELL:+1 555 0100
+TEL;TYPE=WORK;TYPE=VOICE:+1 555 0199
+ADR;TYPE=HOME:;;1 Main St;Springfield;IL;62701;USA
+TITLE:Engineer
+ROLE:Team lead
+BDAY:1990-05-12
+item1.X-ANNIVERSARY:2015-06-20
+URL:https://jane.example
+IMPP:xmpp:jane@example.com
+NOTE:Met at the conference\\, likes tea
+END:VCARD</card:address-data>
+      </d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>
+</d:multistatus>`;
+
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 207,
+        statusText: 'Multi-Status',
+        text: jest.fn().mockResolvedValue(mockXmlResponse),
+        headers: new Map([['content-type', 'application/xml']])
+      } as any);
+
+      const contacts = await davClient.getContacts({
+        url: 'https://example.com/dav.php/addressbooks/testuser/contacts/',
+        displayName: 'Personal Contacts'
+      });
+
+      expect(contacts[0]).toMatchObject({
+        nickname: 'JR',
+        email: ['jane@work.example', 'jane@example.com'],
+        emailTypes: ['work', ''],
+        tel: ['+1 555 0100', '+1 555 0199'],
+        telTypes: ['cell', 'work'],
+        adr: [{
+          type: 'home',
+          street: '1 Main St',
+          locality: 'Springfield',
+          region: 'IL',
+          postalCode: '62701',
+          country: 'USA'
+        }],
+        title: 'Engineer',
+        role: 'Team lead',
+        bday: '1990-05-12',
+        anniversary: '2015-06-20',
+        url: ['https://jane.example'],
+        impp: ['xmpp:jane@example.com'],
+        note: 'Met at the conference, likes tea'
+      });
+    });
+
     it('should throw error when auth config is not set', async () => {
       davClient.setAuthConfig(null as any);
       
@@ -1269,6 +1436,143 @@ END:VCARD</card:address-data>
     });
   });
 
+  describe('task creation', () => {
+    beforeEach(() => {
+      davClient.setAuthConfig({
+        caldavUrl: 'https://example.com/dav.php',
+        carddavUrl: 'https://example.com/dav.php',
+        username: 'testuser',
+        password: 'testpass'
+      });
+    });
+
+    it('should create a subtask as a VTODO', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 201,
+        statusText: 'Created',
+        text: jest.fn().mockResolvedValue(''),
+        headers: new Map([['etag', '"task-etag"']])
+      } as any);
+
+      const calendar: Calendar = {
+        url: 'https://example.com/dav.php/calendars/testuser/tasks/',
+        displayName: 'Tasks',
+        components: ['VTODO']
+      };
+      const task = {
+        uid: 'buy-milk',
+        summary: 'Buy milk',
+        due: new Date(2025, 6, 25),
+        dueAllDay: true,
+        priority: 1,
+        status: 'NEEDS-ACTION' as const,
+        relatedTo: 'groceries',
+        sortOrder: 2
+      };
+
+      await davClient.createTask(calendar, task);
+
+      const [url, request] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://example.com/dav.php/calendars/testuser/tasks/buy-milk.ics');
+      expect(request.headers['If-None-Match']).toBe('*');
+      expect(request.body).toContain('BEGIN:VTODO\r\nUID:buy-milk\r\nSUMMARY:Buy milk\r\n');
+      expect(request.body).toContain('DUE;VALUE=DATE:20250725\r\n');
+      expect(request.body).toContain('PRIORITY:1\r\nSTATUS:NEEDS-ACTION\r\n');
+      expect(request.body).toContain('RELATED-TO;RELTYPE=PARENT:groceries\r\n');
+      expect(request.body).toContain('X-APPLE-SORT-ORDER:2\r\n');
+      expect(request.body).not.toContain('VEVENT');
+      expect(task).toHaveProperty('etag', 'task-etag');
+    });
+  });
+
+  describe('free/busy lookup', () => {
+    beforeEach(() => {
+      davClient.setAuthConfig({
+        caldavUrl: 'https://example.com/dav.php',
+        carddavUrl: 'https://example.com/dav.php',
+        username: 'testuser',
+        password: 'testpass'
+      });
+    });
+
+    const dateRange: DateRange = {
+      start: new Date('2025-07-21T00:00:00Z'),
+      end: new Date('2025-07-22T00:00:00Z')
+    };
+
+    it('should read busy periods from a free-busy-query report', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        text: jest.fn().mockResolvedValue(
+          'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nBEGIN:VFREEBUSY\r\n' +
+          'DTSTART:20250721T000000Z\r\nDTEND:20250722T000000Z\r\n' +
+          'FREEBUSY:20250721T090000Z/20250721T100000Z,20250721T140000Z/PT30M\r\n' +
+          'FREEBUSY;FBTYPE=BUSY-TENTATIVE:20250721T120000Z/20250721T130000Z\r\n' +
+          'FREEBUSY;FBTYPE=FREE:20250721T150000Z/20250721T160000Z\r\n' +
+          'END:VFREEBUSY\r\nEND:VCALENDAR\r\n'
+        ),
+        headers: new Map([['content-type', 'text/calendar']])
+      } as any);
+
+      const calendar: Calendar = {
+        url: 'https://example.com/dav.php/calendars/testuser/personal/',
+        displayName: 'Personal'
+      };
+
+      const busy = await davClient.getFreeBusy(calendar, dateRange);
+
+      const [url, request] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://example.com/dav.php/calendars/testuser/personal/');
+      expect(request.method).toBe('REPORT');
+      expect(request.body).toContain('<C:free-busy-query');
+      expect(request.body).toContain('<C:time-range start="20250721T000000Z" end="20250722T000000Z"/>');
+      expect(busy).toEqual([
+        { start: new Date('2025-07-21T09:00:00Z'), end: new Date('2025-07-21T10:00:00Z'), type: 'BUSY' },
+        { start: new Date('2025-07-21T12:00:00Z'), end: new Date('2025-07-21T13:00:00Z'), type: 'BUSY-TENTATIVE' },
+        { start: new Date('2025-07-21T14:00:00Z'), end: new Date('2025-07-21T14:30:00Z'), type: 'BUSY' }
+      ]);
+    });
+
+    it('should ask the schedule outbox for the free/busy of other users', async () => {
+      const scheduleResponse = `<?xml version="1.0" encoding="utf-8"?>
+<C:schedule-response xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav" />`;
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        text: jest.fn().mockResolvedValue(scheduleResponse),
+        headers: new Map([['content-type', 'application/xml']])
+      } as any);
+      // The DOMParser of the test setup only understands multistatus responses
+      const parseSpy = jest
+        .spyOn(DataFormatters.prototype, 'parseScheduleResponse')
+        .mockReturnValue([{ email: 'jane@example.com', busy: [] }]);
+
+      const results = await davClient.queryScheduleFreeBusy(
+        'https://example.com/dav.php/calendars/testuser/outbox/',
+        'testuser@example.com',
+        ['jane@example.com', 'john@example.com'],
+        dateRange
+      );
+
+      const [url, request] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://example.com/dav.php/calendars/testuser/outbox/');
+      expect(request.method).toBe('POST');
+      expect(request.headers['Content-Type']).toBe('text/calendar; charset=utf-8');
+      expect(request.body).toContain('METHOD:REQUEST\r\nBEGIN:VFREEBUSY\r\n');
+      expect(request.body).toContain('DTSTART:20250721T000000Z\r\nDTEND:20250722T000000Z\r\n');
+      expect(request.body).toContain('ORGANIZER:mailto:testuser@example.com\r\n');
+      expect(request.body).toContain('ATTENDEE:mailto:jane@example.com\r\nATTENDEE:mailto:john@example.com\r\n');
+      expect(parseSpy).toHaveBeenCalledWith(scheduleResponse);
+      expect(results).toEqual([{ email: 'jane@example.com', busy: [] }]);
+
+      parseSpy.mockRestore();
+    });
+  });
+
   describe('event updates', () => {
     beforeEach(() => {
       const authConfig: AuthConfig = {
@@ -1330,6 +1634,65 @@ END:VCARD</card:address-data>
       expect(icalData).toContain('LOCATION:Updated Location');
     });
 
+    it('should only patch edited properties into the server copy of the event', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 204,
+        statusText: 'No Content',
+        text: jest.fn().mockResolvedValue(''),
+        headers: new Map()
+      } as any);
+
+      const calendar: Calendar = {
+        url: 'https://example.com/dav.php/calendars/testuser/personal/',
+        displayName: 'Personal Calendar'
+      };
+      const raw = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Apple Inc.//macOS 14//EN',
+        'BEGIN:VEVENT',
+        'UID:raw-event-1',
+        'DTSTAMP:20250101T000000Z',
+        'SUMMARY:Planning',
+        'DTSTART:20250720T100000Z',
+        'DTEND:20250720T110000Z',
+        'CATEGORIES:Work,Planning',
+        'CLASS:PRIVATE',
+        'X-APPLE-TRAVEL-ADVISORY-BEHAVIOR:AUTOMATIC',
+        'ATTACH;FMTTYPE=application/pdf:https://example.com/agenda.p',
+        ' df',
+        'END:VEVENT',
+        'END:VCALENDAR',
+        ''
+      ].join('\r\n');
+      const serverCopy = {
+        uid: 'raw-event-1',
+        summary: 'Planning',
+        dtstart: new Date('2025-07-20T10:00:00Z'),
+        dtend: new Date('2025-07-20T11:00:00Z')
+      };
+      // ical.js cannot be loaded in Jest, so stand in for reading the server copy
+      jest.spyOn(DataFormatters.prototype, 'parseICalendarFile').mockReturnValue([serverCopy]);
+
+      await davClient.updateEvent(calendar, {
+        ...serverCopy,
+        summary: 'Quarterly planning',
+        etag: 'etag-1',
+        raw
+      });
+
+      const icalData = mockFetch.mock.calls[0][1].body;
+      expect(icalData).toContain('SUMMARY:Quarterly planning');
+      expect(icalData).not.toContain('SUMMARY:Planning');
+      expect(icalData).toContain('PRODID:-//Apple Inc.//macOS 14//EN');
+      expect(icalData).toContain('CATEGORIES:Work,Planning\r\nCLASS:PRIVATE\r\nX-APPLE-TRAVEL-ADVISORY-BEHAVIOR:AUTOMATIC');
+      expect(icalData).toContain('ATTACH;FMTTYPE=application/pdf:https://example.com/agenda.p\r\n df');
+      expect(icalData).toContain('DTSTART:20250720T100000Z');
+      expect(icalData).not.toContain('DTSTAMP:20250101T000000Z');
+      expect(icalData.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    });
+
     it('should update event successfully with 204 status', async () => {
       const mockResponse = {
         ok: true,
@@ -1625,6 +1988,120 @@ END:VCARD</card:address-data>
       expect(icalData).toContain('LOCATION:Room #1 (Building A)');
       // Note: ICAL.js handles proper escaping of special characters
     });
+
+    it('should write zoned times with a TZID and matching VTIMEZONE', async () => {
+      const calendar: Calendar = {
+        url: 'https://example.com/dav.php/calendars/testuser/personal/',
+        displayName: 'Personal Calendar'
+      };
+
+      const event = {
+        uid: 'zoned-event-123',
+        summary: 'Zoned Event',
+        dtstart: new Date('2025-07-20T14:00:00Z'),
+        dtend: new Date('2025-07-20T15:00:00Z'),
+        timezone: 'America/New_York'
+      };
+
+      await davClient.createEvent(calendar, event);
+
+      const putCall = mockFetch.mock.calls[0];
+      const icalData = putCall[1].body;
+
+      expect(icalData).toContain('DTSTART;TZID=America/New_York:20250720T100000');
+      expect(icalData).toContain('DTEND;TZID=America/New_York:20250720T110000');
+      expect(icalData).toContain('BEGIN:VTIMEZONE');
+      expect(icalData).toContain('TZID:America/New_York');
+      expect(icalData).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU');
+      expect(icalData).toContain('RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU');
+      expect(icalData).toContain('TZOFFSETTO:-0400');
+      expect(icalData.indexOf('END:VTIMEZONE')).toBeLessThan(icalData.indexOf('BEGIN:VEVENT'));
+    });
+
+    it('should write a VALARM for each reminder', async () => {
+      const calendar: Calendar = {
+        url: 'https://example.com/dav.php/calendars/testuser/personal/',
+        displayName: 'Personal Calendar'
+      };
+
+      const event = {
+        uid: 'reminder-event-123',
+        summary: 'Reminder Event',
+        dtstart: new Date('2025-07-20T14:00:00Z'),
+        dtend: new Date('2025-07-20T15:00:00Z'),
+        alarms: [{ minutesBefore: 15 }, { minutesBefore: 1440, action: 'AUDIO' as const }]
+      };
+
+      await davClient.createEvent(calendar, event);
+
+      const putCall = mockFetch.mock.calls[0];
+      const icalData: string = putCall[1].body;
+
+      expect(icalData.match(/BEGIN:VALARM/g)).toHaveLength(2);
+      expect(icalData).toContain('ACTION:DISPLAY\r\nTRIGGER:-PT15M\r\nDESCRIPTION:Reminder Event');
+      expect(icalData).toContain('ACTION:AUDIO\r\nTRIGGER:-P1D\r\nEND:VALARM');
+      expect(icalData.indexOf('END:VALARM')).toBeLessThan(icalData.indexOf('END:VEVENT'));
+    });
+
+    it('should write every part of a recurrence rule', async () => {
+      const calendar: Calendar = {
+        url: 'https://example.com/dav.php/calendars/testuser/personal/',
+        displayName: 'Personal Calendar'
+      };
+
+      const event = {
+        uid: 'month-end-event-123',
+        summary: 'Month End',
+        dtstart: new Date('2025-01-31T16:00:00Z'),
+        dtend: new Date('2025-01-31T17:00:00Z'),
+        rrule: {
+          freq: 'MONTHLY' as const,
+          byDay: ['MO', 'TU', 'WE', 'TH', 'FR'],
+          byMonth: [1, 4, 7, 10],
+          bySetPos: [-1],
+          wkst: 'SU'
+        }
+      };
+
+      await davClient.createEvent(calendar, event);
+
+      const putCall = mockFetch.mock.calls[0];
+      const icalData: string = putCall[1].body;
+
+      expect(icalData).toContain(
+        'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYMONTH=1,4,7,10;BYSETPOS=-1;WKST=SU\r\n'
+      );
+    });
+
+    it('should write the organizer and attendees with their participation status', async () => {
+      const calendar: Calendar = {
+        url: 'https://example.com/dav.php/calendars/testuser/personal/',
+        displayName: 'Personal Calendar'
+      };
+
+      const event = {
+        uid: 'meeting-event-123',
+        summary: 'Team Meeting',
+        dtstart: new Date('2025-07-20T14:00:00Z'),
+        dtend: new Date('2025-07-20T15:00:00Z'),
+        organizer: { email: 'testuser@example.com', name: 'Test User' },
+        attendees: [
+          { email: 'jane@example.com', name: 'Doe, Jane', partstat: 'ACCEPTED' as const },
+          { email: 'bob@example.com', role: 'OPT-PARTICIPANT' as const, rsvp: true }
+        ]
+      };
+
+      await davClient.createEvent(calendar, event);
+
+      const putCall = mockFetch.mock.calls[0];
+      const icalData: string = putCall[1].body;
+
+      expect(icalData).toContain('ORGANIZER;CN=Test User:mailto:testuser@example.com\r\n');
+      expect(icalData).toContain('ATTENDEE;CN="Doe, Jane";PARTSTAT=ACCEPTED:mailto:jane@example.com\r\n');
+      expect(icalData).toContain(
+        'ATTENDEE;ROLE=OPT-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:bob@example.com\r\n'
+      );
+    });
   });
 
   describe('contact creation', () => {
@@ -1691,6 +2168,42 @@ END:VCARD</card:address-data>
       expect(vcardData).toContain('END:VCARD');
     });
 
+    it('should write typed emails and phones and the other vCard fields', async () => {
+      const addressBook = {
+        url: 'https://example.com/dav.php/addressbooks/testuser/contacts/',
+        displayName: 'Personal Contacts'
+      };
+
+      await davClient.createContact(addressBook, {
+        uid: 'contact-456',
+        fn: 'Jane Roe',
+        nickname: 'JR',
+        email: ['jane@work.example', 'jane@example.com'],
+        emailTypes: ['work', ''],
+        tel: ['+1 555 0100'],
+        telTypes: ['cell'],
+        adr: [{ type: 'home', street: '1 Main St', locality: 'Springfield', postalCode: '62701' }],
+        title: 'Engineer',
+        bday: '--05-12',
+        anniversary: '2015-06-20',
+        url: ['https://jane.example'],
+        note: 'Likes tea, not coffee'
+      });
+
+      const vcardData = mockFetch.mock.calls[0][1].body;
+
+      expect(vcardData).toContain('NICKNAME:JR\r\n');
+      expect(vcardData).toContain('EMAIL;TYPE=WORK:jane@work.example\r\n');
+      expect(vcardData).toContain('EMAIL:jane@example.com\r\n');
+      expect(vcardData).toContain('TEL;TYPE=CELL:+1 555 0100\r\n');
+      expect(vcardData).toContain('ADR;TYPE=HOME:;;1 Main St;Springfield;;62701;\r\n');
+      expect(vcardData).toContain('TITLE:Engineer\r\n');
+      expect(vcardData).toContain('BDAY:--0512\r\n');
+      expect(vcardData).toContain('X-ANNIVERSARY:2015-06-20\r\n');
+      expect(vcardData).toContain('URL:https://jane.example\r\n');
+      expect(vcardData).toContain('NOTE:Likes tea\\, not coffee\r\n');
+    });
+
     it('should create contact with minimal data', async () => {
       const addressBook = {
         url: 'https://example.com/dav.php/addressbooks/testuser/contacts/',
@@ -1858,6 +2371,53 @@ END:VCARD</card:address-data>
       expect(vcardData).toContain('ORG:New Company');
     });
 
+    it('should keep vCard properties it does not model when updating', async () => {
+      const addressBook = {
+        url: 'https://example.com/dav.php/addressbooks/testuser/contacts/',
+        displayName: 'Personal Contacts'
+      };
+      const raw = [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'UID:contact-raw',
+        'FN:Dr. Jane Doe',
+        'N:Doe;Jane;;Dr.;',
+        'item1.EMAIL;TYPE=INTERNET:jane@example.com',
+        'item1.X-ABLabel:_$!<Other>!$_',
+        'CATEGORIES:Friends,Tennis',
+        'X-SOCIALPROFILE;TYPE=twitter:https://twitter.com/jane',
+        'REV:2024-01-01T00:00:00Z',
+        'END:VCARD'
+      ].join('\r\n');
+
+      await davClient.updateContact(addressBook, {
+        uid: 'contact-raw',
+        fn: 'Dr. Jane Doe',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        email: ['jane@example.com'],
+        tel: ['+1 555 0100'],
+        etag: 'abc123',
+        raw
+      });
+
+      const vcardData = mockFetch.mock.calls[0][1].body;
+      expect(vcardData).toBe([
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'UID:contact-raw',
+        'FN:Dr. Jane Doe',
+        'N:Doe;Jane;;Dr.;',
+        'item1.EMAIL;TYPE=INTERNET:jane@example.com',
+        'item1.X-ABLabel:_$!<Other>!$_',
+        'CATEGORIES:Friends,Tennis',
+        'X-SOCIALPROFILE;TYPE=twitter:https://twitter.com/jane',
+        'TEL:+1 555 0100',
+        'END:VCARD',
+        ''
+      ].join('\r\n'));
+    });
+
     it('should update contact ETag after successful update', async () => {
       // Setup auth config
       const authConfig = {
@@ -1953,4 +2513,109 @@ END:VCARD</card:address-data>
       );
     });
   });
+  describe('move and copy', () => {
+    const personal: Calendar = {
+      url: 'https://example.com/dav.php/calendars/testuser/personal/',
+      displayName: 'Personal'
+    };
+    const work: Calendar = {
+      url: 'https://example.com/dav.php/calendars/testuser/work/',
+      displayName: 'Work'
+    };
+    const event = {
+      uid: 'standup',
+      summary: 'Standup',
+      dtstart: new Date('2025-07-20T09:00:00Z'),
+      dtend: new Date('2025-07-20T09:15:00Z'),
+      href: '/dav.php/calendars/testuser/personal/standup-1.ics',
+      etag: '1'
+    };
+
+    const response = (status: number, headers: [string, string][] = [], body = '') => ({
+      ok: status < 400,
+      status,
+      statusText: '',
+      text: jest.fn().mockResolvedValue(body),
+      headers: new Map(headers)
+    });
+
+    beforeEach(() => {
+      davClient.setAuthConfig({
+        caldavUrl: 'https://example.com/dav.php',
+        carddavUrl: 'https://example.com/dav.php',
+        username: 'testuser',
+        password: 'testpass'
+      });
+    });
+
+    it('should move an event with MOVE, keeping its file name', async () => {
+      mockFetch.mockResolvedValue(response(201, [['etag', '"2"']]) as any);
+
+      const moved = await davClient.moveEvent(personal, work, event);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://example.com/dav.php/calendars/testuser/personal/standup-1.ics',
+        expect.objectContaining({
+          method: 'MOVE',
+          headers: expect.objectContaining({
+            Destination: 'https://example.com/dav.php/calendars/testuser/work/standup-1.ics',
+            Overwrite: 'F'
+          })
+        })
+      );
+      expect(moved).toEqual({
+        ...event,
+        calendarUrl: work.url,
+        href: '/dav.php/calendars/testuser/work/standup-1.ics',
+        etag: '2'
+      });
+    });
+
+    it('should fall back to PUT and DELETE when the server refuses the MOVE', async () => {
+      mockFetch
+        .mockResolvedValueOnce(response(502))
+        .mockResolvedValueOnce(response(200, [['content-type', 'text/calendar'], ['etag', '"1"']], 'BEGIN:VCALENDAR'))
+        .mockResolvedValueOnce(response(201, [['etag', '"3"']]))
+        .mockResolvedValueOnce(response(204));
+
+      const moved = await davClient.moveEvent(personal, work, event);
+
+      expect(mockFetch.mock.calls.map(call => call[1].method)).toEqual(['MOVE', 'GET', 'PUT', 'DELETE']);
+      expect(mockFetch.mock.calls[2]).toEqual([
+        'https://example.com/dav.php/calendars/testuser/work/standup-1.ics',
+        expect.objectContaining({
+          body: 'BEGIN:VCALENDAR',
+          headers: expect.objectContaining({ 'Content-Type': 'text/calendar', 'If-None-Match': '*' })
+        })
+      ]);
+      expect(mockFetch.mock.calls[3][1].headers['If-Match']).toBe('"1"');
+      expect(moved.etag).toBe('3');
+    });
+
+    it('should not delete the original when copying', async () => {
+      mockFetch
+        .mockResolvedValueOnce(response(405))
+        .mockResolvedValueOnce(response(200, [['content-type', 'text/calendar']], 'BEGIN:VCALENDAR'))
+        .mockResolvedValueOnce(response(201, [['etag', '"3"']]));
+
+      await davClient.copyEvent(personal, work, event);
+
+      expect(mockFetch.mock.calls.map(call => call[1].method)).toEqual(['COPY', 'GET', 'PUT']);
+    });
+
+    it('should report a contact that already exists in the target address book', async () => {
+      mockFetch.mockResolvedValue(response(412) as any);
+
+      const contact = { uid: 'jane', fn: 'Jane Doe', href: '/dav.php/addressbooks/testuser/default/jane.vcf' };
+
+      await expect(
+        davClient.copyContact(
+          { url: 'https://example.com/dav.php/addressbooks/testuser/default/', displayName: 'Default' },
+          { url: 'https://example.com/dav.php/addressbooks/testuser/work/', displayName: 'Work' },
+          contact
+        )
+      ).rejects.toThrow('Contact copy conflict: The target address book already has this contact.');
+    });
+  });
 });
\ No newline at end of file
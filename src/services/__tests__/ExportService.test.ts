@@ -0,0 +1,89 @@
+import { ExportService } from '../ExportService';
+import { DAVClient } from '../DAVClient';
+import { AddressBook, Calendar } from '../../types/dav';
+
+describe('ExportService', () => {
+  const calendar: Calendar = {
+    url: 'http://example.com/calendars/testuser/work/',
+    displayName: 'Work',
+  };
+  const addressBook: AddressBook = {
+    url: 'http://example.com/addressbooks/testuser/default/',
+    displayName: 'Contacts',
+  };
+
+  const timezone = [
+    'BEGIN:VTIMEZONE',
+    'TZID:Europe/Berlin',
+    'BEGIN:STANDARD',
+    'DTSTART:19701025T030000',
+    'TZOFFSETFROM:+0200',
+    'TZOFFSETTO:+0100',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+  ];
+  const resource = (uid: string) => [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Other client//EN',
+    ...timezone,
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    'DTSTART;TZID=Europe/Berlin:20250720T100000',
+    'X-CUSTOM-PROPERTY:kept as is',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+  let davClient: jest.Mocked<
+    Pick<DAVClient, 'getCalendarData' | 'getAddressBookData' | 'discoverCalendars' | 'discoverAddressBooks'>
+  >;
+  let exportService: ExportService;
+
+  beforeEach(() => {
+    davClient = {
+      getCalendarData: jest.fn().mockResolvedValue([resource('first'), resource('second')]),
+      getAddressBookData: jest.fn().mockResolvedValue([
+        'BEGIN:VCARD\nVERSION:3.0\nFN:Alice\nEND:VCARD',
+        'BEGIN:VCARD\r\nVERSION:3.0\r\nFN:Bob\r\nEND:VCARD\r\n',
+      ]),
+      discoverCalendars: jest.fn().mockResolvedValue([calendar, { ...calendar, url: `${calendar.url}2/` }]),
+      discoverAddressBooks: jest.fn().mockResolvedValue([addressBook]),
+    };
+    exportService = new ExportService(davClient as unknown as DAVClient);
+  });
+
+  it('should combine the events of a calendar into one VCALENDAR', async () => {
+    const file = await exportService.exportCalendar(calendar);
+    const lines = (file.data as string).split('\r\n');
+
+    expect(file.name).toBe('Work.ics');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines.filter(line => line === 'BEGIN:VCALENDAR')).toHaveLength(1);
+    expect(lines.filter(line => line === 'BEGIN:VTIMEZONE')).toHaveLength(1);
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines).toContain('X-CUSTOM-PROPERTY:kept as is');
+    expect(lines).toContain('X-WR-CALNAME:Work');
+  });
+
+  it('should concatenate the vCards of an address book', async () => {
+    const file = await exportService.exportAddressBook(addressBook);
+
+    expect(file.name).toBe('Contacts.vcf');
+    expect(file.data).toBe(
+      'BEGIN:VCARD\r\nVERSION:3.0\r\nFN:Alice\r\nEND:VCARD\r\n' +
+      'BEGIN:VCARD\r\nVERSION:3.0\r\nFN:Bob\r\nEND:VCARD\r\n'
+    );
+  });
+
+  it('should zip every collection of the account', async () => {
+    const file = await exportService.exportAccount();
+    const archive = file.data as Uint8Array;
+    const text = Array.from(archive, byte => String.fromCharCode(byte)).join('');
+
+    expect(file.name).toMatch(/^clowd-dav-export-\d{4}-\d{2}-\d{2}\.zip$/);
+    expect(text).toContain('calendars/Work.ics');
+    expect(text).toContain('calendars/Work (2).ics');
+    expect(text).toContain('contacts/Contacts.vcf');
+  });
+});
@@ -0,0 +1,180 @@
+import { ImportService } from '../ImportService';
+import { CacheService } from '../CacheService';
+import { DAVClient } from '../DAVClient';
+import { DataFormatters } from '../dav/DataFormatters';
+import { AddressBook, Calendar, CalendarEvent, Contact } from '../../types/dav';
+
+describe('ImportService', () => {
+  const calendar: Calendar = {
+    url: 'http://example.com/calendars/testuser/personal/',
+    displayName: 'Personal',
+  };
+
+  const event = (uid: string): CalendarEvent => ({
+    uid,
+    summary: `Event ${uid}`,
+    dtstart: new Date('2025-07-20T10:00:00Z'),
+    dtend: new Date('2025-07-20T11:00:00Z'),
+  });
+
+  let davClient: jest.Mocked<Pick<DAVClient, 'createEvent' | 'createContact' | 'updateContact' | 'getContacts'>>;
+  let importService: ImportService;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await CacheService.clearCache();
+
+    davClient = {
+      createEvent: jest.fn().mockResolvedValue(undefined),
+      createContact: jest.fn().mockResolvedValue(undefined),
+      updateContact: jest.fn().mockResolvedValue(undefined),
+      getContacts: jest.fn().mockResolvedValue([]),
+    };
+    importService = new ImportService(davClient as unknown as DAVClient);
+  });
+
+  it('should give events without a UID a new one', () => {
+    jest.spyOn(DataFormatters.prototype, 'parseICalendarFile').mockReturnValue([
+      { ...event(''), etag: 'etag-1' },
+      event('kept@example.com'),
+    ]);
+
+    const events = importService.parseCalendarFile('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n');
+
+    expect(events[0].uid).toMatch(/^event-/);
+    expect(events[0].etag).toBeUndefined();
+    expect(events[1].uid).toBe('kept@example.com');
+  });
+
+  it('should reject files without events', () => {
+    jest.spyOn(DataFormatters.prototype, 'parseICalendarFile').mockReturnValue([]);
+
+    expect(() => importService.parseCalendarFile('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n'))
+      .toThrow('Calendar import failed: The file contains no events');
+  });
+
+  it('should flag events whose UID is already cached', async () => {
+    await CacheService.storeCachedEvent(calendar.url, event('existing'));
+
+    const preview = await importService.previewEvents([event('existing'), event('new')]);
+
+    expect(preview.map(item => item.existingIn)).toEqual([[calendar.url], []]);
+  });
+
+  it('should import in batches and report the events the server rejected', async () => {
+    const events = Array.from({ length: 7 }, (_, i) => event(`event-${i}`));
+    davClient.createEvent.mockImplementation(async (_calendar, created) => {
+      if (created.uid === 'event-3') {
+        throw new Error('Event creation failed: Server error (415): Unsupported Media Type');
+      }
+    });
+    const onProgress = jest.fn();
+
+    const result = await importService.importEvents(calendar, events, onProgress);
+
+    expect(result.imported).toHaveLength(6);
+    expect(result.failed).toEqual([
+      {
+        resource: expect.objectContaining({ uid: 'event-3' }),
+        error: 'Event creation failed: Server error (415): Unsupported Media Type',
+      },
+    ]);
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { done: 5, total: 7 },
+      { done: 7, total: 7 },
+    ]);
+    expect(await CacheService.getCachedEventsByUid('event-0')).toHaveLength(1);
+    expect(await CacheService.getCachedEventsByUid('event-3')).toHaveLength(0);
+  });
+
+  describe('contacts', () => {
+    const addressBook: AddressBook = {
+      url: 'http://example.com/addressbooks/testuser/contacts/',
+      displayName: 'Contacts',
+    };
+
+    const existing: Contact = {
+      uid: 'jane',
+      fn: 'Jane Doe',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: ['jane@example.com'],
+      tel: ['+49 30 1234567'],
+      etag: 'etag-jane',
+      href: '/addressbooks/testuser/contacts/jane.vcf',
+    };
+
+    it('should read vCard 2.1 quoted-printable cards next to 3.0 ones', () => {
+      const contacts = importService.parseContactFile([
+        'BEGIN:VCARD',
+        'VERSION:2.1',
+        'N;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:M=C3=BCller;J=C3=B6rg',
+        'TEL;WORK;VOICE:030 1234567',
+        'END:VCARD',
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'UID:max@example.com',
+        'FN:Max Mustermann',
+        'EMAIL;TYPE=INTERNET:max@example.com',
+        'END:VCARD',
+      ].join('\r\n'));
+
+      expect(contacts).toHaveLength(2);
+      expect(contacts[0]).toMatchObject({ fn: 'Jörg Müller', firstName: 'Jörg', lastName: 'Müller', tel: ['030 1234567'] });
+      expect(contacts[0].uid).toMatch(/^contact-/);
+      expect(contacts[1]).toMatchObject({ uid: 'max@example.com', fn: 'Max Mustermann', email: ['max@example.com'] });
+    });
+
+    it('should map CSV columns to contacts and drop empty rows', () => {
+      const table = importService.parseCsvFile('First Name,Last Name,E-mail Address\nAda,Lovelace,ada@example.com\n,,\n');
+
+      const contacts = importService.contactsFromCsv(table, ['firstName', 'lastName', 'email']);
+
+      expect(contacts).toHaveLength(1);
+      expect(contacts[0]).toMatchObject({ fn: 'Ada Lovelace', email: ['ada@example.com'] });
+    });
+
+    it('should flag likely duplicates of cached contacts', async () => {
+      await CacheService.storeCachedContacts(addressBook.url, [existing]);
+
+      const preview = await importService.previewContacts(addressBook, [
+        { uid: 'a', fn: 'J. Doe', tel: ['030 1234567'] },
+        { uid: 'b', fn: 'Someone Else' },
+      ]);
+
+      expect(preview[0].duplicateOf).toEqual(existing);
+      expect(preview[0].existingIn).toEqual([addressBook.url]);
+      expect(preview[1].duplicateOf).toBeUndefined();
+      expect(davClient.getContacts).not.toHaveBeenCalled();
+    });
+
+    it('should create, overwrite, merge or skip each entry', async () => {
+      const imported: Contact = { uid: 'imported', fn: 'Jane Doe', email: ['jane.doe@work.example'], org: 'ACME' };
+      const onProgress = jest.fn();
+
+      const result = await importService.importContacts(addressBook, [
+        { contact: { uid: 'new', fn: 'New Person' }, action: 'create' },
+        { contact: imported, duplicateOf: existing, action: 'merge' },
+        { contact: imported, duplicateOf: existing, action: 'overwrite' },
+        { contact: imported, duplicateOf: existing, action: 'skip' },
+      ], onProgress);
+
+      expect(result.imported).toHaveLength(3);
+      expect(davClient.createContact).toHaveBeenCalledWith(addressBook, expect.objectContaining({ uid: 'new' }));
+      expect(davClient.updateContact).toHaveBeenCalledWith(addressBook, expect.objectContaining({
+        uid: 'jane',
+        etag: 'etag-jane',
+        tel: ['+49 30 1234567'],
+        email: ['jane@example.com', 'jane.doe@work.example'],
+        org: 'ACME',
+      }));
+      expect(davClient.updateContact).toHaveBeenCalledWith(addressBook, expect.objectContaining({
+        uid: 'jane',
+        href: existing.href,
+        email: ['jane.doe@work.example'],
+      }));
+      expect(davClient.updateContact.mock.calls[1][1].tel).toBeUndefined();
+      expect(onProgress).toHaveBeenCalledWith({ done: 3, total: 3 });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { ReminderService } from '../ReminderService';
+import { CacheService } from '../CacheService';
+import { CalendarEvent } from '../../types/dav';
+
+describe('ReminderService', () => {
+  const reminderService = ReminderService.getInstance();
+  const now = new Date('2025-07-20T09:50:00Z');
+
+  // Starts at 10:00 with a reminder 15 minutes before (09:45)
+  const meeting: CalendarEvent = {
+    uid: 'meeting',
+    summary: 'Planning',
+    dtstart: new Date('2025-07-20T10:00:00Z'),
+    dtend: new Date('2025-07-20T11:00:00Z'),
+    alarms: [{ minutesBefore: 15 }],
+  };
+  const reminderKey = `meeting|${meeting.dtstart.getTime()}|15`;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await CacheService.clearCache();
+  });
+
+  describe('getDueReminders', () => {
+    it('should return reminders whose trigger time has passed', () => {
+      const due = reminderService.getDueReminders([meeting], now);
+
+      expect(due).toHaveLength(1);
+      expect(due[0].event.uid).toBe('meeting');
+      expect(due[0].triggerAt).toEqual(new Date('2025-07-20T09:45:00Z'));
+    });
+
+    it('should not return reminders that are not due yet', () => {
+      const due = reminderService.getDueReminders(
+        [{ ...meeting, alarms: [{ minutesBefore: 5 }] }],
+        now
+      );
+
+      expect(due).toEqual([]);
+    });
+
+    it('should skip reminders missed long ago', () => {
+      const due = reminderService.getDueReminders(
+        [{ ...meeting, alarms: [{ minutesBefore: 120 }] }],
+        now
+      );
+
+      expect(due).toEqual([]);
+    });
+
+    it('should return reminders for occurrences of recurring events', () => {
+      const daily: CalendarEvent = {
+        ...meeting,
+        dtstart: new Date('2025-07-01T10:00:00Z'),
+        dtend: new Date('2025-07-01T11:00:00Z'),
+        rrule: { freq: 'DAILY' },
+      };
+
+      const due = reminderService.getDueReminders([daily], now);
+
+      expect(due).toHaveLength(1);
+      expect(due[0].event.dtstart).toEqual(new Date('2025-07-20T10:00:00Z'));
+    });
+  });
+
+  describe('checkReminders', () => {
+    beforeEach(async () => {
+      await CacheService.storeCachedEvents('http://example.com/calendar1', [meeting]);
+    });
+
+    it('should only show each reminder once', async () => {
+      await reminderService.checkReminders(now);
+
+      expect(reminderService.getDueReminders([meeting], now)).toEqual([]);
+    });
+
+    it('should show a snoozed reminder again after the snooze', async () => {
+      await reminderService.checkReminders(now);
+
+      reminderService.snooze(reminderKey, 5, now);
+
+      expect(reminderService.getDueReminders([meeting], new Date('2025-07-20T09:54:00Z'))).toEqual([]);
+      expect(reminderService.getDueReminders([meeting], new Date('2025-07-20T09:55:00Z'))).toHaveLength(1);
+    });
+
+    it('should not show a dismissed reminder again', async () => {
+      await reminderService.checkReminders(now);
+
+      reminderService.snooze(reminderKey, 5, now);
+      reminderService.dismiss(reminderKey, now);
+
+      expect(reminderService.getDueReminders([meeting], new Date('2025-07-20T09:56:00Z'))).toEqual([]);
+    });
+
+    it('should forget snoozes of reminders that never showed again', () => {
+      reminderService.snooze('deleted|0|15', 5, now);
+      reminderService.snooze(reminderKey, 5, new Date('2025-07-23T09:50:00Z'));
+
+      const state = JSON.parse(localStorage.getItem('event_reminder_state')!);
+      expect(Object.keys(state.snoozed)).toEqual([reminderKey]);
+    });
+  });
+
+  describe('formatReminderBody', () => {
+    it('should describe how soon the event starts', () => {
+      const [reminder] = reminderService.getDueReminders(
+        [{ ...meeting, location: 'Room 4' }],
+        now
+      );
+
+      const body = reminderService.formatReminderBody(reminder, now);
+
+      expect(body).toMatch(/^In 10 minutes \(/);
+      expect(body).toContain('Room 4');
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { SchedulingService } from '../SchedulingService';
+import { CacheService } from '../CacheService';
+import { DAVClient } from '../DAVClient';
+import { SyncService } from '../SyncService';
+import { Calendar, CalendarEvent, SchedulingMessage } from '../../types/dav';
+
+describe('SchedulingService', () => {
+  const calendar: Calendar = {
+    url: 'http://example.com/calendars/testuser/personal/',
+    displayName: 'Personal',
+  };
+
+  const invitation: CalendarEvent = {
+    uid: 'meeting',
+    summary: 'Planning',
+    dtstart: new Date('2025-07-20T10:00:00Z'),
+    dtend: new Date('2025-07-20T11:00:00Z'),
+    organizer: { email: 'boss@example.com' },
+    attendees: [
+      { email: 'boss@example.com', partstat: 'ACCEPTED' },
+      { email: 'testuser@example.com', partstat: 'NEEDS-ACTION', rsvp: true },
+    ],
+  };
+
+  let davClient: jest.Mocked<Pick<
+    DAVClient,
+    'discoverScheduling' | 'getSchedulingMessages' | 'deleteSchedulingMessage' | 'getFreeBusy' | 'queryScheduleFreeBusy'
+  >>;
+  let syncService: jest.Mocked<Pick<SyncService, 'createEvent' | 'updateEvent' | 'deleteEvent'>>;
+  let schedulingService: SchedulingService;
+
+  const message = (method: string, events: CalendarEvent[]): SchedulingMessage => ({
+    url: 'http://example.com/calendars/testuser/inbox/message.ics',
+    method,
+    events,
+  });
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await CacheService.clearCache();
+
+    davClient = {
+      discoverScheduling: jest.fn().mockResolvedValue({
+        inboxUrl: 'http://example.com/calendars/testuser/inbox/',
+        outboxUrl: 'http://example.com/calendars/testuser/outbox/',
+        addresses: ['testuser@example.com'],
+      }),
+      getSchedulingMessages: jest.fn().mockResolvedValue([]),
+      deleteSchedulingMessage: jest.fn().mockResolvedValue(undefined),
+      getFreeBusy: jest.fn().mockResolvedValue([]),
+      queryScheduleFreeBusy: jest.fn().mockResolvedValue([]),
+    };
+    syncService = {
+      createEvent: jest.fn().mockResolvedValue(undefined),
+      updateEvent: jest.fn().mockResolvedValue(undefined),
+      deleteEvent: jest.fn().mockResolvedValue(undefined),
+    };
+    schedulingService = new SchedulingService(
+      davClient as unknown as DAVClient,
+      syncService as unknown as SyncService
+    );
+    await schedulingService.loadSchedulingInfo();
+  });
+
+  describe('prepareOutgoingEvent', () => {
+    it('should make the current user the organizer of events with attendees', () => {
+      const event = schedulingService.prepareOutgoingEvent({
+        ...invitation,
+        organizer: undefined,
+        attendees: [{ email: 'jane@example.com' }],
+      });
+
+      expect(event.organizer).toEqual({ email: 'testuser@example.com' });
+      expect(event.attendees).toEqual([{ email: 'jane@example.com' }]);
+    });
+
+    it('should drop the organizer once all attendees are removed', () => {
+      const event = schedulingService.prepareOutgoingEvent({ ...invitation, attendees: [] });
+
+      expect(event.organizer).toBeUndefined();
+      expect(event.attendees).toBeUndefined();
+    });
+  });
+
+  it('should only change the current user when responding', () => {
+    const event = schedulingService.respondToEvent(invitation, 'ACCEPTED');
+
+    expect(event.attendees).toEqual([
+      { email: 'boss@example.com', partstat: 'ACCEPTED' },
+      { email: 'testuser@example.com', partstat: 'ACCEPTED', rsvp: false },
+    ]);
+  });
+
+  it('should keep the last known scheduling info when discovery fails', async () => {
+    davClient.discoverScheduling.mockRejectedValue(new Error('Network error'));
+    const offlineService = new SchedulingService(
+      davClient as unknown as DAVClient,
+      syncService as unknown as SyncService
+    );
+
+    const info = await offlineService.loadSchedulingInfo();
+
+    expect(info.addresses).toEqual(['testuser@example.com']);
+    expect(offlineService.supportsScheduling()).toBe(true);
+  });
+
+  it('should look up own calendars directly and other attendees through the outbox', async () => {
+    const range = { start: new Date('2025-07-21T00:00:00Z'), end: new Date('2025-08-04T00:00:00Z') };
+    const busy = { start: new Date('2025-07-21T09:00:00Z'), end: new Date('2025-07-21T10:00:00Z'), type: 'BUSY' as const };
+    const taskList: Calendar = { url: 'http://example.com/calendars/testuser/tasks/', displayName: 'Tasks', components: ['VTODO'] };
+    davClient.getFreeBusy.mockResolvedValue([busy]);
+    davClient.queryScheduleFreeBusy.mockResolvedValue([{ email: 'boss@example.com', busy: [] }]);
+
+    const results = await schedulingService.getFreeBusy(
+      ['boss@example.com', 'testuser@example.com', 'guest@example.com'],
+      range,
+      [calendar, taskList]
+    );
+
+    expect(davClient.getFreeBusy).toHaveBeenCalledTimes(1);
+    expect(davClient.getFreeBusy).toHaveBeenCalledWith(calendar, range);
+    expect(davClient.queryScheduleFreeBusy).toHaveBeenCalledWith(
+      'http://example.com/calendars/testuser/outbox/',
+      'testuser@example.com',
+      ['boss@example.com', 'guest@example.com'],
+      range
+    );
+    expect(results).toEqual([
+      { email: 'testuser@example.com', busy: [busy] },
+      { email: 'boss@example.com', busy: [] },
+      { email: 'guest@example.com', busy: [], error: 'No free/busy information' },
+    ]);
+  });
+
+  describe('processInboxMessage', () => {
+    it('should add new invitations to the target calendar', async () => {
+      const request = message('REQUEST', [invitation]);
+
+      await schedulingService.processInboxMessage(request, [calendar], calendar);
+
+      expect(syncService.createEvent).toHaveBeenCalledWith(
+        calendar,
+        expect.objectContaining({ uid: 'meeting', calendarUrl: calendar.url })
+      );
+      expect(davClient.deleteSchedulingMessage).toHaveBeenCalledWith(request);
+    });
+
+    it('should update invitations already in a calendar, keeping local reminders', async () => {
+      await CacheService.storeCachedEvents(calendar.url, [
+        { ...invitation, etag: 'etag-1', alarms: [{ minutesBefore: 10 }] },
+      ]);
+      const moved = { ...invitation, dtstart: new Date('2025-07-21T10:00:00Z') };
+
+      await schedulingService.processInboxMessage(message('REQUEST', [moved]), [calendar], calendar);
+
+      expect(syncService.createEvent).not.toHaveBeenCalled();
+      expect(syncService.updateEvent).toHaveBeenCalledWith(
+        calendar,
+        expect.objectContaining({
+          dtstart: new Date('2025-07-21T10:00:00Z'),
+          etag: 'etag-1',
+          alarms: [{ minutesBefore: 10 }],
+        })
+      );
+    });
+
+    it('should update invitations at the name the server stored them under', async () => {
+      const href = '/calendars/testuser/personal/sabredav-5f2c9a.ics';
+      await CacheService.storeCachedEvents(calendar.url, [{ ...invitation, href, etag: 'etag-1' }]);
+      const moved = { ...invitation, dtstart: new Date('2025-07-21T10:00:00Z') };
+
+      await schedulingService.processInboxMessage(message('REQUEST', [moved]), [calendar], calendar);
+
+      expect(syncService.updateEvent).toHaveBeenCalledWith(
+        calendar,
+        expect.objectContaining({ href, etag: 'etag-1' })
+      );
+    });
+
+    it('should delete cancelled events', async () => {
+      await CacheService.storeCachedEvents(calendar.url, [invitation]);
+
+      await schedulingService.processInboxMessage(message('CANCEL', [invitation]), [calendar], calendar);
+
+      expect(syncService.deleteEvent).toHaveBeenCalledWith(
+        calendar,
+        expect.objectContaining({ uid: 'meeting' })
+      );
+    });
+
+    it('should exclude a cancelled occurrence from its series', async () => {
+      await CacheService.storeCachedEvents(calendar.url, [{ ...invitation, rrule: { freq: 'DAILY' } }]);
+      const occurrence = {
+        ...invitation,
+        recurrenceId: new Date('2025-07-22T10:00:00Z'),
+      };
+
+      await schedulingService.processInboxMessage(message('CANCEL', [occurrence]), [calendar], calendar);
+
+      expect(syncService.deleteEvent).not.toHaveBeenCalled();
+      expect(syncService.updateEvent).toHaveBeenCalledWith(
+        calendar,
+        expect.objectContaining({ exdates: [new Date('2025-07-22T10:00:00Z')] })
+      );
+    });
+
+    it('should record replies on the organizer copy', async () => {
+      const organized: CalendarEvent = {
+        ...invitation,
+        organizer: { email: 'testuser@example.com' },
+        attendees: [{ email: 'jane@example.com', partstat: 'NEEDS-ACTION' }],
+      };
+      await CacheService.storeCachedEvents(calendar.url, [organized]);
+      const reply = { ...organized, attendees: [{ email: 'Jane@example.com', partstat: 'DECLINED' as const }] };
+
+      await schedulingService.processInboxMessage(message('REPLY', [reply]), [calendar], calendar);
+
+      expect(syncService.updateEvent).toHaveBeenCalledWith(
+        calendar,
+        expect.objectContaining({
+          attendees: [{ email: 'jane@example.com', partstat: 'DECLINED' }],
+        })
+      );
+    });
+  });
+});
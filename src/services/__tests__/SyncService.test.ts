@@ -0,0 +1,567 @@
+import { SyncService } from '../SyncService';
+import { CacheService } from '../CacheService';
+import { DAVClient } from '../DAVClient';
+import { AddressBook, Calendar, CalendarEvent, Contact } from '../../types/dav';
+
+describe('SyncService incremental sync', () => {
+  const addressBook: AddressBook = {
+    url: 'http://example.com/addressbooks/testuser/default/',
+    displayName: 'Contacts',
+    syncToken: 'http://example.com/sync/1',
+    ctag: 'ctag-1',
+  };
+
+  const calendar: Calendar = {
+    url: 'http://example.com/calendars/testuser/personal/',
+    displayName: 'Personal',
+    syncToken: 'http://example.com/sync/1',
+  };
+
+  const contact = (uid: string, etag: string): Contact => ({
+    uid,
+    fn: uid,
+    etag,
+    href: `/addressbooks/testuser/default/${uid}.vcf`,
+  });
+
+  let davClient: jest.Mocked<Pick<
+    DAVClient,
+    'syncAddressBook' | 'getContactsByHref' | 'getContacts' | 'syncCalendar' | 'getEventsByHref'
+  >>;
+  let syncService: SyncService;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await CacheService.clearCache();
+
+    davClient = {
+      syncAddressBook: jest.fn(),
+      getContactsByHref: jest.fn(),
+      getContacts: jest.fn(),
+      syncCalendar: jest.fn(),
+      getEventsByHref: jest.fn(),
+    };
+    syncService = new SyncService(davClient as unknown as DAVClient);
+  });
+
+  it('should fetch the whole address book on the first sync', async () => {
+    davClient.syncAddressBook.mockResolvedValue({
+      syncToken: 'http://example.com/sync/2',
+      changed: [
+        { href: '/addressbooks/testuser/default/alice.vcf', etag: 'a1' },
+        { href: '/addressbooks/testuser/default/bob.vcf', etag: 'b1' },
+      ],
+      deleted: [],
+    });
+    davClient.getContactsByHref.mockResolvedValue([contact('alice', 'a1'), contact('bob', 'b1')]);
+
+    const contacts = await syncService.getContacts(addressBook);
+
+    expect(davClient.syncAddressBook).toHaveBeenCalledWith(addressBook, undefined);
+    expect(davClient.getContactsByHref).toHaveBeenCalledWith(addressBook, [
+      '/addressbooks/testuser/default/alice.vcf',
+      '/addressbooks/testuser/default/bob.vcf',
+    ]);
+    expect(davClient.getContacts).not.toHaveBeenCalled();
+    expect(contacts.map(c => c.uid)).toEqual(['alice', 'bob']);
+    expect(await CacheService.getSyncState(addressBook.url)).toEqual({
+      syncToken: 'http://example.com/sync/2',
+      ctag: 'ctag-1',
+    });
+  });
+
+  it('should only download changed contacts and drop deleted ones', async () => {
+    await CacheService.storeCachedContacts(addressBook.url, [
+      contact('alice', 'a1'),
+      contact('bob', 'b1'),
+      contact('carol', 'c1'),
+    ]);
+    await CacheService.storeSyncState(addressBook.url, { syncToken: 'http://example.com/sync/2' });
+    davClient.syncAddressBook.mockResolvedValue({
+      syncToken: 'http://example.com/sync/3',
+      changed: [{ href: '/addressbooks/testuser/default/bob.vcf', etag: 'b2' }],
+      deleted: ['/addressbooks/testuser/default/carol.vcf'],
+    });
+    davClient.getContactsByHref.mockResolvedValue([{ ...contact('bob', 'b2'), fn: 'Bob' }]);
+
+    const contacts = await syncService.getContacts(addressBook);
+
+    expect(davClient.syncAddressBook).toHaveBeenCalledWith(addressBook, 'http://example.com/sync/2');
+    expect(davClient.getContactsByHref).toHaveBeenCalledWith(addressBook, [
+      '/addressbooks/testuser/default/bob.vcf',
+    ]);
+    expect(contacts).toEqual([contact('alice', 'a1'), { ...contact('bob', 'b2'), fn: 'Bob' }]);
+    expect((await CacheService.getSyncState(addressBook.url))?.syncToken).toBe('http://example.com/sync/3');
+  });
+
+  it('should resync without refetching unchanged contacts when the token is rejected', async () => {
+    await CacheService.storeCachedContacts(addressBook.url, [contact('alice', 'a1'), contact('bob', 'b1')]);
+    await CacheService.storeSyncState(addressBook.url, { syncToken: 'http://example.com/sync/expired' });
+    davClient.syncAddressBook
+      .mockRejectedValueOnce(new Error('Address book sync failed: Access forbidden'))
+      .mockResolvedValueOnce({
+        syncToken: 'http://example.com/sync/9',
+        changed: [
+          { href: '/addressbooks/testuser/default/alice.vcf', etag: 'a1' },
+          { href: '/addressbooks/testuser/default/dave.vcf', etag: 'd1' },
+        ],
+        deleted: [],
+      });
+    davClient.getContactsByHref.mockResolvedValue([contact('dave', 'd1')]);
+
+    const contacts = await syncService.getContacts(addressBook);
+
+    expect(davClient.syncAddressBook).toHaveBeenLastCalledWith(addressBook, undefined);
+    expect(davClient.getContactsByHref).toHaveBeenCalledWith(addressBook, [
+      '/addressbooks/testuser/default/dave.vcf',
+    ]);
+    expect(contacts.map(c => c.uid)).toEqual(['alice', 'dave']);
+  });
+
+  it('should skip address books whose CTag has not changed', async () => {
+    await CacheService.storeCachedAddressBooks([addressBook]);
+    await CacheService.storeCachedContacts(addressBook.url, [contact('alice', 'a1')]);
+    await CacheService.storeSyncState(addressBook.url, { syncToken: 'http://example.com/sync/2', ctag: 'ctag-1' });
+
+    const result = await syncService.syncContacts();
+
+    expect(result).toEqual({ updated: 0, errors: [] });
+    expect(davClient.syncAddressBook).not.toHaveBeenCalled();
+  });
+
+  it('should return the synced events in the requested range', async () => {
+    const event = (uid: string, day: number): CalendarEvent => ({
+      uid,
+      summary: uid,
+      dtstart: new Date(Date.UTC(2025, 6, day, 10)),
+      dtend: new Date(Date.UTC(2025, 6, day, 11)),
+      href: `/calendars/testuser/personal/${uid}.ics`,
+      etag: uid,
+    });
+    davClient.syncCalendar.mockResolvedValue({
+      syncToken: 'http://example.com/sync/2',
+      changed: [
+        { href: '/calendars/testuser/personal/july.ics', etag: 'july' },
+        { href: '/calendars/testuser/personal/later.ics', etag: 'later' },
+      ],
+      deleted: [],
+    });
+    davClient.getEventsByHref.mockResolvedValue([event('july', 20), event('later', 40)]);
+
+    const events = await syncService.getEvents(calendar, {
+      start: new Date('2025-07-01T00:00:00Z'),
+      end: new Date('2025-07-31T23:59:59Z'),
+    });
+
+    expect(events.map(e => e.uid)).toEqual(['july']);
+    expect((await CacheService.getCachedEvents(calendar.url))?.events).toHaveLength(2);
+  });
+});
+
+describe('SyncService conflicts', () => {
+  const calendar: Calendar = {
+    url: 'http://example.com/calendars/testuser/personal/',
+    displayName: 'Personal',
+  };
+
+  const serverEvent: CalendarEvent = {
+    uid: 'meeting',
+    summary: 'Planning',
+    dtstart: new Date('2025-07-20T10:00:00Z'),
+    dtend: new Date('2025-07-20T11:00:00Z'),
+    etag: 'etag-2',
+    href: '/calendars/testuser/personal/meeting.ics',
+  };
+  const localEvent: CalendarEvent = { ...serverEvent, summary: 'Planning (moved)', etag: 'etag-1' };
+
+  const conflictError = new Error('Event update conflict: The event has been modified by another client.');
+
+  let davClient: jest.Mocked<Pick<DAVClient, 'getEvent' | 'updateEvent'>>;
+  let syncService: SyncService;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await CacheService.clearCache();
+
+    davClient = {
+      getEvent: jest.fn().mockResolvedValue(serverEvent),
+      updateEvent: jest.fn(),
+    };
+    syncService = new SyncService(davClient as unknown as DAVClient);
+  });
+
+  it('should record a conflict with the server copy when an update is rejected', async () => {
+    davClient.updateEvent.mockRejectedValue(conflictError);
+
+    await syncService.updateEvent(calendar, localEvent);
+
+    const [conflict] = CacheService.getSyncConflicts();
+    expect(conflict).toMatchObject({
+      type: 'update',
+      resourceType: 'event',
+      resourceUrl: calendar.url,
+      server: serverEvent,
+    });
+    expect((conflict.local as CalendarEvent).summary).toBe('Planning (moved)');
+    expect(CacheService.getPendingOperations()).toHaveLength(0);
+  });
+
+  it('should record conflicting pending operations instead of retrying them', async () => {
+    CacheService.addPendingOperation({
+      type: 'update',
+      resourceType: 'event',
+      resourceUrl: calendar.url,
+      data: localEvent,
+    });
+    davClient.updateEvent.mockRejectedValue(conflictError);
+
+    await syncService.processPendingOperations();
+
+    expect(CacheService.getPendingOperations()).toHaveLength(0);
+    expect(CacheService.getSyncConflicts()).toHaveLength(1);
+  });
+
+  it('should overwrite the server copy when keeping our version', async () => {
+    davClient.updateEvent.mockRejectedValueOnce(conflictError).mockResolvedValueOnce(undefined);
+    await syncService.updateEvent(calendar, localEvent);
+    const [conflict] = CacheService.getSyncConflicts();
+
+    await syncService.resolveConflict(conflict.id, 'local');
+
+    expect(davClient.updateEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({ url: calendar.url }),
+      expect.objectContaining({ summary: 'Planning (moved)', etag: 'etag-2' })
+    );
+    expect(CacheService.getSyncConflicts()).toHaveLength(0);
+  });
+
+  it('should keep the conflict when writing the resolution fails', async () => {
+    davClient.updateEvent
+      .mockRejectedValueOnce(conflictError)
+      .mockRejectedValueOnce(new Error('Network error'));
+    await syncService.updateEvent(calendar, localEvent);
+    const [conflict] = CacheService.getSyncConflicts();
+
+    await expect(syncService.resolveConflict(conflict.id, 'local')).rejects.toThrow('Network error');
+
+    expect(CacheService.getSyncConflicts()).toHaveLength(1);
+  });
+
+  it('should return the updated event with the ETag of the written version', async () => {
+    davClient.updateEvent.mockImplementation(async (_calendar, event) => {
+      event.etag = 'etag-3';
+    });
+
+    const saved = await syncService.updateEvent(calendar, { ...serverEvent, summary: 'Retro' });
+
+    expect(saved).toMatchObject({ summary: 'Retro', etag: 'etag-3', calendarUrl: calendar.url });
+  });
+});
+
+describe('SyncService offline queue', () => {
+  const calendar: Calendar = {
+    url: 'http://example.com/calendars/testuser/personal/',
+    displayName: 'Personal',
+  };
+
+  const serverEvent: CalendarEvent = {
+    uid: 'meeting',
+    summary: 'Planning',
+    dtstart: new Date('2025-07-20T10:00:00Z'),
+    dtend: new Date('2025-07-20T11:00:00Z'),
+    etag: 'etag-1',
+    href: '/calendars/testuser/personal/meeting.ics',
+  };
+  const localEvent: CalendarEvent = { ...serverEvent, summary: 'Planning (moved)' };
+
+  let davClient: jest.Mocked<Pick<DAVClient, 'getEvent' | 'createEvent' | 'updateEvent' | 'deleteEvent'>>;
+  let syncService: SyncService;
+
+  const queueUpdate = () => {
+    CacheService.addPendingOperation({
+      type: 'update',
+      resourceType: 'event',
+      resourceUrl: calendar.url,
+      data: localEvent,
+    });
+    return CacheService.getPendingOperations()[0];
+  };
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await CacheService.clearCache();
+
+    davClient = {
+      getEvent: jest.fn().mockResolvedValue(serverEvent),
+      createEvent: jest.fn().mockResolvedValue(undefined),
+      updateEvent: jest.fn().mockResolvedValue(undefined),
+      deleteEvent: jest.fn().mockResolvedValue(undefined),
+    };
+    syncService = new SyncService(davClient as unknown as DAVClient);
+  });
+
+  it('should back off after a failed replay instead of retrying right away', async () => {
+    queueUpdate();
+    davClient.updateEvent.mockRejectedValue(new Error('Event update failed: Network error'));
+
+    await syncService.processPendingOperations();
+    await syncService.processPendingOperations();
+
+    const [operation] = CacheService.getPendingOperations();
+    expect(davClient.updateEvent).toHaveBeenCalledTimes(1);
+    expect(operation).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'Event update failed: Network error',
+    });
+    expect(operation.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should park an operation the server refuses', async () => {
+    queueUpdate();
+    davClient.updateEvent.mockRejectedValue(
+      new Error('Event update failed: Access forbidden. You may not have permission to access this resource.')
+    );
+
+    await syncService.processPendingOperations();
+
+    expect(CacheService.getPendingOperations()[0]).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+
+  it('should drop a queued delete of an event already gone from the server', async () => {
+    await CacheService.storeCachedEvents(calendar.url, [serverEvent]);
+    CacheService.addPendingOperation({
+      type: 'delete',
+      resourceType: 'event',
+      resourceUrl: calendar.url,
+      data: serverEvent,
+    });
+    davClient.deleteEvent.mockRejectedValue(
+      new Error('Event deletion failed: Resource not found. Please check the server URL.')
+    );
+
+    await syncService.processPendingOperations();
+
+    expect(CacheService.getPendingOperations()).toHaveLength(0);
+    expect((await CacheService.getCachedEvents(calendar.url))!.events).toEqual([]);
+  });
+
+  it('should replay a parked operation on request', async () => {
+    const { id } = queueUpdate();
+    CacheService.updatePendingOperation(id, { status: 'failed', attempts: 6 });
+
+    await syncService.processPendingOperations();
+    expect(davClient.updateEvent).not.toHaveBeenCalled();
+
+    await syncService.retryPendingOperation(id);
+
+    expect(davClient.updateEvent).toHaveBeenCalledTimes(1);
+    expect(CacheService.getPendingOperations()).toHaveLength(0);
+  });
+
+  it('should give events created offline a permanent UID when they are sent', async () => {
+    const offlineEvent = { ...localEvent, uid: 'offline-123', etag: undefined, href: undefined };
+    await CacheService.storeCachedEvent(calendar.url, offlineEvent);
+    CacheService.addPendingOperation({
+      type: 'create',
+      resourceType: 'event',
+      resourceUrl: calendar.url,
+      data: offlineEvent,
+    });
+
+    await syncService.processPendingOperations();
+
+    const [, created] = davClient.createEvent.mock.calls[0];
+    expect(created.uid).toMatch(/^event-/);
+    expect(await CacheService.getCachedEventsByUid('offline-123')).toHaveLength(0);
+    expect(await CacheService.getCachedEventsByUid(created.uid)).toHaveLength(1);
+  });
+
+  it('should put back the server copy when an update is discarded', async () => {
+    await CacheService.storeCachedEvent(calendar.url, localEvent);
+    const { id } = queueUpdate();
+
+    await syncService.discardPendingOperation(id);
+
+    const [cached] = await CacheService.getCachedEventsByUid('meeting');
+    expect(cached.summary).toBe('Planning');
+    expect(CacheService.getPendingOperations()).toHaveLength(0);
+  });
+});
+
+describe('SyncService move and copy', () => {
+  const personal: Calendar = {
+    url: 'http://example.com/calendars/testuser/personal/',
+    displayName: 'Personal',
+  };
+  const work: Calendar = {
+    url: 'http://example.com/calendars/testuser/work/',
+    displayName: 'Work',
+  };
+
+  const event: CalendarEvent = {
+    uid: 'meeting',
+    summary: 'Planning',
+    dtstart: new Date('2025-07-20T10:00:00Z'),
+    dtend: new Date('2025-07-20T11:00:00Z'),
+    etag: 'etag-1',
+    href: '/calendars/testuser/personal/meeting.ics',
+    calendarUrl: personal.url,
+  };
+  const movedEvent: CalendarEvent = {
+    ...event,
+    etag: 'etag-2',
+    href: '/calendars/testuser/work/meeting.ics',
+    calendarUrl: work.url,
+  };
+
+  let davClient: jest.Mocked<Pick<DAVClient, 'moveEvent' | 'copyEvent' | 'createEvent'>>;
+  let syncService: SyncService;
+
+  const goOffline = () => jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await CacheService.clearCache();
+    await CacheService.storeCachedEvent(personal.url, event);
+
+    davClient = {
+      moveEvent: jest.fn().mockResolvedValue(movedEvent),
+      copyEvent: jest.fn().mockResolvedValue(movedEvent),
+      createEvent: jest.fn().mockResolvedValue(undefined),
+    };
+    syncService = new SyncService(davClient as unknown as DAVClient);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should move an event on the server and cache it at its new location', async () => {
+    const moved = await syncService.moveEvent(personal, work, event);
+
+    expect(davClient.moveEvent).toHaveBeenCalledWith(personal, work, event);
+    expect(moved.href).toBe('/calendars/testuser/work/meeting.ics');
+    const cached = await CacheService.getCachedEventsByUid('meeting');
+    expect(cached).toHaveLength(1);
+    expect(cached[0]).toMatchObject({ calendarUrl: work.url, etag: 'etag-2' });
+  });
+
+  it('should keep the original when a copy is made', async () => {
+    await syncService.copyEvent(personal, work, event);
+
+    const cached = await CacheService.getCachedEventsByUid('meeting');
+    expect(cached.map(e => e.calendarUrl).sort()).toEqual([personal.url, work.url]);
+  });
+
+  it('should queue a move that fails on the network and replay it later', async () => {
+    davClient.moveEvent.mockRejectedValueOnce(new Error('Event move failed: Network error'));
+
+    await syncService.moveEvent(personal, work, event);
+    expect(CacheService.getPendingOperations()[0]).toMatchObject({
+      type: 'move',
+      resourceUrl: personal.url,
+      targetUrl: work.url,
+    });
+
+    await syncService.processPendingOperations();
+
+    expect(davClient.moveEvent).toHaveBeenCalledTimes(2);
+    expect(davClient.moveEvent.mock.calls[1][0].url).toBe(personal.url);
+    expect(davClient.moveEvent.mock.calls[1][1].url).toBe(work.url);
+    expect(CacheService.getPendingOperations()).toHaveLength(0);
+  });
+
+  it('should undo the move when the target already has the event', async () => {
+    davClient.moveEvent.mockRejectedValueOnce(
+      new Error('Event move conflict: The target calendar already has this event.')
+    );
+
+    await expect(syncService.moveEvent(personal, work, event)).rejects.toThrow('Event move conflict');
+
+    const [cached] = await CacheService.getCachedEventsByUid('meeting');
+    expect(cached.calendarUrl).toBe(personal.url);
+    expect(CacheService.getPendingOperations()).toHaveLength(0);
+  });
+
+  it('should drop a queued move when the event is moved back offline', async () => {
+    goOffline();
+
+    await syncService.moveEvent(personal, work, event);
+    await syncService.moveEvent(work, personal, { ...event, calendarUrl: work.url });
+
+    expect(CacheService.getPendingOperations()).toHaveLength(0);
+    const [cached] = await CacheService.getCachedEventsByUid('meeting');
+    expect(cached.calendarUrl).toBe(personal.url);
+  });
+
+  it('should create an event that never reached the server in the target instead', async () => {
+    goOffline();
+    const offlineEvent = { ...event, uid: 'offline-1', etag: undefined, href: undefined };
+    await syncService.createEvent(personal, offlineEvent);
+
+    await syncService.moveEvent(personal, work, offlineEvent);
+
+    expect(CacheService.getPendingOperations()).toEqual([
+      expect.objectContaining({ type: 'create', resourceUrl: work.url }),
+    ]);
+  });
+
+  it('should put the event back when a queued move is discarded', async () => {
+    goOffline();
+    await syncService.moveEvent(personal, work, event);
+    const [operation] = CacheService.getPendingOperations();
+
+    await syncService.discardPendingOperation(operation.id);
+
+    const cached = await CacheService.getCachedEventsByUid('meeting');
+    expect(cached).toHaveLength(1);
+    expect(cached[0].calendarUrl).toBe(personal.url);
+  });
+});
+
+describe('SyncService ranged fetches', () => {
+  const calendar: Calendar = {
+    url: 'http://example.com/calendars/testuser/personal/',
+    displayName: 'Personal',
+  };
+
+  const event = (uid: string, day: number): CalendarEvent => ({
+    uid,
+    summary: uid,
+    dtstart: new Date(Date.UTC(2025, 6, day, 10)),
+    dtend: new Date(Date.UTC(2025, 6, day, 11)),
+  });
+
+  const firstWindow = { start: new Date('2025-07-01T00:00:00Z'), end: new Date('2025-07-14T23:59:59Z') };
+  const secondWindow = { start: new Date('2025-07-15T00:00:00Z'), end: new Date('2025-07-28T23:59:59Z') };
+
+  let davClient: jest.Mocked<Pick<DAVClient, 'getEvents'>>;
+  let syncService: SyncService;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await CacheService.clearCache();
+
+    davClient = {
+      getEvents: jest.fn()
+        .mockResolvedValueOnce([event('standup', 3)])
+        .mockResolvedValueOnce([event('retro', 20)]),
+    };
+    syncService = new SyncService(davClient as unknown as DAVClient);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep the events of earlier windows cached for offline use', async () => {
+    await syncService.getEvents(calendar, firstWindow);
+    await syncService.getEvents(calendar, secondWindow);
+
+    jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const events = await syncService.getEvents(calendar, firstWindow);
+
+    expect(events.map(e => e.uid)).toEqual(['standup']);
+  });
+});
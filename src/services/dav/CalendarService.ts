@@ -1,4 +1,14 @@
-import { Calendar, CalendarEvent, DateRange } from "../../types/dav";
+import {
+  Calendar,
+  CalendarEvent,
+  DateRange,
+  BusyPeriod,
+  FreeBusyResult,
+  SchedulingInfo,
+  SchedulingMessage,
+  SyncCollectionChanges,
+  Task,
+} from "../../types/dav";
 import { HttpClient } from "./HttpClient";
 import { XmlParser } from "./XmlParser";
 import { UrlBuilder } from "./UrlBuilder";
@@ -41,7 +51,7 @@ export class CalendarService {
 
     // PROPFIND request body to discover calendar collections
     const propfindBody = `<?xml version="1.0" encoding="utf-8" ?>
-<D:propfind xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav" xmlns:A="http://apple.com/ns/ical/">
+<D:propfind xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav" xmlns:A="http://apple.com/ns/ical/" xmlns:CS="http://calendarserver.org/ns/">
   <D:prop>
     <D:displayname />
     <D:resourcetype />
@@ -49,6 +59,8 @@ export class CalendarService {
     <C:calendar-color />
     <A:calendar-color />
     <C:supported-calendar-component-set />
+    <D:sync-token />
+    <CS:getctag />
   </D:prop>
 </D:propfind>`;
 
@@ -156,6 +168,148 @@ export class CalendarService {
     }
   }
 
+  /**
+   * List the event resources changed or deleted since a sync token
+   * Implements WebDAV sync-collection (RFC 6578); without a token every
+   * resource of the calendar is reported
+   */
+  public async syncCalendar(
+    calendar: Calendar,
+    syncToken?: string
+  ): Promise<SyncCollectionChanges> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before syncing calendars."
+      );
+    }
+
+    const reportBody = `<?xml version="1.0" encoding="utf-8" ?>
+<D:sync-collection xmlns:D="DAV:">
+  <D:sync-token>${syncToken ? this.xmlParser.escapeXmlValue(syncToken) : ""}</D:sync-token>
+  <D:sync-level>1</D:sync-level>
+  <D:prop>
+    <D:getetag />
+  </D:prop>
+</D:sync-collection>`;
+
+    try {
+      const response = await this.httpClient.report(calendar.url, reportBody, {
+        Depth: "0",
+      });
+      return this.xmlParser.parseSyncCollectionResponse(response.data);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("Failed to parse sync-collection response")) {
+          throw error;
+        }
+        throw new Error(`Calendar sync failed: ${error.message}`);
+      }
+      throw new Error("Calendar sync failed: Unknown error");
+    }
+  }
+
+  /**
+   * Retrieve specific event resources by href
+   * Implements CalDAV calendar-multiget protocol
+   */
+  public async getEventsByHref(
+    calendar: Calendar,
+    hrefs: string[]
+  ): Promise<CalendarEvent[]> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before retrieving events."
+      );
+    }
+
+    if (hrefs.length === 0) {
+      return [];
+    }
+
+    const reportBody = `<?xml version="1.0" encoding="utf-8" ?>
+<C:calendar-multiget xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop>
+    <D:getetag />
+    <C:calendar-data />
+  </D:prop>
+${hrefs
+  .map((href) => `  <D:href>${this.xmlParser.escapeXmlValue(href)}</D:href>`)
+  .join("\n")}
+</C:calendar-multiget>`;
+
+    try {
+      const response = await this.httpClient.report(calendar.url, reportBody);
+      return this.dataFormatters.parseCalendarEventsResponse(response.data);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (
+          error.message.includes("Failed to parse calendar events response")
+        ) {
+          throw error;
+        }
+        throw new Error(`Event retrieval failed: ${error.message}`);
+      }
+      throw new Error("Event retrieval failed: Unknown error");
+    }
+  }
+
+  /**
+   * Retrieve the raw iCalendar data of every resource in a calendar, e.g. for
+   * a backup that keeps properties the event model does not
+   */
+  public async getCalendarData(calendar: Calendar): Promise<string[]> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before exporting calendars."
+      );
+    }
+
+    // calendar-query without a time-range matches every resource
+    const reportBody = `<?xml version="1.0" encoding="utf-8" ?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop>
+    <C:calendar-data />
+  </D:prop>
+  <C:filter>
+    <C:comp-filter name="VCALENDAR" />
+  </C:filter>
+</C:calendar-query>`;
+
+    try {
+      const response = await this.httpClient.report(calendar.url, reportBody);
+      return this.dataFormatters.parseResourceDataResponse(
+        response.data,
+        "calendar-data"
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Calendar export failed: ${error.message}`);
+      }
+      throw new Error("Calendar export failed: Unknown error");
+    }
+  }
+
+  /**
+   * Retrieve the server copy of an event, e.g. to resolve a conflict
+   * Returns null when the event no longer exists on the server
+   */
+  public async getEvent(
+    calendar: Calendar,
+    event: CalendarEvent
+  ): Promise<CalendarEvent | null> {
+    const eventUrl = this.urlBuilder.generateEventUrl(calendar, event);
+    const [serverEvent] = await this.getEventsByHref(calendar, [
+      new URL(eventUrl).pathname,
+    ]);
+    return serverEvent || null;
+  }
+
   /**
    * Create a new calendar event using PUT request with iCalendar data
    * Implements CalDAV event creation protocol
@@ -179,17 +333,30 @@ export class CalendarService {
     const icalData = this.dataFormatters.generateICalendarData(event);
 
     try {
-      // PUT request to create the event
+      // PUT request with If-None-Match so an existing resource is never overwritten
       const response = await this.httpClient.put(eventUrl, icalData, {
         "Content-Type": "text/calendar; charset=utf-8",
+        "If-None-Match": "*",
       });
 
       // Check if creation was successful (201 Created or 204 No Content)
       if (response.status !== 201 && response.status !== 204) {
         throw new Error(`Event creation failed with status ${response.status}`);
       }
+
+      // Remember the new ETag so the next update is conditional on it
+      const newETag = response.headers?.etag?.replace(/"/g, "");
+      if (newETag) {
+        event.etag = newETag;
+      }
     } catch (error) {
       if (error instanceof Error) {
+        // Handle 412 Precondition Failed specifically
+        if (error.message.includes("Server error (412)")) {
+          throw new Error(
+            "Event creation conflict: An event with this UID already exists on the server."
+          );
+        }
         // If it's a network/HTTP error, wrap it with context
         if (
           error.message.includes("Authentication failed") ||
@@ -250,6 +417,12 @@ export class CalendarService {
         }
         throw new Error(`Event update failed with status ${response.status}`);
       }
+
+      // Update the ETag if provided in response
+      const newETag = response.headers?.etag?.replace(/"/g, "");
+      if (newETag) {
+        event.etag = newETag;
+      }
     } catch (error) {
       if (error instanceof Error) {
         // If it's already a conflict error, re-throw as is
@@ -347,6 +520,500 @@ export class CalendarService {
     }
   }
 
+  /**
+   * Move an event to another calendar using a MOVE request
+   * The server keeps the resource as it is, including properties the event
+   * model does not know. Returns the event at its new location.
+   */
+  public async moveEvent(
+    from: Calendar,
+    to: Calendar,
+    event: CalendarEvent
+  ): Promise<CalendarEvent> {
+    return this.transferEvent("move", from, to, event);
+  }
+
+  /**
+   * Copy an event to another calendar using a COPY request
+   * Returns the copy, which keeps the UID of the event
+   */
+  public async copyEvent(
+    from: Calendar,
+    to: Calendar,
+    event: CalendarEvent
+  ): Promise<CalendarEvent> {
+    return this.transferEvent("copy", from, to, event);
+  }
+
+  private async transferEvent(
+    operation: "move" | "copy",
+    from: Calendar,
+    to: Calendar,
+    event: CalendarEvent
+  ): Promise<CalendarEvent> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        `Authentication not configured. Please set auth config before ${
+          operation === "move" ? "moving" : "copying"
+        } events.`
+      );
+    }
+
+    const sourceUrl = this.urlBuilder.generateEventUrl(from, event);
+    const destinationUrl = this.urlBuilder.generateTransferUrl(to, sourceUrl);
+    const href = new URL(destinationUrl).pathname;
+
+    try {
+      const response =
+        operation === "move"
+          ? await this.httpClient.move(sourceUrl, destinationUrl)
+          : await this.httpClient.copy(sourceUrl, destinationUrl);
+
+      // MOVE and COPY rarely return the new ETag, so read it back
+      let etag: string | undefined = response.headers?.etag?.replace(/"/g, "");
+      if (!etag) {
+        const [transferred] = await this.getEventsByHref(to, [href]);
+        etag = transferred?.etag;
+      }
+
+      return { ...event, calendarUrl: to.url, href, etag };
+    } catch (error) {
+      const label = operation === "move" ? "Event move" : "Event copy";
+      if (error instanceof Error) {
+        // Overwrite: F refuses to replace a resource of the same name
+        if (error.message.includes("Server error (412)")) {
+          throw new Error(
+            `${label} conflict: The target calendar already has this event.`
+          );
+        }
+        throw new Error(`${label} failed: ${error.message}`);
+      }
+      throw new Error(`${label} failed: Unknown error`);
+    }
+  }
+
+  /**
+   * Retrieve all tasks (VTODO) of a task list using a REPORT request
+   * Implements CalDAV calendar-query protocol without a time range, so tasks
+   * without a due date are included
+   */
+  public async getTasks(calendar: Calendar): Promise<Task[]> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before retrieving tasks."
+      );
+    }
+
+    const reportBody = `<?xml version="1.0" encoding="utf-8" ?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop>
+    <D:getetag />
+    <C:calendar-data />
+  </D:prop>
+  <C:filter>
+    <C:comp-filter name="VCALENDAR">
+      <C:comp-filter name="VTODO" />
+    </C:comp-filter>
+  </C:filter>
+</C:calendar-query>`;
+
+    try {
+      const response = await this.httpClient.report(calendar.url, reportBody);
+      return this.dataFormatters
+        .parseTasksResponse(response.data)
+        .map((task) => ({ ...task, calendarUrl: calendar.url }));
+    } catch (error) {
+      if (error instanceof Error) {
+        // If it's already a parsing error, re-throw as is
+        if (error.message.includes("Failed to parse tasks response")) {
+          throw error;
+        }
+        throw new Error(`Task retrieval failed: ${error.message}`);
+      }
+      throw new Error("Task retrieval failed: Unknown error");
+    }
+  }
+
+  /**
+   * Create a new task using PUT request with iCalendar data
+   */
+  public async createTask(calendar: Calendar, task: Task): Promise<void> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before creating tasks."
+      );
+    }
+
+    const taskUrl = this.urlBuilder.generateEventUrl(calendar, task);
+    const icalData = this.dataFormatters.generateTaskICalendarData(task);
+
+    try {
+      // PUT request with If-None-Match so an existing resource is never overwritten
+      const response = await this.httpClient.put(taskUrl, icalData, {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "If-None-Match": "*",
+      });
+
+      if (response.status !== 201 && response.status !== 204) {
+        throw new Error(`Task creation failed with status ${response.status}`);
+      }
+
+      const newETag = response.headers?.etag?.replace(/"/g, "");
+      if (newETag) {
+        task.etag = newETag;
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("Server error (412)")) {
+          throw new Error(
+            "Task creation conflict: A task with this UID already exists on the server."
+          );
+        }
+        throw new Error(`Task creation failed: ${error.message}`);
+      }
+      throw new Error("Task creation failed: Unknown error");
+    }
+  }
+
+  /**
+   * Update an existing task using PUT request with ETag handling
+   */
+  public async updateTask(calendar: Calendar, task: Task): Promise<void> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before updating tasks."
+      );
+    }
+
+    if (!task.etag) {
+      throw new Error("Task ETag is required for updates to detect conflicts.");
+    }
+
+    const taskUrl = this.urlBuilder.generateEventUrl(calendar, task);
+    const icalData = this.dataFormatters.generateTaskICalendarData(task);
+
+    try {
+      const response = await this.httpClient.put(taskUrl, icalData, {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "If-Match": `"${task.etag}"`,
+      });
+
+      if (response.status !== 200 && response.status !== 204) {
+        if (response.status === 412) {
+          throw new Error(
+            "Task update conflict: The task has been modified by another client. Please refresh and try again."
+          );
+        }
+        throw new Error(`Task update failed with status ${response.status}`);
+      }
+
+      const newETag = response.headers?.etag?.replace(/"/g, "");
+      if (newETag) {
+        task.etag = newETag;
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("Task update conflict")) {
+          throw error;
+        }
+        if (error.message.includes("Server error (412)")) {
+          throw new Error(
+            "Task update conflict: The task has been modified by another client. Please refresh and try again."
+          );
+        }
+        throw new Error(`Task update failed: ${error.message}`);
+      }
+      throw new Error("Task update failed: Unknown error");
+    }
+  }
+
+  /**
+   * Delete an existing task using DELETE request with ETag handling
+   */
+  public async deleteTask(calendar: Calendar, task: Task): Promise<void> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before deleting tasks."
+      );
+    }
+
+    const taskUrl = this.urlBuilder.generateEventUrl(calendar, task);
+
+    try {
+      const headers: Record<string, string> = {};
+      if (task.etag) {
+        headers["If-Match"] = `"${task.etag}"`;
+      }
+
+      const response = await this.httpClient.delete(taskUrl, headers);
+
+      // A task that is already gone (404) counts as deleted
+      if (
+        response.status !== 200 &&
+        response.status !== 204 &&
+        response.status !== 404
+      ) {
+        if (response.status === 412) {
+          throw new Error(
+            "Task deletion conflict: The task has been modified by another client. Please refresh and try again."
+          );
+        }
+        throw new Error(`Task deletion failed with status ${response.status}`);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("Task deletion conflict")) {
+          throw error;
+        }
+        if (error.message.includes("Server error (412)")) {
+          throw new Error(
+            "Task deletion conflict: The task has been modified by another client. Please refresh and try again."
+          );
+        }
+        throw new Error(`Task deletion failed: ${error.message}`);
+      }
+      throw new Error("Task deletion failed: Unknown error");
+    }
+  }
+
+  /**
+   * Discover the schedule inbox, schedule outbox and calendar user addresses
+   * of the current user from their principal (RFC 6638)
+   */
+  public async discoverScheduling(): Promise<SchedulingInfo> {
+    const provider = this.httpClient.getProvider();
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!provider) {
+      throw new Error(
+        "Provider not set. Please set a provider before discovering scheduling support."
+      );
+    }
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before discovering scheduling support."
+      );
+    }
+
+    const serverBaseUrl = new URL(authConfig.caldavUrl).origin;
+    const discoveryUrl = this.urlBuilder.buildCalendarDiscoveryUrl(authConfig, provider);
+
+    const principalBody = `<?xml version="1.0" encoding="utf-8" ?>
+<D:propfind xmlns:D="DAV:">
+  <D:prop>
+    <D:current-user-principal />
+  </D:prop>
+</D:propfind>`;
+
+    const schedulingBody = `<?xml version="1.0" encoding="utf-8" ?>
+<D:propfind xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop>
+    <C:schedule-inbox-URL />
+    <C:schedule-outbox-URL />
+    <C:calendar-user-address-set />
+  </D:prop>
+</D:propfind>`;
+
+    try {
+      const principalResponse = await this.httpClient.propfind(
+        discoveryUrl,
+        principalBody,
+        "0"
+      );
+      const principalUrl = this.xmlParser.parseCurrentUserPrincipalResponse(
+        principalResponse.data,
+        serverBaseUrl
+      );
+      if (!principalUrl) {
+        return { addresses: [] };
+      }
+
+      const response = await this.httpClient.propfind(
+        principalUrl,
+        schedulingBody,
+        "0"
+      );
+      return this.xmlParser.parseSchedulingInfoResponse(
+        response.data,
+        serverBaseUrl
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Scheduling discovery failed: ${error.message}`);
+      }
+      throw new Error("Scheduling discovery failed: Unknown error");
+    }
+  }
+
+  /**
+   * Retrieve the iTIP messages waiting in a schedule inbox
+   */
+  public async getSchedulingMessages(
+    inboxUrl: string
+  ): Promise<SchedulingMessage[]> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before retrieving scheduling messages."
+      );
+    }
+
+    const reportBody = `<?xml version="1.0" encoding="utf-8" ?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop>
+    <D:getetag />
+    <C:calendar-data />
+  </D:prop>
+  <C:filter>
+    <C:comp-filter name="VCALENDAR" />
+  </C:filter>
+</C:calendar-query>`;
+
+    try {
+      const response = await this.httpClient.report(inboxUrl, reportBody);
+      const serverBaseUrl = new URL(authConfig.caldavUrl).origin;
+
+      return this.dataFormatters
+        .parseSchedulingInboxResponse(response.data)
+        .map((message) => ({
+          ...message,
+          url: message.url.startsWith("http")
+            ? message.url
+            : `${serverBaseUrl}${message.url}`,
+        }));
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("Failed to parse scheduling inbox response")) {
+          throw error;
+        }
+        throw new Error(`Scheduling inbox retrieval failed: ${error.message}`);
+      }
+      throw new Error("Scheduling inbox retrieval failed: Unknown error");
+    }
+  }
+
+  /**
+   * Remove a processed iTIP message from the schedule inbox
+   */
+  public async deleteSchedulingMessage(message: SchedulingMessage): Promise<void> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before deleting scheduling messages."
+      );
+    }
+
+    try {
+      const headers: Record<string, string> = {};
+      if (message.etag) {
+        headers["If-Match"] = `"${message.etag}"`;
+      }
+      await this.httpClient.delete(message.url, headers);
+    } catch (error) {
+      if (error instanceof Error) {
+        // Already removed, e.g. by another client
+        if (error.message.includes("Resource not found")) {
+          return;
+        }
+        throw new Error(`Scheduling message deletion failed: ${error.message}`);
+      }
+      throw new Error("Scheduling message deletion failed: Unknown error");
+    }
+  }
+
+  /**
+   * Retrieve the busy periods of one of the user's calendars
+   * Implements the CalDAV free-busy-query REPORT (RFC 4791)
+   */
+  public async getFreeBusy(
+    calendar: Calendar,
+    dateRange: DateRange
+  ): Promise<BusyPeriod[]> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before retrieving free/busy information."
+      );
+    }
+
+    const formatDate = (date: Date): string => {
+      return date
+        .toISOString()
+        .replace(/[-:]/g, "")
+        .replace(/\.\d{3}/, "");
+    };
+
+    const reportBody = `<?xml version="1.0" encoding="utf-8" ?>
+<C:free-busy-query xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <C:time-range start="${formatDate(dateRange.start)}" end="${formatDate(dateRange.end)}"/>
+</C:free-busy-query>`;
+
+    try {
+      // The response is a text/calendar body holding a VFREEBUSY component
+      const response = await this.httpClient.report(calendar.url, reportBody);
+      return this.dataFormatters.parseFreeBusyData(response.data);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Free/busy lookup failed: ${error.message}`);
+      }
+      throw new Error("Free/busy lookup failed: Unknown error");
+    }
+  }
+
+  /**
+   * Ask the server for the free/busy information of other calendar users
+   * Implements a VFREEBUSY request POSTed to the schedule outbox (RFC 6638)
+   */
+  public async queryScheduleFreeBusy(
+    outboxUrl: string,
+    organizer: string,
+    attendees: string[],
+    dateRange: DateRange
+  ): Promise<FreeBusyResult[]> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before retrieving free/busy information."
+      );
+    }
+
+    const requestBody = this.dataFormatters.generateFreeBusyRequest(
+      organizer,
+      attendees,
+      dateRange
+    );
+
+    try {
+      const response = await this.httpClient.post(outboxUrl, requestBody, {
+        "Content-Type": "text/calendar; charset=utf-8",
+      });
+      return this.dataFormatters.parseScheduleResponse(response.data);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("Failed to parse schedule response")) {
+          throw error;
+        }
+        throw new Error(`Free/busy lookup failed: ${error.message}`);
+      }
+      throw new Error("Free/busy lookup failed: Unknown error");
+    }
+  }
+
   /**
    * Create a new calendar using MKCALENDAR request
    * Implements CalDAV calendar creation protocol
@@ -1,4 +1,4 @@
-import { AddressBook, Contact } from "../../types/dav";
+import { AddressBook, Contact, SyncCollectionChanges } from "../../types/dav";
 import { HttpClient } from "./HttpClient";
 import { XmlParser } from "./XmlParser";
 import { UrlBuilder } from "./UrlBuilder";
@@ -41,12 +41,14 @@ export class ContactService {
 
     // PROPFIND request body to discover address book collections
     const propfindBody = `<?xml version="1.0" encoding="utf-8" ?>
-<D:propfind xmlns:D="DAV:" xmlns:CARD="urn:ietf:params:xml:ns:carddav">
+<D:propfind xmlns:D="DAV:" xmlns:CARD="urn:ietf:params:xml:ns:carddav" xmlns:CS="http://calendarserver.org/ns/">
   <D:prop>
     <D:displayname />
     <D:resourcetype />
     <CARD:addressbook-description />
     <CARD:supported-address-data />
+    <D:sync-token />
+    <CS:getctag />
   </D:prop>
 </D:propfind>`;
 
@@ -134,6 +136,144 @@ export class ContactService {
     }
   }
 
+  /**
+   * List the contact resources changed or deleted since a sync token
+   * Implements WebDAV sync-collection (RFC 6578); without a token every
+   * resource of the address book is reported
+   */
+  public async syncAddressBook(
+    addressBook: AddressBook,
+    syncToken?: string
+  ): Promise<SyncCollectionChanges> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before syncing address books."
+      );
+    }
+
+    const reportBody = `<?xml version="1.0" encoding="utf-8" ?>
+<D:sync-collection xmlns:D="DAV:">
+  <D:sync-token>${syncToken ? this.xmlParser.escapeXmlValue(syncToken) : ""}</D:sync-token>
+  <D:sync-level>1</D:sync-level>
+  <D:prop>
+    <D:getetag />
+  </D:prop>
+</D:sync-collection>`;
+
+    try {
+      const response = await this.httpClient.report(addressBook.url, reportBody, {
+        Depth: "0",
+      });
+      return this.xmlParser.parseSyncCollectionResponse(response.data);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("Failed to parse sync-collection response")) {
+          throw error;
+        }
+        throw new Error(`Address book sync failed: ${error.message}`);
+      }
+      throw new Error("Address book sync failed: Unknown error");
+    }
+  }
+
+  /**
+   * Retrieve specific contact resources by href
+   * Implements CardDAV addressbook-multiget protocol
+   */
+  public async getContactsByHref(
+    addressBook: AddressBook,
+    hrefs: string[]
+  ): Promise<Contact[]> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before retrieving contacts."
+      );
+    }
+
+    if (hrefs.length === 0) {
+      return [];
+    }
+
+    const reportBody = `<?xml version="1.0" encoding="utf-8" ?>
+<CARD:addressbook-multiget xmlns:D="DAV:" xmlns:CARD="urn:ietf:params:xml:ns:carddav">
+  <D:prop>
+    <D:getetag />
+    <CARD:address-data />
+  </D:prop>
+${hrefs
+  .map((href) => `  <D:href>${this.xmlParser.escapeXmlValue(href)}</D:href>`)
+  .join("\n")}
+</CARD:addressbook-multiget>`;
+
+    try {
+      const response = await this.httpClient.report(addressBook.url, reportBody);
+      return this.dataFormatters.parseContactsResponse(response.data);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("Failed to parse contacts response")) {
+          throw error;
+        }
+        throw new Error(`Contact retrieval failed: ${error.message}`);
+      }
+      throw new Error("Contact retrieval failed: Unknown error");
+    }
+  }
+
+  /**
+   * Retrieve the raw vCard data of every contact in an address book, e.g. for
+   * a backup that keeps properties the contact model does not
+   */
+  public async getAddressBookData(addressBook: AddressBook): Promise<string[]> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before exporting address books."
+      );
+    }
+
+    // An empty filter matches every address object (RFC 6352 section 10.5)
+    const reportBody = `<?xml version="1.0" encoding="utf-8" ?>
+<CARD:addressbook-query xmlns:D="DAV:" xmlns:CARD="urn:ietf:params:xml:ns:carddav">
+  <D:prop>
+    <CARD:address-data />
+  </D:prop>
+  <CARD:filter />
+</CARD:addressbook-query>`;
+
+    try {
+      const response = await this.httpClient.report(addressBook.url, reportBody);
+      return this.dataFormatters.parseResourceDataResponse(
+        response.data,
+        "address-data"
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Address book export failed: ${error.message}`);
+      }
+      throw new Error("Address book export failed: Unknown error");
+    }
+  }
+
+  /**
+   * Retrieve the server copy of a contact, e.g. to resolve a conflict
+   * Returns null when the contact no longer exists on the server
+   */
+  public async getContact(
+    addressBook: AddressBook,
+    contact: Contact
+  ): Promise<Contact | null> {
+    const contactUrl = this.urlBuilder.generateContactUrl(addressBook, contact);
+    const [serverContact] = await this.getContactsByHref(addressBook, [
+      new URL(contactUrl).pathname,
+    ]);
+    return serverContact || null;
+  }
+
   /**
    * Create a new contact using PUT request with vCard data
    * Implements CardDAV contact creation protocol
@@ -157,9 +297,10 @@ export class ContactService {
     const vcardData = this.dataFormatters.generateVCardData(contact);
 
     try {
-      // PUT request to create the contact
+      // PUT request with If-None-Match so an existing resource is never overwritten
       const response = await this.httpClient.put(contactUrl, vcardData, {
         "Content-Type": "text/vcard; charset=utf-8",
+        "If-None-Match": "*",
       });
 
       // Check if creation was successful (201 Created or 204 No Content)
@@ -168,8 +309,20 @@ export class ContactService {
           `Contact creation failed with status ${response.status}`
         );
       }
+
+      // Remember the new ETag so the next update is conditional on it
+      const newETag = response.headers?.etag?.replace(/"/g, "");
+      if (newETag) {
+        contact.etag = newETag;
+      }
     } catch (error) {
       if (error instanceof Error) {
+        // Handle 412 Precondition Failed specifically
+        if (error.message.includes("Server error (412)")) {
+          throw new Error(
+            "Contact creation conflict: A contact with this UID already exists on the server."
+          );
+        }
         // If it's a network/HTTP error, wrap it with context
         if (
           error.message.includes("Authentication failed") ||
@@ -335,6 +488,79 @@ export class ContactService {
     }
   }
 
+  /**
+   * Move a contact to another address book using a MOVE request
+   * Returns the contact at its new location
+   */
+  public async moveContact(
+    from: AddressBook,
+    to: AddressBook,
+    contact: Contact
+  ): Promise<Contact> {
+    return this.transferContact("move", from, to, contact);
+  }
+
+  /**
+   * Copy a contact to another address book using a COPY request
+   * Returns the copy, which keeps the UID of the contact
+   */
+  public async copyContact(
+    from: AddressBook,
+    to: AddressBook,
+    contact: Contact
+  ): Promise<Contact> {
+    return this.transferContact("copy", from, to, contact);
+  }
+
+  private async transferContact(
+    operation: "move" | "copy",
+    from: AddressBook,
+    to: AddressBook,
+    contact: Contact
+  ): Promise<Contact> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        `Authentication not configured. Please set auth config before ${
+          operation === "move" ? "moving" : "copying"
+        } contacts.`
+      );
+    }
+
+    const sourceUrl = this.urlBuilder.generateContactUrl(from, contact);
+    const destinationUrl = this.urlBuilder.generateTransferUrl(to, sourceUrl);
+    const href = new URL(destinationUrl).pathname;
+
+    try {
+      const response =
+        operation === "move"
+          ? await this.httpClient.move(sourceUrl, destinationUrl)
+          : await this.httpClient.copy(sourceUrl, destinationUrl);
+
+      // MOVE and COPY rarely return the new ETag, so read it back
+      let etag: string | undefined = response.headers?.etag?.replace(/"/g, "");
+      if (!etag) {
+        const [transferred] = await this.getContactsByHref(to, [href]);
+        etag = transferred?.etag;
+      }
+
+      return { ...contact, href, etag };
+    } catch (error) {
+      const label = operation === "move" ? "Contact move" : "Contact copy";
+      if (error instanceof Error) {
+        // Overwrite: F refuses to replace a resource of the same name
+        if (error.message.includes("Server error (412)")) {
+          throw new Error(
+            `${label} conflict: The target address book already has this contact.`
+          );
+        }
+        throw new Error(`${label} failed: ${error.message}`);
+      }
+      throw new Error(`${label} failed: Unknown error`);
+    }
+  }
+
   /**
    * Create a new address book using MKCOL request
    * Implements CardDAV address book creation protocol
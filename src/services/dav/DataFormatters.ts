@@ -1,7 +1,150 @@
-import { CalendarEvent, Contact } from "../../types/dav";
+import {
+  AttendeeRole,
+  BusyPeriod,
+  CalendarEvent,
+  Contact,
+  ContactAddress,
+  DateRange,
+  EventAlarm,
+  EventAttendee,
+  EventOrganizer,
+  FreeBusyResult,
+  FreeBusyType,
+  ParticipationStatus,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  SchedulingMessage,
+  Task,
+  TaskStatus,
+} from "../../types/dav";
 import ICAL from "ical.js";
+import {
+  formatUtcOffset,
+  getTimeZoneOffset,
+  getTimeZoneTransitions,
+  getZonedDateTime,
+  isValidTimeZone,
+  zonedDateTimeToDate,
+} from "../../utils/timezones";
+import {
+  ContentChild,
+  ContentComponent,
+  getComponentProperty,
+  getPropertyName,
+  getPropertyParameter,
+  getPropertyValue,
+  parseContentComponents,
+  patchContentComponent,
+  serializeContentComponent,
+} from "../../utils/contentLines";
 const vcardParser = require("vcard-parser");
 
+const PARTICIPATION_STATUSES: ParticipationStatus[] = [
+  "NEEDS-ACTION",
+  "ACCEPTED",
+  "DECLINED",
+  "TENTATIVE",
+  "DELEGATED",
+];
+const ATTENDEE_ROLES: AttendeeRole[] = [
+  "CHAIR",
+  "REQ-PARTICIPANT",
+  "OPT-PARTICIPANT",
+  "NON-PARTICIPANT",
+];
+// TYPE values that say nothing a reader needs, such as EMAIL;TYPE=INTERNET
+const IGNORED_VCARD_TYPES = ["pref", "internet", "voice", "x400", "msg"];
+
+const TASK_STATUSES: TaskStatus[] = [
+  "NEEDS-ACTION",
+  "IN-PROCESS",
+  "COMPLETED",
+  "CANCELLED",
+];
+
+const FREE_BUSY_TYPES: FreeBusyType[] = [
+  "BUSY",
+  "BUSY-UNAVAILABLE",
+  "BUSY-TENTATIVE",
+];
+
+const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = [
+  "SECONDLY",
+  "MINUTELY",
+  "HOURLY",
+  "DAILY",
+  "WEEKLY",
+  "MONTHLY",
+  "YEARLY",
+];
+
+// Numeric RRULE parts and the RecurrenceRule fields they are read into
+const RECURRENCE_NUMBER_PARTS: [
+  string,
+  | "byMonthDay"
+  | "byMonth"
+  | "byYearDay"
+  | "byWeekNo"
+  | "byHour"
+  | "byMinute"
+  | "bySecond"
+  | "bySetPos"
+][] = [
+  ["BYMONTHDAY", "byMonthDay"],
+  ["BYMONTH", "byMonth"],
+  ["BYYEARDAY", "byYearDay"],
+  ["BYWEEKNO", "byWeekNo"],
+  ["BYHOUR", "byHour"],
+  ["BYMINUTE", "byMinute"],
+  ["BYSECOND", "bySecond"],
+  ["BYSETPOS", "bySetPos"],
+];
+
+// Contact fields and the vCard properties they are written to
+const VCARD_FIELD_PROPERTIES: [(keyof Contact)[], string[]][] = [
+  [["fn"], ["FN"]],
+  [["firstName", "lastName"], ["N"]],
+  [["nickname"], ["NICKNAME"]],
+  [["email", "emailTypes"], ["EMAIL"]],
+  [["tel", "telTypes"], ["TEL"]],
+  [["adr"], ["ADR"]],
+  [["org"], ["ORG"]],
+  [["title"], ["TITLE"]],
+  [["role"], ["ROLE"]],
+  [["bday"], ["BDAY"]],
+  [["anniversary"], ["ANNIVERSARY", "X-ANNIVERSARY"]],
+  [["url"], ["URL"]],
+  [["impp"], ["IMPP"]],
+  [["note"], ["NOTE"]],
+  [["photo"], ["PHOTO"]],
+];
+
+// Event fields and the VEVENT properties and subcomponents they are written to
+const VEVENT_FIELD_PROPERTIES: [(keyof CalendarEvent)[], string[]][] = [
+  [["summary"], ["SUMMARY"]],
+  [["description"], ["DESCRIPTION"]],
+  [["location"], ["LOCATION"]],
+  [["dtstart", "dtend", "allDay", "timezone"], ["DTSTART", "DTEND", "DURATION"]],
+  [["rrule"], ["RRULE"]],
+  [["exdates"], ["EXDATE"]],
+  [["organizer"], ["ORGANIZER"]],
+  [["attendees"], ["ATTENDEE"]],
+  [["alarms"], ["VALARM"]],
+];
+
+// Task fields and the VTODO properties they are written to
+const VTODO_FIELD_PROPERTIES: [(keyof Task)[], string[]][] = [
+  [["summary"], ["SUMMARY"]],
+  [["description"], ["DESCRIPTION"]],
+  [["due", "dueAllDay"], ["DUE"]],
+  [["priority"], ["PRIORITY"]],
+  [["status"], ["STATUS"]],
+  [["percentComplete"], ["PERCENT-COMPLETE"]],
+  [["completed"], ["COMPLETED"]],
+  [["relatedTo"], ["RELATED-TO"]],
+  [["sortOrder"], ["X-APPLE-SORT-ORDER"]],
+];
+
 export class DataFormatters {
   /**
    * Parse REPORT response to extract calendar events using ICAL.js
@@ -26,6 +169,9 @@ export class DataFormatters {
           "getetag"
         )[0];
         const etag = etagElement?.textContent?.trim().replace(/"/g, "");
+        const href = response
+          .getElementsByTagNameNS("DAV:", "href")[0]
+          ?.textContent?.trim();
 
         // Get calendar data
         const calendarDataElement = response.getElementsByTagNameNS(
@@ -41,28 +187,12 @@ export class DataFormatters {
           // Parse iCalendar data using ICAL.js
           const jcalData = ICAL.parse(icalData);
           const comp = new ICAL.Component(jcalData);
-
-          // Find VEVENT components
-          const vevents = comp.getAllSubcomponents("vevent");
-
-          for (const vevent of vevents) {
-            const event = new ICAL.Event(vevent);
-
-            // Extract event properties
-            const calendarEvent: CalendarEvent = {
-              uid: event.uid || "",
-              summary: event.summary || "",
-              description: event.description || undefined,
-              dtstart: event.startDate
-                ? event.startDate.toJSDate()
-                : new Date(),
-              dtend: event.endDate ? event.endDate.toJSDate() : new Date(),
-              location: event.location || undefined,
-              etag,
-            };
-
-            events.push(calendarEvent);
-          }
+          const resourceEvents = this.parseVEvents(comp, etag, href);
+          // Keep the server copy so updates preserve what we do not model
+          resourceEvents.forEach((event) => {
+            event.raw = icalData;
+          });
+          events.push(...resourceEvents);
         } catch (icalError) {
           console.warn("Failed to parse iCalendar data:", icalError);
           // Continue processing other events
@@ -79,6 +209,356 @@ export class DataFormatters {
     }
   }
 
+  /**
+   * Parse REPORT response to extract the tasks (VTODO) of a task list
+   */
+  public parseTasksResponse(xmlData: string): Task[] {
+    const tasks: Task[] = [];
+
+    try {
+      const parser = new DOMParser();
+      const xmlDoc = parser.parseFromString(xmlData, "text/xml");
+      const responses = xmlDoc.getElementsByTagNameNS("DAV:", "response");
+
+      for (let i = 0; i < responses.length; i++) {
+        const response = responses[i];
+
+        const etagElement = response.getElementsByTagNameNS(
+          "DAV:",
+          "getetag"
+        )[0];
+        const etag = etagElement?.textContent?.trim().replace(/"/g, "");
+        const href = response
+          .getElementsByTagNameNS("DAV:", "href")[0]
+          ?.textContent?.trim();
+
+        const calendarDataElement = response.getElementsByTagNameNS(
+          "urn:ietf:params:xml:ns:caldav",
+          "calendar-data"
+        )[0];
+        const icalData = calendarDataElement?.textContent?.trim();
+        if (!icalData) continue;
+
+        try {
+          const comp = new ICAL.Component(ICAL.parse(icalData));
+          // Keep the server copy so updates preserve what we do not model
+          tasks.push(
+            ...this.parseVTodos(comp, etag, href).map((task) => ({ ...task, raw: icalData }))
+          );
+        } catch (icalError) {
+          console.warn("Failed to parse iCalendar data:", icalError);
+        }
+      }
+
+      return tasks;
+    } catch (error) {
+      throw new Error(
+        `Failed to parse tasks response: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Parse a vCard file (e.g. a .vcf export) holding any number of 2.1, 3.0
+   * or 4.0 cards. Cards that cannot be read are skipped.
+   */
+  public parseVCardFile(vcardData: string): Contact[] {
+    const cards =
+      this.decodeQuotedPrintable(vcardData).match(/BEGIN:VCARD[\s\S]*?END:VCARD/gi) || [];
+    const contacts: Contact[] = [];
+
+    for (const card of cards) {
+      try {
+        contacts.push(this.parseVCard(card));
+      } catch (vcardError) {
+        console.warn("Failed to parse vCard data:", vcardError);
+      }
+    }
+
+    return contacts;
+  }
+
+  /**
+   * Parse a standalone iCalendar file (e.g. an .ics export) into events, with
+   * RECURRENCE-ID overrides attached to their series
+   */
+  public parseICalendarFile(icalData: string): CalendarEvent[] {
+    try {
+      const jcalData = ICAL.parse(icalData);
+      // Files concatenating several VCALENDARs parse to a list of them
+      const roots = typeof jcalData[0] === "string" ? [jcalData] : jcalData;
+      return roots.flatMap((root: any) =>
+        this.parseVEvents(new ICAL.Component(root))
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to parse iCalendar file: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Extract the raw calendar-data or address-data text of each resource in a
+   * REPORT response, leaving it unparsed
+   */
+  public parseResourceDataResponse(
+    xmlData: string,
+    dataElement: "calendar-data" | "address-data"
+  ): string[] {
+    const namespace =
+      dataElement === "calendar-data"
+        ? "urn:ietf:params:xml:ns:caldav"
+        : "urn:ietf:params:xml:ns:carddav";
+    const xmlDoc = new DOMParser().parseFromString(xmlData, "text/xml");
+    const responses = xmlDoc.getElementsByTagNameNS("DAV:", "response");
+    const resources: string[] = [];
+
+    for (let i = 0; i < responses.length; i++) {
+      const data = responses[i]
+        .getElementsByTagNameNS(namespace, dataElement)[0]
+        ?.textContent?.trim();
+      if (data) {
+        resources.push(data);
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * Combine iCalendar resources into a single VCALENDAR, keeping every
+   * component as it was sent and each VTIMEZONE once
+   */
+  public bundleICalendarData(resources: string[], calendarName?: string): string {
+    const timezones = new Map<string, string[]>();
+    const components: string[][] = [];
+
+    for (const resource of resources) {
+      const lines = resource.split(/\r?\n/);
+      let current: string[] | null = null;
+      let depth = 0;
+
+      for (const line of lines) {
+        if (/^BEGIN:/i.test(line)) {
+          depth++;
+          // Top-level components sit directly inside the VCALENDAR
+          if (depth === 2) current = [];
+        }
+        if (current) current.push(line);
+        if (/^END:/i.test(line)) {
+          if (depth === 2 && current) {
+            if (/^BEGIN:VTIMEZONE$/i.test(current[0])) {
+              const tzid = current.find((l) => /^TZID[:;]/i.test(l)) || "";
+              if (!timezones.has(tzid)) timezones.set(tzid, current);
+            } else {
+              components.push(current);
+            }
+            current = null;
+          }
+          depth--;
+        }
+      }
+    }
+
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//Clowd-DAV//EN",
+      ...(calendarName ? [`X-WR-CALNAME:${this.escapeICalValue(calendarName)}`] : []),
+      ...Array.from(timezones.values()).flat(),
+      ...components.flat(),
+      "END:VCALENDAR",
+    ];
+    return lines.join("\r\n") + "\r\n";
+  }
+
+  /**
+   * Combine vCard resources into a single .vcf file
+   */
+  public bundleVCardData(resources: string[]): string {
+    return resources
+      .map((resource) => resource.replace(/\r?\n/g, "\r\n").trim() + "\r\n")
+      .join("");
+  }
+
+  /**
+   * Parse a schedule inbox listing into iTIP messages (RFC 6638)
+   */
+  public parseSchedulingInboxResponse(xmlData: string): SchedulingMessage[] {
+    const messages: SchedulingMessage[] = [];
+
+    try {
+      const parser = new DOMParser();
+      const xmlDoc = parser.parseFromString(xmlData, "text/xml");
+      const responses = xmlDoc.getElementsByTagNameNS("DAV:", "response");
+
+      for (let i = 0; i < responses.length; i++) {
+        const response = responses[i];
+
+        const href = response
+          .getElementsByTagNameNS("DAV:", "href")[0]
+          ?.textContent?.trim();
+        const icalData = response
+          .getElementsByTagNameNS("urn:ietf:params:xml:ns:caldav", "calendar-data")[0]
+          ?.textContent?.trim();
+        if (!href || !icalData) continue;
+
+        const etag = response
+          .getElementsByTagNameNS("DAV:", "getetag")[0]
+          ?.textContent?.trim()
+          .replace(/"/g, "");
+
+        try {
+          const comp = new ICAL.Component(ICAL.parse(icalData));
+          const method =
+            typeof comp.getFirstPropertyValue === "function"
+              ? comp.getFirstPropertyValue("method")
+              : null;
+
+          messages.push({
+            url: href,
+            etag,
+            method: method ? String(method).toUpperCase() : "REQUEST",
+            events: this.parseVEvents(comp),
+          });
+        } catch (icalError) {
+          console.warn("Failed to parse scheduling message:", icalError);
+        }
+      }
+
+      return messages;
+    } catch (error) {
+      throw new Error(
+        `Failed to parse scheduling inbox response: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Generate a VFREEBUSY request for the schedule outbox (RFC 6638)
+   */
+  public generateFreeBusyRequest(
+    organizer: string,
+    attendees: string[],
+    range: DateRange
+  ): string {
+    const now = new Date();
+    const uid = `freebusy-${now.getTime()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    let icalData = "BEGIN:VCALENDAR\r\n";
+    icalData += "VERSION:2.0\r\n";
+    icalData += "PRODID:-//CalDAV Client//EN\r\n";
+    icalData += "METHOD:REQUEST\r\n";
+    icalData += "BEGIN:VFREEBUSY\r\n";
+    icalData += `UID:${uid}\r\n`;
+    icalData += `DTSTAMP:${this.formatICalDate(now)}\r\n`;
+    icalData += `DTSTART:${this.formatICalDate(range.start)}\r\n`;
+    icalData += `DTEND:${this.formatICalDate(range.end)}\r\n`;
+    icalData += `ORGANIZER:mailto:${organizer}\r\n`;
+    attendees.forEach((attendee) => {
+      icalData += `ATTENDEE:mailto:${attendee}\r\n`;
+    });
+    icalData += "END:VFREEBUSY\r\n";
+    icalData += "END:VCALENDAR\r\n";
+
+    return icalData;
+  }
+
+  /**
+   * Parse a schedule-response to a free/busy request into the busy periods
+   * of each recipient
+   */
+  public parseScheduleResponse(xmlData: string): FreeBusyResult[] {
+    const results: FreeBusyResult[] = [];
+    const caldavNs = "urn:ietf:params:xml:ns:caldav";
+
+    try {
+      const parser = new DOMParser();
+      const xmlDoc = parser.parseFromString(xmlData, "text/xml");
+      const responses = xmlDoc.getElementsByTagNameNS(caldavNs, "response");
+
+      for (let i = 0; i < responses.length; i++) {
+        const response = responses[i];
+
+        const recipient = response
+          .getElementsByTagNameNS(caldavNs, "recipient")[0]
+          ?.textContent?.trim();
+        if (!recipient) continue;
+
+        const status = response
+          .getElementsByTagNameNS(caldavNs, "request-status")[0]
+          ?.textContent?.trim();
+        const icalData = response
+          .getElementsByTagNameNS(caldavNs, "calendar-data")[0]
+          ?.textContent?.trim();
+        const email = this.parseCalAddress(recipient);
+
+        if (status && !status.startsWith("2")) {
+          results.push({ email, busy: [], error: status });
+          continue;
+        }
+        results.push({
+          email,
+          busy: icalData ? this.parseFreeBusyData(icalData) : [],
+        });
+      }
+
+      return results;
+    } catch (error) {
+      throw new Error(
+        `Failed to parse schedule response: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Read the FREEBUSY periods of the VFREEBUSY components in iCalendar data.
+   * Periods marked FREE are left out.
+   */
+  public parseFreeBusyData(icalData: string): BusyPeriod[] {
+    const busy: BusyPeriod[] = [];
+    const visit = (component: ContentComponent) => {
+      component.children.forEach((child) => {
+        if (typeof child !== "string") {
+          visit(child);
+          return;
+        }
+        if (component.name !== "VFREEBUSY" || getPropertyName(child) !== "FREEBUSY") {
+          return;
+        }
+
+        const fbtype = (getPropertyParameter(child, "FBTYPE") || "BUSY").toUpperCase();
+        const type = FREE_BUSY_TYPES.find((value) => value === fbtype);
+        if (!type) return;
+
+        getPropertyValue(child)
+          .split(",")
+          .forEach((period) => {
+            const [startValue, endValue = ""] = period.trim().split("/");
+            const start = this.parseICalDate(startValue);
+            if (!start) return;
+            const end = endValue.startsWith("P")
+              ? this.addICalDuration(start, endValue)
+              : this.parseICalDate(endValue);
+            if (end && end > start) {
+              busy.push({ start, end, type });
+            }
+          });
+      });
+    };
+
+    parseContentComponents(icalData).forEach(visit);
+    return busy.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
   /**
    * Parse REPORT response to extract contacts using VCF library
    */
@@ -102,6 +582,9 @@ export class DataFormatters {
           "getetag"
         )[0];
         const etag = etagElement?.textContent?.trim().replace(/"/g, "");
+        const href = response
+          .getElementsByTagNameNS("DAV:", "href")[0]
+          ?.textContent?.trim();
 
         // Get address data
         const addressDataElement = response.getElementsByTagNameNS(
@@ -114,54 +597,8 @@ export class DataFormatters {
         if (!vcardData) continue;
 
         try {
-          // Parse vCard data using vcard-parser library
-          const vcard = vcardParser.parse(vcardData);
-
-          // Extract contact properties
-          const nProperty = this.getVCardProperty(vcard, "n");
-          const fnProperty =
-            this.getVCardProperty(vcard, "fn") || "Unnamed Contact";
-          let firstName = "";
-          let lastName = "";
-
-          console.log(`Parsing contact: FN="${fnProperty}", N="${nProperty}"`);
-
-          // Parse N property (structured name: LastName;FirstName;MiddleName;Prefix;Suffix)
-          if (nProperty && typeof nProperty === "string") {
-            const nameParts = nProperty.split(";");
-            lastName = nameParts[0] || "";
-            firstName = nameParts[1] || "";
-            console.log(
-              `From N property: firstName="${firstName}", lastName="${lastName}"`
-            );
-          } else {
-            // Fallback: try to parse FN field for backward compatibility
-            const nameParts = fnProperty.trim().split(" ");
-            if (nameParts.length === 1) {
-              firstName = nameParts[0];
-            } else if (nameParts.length >= 2) {
-              firstName = nameParts[0];
-              lastName = nameParts.slice(1).join(" ");
-            }
-            console.log(
-              `From FN fallback: firstName="${firstName}", lastName="${lastName}"`
-            );
-          }
-
-          const contact: Contact = {
-            uid: this.getVCardProperty(vcard, "uid") || "",
-            fn: fnProperty,
-            firstName: firstName || undefined,
-            lastName: lastName || undefined,
-            email: this.getVCardPropertyArray(vcard, "email"),
-            tel: this.getVCardPropertyArray(vcard, "tel"),
-            org: this.getVCardProperty(vcard, "org"),
-            photo: this.getVCardPhoto(vcard),
-            etag,
-          };
-
-          console.log(`Successfully parsed contact:`, contact);
-          contacts.push(contact);
+          // Keep the server copy so updates preserve what we do not model
+          contacts.push({ ...this.parseVCard(vcardData, etag, href), raw: vcardData });
         } catch (vcardError) {
           console.warn("Failed to parse vCard data:", vcardError);
           console.warn("vCard data was:", vcardData);
@@ -184,49 +621,48 @@ export class DataFormatters {
    */
   public generateICalendarData(event: CalendarEvent): string {
     try {
-      // Format dates to iCalendar format (YYYYMMDDTHHMMSSZ)
-      const formatDate = (date: Date): string => {
-        return date
-          .toISOString()
-          .replace(/[-:]/g, "")
-          .replace(/\.\d{3}/, "");
-      };
-
       const now = new Date();
-      const dtstart = formatDate(event.dtstart);
-      const dtend = formatDate(event.dtend);
-      const dtstamp = formatDate(now);
-      const created = formatDate(now);
-      const lastModified = formatDate(now);
 
       // Build iCalendar string manually for reliability
       let icalData = "BEGIN:VCALENDAR\r\n";
       icalData += "VERSION:2.0\r\n";
       icalData += "PRODID:-//Clowd-DAV//EN\r\n";
       icalData += "CALSCALE:GREGORIAN\r\n";
-      icalData += "BEGIN:VEVENT\r\n";
-      icalData += `UID:${event.uid}\r\n`;
-      icalData += `SUMMARY:${this.escapeICalValue(event.summary)}\r\n`;
 
-      if (event.description) {
-        icalData += `DESCRIPTION:${this.escapeICalValue(
-          event.description
-        )}\r\n`;
+      // Every TZID referenced by the resource needs its VTIMEZONE
+      const components = [
+        event,
+        ...(event.rrule && event.overrides ? event.overrides : []),
+      ];
+      const timezones = new Set<string>();
+      for (const component of components) {
+        if (component.timezone && !component.allDay) {
+          timezones.add(component.timezone);
+        }
       }
+      timezones.forEach((timezone) => {
+        icalData += this.generateVTimezoneData(
+          timezone,
+          getZonedDateTime(event.dtstart, timezone).year
+        );
+      });
 
-      if (event.location) {
-        icalData += `LOCATION:${this.escapeICalValue(event.location)}\r\n`;
+      icalData += this.generateVEventData(event, now);
+
+      // Modified occurrences share the UID of the series master
+      if (event.rrule && event.overrides) {
+        for (const override of event.overrides) {
+          icalData += this.generateVEventData(
+            { ...override, uid: event.uid, rrule: undefined, exdates: undefined },
+            now
+          );
+        }
       }
 
-      icalData += `DTSTART:${dtstart}\r\n`;
-      icalData += `DTEND:${dtend}\r\n`;
-      icalData += `DTSTAMP:${dtstamp}\r\n`;
-      icalData += `CREATED:${created}\r\n`;
-      icalData += `LAST-MODIFIED:${lastModified}\r\n`;
-      icalData += "END:VEVENT\r\n";
       icalData += "END:VCALENDAR\r\n";
 
-      return icalData;
+      // Write only the edited fields into the server copy
+      return event.raw ? this.patchICalendarData(event, event.raw, icalData) : icalData;
     } catch (error) {
       throw new Error(
         `Failed to generate iCalendar data: ${
@@ -237,68 +673,22 @@ export class DataFormatters {
   }
 
   /**
-   * Generate vCard data from Contact
+   * Generate iCalendar data holding a task
    */
-  public generateVCardData(contact: Contact): string {
+  public generateTaskICalendarData(task: Task): string {
     try {
-      // Build vCard string manually for reliability
-      let vcardData = "BEGIN:VCARD\r\n";
-      vcardData += "VERSION:3.0\r\n";
-      vcardData += `UID:${contact.uid}\r\n`;
-      vcardData += `FN:${this.escapeVCardValue(contact.fn)}\r\n`;
-
-      // Add structured name (N property: LastName;FirstName;MiddleName;Prefix;Suffix)
-      const lastName = contact.lastName || "";
-      const firstName = contact.firstName || "";
-      vcardData += `N:${this.escapeVCardValue(
-        lastName
-      )};${this.escapeVCardValue(firstName)};;;\r\n`;
-
-      // Add email addresses
-      if (contact.email && contact.email.length > 0) {
-        for (const email of contact.email) {
-          vcardData += `EMAIL:${this.escapeVCardValue(email)}\r\n`;
-        }
-      }
-
-      // Add phone numbers
-      if (contact.tel && contact.tel.length > 0) {
-        for (const tel of contact.tel) {
-          vcardData += `TEL:${this.escapeVCardValue(tel)}\r\n`;
-        }
-      }
-
-      // Add organization
-      if (contact.org) {
-        vcardData += `ORG:${this.escapeVCardValue(contact.org)}\r\n`;
-      }
-
-      // Add photo
-      if (contact.photo) {
-        // Handle different photo formats
-        if (contact.photo.startsWith('data:')) {
-          // Extract base64 data and MIME type from data URL
-          const matches = contact.photo.match(/^data:([^;]+);base64,(.+)$/);
-          if (matches) {
-            const mimeType = matches[1];
-            const base64Data = matches[2];
-            vcardData += `PHOTO;TYPE=${mimeType};ENCODING=BASE64:${base64Data}\r\n`;
-          }
-        } else if (contact.photo.startsWith('http')) {
-          // URL reference
-          vcardData += `PHOTO;VALUE=URL:${contact.photo}\r\n`;
-        } else {
-          // Assume it's base64 data without data URL wrapper
-          vcardData += `PHOTO;TYPE=JPEG;ENCODING=BASE64:${contact.photo}\r\n`;
-        }
-      }
-
-      vcardData += "END:VCARD\r\n";
+      let icalData = "BEGIN:VCALENDAR\r\n";
+      icalData += "VERSION:2.0\r\n";
+      icalData += "PRODID:-//Clowd-DAV//EN\r\n";
+      icalData += "CALSCALE:GREGORIAN\r\n";
+      icalData += this.generateVTodoData(task, new Date());
+      icalData += "END:VCALENDAR\r\n";
 
-      return vcardData;
+      // Write only the edited fields into the server copy
+      return task.raw ? this.patchTaskICalendarData(task, task.raw, icalData) : icalData;
     } catch (error) {
       throw new Error(
-        `Failed to generate vCard data: ${
+        `Failed to generate iCalendar data: ${
           error instanceof Error ? error.message : "Unknown error"
         }`
       );
@@ -306,45 +696,764 @@ export class DataFormatters {
   }
 
   /**
-   * Helper method to extract a single property value from vCard
+   * Parse an RRULE value (e.g. "FREQ=WEEKLY;BYDAY=MO,WE") into a RecurrenceRule
    */
-  private getVCardProperty(
-    vcard: any,
-    propertyName: string
-  ): string | undefined {
-    try {
-      const property = vcard[propertyName.toLowerCase()];
-      if (property && Array.isArray(property) && property.length > 0) {
-        return property[0].value;
+  public parseRecurrenceRule(value: string): RecurrenceRule | undefined {
+    const parts: Record<string, string> = {};
+    for (const part of value.split(";")) {
+      const [key, partValue] = part.split("=");
+      if (key && partValue) {
+        parts[key.trim().toUpperCase()] = partValue.trim();
       }
-    } catch (error) {
-      // Property doesn't exist or error accessing it
     }
-    return undefined;
-  }
 
-  /**
-   * Helper method to extract multiple property values from vCard as an array
-   */
-  private getVCardPropertyArray(
-    vcard: any,
-    propertyName: string
-  ): string[] | undefined {
-    try {
-      const properties = vcard[propertyName.toLowerCase()];
-      if (properties && Array.isArray(properties)) {
-        const values = properties
-          .map((prop) => prop.value)
-          .filter((val) => val);
-        return values.length > 0 ? values : undefined;
-      }
-    } catch (error) {
-      // Property doesn't exist or error accessing it
+    const freq = parts.FREQ as RecurrenceFrequency;
+    if (!RECURRENCE_FREQUENCIES.includes(freq)) {
+      return undefined;
     }
-    return undefined;
-  }
 
-  /**
+    const rule: RecurrenceRule = { freq };
+
+    if (parts.INTERVAL) {
+      const interval = parseInt(parts.INTERVAL, 10);
+      if (interval > 1) rule.interval = interval;
+    }
+
+    if (parts.COUNT) {
+      const count = parseInt(parts.COUNT, 10);
+      if (count > 0) rule.count = count;
+    }
+
+    if (parts.UNTIL) {
+      rule.until = this.parseICalDate(parts.UNTIL);
+    }
+
+    if (parts.BYDAY) {
+      rule.byDay = parts.BYDAY.split(",").map((day) => day.toUpperCase());
+    }
+
+    for (const [name, key] of RECURRENCE_NUMBER_PARTS) {
+      if (parts[name]) {
+        rule[key] = parts[name]
+          .split(",")
+          .map((value) => parseInt(value, 10))
+          .filter((value) => !isNaN(value));
+      }
+    }
+
+    if (parts.WKST) {
+      rule.wkst = parts.WKST.toUpperCase();
+    }
+
+    return rule;
+  }
+
+  /**
+   * Format a RecurrenceRule as an RRULE value
+   */
+  public formatRecurrenceRule(rule: RecurrenceRule, allDay?: boolean): string {
+    const parts = [`FREQ=${rule.freq}`];
+
+    if (rule.interval && rule.interval > 1) {
+      parts.push(`INTERVAL=${rule.interval}`);
+    }
+
+    // COUNT and UNTIL are mutually exclusive (RFC 5545)
+    if (rule.count) {
+      parts.push(`COUNT=${rule.count}`);
+    } else if (rule.until) {
+      // UNTIL must have the same value type as DTSTART
+      parts.push(
+        `UNTIL=${
+          allDay
+            ? this.formatICalDateOnly(rule.until)
+            : this.formatICalDate(rule.until)
+        }`
+      );
+    }
+
+    if (rule.byDay && rule.byDay.length > 0) {
+      parts.push(`BYDAY=${rule.byDay.join(",")}`);
+    }
+
+    for (const [name, key] of RECURRENCE_NUMBER_PARTS) {
+      const values = rule[key];
+      if (values && values.length > 0) {
+        parts.push(`${name}=${values.join(",")}`);
+      }
+    }
+
+    if (rule.wkst) {
+      parts.push(`WKST=${rule.wkst}`);
+    }
+
+    return parts.join(";");
+  }
+
+  /**
+   * Generate a single VEVENT component, including recurrence properties
+   */
+  private generateVEventData(event: CalendarEvent, now: Date): string {
+    const dtstamp = this.formatICalDate(now);
+
+    let veventData = "BEGIN:VEVENT\r\n";
+    veventData += `UID:${event.uid}\r\n`;
+    veventData += `SUMMARY:${this.escapeICalValue(event.summary)}\r\n`;
+
+    if (event.description) {
+      veventData += `DESCRIPTION:${this.escapeICalValue(
+        event.description
+      )}\r\n`;
+    }
+
+    if (event.location) {
+      veventData += `LOCATION:${this.escapeICalValue(event.location)}\r\n`;
+    }
+
+    if (event.recurrenceId) {
+      veventData += `RECURRENCE-ID${this.formatICalDateProperty(
+        event.recurrenceId,
+        event.allDay,
+        event.timezone
+      )}\r\n`;
+    }
+
+    veventData += `DTSTART${this.formatICalDateProperty(
+      event.dtstart,
+      event.allDay,
+      event.timezone
+    )}\r\n`;
+    veventData += `DTEND${this.formatICalDateProperty(
+      event.dtend,
+      event.allDay,
+      event.timezone
+    )}\r\n`;
+
+    if (event.rrule) {
+      veventData += `RRULE:${this.formatRecurrenceRule(
+        event.rrule,
+        event.allDay
+      )}\r\n`;
+    }
+
+    if (event.rrule && event.exdates && event.exdates.length > 0) {
+      const exdates = event.exdates.map((exdate) =>
+        this.formatICalDateValue(exdate, event.allDay, event.timezone)
+      );
+      veventData += `EXDATE${this.formatICalDateParameters(
+        event.allDay,
+        event.timezone
+      )}:${exdates.join(",")}\r\n`;
+    }
+
+    if (event.organizer) {
+      veventData += `ORGANIZER${this.formatCalAddressParameters({
+        CN: event.organizer.name,
+      })}:mailto:${event.organizer.email}\r\n`;
+    }
+
+    for (const attendee of event.attendees || []) {
+      veventData += `ATTENDEE${this.formatCalAddressParameters({
+        CN: attendee.name,
+        ROLE: attendee.role,
+        PARTSTAT: attendee.partstat || "NEEDS-ACTION",
+        RSVP: attendee.rsvp ? "TRUE" : undefined,
+      })}:mailto:${attendee.email}\r\n`;
+    }
+
+    veventData += `DTSTAMP:${dtstamp}\r\n`;
+    veventData += `CREATED:${dtstamp}\r\n`;
+    veventData += `LAST-MODIFIED:${dtstamp}\r\n`;
+
+    for (const alarm of event.alarms || []) {
+      veventData += this.generateVAlarmData(alarm, event.summary);
+    }
+
+    veventData += "END:VEVENT\r\n";
+
+    return veventData;
+  }
+
+  /**
+   * Helper method to generate a VTODO component. Due dates are written as a
+   * DATE or in UTC.
+   */
+  private generateVTodoData(task: Task, now: Date): string {
+    const dtstamp = this.formatICalDate(now);
+
+    let vtodoData = "BEGIN:VTODO\r\n";
+    vtodoData += `UID:${task.uid}\r\n`;
+    vtodoData += `SUMMARY:${this.escapeICalValue(task.summary)}\r\n`;
+
+    if (task.description) {
+      vtodoData += `DESCRIPTION:${this.escapeICalValue(task.description)}\r\n`;
+    }
+    if (task.due) {
+      vtodoData += `DUE${this.formatICalDateProperty(task.due, task.dueAllDay)}\r\n`;
+    }
+    if (task.priority) {
+      vtodoData += `PRIORITY:${task.priority}\r\n`;
+    }
+    if (task.status) {
+      vtodoData += `STATUS:${task.status}\r\n`;
+    }
+    if (task.percentComplete !== undefined) {
+      vtodoData += `PERCENT-COMPLETE:${Math.round(task.percentComplete)}\r\n`;
+    }
+    if (task.completed) {
+      vtodoData += `COMPLETED:${this.formatICalDate(task.completed)}\r\n`;
+    }
+    if (task.relatedTo) {
+      vtodoData += `RELATED-TO;RELTYPE=PARENT:${task.relatedTo}\r\n`;
+    }
+    if (task.sortOrder !== undefined) {
+      vtodoData += `X-APPLE-SORT-ORDER:${task.sortOrder}\r\n`;
+    }
+
+    vtodoData += `DTSTAMP:${dtstamp}\r\n`;
+    vtodoData += `CREATED:${dtstamp}\r\n`;
+    vtodoData += `LAST-MODIFIED:${dtstamp}\r\n`;
+    vtodoData += "END:VTODO\r\n";
+
+    return vtodoData;
+  }
+
+  /**
+   * Generate vCard data from Contact
+   */
+  public generateVCardData(contact: Contact): string {
+    try {
+      // Build vCard string manually for reliability
+      let vcardData = "BEGIN:VCARD\r\n";
+      vcardData += "VERSION:3.0\r\n";
+      vcardData += `UID:${contact.uid}\r\n`;
+      vcardData += `FN:${this.escapeVCardValue(contact.fn)}\r\n`;
+
+      // Add structured name (N property: LastName;FirstName;MiddleName;Prefix;Suffix)
+      const lastName = contact.lastName || "";
+      const firstName = contact.firstName || "";
+      vcardData += `N:${this.escapeVCardValue(
+        lastName
+      )};${this.escapeVCardValue(firstName)};;;\r\n`;
+
+      if (contact.nickname) {
+        vcardData += `NICKNAME:${this.escapeVCardValue(contact.nickname)}\r\n`;
+      }
+
+      // Add email addresses
+      if (contact.email && contact.email.length > 0) {
+        contact.email.forEach((email, index) => {
+          const type = this.formatVCardType(contact.emailTypes?.[index]);
+          vcardData += `EMAIL${type}:${this.escapeVCardValue(email)}\r\n`;
+        });
+      }
+
+      // Add phone numbers
+      if (contact.tel && contact.tel.length > 0) {
+        contact.tel.forEach((tel, index) => {
+          const type = this.formatVCardType(contact.telTypes?.[index]);
+          vcardData += `TEL${type}:${this.escapeVCardValue(tel)}\r\n`;
+        });
+      }
+
+      // Add postal addresses (PO box;extended;street;city;region;postal code;country)
+      for (const address of contact.adr || []) {
+        const parts = [
+          address.poBox,
+          address.extended,
+          address.street,
+          address.locality,
+          address.region,
+          address.postalCode,
+          address.country,
+        ].map((part) => this.escapeVCardValue(part || ""));
+        vcardData += `ADR${this.formatVCardType(address.type)}:${parts.join(";")}\r\n`;
+      }
+
+      // Add organization
+      if (contact.org) {
+        vcardData += `ORG:${this.escapeVCardValue(contact.org)}\r\n`;
+      }
+      if (contact.title) {
+        vcardData += `TITLE:${this.escapeVCardValue(contact.title)}\r\n`;
+      }
+      if (contact.role) {
+        vcardData += `ROLE:${this.escapeVCardValue(contact.role)}\r\n`;
+      }
+
+      if (contact.bday) {
+        vcardData += `BDAY:${this.formatVCardDate(contact.bday)}\r\n`;
+      }
+      // ANNIVERSARY only exists in vCard 4.0; 3.0 clients read the X- form
+      if (contact.anniversary) {
+        vcardData += `X-ANNIVERSARY:${this.formatVCardDate(contact.anniversary)}\r\n`;
+      }
+
+      for (const url of contact.url || []) {
+        vcardData += `URL:${this.escapeVCardValue(url)}\r\n`;
+      }
+      for (const impp of contact.impp || []) {
+        vcardData += `IMPP:${this.escapeVCardValue(impp)}\r\n`;
+      }
+
+      if (contact.note) {
+        vcardData += `NOTE:${this.escapeVCardValue(contact.note)}\r\n`;
+      }
+
+      // Add photo
+      if (contact.photo) {
+        // Handle different photo formats
+        if (contact.photo.startsWith('data:')) {
+          // Extract base64 data and MIME type from data URL
+          const matches = contact.photo.match(/^data:([^;]+);base64,(.+)$/);
+          if (matches) {
+            const mimeType = matches[1];
+            const base64Data = matches[2];
+            vcardData += `PHOTO;TYPE=${mimeType};ENCODING=BASE64:${base64Data}\r\n`;
+          }
+        } else if (contact.photo.startsWith('http')) {
+          // URL reference
+          vcardData += `PHOTO;VALUE=URL:${contact.photo}\r\n`;
+        } else {
+          // Assume it's base64 data without data URL wrapper
+          vcardData += `PHOTO;TYPE=JPEG;ENCODING=BASE64:${contact.photo}\r\n`;
+        }
+      }
+
+      vcardData += "END:VCARD\r\n";
+
+      // Write only the edited fields into the server copy
+      return contact.raw ? this.patchVCardData(contact, contact.raw, vcardData) : vcardData;
+    } catch (error) {
+      throw new Error(
+        `Failed to generate vCard data: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Helper method to write the edited fields of an event into the iCalendar
+   * object it was read from. Properties and components we do not model, such
+   * as CATEGORIES, ATTACH or X- properties, are kept as they were.
+   */
+  private patchICalendarData(event: CalendarEvent, raw: string, icalData: string): string {
+    const original = parseContentComponents(raw).find((component) => component.name === "VCALENDAR");
+    const [generated] = parseContentComponents(icalData);
+    const isEventComponent = (child: ContentChild): child is ContentComponent =>
+      typeof child !== "string" &&
+      child.name === "VEVENT" &&
+      getComponentProperty(child, "UID") === event.uid;
+    if (!original || !original.children.some(isEventComponent)) {
+      return icalData;
+    }
+
+    // Match the master and each override by RECURRENCE-ID, in the order they were generated
+    const recurrenceKey = (component: ContentComponent) =>
+      getComponentProperty(component, "RECURRENCE-ID") || "";
+    const previous = this.parseICalendarFile(raw)
+      .flatMap((item) => [item, ...(item.overrides || [])])
+      .filter((item) => item.uid === event.uid);
+    const edited = [event, ...(event.rrule && event.overrides ? event.overrides : [])];
+    const patched = new Map<ContentComponent, ContentComponent>();
+    const added: ContentComponent[] = [];
+
+    generated.children
+      .filter((child): child is ContentComponent => typeof child !== "string" && child.name === "VEVENT")
+      .forEach((component, index) => {
+        const source = original.children.find(
+          (child): child is ContentComponent =>
+            isEventComponent(child) && !patched.has(child) && recurrenceKey(child) === recurrenceKey(component)
+        );
+        const before = previous.find(
+          (item) => item.recurrenceId?.getTime() === edited[index].recurrenceId?.getTime()
+        );
+        if (source && before) {
+          const properties = [
+            "DTSTAMP",
+            "LAST-MODIFIED",
+            ...this.getChangedProperties(VEVENT_FIELD_PROPERTIES, before, edited[index]),
+          ];
+          patched.set(source, patchContentComponent(source, component, properties));
+        } else {
+          added.push(component);
+        }
+      });
+
+    // Overrides the event no longer has are left out
+    const children: ContentChild[] = [];
+    original.children.forEach((child) => {
+      const replacement = isEventComponent(child) ? patched.get(child) : child;
+      if (replacement) {
+        children.push(replacement);
+      }
+    });
+
+    // Add the VTIMEZONEs of newly used time zones ahead of the events
+    const timezoneIds = original.children
+      .filter((child): child is ContentComponent => typeof child !== "string" && child.name === "VTIMEZONE")
+      .map((component) => getComponentProperty(component, "TZID"));
+    const timezones = generated.children.filter(
+      (child) =>
+        typeof child !== "string" &&
+        child.name === "VTIMEZONE" &&
+        timezoneIds.indexOf(getComponentProperty(child, "TZID")) < 0
+    );
+    const firstEvent = children.findIndex((child) => typeof child !== "string" && child.name === "VEVENT");
+    children.splice(firstEvent >= 0 ? firstEvent : children.length, 0, ...timezones);
+
+    return serializeContentComponent({ ...original, children: [...children, ...added] });
+  }
+
+  /**
+   * Helper method to write the edited fields of a task into the iCalendar
+   * object it was read from, keeping the properties we do not model
+   */
+  private patchTaskICalendarData(task: Task, raw: string, icalData: string): string {
+    const original = parseContentComponents(raw).find((component) => component.name === "VCALENDAR");
+    const [generated] = parseContentComponents(icalData);
+    const isTaskComponent = (child: ContentChild): child is ContentComponent =>
+      typeof child !== "string" &&
+      child.name === "VTODO" &&
+      getComponentProperty(child, "UID") === task.uid;
+    const source = original?.children.find(isTaskComponent);
+    const replacement = generated.children.find(
+      (child): child is ContentComponent => typeof child !== "string" && child.name === "VTODO"
+    );
+    const previous = this.parseVTodos(new ICAL.Component(ICAL.parse(raw))).find(
+      (item) => item.uid === task.uid
+    );
+    if (!original || !source || !replacement || !previous) {
+      return icalData;
+    }
+
+    const properties = [
+      "DTSTAMP",
+      "LAST-MODIFIED",
+      ...this.getChangedProperties(VTODO_FIELD_PROPERTIES, previous, task),
+    ];
+    const children = original.children.map((child) =>
+      child === source ? patchContentComponent(source, replacement, properties) : child
+    );
+    return serializeContentComponent({ ...original, children });
+  }
+
+  /**
+   * Helper method to write the edited fields of a contact into the vCard it
+   * was read from, keeping the properties we do not model
+   */
+  private patchVCardData(contact: Contact, raw: string, vcardData: string): string {
+    const original = parseContentComponents(raw).find((component) => component.name === "VCARD");
+    const [generated] = parseContentComponents(vcardData);
+    const previous = this.parseVCard(raw);
+    if (!original || previous.uid !== contact.uid) {
+      return vcardData;
+    }
+
+    // REV is dropped since it no longer tells when the card last changed
+    const properties = ["REV", ...this.getChangedProperties(VCARD_FIELD_PROPERTIES, previous, contact)];
+    return serializeContentComponent(patchContentComponent(original, generated, properties));
+  }
+
+  /**
+   * Helper method to list the properties written for the fields that differ
+   * between two versions of an event or contact
+   */
+  private getChangedProperties<T>(
+    fieldProperties: [(keyof T)[], string[]][],
+    before: T,
+    after: T
+  ): string[] {
+    return fieldProperties
+      .filter(([fields]) =>
+        fields.some((field) => this.toComparable(before[field]) !== this.toComparable(after[field]))
+      )
+      .flatMap(([, properties]) => properties);
+  }
+
+  /**
+   * Helper method to serialize a field value for comparison, ignoring key
+   * order and treating empty strings and lists as missing
+   */
+  private toComparable(value: unknown): string | undefined {
+    return JSON.stringify(value, (_key, current) => {
+      if (current === "" || (Array.isArray(current) && current.length === 0)) {
+        return undefined;
+      }
+      if (current && typeof current === "object" && !Array.isArray(current)) {
+        return Object.keys(current)
+          .sort()
+          .reduce((sorted: Record<string, unknown>, key) => {
+            sorted[key] = current[key];
+            return sorted;
+          }, {});
+      }
+      return current;
+    });
+  }
+
+  /**
+   * Helper method to read a single vCard into a contact
+   */
+  private parseVCard(vcardData: string, etag?: string, href?: string): Contact {
+    // Parse vCard data using vcard-parser library
+    const vcard = vcardParser.parse(vcardData);
+
+    // The parser splits structured values (N, ORG) into arrays
+    const nProperty: string | string[] | undefined = this.getVCardProperty(vcard, "n");
+    const orgProperty: string | string[] | undefined = this.getVCardProperty(vcard, "org");
+    const fnProperty = this.getVCardProperty(vcard, "fn");
+    let firstName = "";
+    let lastName = "";
+
+    // Parse N property (structured name: LastName;FirstName;MiddleName;Prefix;Suffix)
+    const nameParts = typeof nProperty === "string" ? nProperty.split(";") : nProperty;
+    if (nameParts) {
+      lastName = nameParts[0] || "";
+      firstName = nameParts[1] || "";
+    } else if (fnProperty) {
+      // Fallback: try to parse FN field for backward compatibility
+      const fnParts = fnProperty.trim().split(" ");
+      firstName = fnParts[0];
+      lastName = fnParts.slice(1).join(" ");
+    }
+
+    const emails = this.getVCardTypedValues(vcard, "email");
+    const phones = this.getVCardTypedValues(vcard, "tel");
+
+    return {
+      uid: this.getVCardProperty(vcard, "uid") || "",
+      // FN is optional in vCard 2.1
+      fn: fnProperty || [firstName, lastName].filter(Boolean).join(" ") || "Unnamed Contact",
+      firstName: firstName || undefined,
+      lastName: lastName || undefined,
+      nickname: this.getVCardText(vcard, "nickname"),
+      email: emails?.values,
+      emailTypes: emails?.types.some(Boolean) ? emails.types : undefined,
+      tel: phones?.values,
+      telTypes: phones?.types.some(Boolean) ? phones.types : undefined,
+      adr: this.getVCardAddresses(vcard),
+      org: Array.isArray(orgProperty) ? orgProperty.filter(Boolean).join(", ") : orgProperty,
+      title: this.getVCardText(vcard, "title"),
+      role: this.getVCardText(vcard, "role"),
+      bday: this.getVCardDate(vcard, "bday"),
+      anniversary: this.getVCardDate(vcard, "anniversary") || this.getVCardDate(vcard, "X-ANNIVERSARY"),
+      url: this.getVCardTypedValues(vcard, "url")?.values,
+      impp: this.getVCardTypedValues(vcard, "impp")?.values,
+      note: this.getVCardText(vcard, "note"),
+      photo: this.getVCardPhoto(vcard),
+      etag,
+      href,
+    };
+  }
+
+  /**
+   * Helper method to read a property value as text. The parser splits every
+   * value at unescaped commas and semicolons, which only matters for
+   * structured properties.
+   */
+  private toVCardText(value: unknown): string | undefined {
+    const text = Array.isArray(value) ? value.join(",") : value;
+    return typeof text === "string" && text !== "" ? text : undefined;
+  }
+
+  /**
+   * Helper method to read the first value of a text property. Names of
+   * X- properties keep their case in the parsed vCard.
+   */
+  private getVCardText(vcard: any, propertyName: string): string | undefined {
+    return this.toVCardText(vcard[propertyName]?.[0]?.value);
+  }
+
+  /**
+   * Helper method to read the TYPE parameter of a property as a lowercase,
+   * comma-separated list. Handles TYPE=a,b, repeated TYPE parameters and the
+   * bare types of vCard 2.1 (TEL;HOME;VOICE).
+   */
+  private getVCardType(property: any): string {
+    const meta = property.meta || {};
+    const types: string[] = [];
+
+    Object.keys(meta).forEach((key) => {
+      if (key === "type") {
+        meta.type.forEach((type: string) => {
+          types.push(...String(type).replace(/"/g, "").split(","));
+        });
+      } else if (meta[key].length === 1 && meta[key][0] === undefined) {
+        types.push(key);
+      }
+    });
+
+    return types
+      .map((type) => type.trim().toLowerCase())
+      .filter((type) => type && !IGNORED_VCARD_TYPES.includes(type))
+      .filter((type, index, all) => all.indexOf(type) === index)
+      .join(",");
+  }
+
+  /**
+   * Helper method to read every value of a property with its TYPE, skipping
+   * empty ones
+   */
+  private getVCardTypedValues(
+    vcard: any,
+    propertyName: string
+  ): { values: string[]; types: string[] } | undefined {
+    const values: string[] = [];
+    const types: string[] = [];
+
+    (vcard[propertyName] || []).forEach((property: any) => {
+      const value = this.toVCardText(property.value);
+      if (value) {
+        values.push(value);
+        types.push(this.getVCardType(property));
+      }
+    });
+
+    return values.length > 0 ? { values, types } : undefined;
+  }
+
+  /**
+   * Helper method to read ADR properties
+   * (PO box;extended;street;city;region;postal code;country)
+   */
+  private getVCardAddresses(vcard: any): ContactAddress[] | undefined {
+    const addresses: ContactAddress[] = [];
+
+    (vcard.adr || []).forEach((property: any) => {
+      const parts: string[] = Array.isArray(property.value) ? property.value : [property.value];
+      const [poBox, extended, street, locality, region, postalCode, country] = parts.map(
+        (part) => (typeof part === "string" && part.trim() ? part.trim() : undefined)
+      );
+      if (![poBox, extended, street, locality, region, postalCode, country].some(Boolean)) {
+        return;
+      }
+
+      addresses.push({
+        type: this.getVCardType(property) || undefined,
+        poBox,
+        extended,
+        street,
+        locality,
+        region,
+        postalCode,
+        country,
+      });
+    });
+
+    return addresses.length > 0 ? addresses : undefined;
+  }
+
+  /**
+   * Helper method to read a date property (BDAY, ANNIVERSARY) as YYYY-MM-DD,
+   * or --MM-DD when the year is left out. Free-text dates are kept as they are.
+   */
+  private getVCardDate(vcard: any, propertyName: string): string | undefined {
+    const property = vcard[propertyName]?.[0];
+    const value = this.toVCardText(property?.value);
+    if (!value) return undefined;
+
+    const full = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+    if (full) {
+      // Apple stores dates without a year as 1604 and flags them
+      const omittedYear = property.meta?.["x-apple-omit-year"]?.[0];
+      return omittedYear === full[1]
+        ? `--${full[2]}-${full[3]}`
+        : `${full[1]}-${full[2]}-${full[3]}`;
+    }
+
+    const partial = value.match(/^--(\d{2})-?(\d{2})/);
+    return partial ? `--${partial[1]}-${partial[2]}` : value;
+  }
+
+  /**
+   * Helper method to write a date as read by getVCardDate
+   */
+  private formatVCardDate(date: string): string {
+    const partial = date.match(/^--(\d{2})-(\d{2})$/);
+    if (partial) {
+      return `--${partial[1]}${partial[2]}`;
+    }
+    return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : this.escapeVCardValue(date);
+  }
+
+  /**
+   * Helper method to write a TYPE parameter, e.g. ";TYPE=WORK,CELL"
+   */
+  private formatVCardType(type?: string): string {
+    const types = (type || "")
+      .split(",")
+      .map((value) => value.trim().replace(/[^A-Za-z0-9-]/g, "").toUpperCase())
+      .filter(Boolean);
+    return types.length > 0 ? `;TYPE=${types.join(",")}` : "";
+  }
+
+  /**
+   * Helper method to turn vCard 2.1 quoted-printable values into plain ones,
+   * joining their soft line breaks
+   */
+  private decodeQuotedPrintable(vcardData: string): string {
+    const lines = vcardData.split(/\r\n|\r|\n/);
+    const result: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const separator = lines[i].indexOf(":");
+      const key = separator >= 0 ? lines[i].substring(0, separator) : "";
+      if (!/(^|;)(ENCODING=)?QUOTED-PRINTABLE(;|$)/i.test(key)) {
+        result.push(lines[i]);
+        continue;
+      }
+
+      let value = lines[i].substring(separator + 1);
+      while (value.endsWith("=") && i + 1 < lines.length) {
+        value = value.slice(0, -1) + lines[++i];
+      }
+
+      const charset = key.match(/;CHARSET=([^;]+)/i)?.[1] || "UTF-8";
+      let decoded: string;
+      try {
+        if (!/^utf-?8$/i.test(charset)) {
+          throw new Error(`Unsupported charset ${charset}`);
+        }
+        decoded = decodeURIComponent(
+          value.replace(/%/g, "%25").replace(/=([0-9A-F]{2})/gi, "%$1")
+        );
+      } catch (error) {
+        // Not UTF-8, read the bytes as Latin-1
+        decoded = value.replace(/=([0-9A-F]{2})/gi, (_match, hex) =>
+          String.fromCharCode(parseInt(hex, 16))
+        );
+      }
+
+      const plainKey = key
+        .replace(/;(ENCODING=)?QUOTED-PRINTABLE/i, "")
+        .replace(/;CHARSET=[^;]+/i, "");
+      result.push(`${plainKey}:${decoded.replace(/\r\n|\r|\n/g, "\\n")}`);
+    }
+
+    return result.join("\r\n");
+  }
+
+  /**
+   * Helper method to extract a single property value from vCard
+   */
+  private getVCardProperty(
+    vcard: any,
+    propertyName: string
+  ): string | undefined {
+    try {
+      const property = vcard[propertyName.toLowerCase()];
+      if (property && Array.isArray(property) && property.length > 0) {
+        return property[0].value;
+      }
+    } catch (error) {
+      // Property doesn't exist or error accessing it
+    }
+    return undefined;
+  }
+
+  /**
    * Helper method to extract photo data from vCard
    */
   private getVCardPhoto(vcard: any): string | undefined {
@@ -375,6 +1484,585 @@ export class DataFormatters {
     return undefined;
   }
 
+  /**
+   * Helper method to read the VEVENTs of an iCalendar object, with RECURRENCE-ID
+   * overrides attached to their series master
+   */
+  private parseVEvents(comp: any, etag?: string, href?: string): CalendarEvent[] {
+    // Find VEVENT components
+    const vevents = comp.getAllSubcomponents("vevent");
+    const resourceEvents: CalendarEvent[] = [];
+    const resourceOverrides: CalendarEvent[] = [];
+
+    for (const vevent of vevents) {
+      const event = new ICAL.Event(vevent);
+      const timezone = this.getPropertyTimezone(vevent, "dtstart");
+
+      // Extract event properties
+      const calendarEvent: CalendarEvent = {
+        uid: event.uid || "",
+        summary: event.summary || "",
+        description: event.description || undefined,
+        dtstart: event.startDate
+          ? this.timeToJSDate(event.startDate, timezone)
+          : new Date(),
+        dtend: event.endDate
+          ? this.timeToJSDate(
+              event.endDate,
+              this.getPropertyTimezone(vevent, "dtend") || timezone
+            )
+          : new Date(),
+        location: event.location || undefined,
+        etag,
+        href,
+        ...this.parseRecurrenceProperties(vevent),
+      };
+
+      // DATE-valued DTSTART (e.g. birthdays, holidays)
+      if (event.startDate && event.startDate.isDate) {
+        calendarEvent.allDay = true;
+      } else if (timezone) {
+        calendarEvent.timezone = timezone;
+      }
+
+      const alarms = this.parseAlarms(vevent, calendarEvent);
+      if (alarms.length > 0) {
+        calendarEvent.alarms = alarms;
+      }
+
+      const organizer = this.parseOrganizer(vevent);
+      if (organizer) {
+        calendarEvent.organizer = organizer;
+      }
+      const attendees = this.parseAttendees(vevent);
+      if (attendees.length > 0) {
+        calendarEvent.attendees = attendees;
+      }
+
+      if (calendarEvent.recurrenceId) {
+        resourceOverrides.push(calendarEvent);
+      } else {
+        resourceEvents.push(calendarEvent);
+      }
+    }
+
+    // Attach RECURRENCE-ID overrides to their series master
+    for (const override of resourceOverrides) {
+      const master = resourceEvents.find(
+        (candidate) => candidate.uid === override.uid && candidate.rrule
+      );
+      if (master) {
+        master.overrides = [...(master.overrides || []), override];
+      } else {
+        resourceEvents.push(override);
+      }
+    }
+
+    return resourceEvents;
+  }
+
+  /**
+   * Helper method to read the VTODOs of an iCalendar object
+   */
+  private parseVTodos(comp: any, etag?: string, href?: string): Task[] {
+    return comp.getAllSubcomponents("vtodo").map((vtodo: any) => {
+      const task: Task = {
+        uid: vtodo.getFirstPropertyValue("uid") || "",
+        summary: vtodo.getFirstPropertyValue("summary") || "",
+        description: vtodo.getFirstPropertyValue("description") || undefined,
+        etag,
+        href,
+      };
+
+      const due = vtodo.getFirstPropertyValue("due");
+      if (due) {
+        task.due = this.timeToJSDate(due, this.getPropertyTimezone(vtodo, "due"));
+        if (due.isDate) {
+          task.dueAllDay = true;
+        }
+      }
+
+      // PRIORITY 0 means undefined
+      const priority = Number(vtodo.getFirstPropertyValue("priority"));
+      if (priority >= 1 && priority <= 9) {
+        task.priority = priority;
+      }
+
+      const status = String(vtodo.getFirstPropertyValue("status") || "").toUpperCase();
+      if (TASK_STATUSES.indexOf(status as TaskStatus) >= 0) {
+        task.status = status as TaskStatus;
+      }
+
+      const percentComplete = vtodo.getFirstPropertyValue("percent-complete");
+      if (percentComplete !== null && !isNaN(Number(percentComplete))) {
+        task.percentComplete = Number(percentComplete);
+      }
+
+      const completed = vtodo.getFirstPropertyValue("completed");
+      if (completed) {
+        task.completed = completed.toJSDate();
+      }
+
+      // RELATED-TO without RELTYPE points to the parent
+      const parent = vtodo
+        .getAllProperties("related-to")
+        .find((property: any) =>
+          String(property.getParameter("reltype") || "PARENT").toUpperCase() === "PARENT"
+        );
+      if (parent) {
+        task.relatedTo = String(parent.getFirstValue());
+      }
+
+      const sortOrder = vtodo.getFirstPropertyValue("x-apple-sort-order");
+      if (sortOrder !== null && !isNaN(Number(sortOrder))) {
+        task.sortOrder = Number(sortOrder);
+      }
+
+      return task;
+    });
+  }
+
+  /**
+   * Helper method to extract RRULE, EXDATE and RECURRENCE-ID from a VEVENT
+   */
+  private parseRecurrenceProperties(
+    vevent: any
+  ): Pick<CalendarEvent, "rrule" | "exdates" | "recurrenceId"> {
+    const properties: Pick<CalendarEvent, "rrule" | "exdates" | "recurrenceId"> = {};
+
+    if (!vevent || typeof vevent.getFirstPropertyValue !== "function") {
+      return properties;
+    }
+
+    try {
+      const rrule = vevent.getFirstPropertyValue("rrule");
+      if (rrule) {
+        properties.rrule = this.parseRecurrenceRule(rrule.toString());
+      }
+
+      const recurrenceId = vevent.getFirstPropertyValue("recurrence-id");
+      if (recurrenceId && typeof recurrenceId.toJSDate === "function") {
+        properties.recurrenceId = this.timeToJSDate(
+          recurrenceId,
+          this.getPropertyTimezone(vevent, "recurrence-id")
+        );
+      }
+
+      const exdates: Date[] = [];
+      for (const exdateProperty of vevent.getAllProperties("exdate")) {
+        const tzid = exdateProperty.getParameter("tzid");
+        for (const value of exdateProperty.getValues()) {
+          if (value && typeof value.toJSDate === "function") {
+            exdates.push(
+              this.timeToJSDate(
+                value,
+                tzid && isValidTimeZone(tzid) ? tzid : undefined
+              )
+            );
+          }
+        }
+      }
+      if (exdates.length > 0) {
+        properties.exdates = exdates;
+      }
+    } catch (error) {
+      console.warn("Failed to parse recurrence properties:", error);
+    }
+
+    return properties;
+  }
+
+  /**
+   * Helper method to extract DISPLAY and AUDIO reminders from the VALARMs of a VEVENT
+   */
+  private parseAlarms(vevent: any, event: CalendarEvent): EventAlarm[] {
+    const alarms: EventAlarm[] = [];
+
+    if (!vevent || typeof vevent.getAllSubcomponents !== "function") {
+      return alarms;
+    }
+
+    try {
+      for (const valarm of vevent.getAllSubcomponents("valarm")) {
+        const action = String(
+          valarm.getFirstPropertyValue("action") || "DISPLAY"
+        ).toUpperCase();
+        if (action !== "DISPLAY" && action !== "AUDIO") continue;
+
+        const trigger = valarm.getFirstProperty("trigger");
+        const value = trigger ? trigger.getFirstValue() : null;
+        if (!value) continue;
+
+        let minutesBefore: number;
+        if (typeof value.toSeconds === "function") {
+          // Relative trigger, e.g. -PT15M, optionally relative to the end
+          const duration =
+            trigger.getParameter("related") === "END"
+              ? event.dtend.getTime() - event.dtstart.getTime()
+              : 0;
+          minutesBefore = -(duration / 1000 + value.toSeconds()) / 60;
+        } else if (typeof value.toJSDate === "function") {
+          // Absolute trigger
+          minutesBefore =
+            (event.dtstart.getTime() - value.toJSDate().getTime()) / 60000;
+        } else {
+          continue;
+        }
+
+        const description = valarm.getFirstPropertyValue("description");
+        alarms.push({
+          minutesBefore: Math.round(minutesBefore),
+          action: action === "AUDIO" ? "AUDIO" : undefined,
+          description:
+            description && description !== event.summary
+              ? String(description)
+              : undefined,
+        });
+      }
+    } catch (error) {
+      console.warn("Failed to parse alarms:", error);
+    }
+
+    return alarms;
+  }
+
+  /**
+   * Generate a VALARM component triggering relative to the event start
+   */
+  private generateVAlarmData(alarm: EventAlarm, summary: string): string {
+    let valarmData = "BEGIN:VALARM\r\n";
+    valarmData += `ACTION:${alarm.action || "DISPLAY"}\r\n`;
+    valarmData += `TRIGGER:${this.formatAlarmTrigger(
+      alarm.minutesBefore
+    )}\r\n`;
+    if (alarm.action !== "AUDIO") {
+      // DESCRIPTION is required for DISPLAY alarms
+      valarmData += `DESCRIPTION:${this.escapeICalValue(
+        alarm.description || summary
+      )}\r\n`;
+    }
+    valarmData += "END:VALARM\r\n";
+    return valarmData;
+  }
+
+  /**
+   * Format minutes before the start as an iCalendar duration (e.g. -PT15M, -P1D, PT0S)
+   */
+  private formatAlarmTrigger(minutesBefore: number): string {
+    if (minutesBefore === 0) return "PT0S";
+
+    const sign = minutesBefore > 0 ? "-" : "";
+    const minutes = Math.abs(minutesBefore);
+    const minutesPerDay = 24 * 60;
+    if (minutes % (7 * minutesPerDay) === 0) {
+      return `${sign}P${minutes / (7 * minutesPerDay)}W`;
+    }
+    if (minutes % minutesPerDay === 0) {
+      return `${sign}P${minutes / minutesPerDay}D`;
+    }
+    if (minutes % 60 === 0) {
+      return `${sign}PT${minutes / 60}H`;
+    }
+    return `${sign}PT${minutes}M`;
+  }
+
+  /**
+   * Helper method to read the ORGANIZER of a VEVENT
+   */
+  private parseOrganizer(vevent: any): EventOrganizer | undefined {
+    if (!vevent || typeof vevent.getFirstProperty !== "function") {
+      return undefined;
+    }
+
+    const property = vevent.getFirstProperty("organizer");
+    const email = property ? this.parseCalAddress(property.getFirstValue()) : "";
+    if (!email) {
+      return undefined;
+    }
+
+    const name = property.getParameter("cn");
+    return { email, name: name ? String(name) : undefined };
+  }
+
+  /**
+   * Helper method to read the ATTENDEEs of a VEVENT
+   */
+  private parseAttendees(vevent: any): EventAttendee[] {
+    const attendees: EventAttendee[] = [];
+
+    if (!vevent || typeof vevent.getAllProperties !== "function") {
+      return attendees;
+    }
+
+    try {
+      for (const property of vevent.getAllProperties("attendee")) {
+        const email = this.parseCalAddress(property.getFirstValue());
+        if (!email) continue;
+
+        const name = property.getParameter("cn");
+        const partstat = String(
+          property.getParameter("partstat") || ""
+        ).toUpperCase() as ParticipationStatus;
+        const role = String(
+          property.getParameter("role") || ""
+        ).toUpperCase() as AttendeeRole;
+        const rsvp = property.getParameter("rsvp");
+
+        attendees.push({
+          email,
+          name: name ? String(name) : undefined,
+          partstat: PARTICIPATION_STATUSES.includes(partstat)
+            ? partstat
+            : undefined,
+          role: ATTENDEE_ROLES.includes(role) ? role : undefined,
+          rsvp: rsvp ? String(rsvp).toUpperCase() === "TRUE" : undefined,
+        });
+      }
+    } catch (error) {
+      console.warn("Failed to parse attendees:", error);
+    }
+
+    return attendees;
+  }
+
+  /**
+   * Strip the "mailto:" scheme from a CAL-ADDRESS value
+   */
+  private parseCalAddress(value: unknown): string {
+    return value ? String(value).replace(/^mailto:/i, "").trim() : "";
+  }
+
+  /**
+   * Format the parameters of an ORGANIZER or ATTENDEE property, quoting values
+   * that contain separators (e.g. CN="Doe, Jane")
+   */
+  private formatCalAddressParameters(
+    parameters: Record<string, string | undefined>
+  ): string {
+    return Object.entries(parameters)
+      .filter(([, value]) => value)
+      .map(([name, value]) => {
+        const cleaned = String(value).replace(/["\r\n]/g, "");
+        return /[;:,]/.test(cleaned)
+          ? `;${name}="${cleaned}"`
+          : `;${name}=${cleaned}`;
+      })
+      .join("");
+  }
+
+  /**
+   * Helper method to read the TZID parameter of a date property, if it names a known zone
+   */
+  private getPropertyTimezone(vevent: any, name: string): string | undefined {
+    if (!vevent || typeof vevent.getFirstProperty !== "function") {
+      return undefined;
+    }
+
+    const property = vevent.getFirstProperty(name);
+    const tzid = property ? property.getParameter("tzid") : undefined;
+    return tzid && isValidTimeZone(tzid) ? tzid : undefined;
+  }
+
+  /**
+   * Convert an ICAL.Time to a Date. Times whose TZID has no VTIMEZONE in the
+   * resource would otherwise be read as browser-local, so resolve those via Intl.
+   */
+  private timeToJSDate(time: any, tzid?: string): Date {
+    if (tzid && !time.isDate && (!time.zone || time.zone.tzid !== tzid)) {
+      return zonedDateTimeToDate(
+        {
+          year: time.year,
+          month: time.month,
+          day: time.day,
+          hour: time.hour,
+          minute: time.minute,
+          second: time.second,
+        },
+        tzid
+      );
+    }
+    return time.toJSDate();
+  }
+
+  /**
+   * Format a date in iCalendar UTC format (YYYYMMDDTHHMMSSZ)
+   */
+  private formatICalDate(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace(/\.\d{3}/, "");
+  }
+
+  /**
+   * Format a date as an iCalendar DATE value (YYYYMMDD) using local date parts
+   */
+  private formatICalDateOnly(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${year}${month}${day}`;
+  }
+
+  /**
+   * Format a date as a local DATE-TIME value (YYYYMMDDTHHMMSS) in the given time zone
+   */
+  private formatICalZonedDate(date: Date, timezone: string): string {
+    const zoned = getZonedDateTime(date, timezone);
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${zoned.year}${pad(zoned.month)}${pad(zoned.day)}T${pad(
+      zoned.hour
+    )}${pad(zoned.minute)}${pad(zoned.second)}`;
+  }
+
+  /**
+   * Format the value type or TZID parameter of a date property
+   */
+  private formatICalDateParameters(allDay?: boolean, timezone?: string): string {
+    if (allDay) return ";VALUE=DATE";
+    if (timezone) return `;TZID=${timezone}`;
+    return "";
+  }
+
+  /**
+   * Format a date property value as a DATE, a local time in the zone or UTC
+   */
+  private formatICalDateValue(
+    date: Date,
+    allDay?: boolean,
+    timezone?: string
+  ): string {
+    if (allDay) return this.formatICalDateOnly(date);
+    if (timezone) return this.formatICalZonedDate(date, timezone);
+    return this.formatICalDate(date);
+  }
+
+  /**
+   * Format the parameters and value of a date property
+   * (";VALUE=DATE:...", ";TZID=...:..." or ":...Z")
+   */
+  private formatICalDateProperty(
+    date: Date,
+    allDay?: boolean,
+    timezone?: string
+  ): string {
+    return `${this.formatICalDateParameters(
+      allDay,
+      timezone
+    )}:${this.formatICalDateValue(date, allDay, timezone)}`;
+  }
+
+  /**
+   * Generate a VTIMEZONE component from the runtime's time zone data. Regular
+   * DST zones get yearly rules starting the year before; other zones list
+   * their offset changes around the given year.
+   */
+  private generateVTimezoneData(timezone: string, year: number): string {
+    let vtimezoneData = "BEGIN:VTIMEZONE\r\n";
+    vtimezoneData += `TZID:${timezone}\r\n`;
+
+    const previousYear = getTimeZoneTransitions(timezone, year - 1);
+    const transitions =
+      previousYear.length === 2
+        ? previousYear
+        : [
+            ...previousYear,
+            ...getTimeZoneTransitions(timezone, year),
+            ...getTimeZoneTransitions(timezone, year + 1),
+          ];
+
+    if (transitions.length === 0) {
+      const offset = formatUtcOffset(
+        getTimeZoneOffset(new Date(Date.UTC(year, 0, 1)), timezone)
+      );
+      vtimezoneData += "BEGIN:STANDARD\r\n";
+      vtimezoneData += "DTSTART:19700101T000000\r\n";
+      vtimezoneData += `TZOFFSETFROM:${offset}\r\n`;
+      vtimezoneData += `TZOFFSETTO:${offset}\r\n`;
+      vtimezoneData += "END:STANDARD\r\n";
+    }
+
+    for (const transition of transitions) {
+      const observance =
+        transition.offsetTo > transition.offsetFrom ? "DAYLIGHT" : "STANDARD";
+      // Onsets are written in the local time in effect before the change
+      const onset = new Date(
+        transition.at.getTime() + transition.offsetFrom * 60000
+      );
+
+      vtimezoneData += `BEGIN:${observance}\r\n`;
+      vtimezoneData += `DTSTART:${this.formatICalDate(onset).replace(
+        "Z",
+        ""
+      )}\r\n`;
+      if (transitions === previousYear) {
+        vtimezoneData += `RRULE:${this.formatTransitionRule(onset)}\r\n`;
+      }
+      vtimezoneData += `TZOFFSETFROM:${formatUtcOffset(
+        transition.offsetFrom
+      )}\r\n`;
+      vtimezoneData += `TZOFFSETTO:${formatUtcOffset(
+        transition.offsetTo
+      )}\r\n`;
+      vtimezoneData += `END:${observance}\r\n`;
+    }
+
+    vtimezoneData += "END:VTIMEZONE\r\n";
+    return vtimezoneData;
+  }
+
+  /**
+   * Describe a DST onset as a yearly rule, e.g. "last Sunday of March"
+   */
+  private formatTransitionRule(onset: Date): string {
+    const weekdays = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+    const day = onset.getUTCDate();
+    const daysInMonth = new Date(
+      Date.UTC(onset.getUTCFullYear(), onset.getUTCMonth() + 1, 0)
+    ).getUTCDate();
+    const ordinal = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    return `FREQ=YEARLY;BYMONTH=${onset.getUTCMonth() + 1};BYDAY=${ordinal}${
+      weekdays[onset.getUTCDay()]
+    }`;
+  }
+
+  /**
+   * Parse an iCalendar DATE or DATE-TIME value (UTC or floating)
+   */
+  private parseICalDate(value: string): Date | undefined {
+    const match = value.match(
+      /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/
+    );
+    if (!match) return undefined;
+
+    const [, year, month, day, hour, minute, second, utc] = match;
+    if (hour === undefined) {
+      // A DATE value includes the whole day
+      return new Date(+year, +month - 1, +day, 23, 59, 59);
+    }
+    if (utc) {
+      return new Date(
+        Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)
+      );
+    }
+    return new Date(+year, +month - 1, +day, +hour, +minute, +second);
+  }
+
+  /**
+   * Add an iCalendar DURATION value (e.g. "PT1H30M") to a date
+   */
+  private addICalDuration(date: Date, value: string): Date | undefined {
+    const match = value.match(
+      /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+    );
+    if (!match) return undefined;
+
+    const [, weeks, days, hours, minutes, seconds] = match.map((part) => Number(part) || 0);
+    const totalSeconds =
+      (((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds;
+    return new Date(date.getTime() + totalSeconds * 1000);
+  }
+
   /**
    * Escape special characters in iCalendar values
    */
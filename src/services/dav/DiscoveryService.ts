@@ -0,0 +1,127 @@
+import { ServiceDiscoveryResult } from "../../types/dav";
+import { HttpClient } from "./HttpClient";
+import { XmlParser } from "./XmlParser";
+
+type DAVService = "caldav" | "carddav";
+
+export class DiscoveryService {
+  private httpClient: HttpClient;
+  private xmlParser: XmlParser;
+
+  constructor(httpClient: HttpClient) {
+    this.httpClient = httpClient;
+    this.xmlParser = new XmlParser();
+  }
+
+  /**
+   * Find the principal and home collections of the current user from a server URL
+   * Implements RFC 6764 bootstrapping: the /.well-known/caldav and carddav
+   * URIs (following their redirects), then current-user-principal and the
+   * calendar-home-set and addressbook-home-set properties
+   */
+  public async discoverServiceUrls(
+    serverUrl: string
+  ): Promise<ServiceDiscoveryResult> {
+    const authConfig = this.httpClient.getAuthConfig();
+
+    if (!authConfig) {
+      throw new Error(
+        "Authentication not configured. Please set auth config before discovering services."
+      );
+    }
+
+    try {
+      const caldavPrincipal = await this.findPrincipal(serverUrl, "caldav");
+      const carddavPrincipal = await this.findPrincipal(serverUrl, "carddav");
+      if (!caldavPrincipal && !carddavPrincipal) {
+        throw new Error("No principal found for the current user");
+      }
+
+      const result: ServiceDiscoveryResult = {
+        principalUrl: caldavPrincipal || carddavPrincipal || undefined,
+      };
+      // CalDAV and CardDAV are usually served by the same principal
+      const principals = Array.from(
+        new Set([caldavPrincipal, carddavPrincipal].filter((url): url is string => !!url))
+      );
+      for (const principalUrl of principals) {
+        const homeSets = await this.findHomeSets(principalUrl);
+        result.calendarHomeUrl = result.calendarHomeUrl || homeSets.calendarHomeUrl;
+        result.addressBookHomeUrl = result.addressBookHomeUrl || homeSets.addressBookHomeUrl;
+      }
+
+      if (!result.calendarHomeUrl && !result.addressBookHomeUrl) {
+        throw new Error("The server reported no calendar or address book home");
+      }
+      return result;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Service discovery failed: ${error.message}`);
+      }
+      throw new Error("Service discovery failed: Unknown error");
+    }
+  }
+
+  /**
+   * Ask the well-known URI, then the given URL, then the server root for the
+   * current user principal. Wrong credentials end the search.
+   */
+  private async findPrincipal(
+    serverUrl: string,
+    service: DAVService
+  ): Promise<string | null> {
+    const origin = new URL(serverUrl).origin;
+    const candidates = Array.from(
+      new Set([`${origin}/.well-known/${service}`, serverUrl, `${origin}/`])
+    );
+
+    const principalBody = `<?xml version="1.0" encoding="utf-8" ?>
+<D:propfind xmlns:D="DAV:">
+  <D:prop>
+    <D:current-user-principal />
+  </D:prop>
+</D:propfind>`;
+
+    for (const url of candidates) {
+      try {
+        const response = await this.httpClient.propfind(url, principalBody, "0");
+        // A redirect may lead to another host; in development every request
+        // goes through the proxy, so the final URL is the proxy's
+        const finalUrl =
+          process.env.NODE_ENV === "development" ? url : response.url || url;
+        const baseUrl = new URL(finalUrl).origin;
+        const principalUrl = this.xmlParser.parseCurrentUserPrincipalResponse(
+          response.data,
+          baseUrl
+        );
+        if (principalUrl) {
+          return principalUrl;
+        }
+      } catch (error) {
+        if (error instanceof Error && error.message.includes("Authentication failed")) {
+          throw error;
+        }
+        console.warn(`No ${service} principal at ${url}:`, error);
+      }
+    }
+    return null;
+  }
+
+  private async findHomeSets(
+    principalUrl: string
+  ): Promise<ServiceDiscoveryResult> {
+    const homeSetBody = `<?xml version="1.0" encoding="utf-8" ?>
+<D:propfind xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav" xmlns:CR="urn:ietf:params:xml:ns:carddav">
+  <D:prop>
+    <C:calendar-home-set />
+    <CR:addressbook-home-set />
+  </D:prop>
+</D:propfind>`;
+
+    const response = await this.httpClient.propfind(principalUrl, homeSetBody, "0");
+    return this.xmlParser.parseHomeSetResponse(
+      response.data,
+      new URL(principalUrl).origin
+    );
+  }
+}
@@ -95,6 +95,7 @@ export class HttpClient {
 
         const customizedRequest = this.provider.customizeRequest(davRequest);
         Object.assign(headers, customizedRequest.headers);
+        options.method = customizedRequest.method;
         options.body = customizedRequest.data;
       }
 
@@ -113,6 +114,7 @@ export class HttpClient {
         status: response.status,
         data,
         headers: Object.fromEntries(response.headers.entries()),
+        url: response.url || undefined,
       };
     } catch (error) {
       // Re-throw errors that are already properly formatted
@@ -177,6 +179,75 @@ export class HttpClient {
     });
   }
 
+  // MOVE and COPY methods for transferring a resource to another collection
+  public async move(
+    sourceUrl: string,
+    destinationUrl: string,
+    headers?: Record<string, string>
+  ): Promise<DAVResponse> {
+    return this.transfer("MOVE", sourceUrl, destinationUrl, headers);
+  }
+
+  public async copy(
+    sourceUrl: string,
+    destinationUrl: string,
+    headers?: Record<string, string>
+  ): Promise<DAVResponse> {
+    return this.transfer("COPY", sourceUrl, destinationUrl, headers);
+  }
+
+  /**
+   * MOVE or COPY without overwriting the destination. Servers that refuse
+   * to transfer between collections get the resource written to the
+   * destination with PUT instead, followed by a DELETE of the source for
+   * MOVE.
+   */
+  private async transfer(
+    method: "MOVE" | "COPY",
+    sourceUrl: string,
+    destinationUrl: string,
+    headers?: Record<string, string>
+  ): Promise<DAVResponse> {
+    try {
+      return await this.makeRequest(sourceUrl, {
+        method,
+        headers: {
+          Destination: destinationUrl,
+          Overwrite: "F",
+          ...headers,
+        },
+      });
+    } catch (error) {
+      if (!this.isRefusedTransfer(error)) {
+        throw error;
+      }
+    }
+
+    const source = await this.get(sourceUrl);
+    const response = await this.put(destinationUrl, source.data, {
+      "Content-Type": source.headers?.["content-type"] || "text/plain; charset=utf-8",
+      "If-None-Match": "*",
+    });
+
+    if (method === "MOVE") {
+      // Only delete the copy that was read, not a newer one
+      const etag = source.headers?.etag;
+      await this.delete(sourceUrl, etag ? { "If-Match": etag } : undefined);
+    }
+
+    return response;
+  }
+
+  /**
+   * Whether the server does not support MOVE/COPY here: 403 Forbidden,
+   * 405 Method Not Allowed, 501 Not Implemented or 502 Bad Gateway (a
+   * destination on another server)
+   */
+  private isRefusedTransfer(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+    return /Access forbidden|Server error \((405|501|502)\)/.test(message);
+  }
+
   // PROPFIND method for DAV discovery
   public async propfind(
     url: string,
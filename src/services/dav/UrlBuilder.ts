@@ -31,6 +31,12 @@ export class UrlBuilder {
     const discoveryPath = provider.getCalendarDiscoveryPath();
     const username = authConfig.username;
 
+    // Without a discovery path the configured URL is the home collection
+    // found by service discovery
+    if (!discoveryPath) {
+      return this.convertToProxyUrl(`${baseUrl}/`);
+    }
+
     // Check if the baseUrl already contains the discovery path to avoid duplication
     let discoveryUrl: string;
     if (baseUrl.includes(discoveryPath.replace(/\/$/, ""))) {
@@ -42,7 +48,7 @@ export class UrlBuilder {
       }
     } else {
       // Construct the full discovery URL
-      discoveryUrl = `${baseUrl}${discoveryPath}${username}/`;
+      discoveryUrl = `${this.joinDiscoveryPath(baseUrl, discoveryPath)}${username}/`;
     }
 
     return this.convertToProxyUrl(discoveryUrl);
@@ -59,6 +65,12 @@ export class UrlBuilder {
     const discoveryPath = provider.getAddressBookDiscoveryPath();
     const username = authConfig.username;
 
+    // Without a discovery path the configured URL is the home collection
+    // found by service discovery
+    if (!discoveryPath) {
+      return this.convertToProxyUrl(`${baseUrl}/`);
+    }
+
     // Check if the baseUrl already contains the discovery path to avoid duplication
     let discoveryUrl: string;
     if (baseUrl.includes(discoveryPath.replace(/\/$/, ""))) {
@@ -70,7 +82,7 @@ export class UrlBuilder {
       }
     } else {
       // Construct the full discovery URL
-      discoveryUrl = `${baseUrl}${discoveryPath}${username}/`;
+      discoveryUrl = `${this.joinDiscoveryPath(baseUrl, discoveryPath)}${username}/`;
     }
 
     return this.convertToProxyUrl(discoveryUrl);
@@ -78,14 +90,23 @@ export class UrlBuilder {
 
   /**
    * Generate a unique URL for a calendar event
-   * Uses the event UID to create a consistent URL
+   * Uses the event UID to create a consistent URL, unless the event was read
+   * from a resource of this calendar
    */
-  public generateEventUrl(calendar: Calendar, event: CalendarEvent): string {
+  public generateEventUrl(
+    calendar: Calendar,
+    event: Pick<CalendarEvent, "uid" | "href">
+  ): string {
     // Ensure calendar URL ends with /
     const calendarUrl = calendar.url.endsWith("/")
       ? calendar.url
       : `${calendar.url}/`;
 
+    const resourceUrl = this.resolveResourceHref(calendarUrl, event.href);
+    if (resourceUrl) {
+      return resourceUrl;
+    }
+
     // Generate filename from UID, ensuring it's URL-safe
     const filename = `${event.uid}.ics`;
 
@@ -94,7 +115,8 @@ export class UrlBuilder {
 
   /**
    * Generate a unique URL for a contact
-   * Uses the contact UID to create a consistent URL
+   * Uses the contact UID to create a consistent URL, unless the contact was
+   * read from a resource of this address book
    */
   public generateContactUrl(
     addressBook: AddressBook,
@@ -105,12 +127,33 @@ export class UrlBuilder {
       ? addressBook.url
       : `${addressBook.url}/`;
 
+    const resourceUrl = this.resolveResourceHref(addressBookUrl, contact.href);
+    if (resourceUrl) {
+      return resourceUrl;
+    }
+
     // Generate filename from UID, ensuring it's URL-safe
     const filename = `${contact.uid}.vcf`;
 
     return `${addressBookUrl}${filename}`;
   }
 
+  /**
+   * URL of a resource moved or copied into another collection, keeping its
+   * file name
+   */
+  public generateTransferUrl(
+    collection: Calendar | AddressBook,
+    resourceUrl: string
+  ): string {
+    const collectionUrl = collection.url.endsWith("/")
+      ? collection.url
+      : `${collection.url}/`;
+    const filename = resourceUrl.split("/").filter(Boolean).pop();
+
+    return `${collectionUrl}${filename}`;
+  }
+
   /**
    * Build calendar creation URL
    */
@@ -131,14 +174,16 @@ export class UrlBuilder {
       .replace(/^-|-$/g, '') + '-' + Date.now();
 
     let calendarUrl: string;
-    if (baseUrl.includes(discoveryPath.replace(/\/$/, ""))) {
+    if (!discoveryPath) {
+      calendarUrl = `${baseUrl}/${calendarId}/`;
+    } else if (baseUrl.includes(discoveryPath.replace(/\/$/, ""))) {
       if (baseUrl.endsWith(`/${username}`)) {
         calendarUrl = `${baseUrl}/${calendarId}/`;
       } else {
         calendarUrl = `${baseUrl}/${username}/${calendarId}/`;
       }
     } else {
-      calendarUrl = `${baseUrl}${discoveryPath}${username}/${calendarId}/`;
+      calendarUrl = `${this.joinDiscoveryPath(baseUrl, discoveryPath)}${username}/${calendarId}/`;
     }
 
     return calendarUrl;
@@ -164,16 +209,56 @@ export class UrlBuilder {
       .replace(/^-|-$/g, '') + '-' + Date.now();
 
     let addressBookUrl: string;
-    if (baseUrl.includes(discoveryPath.replace(/\/$/, ""))) {
+    if (!discoveryPath) {
+      addressBookUrl = `${baseUrl}/${addressBookId}/`;
+    } else if (baseUrl.includes(discoveryPath.replace(/\/$/, ""))) {
       if (baseUrl.endsWith(`/${username}`)) {
         addressBookUrl = `${baseUrl}/${addressBookId}/`;
       } else {
         addressBookUrl = `${baseUrl}/${username}/${addressBookId}/`;
       }
     } else {
-      addressBookUrl = `${baseUrl}${discoveryPath}${username}/${addressBookId}/`;
+      addressBookUrl = `${this.joinDiscoveryPath(baseUrl, discoveryPath)}${username}/${addressBookId}/`;
     }
 
     return addressBookUrl;
   }
-}
\ No newline at end of file
+
+  /**
+   * Append a discovery path to a base URL that already ends in its leading
+   * segments, e.g. https://host/remote.php/dav and /remote.php/dav/calendars/
+   */
+  private joinDiscoveryPath(baseUrl: string, discoveryPath: string): string {
+    const segments = discoveryPath.split("/").filter(Boolean);
+
+    for (let count = segments.length - 1; count > 0; count--) {
+      const prefix = `/${segments.slice(0, count).join("/")}/`;
+      const index = `${baseUrl}/`.indexOf(prefix);
+      if (index >= 0) {
+        return `${baseUrl.slice(0, index)}${discoveryPath}`;
+      }
+    }
+
+    return `${baseUrl}${discoveryPath}`;
+  }
+
+  /**
+   * Resolve a resource href reported by the server against its collection,
+   * ignoring hrefs of other collections (e.g. after moving to another calendar)
+   */
+  private resolveResourceHref(
+    collectionUrl: string,
+    href?: string
+  ): string | null {
+    if (!href) {
+      return null;
+    }
+
+    try {
+      const resourceUrl = new URL(href, collectionUrl).toString();
+      return resourceUrl.startsWith(collectionUrl) ? resourceUrl : null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
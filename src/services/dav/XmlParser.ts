@@ -1,4 +1,10 @@
-import { Calendar, AddressBook } from "../../types/dav";
+import {
+  Calendar,
+  AddressBook,
+  SchedulingInfo,
+  ServiceDiscoveryResult,
+  SyncCollectionChanges,
+} from "../../types/dav";
 
 export class XmlParser {
   /**
@@ -81,10 +87,19 @@ export class XmlParser {
         // Build full URL
         const fullUrl = href.startsWith("http") ? href : `${baseUrl}${href}`;
 
+        // Component types the calendar accepts, e.g. VTODO for task lists
+        const components = Array.from(
+          response.getElementsByTagNameNS("urn:ietf:params:xml:ns:caldav", "comp")
+        )
+          .map((comp) => comp.getAttribute("name")?.toUpperCase())
+          .filter((name): name is string => !!name);
+
         calendars.push({
           url: fullUrl,
           displayName,
           color,
+          ...(components.length > 0 ? { components } : {}),
+          ...this.parseSyncProperties(response),
         });
       }
 
@@ -153,6 +168,7 @@ export class XmlParser {
         addressBooks.push({
           url: fullUrl,
           displayName,
+          ...this.parseSyncProperties(response),
         });
       }
 
@@ -166,6 +182,168 @@ export class XmlParser {
     }
   }
 
+  /**
+   * Parse PROPFIND response to extract the DAV:current-user-principal URL
+   */
+  public parseCurrentUserPrincipalResponse(
+    xmlData: string,
+    baseUrl: string
+  ): string | null {
+    try {
+      const parser = new DOMParser();
+      const xmlDoc = parser.parseFromString(xmlData, "text/xml");
+
+      const principalElement = xmlDoc.getElementsByTagNameNS(
+        "DAV:",
+        "current-user-principal"
+      )[0];
+      const href = principalElement
+        ?.getElementsByTagNameNS("DAV:", "href")[0]
+        ?.textContent?.trim();
+
+      if (!href) return null;
+      return href.startsWith("http") ? href : `${baseUrl}${href}`;
+    } catch (error) {
+      throw new Error(
+        `Failed to parse principal response: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Parse principal PROPFIND response to extract the calendar and address
+   * book home collections (RFC 4791 and RFC 6352)
+   */
+  public parseHomeSetResponse(
+    xmlData: string,
+    baseUrl: string
+  ): Pick<ServiceDiscoveryResult, "calendarHomeUrl" | "addressBookHomeUrl"> {
+    try {
+      const parser = new DOMParser();
+      const xmlDoc = parser.parseFromString(xmlData, "text/xml");
+
+      const getHref = (namespace: string, localName: string) => {
+        const href = xmlDoc
+          .getElementsByTagNameNS(namespace, localName)[0]
+          ?.getElementsByTagNameNS("DAV:", "href")[0]
+          ?.textContent?.trim();
+        if (!href) return undefined;
+        return href.startsWith("http") ? href : `${baseUrl}${href}`;
+      };
+
+      return {
+        calendarHomeUrl: getHref("urn:ietf:params:xml:ns:caldav", "calendar-home-set"),
+        addressBookHomeUrl: getHref("urn:ietf:params:xml:ns:carddav", "addressbook-home-set"),
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to parse home set response: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Parse principal PROPFIND response to extract the RFC 6638 scheduling
+   * collections and calendar user addresses
+   */
+  public parseSchedulingInfoResponse(
+    xmlData: string,
+    baseUrl: string
+  ): SchedulingInfo {
+    try {
+      const parser = new DOMParser();
+      const xmlDoc = parser.parseFromString(xmlData, "text/xml");
+
+      const getHrefs = (localName: string): string[] => {
+        const element = xmlDoc.getElementsByTagNameNS(
+          "urn:ietf:params:xml:ns:caldav",
+          localName
+        )[0];
+        if (!element) return [];
+
+        const hrefs: string[] = [];
+        const hrefElements = element.getElementsByTagNameNS("DAV:", "href");
+        for (let i = 0; i < hrefElements.length; i++) {
+          const href = hrefElements[i].textContent?.trim();
+          if (href) hrefs.push(href);
+        }
+        return hrefs;
+      };
+      const toFullUrl = (href?: string) =>
+        href && !href.startsWith("http") ? `${baseUrl}${href}` : href;
+
+      const addresses = getHrefs("calendar-user-address-set")
+        .filter((href) => /^mailto:/i.test(href))
+        .map((href) => href.replace(/^mailto:/i, ""));
+
+      return {
+        inboxUrl: toFullUrl(getHrefs("schedule-inbox-URL")[0]),
+        outboxUrl: toFullUrl(getHrefs("schedule-outbox-URL")[0]),
+        addresses,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to parse scheduling response: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Parse an RFC 6578 sync-collection REPORT response into the changed and
+   * deleted member hrefs and the new sync token
+   */
+  public parseSyncCollectionResponse(xmlData: string): SyncCollectionChanges {
+    try {
+      const parser = new DOMParser();
+      const xmlDoc = parser.parseFromString(xmlData, "text/xml");
+
+      const changes: SyncCollectionChanges = {
+        syncToken:
+          xmlDoc.getElementsByTagNameNS("DAV:", "sync-token")[0]?.textContent?.trim() || "",
+        changed: [],
+        deleted: [],
+      };
+
+      const responses = xmlDoc.getElementsByTagNameNS("DAV:", "response");
+      for (let i = 0; i < responses.length; i++) {
+        const response = responses[i];
+
+        const href = response.getElementsByTagNameNS("DAV:", "href")[0]?.textContent?.trim();
+        // Child collections are not events or contacts
+        if (!href || href.endsWith("/")) continue;
+
+        const etagElement = response.getElementsByTagNameNS("DAV:", "getetag")[0];
+        if (etagElement) {
+          changes.changed.push({
+            href,
+            etag: etagElement.textContent?.trim().replace(/"/g, "") || undefined,
+          });
+          continue;
+        }
+
+        // Removed members are reported with a bare 404 status
+        const statusElement = response.getElementsByTagNameNS("DAV:", "status")[0];
+        if (statusElement?.textContent?.includes("404")) {
+          changes.deleted.push(href);
+        }
+      }
+
+      return changes;
+    } catch (error) {
+      throw new Error(
+        `Failed to parse sync-collection response: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
   /**
    * Validate PROPPATCH response to ensure properties were updated successfully
    */
@@ -209,4 +387,23 @@ export class XmlParser {
       .replace(/"/g, "&quot;")
       .replace(/'/g, "&#39;");
   }
-}
\ No newline at end of file
+
+  /**
+   * Read the DAV:sync-token and CS:getctag of a collection, if reported
+   */
+  private parseSyncProperties(
+    response: Element
+  ): Pick<Calendar, "syncToken" | "ctag"> {
+    const syncToken = response
+      .getElementsByTagNameNS("DAV:", "sync-token")[0]
+      ?.textContent?.trim();
+    const ctag = response
+      .getElementsByTagNameNS("http://calendarserver.org/ns/", "getctag")[0]
+      ?.textContent?.trim();
+
+    return {
+      ...(syncToken ? { syncToken } : {}),
+      ...(ctag ? { ctag } : {}),
+    };
+  }
+}
@@ -3,4 +3,5 @@ export { XmlParser } from './XmlParser';
 export { UrlBuilder } from './UrlBuilder';
 export { DataFormatters } from './DataFormatters';
 export { CalendarService } from './CalendarService';
-export { ContactService } from './ContactService';
\ No newline at end of file
+export { ContactService } from './ContactService';
+export { DiscoveryService } from './DiscoveryService';
\ No newline at end of file
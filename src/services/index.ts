@@ -1,4 +1,4 @@
 export { DAVClient } from './DAVClient';
 export { AuthManager } from './AuthManager';
 export { CacheService } from './CacheService';
-export { SyncService } from './SyncService';
\ No newline at end of file
+export { SyncService } from './SyncService';export { AccountSyncService } from './AccountSyncService';
@@ -4,8 +4,13 @@
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
 
-// Mock ICAL.js for testing
+// In-memory IndexedDB for the local cache
+import 'fake-indexeddb/auto';
+
+// Mock ICAL.js for testing; recurrence expansion uses the real Recur and Time
 jest.mock('ical.js', () => ({
+  Recur: jest.requireActual('ical.js').default.Recur,
+  Time: jest.requireActual('ical.js').default.Time,
   parse: jest.fn((icalData: string) => {
     // Mock parsing of iCalendar data
     if (icalData.includes('INVALID')) {
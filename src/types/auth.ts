@@ -3,6 +3,13 @@ export interface AuthConfig {
   carddavUrl: string;
   username: string;
   password: string;
+  provider?: string; // Provider chosen at setup; detected from caldavUrl when absent
+}
+
+export interface Account {
+  id: string;
+  name: string; // Shown in navigation to tell accounts apart
+  config: AuthConfig;
 }
 
 export interface EncryptedCredentials {
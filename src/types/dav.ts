@@ -1,14 +1,168 @@
+export type RecurrenceFrequency =
+  | "SECONDLY"
+  | "MINUTELY"
+  | "HOURLY"
+  | "DAILY"
+  | "WEEKLY"
+  | "MONTHLY"
+  | "YEARLY";
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval?: number;
+  count?: number;
+  until?: Date;
+  byDay?: string[]; // e.g. ["MO", "WE"] or ["2TU", "-1FR"]
+  byMonthDay?: number[];
+  byMonth?: number[];
+  byYearDay?: number[];
+  byWeekNo?: number[];
+  byHour?: number[];
+  byMinute?: number[];
+  bySecond?: number[];
+  bySetPos?: number[];
+  wkst?: string; // Week start, e.g. "SU"; Monday when absent
+}
+
+export interface EventAlarm {
+  minutesBefore: number; // Offset from the event start; negative for after the start
+  action?: "DISPLAY" | "AUDIO"; // DISPLAY when absent
+  description?: string;
+}
+
+export type ParticipationStatus =
+  | "NEEDS-ACTION"
+  | "ACCEPTED"
+  | "DECLINED"
+  | "TENTATIVE"
+  | "DELEGATED";
+
+export type AttendeeRole =
+  | "CHAIR"
+  | "REQ-PARTICIPANT"
+  | "OPT-PARTICIPANT"
+  | "NON-PARTICIPANT";
+
+export interface EventOrganizer {
+  email: string; // Address without the "mailto:" prefix
+  name?: string; // CN parameter
+}
+
+export interface EventAttendee {
+  email: string; // Address without the "mailto:" prefix
+  name?: string; // CN parameter
+  partstat?: ParticipationStatus; // NEEDS-ACTION when absent
+  role?: AttendeeRole; // REQ-PARTICIPANT when absent
+  rsvp?: boolean;
+}
+
 export interface CalendarEvent {
   uid: string;
   summary: string;
   description?: string;
   dtstart: Date;
-  dtend: Date;
+  dtend: Date; // Exclusive; for all-day events the midnight after the last day
+  allDay?: boolean; // DATE-valued DTSTART/DTEND
+  timezone?: string; // IANA TZID of DTSTART; absent for UTC, floating and all-day times
   location?: string;
   etag?: string;
+  href?: string; // Server path of the resource holding the event
   calendarUrl?: string; // Track which calendar this event belongs to
   created?: Date;
   lastModified?: Date;
+  rrule?: RecurrenceRule; // Recurrence rule of a series master
+  exdates?: Date[]; // Excluded occurrence start times
+  overrides?: CalendarEvent[]; // Modified occurrences (RECURRENCE-ID components)
+  recurrenceId?: Date; // Original start of an occurrence or override
+  master?: CalendarEvent; // Series master of an expanded occurrence
+  alarms?: EventAlarm[]; // VALARM reminders
+  organizer?: EventOrganizer;
+  attendees?: EventAttendee[];
+  raw?: string; // iCalendar object as read from the server; unmodeled properties are kept from it on update
+}
+
+/**
+ * Prefilled values of a new event, e.g. a time range selected in a calendar view
+ */
+export type EventDraft = Pick<CalendarEvent, "summary" | "dtstart" | "dtend" | "allDay">;
+
+export type TaskStatus = "NEEDS-ACTION" | "IN-PROCESS" | "COMPLETED" | "CANCELLED";
+
+/**
+ * A to-do (VTODO) in a task list
+ */
+export interface Task {
+  uid: string;
+  summary: string;
+  description?: string;
+  due?: Date;
+  dueAllDay?: boolean; // DATE-valued DUE
+  priority?: number; // 1 (highest) to 9 (lowest); absent when undefined
+  status?: TaskStatus; // NEEDS-ACTION when absent
+  percentComplete?: number; // 0 to 100
+  completed?: Date; // When the task was completed
+  relatedTo?: string; // UID of the parent task (RELATED-TO with RELTYPE=PARENT)
+  sortOrder?: number; // Manual position among its siblings (X-APPLE-SORT-ORDER)
+  etag?: string;
+  href?: string; // Server path of the resource holding the task
+  calendarUrl?: string; // Task list the task belongs to
+  raw?: string; // iCalendar object as read from the server; unmodeled properties are kept from it on update
+}
+
+export interface SchedulingInfo {
+  inboxUrl?: string; // CALDAV:schedule-inbox-URL of the current user
+  outboxUrl?: string; // CALDAV:schedule-outbox-URL; absent if the server does not schedule
+  addresses: string[]; // Email addresses from CALDAV:calendar-user-address-set
+}
+
+/**
+ * Collections found by RFC 6764 service discovery
+ */
+export interface ServiceDiscoveryResult {
+  principalUrl?: string; // DAV:current-user-principal
+  calendarHomeUrl?: string; // CALDAV:calendar-home-set
+  addressBookHomeUrl?: string; // CARDDAV:addressbook-home-set
+}
+
+export interface SchedulingMessage {
+  url: string; // Resource in the schedule inbox
+  etag?: string;
+  method: string; // iTIP method, e.g. REQUEST, CANCEL or REPLY
+  events: CalendarEvent[];
+}
+
+export type FreeBusyType = 'BUSY' | 'BUSY-UNAVAILABLE' | 'BUSY-TENTATIVE';
+
+/**
+ * A busy period from a VFREEBUSY component (FREEBUSY property)
+ */
+export interface BusyPeriod {
+  start: Date;
+  end: Date;
+  type: FreeBusyType;
+}
+
+/**
+ * Free/busy information of one calendar user for a time range
+ */
+export interface FreeBusyResult {
+  email: string;
+  busy: BusyPeriod[];
+  error?: string; // Why the server could not look the user up, e.g. an unknown address
+}
+
+/**
+ * A postal address of a contact (vCard ADR)
+ */
+export interface ContactAddress {
+  type?: string; // TYPE parameter, e.g. "home" or "work"
+  poBox?: string;
+  extended?: string; // Apartment or suite
+  street?: string;
+  locality?: string; // City
+  region?: string; // State or province
+  postalCode?: string;
+  country?: string;
 }
 
 export interface Contact {
@@ -16,11 +170,24 @@ export interface Contact {
   fn: string; // Full name (computed from firstName + lastName)
   firstName?: string; // Given name
   lastName?: string; // Family name
+  nickname?: string;
   email?: string[];
+  emailTypes?: string[]; // TYPE of each email by index, e.g. "work"; "" when untyped
   tel?: string[];
+  telTypes?: string[]; // TYPE of each phone number by index, e.g. "cell"; "" when untyped
+  adr?: ContactAddress[];
   org?: string;
+  title?: string; // Job title
+  role?: string;
+  bday?: string; // YYYY-MM-DD, or --MM-DD when the year is unknown
+  anniversary?: string; // Same format as bday
+  url?: string[];
+  impp?: string[]; // Instant messaging URIs, e.g. xmpp:alice@example.com
+  note?: string;
   photo?: string; // Base64 encoded image data or URL
   etag?: string;
+  href?: string; // Server path of the vCard resource
+  raw?: string; // vCard as read from the server; unmodeled properties are kept from it on update
   // Optional address book information (added when loading from multiple address books)
   addressBookUrl?: string;
   addressBookName?: string;
@@ -31,12 +198,25 @@ export interface Calendar {
   displayName: string;
   color?: string;
   description?: string;
+  syncToken?: string; // DAV:sync-token; absent if the server lacks RFC 6578
+  ctag?: string; // CS:getctag, changes whenever the collection does
+  components?: string[]; // CALDAV:supported-calendar-component-set, e.g. ["VEVENT", "VTODO"]; absent if not reported
+  accountId?: string; // Account the calendar belongs to; set when accounts are merged
 }
 
 export interface AddressBook {
   url: string;
   displayName: string;
   color?: string; // Local color setting, not synced to server
+  syncToken?: string;
+  ctag?: string;
+  accountId?: string; // Account the address book belongs to; set when accounts are merged
+}
+
+export interface SyncCollectionChanges {
+  syncToken: string; // Token to send with the next sync-collection REPORT
+  changed: { href: string; etag?: string }[]; // Added or modified member resources
+  deleted: string[]; // Hrefs of removed member resources
 }
 
 export interface DateRange {
@@ -55,4 +235,5 @@ export interface DAVResponse {
   status: number;
   data: string;
   headers: Record<string, string>;
+  url?: string; // Final URL after redirects
 }
\ No newline at end of file
@@ -55,6 +55,36 @@ declare module 'ical.js' {
     compare(other: Time): number;
   }
 
+  export class Recur {
+    static fromData(data: {
+      freq?: string;
+      interval?: number;
+      wkst?: number;
+      until?: Time;
+      count?: number;
+      bysecond?: number[];
+      byminute?: number[];
+      byhour?: number[];
+      byday?: string[];
+      bymonthday?: number[];
+      byyearday?: number[];
+      byweekno?: number[];
+      bymonth?: number[];
+      bysetpos?: number[];
+    }): Recur;
+    static fromString(str: string): Recur;
+    static icalDayToNumericDay(day: string, weekStart?: number): number;
+    
+    iterator(dtstart: Time): RecurIterator;
+    toString(): string;
+  }
+
+  export class RecurIterator {
+    completed: boolean;
+    
+    next(): Time | null;
+  }
+
   export class Property {
     constructor(jCal: any[] | string, parent?: Component);
     
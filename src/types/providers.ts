@@ -32,4 +32,12 @@ export interface BaikalProvider extends DAVProvider {
 
 export interface RadicaleProvider extends DAVProvider {
   name: 'radicale';
+}
+
+export interface NextcloudProvider extends DAVProvider {
+  name: 'nextcloud';
+}
+
+export interface GenericProvider extends DAVProvider {
+  name: 'generic';
 }
\ No newline at end of file
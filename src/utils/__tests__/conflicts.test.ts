@@ -0,0 +1,81 @@
+import { getChangedFields, mergeConflict } from '../conflicts';
+import { SyncConflict } from '../../services/CacheService';
+import { CalendarEvent, Contact } from '../../types/dav';
+
+describe('conflicts', () => {
+  const serverEvent: CalendarEvent = {
+    uid: 'meeting',
+    summary: 'Planning',
+    dtstart: new Date('2025-07-20T10:00:00Z'),
+    dtend: new Date('2025-07-20T11:00:00Z'),
+    location: 'Room 1',
+    etag: 'etag-2',
+    href: '/calendars/testuser/personal/meeting.ics',
+  };
+
+  const eventConflict = (local: CalendarEvent, server: CalendarEvent | null): SyncConflict => ({
+    id: 'conflict-1',
+    type: 'update',
+    resourceType: 'event',
+    resourceUrl: 'http://example.com/calendars/testuser/personal/',
+    local,
+    server,
+    timestamp: new Date(),
+  });
+
+  describe('getChangedFields', () => {
+    it('should list only the fields that differ', () => {
+      const local = {
+        ...serverEvent,
+        summary: 'Planning (moved)',
+        dtend: new Date('2025-07-20T12:00:00Z'),
+        etag: 'etag-1',
+      };
+
+      const fields = getChangedFields(eventConflict(local, serverEvent));
+
+      expect(fields.map(field => field.id)).toEqual(['summary', 'time']);
+    });
+
+    it('should list the filled in fields when the server copy is gone', () => {
+      const contact: Contact = { uid: 'alice', fn: 'Alice', email: ['alice@example.com'] };
+
+      const fields = getChangedFields({
+        ...eventConflict(serverEvent, null),
+        resourceType: 'contact',
+        local: contact,
+      });
+
+      expect(fields.map(field => field.id)).toEqual(['fn', 'email']);
+    });
+  });
+
+  describe('mergeConflict', () => {
+    it('should take the chosen fields from our version and keep the server ETag', () => {
+      const local = {
+        ...serverEvent,
+        summary: 'Planning (moved)',
+        location: 'Room 2',
+        etag: 'etag-1',
+      };
+
+      const merged = mergeConflict(eventConflict(local, serverEvent), {
+        summary: 'local',
+        location: 'server',
+      }) as CalendarEvent;
+
+      expect(merged.summary).toBe('Planning (moved)');
+      expect(merged.location).toBe('Room 1');
+      expect(merged.etag).toBe('etag-2');
+      expect(merged.href).toBe(serverEvent.href);
+    });
+
+    it('should recreate our version when the server copy was deleted', () => {
+      const local = { ...serverEvent, etag: 'etag-1' };
+
+      const merged = mergeConflict(eventConflict(local, null), {});
+
+      expect(merged).toEqual({ ...local, etag: undefined });
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  contactFromCsvRow,
+  createDuplicateFinder,
+  guessCsvMapping,
+  mergeContacts
+} from '../contactImport';
+import { Contact } from '../../types/dav';
+
+describe('contactImport', () => {
+  const existing: Contact = {
+    uid: 'jane',
+    fn: 'Jane Doe',
+    email: ['Jane@Example.com'],
+    tel: ['+49 (30) 123-4567'],
+    etag: 'etag-jane',
+  };
+
+  it('should guess the fields of Outlook and Google Contacts columns', () => {
+    expect(guessCsvMapping([
+      'First Name',
+      'Last Name',
+      'E-mail Address',
+      'E-mail Display Name',
+      'Mobile Phone',
+      'Phone 1 - Type',
+      'Organization 1 - Name',
+      'Job Title',
+      'Birthday',
+    ])).toEqual(['firstName', 'lastName', 'email', null, 'tel', null, 'org', null, null]);
+  });
+
+  it('should collect several email and phone columns into lists', () => {
+    const contact = contactFromCsvRow(
+      ['Ada', 'ada@example.com ::: ada@work.example', '555-0100', '555-0199'],
+      ['firstName', 'email', 'tel', 'tel']
+    );
+
+    expect(contact).toEqual({
+      uid: '',
+      fn: 'Ada',
+      firstName: 'Ada',
+      email: ['ada@example.com', 'ada@work.example'],
+      tel: ['555-0100', '555-0199'],
+    });
+    expect(contactFromCsvRow(['', '555-0100'], ['fn', 'tel'])).toBeNull();
+  });
+
+  it('should match duplicates by email, phone or name', () => {
+    const findDuplicate = createDuplicateFinder([existing]);
+
+    expect(findDuplicate({ uid: 'a', fn: 'Someone', email: ['jane@example.com'] })).toBe(existing);
+    expect(findDuplicate({ uid: 'b', fn: 'Someone', tel: ['030 1234567'] })).toBe(existing);
+    expect(findDuplicate({ uid: 'c', fn: ' jane  DOE ' })).toBe(existing);
+    expect(findDuplicate({ uid: 'd', fn: 'Someone', tel: ['12'] })).toBeUndefined();
+  });
+
+  it('should keep the type of each merged email next to its address', () => {
+    const merged = mergeContacts(
+      { ...existing, emailTypes: ['home'] },
+      { uid: 'imported', fn: 'Jane', email: ['jane@acme.example', 'jane@example.com'], emailTypes: ['work', 'other'] }
+    );
+
+    expect(merged.email).toEqual(['Jane@Example.com', 'jane@acme.example']);
+    expect(merged.emailTypes).toEqual(['home', 'work']);
+  });
+
+  it('should fill gaps and add new addresses when merging', () => {
+    const merged = mergeContacts(existing, {
+      uid: 'imported',
+      fn: 'Jane D.',
+      org: 'ACME',
+      email: ['jane@example.com', 'jane@acme.example'],
+      tel: ['030 1234567'],
+    });
+
+    expect(merged).toEqual({
+      ...existing,
+      org: 'ACME',
+      firstName: undefined,
+      lastName: undefined,
+      photo: undefined,
+      email: ['Jane@Example.com', 'jane@acme.example'],
+    });
+  });
+});
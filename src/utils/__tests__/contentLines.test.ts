@@ -0,0 +1,48 @@
+import {
+  getComponentProperty,
+  parseContentComponents,
+  patchContentComponent,
+  serializeContentComponent
+} from '../contentLines';
+
+describe('contentLines', () => {
+  it('should keep folded and quoted-printable lines together', () => {
+    const [card] = parseContentComponents(
+      'BEGIN:VCARD\r\nVERSION:2.1\r\nNOTE;ENCODING=QUOTED-PRINTABLE:first=\r\nsecond\r\n' +
+      'X-LONG:abc\r\n def\r\nEND:VCARD\r\n'
+    );
+
+    expect(card.children).toEqual([
+      'VERSION:2.1',
+      'NOTE;ENCODING=QUOTED-PRINTABLE:first=\r\nsecond',
+      'X-LONG:abc\r\n def'
+    ]);
+    expect(getComponentProperty(card, 'X-LONG')).toBe('abcdef');
+  });
+
+  it('should read nested components and write them back unchanged', () => {
+    const text = 'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nBEGIN:VEVENT\r\nUID:1\r\n' +
+      'BEGIN:VALARM\r\nACTION:DISPLAY\r\nEND:VALARM\r\nEND:VEVENT\r\nEND:VCALENDAR\r\n';
+    const [calendar] = parseContentComponents(text);
+
+    expect(calendar.children[1]).toEqual({
+      name: 'VEVENT',
+      children: ['UID:1', { name: 'VALARM', children: ['ACTION:DISPLAY'] }]
+    });
+    expect(serializeContentComponent(calendar)).toBe(text);
+  });
+
+  it('should replace only the named properties and subcomponents', () => {
+    const [original] = parseContentComponents(
+      'BEGIN:VEVENT\r\nSUMMARY:Old\r\nX-CUSTOM:kept\r\nBEGIN:VALARM\r\nACTION:AUDIO\r\nEND:VALARM\r\n' +
+      'DTSTAMP:1\r\nEND:VEVENT'
+    );
+    const [generated] = parseContentComponents(
+      'BEGIN:VEVENT\r\nSUMMARY:New\r\nLOCATION:Room 1\r\nDTSTAMP:2\r\nEND:VEVENT'
+    );
+
+    const patched = patchContentComponent(original, generated, ['SUMMARY', 'LOCATION', 'VALARM', 'DTSTAMP']);
+
+    expect(patched.children).toEqual(['SUMMARY:New', 'X-CUSTOM:kept', 'DTSTAMP:2', 'LOCATION:Room 1']);
+  });
+});
@@ -0,0 +1,25 @@
+import { parseCsv } from '../csv';
+
+describe('parseCsv', () => {
+  it('should handle quoted delimiters, doubled quotes and line breaks', () => {
+    const rows = parseCsv('Name,Notes\r\n"Doe, Jane","Said ""hi""\non Monday"\r\n');
+
+    expect(rows).toEqual([
+      ['Name', 'Notes'],
+      ['Doe, Jane', 'Said "hi"\non Monday'],
+    ]);
+  });
+
+  it('should detect semicolon-separated exports and strip the byte order mark', () => {
+    const rows = parseCsv('\uFEFFVorname;Nachname;E-Mail\nJörg;Müller;joerg@example.com');
+
+    expect(rows).toEqual([
+      ['Vorname', 'Nachname', 'E-Mail'],
+      ['Jörg', 'Müller', 'joerg@example.com'],
+    ]);
+  });
+
+  it('should drop empty lines', () => {
+    expect(parseCsv('a,b\n\n1,2\n\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  eventOccursOnDate,
+  isAllDayBandEvent,
+  isMultiDayEvent,
+  layoutAllDaySegments,
+  layoutTimedEvents,
+} from '../eventDates';
+import { CalendarEvent } from '../../types/dav';
+
+const makeEvent = (
+  uid: string,
+  dtstart: Date,
+  dtend: Date,
+  allDay?: boolean
+): CalendarEvent => ({ uid, summary: uid, dtstart, dtend, allDay });
+
+describe('eventDates', () => {
+  // Sunday 5 January 2025 to Saturday 11 January 2025
+  const week = Array.from({ length: 7 }, (_, i) => new Date(2025, 0, 5 + i));
+
+  describe('eventOccursOnDate', () => {
+    it('should treat the end of an all-day event as exclusive', () => {
+      const holiday = makeEvent('holiday', new Date(2025, 0, 6), new Date(2025, 0, 7), true);
+
+      expect(eventOccursOnDate(holiday, new Date(2025, 0, 6))).toBe(true);
+      expect(eventOccursOnDate(holiday, new Date(2025, 0, 7))).toBe(false);
+    });
+
+    it('should include every day covered by a multi-day event', () => {
+      const trip = makeEvent('trip', new Date(2025, 0, 6, 18, 0), new Date(2025, 0, 8, 9, 0));
+
+      expect(eventOccursOnDate(trip, new Date(2025, 0, 5))).toBe(false);
+      expect(eventOccursOnDate(trip, new Date(2025, 0, 7))).toBe(true);
+      expect(eventOccursOnDate(trip, new Date(2025, 0, 8))).toBe(true);
+    });
+  });
+
+  describe('isMultiDayEvent', () => {
+    it('should not count an event ending at midnight as multi-day', () => {
+      const evening = makeEvent('evening', new Date(2025, 0, 6, 20, 0), new Date(2025, 0, 7));
+
+      expect(isMultiDayEvent(evening)).toBe(false);
+      expect(isAllDayBandEvent(evening)).toBe(false);
+    });
+
+    it('should detect timed events crossing midnight', () => {
+      const overnight = makeEvent('overnight', new Date(2025, 0, 6, 22, 0), new Date(2025, 0, 7, 2, 0));
+
+      expect(isMultiDayEvent(overnight)).toBe(true);
+      expect(isAllDayBandEvent(overnight)).toBe(true);
+    });
+  });
+
+  describe('layoutAllDaySegments', () => {
+    it('should span multi-day events across the visible days', () => {
+      const conference = makeEvent('conference', new Date(2025, 0, 7), new Date(2025, 0, 10), true);
+
+      const [segment] = layoutAllDaySegments([conference], week);
+
+      expect(segment.startIndex).toBe(2);
+      expect(segment.span).toBe(3);
+      expect(segment.continuesBefore).toBe(false);
+      expect(segment.continuesAfter).toBe(false);
+    });
+
+    it('should clip events that extend beyond the visible days', () => {
+      const vacation = makeEvent('vacation', new Date(2025, 0, 1), new Date(2025, 0, 15), true);
+
+      const [segment] = layoutAllDaySegments([vacation], week);
+
+      expect(segment.startIndex).toBe(0);
+      expect(segment.span).toBe(7);
+      expect(segment.continuesBefore).toBe(true);
+      expect(segment.continuesAfter).toBe(true);
+    });
+
+    it('should stack overlapping events in separate lanes', () => {
+      const segments = layoutAllDaySegments(
+        [
+          makeEvent('a', new Date(2025, 0, 6), new Date(2025, 0, 9), true),
+          makeEvent('b', new Date(2025, 0, 7), new Date(2025, 0, 8), true),
+          makeEvent('c', new Date(2025, 0, 9), new Date(2025, 0, 10), true),
+        ],
+        week
+      );
+
+      const lanes = Object.fromEntries(segments.map((s) => [s.event.uid, s.lane]));
+      expect(lanes).toEqual({ a: 0, b: 1, c: 0 });
+    });
+
+    it('should ignore timed single-day events', () => {
+      const meeting = makeEvent('meeting', new Date(2025, 0, 6, 10, 0), new Date(2025, 0, 6, 11, 0));
+
+      expect(layoutAllDaySegments([meeting], week)).toEqual([]);
+    });
+  });
+
+  describe('layoutTimedEvents', () => {
+    const monday = new Date(2025, 0, 6);
+    const at = (hour: number, minute = 0) => new Date(2025, 0, 6, hour, minute);
+
+    it('should position events by their start and end minutes', () => {
+      const [layout] = layoutTimedEvents([makeEvent('standup', at(9, 30), at(10, 15))], monday);
+
+      expect(layout.startMinutes).toBe(570);
+      expect(layout.endMinutes).toBe(615);
+      expect(layout.column).toBe(0);
+      expect(layout.columns).toBe(1);
+    });
+
+    it('should split overlapping events into side by side columns', () => {
+      const layouts = layoutTimedEvents(
+        [
+          makeEvent('a', at(9), at(11)),
+          makeEvent('b', at(9, 30), at(10)),
+          makeEvent('c', at(10), at(10, 30)),
+          makeEvent('d', at(12), at(13)),
+        ],
+        monday
+      );
+
+      const columns = Object.fromEntries(
+        layouts.map((l) => [l.event.uid, [l.column, l.columns]])
+      );
+      // b ends before c starts, so c reuses its column; d overlaps nothing
+      expect(columns).toEqual({ a: [0, 2], b: [1, 2], c: [1, 2], d: [0, 1] });
+    });
+
+    it('should clip events to the day and skip all-day ones', () => {
+      const layouts = layoutTimedEvents(
+        [
+          makeEvent('late', at(23), new Date(2025, 0, 7)),
+          makeEvent('holiday', monday, new Date(2025, 0, 7), true),
+        ],
+        monday
+      );
+
+      expect(layouts).toHaveLength(1);
+      expect(layouts[0].endMinutes).toBe(24 * 60);
+    });
+  });
+});
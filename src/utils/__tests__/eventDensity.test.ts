@@ -0,0 +1,62 @@
+import {
+  EventDensity,
+  addEventsToDensity,
+  getDayKey,
+  getDensityLevel,
+} from '../eventDensity';
+import { CalendarEvent } from '../../types/dav';
+
+const makeEvent = (uid: string, dtstart: Date, dtend: Date, allDay?: boolean): CalendarEvent => ({
+  uid,
+  summary: uid,
+  dtstart,
+  dtend,
+  allDay,
+});
+
+describe('eventDensity', () => {
+  const january = { start: new Date(2025, 0, 1), end: new Date(2025, 0, 31, 23, 59, 59, 999) };
+
+  it('should key days by their local date', () => {
+    expect(getDayKey(new Date(2025, 0, 6, 23, 30))).toBe('2025-01-06');
+  });
+
+  it('should count events per day and calendar', () => {
+    const density: EventDensity = {};
+
+    addEventsToDensity(
+      density,
+      [
+        makeEvent('standup', new Date(2025, 0, 6, 9, 0), new Date(2025, 0, 6, 9, 15)),
+        makeEvent('review', new Date(2025, 0, 6, 14, 0), new Date(2025, 0, 6, 15, 0)),
+      ],
+      january,
+      'work'
+    );
+    addEventsToDensity(
+      density,
+      [makeEvent('dinner', new Date(2025, 0, 6, 19, 0), new Date(2025, 0, 6, 21, 0))],
+      january,
+      'home'
+    );
+
+    expect(density).toEqual({ '2025-01-06': { work: 2, home: 1 } });
+  });
+
+  it('should count multi-day events on each day within the range only', () => {
+    const density: EventDensity = {};
+
+    addEventsToDensity(
+      density,
+      [makeEvent('ski trip', new Date(2025, 0, 30), new Date(2025, 1, 2), true)],
+      january,
+      'home'
+    );
+
+    expect(Object.keys(density)).toEqual(['2025-01-30', '2025-01-31']);
+  });
+
+  it('should shade busier days darker', () => {
+    expect([0, 1, 2, 3, 5, 9].map(getDensityLevel)).toEqual([0, 1, 2, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  getDayTime,
+  getSelectedRange,
+  moveEventTo,
+  moveEventToDay,
+  resizeEventTo,
+  snapTime,
+} from '../eventDrag';
+import { CalendarEvent } from '../../types/dav';
+
+describe('eventDrag', () => {
+  const meeting: CalendarEvent = {
+    uid: 'meeting',
+    summary: 'Planning',
+    dtstart: new Date(2025, 2, 4, 10, 0),
+    dtend: new Date(2025, 2, 4, 11, 30),
+  };
+
+  it('should snap times to the nearest quarter hour', () => {
+    expect(snapTime(new Date(2025, 2, 4, 10, 7))).toEqual(new Date(2025, 2, 4, 10, 0));
+    expect(snapTime(new Date(2025, 2, 4, 10, 8))).toEqual(new Date(2025, 2, 4, 10, 15));
+    expect(snapTime(new Date(2025, 2, 4, 23, 55))).toEqual(new Date(2025, 2, 5, 0, 0));
+  });
+
+  it('should find the snapped time at a height of a day column', () => {
+    const day = new Date(2025, 2, 4);
+
+    expect(getDayTime(day, 14.55 / 24)).toEqual(new Date(2025, 2, 4, 14, 30));
+    expect(getDayTime(day, -0.2)).toEqual(new Date(2025, 2, 4, 0, 0));
+    expect(getDayTime(day, 1.5)).toEqual(new Date(2025, 2, 5, 0, 0));
+  });
+
+  it('should keep the duration of a moved event', () => {
+    expect(moveEventTo(meeting, new Date(2025, 2, 4, 15, 15))).toEqual({
+      dtstart: new Date(2025, 2, 4, 15, 15),
+      dtend: new Date(2025, 2, 4, 16, 45),
+    });
+  });
+
+  it('should keep the times of day of an event moved to another day', () => {
+    expect(moveEventToDay(meeting, new Date(2025, 2, 1))).toEqual({
+      dtstart: new Date(2025, 2, 1, 10, 0),
+      dtend: new Date(2025, 2, 1, 11, 30),
+    });
+
+    const holiday: CalendarEvent = {
+      uid: 'holiday',
+      summary: 'Holiday',
+      dtstart: new Date(2025, 2, 4),
+      dtend: new Date(2025, 2, 6),
+      allDay: true,
+    };
+    expect(moveEventToDay(holiday, new Date(2025, 2, 10))).toEqual({
+      dtstart: new Date(2025, 2, 10),
+      dtend: new Date(2025, 2, 12),
+    });
+  });
+
+  it('should select a range dragged in either direction', () => {
+    const nine = new Date(2025, 2, 4, 9, 0);
+    const eleven = new Date(2025, 2, 4, 11, 0);
+
+    expect(getSelectedRange(nine, eleven)).toEqual({ dtstart: nine, dtend: eleven });
+    expect(getSelectedRange(eleven, nine)).toEqual({ dtstart: nine, dtend: eleven });
+    expect(getSelectedRange(nine, nine).dtend).toEqual(new Date(2025, 2, 4, 9, 15));
+  });
+
+  it('should not resize an event below one quarter hour', () => {
+    expect(resizeEventTo(meeting, new Date(2025, 2, 4, 12, 15)).dtend).toEqual(
+      new Date(2025, 2, 4, 12, 15)
+    );
+    expect(resizeEventTo(meeting, new Date(2025, 2, 4, 9, 0)).dtend).toEqual(
+      new Date(2025, 2, 4, 10, 15)
+    );
+  });
+});
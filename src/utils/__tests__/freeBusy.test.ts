@@ -0,0 +1,52 @@
+import { DEFAULT_WORKING_HOURS, findNextFreeSlot, isSlotFree, mergeBusyPeriods } from '../freeBusy';
+import { BusyPeriod } from '../../types/dav';
+
+describe('freeBusy', () => {
+  const hour = 60 * 60 * 1000;
+  const busy = (start: Date, end: Date): BusyPeriod => ({ start, end, type: 'BUSY' });
+
+  // Monday, July 21, 2025
+  const monday = (hours: number, minutes = 0) => new Date(2025, 6, 21, hours, minutes);
+
+  it('should merge overlapping and adjacent busy periods', () => {
+    const merged = mergeBusyPeriods([
+      busy(monday(13), monday(14)),
+      busy(monday(9), monday(10)),
+      busy(monday(9, 30), monday(11)),
+      busy(monday(11), monday(12)),
+    ]);
+
+    expect(merged.map(period => [period.start.getHours(), period.end.getHours()])).toEqual([[9, 12], [13, 14]]);
+  });
+
+  it('should treat a slot touching a busy period as free', () => {
+    const periods = [busy(monday(10), monday(11))];
+
+    expect(isSlotFree(periods, monday(11), monday(12))).toBe(true);
+    expect(isSlotFree(periods, monday(10, 30), monday(11, 30))).toBe(false);
+  });
+
+  it('should suggest the next free slot within working hours', () => {
+    const periods = [busy(monday(9), monday(10, 30)), busy(monday(11), monday(17))];
+    const until = new Date(2025, 6, 28);
+
+    // The half hour between the meetings is too short for an hour
+    expect(findNextFreeSlot(periods, hour, monday(8, 5), DEFAULT_WORKING_HOURS, until)).toEqual({
+      start: new Date(2025, 6, 22, 9, 0),
+      end: new Date(2025, 6, 22, 10, 0),
+    });
+    expect(findNextFreeSlot(periods, hour / 2, monday(8, 5), DEFAULT_WORKING_HOURS, until)?.start).toEqual(
+      monday(10, 30)
+    );
+  });
+
+  it('should skip days outside working hours', () => {
+    // An hour from 16:30 on Friday would end after working hours
+    const friday = new Date(2025, 6, 25, 16, 30);
+
+    expect(
+      findNextFreeSlot([], hour, friday, DEFAULT_WORKING_HOURS, new Date(2025, 6, 29))?.start
+    ).toEqual(new Date(2025, 6, 28, 9, 0));
+    expect(findNextFreeSlot([], hour, friday, DEFAULT_WORKING_HOURS, new Date(2025, 6, 28))).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  coalesceOperations,
+  getOperationKey,
+  getRetryDelay,
+  isNotFoundError,
+  isPermanentError,
+  orderOperations
+} from '../outbox';
+import { PendingOperation } from '../../services/CacheService';
+import { CalendarEvent } from '../../types/dav';
+
+describe('outbox', () => {
+  const event: CalendarEvent = {
+    uid: 'meeting',
+    summary: 'Planning',
+    dtstart: new Date('2025-07-20T10:00:00Z'),
+    dtend: new Date('2025-07-20T11:00:00Z'),
+    etag: 'etag-1',
+    href: '/calendars/testuser/personal/meeting.ics',
+  };
+
+  const operation = (overrides: Partial<PendingOperation>): PendingOperation => ({
+    id: 'op-1',
+    type: 'update',
+    resourceType: 'event',
+    resourceUrl: 'http://example.com/calendars/testuser/personal/',
+    data: event,
+    timestamp: new Date('2025-07-01T10:00:00Z'),
+    status: 'pending',
+    attempts: 0,
+    ...overrides,
+  });
+
+  describe('coalesceOperations', () => {
+    it('should keep a delete of an item that was never created from reaching the server', () => {
+      expect(coalesceOperations(operation({ type: 'create' }), { type: 'delete', data: event })).toBeNull();
+    });
+
+    it('should replace an offline delete followed by a create with an update', () => {
+      const recreated = { ...event, summary: 'Planning again', etag: undefined, href: undefined };
+
+      expect(coalesceOperations(operation({ type: 'delete' }), { type: 'create', data: recreated })).toEqual({
+        type: 'update',
+        data: { ...recreated, etag: 'etag-1', href: event.href },
+      });
+    });
+
+    it('should keep only the last of several updates', () => {
+      const renamed = { ...event, summary: 'Renamed' };
+
+      expect(coalesceOperations(operation({}), { type: 'update', data: renamed })).toEqual({
+        type: 'update',
+        data: renamed,
+      });
+    });
+  });
+
+  it('should never fold a move into another write of the item', () => {
+    const move = operation({ type: 'move', targetUrl: 'http://example.com/calendars/testuser/work/' });
+
+    expect(getOperationKey(move)).not.toBe(getOperationKey(operation({})));
+  });
+
+  it('should replay collection changes before the items in them', () => {
+    const ordered = orderOperations([
+      operation({ id: 'event', timestamp: new Date('2025-07-01T09:00:00Z') }),
+      operation({ id: 'calendar', resourceType: 'calendar' }),
+      operation({ id: 'older-event', timestamp: new Date('2025-07-01T08:00:00Z') }),
+    ]);
+
+    expect(ordered.map(op => op.id)).toEqual(['calendar', 'older-event', 'event']);
+  });
+
+  it('should back off exponentially up to an hour', () => {
+    expect(getRetryDelay(1)).toBe(30 * 1000);
+    expect(getRetryDelay(2)).toBe(60 * 1000);
+    expect(getRetryDelay(20)).toBe(60 * 60 * 1000);
+  });
+
+  it('should tell refusals apart from temporary failures', () => {
+    expect(isPermanentError(new Error('Event update failed: Access forbidden. Please check your permissions.'))).toBe(true);
+    expect(isPermanentError(new Error('Event creation failed: Server error (415): Unsupported Media Type'))).toBe(true);
+    expect(isPermanentError(new Error('Event update failed: Server error. Please try again later.'))).toBe(false);
+    expect(isPermanentError(new Error('Network error'))).toBe(false);
+  });
+
+  it('should recognize resources missing on the server', () => {
+    expect(isNotFoundError(new Error('Event deletion failed: Resource not found. Please check the server URL.'))).toBe(true);
+    expect(isNotFoundError(new Error('Task deletion failed: Server error (404): Not Found'))).toBe(true);
+    expect(isNotFoundError(new Error('Event deletion failed: Network error'))).toBe(false);
+  });
+});
@@ -0,0 +1,270 @@
+import {
+  applyRecurringEventDelete,
+  applyRecurringEventUpdate,
+  expandRecurringEvent,
+  getOccurrenceStarts,
+} from '../recurrence';
+import { CalendarEvent } from '../../types/dav';
+
+describe('recurrence', () => {
+  // Monday 6 January 2025, 10:00-11:00 local time
+  const weeklyStandup: CalendarEvent = {
+    uid: 'standup',
+    summary: 'Standup',
+    dtstart: new Date(2025, 0, 6, 10, 0),
+    dtend: new Date(2025, 0, 6, 11, 0),
+    etag: 'etag-1',
+    rrule: { freq: 'WEEKLY' },
+  };
+
+  const january = {
+    start: new Date(2025, 0, 1),
+    end: new Date(2025, 0, 31, 23, 59, 59),
+  };
+
+  describe('getOccurrenceStarts', () => {
+    it('should generate daily occurrences with an interval', () => {
+      const starts = getOccurrenceStarts(
+        new Date(2025, 0, 1, 9, 0),
+        { freq: 'DAILY', interval: 2 },
+        new Date(2025, 0, 7, 23, 59)
+      );
+
+      expect(starts.map((d) => d.getDate())).toEqual([1, 3, 5, 7]);
+      expect(starts.every((d) => d.getHours() === 9)).toBe(true);
+    });
+
+    it('should stop after COUNT occurrences', () => {
+      const starts = getOccurrenceStarts(
+        new Date(2025, 0, 1, 9, 0),
+        { freq: 'DAILY', count: 3 },
+        new Date(2025, 11, 31)
+      );
+
+      expect(starts).toHaveLength(3);
+    });
+
+    it('should stop at UNTIL inclusively', () => {
+      const starts = getOccurrenceStarts(
+        new Date(2025, 0, 1, 9, 0),
+        { freq: 'WEEKLY', until: new Date(2025, 0, 15, 9, 0) },
+        new Date(2025, 11, 31)
+      );
+
+      expect(starts.map((d) => d.getDate())).toEqual([1, 8, 15]);
+    });
+
+    it('should expand weekly rules with BYDAY', () => {
+      const starts = getOccurrenceStarts(
+        new Date(2025, 0, 6, 10, 0),
+        { freq: 'WEEKLY', byDay: ['MO', 'WE', 'FR'] },
+        new Date(2025, 0, 12)
+      );
+
+      expect(starts.map((d) => d.getDate())).toEqual([6, 8, 10]);
+    });
+
+    it('should expand monthly rules with an ordinal weekday', () => {
+      const starts = getOccurrenceStarts(
+        new Date(2025, 0, 14, 18, 0),
+        { freq: 'MONTHLY', byDay: ['2TU'] },
+        new Date(2025, 3, 30)
+      );
+
+      expect(starts.map((d) => [d.getMonth(), d.getDate()])).toEqual([
+        [0, 14],
+        [1, 11],
+        [2, 11],
+        [3, 8],
+      ]);
+    });
+
+    it('should keep the wall-clock time of the event time zone across DST changes', () => {
+      const starts = getOccurrenceStarts(
+        new Date('2025-03-03T15:00:00Z'), // Monday 10:00 in New York (EST)
+        { freq: 'WEEKLY', count: 2 },
+        new Date('2025-12-31T00:00:00Z'),
+        undefined,
+        'America/New_York'
+      );
+
+      expect(starts.map((d) => d.toISOString())).toEqual([
+        '2025-03-03T15:00:00.000Z',
+        '2025-03-10T14:00:00.000Z', // 10:00 EDT
+      ]);
+    });
+
+    it('should skip months without the start day', () => {
+      const starts = getOccurrenceStarts(
+        new Date(2025, 0, 31, 12, 0),
+        { freq: 'MONTHLY' },
+        new Date(2025, 4, 31, 23, 59)
+      );
+
+      expect(starts.map((d) => d.getMonth())).toEqual([0, 2, 4]);
+    });
+
+    it('should pick the last weekday of each month with BYSETPOS', () => {
+      const starts = getOccurrenceStarts(
+        new Date(2025, 0, 31, 17, 0),
+        { freq: 'MONTHLY', byDay: ['MO', 'TU', 'WE', 'TH', 'FR'], bySetPos: [-1] },
+        new Date(2025, 3, 30, 23, 59)
+      );
+
+      expect(starts.map((d) => [d.getMonth(), d.getDate()])).toEqual([
+        [0, 31],
+        [1, 28],
+        [2, 31],
+        [3, 30],
+      ]);
+    });
+
+    it('should limit yearly rules to the months of BYMONTH', () => {
+      // US Thanksgiving: the fourth Thursday of November
+      const starts = getOccurrenceStarts(
+        new Date(2024, 10, 28, 12, 0),
+        { freq: 'YEARLY', byMonth: [11], byDay: ['4TH'] },
+        new Date(2026, 11, 31)
+      );
+
+      expect(starts.map((d) => [d.getFullYear(), d.getMonth(), d.getDate()])).toEqual([
+        [2024, 10, 28],
+        [2025, 10, 27],
+        [2026, 10, 26],
+      ]);
+    });
+
+    it('should start weeks on the day given by WKST', () => {
+      const rule = { freq: 'WEEKLY' as const, interval: 2, count: 4, byDay: ['TU', 'SU'] };
+      const dtstart = new Date(1997, 7, 5, 9, 0);
+      const end = new Date(1997, 11, 31);
+
+      expect(getOccurrenceStarts(dtstart, { ...rule, wkst: 'MO' }, end).map((d) => d.getDate()))
+        .toEqual([5, 10, 19, 24]);
+      expect(getOccurrenceStarts(dtstart, { ...rule, wkst: 'SU' }, end).map((d) => d.getDate()))
+        .toEqual([5, 17, 19, 31]);
+    });
+  });
+
+  describe('expandRecurringEvent', () => {
+    it('should return non-recurring events unchanged', () => {
+      const event = { ...weeklyStandup, rrule: undefined };
+      expect(expandRecurringEvent(event, january)).toEqual([event]);
+    });
+
+    it('should expand occurrences within the date range', () => {
+      const occurrences = expandRecurringEvent(weeklyStandup, january);
+
+      expect(occurrences.map((o) => new Date(o.dtstart).getDate())).toEqual([
+        6, 13, 20, 27,
+      ]);
+      expect(occurrences[1].master).toBe(weeklyStandup);
+      expect(occurrences[1].recurrenceId).toEqual(new Date(2025, 0, 13, 10, 0));
+      expect(new Date(occurrences[1].dtend).getHours()).toBe(11);
+    });
+
+    it('should skip excluded dates', () => {
+      const occurrences = expandRecurringEvent(
+        { ...weeklyStandup, exdates: [new Date(2025, 0, 13, 10, 0)] },
+        january
+      );
+
+      expect(occurrences.map((o) => new Date(o.dtstart).getDate())).toEqual([
+        6, 20, 27,
+      ]);
+    });
+
+    it('should replace occurrences with their overrides', () => {
+      const occurrences = expandRecurringEvent(
+        {
+          ...weeklyStandup,
+          overrides: [
+            {
+              uid: 'standup',
+              summary: 'Standup (moved)',
+              dtstart: new Date(2025, 0, 14, 9, 0),
+              dtend: new Date(2025, 0, 14, 10, 0),
+              recurrenceId: new Date(2025, 0, 13, 10, 0),
+            },
+          ],
+        },
+        january
+      );
+
+      expect(occurrences[1].summary).toBe('Standup (moved)');
+      expect(new Date(occurrences[1].dtstart).getDate()).toBe(14);
+      expect(occurrences[1].recurrenceId).toEqual(new Date(2025, 0, 13, 10, 0));
+    });
+  });
+
+  describe('applyRecurringEventUpdate', () => {
+    const occurrence = expandRecurringEvent(weeklyStandup, january)[2];
+
+    it('should add an override when editing a single occurrence', () => {
+      const { update, create } = applyRecurringEventUpdate(
+        { ...occurrence, summary: 'Retro' },
+        'this'
+      );
+
+      expect(create).toBeUndefined();
+      expect(update.uid).toBe('standup');
+      expect(update.summary).toBe('Standup');
+      expect(update.overrides).toHaveLength(1);
+      expect(update.overrides![0].summary).toBe('Retro');
+      expect(update.overrides![0].recurrenceId).toEqual(new Date(2025, 0, 20, 10, 0));
+    });
+
+    it('should shift the whole series when editing all occurrences', () => {
+      const { update } = applyRecurringEventUpdate(
+        {
+          ...occurrence,
+          dtstart: new Date(2025, 0, 20, 11, 0),
+          dtend: new Date(2025, 0, 20, 12, 0),
+        },
+        'all'
+      );
+
+      expect(update.dtstart).toEqual(new Date(2025, 0, 6, 11, 0));
+      expect(update.dtend).toEqual(new Date(2025, 0, 6, 12, 0));
+      expect(update.rrule).toEqual(weeklyStandup.rrule);
+    });
+
+    it('should split the series when editing this and following occurrences', () => {
+      const { update, create } = applyRecurringEventUpdate(
+        { ...occurrence, summary: 'New standup' },
+        'following'
+      );
+
+      expect(update.rrule!.until).toEqual(new Date(2025, 0, 20, 9, 59, 59));
+      expect(create).toBeDefined();
+      expect(create!.uid).not.toBe('standup');
+      expect(create!.summary).toBe('New standup');
+      expect(create!.master).toBeUndefined();
+      expect(create!.etag).toBeUndefined();
+    });
+  });
+
+  describe('applyRecurringEventDelete', () => {
+    const occurrence = expandRecurringEvent(weeklyStandup, january)[2];
+
+    it('should add an EXDATE when deleting a single occurrence', () => {
+      const { update, remove } = applyRecurringEventDelete(occurrence, 'this');
+
+      expect(remove).toBeUndefined();
+      expect(update!.exdates).toEqual([new Date(2025, 0, 20, 10, 0)]);
+    });
+
+    it('should end the series when deleting this and following occurrences', () => {
+      const { update } = applyRecurringEventDelete(occurrence, 'following');
+
+      expect(update!.rrule!.until).toEqual(new Date(2025, 0, 20, 9, 59, 59));
+    });
+
+    it('should delete the master when deleting all occurrences', () => {
+      const { update, remove } = applyRecurringEventDelete(occurrence, 'all');
+
+      expect(update).toBeUndefined();
+      expect(remove).toBe(weeklyStandup);
+    });
+  });
+});
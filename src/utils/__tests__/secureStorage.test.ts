@@ -1,6 +1,6 @@
 import { SecureStorage } from '../secureStorage';
 import { EncryptionService } from '../encryption';
-import { AuthConfig } from '../../types/auth';
+import { Account, AuthConfig } from '../../types/auth';
 
 // Mock the EncryptionService
 jest.mock('../encryption');
@@ -192,11 +192,71 @@ describe('SecureStorage', () => {
     });
   });
 
+  describe('storeAccounts', () => {
+    const testAccounts: Account[] = [
+      { id: 'account-1', name: 'Work', config: testCredentials },
+    ];
+
+    it('should store encrypted accounts successfully', async () => {
+      await SecureStorage.storeAccounts(testAccounts, testMasterPassword);
+
+      expect(MockedEncryptionService.encryptCredentials).toHaveBeenCalledWith(
+        testAccounts,
+        testMasterPassword
+      );
+      expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
+        'caldav_accounts',
+        JSON.stringify(mockEncryptedCredentials)
+      );
+    });
+
+    it('should remove stored accounts when the list is empty', async () => {
+      await SecureStorage.storeAccounts([], testMasterPassword);
+
+      expect(MockedEncryptionService.encryptCredentials).not.toHaveBeenCalled();
+      expect(mockLocalStorage.removeItem).toHaveBeenCalledWith('caldav_accounts');
+    });
+  });
+
+  describe('retrieveAccounts', () => {
+    it('should retrieve and decrypt accounts successfully', async () => {
+      const testAccounts: Account[] = [
+        { id: 'account-1', name: 'Work', config: testCredentials },
+      ];
+      mockLocalStorage.getItem.mockReturnValue(JSON.stringify(mockEncryptedCredentials));
+      MockedEncryptionService.decryptCredentials.mockResolvedValue(testAccounts);
+
+      const result = await SecureStorage.retrieveAccounts(testMasterPassword);
+
+      expect(mockLocalStorage.getItem).toHaveBeenCalledWith('caldav_accounts');
+      expect(result).toEqual(testAccounts);
+    });
+
+    it('should return an empty list when no accounts are stored', async () => {
+      mockLocalStorage.getItem.mockReturnValue(null);
+
+      const result = await SecureStorage.retrieveAccounts(testMasterPassword);
+
+      expect(result).toEqual([]);
+      expect(MockedEncryptionService.decryptCredentials).not.toHaveBeenCalled();
+    });
+
+    it('should throw error when decryption fails', async () => {
+      mockLocalStorage.getItem.mockReturnValue(JSON.stringify(mockEncryptedCredentials));
+      MockedEncryptionService.decryptCredentials.mockRejectedValue(new Error('Wrong password'));
+
+      await expect(
+        SecureStorage.retrieveAccounts(testMasterPassword)
+      ).rejects.toThrow('Failed to retrieve accounts: Wrong password');
+    });
+  });
+
   describe('clearCredentials', () => {
     it('should remove credentials and version from localStorage', () => {
       SecureStorage.clearCredentials();
 
       expect(mockLocalStorage.removeItem).toHaveBeenCalledWith('caldav_credentials');
+      expect(mockLocalStorage.removeItem).toHaveBeenCalledWith('caldav_accounts');
       expect(mockLocalStorage.removeItem).toHaveBeenCalledWith('caldav_storage_version');
     });
 
@@ -0,0 +1,62 @@
+import { getChildTasks, getTasksDueOn, isTaskList, moveTask, setTaskCompleted, sortTasks } from '../tasks';
+import { Task } from '../../types/dav';
+
+describe('tasks', () => {
+  const task = (uid: string, fields: Partial<Task> = {}): Task => ({ uid, summary: uid, ...fields });
+
+  it('should treat calendars without a component set as task lists', () => {
+    expect(isTaskList({ url: '/cal/', displayName: 'Any' })).toBe(true);
+    expect(isTaskList({ url: '/cal/', displayName: 'Todo', components: ['VTODO'] })).toBe(true);
+    expect(isTaskList({ url: '/cal/', displayName: 'Events', components: ['VEVENT'] })).toBe(false);
+  });
+
+  it('should sort open tasks by sort order, priority and due date', () => {
+    const tasks = [
+      task('done', { status: 'COMPLETED', sortOrder: 0 }),
+      task('late', { due: new Date(2025, 6, 30) }),
+      task('soon', { due: new Date(2025, 6, 20) }),
+      task('urgent', { priority: 1 }),
+      task('pinned', { sortOrder: 1, priority: 9 }),
+    ];
+
+    expect(sortTasks(tasks).map(t => t.uid)).toEqual(['pinned', 'urgent', 'soon', 'late', 'done']);
+  });
+
+  it('should group subtasks under their parent', () => {
+    const tasks = [
+      task('parent'),
+      task('child', { relatedTo: 'parent' }),
+      task('orphan', { relatedTo: 'missing' }),
+    ];
+
+    expect(getChildTasks(tasks).map(t => t.uid)).toEqual(['orphan', 'parent']);
+    expect(getChildTasks(tasks, 'parent').map(t => t.uid)).toEqual(['child']);
+  });
+
+  it('should complete and reopen a task', () => {
+    const now = new Date('2025-07-20T10:00:00Z');
+    const done = setTaskCompleted(task('a', { status: 'IN-PROCESS', percentComplete: 40 }), true, now);
+
+    expect(done).toMatchObject({ status: 'COMPLETED', percentComplete: 100, completed: now });
+    expect(setTaskCompleted(done, false)).toMatchObject({ status: 'NEEDS-ACTION', percentComplete: 0 });
+    expect(setTaskCompleted(done, false).completed).toBeUndefined();
+  });
+
+  it('should return only the tasks whose sort order changed when moving', () => {
+    const siblings = [task('a', { sortOrder: 0 }), task('b', { sortOrder: 1 }), task('c', { sortOrder: 2 })];
+
+    expect(moveTask(siblings, 'c', -1).map(t => [t.uid, t.sortOrder])).toEqual([['c', 1], ['b', 2]]);
+    expect(moveTask(siblings, 'a', -1)).toEqual([]);
+  });
+
+  it('should find the open tasks due on a day', () => {
+    const tasks = [
+      task('today', { due: new Date(2025, 6, 20, 17, 0) }),
+      task('cancelled', { due: new Date(2025, 6, 20), status: 'CANCELLED' }),
+      task('tomorrow', { due: new Date(2025, 6, 21) }),
+      task('someday'),
+    ];
+
+    expect(getTasksDueOn(tasks, new Date(2025, 6, 20)).map(t => t.uid)).toEqual(['today']);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  formatUtcOffset,
+  getTimeZoneOffset,
+  getTimeZoneTransitions,
+  getZonedDateTime,
+  isValidTimeZone,
+  zonedDateTimeToDate,
+} from '../timezones';
+
+describe('timezones', () => {
+  describe('getZonedDateTime', () => {
+    it('should return the wall-clock time in the given zone', () => {
+      const instant = new Date(Date.UTC(2025, 6, 1, 8, 30));
+
+      expect(getZonedDateTime(instant, 'America/New_York')).toEqual({
+        year: 2025,
+        month: 7,
+        day: 1,
+        hour: 4,
+        minute: 30,
+        second: 0,
+      });
+    });
+  });
+
+  describe('getTimeZoneOffset', () => {
+    it('should follow daylight saving time', () => {
+      expect(getTimeZoneOffset(new Date(Date.UTC(2025, 0, 15)), 'Europe/Berlin')).toBe(60);
+      expect(getTimeZoneOffset(new Date(Date.UTC(2025, 6, 15)), 'Europe/Berlin')).toBe(120);
+      expect(getTimeZoneOffset(new Date(Date.UTC(2025, 6, 15)), 'Asia/Kolkata')).toBe(330);
+    });
+  });
+
+  describe('zonedDateTimeToDate', () => {
+    it('should convert wall-clock times on both sides of a DST change', () => {
+      const winter = zonedDateTimeToDate(
+        { year: 2025, month: 3, day: 29, hour: 10, minute: 0, second: 0 },
+        'Europe/Berlin'
+      );
+      const summer = zonedDateTimeToDate(
+        { year: 2025, month: 3, day: 31, hour: 10, minute: 0, second: 0 },
+        'Europe/Berlin'
+      );
+
+      expect(winter.toISOString()).toBe('2025-03-29T09:00:00.000Z');
+      expect(summer.toISOString()).toBe('2025-03-31T08:00:00.000Z');
+    });
+  });
+
+  describe('getTimeZoneTransitions', () => {
+    it('should find the DST changes of a year', () => {
+      const transitions = getTimeZoneTransitions('America/New_York', 2025);
+
+      expect(transitions).toEqual([
+        { at: new Date('2025-03-09T07:00:00Z'), offsetFrom: -300, offsetTo: -240 },
+        { at: new Date('2025-11-02T06:00:00Z'), offsetFrom: -240, offsetTo: -300 },
+      ]);
+    });
+
+    it('should return nothing for zones without DST', () => {
+      expect(getTimeZoneTransitions('Asia/Tokyo', 2025)).toEqual([]);
+    });
+  });
+
+  it('should format UTC offsets', () => {
+    expect(formatUtcOffset(330)).toBe('+0530');
+    expect(formatUtcOffset(-240)).toBe('-0400');
+  });
+
+  it('should reject unknown zones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Not/AZone')).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import { crc32, createZip, encodeUtf8 } from '../zip';
+
+describe('zip', () => {
+  const readUint32 = (bytes: Uint8Array, offset: number) =>
+    new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, true);
+  const readUint16 = (bytes: Uint8Array, offset: number) =>
+    new DataView(bytes.buffer, bytes.byteOffset).getUint16(offset, true);
+
+  it('should compute the standard CRC-32 check value', () => {
+    expect(crc32(encodeUtf8('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should encode non-ASCII text as UTF-8', () => {
+    expect(Array.from(encodeUtf8('é€😀'))).toEqual([
+      0xc3, 0xa9, 0xe2, 0x82, 0xac, 0xf0, 0x9f, 0x98, 0x80,
+    ]);
+  });
+
+  it('should store each file with a central directory entry', () => {
+    const archive = createZip([
+      { name: 'calendars/Work.ics', content: 'BEGIN:VCALENDAR' },
+      { name: 'contacts/Família.vcf', content: 'BEGIN:VCARD' },
+    ]);
+
+    expect(readUint32(archive, 0)).toBe(0x04034b50);
+    const end = archive.length - 22;
+    expect(readUint32(archive, end)).toBe(0x06054b50);
+    expect(readUint16(archive, end + 10)).toBe(2);
+
+    // The first central directory entry points back at the first file
+    const centralOffset = readUint32(archive, end + 16);
+    expect(readUint32(archive, centralOffset)).toBe(0x02014b50);
+    expect(readUint32(archive, centralOffset + 42)).toBe(0);
+    expect(readUint32(archive, centralOffset + 16)).toBe(crc32(encodeUtf8('BEGIN:VCALENDAR')));
+  });
+});
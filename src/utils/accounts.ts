@@ -0,0 +1,25 @@
+import { Account } from "../types/auth";
+import { AuthManager } from "../services/AuthManager";
+
+export interface AccountGroup<T> {
+  account: Account;
+  items: T[];
+}
+
+/**
+ * Groups calendars or address books by the account they belong to, in the
+ * order of the accounts. Untagged items belong to the primary account.
+ */
+export function groupByAccount<T extends { accountId?: string }>(
+  items: T[],
+  accounts: Account[]
+): AccountGroup<T>[] {
+  return accounts
+    .map((account) => ({
+      account,
+      items: items.filter(
+        (item) => (item.accountId || AuthManager.PRIMARY_ACCOUNT_ID) === account.id
+      ),
+    }))
+    .filter((group) => group.items.length > 0);
+}
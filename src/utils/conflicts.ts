@@ -0,0 +1,230 @@
+import { CalendarEvent, Contact, ContactAddress } from "../types/dav";
+import type { SyncConflict } from "../services/CacheService";
+import { describeRecurrenceRule } from "./recurrence";
+
+export type ConflictChoice = "local" | "server";
+
+/**
+ * A user-visible part of an event or contact that is merged as a whole
+ */
+export interface ConflictField<T> {
+  id: string;
+  label: string;
+  format: (resource: T) => string;
+}
+
+interface ResourceConflictField<T> extends ConflictField<T> {
+  keys: (keyof T)[]; // Properties copied together when this field is chosen
+}
+
+/**
+ * A field whose value differs between the two copies, formatted for display
+ */
+export interface ChangedField {
+  id: string;
+  label: string;
+  local: string;
+  server: string; // Empty when the server copy was deleted
+}
+
+const formatList = (values?: string[]): string =>
+  values && values.length > 0 ? values.join(", ") : "";
+
+const formatEventTime = (event: CalendarEvent): string => {
+  const start = new Date(event.dtstart);
+  const end = new Date(event.dtend);
+  if (event.allDay) {
+    return `${start.toLocaleDateString()} – ${end.toLocaleDateString()} (all day)`;
+  }
+  const zone = event.timezone ? ` (${event.timezone})` : "";
+  return `${start.toLocaleString()} – ${end.toLocaleString()}${zone}`;
+};
+
+const EVENT_FIELDS: ResourceConflictField<CalendarEvent>[] = [
+  { id: "summary", label: "Title", keys: ["summary"], format: (e) => e.summary || "" },
+  {
+    id: "time",
+    label: "Time",
+    keys: ["dtstart", "dtend", "allDay", "timezone"],
+    format: formatEventTime,
+  },
+  { id: "location", label: "Location", keys: ["location"], format: (e) => e.location || "" },
+  {
+    id: "description",
+    label: "Description",
+    keys: ["description"],
+    format: (e) => e.description || "",
+  },
+  {
+    id: "recurrence",
+    label: "Repeats",
+    keys: ["rrule", "exdates", "overrides"],
+    format: (e) =>
+      e.rrule
+        ? `${describeRecurrenceRule(e.rrule)}${
+            e.exdates?.length ? `, ${e.exdates.length} skipped` : ""
+          }${e.overrides?.length ? `, ${e.overrides.length} changed` : ""}`
+        : "",
+  },
+  {
+    id: "alarms",
+    label: "Reminders",
+    keys: ["alarms"],
+    format: (e) =>
+      formatList((e.alarms || []).map((alarm) => `${alarm.minutesBefore} min before`)),
+  },
+  {
+    id: "attendees",
+    label: "Attendees",
+    keys: ["organizer", "attendees"],
+    format: (e) =>
+      formatList(
+        (e.attendees || []).map((attendee) =>
+          attendee.partstat ? `${attendee.email} (${attendee.partstat})` : attendee.email
+        )
+      ),
+  },
+];
+
+const formatTypedList = (values?: string[], types?: string[]): string =>
+  formatList(values?.map((value, index) => (types?.[index] ? `${value} (${types[index]})` : value)));
+
+const formatAddress = (address: ContactAddress): string =>
+  [address.street, address.postalCode, address.locality, address.region, address.country]
+    .filter(Boolean)
+    .join(" ");
+
+const CONTACT_FIELDS: ResourceConflictField<Contact>[] = [
+  {
+    id: "fn",
+    label: "Name",
+    keys: ["fn", "firstName", "lastName", "nickname"],
+    format: (c) => (c.nickname ? `${c.fn || ""} "${c.nickname}"` : c.fn || ""),
+  },
+  {
+    id: "org",
+    label: "Organization",
+    keys: ["org", "title", "role"],
+    format: (c) => [c.title, c.role, c.org].filter(Boolean).join(", "),
+  },
+  {
+    id: "email",
+    label: "Email",
+    keys: ["email", "emailTypes"],
+    format: (c) => formatTypedList(c.email, c.emailTypes),
+  },
+  {
+    id: "tel",
+    label: "Phone",
+    keys: ["tel", "telTypes"],
+    format: (c) => formatTypedList(c.tel, c.telTypes),
+  },
+  {
+    id: "adr",
+    label: "Address",
+    keys: ["adr"],
+    format: (c) => (c.adr || []).map(formatAddress).join("; "),
+  },
+  {
+    id: "dates",
+    label: "Dates",
+    keys: ["bday", "anniversary"],
+    format: (c) =>
+      formatList(
+        [c.bday && `Birthday ${c.bday}`, c.anniversary && `Anniversary ${c.anniversary}`].filter(
+          (date): date is string => !!date
+        )
+      ),
+  },
+  {
+    id: "links",
+    label: "Web & chat",
+    keys: ["url", "impp"],
+    format: (c) => formatList([...(c.url || []), ...(c.impp || [])]),
+  },
+  { id: "note", label: "Note", keys: ["note"], format: (c) => c.note || "" },
+  {
+    id: "photo",
+    label: "Photo",
+    keys: ["photo"],
+    // Photos are compared by content but only described
+    format: (c) => (c.photo ? `Photo (${c.photo.length} bytes)` : ""),
+  },
+];
+
+/**
+ * Returns the mergeable fields of an event or contact
+ */
+export function getConflictFields(
+  resourceType: SyncConflict["resourceType"]
+): ConflictField<CalendarEvent>[] | ConflictField<Contact>[] {
+  return resourceType === "event" ? EVENT_FIELDS : CONTACT_FIELDS;
+}
+
+const getChangedFieldsOf = <T>(
+  fields: ResourceConflictField<T>[],
+  local: T,
+  server: T | null
+): ChangedField[] =>
+  fields
+    .filter((field) => {
+      if (!server) {
+        return !!field.format(local);
+      }
+      return field.keys.some(
+        (key) => JSON.stringify(local[key] ?? null) !== JSON.stringify(server[key] ?? null)
+      );
+    })
+    .map((field) => ({
+      id: field.id,
+      label: field.label,
+      local: field.format(local),
+      server: server ? field.format(server) : "",
+    }));
+
+const mergeFields = <T>(
+  fields: ResourceConflictField<T>[],
+  local: T,
+  server: T,
+  choices: Record<string, ConflictChoice>
+): T => {
+  const merged = { ...server };
+  for (const field of fields) {
+    if (choices[field.id] !== "local") {
+      continue;
+    }
+    for (const key of field.keys) {
+      merged[key] = local[key];
+    }
+  }
+  return merged;
+};
+
+/**
+ * Returns the fields whose values differ between the local and server copy
+ */
+export function getChangedFields(conflict: SyncConflict): ChangedField[] {
+  const { local, server } = conflict;
+  return conflict.resourceType === "event"
+    ? getChangedFieldsOf(EVENT_FIELDS, local as CalendarEvent, server as CalendarEvent | null)
+    : getChangedFieldsOf(CONTACT_FIELDS, local as Contact, server as Contact | null);
+}
+
+/**
+ * Builds the merged version from the server copy, taking the fields chosen as
+ * "local" from our version. Keeps the server ETag and href so the result can be
+ * written over the server copy.
+ */
+export function mergeConflict(
+  conflict: SyncConflict,
+  choices: Record<string, ConflictChoice>
+): CalendarEvent | Contact {
+  const { local, server } = conflict;
+  if (!server) {
+    return { ...local, etag: undefined };
+  }
+
+  return conflict.resourceType === "event"
+    ? mergeFields(EVENT_FIELDS, local as CalendarEvent, server as CalendarEvent, choices)
+    : mergeFields(CONTACT_FIELDS, local as Contact, server as Contact, choices);
+}
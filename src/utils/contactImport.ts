@@ -0,0 +1,207 @@
+import { Contact, ContactAddress } from '../types/dav';
+
+/**
+ * Contact fields a CSV column can be mapped to
+ */
+export type ContactImportField = 'fn' | 'firstName' | 'lastName' | 'email' | 'tel' | 'org';
+
+/**
+ * The field each CSV column is read into, or null for columns to ignore
+ */
+export type CsvColumnMapping = (ContactImportField | null)[];
+
+export const CONTACT_IMPORT_FIELDS: { field: ContactImportField; label: string }[] = [
+  { field: 'fn', label: 'Full name' },
+  { field: 'firstName', label: 'First name' },
+  { field: 'lastName', label: 'Last name' },
+  { field: 'email', label: 'Email' },
+  { field: 'tel', label: 'Phone' },
+  { field: 'org', label: 'Organization' },
+];
+
+// Columns describing another column (Google's "E-mail 1 - Type", Outlook's
+// "E-mail Display Name") or holding data we have no field for
+const IGNORED_HEADER = /type|label|display name|title|department|job|notes?$/i;
+
+// Header names used by Outlook, Google Contacts and common CRM exports
+const HEADER_PATTERNS: [ContactImportField, RegExp][] = [
+  ['firstName', /^(first|given|fore)[ _-]?name$|^first$|^vorname$/i],
+  ['lastName', /^(last|family|sur)[ _-]?name$|^last$|^nachname$/i],
+  ['fn', /^(full[ _-]?|contact[ _-]?)?name$/i],
+  ['email', /e-?mail/i],
+  ['tel', /\b(phone|mobile|tel(ephone)?|fax|cell)\b/i],
+  ['org', /\b(company|organi[sz]ation|org|account|employer)\b/i],
+];
+
+/**
+ * Suggests a field for each CSV column from its header
+ */
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  return headers.map(header => {
+    const name = header.trim();
+    if (!name || IGNORED_HEADER.test(name)) {
+      return null;
+    }
+    const match = HEADER_PATTERNS.find(([, pattern]) => pattern.test(name));
+    return match ? match[0] : null;
+  });
+}
+
+/**
+ * Builds a contact from a CSV row. Email and phone columns add to a list, so
+ * "Home Phone" and "Mobile Phone" both end up on the contact. Returns null for
+ * rows with nothing to identify the contact by.
+ */
+export function contactFromCsvRow(row: string[], mapping: CsvColumnMapping): Contact | null {
+  const contact: Contact = { uid: '', fn: '' };
+
+  mapping.forEach((field, column) => {
+    const value = (row[column] || '').trim();
+    if (!field || !value) return;
+
+    if (field === 'email' || field === 'tel') {
+      // Google Contacts joins several values of one column with " ::: "
+      const values = value.split(/\s*:::\s*/).filter(Boolean);
+      contact[field] = [...(contact[field] || []), ...values];
+    } else if (!contact[field]) {
+      contact[field] = value;
+    }
+  });
+
+  contact.fn =
+    contact.fn ||
+    [contact.firstName, contact.lastName].filter(Boolean).join(' ') ||
+    contact.org ||
+    contact.email?.[0] ||
+    '';
+
+  return contact.fn ? contact : null;
+}
+
+const emailKey = (email: string): string => email.trim().toLowerCase();
+
+// Compares the last nine digits so "+49 30 1234567" matches "030 1234567"
+const phoneKey = (tel: string): string | null => {
+  const digits = tel.replace(/\D/g, '');
+  return digits.length >= 6 ? digits.slice(-9) : null;
+};
+
+const nameKey = (contact: Contact): string | null => {
+  const name = contact.fn.trim().replace(/\s+/g, ' ').toLowerCase();
+  return name && name !== 'unnamed contact' ? name : null;
+};
+
+/**
+ * Indexes existing contacts by UID, email, phone and name, and returns a
+ * lookup for the existing contact an imported one most likely duplicates.
+ * A shared UID is the strongest match, then email, phone and name.
+ */
+export function createDuplicateFinder(existing: Contact[]): (contact: Contact) => Contact | undefined {
+  const byUid = new Map<string, Contact>();
+  const byEmail = new Map<string, Contact>();
+  const byPhone = new Map<string, Contact>();
+  const byName = new Map<string, Contact>();
+
+  existing.forEach(contact => {
+    if (contact.uid) byUid.set(contact.uid, contact);
+    contact.email?.forEach(email => byEmail.set(emailKey(email), contact));
+    contact.tel?.forEach(tel => {
+      const key = phoneKey(tel);
+      if (key) byPhone.set(key, contact);
+    });
+    const name = nameKey(contact);
+    if (name) byName.set(name, contact);
+  });
+
+  return (contact: Contact) => {
+    const sameUid = byUid.get(contact.uid);
+    if (sameUid) return sameUid;
+    for (const email of contact.email || []) {
+      const match = byEmail.get(emailKey(email));
+      if (match) return match;
+    }
+    for (const tel of contact.tel || []) {
+      const key = phoneKey(tel);
+      const match = key ? byPhone.get(key) : undefined;
+      if (match) return match;
+    }
+    const name = nameKey(contact);
+    return name ? byName.get(name) : undefined;
+  };
+}
+
+/**
+ * Adds the values of a typed list (emails, phone numbers) that are not in it
+ * yet, keeping each type next to its value
+ */
+function unionTyped(
+  current: string[] = [],
+  currentTypes: string[] = [],
+  added: string[] = [],
+  addedTypes: string[] = [],
+  key: (value: string) => string | null
+): { values?: string[]; types?: string[] } {
+  const seen = new Set(current.map(value => key(value) || value));
+  const values = [...current];
+  const types = current.map((_value, index) => currentTypes[index] || '');
+
+  added.forEach((value, index) => {
+    const valueKey = key(value) || value;
+    if (!seen.has(valueKey)) {
+      seen.add(valueKey);
+      values.push(value);
+      types.push(addedTypes[index] || '');
+    }
+  });
+
+  return {
+    values: values.length > 0 ? values : undefined,
+    types: types.some(Boolean) ? types : undefined,
+  };
+}
+
+const union = (current: string[] = [], added: string[] = []): string[] | undefined => {
+  const merged = [...current, ...added.filter(value => current.indexOf(value) < 0)];
+  return merged.length > 0 ? merged : undefined;
+};
+
+/**
+ * Combines an imported contact into an existing one: fields the existing
+ * contact lacks are filled in, and new emails, phone numbers, addresses and
+ * links are added. Keeps the existing UID, ETag and href so the result
+ * updates it in place.
+ */
+export function mergeContacts(existing: Contact, imported: Contact): Contact {
+  const emails = unionTyped(existing.email, existing.emailTypes, imported.email, imported.emailTypes, emailKey);
+  const phones = unionTyped(existing.tel, existing.telTypes, imported.tel, imported.telTypes, phoneKey);
+  const addressKey = (address: ContactAddress) =>
+    [address.street, address.locality, address.postalCode].join('|').toLowerCase();
+  const addresses = [
+    ...(existing.adr || []),
+    ...(imported.adr || []).filter(address =>
+      !(existing.adr || []).some(current => addressKey(current) === addressKey(address))
+    ),
+  ];
+
+  return {
+    ...existing,
+    fn: nameKey(existing) ? existing.fn : imported.fn,
+    firstName: existing.firstName || imported.firstName,
+    lastName: existing.lastName || imported.lastName,
+    nickname: existing.nickname || imported.nickname,
+    org: existing.org || imported.org,
+    title: existing.title || imported.title,
+    role: existing.role || imported.role,
+    bday: existing.bday || imported.bday,
+    anniversary: existing.anniversary || imported.anniversary,
+    note: existing.note || imported.note,
+    photo: existing.photo || imported.photo,
+    email: emails.values,
+    emailTypes: emails.types,
+    tel: phones.values,
+    telTypes: phones.types,
+    adr: addresses.length > 0 ? addresses : undefined,
+    url: union(existing.url, imported.url),
+    impp: union(existing.impp, imported.impp),
+  };
+}
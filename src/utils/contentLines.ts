@@ -0,0 +1,157 @@
+/**
+ * A component of an iCalendar or vCard object (e.g. VCALENDAR, VEVENT, VALARM
+ * or VCARD) with its property lines and subcomponents in their original order.
+ * Property lines keep their original folding, so untouched lines are written
+ * back byte for byte.
+ */
+export interface ContentComponent {
+  name: string;
+  children: ContentChild[];
+}
+
+export type ContentChild = string | ContentComponent;
+
+/**
+ * Returns the upper-case name of a property line, without its group prefix
+ * (e.g. "EMAIL" for "item1.EMAIL;TYPE=WORK:jane@example.com")
+ */
+export function getPropertyName(line: string): string {
+  const name = line.split(/[;:]/, 1)[0];
+  return name.substring(name.lastIndexOf('.') + 1).trim().toUpperCase();
+}
+
+/**
+ * Returns the unfolded value of a property line, i.e. everything after the
+ * first colon outside a quoted parameter value
+ */
+export function getPropertyValue(line: string): string {
+  const unfolded = line.replace(/\r?\n[ \t]/g, '');
+  let inQuotes = false;
+
+  for (let i = 0; i < unfolded.length; i++) {
+    const char = unfolded.charAt(i);
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ':' && !inQuotes) {
+      return unfolded.substring(i + 1);
+    }
+  }
+  return '';
+}
+
+/**
+ * Returns the value of a parameter of a property line without its quotes
+ * (e.g. "BUSY" for the FBTYPE of "FREEBUSY;FBTYPE=BUSY:...")
+ */
+export function getPropertyParameter(line: string, name: string): string | undefined {
+  const unfolded = line.replace(/\r?\n[ \t]/g, '');
+  const header = unfolded.substring(0, unfolded.length - getPropertyValue(unfolded).length);
+  const match = header.match(new RegExp(`;${name}=("[^"]*"|[^;:]*)`, 'i'));
+  return match ? match[1].replace(/^"|"$/g, '') : undefined;
+}
+
+const getChildName = (child: ContentChild): string =>
+  typeof child === 'string' ? getPropertyName(child) : child.name;
+
+/**
+ * Returns the value of the first property with the given name in a component
+ */
+export function getComponentProperty(component: ContentComponent, name: string): string | undefined {
+  const line = component.children.find(
+    child => typeof child === 'string' && getPropertyName(child) === name
+  );
+  return typeof line === 'string' ? getPropertyValue(line).trim() : undefined;
+}
+
+/**
+ * Splits iCalendar or vCard text into its top-level components. Folded lines
+ * and vCard 2.1 quoted-printable soft line breaks are kept together with the
+ * line they continue.
+ */
+export function parseContentComponents(text: string): ContentComponent[] {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const previous = lines[lines.length - 1];
+    const isFolded = /^[ \t]/.test(line);
+    const isSoftBreak =
+      previous !== undefined &&
+      /=$/.test(previous) &&
+      /QUOTED-PRINTABLE/i.test(previous.split(':', 1)[0]);
+
+    if (previous !== undefined && (isFolded || isSoftBreak)) {
+      lines[lines.length - 1] = `${previous}\r\n${line}`;
+    } else if (line.trim() !== '') {
+      lines.push(line);
+    }
+  });
+
+  const roots: ContentComponent[] = [];
+  const stack: ContentComponent[] = [];
+
+  lines.forEach(line => {
+    const name = getPropertyName(line);
+    const parent = stack[stack.length - 1];
+
+    if (name === 'BEGIN') {
+      const component: ContentComponent = {
+        name: getPropertyValue(line).trim().toUpperCase(),
+        children: [],
+      };
+      if (parent) {
+        parent.children.push(component);
+      } else {
+        roots.push(component);
+      }
+      stack.push(component);
+    } else if (name === 'END') {
+      stack.pop();
+    } else if (parent) {
+      parent.children.push(line);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * Writes a component back as text with CRLF line endings
+ */
+export function serializeContentComponent(component: ContentComponent): string {
+  const body = component.children
+    .map(child => (typeof child === 'string' ? `${child}\r\n` : serializeContentComponent(child)))
+    .join('');
+  return `BEGIN:${component.name}\r\n${body}END:${component.name}\r\n`;
+}
+
+/**
+ * Replaces the properties and subcomponents with the given names in the
+ * original component by those of the generated one. Replacements take the
+ * place of the first line they replace and are added at the end when the
+ * original had none; everything else stays as it was.
+ */
+export function patchContentComponent(
+  original: ContentComponent,
+  generated: ContentComponent,
+  names: string[]
+): ContentComponent {
+  const replacementsFor = (name: string) =>
+    generated.children.filter(child => getChildName(child) === name);
+  const inserted = new Set<string>();
+  const children: ContentChild[] = [];
+
+  original.children.forEach(child => {
+    const name = getChildName(child);
+    if (names.indexOf(name) < 0) {
+      children.push(child);
+    } else if (!inserted.has(name)) {
+      inserted.add(name);
+      children.push(...replacementsFor(name));
+    }
+  });
+
+  names
+    .filter(name => !inserted.has(name))
+    .forEach(name => children.push(...replacementsFor(name)));
+
+  return { ...original, children };
+}
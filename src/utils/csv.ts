@@ -0,0 +1,81 @@
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Picks the delimiter used most often in the first line, outside quotes.
+ * Spreadsheets in some locales export with ";" or tabs instead of ",".
+ */
+function detectDelimiter(text: string): string {
+  const counts: Record<string, number> = {};
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && DELIMITERS.indexOf(char) >= 0) {
+      counts[char] = (counts[char] || 0) + 1;
+    }
+  }
+
+  return DELIMITERS.reduce((best, delimiter) =>
+    (counts[delimiter] || 0) > (counts[best] || 0) ? delimiter : best
+  );
+}
+
+/**
+ * Splits CSV text into rows of fields, following RFC 4180 quoting. Quoted
+ * fields may hold delimiters, doubled quotes and line breaks. Empty lines
+ * are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const data = text.charAt(0) === '\uFEFF' ? text.substring(1) : text;
+  const delimiter = detectDelimiter(data);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < data.length; i++) {
+    const char = data.charAt(i);
+
+    if (inQuotes) {
+      if (char === '"' && data.charAt(i + 1) === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && data.charAt(i + 1) === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -0,0 +1,19 @@
+import type { ExportFile } from '../services/ExportService';
+
+/**
+ * Hands a generated file to the browser as a download
+ */
+export function downloadFile(file: ExportFile): void {
+  const blob = new Blob([file.data], { type: file.type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before releasing it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -59,8 +59,8 @@ export class EncryptionService {
   /**
    * Encrypts credential data using AES-GCM
    */
-  static async encryptCredentials(
-    credentials: AuthConfig,
+  static async encryptCredentials<T = AuthConfig>(
+    credentials: T,
     masterPassword: string
   ): Promise<EncryptedCredentials> {
     try {
@@ -98,10 +98,10 @@ export class EncryptionService {
   /**
    * Decrypts credential data using AES-GCM
    */
-  static async decryptCredentials(
+  static async decryptCredentials<T = AuthConfig>(
     encryptedCredentials: EncryptedCredentials,
     masterPassword: string
-  ): Promise<AuthConfig> {
+  ): Promise<T> {
     try {
       const combined = this.base64ToArrayBuffer(encryptedCredentials.data);
       
@@ -124,7 +124,7 @@ export class EncryptionService {
       const decoder = new TextDecoder();
       const jsonString = decoder.decode(decryptedData);
       
-      return JSON.parse(jsonString) as AuthConfig;
+      return JSON.parse(jsonString) as T;
     } catch (error) {
       throw new Error(`Decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
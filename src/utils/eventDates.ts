@@ -0,0 +1,194 @@
+import { CalendarEvent } from "../types/dav";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AllDaySegment {
+  event: CalendarEvent;
+  startIndex: number; // Index of the first visible day covered by the event
+  span: number; // Number of visible days covered
+  lane: number; // Row within the all-day band
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+export interface TimedEventLayout {
+  event: CalendarEvent;
+  startMinutes: number; // Minutes from midnight of the day
+  endMinutes: number;
+  column: number; // Column within its group of overlapping events
+  columns: number; // Number of columns the group is split into
+}
+
+/**
+ * Returns local midnight of the given date
+ */
+export function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+/**
+ * Adds a number of calendar days, keeping the local time of day
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Checks whether an event is a date-only (all-day) event
+ */
+export function isAllDayEvent(event: CalendarEvent): boolean {
+  return !!event.allDay;
+}
+
+/**
+ * Checks whether an event covers more than one calendar day
+ */
+export function isMultiDayEvent(event: CalendarEvent): boolean {
+  const start = new Date(event.dtstart);
+  // DTEND is exclusive, so an event ending at midnight does not cover that day
+  const lastMoment = new Date(Math.max(start.getTime(), new Date(event.dtend).getTime() - 1));
+  return startOfDay(start).getTime() !== startOfDay(lastMoment).getTime();
+}
+
+/**
+ * Checks whether an event belongs in the all-day band rather than the time grid
+ */
+export function isAllDayBandEvent(event: CalendarEvent): boolean {
+  return isAllDayEvent(event) || isMultiDayEvent(event);
+}
+
+/**
+ * Checks whether an event covers any part of the given calendar day
+ */
+export function eventOccursOnDate(event: CalendarEvent, date: Date): boolean {
+  const dayStart = startOfDay(date);
+  const dayEnd = addDays(dayStart, 1);
+  const start = new Date(event.dtstart);
+  const end = new Date(event.dtend);
+
+  if (end.getTime() <= start.getTime()) {
+    return start >= dayStart && start < dayEnd;
+  }
+  return start < dayEnd && end > dayStart;
+}
+
+/**
+ * Lays out all-day and multi-day events as bars spanning a row of consecutive days.
+ * Longer events get the upper lanes so bars stack the same way in every cell.
+ */
+export function layoutAllDaySegments(
+  events: CalendarEvent[],
+  days: Date[]
+): AllDaySegment[] {
+  if (days.length === 0) return [];
+
+  const rangeStart = startOfDay(days[0]);
+  const rangeEnd = addDays(startOfDay(days[days.length - 1]), 1);
+  const dayIndex = (date: Date) =>
+    Math.round((startOfDay(date).getTime() - rangeStart.getTime()) / DAY_MS);
+
+  const candidates = events
+    .filter(isAllDayBandEvent)
+    .filter((event) => new Date(event.dtstart) < rangeEnd && new Date(event.dtend) > rangeStart)
+    .map((event) => {
+      const start = new Date(event.dtstart);
+      const lastMoment = new Date(
+        Math.max(start.getTime(), new Date(event.dtend).getTime() - 1)
+      );
+      const first = dayIndex(start);
+      const last = dayIndex(lastMoment);
+      const startIndex = Math.max(0, first);
+      const endIndex = Math.min(days.length - 1, last);
+      return {
+        event,
+        startIndex,
+        span: endIndex - startIndex + 1,
+        continuesBefore: first < 0,
+        continuesAfter: last > days.length - 1,
+        length: last - first,
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.startIndex - b.startIndex ||
+        b.length - a.length ||
+        a.event.summary.localeCompare(b.event.summary)
+    );
+
+  // Greedily place each bar in the first lane that is free for its days
+  const laneEnds: number[] = [];
+  return candidates.map(({ length, ...segment }) => {
+    let lane = laneEnds.findIndex((end) => end < segment.startIndex);
+    if (lane === -1) {
+      lane = laneEnds.length;
+    }
+    laneEnds[lane] = segment.startIndex + segment.span - 1;
+    return { ...segment, lane };
+  });
+}
+
+/**
+ * Returns the number of lanes used by a set of all-day segments
+ */
+export function countAllDayLanes(segments: AllDaySegment[]): number {
+  return segments.reduce((lanes, segment) => Math.max(lanes, segment.lane + 1), 0);
+}
+
+// Shortest event height used when packing, so zero-length events get a column too
+const MIN_LAYOUT_MINUTES = 15;
+
+/**
+ * Lays out the timed single-day events of a day for a time grid. Overlapping
+ * events are grouped and each is packed into the first column free at its
+ * start, so they share the width of the day side by side.
+ */
+export function layoutTimedEvents(events: CalendarEvent[], day: Date): TimedEventLayout[] {
+  const dayStart = startOfDay(day).getTime();
+  const toMinutes = (date: Date) =>
+    Math.min(Math.max((new Date(date).getTime() - dayStart) / 60000, 0), 24 * 60);
+
+  const items = events
+    .filter((event) => !isAllDayBandEvent(event) && eventOccursOnDate(event, day))
+    .map((event) => {
+      const startMinutes = toMinutes(event.dtstart);
+      return {
+        event,
+        startMinutes,
+        endMinutes: Math.max(toMinutes(event.dtend), startMinutes),
+        column: 0,
+        columns: 1,
+      };
+    })
+    .sort((a, b) => a.startMinutes - b.startMinutes || b.endMinutes - a.endMinutes);
+
+  let group: TimedEventLayout[] = [];
+  let groupEnd = -Infinity;
+  let columnEnds: number[] = [];
+  const closeGroup = () => {
+    group.forEach((layout) => (layout.columns = columnEnds.length));
+    group = [];
+    columnEnds = [];
+  };
+
+  items.forEach((layout) => {
+    if (layout.startMinutes >= groupEnd) {
+      closeGroup();
+    }
+    const end = Math.max(layout.endMinutes, layout.startMinutes + MIN_LAYOUT_MINUTES);
+    let column = columnEnds.findIndex((columnEnd) => columnEnd <= layout.startMinutes);
+    if (column === -1) {
+      column = columnEnds.length;
+    }
+    columnEnds[column] = end;
+    layout.column = column;
+    group.push(layout);
+    groupEnd = Math.max(groupEnd, end);
+  });
+  closeGroup();
+
+  return items;
+}
@@ -0,0 +1,51 @@
+import { CalendarEvent, DateRange } from "../types/dav";
+import { addDays, eventOccursOnDate, startOfDay } from "./eventDates";
+
+/**
+ * Number of events on each day, per calendar URL, keyed by local date
+ * (see getDayKey). Overviews spanning months keep only these counts rather
+ * than the events themselves.
+ */
+export type EventDensity = Record<string, Record<string, number>>;
+
+// Day counts at or above these thresholds get the next shade
+const DENSITY_THRESHOLDS = [1, 2, 4, 7];
+
+/**
+ * Local calendar date of a day, e.g. "2025-01-06"
+ */
+export function getDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Counts events on every day of the range they cover, under the calendar
+ * they belong to. Days outside the range are left out.
+ */
+export function addEventsToDensity(
+  density: EventDensity,
+  events: CalendarEvent[],
+  range: DateRange,
+  calendarUrl: string
+): void {
+  const lastDay = startOfDay(range.end);
+  events.forEach((event) => {
+    const first = new Date(
+      Math.max(startOfDay(new Date(event.dtstart)).getTime(), startOfDay(range.start).getTime())
+    );
+    for (let day = first; day <= lastDay && eventOccursOnDate(event, day); day = addDays(day, 1)) {
+      const key = getDayKey(day);
+      const counts = density[key] || (density[key] = {});
+      counts[calendarUrl] = (counts[calendarUrl] || 0) + 1;
+    }
+  });
+}
+
+/**
+ * Shade (0 to 4) of a day with the given number of events
+ */
+export function getDensityLevel(count: number): number {
+  return DENSITY_THRESHOLDS.filter((threshold) => count >= threshold).length;
+}
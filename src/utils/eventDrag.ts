@@ -0,0 +1,116 @@
+import { CalendarEvent } from "../types/dav";
+import { addDays, startOfDay } from "./eventDates";
+
+// Data type of an event dragged out of a calendar view, e.g. onto a calendar in the sidebar
+export const EVENT_DRAG_TYPE = "application/x-clowd-dav-event";
+
+export interface DraggedEvent {
+  uid: string;
+  calendarUrl?: string;
+}
+
+export function setDraggedEvent(dataTransfer: DataTransfer, event: CalendarEvent): void {
+  const dragged: DraggedEvent = { uid: event.uid, calendarUrl: event.calendarUrl };
+  dataTransfer.setData(EVENT_DRAG_TYPE, JSON.stringify(dragged));
+  dataTransfer.effectAllowed = "copyMove";
+}
+
+/**
+ * Whether an event is being dragged. Only the data types can be read until
+ * the drop.
+ */
+export function isEventDrag(dataTransfer: DataTransfer): boolean {
+  return Array.from(dataTransfer.types).includes(EVENT_DRAG_TYPE);
+}
+
+export function getDraggedEvent(dataTransfer: DataTransfer): DraggedEvent | null {
+  try {
+    const dragged = JSON.parse(dataTransfer.getData(EVENT_DRAG_TYPE));
+    return typeof dragged?.uid === "string" ? dragged : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Dropping with Ctrl (or Option on macOS) held copies instead of moving
+ */
+export function isCopyDrop(event: { ctrlKey: boolean; altKey: boolean }): boolean {
+  return event.ctrlKey || event.altKey;
+}
+
+// Dragged and resized events and selected time ranges snap to quarter hours
+export const SNAP_MINUTES = 15;
+
+export interface EventTimes {
+  dtstart: Date;
+  dtend: Date;
+}
+
+/**
+ * Rounds a time to the nearest snap interval
+ */
+export function snapTime(date: Date): Date {
+  const minutes = date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+  const snapped = startOfDay(date);
+  snapped.setMinutes(Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES);
+  return snapped;
+}
+
+/**
+ * Snapped time at a fraction (0 to 1) of the way through a day, e.g. where
+ * the pointer is within a day column of the time grid
+ */
+export function getDayTime(day: Date, fraction: number): Date {
+  const time = startOfDay(day);
+  time.setMinutes(Math.min(Math.max(fraction, 0), 1) * 24 * 60);
+  return snapTime(time);
+}
+
+/**
+ * Moves an event to start at the given time, keeping its duration
+ */
+export function moveEventTo(event: CalendarEvent, dtstart: Date): EventTimes {
+  const duration = new Date(event.dtend).getTime() - new Date(event.dtstart).getTime();
+  return { dtstart, dtend: new Date(dtstart.getTime() + duration) };
+}
+
+/**
+ * Moves an event to another day, keeping its times of day
+ */
+export function moveEventToDay(event: CalendarEvent, day: Date): EventTimes {
+  const start = new Date(event.dtstart);
+  const days = Math.round(
+    (startOfDay(day).getTime() - startOfDay(start).getTime()) / (24 * 60 * 60 * 1000)
+  );
+  return { dtstart: addDays(start, days), dtend: addDays(new Date(event.dtend), days) };
+}
+
+/**
+ * Ends an event at the given time, keeping it at least one snap interval long
+ */
+export function resizeEventTo(event: CalendarEvent, dtend: Date): EventTimes {
+  const dtstart = new Date(event.dtstart);
+  const minimumEnd = dtstart.getTime() + SNAP_MINUTES * 60 * 1000;
+  return { dtstart, dtend: new Date(Math.max(dtend.getTime(), minimumEnd)) };
+}
+
+/**
+ * Time range selected by dragging from one snapped time to another, in
+ * either direction and at least one snap interval long
+ */
+export function getSelectedRange(anchor: Date, pointer: Date): EventTimes {
+  const [dtstart, end] = anchor <= pointer ? [anchor, pointer] : [pointer, anchor];
+  const minimumEnd = dtstart.getTime() + SNAP_MINUTES * 60 * 1000;
+  return { dtstart, dtend: new Date(Math.max(end.getTime(), minimumEnd)) };
+}
+
+/**
+ * Swallows the click that follows releasing the pointer after a drag, so it
+ * does not also open or create an event
+ */
+export function suppressNextClick(): void {
+  const suppress = (event: MouseEvent) => event.stopPropagation();
+  window.addEventListener("click", suppress, true);
+  setTimeout(() => window.removeEventListener("click", suppress, true), 0);
+}
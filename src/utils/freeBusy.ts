@@ -0,0 +1,81 @@
+import { BusyPeriod } from '../types/dav';
+
+/**
+ * Days (0 = Sunday) and local times, in minutes after midnight, in which
+ * meetings may be suggested
+ */
+export interface WorkingHours {
+  days: number[];
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  days: [1, 2, 3, 4, 5],
+  start: 9 * 60,
+  end: 17 * 60,
+};
+
+// Suggested slots start on the quarter hour
+const SLOT_STEP_MINUTES = 15;
+
+/**
+ * Combines overlapping and adjacent busy periods into one, ignoring their type
+ */
+export function mergeBusyPeriods(busy: BusyPeriod[]): BusyPeriod[] {
+  const sorted = [...busy].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: BusyPeriod[] = [];
+
+  sorted.forEach(period => {
+    const last = merged[merged.length - 1];
+    if (last && period.start <= last.end) {
+      if (period.end > last.end) {
+        merged[merged.length - 1] = { ...last, end: period.end };
+      }
+    } else {
+      merged.push(period);
+    }
+  });
+  return merged;
+}
+
+export function isSlotFree(busy: BusyPeriod[], start: Date, end: Date): boolean {
+  return !busy.some(period => period.start < end && period.end > start);
+}
+
+const isWithinWorkingHours = (start: Date, end: Date, workingHours: WorkingHours): boolean => {
+  const startMinutes = start.getHours() * 60 + start.getMinutes();
+  const dayStart = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  const endMinutes = (end.getTime() - dayStart.getTime()) / 60000;
+
+  return (
+    workingHours.days.indexOf(start.getDay()) >= 0 &&
+    startMinutes >= workingHours.start &&
+    endMinutes <= workingHours.end
+  );
+};
+
+/**
+ * Finds the first slot of the given length, starting no earlier than `after`
+ * and before `until`, that lies within working hours and overlaps none of the
+ * busy periods. Returns null when there is none.
+ */
+export function findNextFreeSlot(
+  busy: BusyPeriod[],
+  durationMs: number,
+  after: Date,
+  workingHours: WorkingHours,
+  until: Date
+): { start: Date; end: Date } | null {
+  const stepMs = SLOT_STEP_MINUTES * 60000;
+  const start = new Date(Math.ceil(after.getTime() / stepMs) * stepMs);
+
+  while (start.getTime() + durationMs <= until.getTime()) {
+    const end = new Date(start.getTime() + durationMs);
+    if (isWithinWorkingHours(start, end, workingHours) && isSlotFree(busy, start, end)) {
+      return { start: new Date(start), end };
+    }
+    start.setTime(start.getTime() + stepMs);
+  }
+  return null;
+}
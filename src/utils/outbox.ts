@@ -0,0 +1,107 @@
+import { CalendarEvent, Contact, Task } from "../types/dav";
+import type { PendingOperation } from "../services/CacheService";
+
+// Automatic replays before an operation is parked as failed
+export const MAX_OPERATION_ATTEMPTS = 6;
+
+const BASE_RETRY_DELAY = 30 * 1000;
+const MAX_RETRY_DELAY = 60 * 60 * 1000;
+
+// Collections are written before the items inside them
+const RESOURCE_ORDER: Record<PendingOperation["resourceType"], number> = {
+  calendar: 0,
+  addressbook: 0,
+  event: 1,
+  contact: 1,
+  task: 1,
+};
+
+/**
+ * Identifies the server resource an operation writes to: the collection
+ * itself, or an item in it by UID. A move or copy is also identified by its
+ * target, so it is never folded into a write of the item.
+ */
+export function getOperationKey(
+  operation: Pick<PendingOperation, "resourceType" | "resourceUrl" | "data"> &
+    Partial<Pick<PendingOperation, "type" | "targetUrl">>
+): string {
+  const uid = (operation.data as CalendarEvent | Contact | Task).uid;
+  const key = `${operation.resourceType}|${operation.resourceUrl}|${uid || ""}`;
+  return operation.targetUrl ? `${key}|${operation.type}>${operation.targetUrl}` : key;
+}
+
+/**
+ * Folds a new write into the one already queued for the same resource so
+ * only the net change is replayed. Returns null when the two cancel out.
+ */
+export function coalesceOperations(
+  queued: PendingOperation,
+  next: Pick<PendingOperation, "type" | "data">
+): Pick<PendingOperation, "type" | "data"> | null {
+  if (queued.type === "move" || queued.type === "copy") {
+    // The same transfer again: replay it once
+    return { type: queued.type, data: next.data };
+  }
+
+  if (queued.type === "create") {
+    // Never reached the server: keep creating it, or forget it entirely
+    return next.type === "delete" ? null : { type: "create", data: next.data };
+  }
+
+  if (queued.type === "delete") {
+    if (next.type !== "create") {
+      return { type: "delete", data: queued.data };
+    }
+    // Recreated after an offline delete: overwrite the server copy instead
+    const { etag, href } = queued.data as CalendarEvent | Contact | Task;
+    return { type: "update", data: { ...next.data, etag, href } };
+  }
+
+  return { type: next.type === "delete" ? "delete" : "update", data: next.data };
+}
+
+/**
+ * Returns the operations in replay order: collection changes first, then
+ * item changes, each oldest first
+ */
+export function orderOperations(operations: PendingOperation[]): PendingOperation[] {
+  return [...operations].sort(
+    (a, b) =>
+      RESOURCE_ORDER[a.resourceType] - RESOURCE_ORDER[b.resourceType] ||
+      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
+
+/**
+ * Exponential backoff before the next replay, from 30 seconds up to an hour
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+}
+
+/**
+ * Whether the server refused the write in a way retrying cannot fix:
+ * 403 Forbidden, 412 Precondition Failed outside a conflict check, or
+ * 415 Unsupported Media Type
+ */
+export function isPermanentError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /Access forbidden|Server error \((403|412|415)\)/.test(message);
+}
+
+/**
+ * Whether the server answered 404 Not Found, e.g. for a resource another
+ * client already deleted
+ */
+export function isNotFoundError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes("Resource not found") || /Server error \(404\)/.test(message);
+}
+
+/**
+ * Whether the resource was given a placeholder UID while offline
+ */
+export function hasOfflineUid(data: PendingOperation["data"]): boolean {
+  const uid = (data as CalendarEvent | Contact).uid;
+  return !!uid && uid.startsWith("offline-");
+}
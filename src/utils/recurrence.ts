@@ -0,0 +1,370 @@
+import { CalendarEvent, DateRange, RecurrenceRule } from "../types/dav";
+import ICAL from "ical.js";
+import { getZonedDateTime, zonedDateTimeToDate } from "./timezones";
+
+export type RecurrenceScope = "this" | "following" | "all";
+
+// Safety limit so malformed rules can never loop forever
+const MAX_RECURRENCE_ITERATIONS = 20000;
+
+/**
+ * Checks whether an event is a recurring series master or one of its occurrences
+ */
+export function isRecurringEvent(event: CalendarEvent): boolean {
+  return !!(event.rrule || event.master);
+}
+
+/**
+ * Builds the ical.js rule to iterate. UNTIL is left out: it is an absolute time,
+ * compared against each occurrence once converted back from wall-clock time.
+ */
+function toICalRecur(rule: RecurrenceRule): ICAL.Recur {
+  const parts = {
+    freq: rule.freq,
+    interval: rule.interval,
+    count: rule.count,
+    wkst: rule.wkst ? ICAL.Recur.icalDayToNumericDay(rule.wkst) : undefined,
+    byday: rule.byDay,
+    bymonthday: rule.byMonthDay,
+    bymonth: rule.byMonth,
+    byyearday: rule.byYearDay,
+    byweekno: rule.byWeekNo,
+    byhour: rule.byHour,
+    byminute: rule.byMinute,
+    bysecond: rule.bySecond,
+    bysetpos: rule.bySetPos,
+  };
+  // ical.js treats any present key as a rule part, even an undefined one
+  return ICAL.Recur.fromData(
+    Object.fromEntries(Object.entries(parts).filter(([, value]) => value !== undefined))
+  );
+}
+
+/**
+ * Computes occurrence start times of a rule, up to (and including) the given end.
+ * Occurrences keep the wall-clock time of DTSTART in its time zone (browser-local if none).
+ */
+export function getOccurrenceStarts(
+  dtstart: Date,
+  rule: RecurrenceRule,
+  end: Date,
+  minStart?: Date,
+  timeZone?: string
+): Date[] {
+  const local = timeZone
+    ? getZonedDateTime(dtstart, timeZone)
+    : {
+        year: dtstart.getFullYear(),
+        month: dtstart.getMonth() + 1,
+        day: dtstart.getDate(),
+        hour: dtstart.getHours(),
+        minute: dtstart.getMinutes(),
+        second: dtstart.getSeconds(),
+      };
+  const toDate = (time: ICAL.Time) =>
+    timeZone
+      ? zonedDateTimeToDate(
+          {
+            year: time.year,
+            month: time.month,
+            day: time.day,
+            hour: time.hour,
+            minute: time.minute,
+            second: time.second,
+          },
+          timeZone
+        )
+      : new Date(time.year, time.month - 1, time.day, time.hour, time.minute, time.second);
+
+  const starts: Date[] = [];
+  try {
+    // A floating start, so ical.js iterates in wall-clock time
+    const iterator = toICalRecur(rule).iterator(
+      new ICAL.Time({ ...local, isDate: false })
+    );
+
+    for (let i = 0; i < MAX_RECURRENCE_ITERATIONS; i++) {
+      const next = iterator.next();
+      if (!next) break;
+
+      const start = toDate(next);
+      if (rule.until && start > rule.until) break;
+      if (start > end) break;
+
+      if (!minStart || start >= minStart) {
+        starts.push(start);
+      }
+    }
+  } catch (error) {
+    // Rules ical.js rejects (e.g. BYWEEKNO in a MONTHLY rule) cannot be expanded
+    console.error("Failed to expand recurrence rule:", error);
+  }
+
+  return starts;
+}
+
+/**
+ * Expands a recurring event into the occurrences that overlap the date range
+ */
+export function expandRecurringEvent(
+  event: CalendarEvent,
+  dateRange: DateRange
+): CalendarEvent[] {
+  if (!event.rrule) {
+    return [event];
+  }
+
+  const dtstart = new Date(event.dtstart);
+  const duration = new Date(event.dtend).getTime() - dtstart.getTime();
+  const exdates = new Set((event.exdates || []).map((d) => new Date(d).getTime()));
+  const overrides = new Map<number, CalendarEvent>();
+  for (const override of event.overrides || []) {
+    if (override.recurrenceId) {
+      overrides.set(new Date(override.recurrenceId).getTime(), override);
+    }
+  }
+
+  const overlaps = (start: Date, end: Date) =>
+    start <= dateRange.end && end >= dateRange.start;
+
+  const occurrences: CalendarEvent[] = [];
+  const rangeEnd = new Date(dateRange.end);
+  const minStart = new Date(new Date(dateRange.start).getTime() - duration);
+
+  const timeZone = event.allDay ? undefined : event.timezone;
+
+  for (const start of getOccurrenceStarts(
+    dtstart,
+    event.rrule,
+    rangeEnd,
+    minStart,
+    timeZone
+  )) {
+    const time = start.getTime();
+    if (exdates.has(time)) continue;
+
+    const override = overrides.get(time);
+    overrides.delete(time);
+    const occurrence: CalendarEvent = override
+      ? { ...event, ...override, rrule: event.rrule, recurrenceId: start, master: event }
+      : {
+          ...event,
+          dtstart: start,
+          dtend: new Date(time + duration),
+          recurrenceId: start,
+          master: event,
+        };
+
+    if (overlaps(new Date(occurrence.dtstart), new Date(occurrence.dtend))) {
+      occurrences.push(occurrence);
+    }
+  }
+
+  // Overrides moved into the range from an occurrence outside of it
+  overrides.forEach((override, time) => {
+    if (exdates.has(time)) return;
+    if (overlaps(new Date(override.dtstart), new Date(override.dtend))) {
+      occurrences.push({
+        ...event,
+        ...override,
+        rrule: event.rrule,
+        recurrenceId: new Date(time),
+        master: event,
+      });
+    }
+  });
+
+  return occurrences;
+}
+
+/**
+ * Expands all recurring events in a list into their occurrences within the date range
+ */
+export function expandRecurringEvents(
+  events: CalendarEvent[],
+  dateRange: DateRange
+): CalendarEvent[] {
+  return events.flatMap((event) => expandRecurringEvent(event, dateRange));
+}
+
+function isSameTime(a: Date | undefined, b: Date | undefined): boolean {
+  return !!a && !!b && new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * Ends a series just before the given occurrence, dropping later exceptions
+ */
+function truncateSeries(master: CalendarEvent, recurrenceId: Date): CalendarEvent {
+  const cutoff = new Date(recurrenceId).getTime();
+  return {
+    ...master,
+    rrule: master.rrule && {
+      ...master.rrule,
+      count: undefined,
+      until: new Date(cutoff - 1000),
+    },
+    exdates: (master.exdates || []).filter((d) => new Date(d).getTime() < cutoff),
+    overrides: (master.overrides || []).filter(
+      (o) => !o.recurrenceId || new Date(o.recurrenceId).getTime() < cutoff
+    ),
+  };
+}
+
+/**
+ * Applies an edit of a single occurrence to its series, returning the events to write back.
+ * The edited event must carry the `master` and `recurrenceId` of the occurrence.
+ */
+export function applyRecurringEventUpdate(
+  edited: CalendarEvent,
+  scope: RecurrenceScope
+): { update: CalendarEvent; create?: CalendarEvent } {
+  const { master, recurrenceId } = edited;
+  if (!master || !recurrenceId) {
+    return { update: edited };
+  }
+
+  const fields = {
+    summary: edited.summary,
+    description: edited.description,
+    location: edited.location,
+    timezone: edited.timezone,
+    alarms: edited.alarms,
+    organizer: edited.organizer,
+    attendees: edited.attendees,
+  };
+
+  if (scope === "this") {
+    const override: CalendarEvent = {
+      uid: master.uid,
+      ...fields,
+      dtstart: edited.dtstart,
+      dtend: edited.dtend,
+      recurrenceId,
+    };
+    return {
+      update: {
+        ...master,
+        overrides: [
+          ...(master.overrides || []).filter(
+            (o) => !isSameTime(o.recurrenceId, recurrenceId)
+          ),
+          override,
+        ],
+      },
+    };
+  }
+
+  const startsSeries = isSameTime(master.dtstart, recurrenceId);
+
+  if (scope === "all" || startsSeries) {
+    // Shift the series by however much this occurrence was moved
+    const original =
+      (master.overrides || []).find((o) => isSameTime(o.recurrenceId, recurrenceId))
+        ?.dtstart || recurrenceId;
+    const delta = new Date(edited.dtstart).getTime() - new Date(original).getTime();
+    const duration =
+      new Date(edited.dtend).getTime() - new Date(edited.dtstart).getTime();
+    const dtstart = new Date(new Date(master.dtstart).getTime() + delta);
+    const keepExceptions = delta === 0 && !!edited.rrule;
+
+    return {
+      update: {
+        ...master,
+        ...fields,
+        dtstart,
+        dtend: new Date(dtstart.getTime() + duration),
+        rrule: edited.rrule,
+        exdates: keepExceptions ? master.exdates : undefined,
+        overrides: keepExceptions ? master.overrides : undefined,
+      },
+    };
+  }
+
+  // "this and following": end the current series and start a new one here
+  let rrule = edited.rrule;
+  if (rrule && rrule.count && master.rrule) {
+    const elapsed = getOccurrenceStarts(
+      new Date(master.dtstart),
+      master.rrule,
+      new Date(new Date(recurrenceId).getTime() - 1),
+      undefined,
+      master.allDay ? undefined : master.timezone
+    ).length;
+    rrule = { ...rrule, count: Math.max(1, rrule.count - elapsed) };
+  }
+
+  return {
+    update: truncateSeries(master, recurrenceId),
+    create: {
+      ...edited,
+      uid: `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      rrule,
+      etag: undefined,
+      raw: undefined,
+      exdates: undefined,
+      overrides: undefined,
+      recurrenceId: undefined,
+      master: undefined,
+    },
+  };
+}
+
+/**
+ * Applies the deletion of a single occurrence to its series, returning the resulting writes.
+ * `remove` is set when the whole series has to be deleted.
+ */
+export function applyRecurringEventDelete(
+  occurrence: CalendarEvent,
+  scope: RecurrenceScope
+): { update?: CalendarEvent; remove?: CalendarEvent } {
+  const { master, recurrenceId } = occurrence;
+  if (!master || !recurrenceId) {
+    return { remove: occurrence };
+  }
+
+  if (scope === "all" || (scope === "following" && isSameTime(master.dtstart, recurrenceId))) {
+    return { remove: master };
+  }
+
+  if (scope === "following") {
+    return { update: truncateSeries(master, recurrenceId) };
+  }
+
+  return {
+    update: {
+      ...master,
+      exdates: [...(master.exdates || []), new Date(recurrenceId)],
+      overrides: (master.overrides || []).filter(
+        (o) => !isSameTime(o.recurrenceId, recurrenceId)
+      ),
+    },
+  };
+}
+
+/**
+ * Describes a recurrence rule in plain language (e.g. "Every 2 weeks, 10 times")
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const units: Record<RecurrenceRule["freq"], string> = {
+    DAILY: "day",
+    WEEKLY: "week",
+    MONTHLY: "month",
+    YEARLY: "year",
+    HOURLY: "hour",
+    MINUTELY: "minute",
+    SECONDLY: "second",
+  };
+  const interval = rule.interval || 1;
+  let description =
+    interval === 1
+      ? `Every ${units[rule.freq]}`
+      : `Every ${interval} ${units[rule.freq]}s`;
+
+  if (rule.count) {
+    description += `, ${rule.count} times`;
+  } else if (rule.until) {
+    description += `, until ${new Date(rule.until).toLocaleDateString()}`;
+  }
+
+  return description;
+}
@@ -1,11 +1,12 @@
 import { EncryptionService } from './encryption';
-import { AuthConfig, EncryptedCredentials } from '../types/auth';
+import { Account, AuthConfig, EncryptedCredentials } from '../types/auth';
 
 /**
  * Secure storage wrapper for browser local storage operations
  */
 export class SecureStorage {
   private static readonly CREDENTIALS_KEY = 'caldav_credentials';
+  private static readonly ACCOUNTS_KEY = 'caldav_accounts';
   private static readonly STORAGE_VERSION_KEY = 'caldav_storage_version';
   private static readonly CURRENT_VERSION = '1.0';
 
@@ -63,6 +64,57 @@ export class SecureStorage {
     }
   }
 
+  /**
+   * Stores the accounts added next to the one set up first, encrypted with
+   * the same master password
+   */
+  static async storeAccounts(accounts: Account[], masterPassword: string): Promise<void> {
+    if (!this.isLocalStorageAvailable()) {
+      throw new Error('Local storage is not available');
+    }
+
+    if (!EncryptionService.isSupported()) {
+      throw new Error('Web Crypto API is not supported in this browser');
+    }
+
+    try {
+      if (accounts.length === 0) {
+        localStorage.removeItem(this.ACCOUNTS_KEY);
+        return;
+      }
+
+      const encryptedAccounts = await EncryptionService.encryptCredentials(accounts, masterPassword);
+      localStorage.setItem(this.ACCOUNTS_KEY, JSON.stringify(encryptedAccounts));
+    } catch (error) {
+      throw new Error(`Failed to store accounts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Retrieves and decrypts the added accounts; empty if there are none
+   */
+  static async retrieveAccounts(masterPassword: string): Promise<Account[]> {
+    if (!this.isLocalStorageAvailable()) {
+      throw new Error('Local storage is not available');
+    }
+
+    if (!EncryptionService.isSupported()) {
+      throw new Error('Web Crypto API is not supported in this browser');
+    }
+
+    try {
+      const storedData = localStorage.getItem(this.ACCOUNTS_KEY);
+      if (!storedData) {
+        return [];
+      }
+
+      const encryptedAccounts: EncryptedCredentials = JSON.parse(storedData);
+      return await EncryptionService.decryptCredentials<Account[]>(encryptedAccounts, masterPassword);
+    } catch (error) {
+      throw new Error(`Failed to retrieve accounts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Checks if credentials exist in storage
    */
@@ -83,6 +135,7 @@ export class SecureStorage {
     }
 
     localStorage.removeItem(this.CREDENTIALS_KEY);
+    localStorage.removeItem(this.ACCOUNTS_KEY);
     localStorage.removeItem(this.STORAGE_VERSION_KEY);
   }
 
@@ -1,16 +1,15 @@
-import { CacheService } from '../services/CacheService';
 import { NetworkService } from '../services/NetworkService';
 import { ErrorHandlingService } from '../services/ErrorHandlingService';
 import { AddressBookColorService } from '../services/AddressBookColorService';
 import { assignDefaultColorsIfMissing } from './calendarColors';
 import { Calendar, AddressBook } from '../types/dav';
-import { SyncService } from '../services/SyncService';
+import { SyncApi } from '../services/SyncService';
 
 export const syncUtils = {
   /**
    * Performs a full manual sync and returns updated data
    */
-  async performManualSync(syncService: SyncService): Promise<{
+  async performManualSync(syncService: SyncApi): Promise<{
     calendars: Calendar[];
     addressBooks: AddressBook[];
   }> {
@@ -22,8 +21,8 @@ export const syncUtils = {
 
     await syncService.fullSync({ forceRefresh: true });
 
-    const cachedCalendars = CacheService.getCachedCalendars();
-    const cachedAddressBooks = CacheService.getCachedAddressBooks();
+    const cachedCalendars = await syncService.getCachedCalendars();
+    const cachedAddressBooks = await syncService.getCachedAddressBooks();
 
     const calendarsWithColors = assignDefaultColorsIfMissing(cachedCalendars);
     const addressBooksWithColors = AddressBookColorService.applyColorsToAddressBooks(cachedAddressBooks);
@@ -37,7 +36,7 @@ export const syncUtils = {
   /**
    * Loads calendars and address books from cache and optionally syncs with server
    */
-  async loadDataWithSync(syncService: SyncService): Promise<{
+  async loadDataWithSync(syncService: SyncApi): Promise<{
     calendars: Calendar[];
     addressBooks: AddressBook[];
   }> {
@@ -45,8 +44,8 @@ export const syncUtils = {
     const isOnline = networkService.isOnline();
 
     // Always load from cache first
-    const cachedCalendars = CacheService.getCachedCalendars();
-    const cachedAddressBooks = CacheService.getCachedAddressBooks();
+    const cachedCalendars = await syncService.getCachedCalendars();
+    const cachedAddressBooks = await syncService.getCachedAddressBooks();
 
     console.log("Setting calendars from cache:", cachedCalendars.length);
     const calendarsWithColors = assignDefaultColorsIfMissing(cachedCalendars);
@@ -61,8 +60,8 @@ export const syncUtils = {
         await syncService.syncAddressBooks();
 
         // Get fresh data after sync
-        const freshCalendars = CacheService.getCachedCalendars();
-        const freshAddressBooks = CacheService.getCachedAddressBooks();
+        const freshCalendars = await syncService.getCachedCalendars();
+        const freshAddressBooks = await syncService.getCachedAddressBooks();
 
         if (freshCalendars.length !== cachedCalendars.length || 
             freshAddressBooks.length !== cachedAddressBooks.length) {
@@ -0,0 +1,89 @@
+import { Calendar, Task } from '../types/dav';
+
+/**
+ * Whether a calendar can hold tasks. Servers that do not report
+ * supported-calendar-component-set accept every component.
+ */
+export function isTaskList(calendar: Calendar): boolean {
+  return !calendar.components || calendar.components.indexOf('VTODO') >= 0;
+}
+
+export function isTaskCompleted(task: Task): boolean {
+  return task.status === 'COMPLETED' || task.status === 'CANCELLED';
+}
+
+// Missing values sort after the ones that are set
+const compareOptional = (a: number | undefined, b: number | undefined): number =>
+  (a ?? Number.MAX_SAFE_INTEGER) - (b ?? Number.MAX_SAFE_INTEGER);
+
+/**
+ * Orders tasks by their manual sort order, then by priority (1 is highest),
+ * due date and summary. Open tasks come before completed ones.
+ */
+export function sortTasks(tasks: Task[]): Task[] {
+  return [...tasks].sort(
+    (a, b) =>
+      Number(isTaskCompleted(a)) - Number(isTaskCompleted(b)) ||
+      compareOptional(a.sortOrder, b.sortOrder) ||
+      compareOptional(a.priority, b.priority) ||
+      compareOptional(a.due?.getTime(), b.due?.getTime()) ||
+      a.summary.localeCompare(b.summary)
+  );
+}
+
+/**
+ * Returns the sorted subtasks of a task, or the top-level tasks when no
+ * parent is given. Tasks whose parent is not in the list count as top-level.
+ */
+export function getChildTasks(tasks: Task[], parentUid?: string): Task[] {
+  const uids = new Set(tasks.map(task => task.uid));
+  return sortTasks(
+    tasks.filter(task =>
+      parentUid
+        ? task.relatedTo === parentUid
+        : !task.relatedTo || !uids.has(task.relatedTo)
+    )
+  );
+}
+
+/**
+ * Marks a task as completed or reopens it
+ */
+export function setTaskCompleted(task: Task, completed: boolean, now: Date = new Date()): Task {
+  return completed
+    ? { ...task, status: 'COMPLETED', percentComplete: 100, completed: now }
+    : { ...task, status: 'NEEDS-ACTION', percentComplete: 0, completed: undefined };
+}
+
+/**
+ * Moves a task one place up or down among its sorted siblings and numbers
+ * them again. Returns only the tasks whose sort order changed.
+ */
+export function moveTask(siblings: Task[], uid: string, direction: -1 | 1): Task[] {
+  const index = siblings.findIndex(task => task.uid === uid);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= siblings.length) {
+    return [];
+  }
+
+  const reordered = [...siblings];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+  return reordered
+    .filter((task, position) => task.sortOrder !== position)
+    .map(task => ({ ...task, sortOrder: reordered.indexOf(task) }));
+}
+
+/**
+ * Returns the tasks due on a day, leaving out cancelled ones
+ */
+export function getTasksDueOn(tasks: Task[], date: Date): Task[] {
+  return tasks.filter(
+    task =>
+      task.due &&
+      task.status !== 'CANCELLED' &&
+      task.due.getFullYear() === date.getFullYear() &&
+      task.due.getMonth() === date.getMonth() &&
+      task.due.getDate() === date.getDate()
+  );
+}
@@ -0,0 +1,218 @@
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12, as in iCalendar
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export interface TimeZoneTransition {
+  at: Date; // First instant with the new offset
+  offsetFrom: number; // Minutes east of UTC before the transition
+  offsetTo: number; // Minutes east of UTC after the transition
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Used when the runtime cannot list its time zones
+const FALLBACK_TIME_ZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Paris",
+  "Europe/Berlin",
+  "Europe/Moscow",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Shanghai",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Returns the IANA time zone of the browser
+ */
+export function getBrowserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+/**
+ * Checks whether the runtime knows the given IANA time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Lists the IANA time zones offered in time zone pickers
+ */
+export function getSupportedTimeZones(): string[] {
+  const intl = Intl as unknown as {
+    supportedValuesOf?: (key: string) => string[];
+  };
+  const zones = intl.supportedValuesOf
+    ? intl.supportedValuesOf("timeZone")
+    : FALLBACK_TIME_ZONES;
+  return zones.includes("UTC") ? zones : ["UTC", ...zones];
+}
+
+/**
+ * Returns the wall-clock date and time of an instant in the given time zone
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Returns the UTC offset of the time zone at the given instant, in minutes
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const zoned = getZonedDateTime(date, timeZone);
+  const asUtc = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hour,
+    zoned.minute,
+    zoned.second
+  );
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+/**
+ * Converts a wall-clock date and time in the given time zone to an instant.
+ * Times skipped by a DST change resolve to the same offset as just before it.
+ */
+export function zonedDateTimeToDate(zoned: ZonedDateTime, timeZone: string): Date {
+  const asUtc = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hour,
+    zoned.minute,
+    zoned.second
+  );
+  const firstOffset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  const guess = asUtc - firstOffset * 60000;
+  const secondOffset = getTimeZoneOffset(new Date(guess), timeZone);
+  return new Date(
+    secondOffset === firstOffset ? guess : asUtc - secondOffset * 60000
+  );
+}
+
+/**
+ * Finds the UTC offset changes of a time zone within a calendar year
+ */
+export function getTimeZoneTransitions(
+  timeZone: string,
+  year: number
+): TimeZoneTransition[] {
+  const transitions: TimeZoneTransition[] = [];
+  const yearEnd = Date.UTC(year + 1, 0, 1);
+  let previous = Date.UTC(year, 0, 1);
+  let previousOffset = getTimeZoneOffset(new Date(previous), timeZone);
+
+  for (let time = previous + DAY_MS; time <= yearEnd; time += DAY_MS) {
+    const offset = getTimeZoneOffset(new Date(time), timeZone);
+    if (offset !== previousOffset) {
+      // Narrow the change down to the minute
+      let low = previous;
+      let high = time;
+      while (high - low > 60000) {
+        const middle = low + Math.floor((high - low) / 120000) * 60000;
+        if (getTimeZoneOffset(new Date(middle), timeZone) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({
+        at: new Date(high),
+        offsetFrom: previousOffset,
+        offsetTo: offset,
+      });
+    }
+    previous = time;
+    previousOffset = offset;
+  }
+
+  return transitions;
+}
+
+/**
+ * Formats a UTC offset in minutes as "+HHMM"
+ */
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, "0");
+  const rest = String(absolute % 60).padStart(2, "0");
+  return `${sign}${hours}${rest}`;
+}
+
+/**
+ * Returns the short name of a time zone at an instant, e.g. "CET" or "GMT+1"
+ */
+export function getTimeZoneAbbreviation(date: Date, timeZone: string): string {
+  try {
+    const part = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      timeZoneName: "short",
+    })
+      .formatToParts(date)
+      .find((p) => p.type === "timeZoneName");
+    return part ? part.value : timeZone;
+  } catch {
+    return timeZone;
+  }
+}